@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN     "late_minutes" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "holiday_type" AS ENUM ('national', 'collective_leave', 'regional', 'institution');
+
+-- CreateTable
+CREATE TABLE "holidays" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "holiday_type" NOT NULL DEFAULT 'national',
+    "description" TEXT,
+    "office_location_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "holidays_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "holidays_date_idx" ON "holidays"("date");
+
+-- CreateIndex
+CREATE INDEX "holidays_office_location_id_idx" ON "holidays"("office_location_id");
+
+-- AddForeignKey
+ALTER TABLE "holidays" ADD CONSTRAINT "holidays_office_location_id_fkey" FOREIGN KEY ("office_location_id") REFERENCES "office_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "shift_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "shifts" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "start_time" TIME NOT NULL,
+    "end_time" TIME NOT NULL,
+    "late_tolerance_minutes" INTEGER,
+    "description" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shifts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "shift_rosters" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "shift_id" TEXT,
+    "date" DATE NOT NULL,
+    "notes" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "shift_rosters_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shifts_code_key" ON "shifts"("code");
+
+-- CreateIndex
+CREATE INDEX "shift_rosters_date_idx" ON "shift_rosters"("date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "shift_rosters_user_id_date_key" ON "shift_rosters"("user_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_rosters" ADD CONSTRAINT "shift_rosters_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "shift_rosters" ADD CONSTRAINT "shift_rosters_shift_id_fkey" FOREIGN KEY ("shift_id") REFERENCES "shifts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
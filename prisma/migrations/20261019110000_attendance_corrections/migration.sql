@@ -0,0 +1,52 @@
+-- AlterEnum
+ALTER TYPE "document_type" ADD VALUE 'attendance_correction';
+
+-- AlterTable
+ALTER TABLE "approvals" ADD COLUMN "attendance_correction_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "attendance_correction_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "attendance_id" TEXT,
+    "attendance_date" DATE NOT NULL,
+    "requested_check_in_time" TIMESTAMP(3),
+    "requested_check_out_time" TIMESTAMP(3),
+    "requested_status" "attendance_status",
+    "reason" TEXT NOT NULL,
+    "attachment_file" TEXT,
+    "status" "request_status" NOT NULL DEFAULT 'pending',
+    "current_approver_id" TEXT,
+    "rejection_reason" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approved_at" TIMESTAMP(3),
+    "rejected_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_correction_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_user_id_status_idx" ON "attendance_correction_requests"("user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_current_approver_id_idx" ON "attendance_correction_requests"("current_approver_id");
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_attendance_date_idx" ON "attendance_correction_requests"("attendance_date");
+
+-- CreateIndex
+CREATE INDEX "attendance_correction_requests_status_submitted_at_idx" ON "attendance_correction_requests"("status", "submitted_at");
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_attendance_id_fkey" FOREIGN KEY ("attendance_id") REFERENCES "attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_correction_requests" ADD CONSTRAINT "attendance_correction_requests_current_approver_id_fkey" FOREIGN KEY ("current_approver_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approvals" ADD CONSTRAINT "approval_attendance_correction_fkey" FOREIGN KEY ("attendance_correction_id") REFERENCES "attendance_correction_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "auto_closed_at" TIMESTAMP(3);
@@ -0,0 +1,57 @@
+-- AlterEnum
+ALTER TYPE "document_type" ADD VALUE 'overtime';
+
+-- AlterTable
+ALTER TABLE "approvals" ADD COLUMN "overtime_request_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "overtime_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "submitted_by_id" TEXT NOT NULL,
+    "attendance_id" TEXT,
+    "overtime_date" DATE NOT NULL,
+    "start_time" TIMESTAMP(3) NOT NULL,
+    "end_time" TIMESTAMP(3) NOT NULL,
+    "is_working_day" BOOLEAN NOT NULL DEFAULT true,
+    "requested_minutes" INTEGER NOT NULL,
+    "approved_minutes" INTEGER,
+    "reason" TEXT NOT NULL,
+    "status" "request_status" NOT NULL DEFAULT 'pending',
+    "current_approver_id" TEXT,
+    "rejection_reason" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approved_at" TIMESTAMP(3),
+    "rejected_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "overtime_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_user_id_status_idx" ON "overtime_requests"("user_id", "status");
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_current_approver_id_idx" ON "overtime_requests"("current_approver_id");
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_overtime_date_status_idx" ON "overtime_requests"("overtime_date", "status");
+
+-- CreateIndex
+CREATE INDEX "overtime_requests_status_submitted_at_idx" ON "overtime_requests"("status", "submitted_at");
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_submitted_by_id_fkey" FOREIGN KEY ("submitted_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_attendance_id_fkey" FOREIGN KEY ("attendance_id") REFERENCES "attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "overtime_requests" ADD CONSTRAINT "overtime_requests_current_approver_id_fkey" FOREIGN KEY ("current_approver_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approvals" ADD CONSTRAINT "approval_overtime_request_fkey" FOREIGN KEY ("overtime_request_id") REFERENCES "overtime_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- CreateEnum
+CREATE TYPE "punch_type" AS ENUM ('in', 'out', 'break_start', 'break_end');
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "break_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "attendance_punches" (
+    "id" TEXT NOT NULL,
+    "attendance_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "attendance_date" DATE NOT NULL,
+    "punch_type" "punch_type" NOT NULL,
+    "punch_time" TIMESTAMP(3) NOT NULL,
+    "latitude" DECIMAL(10,8),
+    "longitude" DECIMAL(11,8),
+    "address" TEXT,
+    "office_location_id" TEXT,
+    "distance_meters" INTEGER,
+    "is_valid_location" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_punches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_attendance_id_punch_time_idx" ON "attendance_punches"("attendance_id", "punch_time");
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_user_id_attendance_date_idx" ON "attendance_punches"("user_id", "attendance_date");
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_attendance_id_fkey" FOREIGN KEY ("attendance_id") REFERENCES "attendance"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_punches" ADD CONSTRAINT "attendance_punches_office_location_id_fkey" FOREIGN KEY ("office_location_id") REFERENCES "office_locations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "office_locations" ADD COLUMN "boundary" JSONB,
+ADD COLUMN "boundary_buffer_meters" INTEGER NOT NULL DEFAULT 20;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "attendance_review_status" AS ENUM ('pending', 'cleared', 'rejected');
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "fraud_score" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "fraud_signals" JSONB,
+ADD COLUMN "review_status" "attendance_review_status",
+ADD COLUMN "reviewer_id" TEXT,
+ADD COLUMN "reviewed_at" TIMESTAMP(3),
+ADD COLUMN "review_notes" TEXT;
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN "accuracy_meters" DOUBLE PRECISION,
+ADD COLUMN "device_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "attendance_review_status_reviewer_id_idx" ON "attendance"("review_status", "reviewer_id");
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_user_id_punch_time_idx" ON "attendance_punches"("user_id", "punch_time");
+
+-- CreateIndex
+CREATE INDEX "attendance_punches_device_id_punch_time_idx" ON "attendance_punches"("device_id", "punch_time");
+
+-- AddForeignKey
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_reviewer_id_fkey" FOREIGN KEY ("reviewer_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "office_locations" ADD COLUMN "tolerance_meters" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN "max_accuracy_meters" INTEGER NOT NULL DEFAULT 100;
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "check_in_accuracy" DOUBLE PRECISION,
+ADD COLUMN "check_in_altitude" DOUBLE PRECISION,
+ADD COLUMN "check_in_fix_time" TIMESTAMP(3),
+ADD COLUMN "check_out_accuracy" DOUBLE PRECISION,
+ADD COLUMN "check_out_altitude" DOUBLE PRECISION,
+ADD COLUMN "check_out_fix_time" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN "altitude_meters" DOUBLE PRECISION,
+ADD COLUMN "fix_time" TIMESTAMP(3);
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "roles" ADD COLUMN "require_attendance_photo" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "office_locations" ADD COLUMN "require_photo" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "check_in_photo_path" TEXT,
+ADD COLUMN "check_out_photo_path" TEXT;
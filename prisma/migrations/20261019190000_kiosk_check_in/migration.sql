@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "kiosk_mode" AS ENUM ('disabled', 'qr_only', 'qr_with_gps');
+
+-- AlterTable
+ALTER TABLE "office_locations" ADD COLUMN "kiosk_mode" "kiosk_mode" NOT NULL DEFAULT 'disabled',
+ADD COLUMN "kiosk_key" TEXT;
+
+-- CreateTable
+CREATE TABLE "kiosk_scans" (
+    "id" TEXT NOT NULL,
+    "token_id" TEXT NOT NULL,
+    "office_location_id" TEXT NOT NULL,
+    "kiosk_id" TEXT,
+    "user_id" TEXT NOT NULL,
+    "attendance_id" TEXT,
+    "ip_address" TEXT,
+    "user_agent" TEXT,
+    "scanned_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "kiosk_scans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "office_locations_kiosk_key_key" ON "office_locations"("kiosk_key");
+
+-- CreateIndex
+CREATE INDEX "kiosk_scans_office_location_id_scanned_at_idx" ON "kiosk_scans"("office_location_id", "scanned_at");
+
+-- CreateIndex
+CREATE INDEX "kiosk_scans_user_id_scanned_at_idx" ON "kiosk_scans"("user_id", "scanned_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "kiosk_scans_token_id_user_id_key" ON "kiosk_scans"("token_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "kiosk_scans" ADD CONSTRAINT "kiosk_scans_office_location_id_fkey" FOREIGN KEY ("office_location_id") REFERENCES "office_locations"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosk_scans" ADD CONSTRAINT "kiosk_scans_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "kiosk_scans" ADD CONSTRAINT "kiosk_scans_attendance_id_fkey" FOREIGN KEY ("attendance_id") REFERENCES "attendance"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "check_in_synced_at" TIMESTAMP(3),
+ADD COLUMN "check_out_synced_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN "synced_at" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "attendance_device_keys" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "device_id" TEXT NOT NULL,
+    "public_key" JSONB NOT NULL,
+    "last_used_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "attendance_device_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "attendance_device_keys_user_id_device_id_key" ON "attendance_device_keys"("user_id", "device_id");
+
+-- AddForeignKey
+ALTER TABLE "attendance_device_keys" ADD CONSTRAINT "attendance_device_keys_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "work_mode" AS ENUM ('office', 'wfh');
+
+-- AlterEnum
+ALTER TYPE "document_type" ADD VALUE 'work_from_home';
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "home_radius_meters" INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN "home_location_approved_at" TIMESTAMP(3),
+ADD COLUMN "home_location_approved_by_id" TEXT,
+ADD COLUMN "wfh_days" "day_of_week"[] DEFAULT ARRAY[]::"day_of_week"[];
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "work_mode" "work_mode" NOT NULL DEFAULT 'office';
+
+-- AlterTable
+ALTER TABLE "approvals" ADD COLUMN "work_from_home_request_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "work_from_home_requests" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "wfh_date" DATE NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" "request_status" NOT NULL DEFAULT 'pending',
+    "current_approver_id" TEXT,
+    "rejection_reason" TEXT,
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "approved_at" TIMESTAMP(3),
+    "rejected_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "work_from_home_requests_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "work_from_home_requests_user_id_wfh_date_idx" ON "work_from_home_requests"("user_id", "wfh_date");
+
+-- CreateIndex
+CREATE INDEX "work_from_home_requests_current_approver_id_idx" ON "work_from_home_requests"("current_approver_id");
+
+-- CreateIndex
+CREATE INDEX "work_from_home_requests_status_submitted_at_idx" ON "work_from_home_requests"("status", "submitted_at");
+
+-- AddForeignKey
+ALTER TABLE "users" ADD CONSTRAINT "users_home_location_approved_by_id_fkey" FOREIGN KEY ("home_location_approved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_from_home_requests" ADD CONSTRAINT "work_from_home_requests_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "work_from_home_requests" ADD CONSTRAINT "work_from_home_requests_current_approver_id_fkey" FOREIGN KEY ("current_approver_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "approvals" ADD CONSTRAINT "approval_work_from_home_request_fkey" FOREIGN KEY ("work_from_home_request_id") REFERENCES "work_from_home_requests"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "work_mode" ADD VALUE 'field_duty';
+
+-- AlterTable
+ALTER TABLE "work_letters" ADD COLUMN "destination_name" TEXT,
+ADD COLUMN "destination_latitude" DOUBLE PRECISION,
+ADD COLUMN "destination_longitude" DOUBLE PRECISION,
+ADD COLUMN "destination_radius_meters" INTEGER NOT NULL DEFAULT 200;
+
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN "work_letter_id" TEXT;
+
+-- AddForeignKey
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_work_letter_id_fkey" FOREIGN KEY ("work_letter_id") REFERENCES "work_letters"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "office_assignments" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "office_location_id" TEXT NOT NULL,
+    "days_of_week" "day_of_week"[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "office_assignments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "office_assignments_office_location_id_idx" ON "office_assignments"("office_location_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "office_assignments_user_id_office_location_id_key" ON "office_assignments"("user_id", "office_location_id");
+
+-- AddForeignKey
+ALTER TABLE "office_assignments" ADD CONSTRAINT "office_assignments_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "office_assignments" ADD CONSTRAINT "office_assignments_office_location_id_fkey" FOREIGN KEY ("office_location_id") REFERENCES "office_locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
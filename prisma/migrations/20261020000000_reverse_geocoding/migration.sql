@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "named_areas" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "latitude" DECIMAL(10,8) NOT NULL,
+    "longitude" DECIMAL(11,8) NOT NULL,
+    "radius_meters" INTEGER NOT NULL DEFAULT 500,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "named_areas_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "geocode_cache" (
+    "id" TEXT NOT NULL,
+    "cache_key" TEXT NOT NULL,
+    "address" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "geocode_cache_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "named_areas_name_key" ON "named_areas"("name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "geocode_cache_cache_key_key" ON "geocode_cache"("cache_key");
+
+-- CreateIndex
+CREATE INDEX "geocode_cache_expires_at_idx" ON "geocode_cache"("expires_at");
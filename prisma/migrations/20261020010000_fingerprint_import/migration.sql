@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "punch_source" AS ENUM ('app', 'fingerprint');
+
+-- AlterTable
+ALTER TABLE "attendance_punches" ADD COLUMN     "source" "punch_source" NOT NULL DEFAULT 'app',
+ADD COLUMN     "source_reference" TEXT;
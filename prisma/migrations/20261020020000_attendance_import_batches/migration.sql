@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "attendance" ADD COLUMN     "import_batch_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "attendance_import_batches" (
+    "id" TEXT NOT NULL,
+    "file_name" TEXT NOT NULL,
+    "row_count" INTEGER NOT NULL,
+    "created_count" INTEGER NOT NULL,
+    "imported_by_id" TEXT NOT NULL,
+    "undone_at" TIMESTAMP(3),
+    "undone_by_id" TEXT,
+    "undone_count" INTEGER NOT NULL DEFAULT 0,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attendance_import_batches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attendance_import_batch_id_idx" ON "attendance"("import_batch_id");
+
+-- CreateIndex
+CREATE INDEX "attendance_import_batches_created_at_idx" ON "attendance_import_batches"("created_at");
+
+-- AddForeignKey
+ALTER TABLE "attendance" ADD CONSTRAINT "attendance_import_batch_id_fkey" FOREIGN KEY ("import_batch_id") REFERENCES "attendance_import_batches"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_import_batches" ADD CONSTRAINT "attendance_import_batches_imported_by_id_fkey" FOREIGN KEY ("imported_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attendance_import_batches" ADD CONSTRAINT "attendance_import_batches_undone_by_id_fkey" FOREIGN KEY ("undone_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "tpp_deduction_category" AS ENUM ('late', 'early_leave', 'absent');
+
+-- CreateTable
+CREATE TABLE "tpp_deduction_rules" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "category" "tpp_deduction_category" NOT NULL,
+    "min_minutes" INTEGER NOT NULL DEFAULT 1,
+    "max_minutes" INTEGER,
+    "percentage" DECIMAL(5,2) NOT NULL,
+    "description" TEXT,
+    "applies_to_missing_punch" BOOLEAN NOT NULL DEFAULT false,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "tpp_deduction_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tpp_deduction_rules_code_key" ON "tpp_deduction_rules"("code");
+
+-- CreateIndex
+CREATE INDEX "tpp_deduction_rules_category_min_minutes_idx" ON "tpp_deduction_rules"("category", "min_minutes");
@@ -85,6 +85,38 @@ async function main() {
             category: 'attendance',
             isEditable: true
         },
+        {
+            key: 'TIMEZONE',
+            value: 'Asia/Jakarta',
+            description: 'Zona waktu instansi untuk perhitungan jam kerja',
+            dataType: 'string',
+            category: 'attendance',
+            isEditable: true
+        },
+        {
+            key: 'OPEN_ATTENDANCE_POLICY',
+            value: 'CAP_AT_SCHEDULE_END',
+            description: 'Penanganan absen tanpa check-out: CAP_AT_SCHEDULE_END, HALF_DAY, atau FLAG_FOR_CORRECTION',
+            dataType: 'string',
+            category: 'attendance',
+            isEditable: true
+        },
+        {
+            key: 'OFFLINE_SYNC_WINDOW_HOURS',
+            value: '12',
+            description: 'Batas waktu sinkronisasi absen yang direkam saat offline (dalam jam)',
+            dataType: 'number',
+            category: 'attendance',
+            isEditable: true
+        },
+        {
+            key: 'ENFORCE_ASSIGNED_OFFICE',
+            value: 'false',
+            description: 'Batasi check-in ke lokasi kantor yang ditugaskan untuk pegawai pada hari tersebut',
+            dataType: 'boolean',
+            category: 'attendance',
+            isEditable: true
+        },
         {
             key: 'FINGERPRINT_REQUIRED',
             value: 'true',
@@ -790,6 +822,35 @@ async function main() {
 
     console.log('✅ User leave balances seeded')
 
+    // ============================================================================
+    // TPP DEDUCTION RULES - Potongan Tunjangan Tambahan Penghasilan
+    // ============================================================================
+
+    const tppDeductionRules = [
+        { code: 'TL1', category: 'LATE' as const, minMinutes: 1, maxMinutes: 30, percentage: 0.5, description: 'Terlambat 1 s.d. 30 menit' },
+        { code: 'TL2', category: 'LATE' as const, minMinutes: 31, maxMinutes: 60, percentage: 1, description: 'Terlambat 31 s.d. 60 menit' },
+        { code: 'TL3', category: 'LATE' as const, minMinutes: 61, maxMinutes: 90, percentage: 1.25, description: 'Terlambat 61 s.d. 90 menit' },
+        { code: 'TL4', category: 'LATE' as const, minMinutes: 91, maxMinutes: null, percentage: 1.5, description: 'Terlambat lebih dari 90 menit atau tidak absen masuk', appliesToMissingPunch: true },
+        { code: 'PSW1', category: 'EARLY_LEAVE' as const, minMinutes: 1, maxMinutes: 30, percentage: 0.5, description: 'Pulang 1 s.d. 30 menit sebelum waktunya' },
+        { code: 'PSW2', category: 'EARLY_LEAVE' as const, minMinutes: 31, maxMinutes: 60, percentage: 1, description: 'Pulang 31 s.d. 60 menit sebelum waktunya' },
+        { code: 'PSW3', category: 'EARLY_LEAVE' as const, minMinutes: 61, maxMinutes: 90, percentage: 1.25, description: 'Pulang 61 s.d. 90 menit sebelum waktunya' },
+        { code: 'PSW4', category: 'EARLY_LEAVE' as const, minMinutes: 91, maxMinutes: null, percentage: 1.5, description: 'Pulang lebih dari 90 menit sebelum waktunya atau tidak absen pulang', appliesToMissingPunch: true },
+        { code: 'TK', category: 'ABSENT' as const, minMinutes: 0, maxMinutes: null, percentage: 3, description: 'Tidak masuk kerja tanpa keterangan, per hari' }
+    ]
+
+    for (const rule of tppDeductionRules) {
+        await prisma.tppDeductionRule.upsert({
+            where: { code: rule.code },
+            update: {},
+            create: {
+                ...rule,
+                percentage: new Decimal(rule.percentage)
+            }
+        })
+    }
+
+    console.log('✅ TPP deduction rules seeded')
+
     // ============================================================================
     // APPROVAL WORKFLOWS - Sesuai Hierarki Pemerintahan
     // ============================================================================
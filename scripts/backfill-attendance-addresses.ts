@@ -0,0 +1,87 @@
+// ============================================================================
+// BACKFILL ATTENDANCE ADDRESSES SCRIPT
+// scripts/backfill-attendance-addresses.ts
+// ============================================================================
+//
+// Usage:
+//   npm run job:addresses                                 # last seven days
+//   npm run job:addresses -- --date=2025-06-03
+//   npm run job:addresses -- --from=2025-01-01 --to=2025-06-30 --limit=500 --dry-run
+//
+// Runs batches of --limit attendances until the whole range is processed.
+//
+
+import { PrismaClient } from '@prisma/client'
+import { BackfillAttendanceAddresses } from '../src/use-cases/attendance/BackfillAttendanceAddresses'
+import { PrismaAttendanceRepository } from '../src/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '../src/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '../src/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '../src/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '../src/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '../src/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '../src/infrastructure/services/HolidayService'
+import { createGeocodingService } from '../src/infrastructure/services/GeocodingService'
+
+const prisma = new PrismaClient()
+
+function getArgument(name: string): string | undefined {
+  const argument = process.argv.find(arg => arg.startsWith(`--${name}=`))
+  return argument ? argument.split('=')[1] : undefined
+}
+
+async function backfillAttendanceAddresses() {
+  try {
+    const date = getArgument('date')
+    const from = getArgument('from')
+    const to = getArgument('to')
+    const limit = getArgument('limit')
+    const dryRun = process.argv.includes('--dry-run')
+
+    const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+    const useCase = new BackfillAttendanceAddresses(
+      new PrismaAttendanceRepository(prisma),
+      createGeocodingService(prisma),
+      new WorkScheduleService(
+        new PrismaWorkScheduleRepository(prisma),
+        systemSettingRepository,
+        new HolidayService(new PrismaHolidayRepository(prisma)),
+        new PrismaShiftRosterRepository(prisma)
+      )
+    )
+
+    let cursor: string | undefined
+    let updatedCount = 0
+    do {
+      const result = await useCase.execute({
+        date: date ? new Date(date) : undefined,
+        startDate: from ? new Date(from) : undefined,
+        endDate: to ? new Date(to) : undefined,
+        limit: limit ? Number(limit) : undefined,
+        cursor,
+        dryRun
+      })
+
+      if (!result.success) {
+        console.error('❌ Failed:', result.error)
+        process.exitCode = 1
+        return
+      }
+
+      const data = result.data!
+      console.log(`📊 Addresses ${dryRun ? '(dry run) ' : ''}${data.startDate} - ${data.endDate}`)
+      console.log(`  - processed ${data.processedCount}, updated ${data.updatedCount}, unresolved ${data.unresolvedCount}, failed ${data.failedCount}`)
+      updatedCount += data.updatedCount
+      cursor = data.nextCursor
+    } while (cursor)
+
+    console.log(`✅ Total updated: ${updatedCount}`)
+  } catch (error) {
+    console.error('❌ Error backfilling attendance addresses:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the script
+backfillAttendanceAddresses()
@@ -0,0 +1,80 @@
+// ============================================================================
+// CLOSE OPEN ATTENDANCES SCRIPT
+// scripts/close-open-attendances.ts
+// ============================================================================
+//
+// Usage:
+//   npm run job:close-out                                 # last two days
+//   npm run job:close-out -- --date=2025-06-03 --policy=HALF_DAY
+//   npm run job:close-out -- --from=2025-06-01 --to=2025-06-30 --dry-run
+//
+
+import { PrismaClient } from '@prisma/client'
+import { CloseOpenAttendances, OpenAttendancePolicy } from '../src/use-cases/attendance/CloseOpenAttendances'
+import { PrismaAttendanceRepository } from '../src/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '../src/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '../src/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '../src/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '../src/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '../src/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '../src/infrastructure/services/HolidayService'
+import { NotificationService } from '../src/infrastructure/services/NotificationService'
+import { AttendanceAuditService } from '../src/infrastructure/services/AttendanceAuditService'
+
+const prisma = new PrismaClient()
+
+function getArgument(name: string): string | undefined {
+  const argument = process.argv.find(arg => arg.startsWith(`--${name}=`))
+  return argument ? argument.split('=')[1] : undefined
+}
+
+async function closeOpenAttendances() {
+  try {
+    const date = getArgument('date')
+    const from = getArgument('from')
+    const to = getArgument('to')
+    const policy = getArgument('policy')
+    const dryRun = process.argv.includes('--dry-run')
+
+    const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+    const useCase = new CloseOpenAttendances(
+      new PrismaAttendanceRepository(prisma),
+      systemSettingRepository,
+      new WorkScheduleService(
+        new PrismaWorkScheduleRepository(prisma),
+        systemSettingRepository,
+        new HolidayService(new PrismaHolidayRepository(prisma)),
+        new PrismaShiftRosterRepository(prisma)
+      ),
+      new NotificationService(prisma),
+      new AttendanceAuditService(prisma)
+    )
+
+    const result = await useCase.execute({
+      date: date ? new Date(date) : undefined,
+      startDate: from ? new Date(from) : undefined,
+      endDate: to ? new Date(to) : undefined,
+      policy: policy ? policy.toUpperCase() as OpenAttendancePolicy : undefined,
+      dryRun
+    })
+
+    if (!result.success) {
+      console.error('❌ Failed:', result.error)
+      process.exitCode = 1
+      return
+    }
+
+    const data = result.data!
+    console.log(`📊 Close-out ${dryRun ? '(dry run) ' : ''}${data.startDate} - ${data.endDate} [${data.policy}]`)
+    console.log(`  - closed ${data.closedCount}, still open ${data.stillOpenCount}, failed ${data.failedCount}`)
+    console.log(`✅ Total closed: ${data.closedCount}`)
+  } catch (error) {
+    console.error('❌ Error closing open attendances:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the script
+closeOpenAttendances()
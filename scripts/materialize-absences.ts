@@ -0,0 +1,87 @@
+// ============================================================================
+// MATERIALIZE ABSENCES SCRIPT
+// scripts/materialize-absences.ts
+// ============================================================================
+//
+// Usage:
+//   npm run job:absences                                  # previous day
+//   npm run job:absences -- --date=2025-06-03
+//   npm run job:absences -- --from=2025-06-01 --to=2025-06-30 --dry-run
+//
+
+import { PrismaClient } from '@prisma/client'
+import { MaterializeAbsences } from '../src/use-cases/attendance/MaterializeAbsences'
+import { PrismaAttendanceRepository } from '../src/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaUserRepository } from '../src/infrastructure/database/repositories/UserRepository'
+import { PrismaLeaveRequestRepository } from '../src/infrastructure/database/repositories/LeaveRequestRepository'
+import { PrismaPermissionRequestRepository } from '../src/infrastructure/database/repositories/PermissionRequestRepository'
+import { PrismaWorkLetterRepository } from '../src/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaWorkScheduleRepository } from '../src/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '../src/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '../src/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '../src/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '../src/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '../src/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '../src/infrastructure/services/AttendanceAuditService'
+
+const prisma = new PrismaClient()
+
+function getArgument(name: string): string | undefined {
+  const argument = process.argv.find(arg => arg.startsWith(`--${name}=`))
+  return argument ? argument.split('=')[1] : undefined
+}
+
+async function materializeAbsences() {
+  try {
+    const date = getArgument('date')
+    const from = getArgument('from')
+    const to = getArgument('to')
+    const dryRun = process.argv.includes('--dry-run')
+
+    const useCase = new MaterializeAbsences(
+      new PrismaAttendanceRepository(prisma),
+      new PrismaUserRepository(prisma),
+      new PrismaLeaveRequestRepository(prisma),
+      new PrismaPermissionRequestRepository(prisma),
+      new PrismaWorkLetterRepository(prisma),
+      new WorkScheduleService(
+        new PrismaWorkScheduleRepository(prisma),
+        new PrismaSystemSettingRepository(prisma),
+        new HolidayService(new PrismaHolidayRepository(prisma)),
+        new PrismaShiftRosterRepository(prisma)
+      ),
+      new AttendanceAuditService(prisma)
+    )
+
+    const result = await useCase.execute({
+      date: date ? new Date(date) : undefined,
+      startDate: from ? new Date(from) : undefined,
+      endDate: to ? new Date(to) : undefined,
+      dryRun
+    })
+
+    if (!result.success) {
+      console.error('❌ Failed:', result.error)
+      process.exitCode = 1
+      return
+    }
+
+    console.log(`📊 Absences ${dryRun ? '(dry run) ' : ''}${result.data!.startDate} - ${result.data!.endDate}`)
+    result.data!.days.forEach(day => {
+      console.log(
+        `  - ${day.date}: created ${day.createdCount}, recorded ${day.alreadyRecordedCount}, ` +
+        `non-working ${day.nonWorkingDayCount}, holiday ${day.holidayCount}, leave ${day.onLeaveCount}, ` +
+        `permission ${day.onPermissionCount}, work letter ${day.onWorkLetterCount}, failed ${day.failedCount}`
+      )
+    })
+    console.log(`✅ Total created: ${result.data!.totalCreated}`)
+  } catch (error) {
+    console.error('❌ Error materializing absences:', error)
+    process.exitCode = 1
+  } finally {
+    await prisma.$disconnect()
+  }
+}
+
+// Run the script
+materializeAbsences()
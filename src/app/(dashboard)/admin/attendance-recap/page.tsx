@@ -0,0 +1,262 @@
+'use client'
+
+// ============================================================================
+// MONTHLY ATTENDANCE RECAP ADMIN PAGE
+// src/app/(dashboard)/admin/attendance-recap/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { CalendarCheck, Download, Loader2 } from 'lucide-react'
+
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+type RecapCode = 'H' | 'T' | 'A' | 'I' | 'C' | 'DL'
+
+const RECAP_CODES: RecapCode[] = ['H', 'T', 'A', 'I', 'C', 'DL']
+
+const RECAP_CODE_LABELS: Record<RecapCode, string> = {
+  H: 'Hadir',
+  T: 'Terlambat',
+  A: 'Alpha',
+  I: 'Izin',
+  C: 'Cuti',
+  DL: 'Dinas Luar'
+}
+
+const RECAP_CODE_STYLES: Record<RecapCode, string> = {
+  H: 'text-green-700',
+  T: 'text-yellow-700',
+  A: 'text-red-700 font-semibold',
+  I: 'text-blue-700',
+  C: 'text-purple-700',
+  DL: 'text-teal-700'
+}
+
+interface RecapDay {
+  date: string
+  day: number
+  isWeekend: boolean
+  holidayName?: string
+}
+
+interface EmployeeRecap {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  codes: Array<RecapCode | null>
+  totals: Record<RecapCode, number>
+  workDayCount: number
+}
+
+interface MonthlyRecap {
+  days: RecapDay[]
+  employees: EmployeeRecap[]
+  totals: Record<RecapCode, number>
+}
+
+export default function AttendanceRecapPage() {
+  const [period, setPeriod] = useState(
+    new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE }).slice(0, 7)
+  )
+  const [departmentId, setDepartmentId] = useState('')
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([])
+  const [recap, setRecap] = useState<MonthlyRecap | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const buildParams = (format?: 'xlsx' | 'pdf') => {
+    const [year, month] = period.split('-')
+    return new URLSearchParams({
+      year,
+      month: String(Number(month)),
+      ...(departmentId && { departmentId }),
+      ...(format && { format })
+    })
+  }
+
+  const fetchRecap = async () => {
+    try {
+      setLoading(true)
+
+      const response = await fetch(`/api/admin/attendance/recap?${buildParams()}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil rekap absensi')
+      }
+
+      setRecap(result.data)
+    } catch (error) {
+      console.error('Error fetching attendance recap:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil rekap absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch('/api/admin/roles-departments')
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setDepartments(result.data.departments)
+      }
+    } catch (error) {
+      console.error('Error fetching departments:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchDepartments()
+  }, [])
+
+  useEffect(() => {
+    if (period) {
+      fetchRecap()
+    }
+  }, [period, departmentId])
+
+  const isNonWorkingDay = (day: RecapDay) => day.isWeekend || !!day.holidayName
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Rekap Absensi</h1>
+          <p className="text-muted-foreground">
+            Rekap bulanan kehadiran per pegawai dan per hari untuk dicetak per unit kerja
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <a href={`/api/admin/attendance/recap?${buildParams('xlsx')}`}>
+              <Download className="h-4 w-4 mr-2" />
+              Unduh XLSX
+            </a>
+          </Button>
+          <Button variant="outline" asChild>
+            <a href={`/api/admin/attendance/recap?${buildParams('pdf')}`}>
+              <Download className="h-4 w-4 mr-2" />
+              Unduh PDF
+            </a>
+          </Button>
+        </div>
+      </div>
+
+      {recap && (
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+          {RECAP_CODES.map(code => (
+            <Card key={code}>
+              <CardHeader className="pb-2">
+                <CardDescription>{RECAP_CODE_LABELS[code]} ({code})</CardDescription>
+                <CardTitle className="text-2xl">{recap.totals[code]}</CardTitle>
+              </CardHeader>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Kehadiran per Pegawai</CardTitle>
+          <CardDescription>
+            Unit kerja yang dipilih mencakup seluruh sub-unit di bawahnya. Kolom abu-abu adalah akhir pekan atau hari libur.
+          </CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Input
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="w-44"
+            />
+            <select
+              value={departmentId}
+              onChange={(e) => setDepartmentId(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua unit</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : !recap || recap.employees.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <CalendarCheck className="h-8 w-8 mb-2" />
+              <span>Tidak ada pegawai aktif pada unit ini</span>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <Table className="text-xs">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="sticky left-0 bg-background min-w-48">Pegawai</TableHead>
+                    {recap.days.map(day => (
+                      <TableHead
+                        key={day.date}
+                        title={day.holidayName}
+                        className={`px-1 text-center ${isNonWorkingDay(day) ? 'bg-muted' : ''}`}
+                      >
+                        {day.day}
+                      </TableHead>
+                    ))}
+                    {RECAP_CODES.map(code => (
+                      <TableHead key={code} className="px-1 text-center">{code}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recap.employees.map((employee) => (
+                    <TableRow key={employee.userId}>
+                      <TableCell className="sticky left-0 bg-background">
+                        <div className="font-medium">{employee.name || '-'}</div>
+                        <div className="text-muted-foreground">{employee.nip || ''}</div>
+                      </TableCell>
+                      {employee.codes.map((code, index) => (
+                        <TableCell
+                          key={recap.days[index].date}
+                          className={`px-1 text-center ${isNonWorkingDay(recap.days[index]) ? 'bg-muted' : ''} ${code ? RECAP_CODE_STYLES[code] : ''}`}
+                        >
+                          {code || ''}
+                        </TableCell>
+                      ))}
+                      {RECAP_CODES.map(code => (
+                        <TableCell key={code} className="px-1 text-center font-medium">
+                          {employee.totals[code]}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <p className="text-xs text-muted-foreground">
+                Keterangan: {RECAP_CODES.map(code => `${code} = ${RECAP_CODE_LABELS[code]}`).join(', ')}
+              </p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,277 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE BULK IMPORT ADMIN PAGE
+// src/app/(dashboard)/admin/attendance/imports/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { ArrowLeft, FileSpreadsheet, Loader2, Undo2 } from 'lucide-react'
+
+import { AttendanceImportWizard } from '@/components/admin/attendance/AttendanceImportWizard'
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface AttendanceImportBatch {
+  id: string
+  fileName: string
+  rowCount: number
+  createdCount: number
+  undoneAt?: string
+  undoneCount: number
+  createdAt: string
+  importedBy: { id: string; name?: string }
+  undoneBy?: { id: string; name?: string }
+  remainingCount: number
+}
+
+const PAGE_SIZE = 10
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone: DEFAULT_TIMEZONE
+  })
+
+export default function AttendanceImportsAdminPage() {
+  const [batches, setBatches] = useState<AttendanceImportBatch[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  // Undo dialog state
+  const [selectedBatch, setSelectedBatch] = useState<AttendanceImportBatch | null>(null)
+  const [undoing, setUndoing] = useState(false)
+
+  const fetchBatches = async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE)
+      })
+
+      const response = await fetch(`/api/admin/attendance/imports?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil riwayat impor')
+      }
+
+      setBatches(result.data.batches)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+    } catch (error) {
+      console.error('Error fetching attendance imports:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil riwayat impor')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleUndo = async () => {
+    if (!selectedBatch) return
+
+    try {
+      setUndoing(true)
+
+      const response = await fetch(`/api/admin/attendance/imports/${selectedBatch.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal membatalkan impor')
+        return
+      }
+
+      toast.success(result.message)
+
+      setSelectedBatch(null)
+      fetchBatches()
+    } catch (error) {
+      console.error('Error undoing attendance import:', error)
+      toast.error('Terjadi kesalahan saat membatalkan impor')
+    } finally {
+      setUndoing(false)
+    }
+  }
+
+  const handleImported = () => {
+    if (page === 1) {
+      fetchBatches()
+    } else {
+      setPage(1)
+    }
+  }
+
+  useEffect(() => {
+    fetchBatches()
+  }, [page])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Impor Data Absensi</h1>
+          <p className="text-muted-foreground">
+            Unggah rekap absensi lama dari CSV/XLSX. Setiap baris dicatat sebagai input manual di audit log.
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <Link href="/admin/attendance">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Data Absensi
+          </Link>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unggah File</CardTitle>
+          <CardDescription>
+            Pratinjau memeriksa setiap baris tanpa menyimpan apa pun; baris valid baru disimpan setelah Import ditekan
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <AttendanceImportWizard onSuccess={handleImported} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Riwayat Impor</CardTitle>
+          <CardDescription>
+            Membatalkan impor menghapus seluruh absensi yang dibuat oleh file tersebut
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : batches.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <FileSpreadsheet className="h-8 w-8 mb-2" />
+              <span>Belum ada impor</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Waktu</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead>Diimpor Oleh</TableHead>
+                  <TableHead>Absensi</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batches.map((batch) => (
+                  <TableRow key={batch.id}>
+                    <TableCell className="text-sm whitespace-nowrap">{formatDateTime(batch.createdAt)}</TableCell>
+                    <TableCell className="font-medium">{batch.fileName}</TableCell>
+                    <TableCell className="text-sm">{batch.importedBy.name || '-'}</TableCell>
+                    <TableCell className="text-sm">
+                      {batch.createdCount} dari {batch.rowCount} baris
+                    </TableCell>
+                    <TableCell>
+                      {batch.undoneAt ? (
+                        <div>
+                          <Badge variant="secondary">Dibatalkan</Badge>
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {batch.undoneCount} absensi dihapus oleh {batch.undoneBy?.name || '-'},{' '}
+                            {formatDateTime(batch.undoneAt)}
+                          </div>
+                        </div>
+                      ) : (
+                        <Badge variant="default">Aktif</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {!batch.undoneAt && (
+                        <Button variant="ghost" size="sm" onClick={() => setSelectedBatch(batch)}>
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Batalkan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-end items-center space-x-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Sebelumnya
+              </Button>
+              <span className="text-sm text-muted-foreground">Halaman {page} dari {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Berikutnya
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Undo Confirmation Dialog */}
+      <AlertDialog open={selectedBatch !== null} onOpenChange={(open) => !open && setSelectedBatch(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center space-x-2">
+              <Undo2 className="h-5 w-5 text-red-500" />
+              <span>Batalkan Impor</span>
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {selectedBatch?.remainingCount} absensi dari <strong>&quot;{selectedBatch?.fileName}&quot;</strong> akan
+              dihapus, termasuk yang sudah diubah setelah impor. Nilai lamanya tetap tersimpan di audit log.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={undoing}>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleUndo}
+              disabled={undoing}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              {undoing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Undo2 className="h-4 w-4 mr-2" />}
+              Batalkan Impor
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
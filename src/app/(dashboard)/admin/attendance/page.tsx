@@ -0,0 +1,473 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE ADMIN PAGE
+// src/app/(dashboard)/admin/attendance/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Edit,
+  Ban,
+  Loader2,
+  ClipboardList,
+  ChevronLeft,
+  ChevronRight,
+  Fingerprint,
+  FileSpreadsheet
+} from 'lucide-react'
+
+import {
+  AttendanceRecordForm,
+  AdminAttendanceRecord,
+  AttendanceFormOption
+} from '@/components/admin/attendance/AttendanceRecordForm'
+import { FingerprintImportForm } from '@/components/admin/attendance/FingerprintImportForm'
+import {
+  ATTENDANCE_STATUS_STYLES,
+  WORK_MODE_LABELS,
+  formatWorkLetter
+} from '@/components/attendance/AttendanceDayDetail'
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+import { DEFAULT_TIMEZONE, formatWorkingHours } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+const formatTime = (value?: string) =>
+  value
+    ? new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', timeZone: DEFAULT_TIMEZONE })
+    : '-'
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+export default function AttendanceAdminPage() {
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE })
+
+  const [attendances, setAttendances] = useState<AdminAttendanceRecord[]>([])
+  const [users, setUsers] = useState<AttendanceFormOption[]>([])
+  const [officeLocations, setOfficeLocations] = useState<AttendanceFormOption[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Filters
+  const [startDate, setStartDate] = useState(`${today.slice(0, 8)}01`)
+  const [endDate, setEndDate] = useState(today)
+  const [userFilter, setUserFilter] = useState('')
+  const [statusFilter, setStatusFilter] = useState('')
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [total, setTotal] = useState(0)
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showVoidDialog, setShowVoidDialog] = useState(false)
+  const [selectedAttendance, setSelectedAttendance] = useState<AdminAttendanceRecord | null>(null)
+  const [voidReason, setVoidReason] = useState('')
+  const [voiding, setVoiding] = useState(false)
+
+  const fetchAttendances = async (targetPage = page) => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        page: targetPage.toString(),
+        limit: '20',
+        ...(startDate && { startDate }),
+        ...(endDate && { endDate }),
+        ...(userFilter && { userId: userFilter }),
+        ...(statusFilter && { status: statusFilter })
+      })
+
+      const response = await fetch(`/api/admin/attendance?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data absensi')
+      }
+
+      setAttendances(result.data.attendances)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+      setTotal(result.data.pagination.total)
+      setPage(targetPage)
+    } catch (error) {
+      console.error('Error fetching attendances:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Employees and office locations for the filters and the form
+  const fetchOptions = async () => {
+    try {
+      const [usersResponse, locationsResponse] = await Promise.all([
+        fetch('/api/admin/users?limit=100&status=ACTIVE'),
+        fetch('/api/admin/office-locations?limit=100&isActive=true')
+      ])
+
+      if (usersResponse.ok) {
+        const result = await usersResponse.json()
+        setUsers(result.data.users.map((user: { id: string; name: string; nip?: string }) => ({
+          id: user.id,
+          name: user.name,
+          description: user.nip
+        })))
+      }
+
+      if (locationsResponse.ok) {
+        const result = await locationsResponse.json()
+        setOfficeLocations(result.data.locations.map((location: { id: string; name: string; code: string }) => ({
+          id: location.id,
+          name: location.name,
+          description: location.code
+        })))
+      }
+    } catch (error) {
+      console.error('Error fetching attendance form options:', error)
+    }
+  }
+
+  const handleVoid = async () => {
+    if (!selectedAttendance) return
+
+    try {
+      setVoiding(true)
+
+      const response = await fetch(`/api/admin/attendance/${selectedAttendance.id}`, {
+        method: 'DELETE',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ reason: voidReason })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal membatalkan data absensi')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowVoidDialog(false)
+      setSelectedAttendance(null)
+      setVoidReason('')
+      fetchAttendances()
+    } catch (error) {
+      console.error('Error voiding attendance:', error)
+      toast.error('Terjadi kesalahan saat membatalkan data absensi')
+    } finally {
+      setVoiding(false)
+    }
+  }
+
+  const handleFormSuccess = () => {
+    setShowCreateDialog(false)
+    setShowImportDialog(false)
+    setShowEditDialog(false)
+    setSelectedAttendance(null)
+    fetchAttendances()
+  }
+
+  useEffect(() => {
+    fetchAttendances(1)
+    fetchOptions()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Data Absensi</h1>
+          <p className="text-muted-foreground">
+            Input, ubah, atau batalkan data absensi pegawai. Setiap perubahan wajib disertai alasan.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/admin/attendance/imports">
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Impor CSV/XLSX
+            </Link>
+          </Button>
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Fingerprint className="h-4 w-4 mr-2" />
+            Impor Fingerprint
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Input Manual
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Absensi</CardTitle>
+          <CardDescription>{total} data absensi</CardDescription>
+          <div className="flex flex-wrap items-end gap-2 pt-2">
+            <div className="space-y-1">
+              <Label htmlFor="startDate" className="text-xs">Dari</Label>
+              <Input id="startDate" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-40" />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="endDate" className="text-xs">Sampai</Label>
+              <Input id="endDate" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-40" />
+            </div>
+            <select
+              value={userFilter}
+              onChange={(e) => setUserFilter(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua pegawai</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>{user.name}</option>
+              ))}
+            </select>
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua status</option>
+              {Object.entries(ATTENDANCE_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+            <Button variant="outline" onClick={() => fetchAttendances(1)}>
+              Terapkan
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : attendances.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <ClipboardList className="h-8 w-8 mb-2" />
+              <span>Tidak ada data absensi pada filter ini</span>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pegawai</TableHead>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Masuk</TableHead>
+                    <TableHead>Pulang</TableHead>
+                    <TableHead>Jam Kerja</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Aksi</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {attendances.map((attendance) => (
+                    <TableRow key={attendance.id}>
+                      <TableCell>
+                        <div className="font-medium">{attendance.user.name}</div>
+                        <div className="text-sm text-muted-foreground">
+                          {attendance.user.nip || attendance.user.department?.name || ''}
+                        </div>
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(attendance.attendanceDate)}</TableCell>
+                      <TableCell>{formatTime(attendance.checkInTime)}</TableCell>
+                      <TableCell>
+                        {formatTime(attendance.checkOutTime)}
+                        {attendance.autoClosedAt && (
+                          <div className="text-xs text-yellow-700">Ditutup otomatis</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{formatWorkingHours(attendance.workingHoursMinutes)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline" className={ATTENDANCE_STATUS_STYLES[attendance.status]}>
+                          {ATTENDANCE_STATUS_LABELS[attendance.status] || attendance.status}
+                        </Badge>
+                        {attendance.lateMinutes > 0 && (
+                          <div className="text-xs text-yellow-700 mt-1">+{attendance.lateMinutes} menit</div>
+                        )}
+                        {attendance.workMode !== 'OFFICE' && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            {WORK_MODE_LABELS[attendance.workMode]}
+                            {attendance.workLetter && ` · ${formatWorkLetter(attendance.workLetter)}`}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedAttendance(attendance)
+                              setShowEditDialog(true)
+                            }}
+                          >
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              setSelectedAttendance(attendance)
+                              setShowVoidDialog(true)
+                            }}
+                          >
+                            <Ban className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              <div className="flex items-center justify-end space-x-2 pt-4">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page <= 1}
+                  onClick={() => fetchAttendances(page - 1)}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span className="text-sm text-muted-foreground">
+                  Halaman {page} dari {totalPages}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={page >= totalPages}
+                  onClick={() => fetchAttendances(page + 1)}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Input Absensi Manual</DialogTitle>
+            <DialogDescription>
+              Status dan keterlambatan dihitung dari jadwal kerja jika tidak dipilih
+            </DialogDescription>
+          </DialogHeader>
+          <AttendanceRecordForm
+            users={users}
+            officeLocations={officeLocations}
+            onSuccess={handleFormSuccess}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Fingerprint Import Dialog */}
+      <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Impor Log Mesin Fingerprint</DialogTitle>
+            <DialogDescription>
+              Scan pertama menjadi jam masuk dan scan terakhir jam pulang; check-in/check-out dari aplikasi tidak ditimpa
+            </DialogDescription>
+          </DialogHeader>
+          <FingerprintImportForm
+            officeLocations={officeLocations}
+            onSuccess={handleFormSuccess}
+            onCancel={() => setShowImportDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Ubah Data Absensi</DialogTitle>
+          </DialogHeader>
+          {selectedAttendance && (
+            <AttendanceRecordForm
+              attendance={selectedAttendance}
+              users={users}
+              officeLocations={officeLocations}
+              onSuccess={handleFormSuccess}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Void Dialog */}
+      <Dialog open={showVoidDialog} onOpenChange={setShowVoidDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Batalkan Data Absensi</DialogTitle>
+            <DialogDescription>
+              {selectedAttendance?.user.name} — {selectedAttendance && formatDate(selectedAttendance.attendanceDate)}.
+              Data dihapus dari rekap, nilai lamanya tetap tersimpan di audit log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="voidReason">Alasan Pembatalan *</Label>
+            <Textarea
+              id="voidReason"
+              value={voidReason}
+              onChange={(e) => setVoidReason(e.target.value)}
+              placeholder="Minimal 10 karakter"
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowVoidDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={voidReason.trim().length < 10 || voiding}
+              onClick={handleVoid}
+            >
+              {voiding && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Batalkan Absensi
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
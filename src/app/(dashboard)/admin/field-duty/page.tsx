@@ -0,0 +1,329 @@
+'use client'
+
+// ============================================================================
+// FIELD DUTY ADMIN PAGE
+// src/app/(dashboard)/admin/field-duty/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Briefcase, Edit, Loader2 } from 'lucide-react'
+
+import { toast } from 'sonner'
+
+interface FieldDutyLetter {
+  id: string
+  letterType: 'TRAVEL' | 'ASSIGNMENT'
+  letterNumber?: string
+  subject: string
+  effectiveDate: string
+  expiryDate?: string
+  destinationName?: string
+  destinationLatitude?: number
+  destinationLongitude?: number
+  destinationRadiusMeters: number
+  user: {
+    id: string
+    name?: string
+    nip?: string
+  }
+}
+
+interface DestinationFormState {
+  destinationName: string
+  destinationLatitude: string
+  destinationLongitude: string
+  destinationRadiusMeters: string
+}
+
+const LETTER_TYPE_LABELS: Record<FieldDutyLetter['letterType'], string> = {
+  TRAVEL: 'Perjalanan Dinas',
+  ASSIGNMENT: 'Surat Tugas'
+}
+
+const PAGE_SIZE = 20
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+export default function FieldDutyAdminPage() {
+  const [workLetters, setWorkLetters] = useState<FieldDutyLetter[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [selectedLetter, setSelectedLetter] = useState<FieldDutyLetter | null>(null)
+  const [form, setForm] = useState<DestinationFormState | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchWorkLetters = async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE)
+      })
+
+      const response = await fetch(`/api/admin/field-duty?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data dinas luar')
+      }
+
+      setWorkLetters(result.data.workLetters)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+    } catch (error) {
+      console.error('Error fetching field duty letters:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data dinas luar')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openEditDialog = (workLetter: FieldDutyLetter) => {
+    setSelectedLetter(workLetter)
+    setForm({
+      destinationName: workLetter.destinationName ?? '',
+      destinationLatitude: workLetter.destinationLatitude?.toString() ?? '',
+      destinationLongitude: workLetter.destinationLongitude?.toString() ?? '',
+      destinationRadiusMeters: workLetter.destinationRadiusMeters.toString()
+    })
+  }
+
+  const closeDialog = () => {
+    setSelectedLetter(null)
+    setForm(null)
+  }
+
+  const handleSave = async () => {
+    if (!selectedLetter || !form) return
+
+    try {
+      setSaving(true)
+
+      const hasLocation = form.destinationLatitude.trim() !== '' && form.destinationLongitude.trim() !== ''
+
+      const response = await fetch(`/api/admin/field-duty/${selectedLetter.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          destinationName: form.destinationName,
+          destinationLatitude: hasLocation ? parseFloat(form.destinationLatitude) : null,
+          destinationLongitude: hasLocation ? parseFloat(form.destinationLongitude) : null,
+          destinationRadiusMeters: parseInt(form.destinationRadiusMeters)
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan lokasi tujuan dinas')
+      }
+
+      toast.success(result.message)
+      closeDialog()
+      fetchWorkLetters()
+    } catch (error) {
+      console.error('Error updating field duty destination:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan lokasi tujuan dinas')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchWorkLetters()
+  }, [page])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Dinas Luar</h1>
+        <p className="text-muted-foreground">
+          Atur lokasi tujuan surat tugas dan perjalanan dinas yang sedang berjalan
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Surat Tugas Disetujui</CardTitle>
+          <CardDescription>
+            Dengan lokasi tujuan, absensi divalidasi terhadap radius tujuan; tanpa lokasi tujuan, hari dinas dicatat otomatis tanpa GPS
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : workLetters.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Briefcase className="h-8 w-8 mb-2" />
+              <span>Tidak ada dinas luar yang sedang berjalan</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Surat</TableHead>
+                  <TableHead>Periode</TableHead>
+                  <TableHead>Tujuan</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {workLetters.map((workLetter) => (
+                  <TableRow key={workLetter.id}>
+                    <TableCell>
+                      <div className="font-medium">{workLetter.user.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">{workLetter.user.nip || ''}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{workLetter.letterNumber || '-'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {LETTER_TYPE_LABELS[workLetter.letterType]} · {workLetter.subject}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {formatDate(workLetter.effectiveDate)}
+                      {workLetter.expiryDate && ` - ${formatDate(workLetter.expiryDate)}`}
+                    </TableCell>
+                    <TableCell>
+                      {workLetter.destinationLatitude !== undefined && workLetter.destinationLongitude !== undefined ? (
+                        <div className="space-y-1">
+                          <div className="text-sm">{workLetter.destinationName || '-'}</div>
+                          <div className="text-xs text-muted-foreground whitespace-nowrap">
+                            {workLetter.destinationLatitude.toFixed(6)}, {workLetter.destinationLongitude.toFixed(6)}
+                            {' '}({workLetter.destinationRadiusMeters}m)
+                          </div>
+                        </div>
+                      ) : (
+                        <Badge variant="outline">Tanpa GPS</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(workLetter)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-end items-center space-x-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Sebelumnya
+              </Button>
+              <span className="text-sm text-muted-foreground">Halaman {page} dari {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Berikutnya
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog open={selectedLetter !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Lokasi Tujuan Dinas</DialogTitle>
+            <DialogDescription>
+              {selectedLetter?.user.name || '-'} · {selectedLetter?.letterNumber || selectedLetter?.subject}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="destinationName">Nama Tujuan</Label>
+                <Input
+                  id="destinationName"
+                  value={form.destinationName}
+                  onChange={(e) => setForm({ ...form, destinationName: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="destinationLatitude">Latitude</Label>
+                  <Input
+                    id="destinationLatitude"
+                    type="number"
+                    step="any"
+                    value={form.destinationLatitude}
+                    onChange={(e) => setForm({ ...form, destinationLatitude: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="destinationLongitude">Longitude</Label>
+                  <Input
+                    id="destinationLongitude"
+                    type="number"
+                    step="any"
+                    value={form.destinationLongitude}
+                    onChange={(e) => setForm({ ...form, destinationLongitude: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="destinationRadiusMeters">Radius (meter)</Label>
+                <Input
+                  id="destinationRadiusMeters"
+                  type="number"
+                  value={form.destinationRadiusMeters}
+                  onChange={(e) => setForm({ ...form, destinationRadiusMeters: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Kosongkan koordinat agar hari dinas dicatat otomatis tanpa validasi GPS
+                </p>
+              </div>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={closeDialog}>
+                  Batal
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Simpan
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,384 @@
+'use client'
+
+// ============================================================================
+// HOLIDAYS ADMIN PAGE
+// src/app/(dashboard)/admin/holidays/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Plus,
+  Upload,
+  Edit,
+  Trash2,
+  Loader2,
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight
+} from 'lucide-react'
+
+import {
+  HolidayForm,
+  Holiday,
+  HolidayOfficeLocationOption,
+  HOLIDAY_TYPE_LABELS
+} from '@/components/admin/holidays/HolidayForm'
+import { HolidayImportForm } from '@/components/admin/holidays/HolidayImportForm'
+import { toast } from 'sonner'
+
+export default function HolidaysPage() {
+  const [holidays, setHolidays] = useState<Holiday[]>([])
+  const [officeLocations, setOfficeLocations] = useState<HolidayOfficeLocationOption[]>([])
+  const [loading, setLoading] = useState(true)
+  const [year, setYear] = useState(new Date().getFullYear())
+  const [typeFilter, setTypeFilter] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showImportDialog, setShowImportDialog] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [selectedHoliday, setSelectedHoliday] = useState<Holiday | null>(null)
+
+  // Fetch holidays of the selected year
+  const fetchHolidays = async (selectedYear = year, type = typeFilter, search = searchTerm) => {
+    try {
+      setLoading(true)
+      const params = new URLSearchParams({
+        year: selectedYear.toString(),
+        ...(type && { type }),
+        ...(search && { search })
+      })
+
+      const response = await fetch(`/api/admin/holidays?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data hari libur')
+      }
+
+      setHolidays(result.data.holidays)
+    } catch (error) {
+      console.error('Error fetching holidays:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data hari libur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Office locations are needed for regional holidays
+  const fetchOfficeLocations = async () => {
+    try {
+      const response = await fetch('/api/admin/office-locations?limit=100&isActive=true')
+      if (!response.ok) return
+
+      const result = await response.json()
+      setOfficeLocations(result.data.locations)
+    } catch (error) {
+      console.error('Error fetching office locations:', error)
+    }
+  }
+
+  const changeYear = (delta: number) => {
+    const newYear = year + delta
+    setYear(newYear)
+    fetchHolidays(newYear)
+  }
+
+  // Handle delete
+  const handleDelete = async () => {
+    if (!selectedHoliday) return
+
+    try {
+      const response = await fetch(`/api/admin/holidays/${selectedHoliday.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal menghapus hari libur')
+        return
+      }
+
+      toast.success('Hari libur berhasil dihapus')
+
+      setShowDeleteDialog(false)
+      setSelectedHoliday(null)
+      fetchHolidays()
+    } catch (error) {
+      console.error('Error deleting holiday:', error)
+      toast.error('Terjadi kesalahan saat menghapus hari libur')
+    }
+  }
+
+  // Handle form success
+  const handleFormSuccess = () => {
+    setShowCreateDialog(false)
+    setShowEditDialog(false)
+    setShowImportDialog(false)
+    setSelectedHoliday(null)
+    fetchHolidays()
+  }
+
+  useEffect(() => {
+    fetchHolidays()
+    fetchOfficeLocations()
+  }, [])
+
+  const collectiveLeaveCount = holidays.filter(holiday => holiday.type === 'COLLECTIVE_LEAVE').length
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Hari Libur</h1>
+          <p className="text-muted-foreground">
+            Kelola kalender libur nasional, cuti bersama, dan libur daerah
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setShowImportDialog(true)}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import ICS/CSV
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Hari Libur
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Button variant="ghost" size="sm" onClick={() => changeYear(-1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>Kalender {year}</span>
+                <Button variant="ghost" size="sm" onClick={() => changeYear(1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </CardTitle>
+              <CardDescription>
+                {holidays.length} hari libur, termasuk {collectiveLeaveCount} cuti bersama
+              </CardDescription>
+            </div>
+            <div className="flex items-center space-x-2">
+              <select
+                value={typeFilter}
+                onChange={(e) => {
+                  setTypeFilter(e.target.value)
+                  fetchHolidays(year, e.target.value)
+                }}
+                className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              >
+                <option value="">Semua jenis</option>
+                {Object.entries(HOLIDAY_TYPE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <Input
+                placeholder="Cari hari libur..."
+                value={searchTerm}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value)
+                  fetchHolidays(year, typeFilter, e.target.value)
+                }}
+                className="w-64"
+              />
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : holidays.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <CalendarDays className="h-8 w-8 mb-2" />
+              <span>Belum ada hari libur untuk tahun {year}</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Jenis</TableHead>
+                  <TableHead>Berlaku</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {holidays.map((holiday) => (
+                  <TableRow key={holiday.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {new Date(holiday.date).toLocaleDateString('id-ID', {
+                        weekday: 'long',
+                        day: 'numeric',
+                        month: 'long',
+                        timeZone: 'UTC'
+                      })}
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{holiday.name}</div>
+                      {holiday.description && (
+                        <div className="text-sm text-muted-foreground">{holiday.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={holiday.type === 'COLLECTIVE_LEAVE' ? 'secondary' : 'outline'}>
+                        {HOLIDAY_TYPE_LABELS[holiday.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      {holiday.officeLocation ? holiday.officeLocation.name : 'Semua lokasi'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={holiday.isActive ? 'default' : 'secondary'}>
+                        {holiday.isActive ? 'Aktif' : 'Nonaktif'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedHoliday(holiday)
+                            setShowEditDialog(true)
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedHoliday(holiday)
+                            setShowDeleteDialog(true)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Tambah Hari Libur</DialogTitle>
+            <DialogDescription>
+              Hari libur tidak dihitung sebagai hari kerja untuk absensi dan cuti
+            </DialogDescription>
+          </DialogHeader>
+          <HolidayForm officeLocations={officeLocations} onSuccess={handleFormSuccess} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Hari Libur</DialogTitle>
+          </DialogHeader>
+          {selectedHoliday && (
+            <HolidayForm
+              holiday={selectedHoliday}
+              officeLocations={officeLocations}
+              onSuccess={handleFormSuccess}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Import Dialog */}
+      <Dialog open={showImportDialog} onOpenChange={setShowImportDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Kalender Hari Libur</DialogTitle>
+            <DialogDescription>
+              Data yang sudah ada (tanggal dan nama sama) akan dilewati
+            </DialogDescription>
+          </DialogHeader>
+          <HolidayImportForm
+            year={year}
+            officeLocations={officeLocations}
+            onSuccess={handleFormSuccess}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5 text-red-500" />
+              <span>Hapus Hari Libur</span>
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Apakah Anda yakin ingin menghapus <strong>&quot;{selectedHoliday?.name}&quot;</strong>?
+              Tanggal ini akan kembali dihitung sebagai hari kerja.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
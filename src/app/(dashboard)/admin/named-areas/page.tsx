@@ -0,0 +1,405 @@
+'use client'
+
+// ============================================================================
+// NAMED AREAS ADMIN PAGE
+// src/app/(dashboard)/admin/named-areas/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Edit, Loader2, MapPinned, Plus, Trash2 } from 'lucide-react'
+
+import { toast } from 'sonner'
+
+interface NamedArea {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  radiusMeters: number
+  isActive: boolean
+}
+
+interface NamedAreaFormState {
+  name: string
+  latitude: string
+  longitude: string
+  radiusMeters: string
+  isActive: boolean
+}
+
+const EMPTY_FORM: NamedAreaFormState = {
+  name: '',
+  latitude: '',
+  longitude: '',
+  radiusMeters: '500',
+  isActive: true
+}
+
+const PAGE_SIZE = 20
+
+export default function NamedAreasAdminPage() {
+  const [areas, setAreas] = useState<NamedArea[]>([])
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [form, setForm] = useState<NamedAreaFormState | null>(null)
+  const [selectedArea, setSelectedArea] = useState<NamedArea | null>(null)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchAreas = async (search = searchTerm) => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        ...(search && { search })
+      })
+
+      const response = await fetch(`/api/admin/named-areas?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data area')
+      }
+
+      setAreas(result.data.areas)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+    } catch (error) {
+      console.error('Error fetching named areas:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data area')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setSelectedArea(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const openEditDialog = (area: NamedArea) => {
+    setSelectedArea(area)
+    setForm({
+      name: area.name,
+      latitude: area.latitude.toString(),
+      longitude: area.longitude.toString(),
+      radiusMeters: area.radiusMeters.toString(),
+      isActive: area.isActive
+    })
+  }
+
+  const closeDialog = () => {
+    setSelectedArea(null)
+    setForm(null)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    try {
+      setSaving(true)
+
+      const response = await fetch(
+        selectedArea ? `/api/admin/named-areas/${selectedArea.id}` : '/api/admin/named-areas',
+        {
+          method: selectedArea ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name: form.name,
+            latitude: parseFloat(form.latitude),
+            longitude: parseFloat(form.longitude),
+            radiusMeters: parseInt(form.radiusMeters),
+            isActive: form.isActive
+          })
+        }
+      )
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan area')
+      }
+
+      toast.success(selectedArea ? 'Area berhasil diperbarui' : 'Area berhasil dibuat')
+      closeDialog()
+      fetchAreas()
+    } catch (error) {
+      console.error('Error saving named area:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan area')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedArea) return
+
+    try {
+      const response = await fetch(`/api/admin/named-areas/${selectedArea.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal menghapus area')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowDeleteDialog(false)
+      setSelectedArea(null)
+      fetchAreas()
+    } catch (error) {
+      console.error('Error deleting named area:', error)
+      toast.error('Terjadi kesalahan saat menghapus area')
+    }
+  }
+
+  useEffect(() => {
+    fetchAreas()
+  }, [page])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Area Lokasi</h1>
+          <p className="text-muted-foreground">
+            Nama tempat untuk melabeli alamat absensi ketika layanan geocoding tidak tersedia
+          </p>
+        </div>
+        <Button onClick={openCreateDialog}>
+          <Plus className="h-4 w-4 mr-2" />
+          Tambah Area
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Area</CardTitle>
+          <CardDescription>
+            Titik absensi di dalam radius area diberi nama area tersebut; lokasi kantor didahulukan
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 max-w-md">
+            <Input
+              placeholder="Cari nama area..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && (page === 1 ? fetchAreas() : setPage(1))}
+            />
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : areas.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <MapPinned className="h-8 w-8 mb-2" />
+              <span>Belum ada area</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Koordinat</TableHead>
+                  <TableHead>Radius</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {areas.map((area) => (
+                  <TableRow key={area.id}>
+                    <TableCell className="font-medium">{area.name}</TableCell>
+                    <TableCell className="text-sm whitespace-nowrap">
+                      {area.latitude.toFixed(6)}, {area.longitude.toFixed(6)}
+                    </TableCell>
+                    <TableCell className="text-sm">{area.radiusMeters}m</TableCell>
+                    <TableCell>
+                      <Badge variant={area.isActive ? 'default' : 'secondary'}>
+                        {area.isActive ? 'Aktif' : 'Nonaktif'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex space-x-1">
+                        <Button variant="ghost" size="sm" onClick={() => openEditDialog(area)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedArea(area)
+                            setShowDeleteDialog(true)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-end items-center space-x-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Sebelumnya
+              </Button>
+              <span className="text-sm text-muted-foreground">Halaman {page} dari {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Berikutnya
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedArea ? 'Edit Area' : 'Tambah Area'}</DialogTitle>
+            <DialogDescription>
+              Contoh: kawasan industri, kantor mitra, atau lokasi proyek
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="areaName">Nama Area *</Label>
+                <Input
+                  id="areaName"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="areaLatitude">Latitude *</Label>
+                  <Input
+                    id="areaLatitude"
+                    type="number"
+                    step="any"
+                    value={form.latitude}
+                    onChange={(e) => setForm({ ...form, latitude: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="areaLongitude">Longitude *</Label>
+                  <Input
+                    id="areaLongitude"
+                    type="number"
+                    step="any"
+                    value={form.longitude}
+                    onChange={(e) => setForm({ ...form, longitude: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="areaRadius">Radius (meter)</Label>
+                <Input
+                  id="areaRadius"
+                  type="number"
+                  value={form.radiusMeters}
+                  onChange={(e) => setForm({ ...form, radiusMeters: e.target.value })}
+                />
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                <span>Aktif</span>
+              </label>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={closeDialog}>
+                  Batal
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Simpan
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5 text-red-500" />
+              <span>Hapus Area</span>
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Apakah Anda yakin ingin menghapus <strong>&quot;{selectedArea?.name}&quot;</strong>?
+              Alamat absensi yang sudah tercatat tidak berubah.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,353 @@
+'use client'
+
+// ============================================================================
+// OFFICE ASSIGNMENT ADMIN PAGE
+// src/app/(dashboard)/admin/office-assignments/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Building, Edit, Loader2, Plus } from 'lucide-react'
+
+import { toast } from 'sonner'
+import { OfficeAssignmentForm, OfficeAssignmentOption } from '@/components/admin/office-locations/OfficeAssignmentForm'
+import { DAY_OF_WEEK_LABELS } from '@/utils/dateUtils'
+
+interface OfficeAssignmentProfile {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  assignments: {
+    officeLocationId: string
+    officeLocationName: string
+    officeLocationCode: string
+    daysOfWeek: string[]
+  }[]
+  scheduledOffices: {
+    dayOfWeek: string
+    officeLocationId: string
+    officeLocationName: string
+  }[]
+}
+
+const PAGE_SIZE = 20
+
+const formatDays = (daysOfWeek: string[]) =>
+  Object.keys(DAY_OF_WEEK_LABELS)
+    .filter(day => daysOfWeek.includes(day))
+    .map(day => DAY_OF_WEEK_LABELS[day])
+    .join(', ')
+
+export default function OfficeAssignmentAdminPage() {
+  const [profiles, setProfiles] = useState<OfficeAssignmentProfile[]>([])
+  const [enforced, setEnforced] = useState(false)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  // Filters
+  const [search, setSearch] = useState('')
+  const [departmentId, setDepartmentId] = useState('')
+  const [officeLocationId, setOfficeLocationId] = useState('')
+  const [unassigned, setUnassigned] = useState(false)
+
+  // Form options
+  const [users, setUsers] = useState<OfficeAssignmentOption[]>([])
+  const [departments, setDepartments] = useState<OfficeAssignmentOption[]>([])
+  const [officeLocations, setOfficeLocations] = useState<OfficeAssignmentOption[]>([])
+
+  // Dialog states
+  const [showAssignDialog, setShowAssignDialog] = useState(false)
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([])
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE)
+      })
+      if (search) params.set('search', search)
+      if (departmentId) params.set('departmentId', departmentId)
+      if (officeLocationId) params.set('officeLocationId', officeLocationId)
+      if (unassigned) params.set('unassigned', 'true')
+
+      const response = await fetch(`/api/admin/office-assignments?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data penugasan lokasi kantor')
+      }
+
+      setProfiles(result.data.profiles)
+      setEnforced(result.data.enforced)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+    } catch (error) {
+      console.error('Error fetching office assignments:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data penugasan lokasi kantor')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Employees, departments and active offices for the filters and the form
+  const fetchOptions = async () => {
+    try {
+      const [usersResponse, locationsResponse, departmentsResponse] = await Promise.all([
+        fetch('/api/admin/users?limit=100&status=ACTIVE'),
+        fetch('/api/admin/office-locations?limit=100&isActive=true'),
+        fetch('/api/admin/roles-departments')
+      ])
+
+      if (usersResponse.ok) {
+        const result = await usersResponse.json()
+        setUsers(result.data.users.map((user: { id: string; name?: string; nip?: string }) => ({
+          id: user.id,
+          name: user.name,
+          description: user.nip
+        })))
+      }
+
+      if (locationsResponse.ok) {
+        const result = await locationsResponse.json()
+        setOfficeLocations(result.data.locations.map((location: { id: string; name: string; code: string }) => ({
+          id: location.id,
+          name: location.name,
+          description: location.code
+        })))
+      }
+
+      if (departmentsResponse.ok) {
+        const result = await departmentsResponse.json()
+        setDepartments(result.data.departments.map((department: { id: string; name: string; code: string }) => ({
+          id: department.id,
+          name: department.name,
+          description: department.code
+        })))
+      }
+    } catch (error) {
+      console.error('Error fetching office assignment options:', error)
+    }
+  }
+
+  const openAssignDialog = (userIds: string[] = []) => {
+    setSelectedUserIds(userIds)
+    setShowAssignDialog(true)
+  }
+
+  const handleAssignSuccess = () => {
+    setShowAssignDialog(false)
+    fetchProfiles()
+  }
+
+  const applyFilters = () => {
+    if (page === 1) {
+      fetchProfiles()
+    } else {
+      setPage(1)
+    }
+  }
+
+  useEffect(() => {
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [page, departmentId, officeLocationId, unassigned])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Penugasan Kantor</h1>
+          <p className="text-muted-foreground">
+            Tetapkan lokasi kantor tempat pegawai wajib melakukan absensi per hari kerja
+          </p>
+        </div>
+        <Button onClick={() => openAssignDialog()}>
+          <Plus className="h-4 w-4 mr-2" />
+          Atur Penugasan
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center gap-2">
+            <CardTitle>Lokasi Kantor Pegawai</CardTitle>
+            <Badge variant={enforced ? 'default' : 'outline'}>
+              {enforced ? 'Diterapkan' : 'Tidak diterapkan'}
+            </Badge>
+          </div>
+          <CardDescription>
+            {enforced
+              ? 'Pegawai dengan penugasan hanya dapat check-in di lokasi kantor yang ditugaskan untuk hari itu'
+              : 'Aktifkan pengaturan ENFORCE_ASSIGNED_OFFICE agar check-in dibatasi ke lokasi kantor yang ditugaskan'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {/* Filters */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <Input
+              placeholder="Cari nama atau NIP..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && applyFilters()}
+            />
+            <select
+              value={departmentId}
+              onChange={(e) => { setDepartmentId(e.target.value); setPage(1) }}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-2 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua unit kerja</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+            <select
+              value={officeLocationId}
+              onChange={(e) => { setOfficeLocationId(e.target.value); setPage(1) }}
+              className="flex h-9 w-full rounded-md border border-input bg-transparent px-2 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua lokasi kantor</option>
+              {officeLocations.map(location => (
+                <option key={location.id} value={location.id}>{location.name}</option>
+              ))}
+            </select>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={unassigned}
+                onChange={(e) => { setUnassigned(e.target.checked); setPage(1) }}
+              />
+              <span>Belum ditugaskan</span>
+            </label>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : profiles.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Building className="h-8 w-8 mb-2" />
+              <span>Tidak ada pegawai</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Unit Kerja</TableHead>
+                  <TableHead>Lokasi Ditugaskan</TableHead>
+                  <TableHead>Jadwal Kerja</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => (
+                  <TableRow key={profile.userId}>
+                    <TableCell>
+                      <div className="font-medium">{profile.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">{profile.nip || ''}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{profile.departmentName || '-'}</TableCell>
+                    <TableCell>
+                      {profile.assignments.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      ) : (
+                        <div className="space-y-1">
+                          {profile.assignments.map(assignment => (
+                            <div key={assignment.officeLocationId} className="text-sm">
+                              <span className="font-medium">{assignment.officeLocationName}</span>
+                              <span className="text-muted-foreground"> · {formatDays(assignment.daysOfWeek)}</span>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {profile.scheduledOffices.length === 0 ? (
+                        <span className="text-sm text-muted-foreground">-</span>
+                      ) : (
+                        <div className="space-y-1">
+                          {profile.scheduledOffices.map(scheduled => (
+                            <div key={scheduled.dayOfWeek} className="text-sm">
+                              <span className="text-muted-foreground">{DAY_OF_WEEK_LABELS[scheduled.dayOfWeek]}: </span>
+                              {scheduled.officeLocationName}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openAssignDialog([profile.userId])}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-end items-center space-x-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Sebelumnya
+              </Button>
+              <span className="text-sm text-muted-foreground">Halaman {page} dari {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Berikutnya
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Assign Dialog */}
+      <Dialog open={showAssignDialog} onOpenChange={setShowAssignDialog}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Atur Penugasan Kantor</DialogTitle>
+            <DialogDescription>
+              Tugaskan lokasi kantor ke pegawai atau seluruh unit kerja untuk hari yang dipilih
+            </DialogDescription>
+          </DialogHeader>
+          {showAssignDialog && (
+            <OfficeAssignmentForm
+              users={users}
+              departments={departments}
+              officeLocations={officeLocations}
+              defaultUserIds={selectedUserIds}
+              onSuccess={handleAssignSuccess}
+              onCancel={() => setShowAssignDialog(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -60,6 +60,7 @@ import {
 import { OfficeLocationForm } from '@/components/admin/office-locations/OfficeLocationForm'
 import { OfficeLocationDetails } from '@/components/admin/office-locations/OfficeLocationDetails'
 import {toast} from "sonner";
+import { OfficeBoundary } from '@/utils/geofence'
 
 interface OfficeLocation {
   id: string
@@ -69,6 +70,13 @@ interface OfficeLocation {
   latitude: number
   longitude: number
   radiusMeters: number
+  boundary?: OfficeBoundary
+  boundaryBufferMeters: number
+  toleranceMeters: number
+  maxAccuracyMeters: number
+  requirePhoto: boolean
+  kioskMode: 'DISABLED' | 'QR_ONLY' | 'QR_WITH_GPS'
+  kioskKey?: string
   isActive: boolean
   createdAt: string
   updatedAt: string
@@ -289,7 +297,7 @@ export default function OfficeLocationsPage() {
                   <TableHead>Nama</TableHead>
                   <TableHead>Kode</TableHead>
                   <TableHead>Koordinat</TableHead>
-                  <TableHead>Radius</TableHead>
+                  <TableHead>Area</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Aksi</TableHead>
                 </TableRow>
@@ -341,7 +349,11 @@ export default function OfficeLocationsPage() {
                         </span>
                       </div>
                     </TableCell>
-                    <TableCell>{location.radiusMeters}m</TableCell>
+                    <TableCell>
+                      {location.boundary
+                        ? `Poligon (+${location.boundaryBufferMeters}m)`
+                        : `${location.radiusMeters}m`}
+                    </TableCell>
                     <TableCell>
                       <Badge variant={location.isActive ? 'default' : 'secondary'}>
                         {location.isActive ? 'Aktif' : 'Nonaktif'}
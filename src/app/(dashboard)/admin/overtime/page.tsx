@@ -0,0 +1,221 @@
+'use client'
+
+// ============================================================================
+// OVERTIME RECAP ADMIN PAGE
+// src/app/(dashboard)/admin/overtime/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Download, Loader2, Timer } from 'lucide-react'
+
+import { DEFAULT_TIMEZONE, formatWorkingHours } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface EmployeeOvertimeSummary {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  requestCount: number
+  workingDayMinutes: number
+  nonWorkingDayMinutes: number
+  totalMinutes: number
+}
+
+interface OvertimeSummaryTotals {
+  employeeCount: number
+  requestCount: number
+  workingDayMinutes: number
+  nonWorkingDayMinutes: number
+  totalMinutes: number
+}
+
+export default function OvertimeRecapPage() {
+  const [period, setPeriod] = useState(
+    new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE }).slice(0, 7)
+  )
+  const [departmentId, setDepartmentId] = useState('')
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([])
+  const [employees, setEmployees] = useState<EmployeeOvertimeSummary[]>([])
+  const [totals, setTotals] = useState<OvertimeSummaryTotals | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const buildParams = (format?: 'csv') => {
+    const [year, month] = period.split('-')
+    return new URLSearchParams({
+      year,
+      month: String(Number(month)),
+      ...(departmentId && { departmentId }),
+      ...(format && { format })
+    })
+  }
+
+  const fetchSummary = async () => {
+    try {
+      setLoading(true)
+
+      const response = await fetch(`/api/admin/overtime/summary?${buildParams()}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil rekap lembur')
+      }
+
+      setEmployees(result.data.employees)
+      setTotals(result.data.totals)
+    } catch (error) {
+      console.error('Error fetching overtime summary:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil rekap lembur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch('/api/admin/roles-departments')
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setDepartments(result.data.departments)
+      }
+    } catch (error) {
+      console.error('Error fetching departments:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchDepartments()
+  }, [])
+
+  useEffect(() => {
+    if (period) {
+      fetchSummary()
+    }
+  }, [period, departmentId])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Rekap Lembur</h1>
+          <p className="text-muted-foreground">
+            Lembur yang telah disetujui per pegawai untuk perhitungan penghasilan
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={`/api/admin/overtime/summary?${buildParams('csv')}`}>
+            <Download className="h-4 w-4 mr-2" />
+            Unduh CSV
+          </a>
+        </Button>
+      </div>
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Pegawai</CardDescription>
+              <CardTitle className="text-2xl">{totals.employeeCount}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Hari Kerja</CardDescription>
+              <CardTitle className="text-2xl">{formatWorkingHours(totals.workingDayMinutes)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Hari Libur</CardDescription>
+              <CardTitle className="text-2xl">{formatWorkingHours(totals.nonWorkingDayMinutes)}</CardTitle>
+            </CardHeader>
+          </Card>
+          <Card>
+            <CardHeader className="pb-2">
+              <CardDescription>Total Lembur</CardDescription>
+              <CardTitle className="text-2xl">{formatWorkingHours(totals.totalMinutes)}</CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lembur per Pegawai</CardTitle>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Input
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="w-44"
+            />
+            <select
+              value={departmentId}
+              onChange={(e) => setDepartmentId(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua unit</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : employees.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Timer className="h-8 w-8 mb-2" />
+              <span>Tidak ada lembur yang disetujui pada periode ini</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead className="text-right">Pengajuan</TableHead>
+                  <TableHead className="text-right">Hari Kerja</TableHead>
+                  <TableHead className="text-right">Hari Libur</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {employees.map((employee) => (
+                  <TableRow key={employee.userId}>
+                    <TableCell>
+                      <div className="font-medium">{employee.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">{employee.nip || ''}</div>
+                    </TableCell>
+                    <TableCell>{employee.departmentName || '-'}</TableCell>
+                    <TableCell className="text-right">{employee.requestCount}</TableCell>
+                    <TableCell className="text-right">{formatWorkingHours(employee.workingDayMinutes)}</TableCell>
+                    <TableCell className="text-right">{formatWorkingHours(employee.nonWorkingDayMinutes)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatWorkingHours(employee.totalMinutes)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
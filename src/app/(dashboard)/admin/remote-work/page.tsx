@@ -0,0 +1,386 @@
+'use client'
+
+// ============================================================================
+// REMOTE WORK ADMIN PAGE
+// src/app/(dashboard)/admin/remote-work/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Edit, Home, Loader2 } from 'lucide-react'
+
+import { DAY_OF_WEEK_LABELS } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface RemoteWorkProfile {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  homeLatitude?: number
+  homeLongitude?: number
+  homeRadiusMeters: number
+  homeLocationApprovedAt?: string
+  homeLocationApprovedBy?: {
+    id: string
+    name?: string
+  }
+  wfhDays: string[]
+}
+
+interface RemoteWorkFormState {
+  homeLatitude: string
+  homeLongitude: string
+  homeRadiusMeters: string
+  wfhDays: string[]
+  homeLocationApproved: boolean
+}
+
+const PAGE_SIZE = 20
+
+export default function RemoteWorkAdminPage() {
+  const [profiles, setProfiles] = useState<RemoteWorkProfile[]>([])
+  const [search, setSearch] = useState('')
+  const [awaitingApproval, setAwaitingApproval] = useState(false)
+  const [page, setPage] = useState(1)
+  const [totalPages, setTotalPages] = useState(1)
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [selectedProfile, setSelectedProfile] = useState<RemoteWorkProfile | null>(null)
+  const [form, setForm] = useState<RemoteWorkFormState | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const fetchProfiles = async () => {
+    try {
+      setLoading(true)
+
+      const params = new URLSearchParams({
+        page: String(page),
+        limit: String(PAGE_SIZE),
+        ...(search.trim() && { search: search.trim() }),
+        ...(awaitingApproval && { awaitingApproval: 'true' })
+      })
+
+      const response = await fetch(`/api/admin/remote-work?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data WFH pegawai')
+      }
+
+      setProfiles(result.data.profiles)
+      setTotalPages(Math.max(result.data.pagination.totalPages, 1))
+    } catch (error) {
+      console.error('Error fetching remote work profiles:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data WFH pegawai')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openEditDialog = (profile: RemoteWorkProfile) => {
+    setSelectedProfile(profile)
+    setForm({
+      homeLatitude: profile.homeLatitude?.toString() ?? '',
+      homeLongitude: profile.homeLongitude?.toString() ?? '',
+      homeRadiusMeters: profile.homeRadiusMeters.toString(),
+      wfhDays: profile.wfhDays,
+      homeLocationApproved: !!profile.homeLocationApprovedAt
+    })
+  }
+
+  const toggleDay = (day: string) => {
+    setForm(prev => prev && {
+      ...prev,
+      wfhDays: prev.wfhDays.includes(day)
+        ? prev.wfhDays.filter(existing => existing !== day)
+        : [...prev.wfhDays, day]
+    })
+  }
+
+  const handleSave = async () => {
+    if (!selectedProfile || !form) return
+
+    try {
+      setSaving(true)
+
+      const hasLocation = form.homeLatitude.trim() !== '' && form.homeLongitude.trim() !== ''
+
+      const response = await fetch(`/api/admin/remote-work/${selectedProfile.userId}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          homeLatitude: hasLocation ? parseFloat(form.homeLatitude) : null,
+          homeLongitude: hasLocation ? parseFloat(form.homeLongitude) : null,
+          homeRadiusMeters: parseInt(form.homeRadiusMeters),
+          wfhDays: form.wfhDays,
+          homeLocationApproved: form.homeLocationApproved
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan pengaturan WFH')
+      }
+
+      toast.success(result.message)
+      setSelectedProfile(null)
+      setForm(null)
+      fetchProfiles()
+    } catch (error) {
+      console.error('Error updating remote work profile:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan pengaturan WFH')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchProfiles()
+  }, [page, awaitingApproval])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Lokasi WFH</h1>
+        <p className="text-muted-foreground">
+          Setujui lokasi rumah dan atur hari kerja dari rumah pegawai
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pegawai</CardTitle>
+          <CardDescription>
+            Pada hari WFH, absensi divalidasi terhadap radius lokasi rumah yang disetujui
+          </CardDescription>
+          <div className="flex flex-wrap items-center gap-2 pt-2">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault()
+                if (page === 1) {
+                  fetchProfiles()
+                } else {
+                  setPage(1)
+                }
+              }}
+            >
+              <Input
+                placeholder="Cari nama atau NIP..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-64"
+              />
+            </form>
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={awaitingApproval}
+                onChange={(e) => {
+                  setAwaitingApproval(e.target.checked)
+                  setPage(1)
+                }}
+              />
+              <span>Hanya yang menunggu persetujuan</span>
+            </label>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : profiles.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Home className="h-8 w-8 mb-2" />
+              <span>Tidak ada pegawai</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead>Lokasi Rumah</TableHead>
+                  <TableHead>Hari WFH</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map((profile) => (
+                  <TableRow key={profile.userId}>
+                    <TableCell>
+                      <div className="font-medium">{profile.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">{profile.nip || ''}</div>
+                    </TableCell>
+                    <TableCell>{profile.departmentName || '-'}</TableCell>
+                    <TableCell>
+                      {profile.homeLatitude !== undefined && profile.homeLongitude !== undefined ? (
+                        <div className="space-y-1">
+                          <div className="text-sm whitespace-nowrap">
+                            {profile.homeLatitude.toFixed(6)}, {profile.homeLongitude.toFixed(6)}
+                          </div>
+                          {profile.homeLocationApprovedAt ? (
+                            <Badge>Disetujui ({profile.homeRadiusMeters}m)</Badge>
+                          ) : (
+                            <Badge variant="outline">Menunggu persetujuan</Badge>
+                          )}
+                        </div>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">Belum diajukan</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {profile.wfhDays.length
+                        ? profile.wfhDays.map(day => DAY_OF_WEEK_LABELS[day]).join(', ')
+                        : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(profile)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {totalPages > 1 && (
+            <div className="flex justify-end items-center space-x-2 pt-4">
+              <Button variant="outline" size="sm" disabled={page <= 1} onClick={() => setPage(page - 1)}>
+                Sebelumnya
+              </Button>
+              <span className="text-sm text-muted-foreground">Halaman {page} dari {totalPages}</span>
+              <Button variant="outline" size="sm" disabled={page >= totalPages} onClick={() => setPage(page + 1)}>
+                Berikutnya
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Edit Dialog */}
+      <Dialog
+        open={selectedProfile !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setSelectedProfile(null)
+            setForm(null)
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Pengaturan WFH</DialogTitle>
+            <DialogDescription>
+              {selectedProfile?.name || '-'}{selectedProfile?.nip ? ` (${selectedProfile.nip})` : ''}
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="homeLatitude">Latitude</Label>
+                  <Input
+                    id="homeLatitude"
+                    type="number"
+                    step="any"
+                    value={form.homeLatitude}
+                    onChange={(e) => setForm({ ...form, homeLatitude: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="homeLongitude">Longitude</Label>
+                  <Input
+                    id="homeLongitude"
+                    type="number"
+                    step="any"
+                    value={form.homeLongitude}
+                    onChange={(e) => setForm({ ...form, homeLongitude: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="homeRadiusMeters">Radius (meter)</Label>
+                <Input
+                  id="homeRadiusMeters"
+                  type="number"
+                  value={form.homeRadiusMeters}
+                  onChange={(e) => setForm({ ...form, homeRadiusMeters: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label>Hari WFH Mingguan</Label>
+                <div className="flex flex-wrap gap-3">
+                  {Object.entries(DAY_OF_WEEK_LABELS).map(([day, label]) => (
+                    <label key={day} className="flex items-center space-x-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.wfhDays.includes(day)}
+                        onChange={() => toggleDay(day)}
+                      />
+                      <span>{label}</span>
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Di luar hari ini pegawai dapat mengajukan WFH per tanggal untuk disetujui atasan
+                </p>
+              </div>
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.homeLocationApproved}
+                  onChange={(e) => setForm({ ...form, homeLocationApproved: e.target.checked })}
+                />
+                <span>Lokasi rumah disetujui</span>
+              </label>
+
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setSelectedProfile(null)
+                    setForm(null)
+                  }}
+                >
+                  Batal
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Simpan
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -0,0 +1,482 @@
+'use client'
+
+// ============================================================================
+// SHIFTS ADMIN PAGE
+// src/app/(dashboard)/admin/shifts/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import {
+  Plus,
+  Edit,
+  Trash2,
+  Loader2,
+  Moon,
+  CalendarRange,
+  ChevronLeft,
+  ChevronRight
+} from 'lucide-react'
+
+import { ShiftForm, Shift } from '@/components/admin/shifts/ShiftForm'
+import { ShiftRosterForm, ShiftRosterUserOption } from '@/components/admin/shifts/ShiftRosterForm'
+import { toast } from 'sonner'
+
+interface ShiftRosterEntry {
+  id: string
+  userId: string
+  shiftId?: string
+  date: string
+  shift?: Shift
+  user: ShiftRosterUserOption
+}
+
+// Number of days shown in the roster grid
+const ROSTER_VIEW_DAYS = 14
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+function addDays(dateInput: string, days: number): string {
+  const date = new Date(`${dateInput}T00:00:00.000Z`)
+  date.setUTCDate(date.getUTCDate() + days)
+  return toDateInput(date)
+}
+
+export default function ShiftsPage() {
+  const [shifts, setShifts] = useState<Shift[]>([])
+  const [users, setUsers] = useState<ShiftRosterUserOption[]>([])
+  const [rosterEntries, setRosterEntries] = useState<ShiftRosterEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [rosterLoading, setRosterLoading] = useState(true)
+  const [rosterStart, setRosterStart] = useState(toDateInput(new Date()))
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showEditDialog, setShowEditDialog] = useState(false)
+  const [showRosterDialog, setShowRosterDialog] = useState(false)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [selectedShift, setSelectedShift] = useState<Shift | null>(null)
+
+  const rosterEnd = addDays(rosterStart, ROSTER_VIEW_DAYS - 1)
+  const rosterDates = Array.from({ length: ROSTER_VIEW_DAYS }, (_, index) => addDays(rosterStart, index))
+
+  // Fetch shift definitions
+  const fetchShifts = async () => {
+    try {
+      setLoading(true)
+      const response = await fetch('/api/admin/shifts')
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data shift')
+      }
+
+      setShifts(result.data.shifts)
+    } catch (error) {
+      console.error('Error fetching shifts:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data shift')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Fetch roster entries of the visible range
+  const fetchRoster = async (start = rosterStart) => {
+    try {
+      setRosterLoading(true)
+      const params = new URLSearchParams({
+        startDate: start,
+        endDate: addDays(start, ROSTER_VIEW_DAYS - 1)
+      })
+
+      const response = await fetch(`/api/admin/shift-rosters?${params}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil roster shift')
+      }
+
+      setRosterEntries(result.data.entries)
+    } catch (error) {
+      console.error('Error fetching shift roster:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil roster shift')
+    } finally {
+      setRosterLoading(false)
+    }
+  }
+
+  // Active employees for the roster form
+  const fetchUsers = async () => {
+    try {
+      const response = await fetch('/api/admin/users?limit=100&status=ACTIVE')
+      if (!response.ok) return
+
+      const result = await response.json()
+      setUsers(result.data.users.map((user: { id: string; name?: string; nip?: string }) => ({
+        id: user.id,
+        name: user.name,
+        nip: user.nip
+      })))
+    } catch (error) {
+      console.error('Error fetching users:', error)
+    }
+  }
+
+  const changeRosterRange = (delta: number) => {
+    const newStart = addDays(rosterStart, delta)
+    setRosterStart(newStart)
+    fetchRoster(newStart)
+  }
+
+  // Handle delete
+  const handleDelete = async () => {
+    if (!selectedShift) return
+
+    try {
+      const response = await fetch(`/api/admin/shifts/${selectedShift.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal menghapus shift')
+        return
+      }
+
+      toast.success('Shift berhasil dihapus')
+
+      setShowDeleteDialog(false)
+      setSelectedShift(null)
+      fetchShifts()
+    } catch (error) {
+      console.error('Error deleting shift:', error)
+      toast.error('Terjadi kesalahan saat menghapus shift')
+    }
+  }
+
+  // Handle form success
+  const handleFormSuccess = () => {
+    setShowCreateDialog(false)
+    setShowEditDialog(false)
+    setSelectedShift(null)
+    fetchShifts()
+  }
+
+  const handleRosterSuccess = () => {
+    setShowRosterDialog(false)
+    fetchRoster()
+  }
+
+  useEffect(() => {
+    fetchShifts()
+    fetchRoster()
+    fetchUsers()
+  }, [])
+
+  // Group roster entries into one row per user
+  const rosterRows = rosterEntries.reduce<Record<string, { user: ShiftRosterUserOption; days: Record<string, ShiftRosterEntry> }>>(
+    (rows, entry) => {
+      const row = rows[entry.userId] || { user: entry.user, days: {} }
+      row.days[entry.date.split('T')[0]] = entry
+      rows[entry.userId] = row
+      return rows
+    },
+    {}
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Shift & Roster</h1>
+          <p className="text-muted-foreground">
+            Kelola shift kerja, termasuk shift malam lintas hari, dan roster pegawai per tanggal
+          </p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" onClick={() => setShowRosterDialog(true)} disabled={shifts.length === 0}>
+            <CalendarRange className="h-4 w-4 mr-2" />
+            Atur Roster
+          </Button>
+          <Button onClick={() => setShowCreateDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Shift
+          </Button>
+        </div>
+      </div>
+
+      {/* Shift definitions */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Daftar Shift</CardTitle>
+          <CardDescription>
+            Shift dengan jam selesai lebih awal dari jam mulai dihitung sebagai shift lintas hari
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : shifts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Belum ada shift
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Kode</TableHead>
+                  <TableHead>Nama</TableHead>
+                  <TableHead>Jam Kerja</TableHead>
+                  <TableHead>Toleransi</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {shifts.map((shift) => (
+                  <TableRow key={shift.id}>
+                    <TableCell className="font-mono">{shift.code}</TableCell>
+                    <TableCell>
+                      <div className="font-medium">{shift.name}</div>
+                      {shift.description && (
+                        <div className="text-sm text-muted-foreground">{shift.description}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <span>{shift.startTime} - {shift.endTime}</span>
+                        {shift.isOvernight && (
+                          <Badge variant="secondary">
+                            <Moon className="h-3 w-3 mr-1" />
+                            Lintas hari
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {shift.lateToleranceMinutes !== undefined && shift.lateToleranceMinutes !== null
+                        ? `${shift.lateToleranceMinutes} menit`
+                        : 'Ikuti pengaturan'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={shift.isActive ? 'default' : 'secondary'}>
+                        {shift.isActive ? 'Aktif' : 'Nonaktif'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedShift(shift)
+                            setShowEditDialog(true)
+                          }}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setSelectedShift(shift)
+                            setShowDeleteDialog(true)
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Roster grid */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Button variant="ghost" size="sm" onClick={() => changeRosterRange(-ROSTER_VIEW_DAYS)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span>Roster {rosterStart} s/d {rosterEnd}</span>
+            <Button variant="ghost" size="sm" onClick={() => changeRosterRange(ROSTER_VIEW_DAYS)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </CardTitle>
+          <CardDescription>
+            Pegawai tanpa roster mengikuti jadwal kerja mingguannya
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rosterLoading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : Object.keys(rosterRows).length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Belum ada roster pada rentang tanggal ini
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pegawai</TableHead>
+                    {rosterDates.map(date => (
+                      <TableHead key={date} className="text-center whitespace-nowrap">
+                        {new Date(`${date}T00:00:00.000Z`).toLocaleDateString('id-ID', {
+                          weekday: 'short',
+                          day: 'numeric',
+                          timeZone: 'UTC'
+                        })}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {Object.entries(rosterRows).map(([userId, row]) => (
+                    <TableRow key={userId}>
+                      <TableCell className="whitespace-nowrap">
+                        <div className="font-medium">{row.user.name || '-'}</div>
+                        {row.user.nip && (
+                          <div className="text-xs text-muted-foreground">{row.user.nip}</div>
+                        )}
+                      </TableCell>
+                      {rosterDates.map(date => {
+                        const entry = row.days[date]
+                        return (
+                          <TableCell key={date} className="text-center">
+                            {!entry ? (
+                              <span className="text-muted-foreground">-</span>
+                            ) : entry.shift ? (
+                              <Badge
+                                variant={entry.shift.isOvernight ? 'secondary' : 'outline'}
+                                title={`${entry.shift.name} (${entry.shift.startTime} - ${entry.shift.endTime})`}
+                              >
+                                {entry.shift.code}
+                              </Badge>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">Libur</span>
+                            )}
+                          </TableCell>
+                        )
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Tambah Shift</DialogTitle>
+            <DialogDescription>
+              Definisikan jam kerja shift yang dapat dipakai pada roster
+            </DialogDescription>
+          </DialogHeader>
+          <ShiftForm onSuccess={handleFormSuccess} />
+        </DialogContent>
+      </Dialog>
+
+      {/* Edit Dialog */}
+      <Dialog open={showEditDialog} onOpenChange={setShowEditDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit Shift</DialogTitle>
+          </DialogHeader>
+          {selectedShift && (
+            <ShiftForm shift={selectedShift} onSuccess={handleFormSuccess} />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Roster Dialog */}
+      <Dialog open={showRosterDialog} onOpenChange={setShowRosterDialog}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Atur Roster Shift</DialogTitle>
+            <DialogDescription>
+              Roster yang sudah ada pada tanggal yang sama akan ditimpa
+            </DialogDescription>
+          </DialogHeader>
+          <ShiftRosterForm
+            shifts={shifts}
+            users={users}
+            defaultStartDate={rosterStart}
+            defaultEndDate={rosterEnd}
+            onSuccess={handleRosterSuccess}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5 text-red-500" />
+              <span>Hapus Shift</span>
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Apakah Anda yakin ingin menghapus <strong>&quot;{selectedShift?.name}&quot;</strong>?
+              Shift yang sudah dipakai pada roster atau kehadiran tidak dapat dihapus.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,291 @@
+'use client'
+
+// ============================================================================
+// TPP DEDUCTIONS ADMIN PAGE
+// src/app/(dashboard)/admin/tpp/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Download, Loader2, ReceiptText } from 'lucide-react'
+
+import {
+  TPP_CATEGORY_LABELS,
+  TppDeductionCategory,
+  TppDeductionRulesCard
+} from '@/components/admin/tpp/TppDeductionRulesCard'
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface TppDeductionItem {
+  date: string
+  category: TppDeductionCategory
+  ruleCode?: string
+  minutes?: number
+  percentage: number
+  description: string
+  excusedBy?: string
+}
+
+interface EmployeeTppDeduction {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  lateCount: number
+  earlyLeaveCount: number
+  absentDays: number
+  percentages: Record<TppDeductionCategory, number>
+  totalPercentage: number
+  items: TppDeductionItem[]
+}
+
+export default function TppDeductionsPage() {
+  const [period, setPeriod] = useState(
+    new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE }).slice(0, 7)
+  )
+  const [departmentId, setDepartmentId] = useState('')
+  const [departments, setDepartments] = useState<{ id: string; name: string }[]>([])
+  const [employees, setEmployees] = useState<EmployeeTppDeduction[]>([])
+  const [selectedEmployee, setSelectedEmployee] = useState<EmployeeTppDeduction | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  const buildParams = (format?: 'csv') => {
+    const [year, month] = period.split('-')
+    return new URLSearchParams({
+      year,
+      month: String(Number(month)),
+      ...(departmentId && { departmentId }),
+      ...(format && { format })
+    })
+  }
+
+  const fetchDeductions = async () => {
+    try {
+      setLoading(true)
+
+      const response = await fetch(`/api/admin/tpp/deductions?${buildParams()}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menghitung potongan TPP')
+      }
+
+      setEmployees(result.data.employees)
+    } catch (error) {
+      console.error('Error fetching TPP deductions:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menghitung potongan TPP')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchDepartments = async () => {
+    try {
+      const response = await fetch('/api/admin/roles-departments')
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setDepartments(result.data.departments)
+      }
+    } catch (error) {
+      console.error('Error fetching departments:', error)
+    }
+  }
+
+  useEffect(() => {
+    fetchDepartments()
+  }, [])
+
+  useEffect(() => {
+    if (period) {
+      fetchDeductions()
+    }
+  }, [period, departmentId])
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00.000Z`).toLocaleDateString('id-ID', {
+      weekday: 'short',
+      day: 'numeric',
+      month: 'short',
+      timeZone: 'UTC'
+    })
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Potongan TPP</h1>
+          <p className="text-muted-foreground">
+            Potongan tunjangan tambahan penghasilan dari keterlambatan, pulang cepat dan ketidakhadiran
+          </p>
+        </div>
+        <Button variant="outline" asChild>
+          <a href={`/api/admin/tpp/deductions?${buildParams('csv')}`}>
+            <Download className="h-4 w-4 mr-2" />
+            Unduh CSV Payroll
+          </a>
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Potongan per Pegawai</CardTitle>
+          <CardDescription>
+            Dihitung dari absensi hari yang sudah lewat. Izin yang disetujui dan mencakup jam masuk/pulang membebaskan potongan.
+          </CardDescription>
+          <div className="flex flex-wrap gap-2 pt-2">
+            <Input
+              type="month"
+              value={period}
+              onChange={(e) => setPeriod(e.target.value)}
+              className="w-44"
+            />
+            <select
+              value={departmentId}
+              onChange={(e) => setDepartmentId(e.target.value)}
+              className="flex h-9 rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+            >
+              <option value="">Semua unit</option>
+              {departments.map(department => (
+                <option key={department.id} value={department.id}>{department.name}</option>
+              ))}
+            </select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : employees.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <ReceiptText className="h-8 w-8 mb-2" />
+              <span>Tidak ada pegawai aktif pada unit ini</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Unit</TableHead>
+                  <TableHead className="text-center">TL</TableHead>
+                  <TableHead className="text-center">PSW</TableHead>
+                  <TableHead className="text-center">TK</TableHead>
+                  <TableHead className="text-right">Total Potongan</TableHead>
+                  <TableHead>Rincian</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {employees.map((employee) => (
+                  <TableRow key={employee.userId}>
+                    <TableCell>
+                      <div className="font-medium">{employee.name || '-'}</div>
+                      <div className="text-xs text-muted-foreground">{employee.nip || ''}</div>
+                    </TableCell>
+                    <TableCell className="text-sm">{employee.departmentName || '-'}</TableCell>
+                    <TableCell className="text-center text-sm">
+                      {employee.lateCount}x / {employee.percentages.LATE}%
+                    </TableCell>
+                    <TableCell className="text-center text-sm">
+                      {employee.earlyLeaveCount}x / {employee.percentages.EARLY_LEAVE}%
+                    </TableCell>
+                    <TableCell className="text-center text-sm">
+                      {employee.absentDays} hari / {employee.percentages.ABSENT}%
+                    </TableCell>
+                    <TableCell className="text-right font-semibold">
+                      {employee.totalPercentage > 0 ? (
+                        <span className="text-red-700">{employee.totalPercentage}%</span>
+                      ) : (
+                        '0%'
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={employee.items.length === 0}
+                        onClick={() => setSelectedEmployee(employee)}
+                      >
+                        Lihat
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <TppDeductionRulesCard onChange={fetchDeductions} />
+
+      {/* Breakdown Dialog */}
+      <Dialog open={selectedEmployee !== null} onOpenChange={(open) => !open && setSelectedEmployee(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Rincian Potongan - {selectedEmployee?.name}</DialogTitle>
+            <DialogDescription>
+              Total potongan {selectedEmployee?.totalPercentage}% (maksimal 100%)
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEmployee && (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tanggal</TableHead>
+                    <TableHead>Kategori</TableHead>
+                    <TableHead>Keterangan</TableHead>
+                    <TableHead>Kode</TableHead>
+                    <TableHead className="text-right">Potongan</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {selectedEmployee.items.map((item, index) => (
+                    <TableRow key={`${item.date}-${item.category}-${index}`}>
+                      <TableCell className="text-sm whitespace-nowrap">{formatDate(item.date)}</TableCell>
+                      <TableCell className="text-sm">{TPP_CATEGORY_LABELS[item.category]}</TableCell>
+                      <TableCell className="text-sm">
+                        <div>{item.description}</div>
+                        {item.excusedBy && (
+                          <div className="text-xs text-muted-foreground">Dibebaskan: {item.excusedBy}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{item.ruleCode}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right text-sm">
+                        {item.excusedBy ? <span className="text-muted-foreground">0%</span> : `${item.percentage}%`}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
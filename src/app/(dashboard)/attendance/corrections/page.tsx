@@ -0,0 +1,430 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE CORRECTIONS PAGE
+// src/app/(dashboard)/attendance/corrections/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Check,
+  X,
+  Loader2,
+  FileClock,
+  Paperclip
+} from 'lucide-react'
+
+import {
+  AttendanceCorrectionForm,
+  ATTENDANCE_STATUS_LABELS
+} from '@/components/attendance/AttendanceCorrectionForm'
+import { toast } from 'sonner'
+
+interface AttendanceCorrection {
+  id: string
+  attendanceDate: string
+  requestedCheckInTime?: string
+  requestedCheckOutTime?: string
+  requestedStatus?: string
+  reason: string
+  attachmentFile?: string
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+  rejectionReason?: string
+  submittedAt: string
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+}
+
+const REQUEST_STATUS_LABELS: Record<AttendanceCorrection['status'], string> = {
+  PENDING: 'Menunggu',
+  APPROVED: 'Disetujui',
+  REJECTED: 'Ditolak',
+  CANCELLED: 'Dibatalkan'
+}
+
+const REQUEST_STATUS_VARIANTS: Record<AttendanceCorrection['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  APPROVED: 'default',
+  REJECTED: 'destructive',
+  CANCELLED: 'secondary'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+const formatTime = (value?: string) =>
+  value
+    ? new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+    : '-'
+
+export default function AttendanceCorrectionsPage() {
+  const [corrections, setCorrections] = useState<AttendanceCorrection[]>([])
+  const [approvals, setApprovals] = useState<AttendanceCorrection[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showRejectDialog, setShowRejectDialog] = useState(false)
+  const [selectedCorrection, setSelectedCorrection] = useState<AttendanceCorrection | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  // Fetch own requests and requests waiting for the current user
+  const fetchCorrections = async () => {
+    try {
+      setLoading(true)
+
+      const [mineResponse, approvalsResponse] = await Promise.all([
+        fetch('/api/attendance/corrections?limit=50'),
+        fetch('/api/attendance/corrections?scope=approvals&limit=50')
+      ])
+
+      const [mineResult, approvalsResult] = await Promise.all([
+        mineResponse.json(),
+        approvalsResponse.json()
+      ])
+
+      if (!mineResponse.ok) {
+        throw new Error(mineResult.error || 'Gagal mengambil data koreksi absensi')
+      }
+
+      setCorrections(mineResult.data.corrections)
+      setApprovals(approvalsResponse.ok ? approvalsResult.data.corrections : [])
+    } catch (error) {
+      console.error('Error fetching attendance corrections:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data koreksi absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Approve or reject as the current approver
+  const handleReview = async (correction: AttendanceCorrection, action: 'APPROVE' | 'REJECT', comments?: string) => {
+    try {
+      setProcessingId(correction.id)
+
+      const response = await fetch(`/api/attendance/corrections/${correction.id}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, comments })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal memproses pengajuan koreksi')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowRejectDialog(false)
+      setSelectedCorrection(null)
+      setRejectionReason('')
+      fetchCorrections()
+    } catch (error) {
+      console.error('Error reviewing attendance correction:', error)
+      toast.error('Terjadi kesalahan saat memproses pengajuan koreksi')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  // Cancel own pending request
+  const handleCancel = async (correction: AttendanceCorrection) => {
+    try {
+      setProcessingId(correction.id)
+
+      const response = await fetch(`/api/attendance/corrections/${correction.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal membatalkan pengajuan koreksi')
+        return
+      }
+
+      toast.success('Pengajuan koreksi dibatalkan')
+      fetchCorrections()
+    } catch (error) {
+      console.error('Error cancelling attendance correction:', error)
+      toast.error('Terjadi kesalahan saat membatalkan pengajuan koreksi')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchCorrections()
+  }, [])
+
+  const renderRequestedChanges = (correction: AttendanceCorrection) => (
+    <div className="space-y-1 text-sm">
+      {correction.requestedCheckInTime && <div>Masuk: {formatTime(correction.requestedCheckInTime)}</div>}
+      {correction.requestedCheckOutTime && <div>Pulang: {formatTime(correction.requestedCheckOutTime)}</div>}
+      {correction.requestedStatus && (
+        <div>Status: {ATTENDANCE_STATUS_LABELS[correction.requestedStatus] || correction.requestedStatus}</div>
+      )}
+    </div>
+  )
+
+  const renderReason = (correction: AttendanceCorrection) => (
+    <div className="max-w-xs">
+      <div className="text-sm">{correction.reason}</div>
+      {correction.attachmentFile && (
+        <a
+          href={correction.attachmentFile}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-flex items-center text-xs text-blue-600 hover:underline"
+        >
+          <Paperclip className="h-3 w-3 mr-1" />
+          Lampiran
+        </a>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Koreksi Absensi</h1>
+          <p className="text-muted-foreground">
+            Ajukan koreksi jika lupa absen pulang, GPS gagal, atau status absensi keliru
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajukan Koreksi
+        </Button>
+      </div>
+
+      {approvals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Menunggu Persetujuan Anda</CardTitle>
+            <CardDescription>
+              Koreksi yang disetujui langsung memperbarui data absensi pegawai
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Koreksi</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvals.map((correction) => (
+                  <TableRow key={correction.id}>
+                    <TableCell>
+                      <div className="font-medium">{correction.user.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {correction.user.nip || correction.user.department?.name || ''}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(correction.attendanceDate)}</TableCell>
+                    <TableCell>{renderRequestedChanges(correction)}</TableCell>
+                    <TableCell>{renderReason(correction)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          size="sm"
+                          disabled={processingId === correction.id}
+                          onClick={() => handleReview(correction, 'APPROVE')}
+                        >
+                          {processingId === correction.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Check className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={processingId === correction.id}
+                          onClick={() => {
+                            setSelectedCorrection(correction)
+                            setShowRejectDialog(true)
+                          }}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pengajuan Saya</CardTitle>
+          <CardDescription>
+            Riwayat pengajuan koreksi absensi Anda
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : corrections.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <FileClock className="h-8 w-8 mb-2" />
+              <span>Belum ada pengajuan koreksi absensi</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Koreksi</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {corrections.map((correction) => (
+                  <TableRow key={correction.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(correction.attendanceDate)}</TableCell>
+                    <TableCell>{renderRequestedChanges(correction)}</TableCell>
+                    <TableCell>{renderReason(correction)}</TableCell>
+                    <TableCell>
+                      <Badge variant={REQUEST_STATUS_VARIANTS[correction.status]}>
+                        {REQUEST_STATUS_LABELS[correction.status]}
+                      </Badge>
+                      {correction.status === 'PENDING' && correction.currentApprover?.name && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Menunggu {correction.currentApprover.name}
+                        </div>
+                      )}
+                      {correction.status === 'REJECTED' && correction.rejectionReason && (
+                        <div className="text-xs text-muted-foreground mt-1">{correction.rejectionReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {correction.status === 'PENDING' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={processingId === correction.id}
+                          onClick={() => handleCancel(correction)}
+                        >
+                          Batalkan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Ajukan Koreksi Absensi</DialogTitle>
+            <DialogDescription>
+              Pengajuan akan diteruskan ke atasan langsung untuk disetujui
+            </DialogDescription>
+          </DialogHeader>
+          <AttendanceCorrectionForm
+            onSuccess={() => {
+              setShowCreateDialog(false)
+              fetchCorrections()
+            }}
+            onCancel={() => setShowCreateDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak Koreksi Absensi</DialogTitle>
+            <DialogDescription>
+              {selectedCorrection?.user.name} — {selectedCorrection && formatDate(selectedCorrection.attendanceDate)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Alasan Penolakan *</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || processingId !== null}
+              onClick={() => selectedCorrection && handleReview(selectedCorrection, 'REJECT', rejectionReason)}
+            >
+              Tolak
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
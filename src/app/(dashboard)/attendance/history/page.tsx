@@ -0,0 +1,304 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE HISTORY PAGE
+// src/app/(dashboard)/attendance/history/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  ChevronLeft,
+  ChevronRight,
+  CalendarDays,
+  List,
+  MapPin,
+  AlertTriangle
+} from 'lucide-react'
+
+import { AttendanceCalendar } from '@/components/attendance/AttendanceCalendar'
+import {
+  AttendanceDayDetail,
+  AttendanceHistoryItem,
+  ATTENDANCE_STATUS_STYLES,
+  formatDistance,
+  formatHistoryTime,
+  formatWorkLetter,
+  getHistoryWorkingMinutes
+} from '@/components/attendance/AttendanceDayDetail'
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+import { DEFAULT_TIMEZONE, formatWorkingHours } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface AttendanceHistoryData {
+  year: number
+  month: number
+  records: AttendanceHistoryItem[]
+  holidays: { date: string; name: string; type: string }[]
+  summary: {
+    recordedDays: number
+    presentDays: number
+    lateDays: number
+    absentDays: number
+    halfDayDays: number
+    totalWorkingMinutes: number
+    averageWorkingMinutes: number
+    totalLateMinutes: number
+  }
+}
+
+const formatListDate = (value: string) =>
+  new Date(`${value}T00:00:00.000Z`).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    timeZone: 'UTC'
+  })
+
+export default function AttendanceHistoryPage() {
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE })
+
+  const [year, setYear] = useState(Number(today.slice(0, 4)))
+  const [month, setMonth] = useState(Number(today.slice(5, 7)))
+  const [view, setView] = useState<'calendar' | 'list'>('calendar')
+  const [history, setHistory] = useState<AttendanceHistoryData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [selectedAttendance, setSelectedAttendance] = useState<AttendanceHistoryItem | null>(null)
+
+  const fetchHistory = async () => {
+    try {
+      setLoading(true)
+
+      const response = await fetch(`/api/attendance?year=${year}&month=${month}`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil riwayat absensi')
+      }
+
+      setHistory(result.data)
+    } catch (error) {
+      console.error('Error fetching attendance history:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil riwayat absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchHistory()
+  }, [year, month])
+
+  const changeMonth = (offset: number) => {
+    const target = new Date(Date.UTC(year, month - 1 + offset, 1))
+    setYear(target.getUTCFullYear())
+    setMonth(target.getUTCMonth() + 1)
+  }
+
+  const isCurrentMonth = `${year}-${String(month).padStart(2, '0')}` === today.slice(0, 7)
+  const monthLabel = new Date(Date.UTC(year, month - 1, 1)).toLocaleDateString('id-ID', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+  // Newest first in the list view
+  const listRecords = [...(history?.records || [])].reverse()
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Riwayat Absensi</h1>
+          <p className="text-muted-foreground">
+            Rekap kehadiran, jam kerja, dan keterlambatan Anda per bulan
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="icon" onClick={() => changeMonth(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <div className="min-w-[140px] text-center font-medium">{monthLabel}</div>
+          <Button variant="outline" size="icon" onClick={() => changeMonth(1)} disabled={isCurrentMonth}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Monthly totals */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Total Jam Kerja</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {history ? formatWorkingHours(history.summary.totalWorkingMinutes) : '-'}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Rata-rata {history ? formatWorkingHours(history.summary.averageWorkingMinutes) : '-'} / hari
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Hadir</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {history ? history.summary.presentDays + history.summary.lateDays : '-'} hari
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Setengah hari: {history?.summary.halfDayDays ?? '-'}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Terlambat</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{history?.summary.lateDays ?? '-'} hari</div>
+            <p className="text-xs text-muted-foreground">
+              Total {history?.summary.totalLateMinutes ?? '-'} menit
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Tidak Hadir</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{history?.summary.absentDays ?? '-'} hari</div>
+            <p className="text-xs text-muted-foreground">
+              Tercatat {history?.summary.recordedDays ?? '-'} hari
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>{view === 'calendar' ? 'Kalender' : 'Daftar'} Absensi</CardTitle>
+            <CardDescription>Pilih tanggal untuk melihat detail absensi</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              variant={view === 'calendar' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setView('calendar')}
+            >
+              <CalendarDays className="h-4 w-4 mr-2" />
+              Kalender
+            </Button>
+            <Button
+              variant={view === 'list' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setView('list')}
+            >
+              <List className="h-4 w-4 mr-2" />
+              Daftar
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading || !history ? (
+            <div className="space-y-2">
+              {Array.from({ length: 5 }).map((_, index) => (
+                <Skeleton key={index} className="h-12 w-full" />
+              ))}
+            </div>
+          ) : view === 'calendar' ? (
+            <AttendanceCalendar
+              year={history.year}
+              month={history.month}
+              records={history.records}
+              holidays={history.holidays}
+              today={today}
+              onSelect={setSelectedAttendance}
+            />
+          ) : listRecords.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Belum ada data absensi pada bulan ini
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Masuk</TableHead>
+                  <TableHead>Pulang</TableHead>
+                  <TableHead>Jam Kerja</TableHead>
+                  <TableHead>Lokasi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {listRecords.map((record) => (
+                  <TableRow
+                    key={record.id}
+                    className="cursor-pointer"
+                    onClick={() => setSelectedAttendance(record)}
+                  >
+                    <TableCell className="whitespace-nowrap">{formatListDate(record.date)}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline" className={ATTENDANCE_STATUS_STYLES[record.status]}>
+                        {ATTENDANCE_STATUS_LABELS[record.status] || record.status}
+                      </Badge>
+                      {record.lateMinutes > 0 && (
+                        <div className="text-xs text-yellow-700 mt-1">+{record.lateMinutes} menit</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{formatHistoryTime(record.checkInTime)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center">
+                        {formatHistoryTime(record.checkOutTime)}
+                        {record.autoClosedAt && (
+                          <AlertTriangle className="h-4 w-4 ml-1 text-yellow-600" />
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{formatWorkingHours(getHistoryWorkingMinutes(record))}</TableCell>
+                    <TableCell>
+                      {record.workLetter ? (
+                        <div className="flex items-center text-sm">
+                          <MapPin className="h-4 w-4 mr-1 text-blue-600" />
+                          Dinas luar · {formatWorkLetter(record.workLetter)}
+                        </div>
+                      ) : record.officeLocation ? (
+                        <div className="flex items-center text-sm">
+                          <MapPin className={`h-4 w-4 mr-1 ${record.isValidLocation ? 'text-green-600' : 'text-red-600'}`} />
+                          {record.officeLocation.name}
+                          <span className="ml-1 text-muted-foreground">({formatDistance(record.checkInDistance)})</span>
+                        </div>
+                      ) : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <AttendanceDayDetail
+        attendance={selectedAttendance}
+        onClose={() => setSelectedAttendance(null)}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,444 @@
+'use client'
+
+// ============================================================================
+// OVERTIME REQUESTS PAGE
+// src/app/(dashboard)/attendance/overtime/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Check,
+  X,
+  Loader2,
+  Timer
+} from 'lucide-react'
+
+import {
+  OvertimeRequestForm,
+  OvertimeTeamMember
+} from '@/components/attendance/OvertimeRequestForm'
+import { DEFAULT_TIMEZONE, formatWorkingHours } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface OvertimeRequest {
+  id: string
+  overtimeDate: string
+  startTime: string
+  endTime: string
+  isWorkingDay: boolean
+  requestedMinutes: number
+  approvedMinutes?: number
+  reason: string
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+  rejectionReason?: string
+  submittedAt: string
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  submittedBy: {
+    id: string
+    name?: string
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+}
+
+const REQUEST_STATUS_LABELS: Record<OvertimeRequest['status'], string> = {
+  PENDING: 'Menunggu',
+  APPROVED: 'Disetujui',
+  REJECTED: 'Ditolak',
+  CANCELLED: 'Dibatalkan'
+}
+
+const REQUEST_STATUS_VARIANTS: Record<OvertimeRequest['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  APPROVED: 'default',
+  REJECTED: 'destructive',
+  CANCELLED: 'secondary'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit', timeZone: DEFAULT_TIMEZONE })
+
+export default function OvertimeRequestsPage() {
+  const [overtimeRequests, setOvertimeRequests] = useState<OvertimeRequest[]>([])
+  const [approvals, setApprovals] = useState<OvertimeRequest[]>([])
+  const [teamMembers, setTeamMembers] = useState<OvertimeTeamMember[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showRejectDialog, setShowRejectDialog] = useState(false)
+  const [selectedRequest, setSelectedRequest] = useState<OvertimeRequest | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  // Fetch own requests and requests waiting for the current user
+  const fetchOvertimeRequests = async () => {
+    try {
+      setLoading(true)
+
+      const [mineResponse, approvalsResponse] = await Promise.all([
+        fetch('/api/overtime?limit=50'),
+        fetch('/api/overtime?scope=approvals&limit=50')
+      ])
+
+      const [mineResult, approvalsResult] = await Promise.all([
+        mineResponse.json(),
+        approvalsResponse.json()
+      ])
+
+      if (!mineResponse.ok) {
+        throw new Error(mineResult.error || 'Gagal mengambil data lembur')
+      }
+
+      setOvertimeRequests(mineResult.data.overtimeRequests)
+      setApprovals(approvalsResponse.ok ? approvalsResult.data.overtimeRequests : [])
+    } catch (error) {
+      console.error('Error fetching overtime requests:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data lembur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Department heads may file overtime for their team
+  const fetchTeamMembers = async () => {
+    try {
+      const response = await fetch('/api/overtime/team')
+      if (response.ok) {
+        const result = await response.json()
+        setTeamMembers(result.data)
+      }
+    } catch (error) {
+      console.error('Error fetching overtime team members:', error)
+    }
+  }
+
+  // Approve or reject as the current approver
+  const handleReview = async (overtime: OvertimeRequest, action: 'APPROVE' | 'REJECT', comments?: string) => {
+    try {
+      setProcessingId(overtime.id)
+
+      const response = await fetch(`/api/overtime/${overtime.id}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, comments })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal memproses pengajuan lembur')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowRejectDialog(false)
+      setSelectedRequest(null)
+      setRejectionReason('')
+      fetchOvertimeRequests()
+    } catch (error) {
+      console.error('Error reviewing overtime request:', error)
+      toast.error('Terjadi kesalahan saat memproses pengajuan lembur')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  // Cancel a pending request filed by or for the current user
+  const handleCancel = async (overtime: OvertimeRequest) => {
+    try {
+      setProcessingId(overtime.id)
+
+      const response = await fetch(`/api/overtime/${overtime.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal membatalkan pengajuan lembur')
+        return
+      }
+
+      toast.success('Pengajuan lembur dibatalkan')
+      fetchOvertimeRequests()
+    } catch (error) {
+      console.error('Error cancelling overtime request:', error)
+      toast.error('Terjadi kesalahan saat membatalkan pengajuan lembur')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchOvertimeRequests()
+    fetchTeamMembers()
+  }, [])
+
+  const renderEmployee = (overtime: OvertimeRequest) => (
+    <div>
+      <div className="font-medium">{overtime.user.name || '-'}</div>
+      <div className="text-sm text-muted-foreground">
+        {overtime.user.nip || overtime.user.department?.name || ''}
+      </div>
+      {overtime.submittedBy.id !== overtime.user.id && (
+        <div className="text-xs text-muted-foreground">Diajukan oleh {overtime.submittedBy.name || '-'}</div>
+      )}
+    </div>
+  )
+
+  const renderRange = (overtime: OvertimeRequest) => (
+    <div className="text-sm">
+      <div className="whitespace-nowrap">{formatDate(overtime.overtimeDate)}</div>
+      <div className="text-muted-foreground whitespace-nowrap">
+        {formatTime(overtime.startTime)} - {formatTime(overtime.endTime)} ({formatWorkingHours(overtime.requestedMinutes)})
+      </div>
+      {!overtime.isWorkingDay && (
+        <div className="text-xs text-red-600">Hari libur</div>
+      )}
+    </div>
+  )
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Lembur</h1>
+          <p className="text-muted-foreground">
+            Ajukan lembur setelah absen pulang tercatat untuk disetujui atasan
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajukan Lembur
+        </Button>
+      </div>
+
+      {approvals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Menunggu Persetujuan Anda</CardTitle>
+            <CardDescription>
+              Menit lembur yang disetujui dihitung dari rentang yang tercakup absen masuk dan pulang pegawai
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Waktu Lembur</TableHead>
+                  <TableHead>Uraian</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvals.map((overtime) => (
+                  <TableRow key={overtime.id}>
+                    <TableCell>{renderEmployee(overtime)}</TableCell>
+                    <TableCell>{renderRange(overtime)}</TableCell>
+                    <TableCell><div className="max-w-xs text-sm">{overtime.reason}</div></TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          size="sm"
+                          disabled={processingId === overtime.id}
+                          onClick={() => handleReview(overtime, 'APPROVE')}
+                        >
+                          {processingId === overtime.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Check className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={processingId === overtime.id}
+                          onClick={() => {
+                            setSelectedRequest(overtime)
+                            setShowRejectDialog(true)
+                          }}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pengajuan Lembur</CardTitle>
+          <CardDescription>
+            Pengajuan Anda dan pengajuan yang Anda buat untuk anggota unit
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : overtimeRequests.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Timer className="h-8 w-8 mb-2" />
+              <span>Belum ada pengajuan lembur</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Waktu Lembur</TableHead>
+                  <TableHead>Uraian</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overtimeRequests.map((overtime) => (
+                  <TableRow key={overtime.id}>
+                    <TableCell>{renderEmployee(overtime)}</TableCell>
+                    <TableCell>{renderRange(overtime)}</TableCell>
+                    <TableCell><div className="max-w-xs text-sm">{overtime.reason}</div></TableCell>
+                    <TableCell>
+                      <Badge variant={REQUEST_STATUS_VARIANTS[overtime.status]}>
+                        {REQUEST_STATUS_LABELS[overtime.status]}
+                      </Badge>
+                      {overtime.status === 'APPROVED' && overtime.approvedMinutes !== undefined && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Disetujui {formatWorkingHours(overtime.approvedMinutes)}
+                        </div>
+                      )}
+                      {overtime.status === 'PENDING' && overtime.currentApprover?.name && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Menunggu {overtime.currentApprover.name}
+                        </div>
+                      )}
+                      {overtime.status === 'REJECTED' && overtime.rejectionReason && (
+                        <div className="text-xs text-muted-foreground mt-1">{overtime.rejectionReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {overtime.status === 'PENDING' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={processingId === overtime.id}
+                          onClick={() => handleCancel(overtime)}
+                        >
+                          Batalkan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Ajukan Lembur</DialogTitle>
+            <DialogDescription>
+              Pengajuan akan diteruskan ke atasan langsung untuk disetujui
+            </DialogDescription>
+          </DialogHeader>
+          <OvertimeRequestForm
+            teamMembers={teamMembers}
+            onSuccess={() => {
+              setShowCreateDialog(false)
+              fetchOvertimeRequests()
+            }}
+            onCancel={() => setShowCreateDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak Pengajuan Lembur</DialogTitle>
+            <DialogDescription>
+              {selectedRequest?.user.name} — {selectedRequest && formatDate(selectedRequest.overtimeDate)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Alasan Penolakan *</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || processingId !== null}
+              onClick={() => selectedRequest && handleReview(selectedRequest, 'REJECT', rejectionReason)}
+            >
+              Tolak
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
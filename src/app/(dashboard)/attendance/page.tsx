@@ -0,0 +1,184 @@
+'use client'
+
+// ============================================================================
+// TODAY ATTENDANCE PAGE
+// src/app/(dashboard)/attendance/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Clock, History, LogIn, MapPin } from 'lucide-react'
+
+import {
+  AttendanceHistoryItem,
+  ATTENDANCE_STATUS_STYLES,
+  formatDistance,
+  formatHistoryDate,
+  formatHistoryTime,
+  getHistoryWorkingMinutes
+} from '@/components/attendance/AttendanceDayDetail'
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+import { AttendancePunchPanel, AttendancePunchesData } from '@/components/attendance/AttendancePunchPanel'
+import { DEFAULT_TIMEZONE, formatWorkingHours } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+export default function TodayAttendancePage() {
+  const today = new Date().toLocaleDateString('en-CA', { timeZone: DEFAULT_TIMEZONE })
+
+  const [attendance, setAttendance] = useState<AttendanceHistoryItem | null>(null)
+  const [punches, setPunches] = useState<AttendancePunchesData | null>(null)
+  const [monthlyMinutes, setMonthlyMinutes] = useState(0)
+  const [loading, setLoading] = useState(true)
+
+  const fetchToday = async () => {
+    try {
+      setLoading(true)
+
+      const [response, punchesResponse] = await Promise.all([
+        fetch(`/api/attendance?year=${today.slice(0, 4)}&month=${Number(today.slice(5, 7))}`),
+        fetch('/api/attendance/punches')
+      ])
+      const [result, punchesResult] = await Promise.all([response.json(), punchesResponse.json()])
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data absensi')
+      }
+
+      if (!punchesResponse.ok) {
+        throw new Error(punchesResult.error || 'Gagal mengambil data absensi')
+      }
+
+      const records: AttendanceHistoryItem[] = result.data.records
+      // Punches follow the business date, which differs from today after an overnight shift
+      const punchesData: AttendancePunchesData = punchesResult.data
+      setAttendance(records.find(record => record.date === punchesData.attendanceDate) || null)
+      setPunches(punchesData)
+      setMonthlyMinutes(result.data.summary.totalWorkingMinutes)
+    } catch (error) {
+      console.error('Error fetching today attendance:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    fetchToday()
+  }, [])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:justify-between sm:items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Absen Hari Ini</h1>
+          <p className="text-muted-foreground">{formatHistoryDate(today)}</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" asChild>
+            <Link href="/attendance/history">
+              <History className="h-4 w-4 mr-2" />
+              Riwayat
+            </Link>
+          </Button>
+          <Button asChild>
+            <Link href="/dashboard">
+              <LogIn className="h-4 w-4 mr-2" />
+              Check-in / Check-out
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Status Kehadiran</CardTitle>
+          <CardDescription>
+            Total jam kerja bulan ini: {loading ? '-' : formatWorkingHours(monthlyMinutes)}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !attendance ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Anda belum melakukan check-in hari ini
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={ATTENDANCE_STATUS_STYLES[attendance.status]}>
+                  {ATTENDANCE_STATUS_LABELS[attendance.status] || attendance.status}
+                </Badge>
+                {attendance.lateMinutes > 0 && (
+                  <span className="text-sm text-yellow-700">Terlambat {attendance.lateMinutes} menit</span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div className="rounded-md border p-4">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Jam Masuk
+                  </div>
+                  <div className="text-2xl font-semibold">{formatHistoryTime(attendance.checkInTime)}</div>
+                </div>
+                <div className="rounded-md border p-4">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Jam Pulang
+                  </div>
+                  <div className="text-2xl font-semibold">{formatHistoryTime(attendance.checkOutTime)}</div>
+                </div>
+                <div className="rounded-md border p-4">
+                  <div className="text-sm text-muted-foreground">Jam Kerja</div>
+                  <div className="text-2xl font-semibold">
+                    {formatWorkingHours(
+                      // Live total net of breaks while the day is still open
+                      punches && !attendance.checkOutTime && !attendance.autoClosedAt
+                        ? punches.workingMinutes
+                        : getHistoryWorkingMinutes(attendance)
+                    )}
+                  </div>
+                </div>
+              </div>
+
+              {attendance.officeLocation && (
+                <div className="flex items-center text-sm">
+                  <MapPin className={`h-4 w-4 mr-1 ${attendance.isValidLocation ? 'text-green-600' : 'text-red-600'}`} />
+                  {attendance.officeLocation.name}
+                  <span className="ml-1 text-muted-foreground">
+                    ({formatDistance(attendance.checkInDistance)} dari kantor)
+                  </span>
+                </div>
+              )}
+
+              {attendance.notes && (
+                <div className="whitespace-pre-line rounded-md bg-muted p-3 text-sm">{attendance.notes}</div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {!loading && attendance && punches && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Aktivitas Hari Ini</CardTitle>
+            <CardDescription>
+              Catat istirahat atau masuk kembali setelah keluar kantor. Jam kerja dihitung tanpa waktu istirahat.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AttendancePunchPanel data={punches} onPunched={fetchToday} />
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,311 @@
+'use client'
+
+// ============================================================================
+// FLAGGED ATTENDANCE REVIEWS PAGE
+// src/app/(dashboard)/attendance/reviews/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Check,
+  X,
+  Loader2,
+  ShieldCheck
+} from 'lucide-react'
+
+import { toast } from 'sonner'
+
+type ReviewStatus = 'PENDING' | 'CLEARED' | 'REJECTED'
+
+interface FlaggedAttendance {
+  id: string
+  attendanceDate: string
+  checkInTime?: string
+  checkOutTime?: string
+  fraudScore: number
+  fraudSignals?: {
+    code: string
+    weight: number
+    message: string
+    punchType: 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END'
+    detectedAt: string
+  }[]
+  reviewStatus: ReviewStatus
+  reviewNotes?: string
+  user: {
+    id: string
+    name: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+}
+
+const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  PENDING: 'Menunggu',
+  CLEARED: 'Wajar',
+  REJECTED: 'Ditolak'
+}
+
+const PUNCH_LABELS: Record<string, string> = {
+  IN: 'Masuk',
+  OUT: 'Pulang',
+  BREAK_START: 'Mulai istirahat',
+  BREAK_END: 'Selesai istirahat'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+const formatTime = (value?: string) =>
+  value
+    ? new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+    : '-'
+
+export default function AttendanceReviewsPage() {
+  const [attendances, setAttendances] = useState<FlaggedAttendance[]>([])
+  const [status, setStatus] = useState<ReviewStatus>('PENDING')
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [showRejectDialog, setShowRejectDialog] = useState(false)
+  const [selectedAttendance, setSelectedAttendance] = useState<FlaggedAttendance | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  // Fetch attendance flagged for the current user
+  const fetchAttendances = async (reviewStatus: ReviewStatus) => {
+    try {
+      setLoading(true)
+
+      const response = await fetch(`/api/attendance/reviews?status=${reviewStatus}&limit=50`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil data absensi yang ditandai')
+      }
+
+      setAttendances(result.data.attendances)
+    } catch (error) {
+      console.error('Error fetching flagged attendances:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data absensi yang ditandai')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Clear or reject as the reviewer
+  const handleReview = async (attendance: FlaggedAttendance, action: 'CLEAR' | 'REJECT', notes?: string) => {
+    try {
+      setProcessingId(attendance.id)
+
+      const response = await fetch(`/api/attendance/reviews/${attendance.id}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, notes })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal meninjau absensi')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowRejectDialog(false)
+      setSelectedAttendance(null)
+      setRejectionReason('')
+      fetchAttendances(status)
+    } catch (error) {
+      console.error('Error reviewing flagged attendance:', error)
+      toast.error('Terjadi kesalahan saat meninjau absensi')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchAttendances(status)
+  }, [status])
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold tracking-tight">Tinjauan Absensi</h1>
+        <p className="text-muted-foreground">
+          Absensi yang terindikasi pemalsuan lokasi dan perlu ditinjau sebelum dianggap sah
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        {(Object.keys(REVIEW_STATUS_LABELS) as ReviewStatus[]).map((value) => (
+          <Button
+            key={value}
+            variant={status === value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setStatus(value)}
+          >
+            {REVIEW_STATUS_LABELS[value]}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Absensi Ditandai</CardTitle>
+          <CardDescription>
+            Absensi yang ditolak dicatat sebagai tidak hadir. Pegawai dapat mengajukan koreksi absensi.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : attendances.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <ShieldCheck className="h-8 w-8 mb-2" />
+              <span>Tidak ada absensi yang perlu ditinjau</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Masuk / Pulang</TableHead>
+                  <TableHead>Indikasi</TableHead>
+                  <TableHead>{status === 'PENDING' ? 'Aksi' : 'Catatan'}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {attendances.map((attendance) => (
+                  <TableRow key={attendance.id}>
+                    <TableCell>
+                      <div className="font-medium">{attendance.user.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {attendance.user.nip || attendance.user.department?.name || ''}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(attendance.attendanceDate)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatTime(attendance.checkInTime)} / {formatTime(attendance.checkOutTime)}
+                    </TableCell>
+                    <TableCell>
+                      <div className="max-w-md space-y-1">
+                        <Badge variant={attendance.fraudScore >= 50 ? 'destructive' : 'outline'}>
+                          Skor {attendance.fraudScore}
+                        </Badge>
+                        {(attendance.fraudSignals || []).map((signal, index) => (
+                          <div key={index} className="text-sm">
+                            <span className="text-muted-foreground">{PUNCH_LABELS[signal.punchType] || signal.punchType}:</span>{' '}
+                            {signal.message}
+                          </div>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {status === 'PENDING' ? (
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            size="sm"
+                            disabled={processingId === attendance.id}
+                            onClick={() => handleReview(attendance, 'CLEAR')}
+                          >
+                            {processingId === attendance.id
+                              ? <Loader2 className="h-4 w-4 animate-spin" />
+                              : <Check className="h-4 w-4" />}
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={processingId === attendance.id}
+                            onClick={() => {
+                              setSelectedAttendance(attendance)
+                              setShowRejectDialog(true)
+                            }}
+                          >
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="max-w-xs text-sm text-muted-foreground">{attendance.reviewNotes || '-'}</div>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Reject Dialog */}
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak Absensi</DialogTitle>
+            <DialogDescription>
+              {selectedAttendance?.user.name} — {selectedAttendance && formatDate(selectedAttendance.attendanceDate)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Alasan Penolakan *</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || processingId !== null}
+              onClick={() => selectedAttendance && handleReview(selectedAttendance, 'REJECT', rejectionReason)}
+            >
+              Tolak
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
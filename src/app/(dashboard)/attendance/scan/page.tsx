@@ -0,0 +1,147 @@
+'use client'
+
+// ============================================================================
+// KIOSK SCAN PAGE
+// src/app/(dashboard)/attendance/scan/page.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useSearchParams } from 'next/navigation'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { CheckCircle, Loader2, LogIn, QrCode, XCircle } from 'lucide-react'
+import { SelfieCaptureDialog } from '@/components/attendance/SelfieCaptureDialog'
+import { getDeviceId } from '@/utils/deviceId'
+
+interface ScanResult {
+  success: boolean
+  message: string
+}
+
+// Opened from the office kiosk's QR code; the token in the URL proves presence
+export default function KioskScanPage() {
+  const searchParams = useSearchParams()
+  const kioskToken = searchParams.get('token')
+
+  const [submitting, setSubmitting] = useState(false)
+  const [selfieOpen, setSelfieOpen] = useState(false)
+  const [result, setResult] = useState<ScanResult | null>(null)
+
+  // GPS is sent when available; offices that also require it reject the check-in without it
+  const getPosition = () =>
+    new Promise<GeolocationPosition | null>((resolve) => {
+      if (!navigator.geolocation) {
+        resolve(null)
+        return
+      }
+      navigator.geolocation.getCurrentPosition(resolve, () => resolve(null), {
+        enableHighAccuracy: true,
+        timeout: 10000,
+        maximumAge: 30000
+      })
+    })
+
+  const handleCheckIn = async (photo?: string) => {
+    if (!kioskToken) return
+
+    try {
+      setSubmitting(true)
+
+      const position = await getPosition()
+      const response = await fetch('/api/attendance/check-in', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          kioskToken,
+          latitude: position?.coords.latitude,
+          longitude: position?.coords.longitude,
+          accuracy: position?.coords.accuracy,
+          altitude: position?.coords.altitude,
+          timestamp: position?.timestamp,
+          deviceId: getDeviceId(),
+          photo
+        })
+      })
+
+      const data = await response.json()
+
+      if (!response.ok) {
+        // Location requires a selfie: capture one and submit again
+        if (data.photoRequired && !photo) {
+          setSelfieOpen(true)
+          return
+        }
+
+        setResult({ success: false, message: data.error || 'Gagal melakukan check-in' })
+        return
+      }
+
+      const officeName = data.data?.locationValidation?.nearestOfficeLocation?.name
+      const lateMinutes = data.data?.lateMinutes || 0
+      setResult({
+        success: true,
+        message: `Check-in berhasil${officeName ? ` di ${officeName}` : ''}.${lateMinutes > 0 ? ` Terlambat ${lateMinutes} menit.` : ''}`
+      })
+    } catch (error) {
+      console.error('Kiosk check-in error:', error)
+      setResult({ success: false, message: 'Gagal melakukan check-in' })
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="max-w-md mx-auto space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <QrCode className="h-5 w-5" />
+            <span>Check-in Kiosk</span>
+          </CardTitle>
+          <CardDescription>
+            QR code dari kiosk kantor hanya berlaku sebentar. Jika kedaluwarsa, pindai ulang QR code terbaru.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!kioskToken ? (
+            <p className="text-sm text-red-600">
+              QR code tidak ditemukan. Pindai QR code yang ditampilkan di kiosk kantor.
+            </p>
+          ) : result ? (
+            <div className={`flex items-start space-x-2 text-sm ${result.success ? 'text-green-700' : 'text-red-600'}`}>
+              {result.success
+                ? <CheckCircle className="h-5 w-5 shrink-0" />
+                : <XCircle className="h-5 w-5 shrink-0" />}
+              <span>{result.message}</span>
+            </div>
+          ) : (
+            <Button className="w-full" onClick={() => handleCheckIn()} disabled={submitting}>
+              {submitting
+                ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                : <LogIn className="h-4 w-4 mr-2" />}
+              Check-in Sekarang
+            </Button>
+          )}
+
+          <Button variant="outline" className="w-full" asChild>
+            <Link href="/attendance">Lihat Absensi Hari Ini</Link>
+          </Button>
+        </CardContent>
+      </Card>
+
+      <SelfieCaptureDialog
+        open={selfieOpen}
+        title="Foto Check-in"
+        onCancel={() => setSelfieOpen(false)}
+        onCapture={(photo) => {
+          setSelfieOpen(false)
+          handleCheckIn(photo)
+        }}
+      />
+    </div>
+  )
+}
@@ -0,0 +1,501 @@
+'use client'
+
+// ============================================================================
+// WORK FROM HOME PAGE
+// src/app/(dashboard)/attendance/wfh/page.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Plus,
+  Check,
+  X,
+  Loader2,
+  Home,
+  MapPin
+} from 'lucide-react'
+
+import { WorkFromHomeRequestForm } from '@/components/attendance/WorkFromHomeRequestForm'
+import { DAY_OF_WEEK_LABELS } from '@/utils/dateUtils'
+import { toast } from 'sonner'
+
+interface RemoteWorkProfile {
+  userId: string
+  homeLatitude?: number
+  homeLongitude?: number
+  homeRadiusMeters: number
+  homeLocationApprovedAt?: string
+  homeLocationApprovedBy?: {
+    id: string
+    name?: string
+  }
+  wfhDays: string[]
+}
+
+interface WorkFromHomeRequest {
+  id: string
+  wfhDate: string
+  reason: string
+  status: 'PENDING' | 'APPROVED' | 'REJECTED' | 'CANCELLED'
+  rejectionReason?: string
+  submittedAt: string
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+}
+
+const REQUEST_STATUS_LABELS: Record<WorkFromHomeRequest['status'], string> = {
+  PENDING: 'Menunggu',
+  APPROVED: 'Disetujui',
+  REJECTED: 'Ditolak',
+  CANCELLED: 'Dibatalkan'
+}
+
+const REQUEST_STATUS_VARIANTS: Record<WorkFromHomeRequest['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  PENDING: 'outline',
+  APPROVED: 'default',
+  REJECTED: 'destructive',
+  CANCELLED: 'secondary'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+export default function WorkFromHomePage() {
+  const [profile, setProfile] = useState<RemoteWorkProfile | null>(null)
+  const [wfhRequests, setWfhRequests] = useState<WorkFromHomeRequest[]>([])
+  const [approvals, setApprovals] = useState<WorkFromHomeRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [proposingLocation, setProposingLocation] = useState(false)
+
+  // Dialog states
+  const [showCreateDialog, setShowCreateDialog] = useState(false)
+  const [showRejectDialog, setShowRejectDialog] = useState(false)
+  const [selectedRequest, setSelectedRequest] = useState<WorkFromHomeRequest | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [processingId, setProcessingId] = useState<string | null>(null)
+
+  // Fetch home location, own requests and requests waiting for the current user
+  const fetchData = async () => {
+    try {
+      setLoading(true)
+
+      const [profileResponse, mineResponse, approvalsResponse] = await Promise.all([
+        fetch('/api/remote-work'),
+        fetch('/api/wfh-requests?limit=50'),
+        fetch('/api/wfh-requests?scope=approvals&limit=50')
+      ])
+
+      const [profileResult, mineResult, approvalsResult] = await Promise.all([
+        profileResponse.json(),
+        mineResponse.json(),
+        approvalsResponse.json()
+      ])
+
+      if (!profileResponse.ok || !mineResponse.ok) {
+        throw new Error(profileResult.error || mineResult.error || 'Gagal mengambil data WFH')
+      }
+
+      setProfile(profileResult.data)
+      setWfhRequests(mineResult.data.workFromHomeRequests)
+      setApprovals(approvalsResponse.ok ? approvalsResult.data.workFromHomeRequests : [])
+    } catch (error) {
+      console.error('Error fetching work from home data:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil data WFH')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Propose the current position as home location; an admin approves it afterwards
+  const handleProposeLocation = async () => {
+    try {
+      setProposingLocation(true)
+
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 15000,
+          maximumAge: 0
+        })
+      })
+
+      const response = await fetch('/api/remote-work', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengajukan lokasi rumah')
+      }
+
+      toast.success(result.message)
+      setProfile(result.data)
+    } catch (error) {
+      console.error('Error proposing home location:', error)
+      const message = error instanceof GeolocationPositionError
+        ? 'Tidak dapat mendapatkan lokasi. Pastikan izin lokasi aktif.'
+        : error instanceof Error ? error.message : 'Gagal mengajukan lokasi rumah'
+      toast.error(message)
+    } finally {
+      setProposingLocation(false)
+    }
+  }
+
+  // Approve or reject as the current approver
+  const handleReview = async (wfhRequest: WorkFromHomeRequest, action: 'APPROVE' | 'REJECT', comments?: string) => {
+    try {
+      setProcessingId(wfhRequest.id)
+
+      const response = await fetch(`/api/wfh-requests/${wfhRequest.id}/review`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ action, comments })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal memproses pengajuan WFH')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowRejectDialog(false)
+      setSelectedRequest(null)
+      setRejectionReason('')
+      fetchData()
+    } catch (error) {
+      console.error('Error reviewing work from home request:', error)
+      toast.error('Terjadi kesalahan saat memproses pengajuan WFH')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  // Cancel a pending request of the current user
+  const handleCancel = async (wfhRequest: WorkFromHomeRequest) => {
+    try {
+      setProcessingId(wfhRequest.id)
+
+      const response = await fetch(`/api/wfh-requests/${wfhRequest.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal membatalkan pengajuan WFH')
+        return
+      }
+
+      toast.success('Pengajuan WFH dibatalkan')
+      fetchData()
+    } catch (error) {
+      console.error('Error cancelling work from home request:', error)
+      toast.error('Terjadi kesalahan saat membatalkan pengajuan WFH')
+    } finally {
+      setProcessingId(null)
+    }
+  }
+
+  useEffect(() => {
+    fetchData()
+  }, [])
+
+  const homeLocation = profile?.homeLatitude !== undefined && profile?.homeLongitude !== undefined
+    ? { latitude: profile.homeLatitude, longitude: profile.homeLongitude }
+    : null
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Kerja dari Rumah</h1>
+          <p className="text-muted-foreground">
+            Absen dari lokasi rumah yang disetujui pada hari WFH terjadwal atau yang pengajuannya disetujui
+          </p>
+        </div>
+        <Button onClick={() => setShowCreateDialog(true)} disabled={!profile?.homeLocationApprovedAt}>
+          <Plus className="h-4 w-4 mr-2" />
+          Ajukan WFH
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Lokasi Rumah</CardTitle>
+          <CardDescription>
+            Ambil lokasi dari dalam rumah; lokasi baru berlaku setelah disetujui admin kepegawaian
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading && !profile ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : (
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+              <div className="space-y-2 text-sm">
+                {homeLocation ? (
+                  <div className="flex items-center">
+                    <MapPin className="h-4 w-4 mr-2 text-muted-foreground" />
+                    {homeLocation.latitude.toFixed(6)}, {homeLocation.longitude.toFixed(6)} (radius {profile?.homeRadiusMeters}m)
+                  </div>
+                ) : (
+                  <div className="text-muted-foreground">Lokasi rumah belum diajukan</div>
+                )}
+                {homeLocation && (
+                  profile?.homeLocationApprovedAt ? (
+                    <Badge>
+                      Disetujui{profile.homeLocationApprovedBy?.name ? ` oleh ${profile.homeLocationApprovedBy.name}` : ''}
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Menunggu persetujuan admin</Badge>
+                  )
+                )}
+                <div className="text-muted-foreground">
+                  Hari WFH mingguan:{' '}
+                  {profile?.wfhDays.length
+                    ? profile.wfhDays.map(day => DAY_OF_WEEK_LABELS[day]).join(', ')
+                    : 'tidak ada'}
+                </div>
+              </div>
+              <Button variant="outline" onClick={handleProposeLocation} disabled={proposingLocation}>
+                {proposingLocation
+                  ? <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  : <Home className="h-4 w-4 mr-2" />}
+                {homeLocation ? 'Perbarui dengan Lokasi Saat Ini' : 'Gunakan Lokasi Saat Ini'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {approvals.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Menunggu Persetujuan Anda</CardTitle>
+            <CardDescription>
+              Pengajuan WFH anggota unit yang perlu Anda setujui
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvals.map((wfhRequest) => (
+                  <TableRow key={wfhRequest.id}>
+                    <TableCell>
+                      <div className="font-medium">{wfhRequest.user.name || '-'}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {wfhRequest.user.nip || wfhRequest.user.department?.name || ''}
+                      </div>
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDate(wfhRequest.wfhDate)}</TableCell>
+                    <TableCell><div className="max-w-xs text-sm">{wfhRequest.reason}</div></TableCell>
+                    <TableCell>
+                      <div className="flex items-center space-x-2">
+                        <Button
+                          size="sm"
+                          disabled={processingId === wfhRequest.id}
+                          onClick={() => handleReview(wfhRequest, 'APPROVE')}
+                        >
+                          {processingId === wfhRequest.id
+                            ? <Loader2 className="h-4 w-4 animate-spin" />
+                            : <Check className="h-4 w-4" />}
+                        </Button>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={processingId === wfhRequest.id}
+                          onClick={() => {
+                            setSelectedRequest(wfhRequest)
+                            setShowRejectDialog(true)
+                          }}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Pengajuan WFH</CardTitle>
+          <CardDescription>
+            WFH di luar jadwal mingguan diajukan per tanggal dan disetujui atasan langsung
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center items-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin" />
+            </div>
+          ) : wfhRequests.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-muted-foreground">
+              <Home className="h-8 w-8 mb-2" />
+              <span>Belum ada pengajuan WFH</span>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Alasan</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Aksi</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {wfhRequests.map((wfhRequest) => (
+                  <TableRow key={wfhRequest.id}>
+                    <TableCell className="whitespace-nowrap">{formatDate(wfhRequest.wfhDate)}</TableCell>
+                    <TableCell><div className="max-w-xs text-sm">{wfhRequest.reason}</div></TableCell>
+                    <TableCell>
+                      <Badge variant={REQUEST_STATUS_VARIANTS[wfhRequest.status]}>
+                        {REQUEST_STATUS_LABELS[wfhRequest.status]}
+                      </Badge>
+                      {wfhRequest.status === 'PENDING' && wfhRequest.currentApprover?.name && (
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Menunggu {wfhRequest.currentApprover.name}
+                        </div>
+                      )}
+                      {wfhRequest.status === 'REJECTED' && wfhRequest.rejectionReason && (
+                        <div className="text-xs text-muted-foreground mt-1">{wfhRequest.rejectionReason}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {wfhRequest.status === 'PENDING' && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={processingId === wfhRequest.id}
+                          onClick={() => handleCancel(wfhRequest)}
+                        >
+                          Batalkan
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create Dialog */}
+      <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Ajukan WFH</DialogTitle>
+            <DialogDescription>
+              Pengajuan akan diteruskan ke atasan langsung untuk disetujui
+            </DialogDescription>
+          </DialogHeader>
+          <WorkFromHomeRequestForm
+            onSuccess={() => {
+              setShowCreateDialog(false)
+              fetchData()
+            }}
+            onCancel={() => setShowCreateDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+
+      {/* Reject Dialog */}
+      <Dialog open={showRejectDialog} onOpenChange={setShowRejectDialog}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tolak Pengajuan WFH</DialogTitle>
+            <DialogDescription>
+              {selectedRequest?.user.name} — {selectedRequest && formatDate(selectedRequest.wfhDate)}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="rejectionReason">Alasan Penolakan *</Label>
+            <Textarea
+              id="rejectionReason"
+              value={rejectionReason}
+              onChange={(e) => setRejectionReason(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setShowRejectDialog(false)}>
+              Batal
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!rejectionReason.trim() || processingId !== null}
+              onClick={() => selectedRequest && handleReview(selectedRequest, 'REJECT', rejectionReason)}
+            >
+              Tolak
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  )
+}
@@ -26,6 +26,12 @@ import RecentActivity from '@/components/dashboard/RecentActivity'
 import NotificationPanel from '@/components/dashboard/NotificationPanel'
 import { DashboardStats } from '@/types/domain'
 import {toast} from "sonner";
+import { getDeviceId } from '@/utils/deviceId'
+import { SelfieCaptureDialog } from '@/components/attendance/SelfieCaptureDialog'
+import TeamAttendanceCard from '@/components/dashboard/TeamAttendanceCard'
+import { useOfflineAttendanceSync } from '@/hooks/useOfflineAttendanceSync'
+import { isOfflineError } from '@/utils/offlineAttendanceQueue'
+import { OfflinePunchType } from '@/utils/offlinePunch'
 
 export default function DashboardPage() {
   const { data: session } = useSession()
@@ -35,6 +41,7 @@ export default function DashboardPage() {
   const [isLoading, setIsLoading] = useState(true)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
+  const [selfieAction, setSelfieAction] = useState<'check-in' | 'check-out' | null>(null)
 
   // Get user role from session
   const userRole = session?.user?.role?.name || 'EMPLOYEE'
@@ -95,8 +102,31 @@ export default function DashboardPage() {
     }
   }
 
-  // Handle check-in
-  const handleCheckIn = async () => {
+  // Punches made without a connection are queued and sent when it returns
+  const { pendingCount: pendingOfflinePunches, queuePunch } = useOfflineAttendanceSync(
+    session?.user?.id,
+    () => fetchDashboardData(true)
+  )
+
+  const saveOfflinePunch = async (punchType: OfflinePunchType, position?: GeolocationPosition) => {
+    const label = punchType === 'CHECK_IN' ? 'Check-in' : 'Check-out'
+    try {
+      const capture = await queuePunch(punchType, position)
+      const capturedTime = new Date(capture.capturedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+      toast.success(`${label} Disimpan Offline 📴`, {
+        description: `Tidak ada koneksi. ${label} pukul ${capturedTime} akan dikirim otomatis saat koneksi kembali.`,
+        duration: 8000
+      })
+    } catch (queueError) {
+      console.error('Error queueing offline punch:', queueError)
+      toast.error(`${label} Gagal`, {
+        description: 'Tidak ada koneksi dan absen tidak dapat disimpan di perangkat ini.'
+      })
+    }
+  }
+
+  // Handle check-in; photo is a selfie data URL when the location requires one
+  const handleCheckIn = async (photo?: string) => {
     try {
       // Get user location
       if (!navigator.geolocation) {
@@ -118,16 +148,30 @@ export default function DashboardPage() {
         })
       })
 
-      const response = await fetch('/api/attendance/check-in', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude
+      let response: Response
+      try {
+        response = await fetch('/api/attendance/check-in', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+            altitude: position.coords.altitude,
+            timestamp: position.timestamp,
+            deviceId: getDeviceId(),
+            photo
+          })
         })
-      })
+      } catch (networkError) {
+        if (isOfflineError(networkError)) {
+          await saveOfflinePunch('CHECK_IN', position)
+          return
+        }
+        throw networkError
+      }
 
       const result = await response.json()
 
@@ -139,6 +183,15 @@ export default function DashboardPage() {
           const distance = locationValidation.distance
           const allowedRadius = locationValidation.allowedRadius
 
+          // Too inaccurate to decide: ask for another attempt instead of rejecting
+          if (locationValidation.requiresRetry) {
+            toast.error('Akurasi GPS Kurang 📡', {
+              description: result.error,
+              duration: 8000
+            })
+            return
+          }
+
           let detailedMessage = result.error
           if (nearestLocation && distance && allowedRadius) {
             detailedMessage += `\n\nInformasi lokasi:\n• Lokasi terdekat: ${nearestLocation.name}\n• Jarak Anda: ${distance}m\n• Radius maksimal: ${allowedRadius}m`
@@ -153,6 +206,12 @@ export default function DashboardPage() {
           return
         }
 
+        // Location requires a selfie: capture one and submit again
+        if (result.photoRequired && !photo) {
+          setSelfieAction('check-in')
+          return
+        }
+
         throw new Error(result.error || 'Gagal melakukan check-in')
       }
 
@@ -161,12 +220,27 @@ export default function DashboardPage() {
       if (locationValidation) {
         const distance = locationValidation.distance
         const allowedRadius = locationValidation.allowedRadius
-        const officeName = locationValidation.nearestOfficeLocation?.name
-
-        if (locationValidation.isValid) {
+        const workLetter = result.data?.workLetter
+        const officeName = result.data?.workMode === 'WFH'
+          ? 'rumah (WFH)'
+          : workLetter
+            ? `tujuan dinas luar (${workLetter.letterNumber || workLetter.subject})`
+            : locationValidation.nearestOfficeLocation?.name
+        const lateMinutes = result.data?.lateMinutes || 0
+        const lateInfo = lateMinutes > 0
+          ? ` Terlambat ${lateMinutes} menit dari jam masuk ${result.data?.scheduledStartTime}.`
+          : ''
+
+        if (locationValidation.isValid && workLetter && distance === undefined) {
+          toast({
+            title: 'Check-in Berhasil ✅',
+            description: `Tercatat dinas luar (${workLetter.letterNumber || workLetter.subject}).${lateInfo}`,
+            variant: 'default'
+          })
+        } else if (locationValidation.isValid) {
           toast({
             title: 'Check-in Berhasil ✅',
-            description: `Lokasi valid di ${officeName}. Jarak: ${distance}m (Radius: ${allowedRadius}m)`,
+            description: `Lokasi valid di ${officeName}. Jarak: ${distance}m (Radius: ${allowedRadius}m).${lateInfo}`,
             variant: 'default'
           })
         } else {
@@ -218,8 +292,8 @@ export default function DashboardPage() {
     }
   }
 
-  // Handle check-out
-  const handleCheckOut = async () => {
+  // Handle check-out; photo is a selfie data URL when the location requires one
+  const handleCheckOut = async (photo?: string) => {
     try {
       // Show loading toast
       toast({
@@ -229,7 +303,8 @@ export default function DashboardPage() {
       })
 
       // Get user location for check-out validation
-      let latitude, longitude
+      let latitude, longitude, accuracy, altitude, timestamp
+      let checkOutPosition: GeolocationPosition | undefined
       if (navigator.geolocation) {
         try {
           const position = await new Promise<GeolocationPosition>((resolve, reject) => {
@@ -239,8 +314,12 @@ export default function DashboardPage() {
               maximumAge: 30000 // Reduced max age for fresher location
             })
           })
+          checkOutPosition = position
           latitude = position.coords.latitude
           longitude = position.coords.longitude
+          accuracy = position.coords.accuracy
+          altitude = position.coords.altitude
+          timestamp = position.timestamp
         } catch (locationError) {
           console.warn('Could not get location for check-out:', locationError)
           // Continue without location validation but show warning
@@ -252,16 +331,30 @@ export default function DashboardPage() {
         }
       }
 
-      const response = await fetch('/api/attendance/check-out', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({
-          latitude,
-          longitude
+      let response: Response
+      try {
+        response = await fetch('/api/attendance/check-out', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            latitude,
+            longitude,
+            accuracy,
+            altitude,
+            timestamp,
+            deviceId: getDeviceId(),
+            photo
+          })
         })
-      })
+      } catch (networkError) {
+        if (isOfflineError(networkError)) {
+          await saveOfflinePunch('CHECK_OUT', checkOutPosition)
+          return
+        }
+        throw networkError
+      }
 
       const result = await response.json()
 
@@ -273,6 +366,15 @@ export default function DashboardPage() {
           const distance = locationValidation.distance
           const allowedRadius = locationValidation.allowedRadius
 
+          // Too inaccurate to decide: ask for another attempt instead of rejecting
+          if (locationValidation.requiresRetry) {
+            toast.error('Akurasi GPS Kurang 📡', {
+              description: result.error,
+              duration: 8000
+            })
+            return
+          }
+
           let detailedMessage = result.error
           if (nearestLocation && distance && allowedRadius) {
             detailedMessage += `\n\nInformasi lokasi:\n• Lokasi terdekat: ${nearestLocation.name}\n• Jarak Anda: ${distance}m\n• Radius maksimal: ${allowedRadius}m`
@@ -287,6 +389,12 @@ export default function DashboardPage() {
           return
         }
 
+        // Location requires a selfie: capture one and submit again
+        if (result.photoRequired && !photo) {
+          setSelfieAction('check-out')
+          return
+        }
+
         throw new Error(result.error || 'Gagal melakukan check-out')
       }
 
@@ -452,6 +560,11 @@ export default function DashboardPage() {
         </div>
 
         <div className="flex flex-col sm:flex-row items-start sm:items-center gap-3">
+          {pendingOfflinePunches > 0 && (
+            <Badge variant="secondary" className="order-2 sm:order-1">
+              {pendingOfflinePunches} absen menunggu koneksi
+            </Badge>
+          )}
           {lastUpdated && (
             <div className="text-xs lg:text-sm text-gray-500 order-2 sm:order-1">
               Terakhir diperbarui: {lastUpdated.toLocaleTimeString('id-ID', {
@@ -525,9 +638,14 @@ export default function DashboardPage() {
                 userRole={userRole}
                 todayAttendance={dashboardData?.attendance?.today}
                 pendingApprovalsCount={dashboardData?.approvals?.pendingCount}
-                onCheckIn={handleCheckIn}
-                onCheckOut={handleCheckOut}
+                onCheckIn={() => handleCheckIn()}
+                onCheckOut={() => handleCheckOut()}
               />
+
+              {/* Team Attendance */}
+              {dashboardData?.team?.teamAttendance && (
+                <TeamAttendanceCard teamAttendance={dashboardData.team.teamAttendance} />
+              )}
             </div>
 
             {/* Right Column - Activity and Notifications */}
@@ -550,6 +668,21 @@ export default function DashboardPage() {
           </div>
         </>
       )}
+
+      <SelfieCaptureDialog
+        open={selfieAction !== null}
+        title={selfieAction === 'check-out' ? 'Foto Check-out' : 'Foto Check-in'}
+        onCancel={() => setSelfieAction(null)}
+        onCapture={(photo) => {
+          const action = selfieAction
+          setSelfieAction(null)
+          if (action === 'check-out') {
+            handleCheckOut(photo)
+          } else {
+            handleCheckIn(photo)
+          }
+        }}
+      />
     </div>
   )
 }
@@ -0,0 +1,172 @@
+// ============================================================================
+// INDIVIDUAL ADMIN ATTENDANCE API ROUTES
+// src/app/api/admin/attendance/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateAttendanceRecord } from '@/use-cases/attendance/UpdateAttendanceRecord'
+import { VoidAttendance } from '@/use-cases/attendance/VoidAttendance'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+const auditService = new AttendanceAuditService(prisma)
+
+// Initialize use cases
+const updateAttendanceRecord = new UpdateAttendanceRecord(
+  attendanceRepository,
+  officeLocationRepository,
+  workScheduleService,
+  auditService
+)
+const voidAttendance = new VoidAttendance(attendanceRepository, auditService)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/attendance/[id] - Edit an attendance record
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await updateAttendanceRecord.execute({
+      id: params.id,
+      checkInTime: body.checkInTime,
+      checkOutTime: body.checkOutTime,
+      status: body.status || undefined,
+      officeLocationId: body.officeLocationId,
+      notes: body.notes,
+      reason: body.reason,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Data absensi tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/attendance/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/attendance/[id] - Void an attendance record (body: { reason })
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await voidAttendance.execute({
+      id: params.id,
+      reason: body.reason,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Data absensi tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/attendance/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
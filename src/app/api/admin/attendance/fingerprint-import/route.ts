@@ -0,0 +1,119 @@
+// ============================================================================
+// FINGERPRINT LOG IMPORT API ROUTE
+// src/app/api/admin/attendance/fingerprint-import/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ImportFingerprintLogs } from '@/use-cases/attendance/ImportFingerprintLogs'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendancePunchRepository } from '@/infrastructure/database/repositories/AttendancePunchRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  systemSettingRepository,
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use case
+const importFingerprintLogs = new ImportFingerprintLogs(
+  new PrismaAttendanceRepository(prisma),
+  new PrismaAttendancePunchRepository(prisma),
+  new PrismaUserRepository(prisma),
+  new PrismaOfficeLocationRepository(prisma),
+  systemSettingRepository,
+  workScheduleService,
+  new AttendanceAuditService(prisma)
+)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// POST /api/admin/attendance/fingerprint-import - Merge a fingerprint terminal log into attendance
+// Accepts multipart/form-data (file, deviceSerial, officeLocationId, startDate, endDate, dryRun)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'File log wajib diunggah' },
+        { status: 400 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await importFingerprintLogs.execute({
+      content: await file.text(),
+      fileName: file.name,
+      deviceSerial: (formData.get('deviceSerial') as string) || undefined,
+      officeLocationId: (formData.get('officeLocationId') as string) || undefined,
+      startDate: (formData.get('startDate') as string) || undefined,
+      endDate: (formData.get('endDate') as string) || undefined,
+      dryRun: formData.get('dryRun') === 'true',
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in POST /api/admin/attendance/fingerprint-import:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
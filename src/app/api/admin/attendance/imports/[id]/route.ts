@@ -0,0 +1,85 @@
+// ============================================================================
+// INDIVIDUAL ATTENDANCE IMPORT API ROUTES
+// src/app/api/admin/attendance/imports/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UndoAttendanceImport } from '@/use-cases/attendance/UndoAttendanceImport'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendanceImportBatchRepository } from '@/infrastructure/database/repositories/AttendanceImportBatchRepository'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize use case
+const undoAttendanceImport = new UndoAttendanceImport(
+  new PrismaAttendanceRepository(prisma),
+  new PrismaAttendanceImportBatchRepository(prisma),
+  new AttendanceAuditService(prisma)
+)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// DELETE /api/admin/attendance/imports/[id] - Undo a bulk import by voiding its attendances
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await undoAttendanceImport.execute({
+      batchId: params.id,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Data impor tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/attendance/imports/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
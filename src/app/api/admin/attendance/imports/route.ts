@@ -0,0 +1,165 @@
+// ============================================================================
+// ATTENDANCE BULK IMPORT API ROUTES
+// src/app/api/admin/attendance/imports/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ImportAttendanceRecords } from '@/use-cases/attendance/ImportAttendanceRecords'
+import { GetAttendanceImportBatches } from '@/use-cases/attendance/GetAttendanceImportBatches'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendanceImportBatchRepository } from '@/infrastructure/database/repositories/AttendanceImportBatchRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const importBatchRepository = new PrismaAttendanceImportBatchRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use cases
+const importAttendanceRecords = new ImportAttendanceRecords(
+  new PrismaAttendanceRepository(prisma),
+  importBatchRepository,
+  new PrismaUserRepository(prisma),
+  workScheduleService,
+  new AttendanceAuditService(prisma)
+)
+const getAttendanceImportBatches = new GetAttendanceImportBatches(importBatchRepository)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/attendance/imports - List bulk attendance imports, newest first
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getAttendanceImportBatches.execute({
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '10')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/attendance/imports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/attendance/imports - Import historical attendance from a CSV/XLSX file
+// Accepts multipart/form-data (file, dryRun)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'File CSV/XLSX wajib diunggah' },
+        { status: 400 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await importAttendanceRecords.execute({
+      content: await file.arrayBuffer(),
+      fileName: file.name,
+      format: file.name.toLowerCase().endsWith('.xlsx') ? 'XLSX' : 'CSV',
+      dryRun: formData.get('dryRun') === 'true',
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in POST /api/admin/attendance/imports:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
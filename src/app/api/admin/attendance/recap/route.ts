@@ -0,0 +1,129 @@
+// ============================================================================
+// MONTHLY ATTENDANCE RECAP API ROUTE
+// src/app/api/admin/attendance/recap/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { getCalendarDate } from '@/utils/dateUtils'
+import {
+  buildAttendanceRecapPdf,
+  buildAttendanceRecapXlsx,
+  getAttendanceRecapFileName
+} from '@/utils/attendanceRecapExport'
+
+// Import use cases
+import { GetMonthlyAttendanceRecap } from '@/use-cases/reporting/GetMonthlyAttendanceRecap'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaDepartmentRepository } from '@/infrastructure/database/repositories/DepartmentRepository'
+import { PrismaLeaveRequestRepository } from '@/infrastructure/database/repositories/LeaveRequestRepository'
+import { PrismaPermissionRequestRepository } from '@/infrastructure/database/repositories/PermissionRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayService = new HolidayService(new PrismaHolidayRepository(prisma))
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  systemSettingRepository,
+  holidayService,
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use case
+const getMonthlyAttendanceRecap = new GetMonthlyAttendanceRecap(
+  new PrismaAttendanceRepository(prisma),
+  new PrismaUserRepository(prisma),
+  new PrismaDepartmentRepository(prisma),
+  new PrismaLeaveRequestRepository(prisma),
+  new PrismaPermissionRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma),
+  systemSettingRepository,
+  holidayService,
+  workScheduleService
+)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/attendance/recap - Employee-by-day attendance codes for ?year=&month= (defaults to this month)
+// ?departmentId= limits to a unit and its sub-units, ?format=xlsx|pdf downloads the printable recap
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const today = getCalendarDate(new Date())
+
+    const result = await getMonthlyAttendanceRecap.execute({
+      year: searchParams.get('year') ? parseInt(searchParams.get('year')!) : today.getUTCFullYear(),
+      month: searchParams.get('month') ? parseInt(searchParams.get('month')!) : today.getUTCMonth() + 1,
+      departmentId: searchParams.get('departmentId') || undefined
+    })
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Unit kerja tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    const format = searchParams.get('format')
+
+    if (format === 'xlsx') {
+      return new NextResponse(await buildAttendanceRecapXlsx(result.data), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${getAttendanceRecapFileName(result.data, 'xlsx')}"`
+        }
+      })
+    }
+
+    if (format === 'pdf') {
+      return new NextResponse(buildAttendanceRecapPdf(result.data), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${getAttendanceRecapFileName(result.data, 'pdf')}"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/attendance/recap:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,172 @@
+// ============================================================================
+// ADMIN ATTENDANCE API ROUTES
+// src/app/api/admin/attendance/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { AttendanceStatus } from '@prisma/client'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetAttendanceRecords } from '@/use-cases/attendance/GetAttendanceRecords'
+import { CreateManualAttendance } from '@/use-cases/attendance/CreateManualAttendance'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const userRepository = new PrismaUserRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+const auditService = new AttendanceAuditService(prisma)
+
+// Initialize use cases
+const getAttendanceRecords = new GetAttendanceRecords(attendanceRepository)
+const createManualAttendance = new CreateManualAttendance(
+  attendanceRepository,
+  userRepository,
+  officeLocationRepository,
+  workScheduleService,
+  auditService
+)
+
+// Roles allowed to enter and edit attendance on behalf of employees
+const ATTENDANCE_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/attendance - Attendance records of all users with filtering
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+
+    const result = await getAttendanceRecords.execute({
+      filters: {
+        userId: searchParams.get('userId') || undefined,
+        departmentId: searchParams.get('departmentId') || undefined,
+        status: (searchParams.get('status') as AttendanceStatus) || undefined,
+        startDate: searchParams.get('startDate') || undefined,
+        endDate: searchParams.get('endDate') || undefined
+      },
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '20')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/attendance:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/attendance - Manually enter attendance for a user
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!ATTENDANCE_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await createManualAttendance.execute({
+      userId: body.userId,
+      attendanceDate: body.attendanceDate,
+      checkInTime: body.checkInTime || undefined,
+      checkOutTime: body.checkOutTime || undefined,
+      status: body.status || undefined,
+      officeLocationId: body.officeLocationId || undefined,
+      notes: body.notes,
+      reason: body.reason,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/admin/attendance:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
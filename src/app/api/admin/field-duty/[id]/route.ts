@@ -0,0 +1,83 @@
+// ============================================================================
+// ADMIN INDIVIDUAL FIELD DUTY API ROUTES
+// src/app/api/admin/field-duty/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { SetFieldDutyDestination } from '@/use-cases/remote-work/SetFieldDutyDestination'
+
+// Import repositories and services
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+
+// Initialize repositories and services
+const workLetterRepository = new PrismaWorkLetterRepository(prisma)
+const locationValidationService = new LocationValidationService(new PrismaOfficeLocationRepository(prisma))
+
+// Initialize use cases
+const setFieldDutyDestination = new SetFieldDutyDestination(workLetterRepository, locationValidationService)
+
+// Roles allowed to manage field duty destinations
+const FIELD_DUTY_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/field-duty/[id] - Set or clear the destination location of a work letter
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!FIELD_DUTY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await setFieldDutyDestination.execute({
+      workLetterId: params.id,
+      adminId: session.user.id,
+      destinationName: typeof body.destinationName === 'string' ? body.destinationName : undefined,
+      destinationLatitude: body.destinationLatitude ?? null,
+      destinationLongitude: body.destinationLongitude ?? null,
+      destinationRadiusMeters: body.destinationRadiusMeters
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Surat tugas tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Lokasi tujuan dinas berhasil disimpan'
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/field-duty/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,71 @@
+// ============================================================================
+// ADMIN FIELD DUTY API ROUTES
+// src/app/api/admin/field-duty/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetFieldDutyLetters } from '@/use-cases/remote-work/GetFieldDutyLetters'
+
+// Import repositories
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+
+// Initialize use cases
+const getFieldDutyLetters = new GetFieldDutyLetters(new PrismaWorkLetterRepository(prisma))
+
+// Roles allowed to manage field duty destinations
+const FIELD_DUTY_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/field-duty - List ongoing and upcoming approved travel / assignment letters
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!FIELD_DUTY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getFieldDutyLetters.execute({
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '20')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/field-duty:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,152 @@
+// ============================================================================
+// INDIVIDUAL HOLIDAY API ROUTES
+// src/app/api/admin/holidays/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateHoliday } from '@/use-cases/holiday/UpdateHoliday'
+import { DeleteHoliday } from '@/use-cases/holiday/DeleteHoliday'
+
+// Import repositories and services
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+// Initialize repositories and services
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const auditService = new HolidayAuditService(prisma)
+
+// Initialize use cases
+const updateHoliday = new UpdateHoliday(holidayRepository, officeLocationRepository, auditService)
+const deleteHoliday = new DeleteHoliday(holidayRepository, auditService)
+
+// Roles allowed to manage the holiday calendar
+const HOLIDAY_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/holidays/[id] - Update holiday
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!HOLIDAY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await updateHoliday.execute({
+      id: params.id,
+      date: body.date,
+      name: body.name,
+      type: body.type,
+      description: body.description,
+      officeLocationId: body.officeLocationId,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Hari libur tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/holidays/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/holidays/[id] - Delete holiday
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!HOLIDAY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await deleteHoliday.execute({
+      id: params.id,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Hari libur tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/holidays/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,103 @@
+// ============================================================================
+// HOLIDAY IMPORT API ROUTE
+// src/app/api/admin/holidays/import/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { HolidayType } from '@prisma/client'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ImportHolidays } from '@/use-cases/holiday/ImportHolidays'
+
+// Import repositories and services
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+// Initialize repositories and services
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const auditService = new HolidayAuditService(prisma)
+
+// Initialize use case
+const importHolidays = new ImportHolidays(holidayRepository, officeLocationRepository, auditService)
+
+// Roles allowed to manage the holiday calendar
+const HOLIDAY_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// POST /api/admin/holidays/import - Import holidays from an ICS or CSV file
+// Accepts multipart/form-data (file, year, defaultType, officeLocationId, dryRun)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!HOLIDAY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!file || typeof file === 'string') {
+      return NextResponse.json(
+        { success: false, error: 'File import wajib diunggah' },
+        { status: 400 }
+      )
+    }
+
+    // Format follows the file extension, CSV unless it is an .ics file
+    const format = file.name.toLowerCase().endsWith('.ics') ? 'ICS' : 'CSV'
+    const year = formData.get('year') ? parseInt(formData.get('year') as string) : undefined
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await importHolidays.execute({
+      content: await file.text(),
+      format,
+      year,
+      defaultType: (formData.get('defaultType') as HolidayType) || undefined,
+      officeLocationId: (formData.get('officeLocationId') as string) || undefined,
+      dryRun: formData.get('dryRun') === 'true',
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in POST /api/admin/holidays/import:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,157 @@
+// ============================================================================
+// HOLIDAYS API ROUTES
+// src/app/api/admin/holidays/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { HolidayType } from '@prisma/client'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetHolidays } from '@/use-cases/holiday/GetHolidays'
+import { CreateHoliday } from '@/use-cases/holiday/CreateHoliday'
+
+// Import repositories and services
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+// Initialize repositories and services
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const auditService = new HolidayAuditService(prisma)
+
+// Initialize use cases
+const getHolidays = new GetHolidays(holidayRepository)
+const createHoliday = new CreateHoliday(holidayRepository, officeLocationRepository, auditService)
+
+// Roles allowed to manage the holiday calendar
+const HOLIDAY_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/holidays - Get holidays with filtering
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!HOLIDAY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+    const year = searchParams.get('year') ? parseInt(searchParams.get('year')!) : undefined
+    const type = (searchParams.get('type') as HolidayType) || undefined
+    const officeLocationId = searchParams.get('officeLocationId') || undefined
+    const isActive = searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined
+    const search = searchParams.get('search') || undefined
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '100')
+
+    const result = await getHolidays.execute({
+      filters: {
+        year,
+        type,
+        officeLocationId,
+        isActive,
+        search
+      },
+      pagination: {
+        page,
+        limit
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/holidays:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/holidays - Create new holiday
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!HOLIDAY_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await createHoliday.execute({
+      date: body.date,
+      name: body.name,
+      type: body.type,
+      description: body.description,
+      officeLocationId: body.officeLocationId || undefined,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/admin/holidays:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
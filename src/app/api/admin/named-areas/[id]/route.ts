@@ -0,0 +1,149 @@
+// ============================================================================
+// INDIVIDUAL NAMED AREA API ROUTES
+// src/app/api/admin/named-areas/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateNamedArea } from '@/use-cases/office-location/UpdateNamedArea'
+import { DeleteNamedArea } from '@/use-cases/office-location/DeleteNamedArea'
+
+// Import repositories and services
+import { PrismaNamedAreaRepository } from '@/infrastructure/database/repositories/NamedAreaRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+// Initialize repositories and services
+const namedAreaRepository = new PrismaNamedAreaRepository(prisma)
+const auditService = new OfficeLocationAuditService(prisma)
+
+// Initialize use cases
+const updateNamedArea = new UpdateNamedArea(namedAreaRepository, auditService)
+const deleteNamedArea = new DeleteNamedArea(namedAreaRepository, auditService)
+
+// Roles allowed to manage the areas used to label attendance addresses
+const NAMED_AREA_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/named-areas/[id] - Update named area
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!NAMED_AREA_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await updateNamedArea.execute({
+      id: params.id,
+      name: body.name,
+      latitude: body.latitude,
+      longitude: body.longitude,
+      radiusMeters: body.radiusMeters,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Area tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/named-areas/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/named-areas/[id] - Delete named area
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!NAMED_AREA_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await deleteNamedArea.execute({
+      id: params.id,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Area tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/named-areas/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,147 @@
+// ============================================================================
+// NAMED AREAS API ROUTES
+// src/app/api/admin/named-areas/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetNamedAreas } from '@/use-cases/office-location/GetNamedAreas'
+import { CreateNamedArea } from '@/use-cases/office-location/CreateNamedArea'
+
+// Import repositories and services
+import { PrismaNamedAreaRepository } from '@/infrastructure/database/repositories/NamedAreaRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+// Initialize repositories and services
+const namedAreaRepository = new PrismaNamedAreaRepository(prisma)
+const auditService = new OfficeLocationAuditService(prisma)
+
+// Initialize use cases
+const getNamedAreas = new GetNamedAreas(namedAreaRepository)
+const createNamedArea = new CreateNamedArea(namedAreaRepository, auditService)
+
+// Roles allowed to manage the areas used to label attendance addresses
+const NAMED_AREA_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/named-areas - Get named areas with filtering and pagination
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!NAMED_AREA_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+    const isActive = searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined
+    const search = searchParams.get('search') || undefined
+    const page = parseInt(searchParams.get('page') || '1')
+    const limit = parseInt(searchParams.get('limit') || '20')
+
+    const result = await getNamedAreas.execute({
+      filters: {
+        isActive,
+        search
+      },
+      pagination: {
+        page,
+        limit
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/named-areas:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/named-areas - Create new named area
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!NAMED_AREA_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await createNamedArea.execute({
+      name: body.name,
+      latitude: body.latitude,
+      longitude: body.longitude,
+      radiusMeters: body.radiusMeters,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/admin/named-areas:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
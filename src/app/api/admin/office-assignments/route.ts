@@ -0,0 +1,215 @@
+// ============================================================================
+// OFFICE ASSIGNMENT API ROUTES
+// src/app/api/admin/office-assignments/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetOfficeAssignments } from '@/use-cases/office-location/GetOfficeAssignments'
+import { AssignOfficeLocation } from '@/use-cases/office-location/AssignOfficeLocation'
+import { UnassignOfficeLocation } from '@/use-cases/office-location/UnassignOfficeLocation'
+
+// Import repositories and services
+import { PrismaOfficeAssignmentRepository } from '@/infrastructure/database/repositories/OfficeAssignmentRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { OfficeAssignmentService } from '@/infrastructure/services/OfficeAssignmentService'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+// Initialize repositories and services
+const officeAssignmentRepository = new PrismaOfficeAssignmentRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const officeAssignmentService = new OfficeAssignmentService(
+  officeAssignmentRepository,
+  new PrismaWorkScheduleRepository(prisma),
+  officeLocationRepository,
+  new PrismaSystemSettingRepository(prisma)
+)
+const auditService = new OfficeLocationAuditService(prisma)
+
+// Initialize use cases
+const getOfficeAssignments = new GetOfficeAssignments(officeAssignmentRepository, officeAssignmentService)
+const assignOfficeLocation = new AssignOfficeLocation(officeAssignmentRepository, officeLocationRepository, auditService)
+const unassignOfficeLocation = new UnassignOfficeLocation(officeAssignmentRepository, auditService)
+
+// Roles allowed to assign employees to office locations
+const OFFICE_ASSIGNMENT_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/office-assignments - Assigned offices of employees
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!OFFICE_ASSIGNMENT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getOfficeAssignments.execute({
+      ...(searchParams.get('search') && { search: searchParams.get('search')! }),
+      ...(searchParams.get('departmentId') && { departmentId: searchParams.get('departmentId')! }),
+      ...(searchParams.get('officeLocationId') && { officeLocationId: searchParams.get('officeLocationId')! }),
+      ...(searchParams.get('unassigned') === 'true' && { unassigned: true }),
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '20')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/office-assignments:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/office-assignments - Assign an office to employees and/or departments on weekdays
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!OFFICE_ASSIGNMENT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await assignOfficeLocation.execute({
+      adminId: session.user.id,
+      userIds: body.userIds,
+      departmentIds: body.departmentIds,
+      officeLocationId: body.officeLocationId,
+      daysOfWeek: body.daysOfWeek,
+      mode: body.mode,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Lokasi kantor tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `Lokasi kantor ditugaskan ke ${result.data!.assignedCount} pegawai`
+    })
+  } catch (error) {
+    console.error('Error in POST /api/admin/office-assignments:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/office-assignments - Remove assigned offices from employees and/or departments
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!OFFICE_ASSIGNMENT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await unassignOfficeLocation.execute({
+      adminId: session.user.id,
+      userIds: body.userIds,
+      departmentIds: body.departmentIds,
+      officeLocationId: body.officeLocationId || undefined,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: `${result.data!.removedCount} penugasan lokasi kantor dihapus`
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/office-assignments:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
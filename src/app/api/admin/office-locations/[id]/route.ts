@@ -17,10 +17,12 @@ import { DeleteOfficeLocation } from '@/use-cases/office-location/DeleteOfficeLo
 import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
 import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
 import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { OfficeLocationCache } from '@/infrastructure/services/OfficeLocationCache'
 
 // Initialize repositories and services
 const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
-const locationValidationService = new LocationValidationService(officeLocationRepository)
+const officeLocationCache = new OfficeLocationCache(officeLocationRepository)
+const locationValidationService = new LocationValidationService(officeLocationRepository, officeLocationCache)
 const auditService = new OfficeLocationAuditService(prisma)
 
 // Initialize use cases
@@ -28,11 +30,13 @@ const getOfficeLocationById = new GetOfficeLocationById(officeLocationRepository
 const updateOfficeLocation = new UpdateOfficeLocation(
   officeLocationRepository,
   locationValidationService,
-  auditService
+  auditService,
+  officeLocationCache
 )
 const deleteOfficeLocation = new DeleteOfficeLocation(
   officeLocationRepository,
-  auditService
+  auditService,
+  officeLocationCache
 )
 
 // GET /api/admin/office-locations/[id] - Get office location by ID
@@ -124,6 +128,13 @@ export async function PUT(
       latitude: body.latitude,
       longitude: body.longitude,
       radiusMeters: body.radiusMeters,
+      boundary: body.boundary,
+      boundaryBufferMeters: body.boundaryBufferMeters,
+      toleranceMeters: body.toleranceMeters,
+      maxAccuracyMeters: body.maxAccuracyMeters,
+      requirePhoto: body.requirePhoto,
+      kioskMode: body.kioskMode,
+      regenerateKioskKey: body.regenerateKioskKey === true,
       isActive: body.isActive,
       adminUserId: session.user.id,
       ipAddress,
@@ -16,17 +16,20 @@ import { GetOfficeLocations } from '@/use-cases/office-location/GetOfficeLocatio
 import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
 import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
 import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { OfficeLocationCache } from '@/infrastructure/services/OfficeLocationCache'
 
 // Initialize repositories and services
 const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
-const locationValidationService = new LocationValidationService(officeLocationRepository)
+const officeLocationCache = new OfficeLocationCache(officeLocationRepository)
+const locationValidationService = new LocationValidationService(officeLocationRepository, officeLocationCache)
 const auditService = new OfficeLocationAuditService(prisma)
 
 // Initialize use cases
 const createOfficeLocation = new CreateOfficeLocation(
   officeLocationRepository,
   locationValidationService,
-  auditService
+  auditService,
+  officeLocationCache
 )
 const getOfficeLocations = new GetOfficeLocations(officeLocationRepository)
 
@@ -130,6 +133,12 @@ export async function POST(request: NextRequest) {
       latitude: body.latitude,
       longitude: body.longitude,
       radiusMeters: body.radiusMeters,
+      boundary: body.boundary,
+      boundaryBufferMeters: body.boundaryBufferMeters,
+      toleranceMeters: body.toleranceMeters,
+      maxAccuracyMeters: body.maxAccuracyMeters,
+      requirePhoto: body.requirePhoto,
+      kioskMode: body.kioskMode,
       isActive: body.isActive,
       adminUserId: session.user.id,
       ipAddress,
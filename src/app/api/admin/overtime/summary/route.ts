@@ -0,0 +1,118 @@
+// ============================================================================
+// ADMIN OVERTIME SUMMARY API ROUTE
+// src/app/api/admin/overtime/summary/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+// Import use cases
+import {
+  GetMonthlyOvertimeSummary,
+  EmployeeOvertimeSummary
+} from '@/use-cases/overtime/GetMonthlyOvertimeSummary'
+
+// Import repositories
+import { PrismaOvertimeRequestRepository } from '@/infrastructure/database/repositories/OvertimeRequestRepository'
+
+// Initialize use case
+const getMonthlyOvertimeSummary = new GetMonthlyOvertimeSummary(new PrismaOvertimeRequestRepository(prisma))
+
+// Roles allowed to pull overtime for payroll
+const OVERTIME_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+const CSV_HEADER = [
+  'NIP',
+  'Nama',
+  'Unit',
+  'Jumlah Pengajuan',
+  'Lembur Hari Kerja (menit)',
+  'Lembur Hari Libur (menit)',
+  'Total Lembur (menit)',
+  'Total Lembur (jam)'
+]
+
+const toCsvValue = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (employees: EmployeeOvertimeSummary[]) =>
+  [
+    CSV_HEADER,
+    ...employees.map(employee => [
+      employee.nip,
+      employee.name,
+      employee.departmentName,
+      employee.requestCount,
+      employee.workingDayMinutes,
+      employee.nonWorkingDayMinutes,
+      employee.totalMinutes,
+      (employee.totalMinutes / 60).toFixed(2)
+    ])
+  ]
+    .map(row => row.map(toCsvValue).join(','))
+    .join('\n')
+
+// GET /api/admin/overtime/summary - Approved overtime per employee for ?year=&month= (defaults to this month), ?format=csv for payroll
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!OVERTIME_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const today = getCalendarDate(new Date())
+
+    const result = await getMonthlyOvertimeSummary.execute({
+      year: searchParams.get('year') ? parseInt(searchParams.get('year')!) : today.getUTCFullYear(),
+      month: searchParams.get('month') ? parseInt(searchParams.get('month')!) : today.getUTCMonth() + 1,
+      departmentId: searchParams.get('departmentId') || undefined
+    })
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const period = `${result.data.year}-${String(result.data.month).padStart(2, '0')}`
+      return new NextResponse(toCsv(result.data.employees), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="rekap-lembur-${period}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/overtime/summary:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
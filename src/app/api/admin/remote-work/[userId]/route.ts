@@ -0,0 +1,84 @@
+// ============================================================================
+// ADMIN INDIVIDUAL REMOTE WORK PROFILE API ROUTES
+// src/app/api/admin/remote-work/[userId]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateRemoteWorkProfile } from '@/use-cases/remote-work/UpdateRemoteWorkProfile'
+
+// Import repositories and services
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+
+// Initialize repositories and services
+const remoteWorkProfileRepository = new PrismaRemoteWorkProfileRepository(prisma)
+const locationValidationService = new LocationValidationService(new PrismaOfficeLocationRepository(prisma))
+
+// Initialize use cases
+const updateRemoteWorkProfile = new UpdateRemoteWorkProfile(remoteWorkProfileRepository, locationValidationService)
+
+// Roles allowed to approve home locations and WFH schedules
+const REMOTE_WORK_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/remote-work/[userId] - Set, approve or revoke an employee's home location and WFH days
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { userId: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!REMOTE_WORK_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await updateRemoteWorkProfile.execute({
+      userId: params.userId,
+      adminId: session.user.id,
+      homeLatitude: body.homeLatitude,
+      homeLongitude: body.homeLongitude,
+      homeRadiusMeters: body.homeRadiusMeters,
+      wfhDays: body.wfhDays,
+      homeLocationApproved: body.homeLocationApproved
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Pegawai tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengaturan WFH berhasil disimpan'
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/remote-work/[userId]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+// ============================================================================
+// ADMIN REMOTE WORK API ROUTES
+// src/app/api/admin/remote-work/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetRemoteWorkProfiles } from '@/use-cases/remote-work/GetRemoteWorkProfiles'
+
+// Import repositories
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+
+// Initialize repositories
+const remoteWorkProfileRepository = new PrismaRemoteWorkProfileRepository(prisma)
+
+// Initialize use cases
+const getRemoteWorkProfiles = new GetRemoteWorkProfiles(remoteWorkProfileRepository)
+
+// Roles allowed to approve home locations and WFH schedules
+const REMOTE_WORK_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/remote-work - List home locations and WFH schedules of employees
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!REMOTE_WORK_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getRemoteWorkProfiles.execute({
+      ...(searchParams.get('search') && { search: searchParams.get('search')! }),
+      ...(searchParams.get('departmentId') && { departmentId: searchParams.get('departmentId')! }),
+      ...(searchParams.get('awaitingApproval') === 'true' && { awaitingApproval: true }),
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '20')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/remote-work:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,204 @@
+// ============================================================================
+// SHIFT ROSTER API ROUTES
+// src/app/api/admin/shift-rosters/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetShiftRoster } from '@/use-cases/shift/GetShiftRoster'
+import { AssignShiftRoster } from '@/use-cases/shift/AssignShiftRoster'
+import { ClearShiftRoster } from '@/use-cases/shift/ClearShiftRoster'
+
+// Import repositories and services
+import { PrismaShiftRepository } from '@/infrastructure/database/repositories/ShiftRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+
+// Initialize repositories and services
+const shiftRepository = new PrismaShiftRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
+const userRepository = new PrismaUserRepository(prisma)
+const auditService = new ShiftAuditService(prisma)
+
+// Initialize use cases
+const getShiftRoster = new GetShiftRoster(shiftRosterRepository)
+const assignShiftRoster = new AssignShiftRoster(shiftRepository, shiftRosterRepository, userRepository, auditService)
+const clearShiftRoster = new ClearShiftRoster(shiftRosterRepository, auditService)
+
+// Roles allowed to manage shifts and rosters
+const SHIFT_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/shift-rosters - Get roster entries within a date range
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+
+    const result = await getShiftRoster.execute({
+      startDate: searchParams.get('startDate') || '',
+      endDate: searchParams.get('endDate') || '',
+      userId: searchParams.get('userId') || undefined,
+      departmentId: searchParams.get('departmentId') || undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/shift-rosters:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/shift-rosters - Assign a rotating shift pattern to users
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await assignShiftRoster.execute({
+      userIds: body.userIds,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      pattern: body.pattern,
+      staggerDays: body.staggerDays,
+      notes: body.notes,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in POST /api/admin/shift-rosters:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/shift-rosters - Clear roster entries of users within a date range
+export async function DELETE(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await clearShiftRoster.execute({
+      userIds: body.userIds,
+      startDate: body.startDate,
+      endDate: body.endDate,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/shift-rosters:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,151 @@
+// ============================================================================
+// INDIVIDUAL SHIFT API ROUTES
+// src/app/api/admin/shifts/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateShift } from '@/use-cases/shift/UpdateShift'
+import { DeleteShift } from '@/use-cases/shift/DeleteShift'
+
+// Import repositories and services
+import { PrismaShiftRepository } from '@/infrastructure/database/repositories/ShiftRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+
+// Initialize repositories and services
+const shiftRepository = new PrismaShiftRepository(prisma)
+const auditService = new ShiftAuditService(prisma)
+
+// Initialize use cases
+const updateShift = new UpdateShift(shiftRepository, auditService)
+const deleteShift = new DeleteShift(shiftRepository, auditService)
+
+// Roles allowed to manage shifts and rosters
+const SHIFT_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/shifts/[id] - Update shift
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await updateShift.execute({
+      id: params.id,
+      name: body.name,
+      code: body.code,
+      startTime: body.startTime,
+      endTime: body.endTime,
+      lateToleranceMinutes: body.lateToleranceMinutes,
+      description: body.description,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Shift tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/shifts/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/shifts/[id] - Delete shift
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await deleteShift.execute({
+      id: params.id,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Shift tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/shifts/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
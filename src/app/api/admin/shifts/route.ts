@@ -0,0 +1,143 @@
+// ============================================================================
+// SHIFTS API ROUTES
+// src/app/api/admin/shifts/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetShifts } from '@/use-cases/shift/GetShifts'
+import { CreateShift } from '@/use-cases/shift/CreateShift'
+
+// Import repositories and services
+import { PrismaShiftRepository } from '@/infrastructure/database/repositories/ShiftRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+
+// Initialize repositories and services
+const shiftRepository = new PrismaShiftRepository(prisma)
+const auditService = new ShiftAuditService(prisma)
+
+// Initialize use cases
+const getShifts = new GetShifts(shiftRepository)
+const createShift = new CreateShift(shiftRepository, auditService)
+
+// Roles allowed to manage shifts and rosters
+const SHIFT_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/shifts - Get shift definitions
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+    const isActive = searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined
+    const search = searchParams.get('search') || undefined
+
+    const result = await getShifts.execute({
+      filters: {
+        isActive,
+        search
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/shifts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/shifts - Create new shift
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!SHIFT_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await createShift.execute({
+      name: body.name,
+      code: body.code,
+      startTime: body.startTime,
+      endTime: body.endTime,
+      lateToleranceMinutes: body.lateToleranceMinutes ?? undefined,
+      description: body.description,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/admin/shifts:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,149 @@
+// ============================================================================
+// TPP DEDUCTIONS API ROUTE
+// src/app/api/admin/tpp/deductions/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+// Import use cases
+import { CalculateTppDeductions, EmployeeTppDeduction } from '@/use-cases/tpp/CalculateTppDeductions'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaDepartmentRepository } from '@/infrastructure/database/repositories/DepartmentRepository'
+import { PrismaLeaveRequestRepository } from '@/infrastructure/database/repositories/LeaveRequestRepository'
+import { PrismaPermissionRequestRepository } from '@/infrastructure/database/repositories/PermissionRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaTppDeductionRuleRepository } from '@/infrastructure/database/repositories/TppDeductionRuleRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use case
+const calculateTppDeductions = new CalculateTppDeductions(
+  new PrismaAttendanceRepository(prisma),
+  new PrismaUserRepository(prisma),
+  new PrismaDepartmentRepository(prisma),
+  new PrismaLeaveRequestRepository(prisma),
+  new PrismaPermissionRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma),
+  new PrismaTppDeductionRuleRepository(prisma),
+  workScheduleService
+)
+
+// Roles allowed to pull allowance deductions for payroll
+const TPP_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+const CSV_HEADER = [
+  'NIP',
+  'Nama',
+  'Unit',
+  'Jumlah Terlambat',
+  'Potongan Terlambat (%)',
+  'Jumlah Pulang Cepat',
+  'Potongan Pulang Cepat (%)',
+  'Hari Tanpa Keterangan',
+  'Potongan Tanpa Keterangan (%)',
+  'Total Potongan (%)'
+]
+
+const toCsvValue = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+const toCsv = (employees: EmployeeTppDeduction[]) =>
+  [
+    CSV_HEADER,
+    ...employees.map(employee => [
+      employee.nip,
+      employee.name,
+      employee.departmentName,
+      employee.lateCount,
+      employee.percentages.LATE.toFixed(2),
+      employee.earlyLeaveCount,
+      employee.percentages.EARLY_LEAVE.toFixed(2),
+      employee.absentDays,
+      employee.percentages.ABSENT.toFixed(2),
+      employee.totalPercentage.toFixed(2)
+    ])
+  ]
+    .map(row => row.map(toCsvValue).join(','))
+    .join('\n')
+
+// GET /api/admin/tpp/deductions - Allowance deductions per employee for ?year=&month= (defaults to this month)
+// ?departmentId= limits to a unit and its sub-units, ?format=csv for payroll
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!TPP_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const today = getCalendarDate(new Date())
+
+    const result = await calculateTppDeductions.execute({
+      year: searchParams.get('year') ? parseInt(searchParams.get('year')!) : today.getUTCFullYear(),
+      month: searchParams.get('month') ? parseInt(searchParams.get('month')!) : today.getUTCMonth() + 1,
+      departmentId: searchParams.get('departmentId') || undefined
+    })
+
+    if (!result.success || !result.data) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Unit kerja tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const period = `${result.data.year}-${String(result.data.month).padStart(2, '0')}`
+      return new NextResponse(toCsv(result.data.employees), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="potongan-tpp-${period}.csv"`
+        }
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/tpp/deductions:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,152 @@
+// ============================================================================
+// INDIVIDUAL TPP DEDUCTION RULE API ROUTES
+// src/app/api/admin/tpp/rules/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { UpdateTppDeductionRule } from '@/use-cases/tpp/UpdateTppDeductionRule'
+import { DeleteTppDeductionRule } from '@/use-cases/tpp/DeleteTppDeductionRule'
+
+// Import repositories and services
+import { PrismaTppDeductionRuleRepository } from '@/infrastructure/database/repositories/TppDeductionRuleRepository'
+import { TppAuditService } from '@/infrastructure/services/TppAuditService'
+
+// Initialize repositories and services
+const ruleRepository = new PrismaTppDeductionRuleRepository(prisma)
+const auditService = new TppAuditService(prisma)
+
+// Initialize use cases
+const updateTppDeductionRule = new UpdateTppDeductionRule(ruleRepository, auditService)
+const deleteTppDeductionRule = new DeleteTppDeductionRule(ruleRepository, auditService)
+
+// Roles allowed to maintain the allowance deduction table
+const TPP_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// PUT /api/admin/tpp/rules/[id] - Update deduction rule
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!TPP_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await updateTppDeductionRule.execute({
+      id: params.id,
+      code: body.code,
+      category: body.category,
+      minMinutes: body.minMinutes,
+      maxMinutes: body.maxMinutes,
+      percentage: body.percentage,
+      description: body.description,
+      appliesToMissingPunch: body.appliesToMissingPunch,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Aturan potongan TPP tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/admin/tpp/rules/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// DELETE /api/admin/tpp/rules/[id] - Delete deduction rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!TPP_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await deleteTppDeductionRule.execute({
+      id: params.id,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Aturan potongan TPP tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: result.message
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/admin/tpp/rules/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
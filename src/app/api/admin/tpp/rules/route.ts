@@ -0,0 +1,143 @@
+// ============================================================================
+// TPP DEDUCTION RULES API ROUTES
+// src/app/api/admin/tpp/rules/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { TppDeductionCategory } from '@prisma/client'
+
+// Import use cases
+import { GetTppDeductionRules } from '@/use-cases/tpp/GetTppDeductionRules'
+import { CreateTppDeductionRule } from '@/use-cases/tpp/CreateTppDeductionRule'
+
+// Import repositories and services
+import { PrismaTppDeductionRuleRepository } from '@/infrastructure/database/repositories/TppDeductionRuleRepository'
+import { TppAuditService } from '@/infrastructure/services/TppAuditService'
+
+// Initialize repositories and services
+const ruleRepository = new PrismaTppDeductionRuleRepository(prisma)
+const auditService = new TppAuditService(prisma)
+
+// Initialize use cases
+const getTppDeductionRules = new GetTppDeductionRules(ruleRepository)
+const createTppDeductionRule = new CreateTppDeductionRule(ruleRepository, auditService)
+
+// Roles allowed to maintain the allowance deduction table
+const TPP_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// GET /api/admin/tpp/rules - Get deduction rules, optionally by ?category= and ?isActive=
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!TPP_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url)
+    const category = searchParams.get('category') as TppDeductionCategory | null
+    const isActive = searchParams.get('isActive') ? searchParams.get('isActive') === 'true' : undefined
+
+    const result = await getTppDeductionRules.execute({
+      category: category || undefined,
+      isActive
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/admin/tpp/rules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/admin/tpp/rules - Create new deduction rule
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    // Check admin permissions
+    const userRole = session.user.role?.name
+    if (!TPP_ADMIN_ROLES.includes(userRole)) {
+      return NextResponse.json(
+        { success: false, error: 'Forbidden: Admin permissions required' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await createTppDeductionRule.execute({
+      code: body.code,
+      category: body.category,
+      minMinutes: body.minMinutes,
+      maxMinutes: body.maxMinutes,
+      percentage: body.percentage,
+      description: body.description,
+      appliesToMissingPunch: body.appliesToMissingPunch,
+      isActive: body.isActive,
+      adminUserId: session.user.id,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/admin/tpp/rules:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
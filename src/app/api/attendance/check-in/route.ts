@@ -7,27 +7,87 @@ import { NextRequest, NextResponse } from 'next/server'
 import { getServerSession } from 'next-auth'
 import { authOptions } from '@/infrastructure/auth/authOptions'
 import { prisma } from '@/infrastructure/prismaClient'
+import { WorkMode } from '@prisma/client'
 
 // Import use cases
 import { CheckInWithLocationValidation } from '@/use-cases/attendance/CheckInWithLocationValidation'
 
 // Import repositories and services
 import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendancePunchRepository } from '@/infrastructure/database/repositories/AttendancePunchRepository'
 import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaOfficeAssignmentRepository } from '@/infrastructure/database/repositories/OfficeAssignmentRepository'
 import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
 import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import { RemoteWorkService } from '@/infrastructure/services/RemoteWorkService'
+import { OfficeAssignmentService } from '@/infrastructure/services/OfficeAssignmentService'
+import { AttendancePhotoService } from '@/infrastructure/services/AttendancePhotoService'
+import { createFileStorageService } from '@/infrastructure/services/FileStorageService'
+import { createGeocodingService } from '@/infrastructure/services/GeocodingService'
+import { KioskTokenService } from '@/infrastructure/services/KioskTokenService'
+import { parsePhotoDataUrl } from '@/utils/attendancePhoto'
 
 // Initialize repositories and services
 const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const punchRepository = new PrismaAttendancePunchRepository(prisma)
 const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
 const locationValidationService = new LocationValidationService(officeLocationRepository)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
 const auditService = new AttendanceAuditService(prisma)
+const fraudDetectionService = new FraudDetectionService(
+  punchRepository,
+  attendanceRepository,
+  officeLocationRepository,
+  locationValidationService
+)
+const attendancePhotoService = new AttendancePhotoService(prisma, createFileStorageService())
+const geocodingService = createGeocodingService(prisma)
+const kioskTokenService = new KioskTokenService(prisma)
+const remoteWorkService = new RemoteWorkService(
+  new PrismaRemoteWorkProfileRepository(prisma),
+  new PrismaWorkFromHomeRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma)
+)
+const officeAssignmentService = new OfficeAssignmentService(
+  new PrismaOfficeAssignmentRepository(prisma),
+  workScheduleRepository,
+  officeLocationRepository,
+  systemSettingRepository
+)
 
 // Initialize use case
 const checkInWithLocationValidation = new CheckInWithLocationValidation(
   attendanceRepository,
   locationValidationService,
-  auditService
+  workScheduleService,
+  auditService,
+  punchRepository,
+  fraudDetectionService,
+  attendancePhotoService,
+  kioskTokenService,
+  remoteWorkService,
+  officeAssignmentService,
+  geocodingService
 )
 
 // POST /api/attendance/check-in - Check in with location validation
@@ -47,10 +107,14 @@ export async function POST(request: NextRequest) {
     console.log('✅ User authenticated:', session.user.id)
 
     const body = await request.json()
-    console.log('📝 Request body:', JSON.stringify(body, null, 2))
+    console.log('📝 Request body:', JSON.stringify({ ...body, photo: body.photo ? '[photo]' : undefined }, null, 2))
+
+    // Kiosk QR token, scanned at the office
+    const kioskToken = typeof body.kioskToken === 'string' ? body.kioskToken : undefined
 
-    // Validate required fields
-    if (typeof body.latitude !== 'number' || typeof body.longitude !== 'number') {
+    // Validate required fields; a kiosk token may stand in for the coordinates
+    const hasCoordinates = typeof body.latitude === 'number' && typeof body.longitude === 'number'
+    if (!hasCoordinates && !kioskToken) {
       console.log('❌ Invalid coordinates:', { latitude: body.latitude, longitude: body.longitude })
       return NextResponse.json(
         { success: false, error: 'Latitude dan longitude wajib diisi' },
@@ -58,16 +122,34 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    console.log('✅ Coordinates valid:', { latitude: body.latitude, longitude: body.longitude })
+    console.log('✅ Coordinates valid:', { latitude: body.latitude, longitude: body.longitude, kiosk: !!kioskToken })
+
+    // Optional selfie, sent as a data URL
+    let photo
+    if (body.photo !== undefined && body.photo !== null) {
+      const parsed = parsePhotoDataUrl(body.photo)
+      if (!parsed.photo) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        )
+      }
+      photo = parsed.photo
+    }
 
     console.log('🚀 Executing check-in use case...')
     const result = await checkInWithLocationValidation.execute({
       userId: session.user.id,
-      latitude: body.latitude,
-      longitude: body.longitude,
+      latitude: hasCoordinates ? body.latitude : undefined,
+      longitude: hasCoordinates ? body.longitude : undefined,
       address: body.address,
       officeLocationId: body.officeLocationId,
-      toleranceMeters: 100, // 100m radius tolerance as per requirement
+      accuracyMeters: typeof body.accuracy === 'number' ? body.accuracy : undefined,
+      altitudeMeters: typeof body.altitude === 'number' ? body.altitude : undefined,
+      fixTime: typeof body.timestamp === 'number' ? new Date(body.timestamp) : undefined,
+      deviceId: typeof body.deviceId === 'string' ? body.deviceId.slice(0, 64) : undefined,
+      photo,
+      kioskToken,
       ipAddress: request.ip || request.headers.get('x-forwarded-for') || 'unknown',
       userAgent: request.headers.get('user-agent') || 'unknown'
     })
@@ -88,7 +170,7 @@ export async function POST(request: NextRequest) {
       }
 
       return NextResponse.json(
-        { success: false, error: result.error },
+        { success: false, error: result.error, photoRequired: result.photoRequired },
         { status: 400 }
       )
     }
@@ -100,14 +182,24 @@ export async function POST(request: NextRequest) {
         id: result.data!.id,
         checkInTime: result.data!.checkInTime,
         status: result.data!.status,
+        lateMinutes: result.data!.lateMinutes,
+        scheduledStartTime: result.data!.scheduledStartTime,
         isValidLocation: result.data!.isValidLocation,
+        flaggedForReview: result.data!.flaggedForReview,
+        viaKiosk: result.data!.viaKiosk,
+        workMode: result.data!.workMode,
+        workLetter: result.data!.workLetter,
         locationValidation: {
           isValid: result.data!.locationValidation.isValid,
           nearestOfficeLocation: result.data!.locationValidation.nearestOfficeLocation,
           distance: result.data!.locationValidation.distance,
           allowedRadius: result.data!.locationValidation.allowedRadius,
           message: result.data!.locationValidation.isValid 
-            ? `Check-in berhasil di ${result.data!.locationValidation.nearestOfficeLocation?.name}` 
+            ? result.data!.workMode === WorkMode.WFH
+              ? 'Check-in berhasil dari rumah (WFH)'
+              : result.data!.workMode === WorkMode.FIELD_DUTY
+                ? `Check-in dinas luar berhasil (${result.data!.workLetter?.letterNumber || result.data!.workLetter?.subject})`
+                : `Check-in berhasil di ${result.data!.locationValidation.nearestOfficeLocation?.name}` 
             : result.data!.locationValidation.errorMessage
         }
       }
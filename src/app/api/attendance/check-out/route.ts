@@ -14,21 +14,68 @@ import { CheckOutWithLocationValidation } from '@/use-cases/attendance/CheckOutW
 
 // Import repositories and services
 import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendancePunchRepository } from '@/infrastructure/database/repositories/AttendancePunchRepository'
 import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
 import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
 import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import { RemoteWorkService } from '@/infrastructure/services/RemoteWorkService'
+import { AttendancePhotoService } from '@/infrastructure/services/AttendancePhotoService'
+import { createFileStorageService } from '@/infrastructure/services/FileStorageService'
+import { createGeocodingService } from '@/infrastructure/services/GeocodingService'
+import { parsePhotoDataUrl } from '@/utils/attendancePhoto'
 
 // Initialize repositories and services
 const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const punchRepository = new PrismaAttendancePunchRepository(prisma)
 const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
 const locationValidationService = new LocationValidationService(officeLocationRepository)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
 const auditService = new AttendanceAuditService(prisma)
+const fraudDetectionService = new FraudDetectionService(
+  punchRepository,
+  attendanceRepository,
+  officeLocationRepository,
+  locationValidationService
+)
+const attendancePhotoService = new AttendancePhotoService(prisma, createFileStorageService())
+const geocodingService = createGeocodingService(prisma)
+const remoteWorkService = new RemoteWorkService(
+  new PrismaRemoteWorkProfileRepository(prisma),
+  new PrismaWorkFromHomeRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma)
+)
 
 // Initialize use case
 const checkOutWithLocationValidation = new CheckOutWithLocationValidation(
   attendanceRepository,
   locationValidationService,
-  auditService
+  workScheduleService,
+  auditService,
+  punchRepository,
+  fraudDetectionService,
+  attendancePhotoService,
+  remoteWorkService,
+  geocodingService
 )
 
 // POST /api/attendance/check-out - Check out with optional location validation
@@ -45,13 +92,30 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json()
 
+    // Optional selfie, sent as a data URL
+    let photo
+    if (body.photo !== undefined && body.photo !== null) {
+      const parsed = parsePhotoDataUrl(body.photo)
+      if (!parsed.photo) {
+        return NextResponse.json(
+          { success: false, error: parsed.error },
+          { status: 400 }
+        )
+      }
+      photo = parsed.photo
+    }
+
     // Location validation is optional for check-out
     const result = await checkOutWithLocationValidation.execute({
       userId: session.user.id,
       latitude: body.latitude,
       longitude: body.longitude,
       address: body.address,
-      toleranceMeters: 100, // 100m radius tolerance as per requirement
+      accuracyMeters: typeof body.accuracy === 'number' ? body.accuracy : undefined,
+      altitudeMeters: typeof body.altitude === 'number' ? body.altitude : undefined,
+      fixTime: typeof body.timestamp === 'number' ? new Date(body.timestamp) : undefined,
+      deviceId: typeof body.deviceId === 'string' ? body.deviceId.slice(0, 64) : undefined,
+      photo,
       ipAddress: request.ip || request.headers.get('x-forwarded-for') || 'unknown',
       userAgent: request.headers.get('user-agent') || 'unknown'
     })
@@ -68,7 +132,7 @@ export async function POST(request: NextRequest) {
       }
 
       return NextResponse.json(
-        { success: false, error: result.error },
+        { success: false, error: result.error, photoRequired: result.photoRequired },
         { status: 400 }
       )
     }
@@ -82,7 +146,9 @@ export async function POST(request: NextRequest) {
         checkOutTime: result.data!.checkOutTime,
         workingHours: formatWorkingHours(result.data!.workingHoursMinutes),
         workingHoursMinutes: result.data!.workingHoursMinutes,
+        breakMinutes: result.data!.breakMinutes,
         isValidLocation: result.data!.isValidLocation,
+        flaggedForReview: result.data!.flaggedForReview,
         locationValidation: result.data!.locationValidation ? {
           isValid: result.data!.locationValidation.isValid,
           nearestOfficeLocation: result.data!.locationValidation.nearestOfficeLocation,
@@ -0,0 +1,103 @@
+// ============================================================================
+// ATTENDANCE CORRECTION REVIEW API ROUTE
+// src/app/api/attendance/corrections/[id]/review/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ReviewAttendanceCorrection } from '@/use-cases/attendance-correction/ReviewAttendanceCorrection'
+
+// Import repositories and services
+import { PrismaAttendanceCorrectionRepository } from '@/infrastructure/database/repositories/AttendanceCorrectionRepository'
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const attendanceCorrectionRepository = new PrismaAttendanceCorrectionRepository(prisma)
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+const auditService = new AttendanceAuditService(prisma)
+
+// Initialize use case
+const reviewAttendanceCorrection = new ReviewAttendanceCorrection(
+  attendanceCorrectionRepository,
+  attendanceRepository,
+  workScheduleService,
+  auditService
+)
+
+// POST /api/attendance/corrections/[id]/review - Approve or reject a correction as its current approver
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    // Get client IP and user agent for audit logging
+    const ipAddress = request.headers.get('x-forwarded-for') || 
+                     request.headers.get('x-real-ip') || 
+                     'unknown'
+    const userAgent = request.headers.get('user-agent') || 'unknown'
+
+    const result = await reviewAttendanceCorrection.execute({
+      correctionId: params.id,
+      approverId: session.user.id,
+      action: body.action,
+      comments: body.comments,
+      ipAddress,
+      userAgent
+    })
+
+    if (!result.success) {
+      const status = result.error === 'Pengajuan koreksi absensi tidak ditemukan'
+        ? 404
+        : result.error === 'Anda bukan penyetuju untuk pengajuan koreksi ini'
+          ? 403
+          : 400
+
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: body.action === 'REJECT'
+        ? 'Pengajuan koreksi absensi ditolak'
+        : 'Pengajuan koreksi absensi disetujui'
+    })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/corrections/[id]/review:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
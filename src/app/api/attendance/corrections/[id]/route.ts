@@ -0,0 +1,62 @@
+// ============================================================================
+// INDIVIDUAL ATTENDANCE CORRECTION API ROUTES
+// src/app/api/attendance/corrections/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { CancelAttendanceCorrection } from '@/use-cases/attendance-correction/CancelAttendanceCorrection'
+
+// Import repositories
+import { PrismaAttendanceCorrectionRepository } from '@/infrastructure/database/repositories/AttendanceCorrectionRepository'
+
+// Initialize repositories
+const attendanceCorrectionRepository = new PrismaAttendanceCorrectionRepository(prisma)
+
+// Initialize use cases
+const cancelAttendanceCorrection = new CancelAttendanceCorrection(attendanceCorrectionRepository)
+
+// DELETE /api/attendance/corrections/[id] - Cancel own pending correction request
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await cancelAttendanceCorrection.execute({
+      correctionId: params.id,
+      userId: session.user.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Pengajuan koreksi absensi tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan koreksi absensi dibatalkan'
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/attendance/corrections/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
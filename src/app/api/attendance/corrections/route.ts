@@ -0,0 +1,135 @@
+// ============================================================================
+// ATTENDANCE CORRECTIONS API ROUTES
+// src/app/api/attendance/corrections/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { RequestStatus } from '@prisma/client'
+
+// Import use cases
+import { GetAttendanceCorrections } from '@/use-cases/attendance-correction/GetAttendanceCorrections'
+import { SubmitAttendanceCorrection } from '@/use-cases/attendance-correction/SubmitAttendanceCorrection'
+
+// Import repositories and services
+import { PrismaAttendanceCorrectionRepository } from '@/infrastructure/database/repositories/AttendanceCorrectionRepository'
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const attendanceCorrectionRepository = new PrismaAttendanceCorrectionRepository(prisma)
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use cases
+const getAttendanceCorrections = new GetAttendanceCorrections(attendanceCorrectionRepository)
+const submitAttendanceCorrection = new SubmitAttendanceCorrection(
+  attendanceCorrectionRepository,
+  attendanceRepository,
+  workScheduleService
+)
+
+// GET /api/attendance/corrections - Own correction requests, or ?scope=approvals for requests awaiting the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope') || 'mine'
+
+    const result = await getAttendanceCorrections.execute({
+      ...(scope === 'approvals'
+        ? { currentApproverId: session.user.id, status: RequestStatus.PENDING }
+        : { userId: session.user.id }),
+      ...(scope !== 'approvals' && searchParams.get('status') && {
+        status: searchParams.get('status') as RequestStatus
+      }),
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '10')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/attendance/corrections:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/attendance/corrections - Submit a correction request
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await submitAttendanceCorrection.execute({
+      userId: session.user.id,
+      attendanceDate: body.attendanceDate,
+      checkInTime: body.checkInTime || undefined,
+      checkOutTime: body.checkOutTime || undefined,
+      status: body.status || undefined,
+      reason: body.reason,
+      attachmentFile: body.attachmentFile || undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan koreksi absensi berhasil dikirim'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/corrections:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
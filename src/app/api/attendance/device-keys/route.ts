@@ -0,0 +1,52 @@
+// ============================================================================
+// ATTENDANCE DEVICE KEYS API ROUTE
+// src/app/api/attendance/device-keys/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { OfflinePunchService } from '@/infrastructure/services/OfflinePunchService'
+
+const offlinePunchService = new OfflinePunchService(prisma, new PrismaSystemSettingRepository(prisma))
+
+// POST /api/attendance/device-keys - Register the key this browser signs offline punches with
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    if (typeof body.deviceId !== 'string' || body.deviceId.length === 0 || body.deviceId.length > 64) {
+      return NextResponse.json(
+        { success: false, error: 'ID perangkat wajib diisi' },
+        { status: 400 }
+      )
+    }
+
+    const registered = await offlinePunchService.registerDeviceKey(session.user.id, body.deviceId, body.publicKey)
+    if (!registered) {
+      return NextResponse.json(
+        { success: false, error: 'Kunci perangkat tidak valid' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/device-keys:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
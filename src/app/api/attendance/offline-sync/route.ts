@@ -0,0 +1,157 @@
+// ============================================================================
+// ATTENDANCE OFFLINE SYNC API ROUTE
+// src/app/api/attendance/offline-sync/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { CheckInWithLocationValidation } from '@/use-cases/attendance/CheckInWithLocationValidation'
+import { CheckOutWithLocationValidation } from '@/use-cases/attendance/CheckOutWithLocationValidation'
+import { SyncOfflinePunch } from '@/use-cases/attendance/SyncOfflinePunch'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendancePunchRepository } from '@/infrastructure/database/repositories/AttendancePunchRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaOfficeAssignmentRepository } from '@/infrastructure/database/repositories/OfficeAssignmentRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import { RemoteWorkService } from '@/infrastructure/services/RemoteWorkService'
+import { OfficeAssignmentService } from '@/infrastructure/services/OfficeAssignmentService'
+import { AttendancePhotoService } from '@/infrastructure/services/AttendancePhotoService'
+import { createFileStorageService } from '@/infrastructure/services/FileStorageService'
+import { createGeocodingService } from '@/infrastructure/services/GeocodingService'
+import { OfflinePunchService } from '@/infrastructure/services/OfflinePunchService'
+import { parseOfflinePunch } from '@/utils/offlinePunch'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const punchRepository = new PrismaAttendancePunchRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
+const locationValidationService = new LocationValidationService(officeLocationRepository)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
+const auditService = new AttendanceAuditService(prisma)
+const fraudDetectionService = new FraudDetectionService(
+  punchRepository,
+  attendanceRepository,
+  officeLocationRepository,
+  locationValidationService
+)
+const attendancePhotoService = new AttendancePhotoService(prisma, createFileStorageService())
+const geocodingService = createGeocodingService(prisma)
+const offlinePunchService = new OfflinePunchService(prisma, systemSettingRepository)
+const remoteWorkService = new RemoteWorkService(
+  new PrismaRemoteWorkProfileRepository(prisma),
+  new PrismaWorkFromHomeRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma)
+)
+const officeAssignmentService = new OfficeAssignmentService(
+  new PrismaOfficeAssignmentRepository(prisma),
+  workScheduleRepository,
+  officeLocationRepository,
+  systemSettingRepository
+)
+
+// Initialize use cases
+const syncOfflinePunch = new SyncOfflinePunch(
+  offlinePunchService,
+  new CheckInWithLocationValidation(
+    attendanceRepository,
+    locationValidationService,
+    workScheduleService,
+    auditService,
+    punchRepository,
+    fraudDetectionService,
+    attendancePhotoService,
+    undefined,
+    remoteWorkService,
+    officeAssignmentService,
+    geocodingService
+  ),
+  new CheckOutWithLocationValidation(
+    attendanceRepository,
+    locationValidationService,
+    workScheduleService,
+    auditService,
+    punchRepository,
+    fraudDetectionService,
+    attendancePhotoService,
+    remoteWorkService,
+    geocodingService
+  )
+)
+
+// POST /api/attendance/offline-sync - Submit a check-in or check-out captured while offline
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const parsed = parseOfflinePunch(body.capture)
+    if (!parsed.capture) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      )
+    }
+
+    const result = await syncOfflinePunch.execute({
+      userId: session.user.id,
+      capture: parsed.capture,
+      signature: typeof body.signature === 'string' ? body.signature : '',
+      ipAddress: request.ip || request.headers.get('x-forwarded-for') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown'
+    })
+
+    // Rejections are final; the client drops the punch and tells the user
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/offline-sync:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,159 @@
+// ============================================================================
+// ATTENDANCE PUNCHES API ROUTES
+// src/app/api/attendance/punches/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetAttendancePunches } from '@/use-cases/attendance/GetAttendancePunches'
+import { RecordAttendancePunch } from '@/use-cases/attendance/RecordAttendancePunch'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaAttendancePunchRepository } from '@/infrastructure/database/repositories/AttendancePunchRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import { RemoteWorkService } from '@/infrastructure/services/RemoteWorkService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const punchRepository = new PrismaAttendancePunchRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const locationValidationService = new LocationValidationService(officeLocationRepository)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+const remoteWorkService = new RemoteWorkService(
+  new PrismaRemoteWorkProfileRepository(prisma),
+  new PrismaWorkFromHomeRequestRepository(prisma),
+  new PrismaWorkLetterRepository(prisma)
+)
+
+// Initialize use cases
+const getAttendancePunches = new GetAttendancePunches(
+  attendanceRepository,
+  punchRepository,
+  workScheduleService
+)
+const recordAttendancePunch = new RecordAttendancePunch(
+  attendanceRepository,
+  punchRepository,
+  locationValidationService,
+  workScheduleService,
+  new AttendanceAuditService(prisma),
+  new FraudDetectionService(punchRepository, attendanceRepository, officeLocationRepository, locationValidationService),
+  remoteWorkService
+)
+
+// GET /api/attendance/punches - Current user's punches for ?date= (defaults to today)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getAttendancePunches.execute({
+      userId: session.user.id,
+      date: searchParams.get('date') || undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/attendance/punches:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/attendance/punches - Record a break start/end or a return to the office
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await recordAttendancePunch.execute({
+      userId: session.user.id,
+      punchType: body.punchType,
+      latitude: body.latitude,
+      longitude: body.longitude,
+      address: body.address,
+      accuracyMeters: typeof body.accuracy === 'number' ? body.accuracy : undefined,
+      altitudeMeters: typeof body.altitude === 'number' ? body.altitude : undefined,
+      fixTime: typeof body.timestamp === 'number' ? new Date(body.timestamp) : undefined,
+      deviceId: typeof body.deviceId === 'string' ? body.deviceId.slice(0, 64) : undefined,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown'
+    })
+
+    if (!result.success) {
+      if (result.locationValidation && !result.locationValidation.isValid) {
+        return NextResponse.json({
+          success: false,
+          error: result.error,
+          locationValidation: result.locationValidation
+        }, { status: 422 })
+      }
+
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/punches:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
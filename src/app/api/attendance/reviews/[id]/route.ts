@@ -0,0 +1,81 @@
+// ============================================================================
+// FLAGGED ATTENDANCE REVIEW API ROUTE
+// src/app/api/attendance/reviews/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ReviewFlaggedAttendance } from '@/use-cases/attendance/ReviewFlaggedAttendance'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// HR admins review flagged attendance of employees without a department head
+const REVIEW_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// Initialize use case
+const reviewFlaggedAttendance = new ReviewFlaggedAttendance(
+  new PrismaAttendanceRepository(prisma),
+  new AttendanceAuditService(prisma)
+)
+
+// POST /api/attendance/reviews/[id] - Clear or reject a flagged attendance
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await reviewFlaggedAttendance.execute({
+      attendanceId: params.id,
+      reviewerId: session.user.id,
+      canReviewAll: REVIEW_ADMIN_ROLES.includes(session.user.role?.name),
+      action: body.action,
+      notes: body.notes,
+      ipAddress: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || 'unknown',
+      userAgent: request.headers.get('user-agent') || 'unknown'
+    })
+
+    if (!result.success) {
+      const status = result.error === 'Data absensi tidak ditemukan'
+        ? 404
+        : result.error === 'Anda bukan peninjau untuk absensi ini'
+          ? 403
+          : 400
+
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: body.action === 'REJECT'
+        ? 'Absensi ditolak dan dicatat tidak hadir'
+        : 'Absensi dinyatakan wajar'
+    })
+  } catch (error) {
+    console.error('Error in POST /api/attendance/reviews/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
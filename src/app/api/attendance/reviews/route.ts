@@ -0,0 +1,66 @@
+// ============================================================================
+// FLAGGED ATTENDANCE REVIEWS API ROUTE
+// src/app/api/attendance/reviews/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { AttendanceReviewStatus } from '@prisma/client'
+
+// Import use cases
+import { GetFlaggedAttendances } from '@/use-cases/attendance/GetFlaggedAttendances'
+
+// Import repositories
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+
+// HR admins review flagged attendance of employees without a department head
+const REVIEW_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+// Initialize use case
+const getFlaggedAttendances = new GetFlaggedAttendances(new PrismaAttendanceRepository(prisma))
+
+// GET /api/attendance/reviews - Attendance flagged for review by the current user (?status= defaults to PENDING)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+
+    const result = await getFlaggedAttendances.execute({
+      reviewerId: session.user.id,
+      canReviewAll: REVIEW_ADMIN_ROLES.includes(session.user.role?.name),
+      reviewStatus: (searchParams.get('status') as AttendanceReviewStatus) || undefined,
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '10')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/attendance/reviews:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
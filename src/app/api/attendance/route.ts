@@ -0,0 +1,77 @@
+// ============================================================================
+// ATTENDANCE API ROUTES
+// src/app/api/attendance/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+// Import use cases
+import { GetAttendanceHistory } from '@/use-cases/attendance/GetAttendanceHistory'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const locationValidationService = new LocationValidationService(officeLocationRepository)
+const holidayService = new HolidayService(new PrismaHolidayRepository(prisma))
+
+// Initialize use case
+const getAttendanceHistory = new GetAttendanceHistory(
+  attendanceRepository,
+  officeLocationRepository,
+  locationValidationService,
+  holidayService,
+  new PrismaWorkLetterRepository(prisma)
+)
+
+// GET /api/attendance - Current user's attendance history for ?year=&month= (defaults to this month)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const today = getCalendarDate(new Date())
+
+    const result = await getAttendanceHistory.execute({
+      userId: session.user.id,
+      year: searchParams.get('year') ? parseInt(searchParams.get('year')!) : today.getUTCFullYear(),
+      month: searchParams.get('month') ? parseInt(searchParams.get('month')!) : today.getUTCMonth() + 1
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/attendance:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
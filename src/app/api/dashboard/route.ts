@@ -14,6 +14,14 @@ import { PrismaPermissionRequestRepository } from '@/infrastructure/database/rep
 import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
 import { PrismaApprovalRepository } from '@/infrastructure/database/repositories/ApprovalRepository'
 import { PrismaDepartmentRepository } from '@/infrastructure/database/repositories/DepartmentRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { AttendancePhotoService } from '@/infrastructure/services/AttendancePhotoService'
+import { createFileStorageService } from '@/infrastructure/services/FileStorageService'
 import { prisma } from '@/infrastructure/prismaClient'
 
 // Initialize repositories
@@ -24,6 +32,14 @@ const permissionRequestRepository = new PrismaPermissionRequestRepository(prisma
 const workLetterRepository = new PrismaWorkLetterRepository(prisma)
 const approvalRepository = new PrismaApprovalRepository(prisma)
 const departmentRepository = new PrismaDepartmentRepository(prisma)
+const holidayService = new HolidayService(new PrismaHolidayRepository(prisma))
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  holidayService,
+  new PrismaShiftRosterRepository(prisma)
+)
+const attendancePhotoService = new AttendancePhotoService(prisma, createFileStorageService())
 
 // Initialize use case
 const getDashboardStats = new GetDashboardStats(
@@ -33,7 +49,10 @@ const getDashboardStats = new GetDashboardStats(
   permissionRequestRepository,
   workLetterRepository,
   approvalRepository,
-  departmentRepository
+  departmentRepository,
+  holidayService,
+  workScheduleService,
+  attendancePhotoService
 )
 
 export async function GET(request: NextRequest) {
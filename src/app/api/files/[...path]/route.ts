@@ -0,0 +1,71 @@
+// ============================================================================
+// LOCAL FILE API ROUTE
+// src/app/api/files/[...path]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+
+// Import services
+import { LocalFileStorageService } from '@/infrastructure/services/LocalFileStorageService'
+import { createFileStorageService } from '@/infrastructure/services/FileStorageService'
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+}
+
+// Initialize service
+const fileStorageService = createFileStorageService()
+
+// GET /api/files/[bucket]/[...path] - Serve a locally stored file through a signed URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { path: string[] } }
+) {
+  try {
+    // Supabase serves its own signed URLs
+    if (!(fileStorageService instanceof LocalFileStorageService)) {
+      return NextResponse.json(
+        { success: false, error: 'Not found' },
+        { status: 404 }
+      )
+    }
+
+    const [bucket, ...segments] = params.path
+    const { searchParams } = new URL(request.url)
+    const objectPath = segments.join('/')
+
+    const data = bucket && objectPath
+      ? await fileStorageService.readSigned(
+          bucket,
+          objectPath,
+          Number(searchParams.get('expires')),
+          searchParams.get('signature') || ''
+        )
+      : null
+
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'File tidak ditemukan atau tautan sudah kedaluwarsa' },
+        { status: 404 }
+      )
+    }
+
+    const extension = objectPath.split('.').pop()?.toLowerCase() || ''
+
+    return new NextResponse(data, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] || 'application/octet-stream',
+        'Cache-Control': 'private, max-age=300'
+      }
+    })
+  } catch (error) {
+    console.error('Error in GET /api/files:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,123 @@
+// ============================================================================
+// ABSENCE MATERIALIZATION JOB API ROUTE
+// src/app/api/jobs/absences/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/infrastructure/prismaClient'
+import { isAuthorizedJobRequest } from '@/infrastructure/auth/cronAuth'
+
+// Import use cases
+import { MaterializeAbsences, MaterializeAbsencesRequest } from '@/use-cases/attendance/MaterializeAbsences'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaUserRepository } from '@/infrastructure/database/repositories/UserRepository'
+import { PrismaLeaveRequestRepository } from '@/infrastructure/database/repositories/LeaveRequestRepository'
+import { PrismaPermissionRequestRepository } from '@/infrastructure/database/repositories/PermissionRequestRepository'
+import { PrismaWorkLetterRepository } from '@/infrastructure/database/repositories/WorkLetterRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const userRepository = new PrismaUserRepository(prisma)
+const leaveRequestRepository = new PrismaLeaveRequestRepository(prisma)
+const permissionRequestRepository = new PrismaPermissionRequestRepository(prisma)
+const workLetterRepository = new PrismaWorkLetterRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
+const auditService = new AttendanceAuditService(prisma)
+
+// Initialize use case
+const materializeAbsences = new MaterializeAbsences(
+  attendanceRepository,
+  userRepository,
+  leaveRequestRepository,
+  permissionRequestRepository,
+  workLetterRepository,
+  workScheduleService,
+  auditService
+)
+
+// GET /api/jobs/absences - Nightly run for the previous day (scheduler entry point)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  return runJob(request, {
+    date: searchParams.get('date') || undefined,
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    dryRun: searchParams.get('dryRun') === 'true'
+  })
+}
+
+// POST /api/jobs/absences - Run or backfill absences for a date / date range
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+
+  return runJob(request, {
+    date: body.date,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    dryRun: body.dryRun === true
+  })
+}
+
+async function runJob(
+  request: NextRequest,
+  params: { date?: string; startDate?: string; endDate?: string; dryRun: boolean }
+) {
+  try {
+    const authorization = await isAuthorizedJobRequest(request)
+    if (!authorization.isAuthorized) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🌙 Absence materialization triggered by:', authorization.triggeredBy || 'scheduler')
+
+    const jobRequest: MaterializeAbsencesRequest = {
+      date: params.date ? new Date(params.date) : undefined,
+      startDate: params.startDate ? new Date(params.startDate) : undefined,
+      endDate: params.endDate ? new Date(params.endDate) : undefined,
+      dryRun: params.dryRun
+    }
+
+    const result = await materializeAbsences.execute(jobRequest)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in absence materialization job:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
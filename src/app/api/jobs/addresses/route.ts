@@ -0,0 +1,119 @@
+// ============================================================================
+// ATTENDANCE ADDRESS BACKFILL JOB API ROUTE
+// src/app/api/jobs/addresses/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/infrastructure/prismaClient'
+import { isAuthorizedJobRequest } from '@/infrastructure/auth/cronAuth'
+
+// Import use cases
+import {
+  BackfillAttendanceAddresses,
+  BackfillAttendanceAddressesRequest
+} from '@/use-cases/attendance/BackfillAttendanceAddresses'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { createGeocodingService } from '@/infrastructure/services/GeocodingService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
+
+// Initialize use case
+const backfillAttendanceAddresses = new BackfillAttendanceAddresses(
+  attendanceRepository,
+  createGeocodingService(prisma),
+  workScheduleService
+)
+
+// GET /api/jobs/addresses - Nightly run for the last week (scheduler entry point)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  return runJob(request, {
+    date: searchParams.get('date') || undefined,
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    limit: searchParams.get('limit') || undefined,
+    cursor: searchParams.get('cursor') || undefined,
+    dryRun: searchParams.get('dryRun') === 'true'
+  })
+}
+
+// POST /api/jobs/addresses - Fill missing check-in/check-out addresses for a date / date range
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+
+  return runJob(request, {
+    date: body.date,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    limit: body.limit !== undefined ? String(body.limit) : undefined,
+    cursor: body.cursor,
+    dryRun: body.dryRun === true
+  })
+}
+
+async function runJob(
+  request: NextRequest,
+  params: { date?: string; startDate?: string; endDate?: string; limit?: string; cursor?: string; dryRun: boolean }
+) {
+  try {
+    const authorization = await isAuthorizedJobRequest(request)
+    if (!authorization.isAuthorized) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🗺️ Attendance address backfill triggered by:', authorization.triggeredBy || 'scheduler')
+
+    const jobRequest: BackfillAttendanceAddressesRequest = {
+      date: params.date ? new Date(params.date) : undefined,
+      startDate: params.startDate ? new Date(params.startDate) : undefined,
+      endDate: params.endDate ? new Date(params.endDate) : undefined,
+      limit: params.limit ? Number(params.limit) : undefined,
+      cursor: params.cursor,
+      dryRun: params.dryRun
+    }
+
+    const result = await backfillAttendanceAddresses.execute(jobRequest)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in attendance address backfill job:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
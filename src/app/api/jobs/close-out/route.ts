@@ -0,0 +1,122 @@
+// ============================================================================
+// OPEN ATTENDANCE CLOSE-OUT JOB API ROUTE
+// src/app/api/jobs/close-out/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/infrastructure/prismaClient'
+import { isAuthorizedJobRequest } from '@/infrastructure/auth/cronAuth'
+
+// Import use cases
+import {
+  CloseOpenAttendances,
+  CloseOpenAttendancesRequest,
+  OpenAttendancePolicy
+} from '@/use-cases/attendance/CloseOpenAttendances'
+
+// Import repositories and services
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+import { NotificationService } from '@/infrastructure/services/NotificationService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+// Initialize repositories and services
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const workScheduleRepository = new PrismaWorkScheduleRepository(prisma)
+const systemSettingRepository = new PrismaSystemSettingRepository(prisma)
+const holidayRepository = new PrismaHolidayRepository(prisma)
+const shiftRosterRepository = new PrismaShiftRosterRepository(prisma)
+const holidayService = new HolidayService(holidayRepository)
+const workScheduleService = new WorkScheduleService(
+  workScheduleRepository,
+  systemSettingRepository,
+  holidayService,
+  shiftRosterRepository
+)
+const notificationService = new NotificationService(prisma)
+const auditService = new AttendanceAuditService(prisma)
+
+// Initialize use case
+const closeOpenAttendances = new CloseOpenAttendances(
+  attendanceRepository,
+  systemSettingRepository,
+  workScheduleService,
+  notificationService,
+  auditService
+)
+
+// GET /api/jobs/close-out - Nightly run for the previous day (scheduler entry point)
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+
+  return runJob(request, {
+    date: searchParams.get('date') || undefined,
+    startDate: searchParams.get('startDate') || undefined,
+    endDate: searchParams.get('endDate') || undefined,
+    policy: searchParams.get('policy') || undefined,
+    dryRun: searchParams.get('dryRun') === 'true'
+  })
+}
+
+// POST /api/jobs/close-out - Close open attendances for a date / date range
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}))
+
+  return runJob(request, {
+    date: body.date,
+    startDate: body.startDate,
+    endDate: body.endDate,
+    policy: body.policy,
+    dryRun: body.dryRun === true
+  })
+}
+
+async function runJob(
+  request: NextRequest,
+  params: { date?: string; startDate?: string; endDate?: string; policy?: string; dryRun: boolean }
+) {
+  try {
+    const authorization = await isAuthorizedJobRequest(request)
+    if (!authorization.isAuthorized) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    console.log('🌙 Attendance close-out triggered by:', authorization.triggeredBy || 'scheduler')
+
+    const jobRequest: CloseOpenAttendancesRequest = {
+      date: params.date ? new Date(params.date) : undefined,
+      startDate: params.startDate ? new Date(params.startDate) : undefined,
+      endDate: params.endDate ? new Date(params.endDate) : undefined,
+      policy: params.policy ? params.policy.toUpperCase() as OpenAttendancePolicy : undefined,
+      dryRun: params.dryRun
+    }
+
+    const result = await closeOpenAttendances.execute(jobRequest)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in attendance close-out job:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
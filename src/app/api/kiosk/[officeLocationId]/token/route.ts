@@ -0,0 +1,56 @@
+// ============================================================================
+// KIOSK TOKEN API ROUTE
+// src/app/api/kiosk/[officeLocationId]/token/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetKioskToken } from '@/use-cases/attendance/GetKioskToken'
+
+// Import repositories and services
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { KioskTokenService } from '@/infrastructure/services/KioskTokenService'
+
+// Initialize repositories and services
+const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+const kioskTokenService = new KioskTokenService(prisma)
+
+// Initialize use case
+const getKioskToken = new GetKioskToken(officeLocationRepository, kioskTokenService)
+
+// GET /api/kiosk/[officeLocationId]/token - Next QR token for an office kiosk
+// Public: the kiosk is not logged in and authenticates with the key from its URL
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { officeLocationId: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+
+    const result = await getKioskToken.execute({
+      officeLocationId: params.officeLocationId,
+      kioskKey: searchParams.get('key') || '',
+      kioskId: searchParams.get('kioskId') || undefined
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json(
+      { success: true, data: result.data },
+      { headers: { 'Cache-Control': 'no-store' } }
+    )
+  } catch (error) {
+    console.error('Error in GET /api/kiosk/[officeLocationId]/token:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// OVERTIME REQUEST REVIEW API ROUTE
+// src/app/api/overtime/[id]/review/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ReviewOvertimeRequest } from '@/use-cases/overtime/ReviewOvertimeRequest'
+
+// Import repositories
+import { PrismaOvertimeRequestRepository } from '@/infrastructure/database/repositories/OvertimeRequestRepository'
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+
+// Initialize repositories
+const overtimeRequestRepository = new PrismaOvertimeRequestRepository(prisma)
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+
+// Initialize use case
+const reviewOvertimeRequest = new ReviewOvertimeRequest(overtimeRequestRepository, attendanceRepository)
+
+// POST /api/overtime/[id]/review - Approve or reject an overtime request as its current approver
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await reviewOvertimeRequest.execute({
+      overtimeRequestId: params.id,
+      approverId: session.user.id,
+      action: body.action,
+      comments: body.comments
+    })
+
+    if (!result.success) {
+      const status = result.error === 'Pengajuan lembur tidak ditemukan'
+        ? 404
+        : result.error === 'Anda bukan penyetuju untuk pengajuan lembur ini'
+          ? 403
+          : 400
+
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: body.action === 'REJECT'
+        ? 'Pengajuan lembur ditolak'
+        : 'Pengajuan lembur disetujui'
+    })
+  } catch (error) {
+    console.error('Error in POST /api/overtime/[id]/review:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+// ============================================================================
+// INDIVIDUAL OVERTIME REQUEST API ROUTES
+// src/app/api/overtime/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { CancelOvertimeRequest } from '@/use-cases/overtime/CancelOvertimeRequest'
+
+// Import repositories
+import { PrismaOvertimeRequestRepository } from '@/infrastructure/database/repositories/OvertimeRequestRepository'
+
+// Initialize repositories
+const overtimeRequestRepository = new PrismaOvertimeRequestRepository(prisma)
+
+// Initialize use cases
+const cancelOvertimeRequest = new CancelOvertimeRequest(overtimeRequestRepository)
+
+// DELETE /api/overtime/[id] - Cancel a pending overtime request filed by or for the current user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await cancelOvertimeRequest.execute({
+      overtimeRequestId: params.id,
+      userId: session.user.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Pengajuan lembur tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan lembur dibatalkan'
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/overtime/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,134 @@
+// ============================================================================
+// OVERTIME REQUESTS API ROUTES
+// src/app/api/overtime/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { RequestStatus } from '@prisma/client'
+
+// Import use cases
+import { GetOvertimeRequests } from '@/use-cases/overtime/GetOvertimeRequests'
+import { SubmitOvertimeRequest } from '@/use-cases/overtime/SubmitOvertimeRequest'
+
+// Import repositories and services
+import { PrismaOvertimeRequestRepository } from '@/infrastructure/database/repositories/OvertimeRequestRepository'
+import { PrismaAttendanceRepository } from '@/infrastructure/database/repositories/AttendanceRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const overtimeRequestRepository = new PrismaOvertimeRequestRepository(prisma)
+const attendanceRepository = new PrismaAttendanceRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use cases
+const getOvertimeRequests = new GetOvertimeRequests(overtimeRequestRepository)
+const submitOvertimeRequest = new SubmitOvertimeRequest(
+  overtimeRequestRepository,
+  attendanceRepository,
+  workScheduleService
+)
+
+// GET /api/overtime - Own overtime requests (including those filed for the team), or ?scope=approvals for requests awaiting the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope') || 'mine'
+
+    const result = await getOvertimeRequests.execute({
+      ...(scope === 'approvals'
+        ? { currentApproverId: session.user.id, status: RequestStatus.PENDING }
+        : { requesterId: session.user.id }),
+      ...(scope !== 'approvals' && searchParams.get('status') && {
+        status: searchParams.get('status') as RequestStatus
+      }),
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '10')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/overtime:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/overtime - Submit an overtime request for oneself or, as department head, for a team member
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await submitOvertimeRequest.execute({
+      userId: body.userId || session.user.id,
+      submittedById: session.user.id,
+      overtimeDate: body.overtimeDate,
+      startTime: body.startTime,
+      endTime: body.endTime,
+      reason: body.reason
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan lembur berhasil dikirim'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/overtime:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
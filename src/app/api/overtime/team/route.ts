@@ -0,0 +1,52 @@
+// ============================================================================
+// OVERTIME TEAM API ROUTE
+// src/app/api/overtime/team/route.ts
+// ============================================================================
+
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetOvertimeTeamMembers } from '@/use-cases/overtime/GetOvertimeTeamMembers'
+
+// Import repositories
+import { PrismaOvertimeRequestRepository } from '@/infrastructure/database/repositories/OvertimeRequestRepository'
+
+// Initialize use case
+const getOvertimeTeamMembers = new GetOvertimeTeamMembers(new PrismaOvertimeRequestRepository(prisma))
+
+// GET /api/overtime/team - Employees the current user may file overtime for as department head
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await getOvertimeTeamMembers.execute(session.user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/overtime/team:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,102 @@
+// ============================================================================
+// REMOTE WORK PROFILE API ROUTES
+// src/app/api/remote-work/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { GetRemoteWorkProfile } from '@/use-cases/remote-work/GetRemoteWorkProfile'
+import { ProposeHomeLocation } from '@/use-cases/remote-work/ProposeHomeLocation'
+
+// Import repositories and services
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { LocationValidationService } from '@/infrastructure/services/LocationValidationService'
+
+// Initialize repositories and services
+const remoteWorkProfileRepository = new PrismaRemoteWorkProfileRepository(prisma)
+const locationValidationService = new LocationValidationService(new PrismaOfficeLocationRepository(prisma))
+
+// Initialize use cases
+const getRemoteWorkProfile = new GetRemoteWorkProfile(remoteWorkProfileRepository)
+const proposeHomeLocation = new ProposeHomeLocation(remoteWorkProfileRepository, locationValidationService)
+
+// GET /api/remote-work - Home location and WFH schedule of the current user
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await getRemoteWorkProfile.execute(session.user.id)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Pegawai tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/remote-work:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// PUT /api/remote-work - Propose the current location as home location (awaits admin approval)
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await proposeHomeLocation.execute({
+      userId: session.user.id,
+      latitude: body.latitude,
+      longitude: body.longitude,
+      accuracyMeters: body.accuracy
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Lokasi rumah berhasil diajukan dan menunggu persetujuan admin'
+    })
+  } catch (error) {
+    console.error('Error in PUT /api/remote-work:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
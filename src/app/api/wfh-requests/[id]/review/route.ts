@@ -0,0 +1,74 @@
+// ============================================================================
+// WORK FROM HOME REQUEST REVIEW API ROUTE
+// src/app/api/wfh-requests/[id]/review/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { ReviewWorkFromHomeRequest } from '@/use-cases/remote-work/ReviewWorkFromHomeRequest'
+
+// Import repositories
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+
+// Initialize repositories
+const workFromHomeRequestRepository = new PrismaWorkFromHomeRequestRepository(prisma)
+
+// Initialize use case
+const reviewWorkFromHomeRequest = new ReviewWorkFromHomeRequest(workFromHomeRequestRepository)
+
+// POST /api/wfh-requests/[id]/review - Approve or reject a WFH request as its current approver
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await reviewWorkFromHomeRequest.execute({
+      workFromHomeRequestId: params.id,
+      approverId: session.user.id,
+      action: body.action,
+      comments: body.comments
+    })
+
+    if (!result.success) {
+      const status = result.error === 'Pengajuan WFH tidak ditemukan'
+        ? 404
+        : result.error === 'Anda bukan penyetuju untuk pengajuan WFH ini'
+          ? 403
+          : 400
+
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: body.action === 'REJECT'
+        ? 'Pengajuan WFH ditolak'
+        : 'Pengajuan WFH disetujui'
+    })
+  } catch (error) {
+    console.error('Error in POST /api/wfh-requests/[id]/review:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,62 @@
+// ============================================================================
+// INDIVIDUAL WORK FROM HOME REQUEST API ROUTES
+// src/app/api/wfh-requests/[id]/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+
+// Import use cases
+import { CancelWorkFromHomeRequest } from '@/use-cases/remote-work/CancelWorkFromHomeRequest'
+
+// Import repositories
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+
+// Initialize repositories
+const workFromHomeRequestRepository = new PrismaWorkFromHomeRequestRepository(prisma)
+
+// Initialize use cases
+const cancelWorkFromHomeRequest = new CancelWorkFromHomeRequest(workFromHomeRequestRepository)
+
+// DELETE /api/wfh-requests/[id] - Cancel a pending WFH request of the current user
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const result = await cancelWorkFromHomeRequest.execute({
+      workFromHomeRequestId: params.id,
+      userId: session.user.id
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: result.error === 'Pengajuan WFH tidak ditemukan' ? 404 : 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan WFH dibatalkan'
+    })
+  } catch (error) {
+    console.error('Error in DELETE /api/wfh-requests/[id]:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
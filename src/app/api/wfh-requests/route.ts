@@ -0,0 +1,131 @@
+// ============================================================================
+// WORK FROM HOME REQUESTS API ROUTES
+// src/app/api/wfh-requests/route.ts
+// ============================================================================
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+import { prisma } from '@/infrastructure/prismaClient'
+import { RequestStatus } from '@prisma/client'
+
+// Import use cases
+import { GetWorkFromHomeRequests } from '@/use-cases/remote-work/GetWorkFromHomeRequests'
+import { SubmitWorkFromHomeRequest } from '@/use-cases/remote-work/SubmitWorkFromHomeRequest'
+
+// Import repositories and services
+import { PrismaWorkFromHomeRequestRepository } from '@/infrastructure/database/repositories/WorkFromHomeRequestRepository'
+import { PrismaRemoteWorkProfileRepository } from '@/infrastructure/database/repositories/RemoteWorkProfileRepository'
+import { PrismaWorkScheduleRepository } from '@/infrastructure/database/repositories/WorkScheduleRepository'
+import { PrismaSystemSettingRepository } from '@/infrastructure/database/repositories/SystemSettingRepository'
+import { PrismaHolidayRepository } from '@/infrastructure/database/repositories/HolidayRepository'
+import { PrismaShiftRosterRepository } from '@/infrastructure/database/repositories/ShiftRosterRepository'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Initialize repositories and services
+const workFromHomeRequestRepository = new PrismaWorkFromHomeRequestRepository(prisma)
+const remoteWorkProfileRepository = new PrismaRemoteWorkProfileRepository(prisma)
+const workScheduleService = new WorkScheduleService(
+  new PrismaWorkScheduleRepository(prisma),
+  new PrismaSystemSettingRepository(prisma),
+  new HolidayService(new PrismaHolidayRepository(prisma)),
+  new PrismaShiftRosterRepository(prisma)
+)
+
+// Initialize use cases
+const getWorkFromHomeRequests = new GetWorkFromHomeRequests(workFromHomeRequestRepository)
+const submitWorkFromHomeRequest = new SubmitWorkFromHomeRequest(
+  workFromHomeRequestRepository,
+  remoteWorkProfileRepository,
+  workScheduleService
+)
+
+// GET /api/wfh-requests - Own WFH requests, or ?scope=approvals for requests awaiting the current user
+export async function GET(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const scope = searchParams.get('scope') || 'mine'
+
+    const result = await getWorkFromHomeRequests.execute({
+      ...(scope === 'approvals'
+        ? { currentApproverId: session.user.id, status: RequestStatus.PENDING }
+        : { userId: session.user.id }),
+      ...(scope !== 'approvals' && searchParams.get('status') && {
+        status: searchParams.get('status') as RequestStatus
+      }),
+      pagination: {
+        page: parseInt(searchParams.get('page') || '1'),
+        limit: parseInt(searchParams.get('limit') || '10')
+      }
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data
+    })
+  } catch (error) {
+    console.error('Error in GET /api/wfh-requests:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// POST /api/wfh-requests - Submit a work from home request for a single day
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json()
+
+    const result = await submitWorkFromHomeRequest.execute({
+      userId: session.user.id,
+      wfhDate: body.wfhDate,
+      reason: body.reason
+    })
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, error: result.error },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.data,
+      message: 'Pengajuan WFH berhasil dikirim'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error in POST /api/wfh-requests:', error)
+    return NextResponse.json(
+      { success: false, error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
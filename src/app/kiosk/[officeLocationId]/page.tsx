@@ -0,0 +1,124 @@
+'use client'
+
+// ============================================================================
+// OFFICE KIOSK PAGE
+// src/app/kiosk/[officeLocationId]/page.tsx
+// ============================================================================
+
+import { useEffect, useState } from 'react'
+import { useParams, useSearchParams } from 'next/navigation'
+import QRCode from 'qrcode'
+import { Loader2, QrCode } from 'lucide-react'
+import { getDeviceId } from '@/utils/deviceId'
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+
+// Delay before retrying a failed refresh
+const RETRY_SECONDS = 5
+
+interface KioskState {
+  qrDataUrl: string
+  officeName: string
+  expiresAt: Date
+}
+
+// Shown on a screen at the office; employees scan the rotating code with their
+// logged-in phone to check in
+export default function KioskPage() {
+  const params = useParams<{ officeLocationId: string }>()
+  const searchParams = useSearchParams()
+  const kioskKey = searchParams.get('key') || ''
+
+  const [kiosk, setKiosk] = useState<KioskState | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [now, setNow] = useState(new Date())
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout>
+    let active = true
+
+    const refresh = async () => {
+      let nextRefreshSeconds = RETRY_SECONDS
+      try {
+        const query = new URLSearchParams({ key: kioskKey, kioskId: getDeviceId() || '' })
+        const response = await fetch(`/api/kiosk/${params.officeLocationId}/token?${query}`, { cache: 'no-store' })
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Gagal memuat QR code')
+        }
+
+        const scanUrl = `${window.location.origin}/attendance/scan?token=${encodeURIComponent(result.data.token)}`
+        const qrDataUrl = await QRCode.toDataURL(scanUrl, { width: 480, margin: 1, errorCorrectionLevel: 'M' })
+
+        if (active) {
+          setKiosk({
+            qrDataUrl,
+            officeName: result.data.officeLocation.name,
+            expiresAt: new Date(result.data.expiresAt)
+          })
+          setError(null)
+        }
+        nextRefreshSeconds = result.data.refreshAfterSeconds
+      } catch (refreshError) {
+        console.error('Error refreshing kiosk QR code:', refreshError)
+        if (active) {
+          setError(refreshError instanceof Error ? refreshError.message : 'Gagal memuat QR code')
+        }
+      }
+
+      if (active) {
+        timer = setTimeout(refresh, nextRefreshSeconds * 1000)
+      }
+    }
+
+    refresh()
+
+    return () => {
+      active = false
+      clearTimeout(timer)
+    }
+  }, [params.officeLocationId, kioskKey])
+
+  useEffect(() => {
+    const clock = setInterval(() => setNow(new Date()), 1000)
+    return () => clearInterval(clock)
+  }, [])
+
+  // A stale code would only produce rejected scans
+  const isExpired = !!kiosk && kiosk.expiresAt <= now
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center bg-white p-8 space-y-6">
+      <div className="text-center space-y-2">
+        <div className="flex items-center justify-center space-x-2 text-blue-600">
+          <QrCode className="h-8 w-8" />
+          <h1 className="text-3xl font-bold">Absensi Kiosk</h1>
+        </div>
+        {kiosk && <p className="text-xl text-gray-700">{kiosk.officeName}</p>}
+      </div>
+
+      <div className="h-[480px] w-[480px] max-w-full flex items-center justify-center rounded-lg border bg-white">
+        {error && (!kiosk || isExpired) ? (
+          <p className="p-6 text-center text-red-600">{error}</p>
+        ) : kiosk && !isExpired ? (
+          // eslint-disable-next-line @next/next/no-img-element
+          <img src={kiosk.qrDataUrl} alt="QR code absensi" className="h-full w-full" />
+        ) : (
+          <Loader2 className="h-10 w-10 animate-spin text-gray-400" />
+        )}
+      </div>
+
+      <div className="text-center space-y-1">
+        <p className="text-4xl font-mono font-semibold text-gray-900">
+          {now.toLocaleTimeString('id-ID', { timeZone: DEFAULT_TIMEZONE })}
+        </p>
+        <p className="text-gray-600">
+          Pindai QR code dengan ponsel yang sudah login untuk melakukan check-in
+        </p>
+        {error && kiosk && !isExpired && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,231 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE IMPORT WIZARD COMPONENT
+// src/components/admin/attendance/AttendanceImportWizard.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import { Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { ATTENDANCE_STATUS_STYLES } from '@/components/attendance/AttendanceDayDetail'
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+
+interface ImportPreviewRow {
+  line: number
+  nip: string
+  userName?: string
+  date: string
+  checkInTime?: string
+  checkOutTime?: string
+  status?: 'PRESENT' | 'LATE' | 'ABSENT' | 'HALF_DAY'
+  lateMinutes?: number
+  result: 'CREATED' | 'WILL_CREATE' | 'DUPLICATE'
+}
+
+interface ImportResult {
+  dryRun: boolean
+  batchId?: string
+  totalRows: number
+  createdCount: number
+  duplicateCount: number
+  rows: ImportPreviewRow[]
+  errors: Array<{ line: number; message: string }>
+}
+
+// Preview lines shown in the table; the counts always cover the whole file
+const PREVIEW_LIMIT = 200
+
+interface AttendanceImportWizardProps {
+  onSuccess: () => void
+}
+
+export function AttendanceImportWizard({ onSuccess }: AttendanceImportWizardProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [fileInputKey, setFileInputKey] = useState(0)
+  const [loading, setLoading] = useState(false)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+
+  const reset = () => {
+    setFile(null)
+    setPreview(null)
+    setFileInputKey(key => key + 1)
+  }
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      toast.error('Pilih file CSV/XLSX terlebih dahulu')
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('dryRun', dryRun ? 'true' : 'false')
+
+      const response = await fetch('/api/admin/attendance/imports', {
+        method: 'POST',
+        body: formData
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengimpor data absensi')
+      }
+
+      if (dryRun) {
+        setPreview(result.data)
+        return
+      }
+
+      toast.success(`${result.data.createdCount} data absensi berhasil diimpor`)
+      reset()
+      onSuccess()
+    } catch (error) {
+      console.error('Error importing attendance records:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengimpor data absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Valid rows and row errors merged in file order
+  const previewLines = preview
+    ? [
+        ...preview.rows.map(row => ({ line: row.line, row, error: undefined })),
+        ...preview.errors.map(error => ({ line: error.line, row: undefined, error: error.message }))
+      ].sort((a, b) => a.line - b.line)
+    : []
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="attendanceImportFile">File Absensi *</Label>
+        <Input
+          key={fileInputKey}
+          id="attendanceImportFile"
+          type="file"
+          accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null)
+            setPreview(null)
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          CSV atau XLSX dengan kolom: nip, date, check_in, check_out, status, notes.
+          Tanggal YYYY-MM-DD atau DD/MM/YYYY, jam HH:mm. Status boleh dikosongkan agar dihitung dari jadwal kerja.
+        </p>
+      </div>
+
+      {preview && (
+        <>
+          <Alert>
+            <AlertDescription className="space-y-1">
+              <div>
+                {preview.totalRows} baris dibaca: <strong>{preview.createdCount}</strong> absensi akan dibuat,{' '}
+                {preview.duplicateCount} sudah ada, {preview.errors.length} baris tidak valid
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Baris yang tidak valid atau sudah ada akan dilewati. Perbaiki file dan pratinjau ulang bila perlu.
+              </div>
+            </AlertDescription>
+          </Alert>
+
+          <div className="max-h-96 overflow-auto rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Baris</TableHead>
+                  <TableHead>Pegawai</TableHead>
+                  <TableHead>Tanggal</TableHead>
+                  <TableHead>Masuk</TableHead>
+                  <TableHead>Pulang</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Keterangan</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {previewLines.slice(0, PREVIEW_LIMIT).map(({ line, row, error }) => (
+                  row ? (
+                    <TableRow key={`row-${line}`}>
+                      <TableCell className="text-sm">{line}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{row.userName || '-'}</div>
+                        <div className="text-xs text-muted-foreground">{row.nip}</div>
+                      </TableCell>
+                      <TableCell className="text-sm whitespace-nowrap">{row.date}</TableCell>
+                      <TableCell className="text-sm">{row.checkInTime || '-'}</TableCell>
+                      <TableCell className="text-sm">{row.checkOutTime || '-'}</TableCell>
+                      <TableCell>
+                        {row.status && (
+                          <Badge variant="outline" className={ATTENDANCE_STATUS_STYLES[row.status]}>
+                            {ATTENDANCE_STATUS_LABELS[row.status]}
+                            {row.lateMinutes ? ` (${row.lateMinutes} mnt)` : ''}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {row.result === 'DUPLICATE'
+                          ? <span className="text-amber-700">Sudah ada absensi pada tanggal ini</span>
+                          : <span className="text-green-700">Siap diimpor</span>}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    <TableRow key={`error-${line}-${error}`}>
+                      <TableCell className="text-sm">{line}</TableCell>
+                      <TableCell colSpan={6} className="text-sm text-red-600">{error}</TableCell>
+                    </TableRow>
+                  )
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+          {previewLines.length > PREVIEW_LIMIT && (
+            <p className="text-xs text-muted-foreground">
+              Menampilkan {PREVIEW_LIMIT} dari {previewLines.length} baris
+            </p>
+          )}
+        </>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        {preview && (
+          <Button type="button" variant="outline" onClick={reset} disabled={loading}>
+            Batal
+          </Button>
+        )}
+        {preview ? (
+          <Button
+            type="button"
+            onClick={() => submit(false)}
+            disabled={loading || preview.createdCount === 0}
+          >
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {preview.createdCount} Absensi
+          </Button>
+        ) : (
+          <Button type="button" onClick={() => submit(true)} disabled={loading || !file}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Pratinjau
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,310 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE RECORD FORM COMPONENT
+// src/components/admin/attendance/AttendanceRecordForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+
+const attendanceRecordSchema = z.object({
+  userId: z.string().min(1, 'Pegawai wajib dipilih'),
+  attendanceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Tanggal wajib diisi'),
+  checkInTime: z.string().optional(),
+  checkOutTime: z.string().optional(),
+  status: z.string().optional(),
+  officeLocationId: z.string().optional(),
+  notes: z.string().max(500, 'Catatan maksimal 500 karakter').optional(),
+  reason: z.string().min(10, 'Alasan minimal 10 karakter').max(500, 'Alasan maksimal 500 karakter')
+}).refine(data => !data.checkOutTime || !!data.checkInTime, {
+  message: 'Jam pulang memerlukan jam masuk',
+  path: ['checkOutTime']
+}).refine(data => data.status !== 'ABSENT' || (!data.checkInTime && !data.checkOutTime), {
+  message: 'Status tidak hadir tidak dapat disertai jam masuk/pulang',
+  path: ['status']
+})
+
+type AttendanceRecordFormData = z.infer<typeof attendanceRecordSchema>
+
+export interface AdminAttendanceRecord {
+  id: string
+  userId: string
+  officeLocationId?: string
+  attendanceDate: string
+  checkInTime?: string
+  checkOutTime?: string
+  status: 'PRESENT' | 'LATE' | 'ABSENT' | 'HALF_DAY'
+  notes?: string
+  workingHoursMinutes: number
+  lateMinutes: number
+  isValidLocation: boolean
+  autoClosedAt?: string
+  workMode: 'OFFICE' | 'WFH' | 'FIELD_DUTY'
+  workLetter?: {
+    id: string
+    letterNumber?: string
+    subject: string
+  } | null
+  user: {
+    id: string
+    name: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+}
+
+export interface AttendanceFormOption {
+  id: string
+  name: string
+  description?: string
+}
+
+interface AttendanceRecordFormProps {
+  attendance?: AdminAttendanceRecord
+  users: AttendanceFormOption[]
+  officeLocations: AttendanceFormOption[]
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+// HH:mm in the institution timezone, as entered by the admin
+const toTimeInput = (value?: string) =>
+  value
+    ? new Date(value).toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit', timeZone: DEFAULT_TIMEZONE })
+    : ''
+
+export function AttendanceRecordForm({ attendance, users, officeLocations, onSuccess, onCancel }: AttendanceRecordFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, dirtyFields }
+  } = useForm<AttendanceRecordFormData>({
+    resolver: zodResolver(attendanceRecordSchema),
+    defaultValues: {
+      userId: attendance?.userId || '',
+      attendanceDate: attendance?.attendanceDate ? attendance.attendanceDate.split('T')[0] : '',
+      checkInTime: toTimeInput(attendance?.checkInTime),
+      checkOutTime: toTimeInput(attendance?.checkOutTime),
+      status: attendance?.status || '',
+      officeLocationId: attendance?.officeLocationId || '',
+      notes: '',
+      reason: ''
+    }
+  })
+
+  const onSubmit = async (data: AttendanceRecordFormData) => {
+    try {
+      setLoading(true)
+
+      // Edits only send changed fields, so untouched values (e.g. lateness) are kept as recorded
+      const body = attendance
+        ? {
+            ...(dirtyFields.checkInTime && { checkInTime: data.checkInTime || null }),
+            ...(dirtyFields.checkOutTime && { checkOutTime: data.checkOutTime || null }),
+            ...(dirtyFields.status && { status: data.status || undefined }),
+            ...(dirtyFields.officeLocationId && { officeLocationId: data.officeLocationId || null }),
+            ...(dirtyFields.notes && { notes: data.notes }),
+            reason: data.reason
+          }
+        : data
+
+      const response = await fetch(
+        attendance ? `/api/admin/attendance/${attendance.id}` : '/api/admin/attendance',
+        {
+          method: attendance ? 'PUT' : 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(body)
+        }
+      )
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan data absensi')
+      }
+
+      toast.success(attendance
+        ? 'Data absensi berhasil diupdate'
+        : 'Data absensi berhasil ditambahkan')
+
+      onSuccess()
+    } catch (error) {
+      console.error('Error saving attendance record:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan data absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {attendance ? (
+        <div className="rounded-md bg-muted p-3 text-sm">
+          <div className="font-medium">{attendance.user.name}</div>
+          <div className="text-muted-foreground">
+            {new Date(attendance.attendanceDate).toLocaleDateString('id-ID', {
+              weekday: 'long',
+              day: 'numeric',
+              month: 'long',
+              year: 'numeric',
+              timeZone: 'UTC'
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="userId">Pegawai *</Label>
+            <select
+              id="userId"
+              {...register('userId')}
+              className={`flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-sm ${errors.userId ? 'border-red-500' : 'border-input'}`}
+            >
+              <option value="">Pilih pegawai</option>
+              {users.map(user => (
+                <option key={user.id} value={user.id}>
+                  {user.name}{user.description ? ` (${user.description})` : ''}
+                </option>
+              ))}
+            </select>
+            {errors.userId && (
+              <p className="text-sm text-red-600">{errors.userId.message}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="attendanceDate">Tanggal *</Label>
+            <Input
+              id="attendanceDate"
+              type="date"
+              {...register('attendanceDate')}
+              className={errors.attendanceDate ? 'border-red-500' : ''}
+            />
+            {errors.attendanceDate && (
+              <p className="text-sm text-red-600">{errors.attendanceDate.message}</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="checkInTime">Jam Masuk</Label>
+          <Input id="checkInTime" type="time" {...register('checkInTime')} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="checkOutTime">Jam Pulang</Label>
+          <Input
+            id="checkOutTime"
+            type="time"
+            {...register('checkOutTime')}
+            className={errors.checkOutTime ? 'border-red-500' : ''}
+          />
+          {errors.checkOutTime && (
+            <p className="text-sm text-red-600">{errors.checkOutTime.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="status">Status</Label>
+          <select
+            id="status"
+            {...register('status')}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="">Otomatis dari jadwal</option>
+            {Object.entries(ATTENDANCE_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {errors.status && (
+            <p className="text-sm text-red-600">{errors.status.message}</p>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Kosongkan jam untuk menghapusnya. Jam pulang sebelum jam masuk dianggap hari berikutnya (shift malam).
+        Jam kerja dihitung ulang otomatis.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="officeLocationId">Lokasi Kantor</Label>
+        <select
+          id="officeLocationId"
+          {...register('officeLocationId')}
+          className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+        >
+          <option value="">Tidak ditentukan</option>
+          {officeLocations.map(location => (
+            <option key={location.id} value={location.id}>
+              {location.name}{location.description ? ` (${location.description})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="notes">{attendance ? 'Ganti Catatan' : 'Catatan'}</Label>
+        <Textarea
+          id="notes"
+          {...register('notes')}
+          placeholder={attendance?.notes || 'Catatan tambahan pada data absensi'}
+          rows={2}
+        />
+        {errors.notes && (
+          <p className="text-sm text-red-600">{errors.notes.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reason">Alasan *</Label>
+        <Textarea
+          id="reason"
+          {...register('reason')}
+          placeholder="Contoh: Mesin absensi rusak, data berdasarkan daftar hadir manual"
+          rows={3}
+          className={errors.reason ? 'border-red-500' : ''}
+        />
+        {errors.reason && (
+          <p className="text-sm text-red-600">{errors.reason.message}</p>
+        )}
+        <p className="text-xs text-muted-foreground">Alasan dicatat di audit log beserta nilai sebelum dan sesudah perubahan</p>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {attendance ? 'Update Absensi' : 'Simpan Absensi'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,228 @@
+'use client'
+
+// ============================================================================
+// FINGERPRINT IMPORT FORM COMPONENT
+// src/components/admin/attendance/FingerprintImportForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { AttendanceFormOption } from './AttendanceRecordForm'
+
+interface ImportResult {
+  dryRun: boolean
+  format: 'ATTLOG' | 'CSV'
+  totalRows: number
+  punchCount: number
+  createdAttendanceCount: number
+  updatedAttendanceCount: number
+  duplicateCount: number
+  ignoredCount: number
+  skippedCount: number
+  unmatchedIds: string[]
+  errors: Array<{ line: number; message: string }>
+}
+
+interface FingerprintImportFormProps {
+  officeLocations: AttendanceFormOption[]
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function FingerprintImportForm({ officeLocations, onSuccess, onCancel }: FingerprintImportFormProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [deviceSerial, setDeviceSerial] = useState('')
+  const [officeLocationId, setOfficeLocationId] = useState('')
+  const [startDate, setStartDate] = useState('')
+  const [endDate, setEndDate] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      toast.error('Pilih file log mesin fingerprint terlebih dahulu')
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('dryRun', dryRun ? 'true' : 'false')
+      if (deviceSerial) formData.append('deviceSerial', deviceSerial)
+      if (officeLocationId) formData.append('officeLocationId', officeLocationId)
+      if (startDate) formData.append('startDate', startDate)
+      if (endDate) formData.append('endDate', endDate)
+
+      const response = await fetch('/api/admin/attendance/fingerprint-import', {
+        method: 'POST',
+        body: formData
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengimpor log fingerprint')
+      }
+
+      if (dryRun) {
+        setPreview(result.data)
+        return
+      }
+
+      toast.success(`${result.data.punchCount} scan fingerprint berhasil diimpor`)
+      onSuccess()
+    } catch (error) {
+      console.error('Error importing fingerprint log:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengimpor log fingerprint')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="fingerprintFile">File Log Mesin *</Label>
+        <Input
+          id="fingerprintFile"
+          type="file"
+          accept=".dat,.txt,.csv,text/plain,text/csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null)
+            setPreview(null)
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          ATTLOG (.dat/.txt) dari mesin atau CSV dengan kolom: user_id, datetime (atau date dan time).
+          ID pengguna di mesin harus sama dengan NIP pegawai.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="deviceSerial">Nomor Seri Mesin</Label>
+          <Input
+            id="deviceSerial"
+            value={deviceSerial}
+            placeholder="Nama file jika dikosongkan"
+            onChange={(e) => {
+              setDeviceSerial(e.target.value)
+              setPreview(null)
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="fingerprintOfficeLocationId">Lokasi Mesin</Label>
+          <select
+            id="fingerprintOfficeLocationId"
+            value={officeLocationId}
+            onChange={(e) => {
+              setOfficeLocationId(e.target.value)
+              setPreview(null)
+            }}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="">Sesuai jadwal pegawai</option>
+            {officeLocations.map(location => (
+              <option key={location.id} value={location.id}>
+                {location.name}{location.description ? ` (${location.description})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="fingerprintStartDate">Dari Tanggal</Label>
+          <Input
+            id="fingerprintStartDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => {
+              setStartDate(e.target.value)
+              setPreview(null)
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="fingerprintEndDate">Sampai Tanggal</Label>
+          <Input
+            id="fingerprintEndDate"
+            type="date"
+            value={endDate}
+            onChange={(e) => {
+              setEndDate(e.target.value)
+              setPreview(null)
+            }}
+          />
+        </div>
+      </div>
+
+      {preview && (
+        <Alert>
+          <AlertDescription className="space-y-1">
+            <div>
+              {preview.totalRows} scan dibaca ({preview.format}): <strong>{preview.punchCount}</strong> akan dicatat
+              sebagai jam masuk/pulang, {preview.createdAttendanceCount} absensi baru dan{' '}
+              {preview.updatedAttendanceCount} absensi dilengkapi
+            </div>
+            <div className="text-sm text-muted-foreground">
+              {preview.duplicateCount} duplikat, {preview.ignoredCount} scan di antara jam masuk dan pulang
+              atau sudah tercatat dari aplikasi, {preview.skippedCount} hari ini atau di luar rentang tanggal
+            </div>
+            {preview.unmatchedIds.length > 0 && (
+              <div className="text-sm text-amber-700">
+                ID mesin tanpa pegawai dengan NIP yang sama: {preview.unmatchedIds.slice(0, 20).join(', ')}
+                {preview.unmatchedIds.length > 20 && ` dan ${preview.unmatchedIds.length - 20} lainnya`}
+              </div>
+            )}
+            {preview.errors.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-4">
+                {preview.errors.slice(0, 10).map(error => (
+                  <li key={`${error.line}-${error.message}`}>Baris {error.line}: {error.message}</li>
+                ))}
+                {preview.errors.length > 10 && (
+                  <li>dan {preview.errors.length - 10} kesalahan lainnya</li>
+                )}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        {preview ? (
+          <Button
+            type="button"
+            onClick={() => submit(false)}
+            disabled={loading || preview.punchCount === 0}
+          >
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {preview.punchCount} Scan
+          </Button>
+        ) : (
+          <Button type="button" onClick={() => submit(true)} disabled={loading || !file}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Pratinjau
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
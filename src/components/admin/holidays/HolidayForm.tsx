@@ -0,0 +1,240 @@
+'use client'
+
+// ============================================================================
+// HOLIDAY FORM COMPONENT
+// src/components/admin/holidays/HolidayForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export const HOLIDAY_TYPE_LABELS: Record<string, string> = {
+  NATIONAL: 'Libur Nasional',
+  COLLECTIVE_LEAVE: 'Cuti Bersama',
+  REGIONAL: 'Libur Daerah',
+  INSTITUTION: 'Libur Instansi'
+}
+
+const holidaySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Tanggal wajib diisi'),
+  name: z.string().min(1, 'Nama hari libur wajib diisi').max(150, 'Nama maksimal 150 karakter'),
+  type: z.enum(['NATIONAL', 'COLLECTIVE_LEAVE', 'REGIONAL', 'INSTITUTION']),
+  description: z.string().max(500, 'Deskripsi maksimal 500 karakter').optional(),
+  officeLocationId: z.string().optional(),
+  isActive: z.boolean()
+}).refine(data => data.type !== 'REGIONAL' || !!data.officeLocationId, {
+  message: 'Lokasi kantor wajib dipilih untuk libur daerah',
+  path: ['officeLocationId']
+})
+
+type HolidayFormData = z.infer<typeof holidaySchema>
+
+export interface Holiday {
+  id: string
+  date: string
+  name: string
+  type: 'NATIONAL' | 'COLLECTIVE_LEAVE' | 'REGIONAL' | 'INSTITUTION'
+  description?: string
+  officeLocationId?: string
+  officeLocation?: {
+    id: string
+    name: string
+    code: string
+  }
+  isActive: boolean
+}
+
+export interface HolidayOfficeLocationOption {
+  id: string
+  name: string
+  code: string
+}
+
+interface HolidayFormProps {
+  holiday?: Holiday
+  officeLocations: HolidayOfficeLocationOption[]
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function HolidayForm({ holiday, officeLocations, onSuccess, onCancel }: HolidayFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<HolidayFormData>({
+    resolver: zodResolver(holidaySchema),
+    defaultValues: {
+      date: holiday?.date ? holiday.date.split('T')[0] : '',
+      name: holiday?.name || '',
+      type: holiday?.type || 'NATIONAL',
+      description: holiday?.description || '',
+      officeLocationId: holiday?.officeLocationId || '',
+      isActive: holiday?.isActive ?? true
+    }
+  })
+
+  const type = watch('type')
+  const isActive = watch('isActive')
+
+  const onSubmit = async (data: HolidayFormData) => {
+    try {
+      setLoading(true)
+
+      const url = holiday
+        ? `/api/admin/holidays/${holiday.id}`
+        : '/api/admin/holidays'
+
+      const method = holiday ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...data,
+          officeLocationId: data.type === 'REGIONAL' ? data.officeLocationId : null
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan hari libur')
+      }
+
+      toast.success(holiday
+        ? 'Hari libur berhasil diupdate'
+        : 'Hari libur berhasil dibuat')
+
+      onSuccess()
+    } catch (error) {
+      console.error('Error saving holiday:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan hari libur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="date">Tanggal *</Label>
+          <Input
+            id="date"
+            type="date"
+            {...register('date')}
+            className={errors.date ? 'border-red-500' : ''}
+          />
+          {errors.date && (
+            <p className="text-sm text-red-600">{errors.date.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="type">Jenis *</Label>
+          <select
+            id="type"
+            {...register('type')}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            {Object.entries(HOLIDAY_TYPE_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="name">Nama Hari Libur *</Label>
+        <Input
+          id="name"
+          {...register('name')}
+          placeholder="Contoh: Hari Kemerdekaan Republik Indonesia"
+          className={errors.name ? 'border-red-500' : ''}
+        />
+        {errors.name && (
+          <p className="text-sm text-red-600">{errors.name.message}</p>
+        )}
+      </div>
+
+      {type === 'REGIONAL' && (
+        <div className="space-y-2">
+          <Label htmlFor="officeLocationId">Lokasi Kantor *</Label>
+          <select
+            id="officeLocationId"
+            {...register('officeLocationId')}
+            className={`flex h-9 w-full rounded-md border bg-transparent px-3 py-1 text-sm shadow-sm ${errors.officeLocationId ? 'border-red-500' : 'border-input'}`}
+          >
+            <option value="">Pilih lokasi kantor</option>
+            {officeLocations.map(location => (
+              <option key={location.id} value={location.id}>
+                {location.name} ({location.code})
+              </option>
+            ))}
+          </select>
+          {errors.officeLocationId && (
+            <p className="text-sm text-red-600">{errors.officeLocationId.message}</p>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Libur daerah hanya berlaku untuk pegawai di lokasi kantor ini
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Deskripsi</Label>
+        <Textarea
+          id="description"
+          {...register('description')}
+          placeholder="Keterangan tambahan, misalnya dasar SKB..."
+          rows={3}
+        />
+        {errors.description && (
+          <p className="text-sm text-red-600">{errors.description.message}</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="isActive"
+          checked={isActive}
+          onCheckedChange={(checked) => setValue('isActive', checked)}
+        />
+        <Label htmlFor="isActive" className="text-sm">
+          {isActive ? 'Aktif' : 'Nonaktif'}
+        </Label>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {holiday ? 'Update Hari Libur' : 'Simpan Hari Libur'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,182 @@
+'use client'
+
+// ============================================================================
+// HOLIDAY IMPORT FORM COMPONENT
+// src/components/admin/holidays/HolidayImportForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Loader2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+import { HolidayOfficeLocationOption } from './HolidayForm'
+
+interface ImportResult {
+  dryRun: boolean
+  totalRows: number
+  createdCount: number
+  duplicateCount: number
+  skippedCount: number
+  errors: Array<{ line: number; message: string }>
+}
+
+interface HolidayImportFormProps {
+  year: number
+  officeLocations: HolidayOfficeLocationOption[]
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function HolidayImportForm({ year, officeLocations, onSuccess, onCancel }: HolidayImportFormProps) {
+  const [file, setFile] = useState<File | null>(null)
+  const [importYear, setImportYear] = useState(year.toString())
+  const [officeLocationId, setOfficeLocationId] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [preview, setPreview] = useState<ImportResult | null>(null)
+
+  const submit = async (dryRun: boolean) => {
+    if (!file) {
+      toast.error('Pilih file ICS atau CSV terlebih dahulu')
+      return
+    }
+
+    try {
+      setLoading(true)
+
+      const formData = new FormData()
+      formData.append('file', file)
+      formData.append('dryRun', dryRun ? 'true' : 'false')
+      if (importYear) formData.append('year', importYear)
+      if (officeLocationId) formData.append('officeLocationId', officeLocationId)
+
+      const response = await fetch('/api/admin/holidays/import', {
+        method: 'POST',
+        body: formData
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengimpor hari libur')
+      }
+
+      if (dryRun) {
+        setPreview(result.data)
+        return
+      }
+
+      toast.success(`${result.data.createdCount} hari libur berhasil diimpor`)
+      onSuccess()
+    } catch (error) {
+      console.error('Error importing holidays:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengimpor hari libur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="holidayFile">File Kalender *</Label>
+        <Input
+          id="holidayFile"
+          type="file"
+          accept=".ics,.csv,text/calendar,text/csv"
+          onChange={(e) => {
+            setFile(e.target.files?.[0] || null)
+            setPreview(null)
+          }}
+        />
+        <p className="text-xs text-muted-foreground">
+          ICS (kalender libur nasional) atau CSV dengan kolom: date, name, type, description, office_code
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="importYear">Tahun</Label>
+          <Input
+            id="importYear"
+            type="number"
+            value={importYear}
+            onChange={(e) => {
+              setImportYear(e.target.value)
+              setPreview(null)
+            }}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="importOfficeLocationId">Lokasi Libur Daerah</Label>
+          <select
+            id="importOfficeLocationId"
+            value={officeLocationId}
+            onChange={(e) => {
+              setOfficeLocationId(e.target.value)
+              setPreview(null)
+            }}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="">-</option>
+            {officeLocations.map(location => (
+              <option key={location.id} value={location.id}>
+                {location.name} ({location.code})
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {preview && (
+        <Alert>
+          <AlertDescription className="space-y-1">
+            <div>
+              {preview.totalRows} baris dibaca: <strong>{preview.createdCount}</strong> akan dibuat,{' '}
+              {preview.duplicateCount} sudah ada, {preview.skippedCount} di luar tahun {importYear}
+            </div>
+            {preview.errors.length > 0 && (
+              <ul className="text-sm text-red-600 list-disc pl-4">
+                {preview.errors.slice(0, 10).map(error => (
+                  <li key={`${error.line}-${error.message}`}>Baris {error.line}: {error.message}</li>
+                ))}
+                {preview.errors.length > 10 && (
+                  <li>dan {preview.errors.length - 10} kesalahan lainnya</li>
+                )}
+              </ul>
+            )}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        {preview ? (
+          <Button
+            type="button"
+            onClick={() => submit(false)}
+            disabled={loading || preview.createdCount === 0}
+          >
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Import {preview.createdCount} Hari Libur
+          </Button>
+        ) : (
+          <Button type="button" onClick={() => submit(true)} disabled={loading || !file}>
+            {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Upload className="h-4 w-4 mr-2" />}
+            Pratinjau
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
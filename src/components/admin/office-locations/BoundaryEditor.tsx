@@ -0,0 +1,308 @@
+'use client'
+
+// ============================================================================
+// BOUNDARY EDITOR COMPONENT
+// src/components/admin/office-locations/BoundaryEditor.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Textarea } from '@/components/ui/textarea'
+import { Crosshair, Plus, Trash2, Upload } from 'lucide-react'
+import { toast } from 'sonner'
+
+import {
+  GeoPoint,
+  OfficeBoundary,
+  getBoundaryOuterRings,
+  parseBoundary
+} from '@/utils/geofence'
+
+const PREVIEW_SIZE = 240
+const PREVIEW_PADDING = 12
+
+interface BoundaryEditorProps {
+  enabled: boolean
+  boundary: OfficeBoundary | null
+  bufferMeters: number
+  center: GeoPoint
+  onEnabledChange: (enabled: boolean) => void
+  onBoundaryChange: (boundary: OfficeBoundary | null) => void
+  onBufferChange: (bufferMeters: number) => void
+}
+
+// Only a single polygon without holes can be edited point by point
+const toVertices = (boundary: OfficeBoundary | null): GeoPoint[] | null => {
+  if (!boundary) return []
+  if (boundary.type !== 'Polygon' || boundary.coordinates.length !== 1) return null
+  return boundary.coordinates[0].slice(0, -1).map(([longitude, latitude]) => ({ latitude, longitude }))
+}
+
+const toBoundary = (vertices: GeoPoint[]): OfficeBoundary | null => {
+  if (vertices.length < 3) return null
+  return parseBoundary({
+    type: 'Polygon',
+    coordinates: [vertices.map(vertex => [vertex.longitude, vertex.latitude])]
+  }).boundary ?? null
+}
+
+export function BoundaryEditor({
+  enabled,
+  boundary,
+  bufferMeters,
+  center,
+  onEnabledChange,
+  onBoundaryChange,
+  onBufferChange
+}: BoundaryEditorProps) {
+  const [vertices, setVertices] = useState<GeoPoint[] | null>(() => toVertices(boundary))
+  const [geoJson, setGeoJson] = useState('')
+  const [isGettingLocation, setIsGettingLocation] = useState(false)
+
+  const updateVertices = (next: GeoPoint[]) => {
+    setVertices(next)
+    onBoundaryChange(toBoundary(next))
+  }
+
+  const updateVertex = (index: number, field: keyof GeoPoint, value: string) => {
+    if (!vertices) return
+    const parsed = parseFloat(value)
+    updateVertices(vertices.map((vertex, i) =>
+      i === index ? { ...vertex, [field]: isNaN(parsed) ? 0 : parsed } : vertex
+    ))
+  }
+
+  const addCurrentLocation = async () => {
+    if (!navigator.geolocation) {
+      toast.error('Geolocation tidak didukung oleh browser')
+      return
+    }
+
+    setIsGettingLocation(true)
+
+    try {
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 15000,
+          maximumAge: 0
+        })
+      })
+
+      updateVertices([
+        ...(vertices || []),
+        { latitude: position.coords.latitude, longitude: position.coords.longitude }
+      ])
+      toast.success(`Titik ditambahkan (akurasi ±${Math.round(position.coords.accuracy)} m)`)
+    } catch (error) {
+      console.error('Error getting current location:', error)
+      toast.error('Gagal mendapatkan lokasi saat ini')
+    } finally {
+      setIsGettingLocation(false)
+    }
+  }
+
+  const importGeoJson = () => {
+    try {
+      const parsed = parseBoundary(JSON.parse(geoJson))
+      if (!parsed.boundary) {
+        toast.error(parsed.error || 'GeoJSON tidak valid')
+        return
+      }
+
+      setVertices(toVertices(parsed.boundary))
+      onBoundaryChange(parsed.boundary)
+      setGeoJson('')
+      toast.success('Batas area berhasil diimpor')
+    } catch {
+      toast.error('Teks bukan JSON yang valid')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+        <div className="space-y-1">
+          <Label htmlFor="boundaryEnabled" className="text-sm font-medium">
+            Batas Area (Poligon)
+          </Label>
+          <p className="text-xs text-muted-foreground">
+            {enabled
+              ? 'Validasi absensi menggunakan batas area, radius diabaikan'
+              : 'Validasi absensi menggunakan radius dari titik koordinat'}
+          </p>
+        </div>
+        <Switch
+          id="boundaryEnabled"
+          checked={enabled}
+          onCheckedChange={onEnabledChange}
+        />
+      </div>
+
+      {enabled && (
+        <>
+          <div className="space-y-2">
+            <Label htmlFor="boundaryBufferMeters" className="text-sm">Toleransi di Luar Batas (meter)</Label>
+            <Input
+              id="boundaryBufferMeters"
+              type="number"
+              min="0"
+              max="200"
+              value={bufferMeters}
+              onChange={(e) => onBufferChange(parseInt(e.target.value) || 0)}
+              className="font-mono text-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Jarak maksimal di luar garis batas yang masih diterima, untuk mengimbangi akurasi GPS (0-200 meter)
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-[1fr_auto] gap-4">
+            <div className="space-y-2">
+              <Label className="text-sm">Titik Batas</Label>
+              {vertices ? (
+                <>
+                  {vertices.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      Belum ada titik. Tambahkan minimal 3 titik searah keliling area.
+                    </p>
+                  )}
+                  {vertices.map((vertex, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <span className="w-6 text-xs text-muted-foreground">{index + 1}</span>
+                      <Input
+                        type="number"
+                        step="any"
+                        value={vertex.latitude}
+                        onChange={(e) => updateVertex(index, 'latitude', e.target.value)}
+                        className="font-mono text-sm"
+                        aria-label={`Latitude titik ${index + 1}`}
+                      />
+                      <Input
+                        type="number"
+                        step="any"
+                        value={vertex.longitude}
+                        onChange={(e) => updateVertex(index, 'longitude', e.target.value)}
+                        className="font-mono text-sm"
+                        aria-label={`Longitude titik ${index + 1}`}
+                      />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => updateVertices(vertices.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => updateVertices([...vertices, vertices[vertices.length - 1] || center])}
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      Tambah Titik
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={addCurrentLocation}
+                      disabled={isGettingLocation}
+                    >
+                      <Crosshair className={`h-4 w-4 mr-2 ${isGettingLocation ? 'animate-spin' : ''}`} />
+                      Titik dari Lokasi Saat Ini
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Tip: berjalan mengelilingi area dan tambahkan titik dari lokasi saat ini di setiap sudut
+                  </p>
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Batas area terdiri dari beberapa poligon atau memiliki lubang. Ubah melalui impor GeoJSON.
+                </p>
+              )}
+            </div>
+
+            <BoundaryPreview boundary={boundary} center={center} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="boundaryGeoJson" className="text-sm">Impor GeoJSON</Label>
+            <Textarea
+              id="boundaryGeoJson"
+              value={geoJson}
+              onChange={(e) => setGeoJson(e.target.value)}
+              placeholder='{"type": "Polygon", "coordinates": [[[101.41, 0.46], ...]]}'
+              rows={3}
+              className="font-mono text-xs"
+            />
+            <div className="flex items-center justify-between gap-2">
+              <p className="text-xs text-muted-foreground">
+                Polygon, MultiPolygon, Feature, atau FeatureCollection dari aplikasi peta (mis. geojson.io)
+              </p>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={importGeoJson}
+                disabled={!geoJson.trim()}
+              >
+                <Upload className="h-4 w-4 mr-2" />
+                Terapkan
+              </Button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
+
+function BoundaryPreview({ boundary, center }: { boundary: OfficeBoundary | null; center: GeoPoint }) {
+  const rings = boundary ? getBoundaryOuterRings(boundary) : []
+  const positions = [...rings.flat(), [center.longitude, center.latitude]]
+
+  const longitudes = positions.map(([longitude]) => longitude)
+  const latitudes = positions.map(([, latitude]) => latitude)
+  const minLng = Math.min(...longitudes)
+  const minLat = Math.min(...latitudes)
+  // Keep the aspect ratio, correcting longitude spacing for the latitude
+  const lngScale = Math.cos(center.latitude * Math.PI / 180)
+  const span = Math.max((Math.max(...longitudes) - minLng) * lngScale, Math.max(...latitudes) - minLat) || 1
+  const scale = (PREVIEW_SIZE - PREVIEW_PADDING * 2) / span
+
+  const toPoint = ([longitude, latitude]: number[]) =>
+    `${PREVIEW_PADDING + (longitude - minLng) * lngScale * scale},${PREVIEW_SIZE - PREVIEW_PADDING - (latitude - minLat) * scale}`
+  const [centerX, centerY] = toPoint([center.longitude, center.latitude]).split(',')
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-sm">Pratinjau</Label>
+      <svg
+        width={PREVIEW_SIZE}
+        height={PREVIEW_SIZE}
+        viewBox={`0 0 ${PREVIEW_SIZE} ${PREVIEW_SIZE}`}
+        className="rounded-md border bg-white"
+      >
+        {rings.map((ring, index) => (
+          <polygon
+            key={index}
+            points={ring.map(toPoint).join(' ')}
+            className="fill-blue-100 stroke-blue-600"
+            strokeWidth={2}
+          />
+        ))}
+        <circle cx={centerX} cy={centerY} r={4} className="fill-red-600" />
+      </svg>
+      <p className="text-xs text-muted-foreground">Titik merah: koordinat kantor</p>
+    </div>
+  )
+}
@@ -0,0 +1,226 @@
+'use client'
+
+// ============================================================================
+// OFFICE ASSIGNMENT FORM COMPONENT
+// src/components/admin/office-locations/OfficeAssignmentForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { DAY_OF_WEEK_LABELS } from '@/utils/dateUtils'
+
+export interface OfficeAssignmentOption {
+  id: string
+  name?: string
+  description?: string // NIP, department code or office code
+}
+
+interface OfficeAssignmentFormProps {
+  users: OfficeAssignmentOption[]
+  departments: OfficeAssignmentOption[]
+  officeLocations: OfficeAssignmentOption[]
+  defaultUserIds?: string[]
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+// Monday to Friday
+const DEFAULT_DAYS = Object.keys(DAY_OF_WEEK_LABELS).slice(0, 5)
+
+export function OfficeAssignmentForm({
+  users,
+  departments,
+  officeLocations,
+  defaultUserIds = [],
+  onSuccess,
+  onCancel
+}: OfficeAssignmentFormProps) {
+  const [loading, setLoading] = useState(false)
+  const [userSearch, setUserSearch] = useState('')
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>(defaultUserIds)
+  const [selectedDepartmentIds, setSelectedDepartmentIds] = useState<string[]>([])
+  const [officeLocationId, setOfficeLocationId] = useState(officeLocations[0]?.id || '')
+  const [daysOfWeek, setDaysOfWeek] = useState<string[]>(DEFAULT_DAYS)
+  const [replaceExisting, setReplaceExisting] = useState(false)
+
+  const filteredUsers = users.filter(user =>
+    `${user.name || ''} ${user.description || ''}`.toLowerCase().includes(userSearch.toLowerCase())
+  )
+
+  const toggle = (values: string[], value: string) => values.includes(value)
+    ? values.filter(existing => existing !== value)
+    : [...values, value]
+
+  const validate = (method: 'POST' | 'DELETE'): boolean => {
+    if (selectedUserIds.length === 0 && selectedDepartmentIds.length === 0) {
+      toast.error('Pilih minimal satu pegawai atau unit kerja')
+      return false
+    }
+    if (method === 'POST' && !officeLocationId) {
+      toast.error('Pilih lokasi kantor')
+      return false
+    }
+    if (method === 'POST' && daysOfWeek.length === 0) {
+      toast.error('Pilih minimal satu hari')
+      return false
+    }
+    return true
+  }
+
+  const submit = async (method: 'POST' | 'DELETE') => {
+    if (!validate(method)) return
+
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/admin/office-assignments', {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          userIds: selectedUserIds,
+          departmentIds: selectedDepartmentIds,
+          officeLocationId: officeLocationId || undefined,
+          ...(method === 'POST' && {
+            daysOfWeek,
+            mode: replaceExisting ? 'REPLACE' : 'ADD'
+          })
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan penugasan lokasi kantor')
+      }
+
+      toast.success(result.message)
+      onSuccess()
+    } catch (error) {
+      console.error('Error saving office assignment:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan penugasan lokasi kantor')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Unit Kerja ({selectedDepartmentIds.length} dipilih)</Label>
+        <div className="max-h-32 overflow-y-auto rounded-md border p-2 space-y-1">
+          {departments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Tidak ada unit kerja</p>
+          ) : departments.map(department => (
+            <label key={department.id} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedDepartmentIds.includes(department.id)}
+                onChange={() => setSelectedDepartmentIds(current => toggle(current, department.id))}
+              />
+              <span>{department.name}</span>
+            </label>
+          ))}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Semua pegawai aktif di unit kerja terpilih ikut ditugaskan
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Pegawai ({selectedUserIds.length} dipilih)</Label>
+        <Input
+          placeholder="Cari nama atau NIP..."
+          value={userSearch}
+          onChange={(e) => setUserSearch(e.target.value)}
+        />
+        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+          {filteredUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Tidak ada pegawai</p>
+          ) : filteredUsers.map(user => (
+            <label key={user.id} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedUserIds.includes(user.id)}
+                onChange={() => setSelectedUserIds(current => toggle(current, user.id))}
+              />
+              <span>{user.name || '-'}</span>
+              {user.description && <span className="text-muted-foreground">({user.description})</span>}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="assignmentOfficeLocation">Lokasi Kantor *</Label>
+        <select
+          id="assignmentOfficeLocation"
+          value={officeLocationId}
+          onChange={(e) => setOfficeLocationId(e.target.value)}
+          className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+        >
+          {officeLocations.map(location => (
+            <option key={location.id} value={location.id}>
+              {location.name}{location.description ? ` (${location.description})` : ''}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Hari *</Label>
+        <div className="flex flex-wrap gap-3">
+          {Object.entries(DAY_OF_WEEK_LABELS).map(([day, label]) => (
+            <label key={day} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={daysOfWeek.includes(day)}
+                onChange={() => setDaysOfWeek(current => toggle(current, day))}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm">
+        <input
+          type="checkbox"
+          checked={replaceExisting}
+          onChange={(e) => setReplaceExisting(e.target.checked)}
+        />
+        <span>Ganti lokasi kantor lain yang sudah ditugaskan</span>
+      </label>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => submit('DELETE')}
+          disabled={loading}
+        >
+          Hapus Penugasan
+        </Button>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel || onSuccess}
+            disabled={loading}
+          >
+            Batal
+          </Button>
+          <Button type="button" onClick={() => submit('POST')} disabled={loading} className="min-w-[120px]">
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Simpan Penugasan
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -7,7 +7,9 @@
 
 import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { MapPin, Clock, CheckCircle, XCircle } from 'lucide-react'
+import { MapPin, Clock, CheckCircle, XCircle, QrCode } from 'lucide-react'
+import { OfficeBoundary, countBoundaryVertices } from '@/utils/geofence'
+import { KIOSK_MODE_LABELS } from './OfficeLocationForm'
 
 interface OfficeLocation {
   id: string
@@ -17,6 +19,13 @@ interface OfficeLocation {
   latitude: number
   longitude: number
   radiusMeters: number
+  boundary?: OfficeBoundary
+  boundaryBufferMeters: number
+  toleranceMeters: number
+  maxAccuracyMeters: number
+  requirePhoto: boolean
+  kioskMode: 'DISABLED' | 'QR_ONLY' | 'QR_WITH_GPS'
+  kioskKey?: string
   isActive: boolean
   createdAt: string
   updatedAt: string
@@ -37,6 +46,9 @@ export function OfficeLocationDetails({ location }: OfficeLocationDetailsProps)
     })
   }
 
+  const getKioskUrl = () =>
+    `${window.location.origin}/kiosk/${location.id}?key=${encodeURIComponent(location.kioskKey || '')}`
+
   const openInMaps = () => {
     const url = `https://www.google.com/maps?q=${location.latitude},${location.longitude}`
     window.open(url, '_blank')
@@ -109,7 +121,37 @@ export function OfficeLocationDetails({ location }: OfficeLocationDetailsProps)
           
           <div>
             <label className="text-sm font-medium text-muted-foreground">Radius Toleransi</label>
-            <p className="text-sm">{location.radiusMeters} meter</p>
+            <p className="text-sm">
+              {location.radiusMeters} meter
+              {location.boundary && ' (tidak digunakan, lokasi memiliki batas area)'}
+            </p>
+          </div>
+
+          {location.boundary && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Batas Area</label>
+              <p className="text-sm">
+                {location.boundary.type === 'MultiPolygon'
+                  ? `${location.boundary.coordinates.length} poligon`
+                  : 'Poligon'}, {countBoundaryVertices(location.boundary)} titik, toleransi {location.boundaryBufferMeters} meter
+              </p>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Toleransi GPS</label>
+              <p className="text-sm">{location.toleranceMeters} meter</p>
+            </div>
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Batas Akurasi</label>
+              <p className="text-sm">±{location.maxAccuracyMeters} meter</p>
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Foto Selfie</label>
+            <p className="text-sm">{location.requirePhoto ? 'Wajib saat absen masuk dan pulang' : 'Tidak wajib'}</p>
           </div>
 
           <div className="pt-2">
@@ -123,6 +165,39 @@ export function OfficeLocationDetails({ location }: OfficeLocationDetailsProps)
         </CardContent>
       </Card>
 
+      {/* QR Kiosk */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <QrCode className="h-5 w-5 mr-2" />
+            Kiosk QR Code
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="text-sm font-medium text-muted-foreground">Mode</label>
+            <p className="text-sm">{KIOSK_MODE_LABELS[location.kioskMode]}</p>
+          </div>
+
+          {location.kioskMode !== 'DISABLED' && location.kioskKey && (
+            <div>
+              <label className="text-sm font-medium text-muted-foreground">Alamat Kiosk</label>
+              <p className="text-xs text-muted-foreground">
+                Buka alamat ini di perangkat kiosk. Jangan bagikan ke pegawai.
+              </p>
+              <a
+                href={getKioskUrl()}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm font-mono text-blue-600 hover:text-blue-800 underline break-all"
+              >
+                {getKioskUrl()}
+              </a>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Timestamps */}
       <Card>
         <CardHeader>
@@ -152,7 +227,12 @@ export function OfficeLocationDetails({ location }: OfficeLocationDetailsProps)
         <CardContent>
           <div className="text-sm text-muted-foreground">
             <p>• Lokasi ini digunakan untuk validasi absensi karyawan</p>
-            <p>• Karyawan harus berada dalam radius {location.radiusMeters} meter dari koordinat yang ditentukan</p>
+            {location.boundary ? (
+              <p>• Karyawan harus berada di dalam batas area atau maksimal {location.boundaryBufferMeters} meter di luar garis batas</p>
+            ) : (
+              <p>• Karyawan harus berada dalam radius {location.radiusMeters} meter dari koordinat yang ditentukan</p>
+            )}
+            <p>• Ditambah toleransi GPS {location.toleranceMeters} meter; lokasi dengan akurasi lebih buruk dari ±{location.maxAccuracyMeters} meter atau yang berada di tepi area dengan akurasi rendah diminta untuk dicoba lagi</p>
             <p>• Status aktif/nonaktif menentukan apakah lokasi dapat digunakan untuk absensi</p>
           </div>
         </CardContent>
@@ -16,6 +16,8 @@ import { Textarea } from '@/components/ui/textarea'
 import { Switch } from '@/components/ui/switch'
 import { Loader2 } from 'lucide-react'
 import { LocationPicker } from './LocationPicker'
+import { BoundaryEditor } from './BoundaryEditor'
+import { OfficeBoundary } from '@/utils/geofence'
 import {toast} from "sonner";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
@@ -28,11 +30,28 @@ const officeLocationSchema = z.object({
   latitude: z.number().min(-90, 'Latitude tidak valid').max(90, 'Latitude tidak valid'),
   longitude: z.number().min(-180, 'Longitude tidak valid').max(180, 'Longitude tidak valid'),
   radiusMeters: z.number().min(10, 'Radius minimal 10 meter').max(1000, 'Radius maksimal 1000 meter'),
-  isActive: z.boolean()
+  isActive: z.boolean(),
+  boundaryEnabled: z.boolean(),
+  boundary: z.custom<OfficeBoundary>().nullable(),
+  boundaryBufferMeters: z.number().min(0, 'Toleransi minimal 0 meter').max(200, 'Toleransi maksimal 200 meter'),
+  toleranceMeters: z.number().min(0, 'Toleransi minimal 0 meter').max(500, 'Toleransi maksimal 500 meter'),
+  maxAccuracyMeters: z.number().min(10, 'Batas akurasi minimal 10 meter').max(500, 'Batas akurasi maksimal 500 meter'),
+  requirePhoto: z.boolean(),
+  kioskMode: z.enum(['DISABLED', 'QR_ONLY', 'QR_WITH_GPS']),
+  regenerateKioskKey: z.boolean()
+}).refine(data => !data.boundaryEnabled || data.boundary, {
+  message: 'Batas area minimal memiliki 3 titik',
+  path: ['boundary']
 })
 
 type OfficeLocationFormData = z.infer<typeof officeLocationSchema>
 
+export const KIOSK_MODE_LABELS: Record<string, string> = {
+  DISABLED: 'Tidak aktif',
+  QR_ONLY: 'QR code menggantikan GPS',
+  QR_WITH_GPS: 'QR code dan GPS'
+}
+
 interface OfficeLocation {
   id: string
   name: string
@@ -41,6 +60,13 @@ interface OfficeLocation {
   latitude: number
   longitude: number
   radiusMeters: number
+  boundary?: OfficeBoundary
+  boundaryBufferMeters: number
+  toleranceMeters: number
+  maxAccuracyMeters: number
+  requirePhoto: boolean
+  kioskMode: 'DISABLED' | 'QR_ONLY' | 'QR_WITH_GPS'
+  kioskKey?: string
   isActive: boolean
 }
 
@@ -68,14 +94,28 @@ export function OfficeLocationForm({ location, onSuccess, onCancel }: OfficeLoca
       latitude: location?.latitude || 0.4647298976760957,
       longitude: location?.longitude || 101.41050382578146,
       radiusMeters: location?.radiusMeters || 100,
-      isActive: location?.isActive ?? true
+      isActive: location?.isActive ?? true,
+      boundaryEnabled: !!location?.boundary,
+      boundary: location?.boundary || null,
+      boundaryBufferMeters: location?.boundaryBufferMeters ?? 20,
+      toleranceMeters: location?.toleranceMeters ?? 100,
+      maxAccuracyMeters: location?.maxAccuracyMeters ?? 100,
+      requirePhoto: location?.requirePhoto ?? false,
+      kioskMode: location?.kioskMode ?? 'DISABLED',
+      regenerateKioskKey: false
     }
   })
 
   const isActive = watch('isActive')
+  const requirePhoto = watch('requirePhoto')
+  const kioskMode = watch('kioskMode')
+  const regenerateKioskKey = watch('regenerateKioskKey')
   const currentLatitude = watch('latitude')
   const currentLongitude = watch('longitude')
   const currentRadius = watch('radiusMeters')
+  const boundaryEnabled = watch('boundaryEnabled')
+  const boundary = watch('boundary')
+  const boundaryBufferMeters = watch('boundaryBufferMeters')
 
   // Handle location change from LocationPicker
   const handleLocationChange = (latitude: number, longitude: number) => {
@@ -98,14 +138,18 @@ export function OfficeLocationForm({ location, onSuccess, onCancel }: OfficeLoca
       
       const method = location ? 'PUT' : 'POST'
 
+      const { boundaryEnabled, boundary, ...fields } = data
+
       const response = await fetch(url, {
         method,
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
-          ...data,
-          code: data.code.toUpperCase()
+          ...fields,
+          code: data.code.toUpperCase(),
+          // null removes a previously saved boundary
+          boundary: boundaryEnabled ? boundary : null
         })
       })
 
@@ -224,6 +268,31 @@ export function OfficeLocationForm({ location, onSuccess, onCancel }: OfficeLoca
                 </Label>
               </div>
             </div>
+
+            {/* Selfie Photo Toggle */}
+            <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+              <div className="space-y-1">
+                <Label htmlFor="requirePhoto" className="text-sm font-medium">
+                  Wajib Foto Selfie
+                </Label>
+                <p className="text-xs text-muted-foreground">
+                  {requirePhoto
+                    ? 'Pegawai harus mengambil foto wajah saat absen masuk dan pulang di lokasi ini'
+                    : 'Foto wajah tidak diwajibkan, kecuali diwajibkan oleh role pegawai'
+                  }
+                </p>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="requirePhoto"
+                  checked={requirePhoto}
+                  onCheckedChange={(checked) => setValue('requirePhoto', checked)}
+                />
+                <Label htmlFor="requirePhoto" className="text-sm">
+                  {requirePhoto ? 'Wajib' : 'Tidak'}
+                </Label>
+              </div>
+            </div>
           </CardContent>
         </Card>
 
@@ -276,6 +345,158 @@ export function OfficeLocationForm({ location, onSuccess, onCancel }: OfficeLoca
           </CardContent>
         </Card>
 
+        {/* Boundary Section */}
+        <Card className="location-card">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <div className="w-2 h-2 bg-purple-500 rounded-full"></div>
+              <span>Batas Area</span>
+            </CardTitle>
+            <CardDescription>
+              Opsional: gunakan batas area berbentuk poligon untuk gedung atau kompleks yang tidak berbentuk lingkaran
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <BoundaryEditor
+              enabled={boundaryEnabled}
+              boundary={boundary}
+              bufferMeters={boundaryBufferMeters}
+              center={{ latitude: currentLatitude, longitude: currentLongitude }}
+              onEnabledChange={(checked) => setValue('boundaryEnabled', checked)}
+              onBoundaryChange={(value) => setValue('boundary', value)}
+              onBufferChange={(value) => setValue('boundaryBufferMeters', value)}
+            />
+
+            {(errors.boundary || errors.boundaryBufferMeters) && (
+              <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                <p className="text-sm font-medium text-red-800 mb-2">Kesalahan Validasi:</p>
+                <div className="space-y-1">
+                  {errors.boundary && (
+                    <p className="text-sm text-red-600 flex items-center space-x-1">
+                      <span>•</span>
+                      <span>Batas area: {errors.boundary.message}</span>
+                    </p>
+                  )}
+                  {errors.boundaryBufferMeters && (
+                    <p className="text-sm text-red-600 flex items-center space-x-1">
+                      <span>•</span>
+                      <span>Toleransi: {errors.boundaryBufferMeters.message}</span>
+                    </p>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* GPS Accuracy Section */}
+        <Card className="location-card">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <div className="w-2 h-2 bg-orange-500 rounded-full"></div>
+              <span>Akurasi GPS</span>
+            </CardTitle>
+            <CardDescription>
+              Atur kelonggaran untuk pergeseran GPS dan batas akurasi lokasi yang masih diterima
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="toleranceMeters">Toleransi GPS (meter)</Label>
+                <Input
+                  id="toleranceMeters"
+                  type="number"
+                  min="0"
+                  max="500"
+                  {...register('toleranceMeters', { valueAsNumber: true })}
+                  className={errors.toleranceMeters ? 'border-red-500' : ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Ditambahkan ke radius atau toleransi batas area (0-500 meter)
+                </p>
+                {errors.toleranceMeters && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <span>⚠️</span>
+                    <span>{errors.toleranceMeters.message}</span>
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="maxAccuracyMeters">Batas Akurasi (meter)</Label>
+                <Input
+                  id="maxAccuracyMeters"
+                  type="number"
+                  min="10"
+                  max="500"
+                  {...register('maxAccuracyMeters', { valueAsNumber: true })}
+                  className={errors.maxAccuracyMeters ? 'border-red-500' : ''}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Lokasi dengan akurasi lebih buruk dari nilai ini diminta untuk dicoba lagi (10-500 meter)
+                </p>
+                {errors.maxAccuracyMeters && (
+                  <p className="text-sm text-red-600 flex items-center space-x-1">
+                    <span>⚠️</span>
+                    <span>{errors.maxAccuracyMeters.message}</span>
+                  </p>
+                )}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* QR Kiosk Section */}
+        <Card className="location-card">
+          <CardHeader>
+            <CardTitle className="text-lg flex items-center space-x-2">
+              <div className="w-2 h-2 bg-indigo-500 rounded-full"></div>
+              <span>Kiosk QR Code</span>
+            </CardTitle>
+            <CardDescription>
+              Layar di kantor menampilkan QR code yang berganti setiap beberapa detik untuk dipindai pegawai saat check-in
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="kioskMode">Mode Kiosk</Label>
+              <select
+                id="kioskMode"
+                {...register('kioskMode')}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+              >
+                {Object.entries(KIOSK_MODE_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>{label}</option>
+                ))}
+              </select>
+              <p className="text-xs text-muted-foreground">
+                {kioskMode === 'QR_ONLY' && 'Cocok untuk gedung dengan sinyal GPS lemah: QR code cukup sebagai bukti kehadiran'}
+                {kioskMode === 'QR_WITH_GPS' && 'Pegawai harus memindai QR code dan lokasi GPS tetap divalidasi'}
+                {kioskMode === 'DISABLED' && 'Check-in hanya melalui validasi GPS'}
+              </p>
+            </div>
+
+            {location?.kioskKey && (
+              <div className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
+                <div className="space-y-1">
+                  <Label htmlFor="regenerateKioskKey" className="text-sm font-medium">
+                    Buat Ulang Kunci Kiosk
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Alamat kiosk lama tidak dapat digunakan lagi dan harus diganti di perangkat kiosk
+                  </p>
+                </div>
+                <Switch
+                  id="regenerateKioskKey"
+                  checked={regenerateKioskKey}
+                  onCheckedChange={(checked) => setValue('regenerateKioskKey', checked)}
+                />
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Action Buttons - Fixed at Bottom */}
         <div className="sticky-buttons sticky bottom-0 bg-white border-t pt-4 mt-6">
           <div className="button-group flex flex-col sm:flex-row gap-3 sm:justify-end">
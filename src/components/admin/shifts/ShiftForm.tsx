@@ -0,0 +1,240 @@
+'use client'
+
+// ============================================================================
+// SHIFT FORM COMPONENT
+// src/components/admin/shifts/ShiftForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Loader2, Moon } from 'lucide-react'
+import { toast } from 'sonner'
+
+const shiftSchema = z.object({
+  name: z.string().min(1, 'Nama shift wajib diisi').max(100, 'Nama maksimal 100 karakter'),
+  code: z.string().regex(/^[A-Za-z0-9_-]{1,20}$/, 'Kode hanya huruf, angka, - atau _ (maksimal 20 karakter)'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Jam mulai wajib diisi'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Jam selesai wajib diisi'),
+  lateToleranceMinutes: z.string().regex(/^\d{0,3}$/, 'Toleransi harus berupa angka menit').optional(),
+  description: z.string().max(500, 'Deskripsi maksimal 500 karakter').optional(),
+  isActive: z.boolean()
+}).refine(data => data.startTime !== data.endTime, {
+  message: 'Jam mulai dan jam selesai tidak boleh sama',
+  path: ['endTime']
+})
+
+type ShiftFormData = z.infer<typeof shiftSchema>
+
+export interface Shift {
+  id: string
+  name: string
+  code: string
+  startTime: string
+  endTime: string
+  isOvernight: boolean
+  lateToleranceMinutes?: number
+  description?: string
+  isActive: boolean
+}
+
+interface ShiftFormProps {
+  shift?: Shift
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function ShiftForm({ shift, onSuccess, onCancel }: ShiftFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    setValue,
+    watch,
+    formState: { errors }
+  } = useForm<ShiftFormData>({
+    resolver: zodResolver(shiftSchema),
+    defaultValues: {
+      name: shift?.name || '',
+      code: shift?.code || '',
+      startTime: shift?.startTime || '',
+      endTime: shift?.endTime || '',
+      lateToleranceMinutes: shift?.lateToleranceMinutes?.toString() || '',
+      description: shift?.description || '',
+      isActive: shift?.isActive ?? true
+    }
+  })
+
+  const startTime = watch('startTime')
+  const endTime = watch('endTime')
+  const isActive = watch('isActive')
+  const isOvernight = !!startTime && !!endTime && endTime < startTime
+
+  const onSubmit = async (data: ShiftFormData) => {
+    try {
+      setLoading(true)
+
+      const url = shift
+        ? `/api/admin/shifts/${shift.id}`
+        : '/api/admin/shifts'
+
+      const method = shift ? 'PUT' : 'POST'
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...data,
+          // Empty tolerance falls back to the institution setting
+          lateToleranceMinutes: data.lateToleranceMinutes ? parseInt(data.lateToleranceMinutes) : null
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan shift')
+      }
+
+      toast.success(shift
+        ? 'Shift berhasil diupdate'
+        : 'Shift berhasil dibuat')
+
+      onSuccess()
+    } catch (error) {
+      console.error('Error saving shift:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan shift')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="name">Nama Shift *</Label>
+          <Input
+            id="name"
+            {...register('name')}
+            placeholder="Contoh: Shift Malam"
+            className={errors.name ? 'border-red-500' : ''}
+          />
+          {errors.name && (
+            <p className="text-sm text-red-600">{errors.name.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="code">Kode *</Label>
+          <Input
+            id="code"
+            {...register('code')}
+            placeholder="Contoh: MALAM"
+            className={errors.code ? 'border-red-500' : ''}
+          />
+          {errors.code && (
+            <p className="text-sm text-red-600">{errors.code.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="startTime">Jam Mulai *</Label>
+          <Input
+            id="startTime"
+            type="time"
+            {...register('startTime')}
+            className={errors.startTime ? 'border-red-500' : ''}
+          />
+          {errors.startTime && (
+            <p className="text-sm text-red-600">{errors.startTime.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="endTime">Jam Selesai *</Label>
+          <Input
+            id="endTime"
+            type="time"
+            {...register('endTime')}
+            className={errors.endTime ? 'border-red-500' : ''}
+          />
+          {errors.endTime && (
+            <p className="text-sm text-red-600">{errors.endTime.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="lateToleranceMinutes">Toleransi Terlambat (menit)</Label>
+          <Input
+            id="lateToleranceMinutes"
+            inputMode="numeric"
+            {...register('lateToleranceMinutes')}
+            placeholder="Ikuti pengaturan"
+            className={errors.lateToleranceMinutes ? 'border-red-500' : ''}
+          />
+          {errors.lateToleranceMinutes && (
+            <p className="text-sm text-red-600">{errors.lateToleranceMinutes.message}</p>
+          )}
+        </div>
+      </div>
+
+      {isOvernight && (
+        <p className="flex items-center text-sm text-muted-foreground">
+          <Moon className="h-4 w-4 mr-2" />
+          Shift lintas hari: selesai pada hari berikutnya dan dicatat pada tanggal mulai shift
+        </p>
+      )}
+
+      <div className="space-y-2">
+        <Label htmlFor="description">Deskripsi</Label>
+        <Textarea
+          id="description"
+          {...register('description')}
+          placeholder="Keterangan tambahan..."
+          rows={2}
+        />
+        {errors.description && (
+          <p className="text-sm text-red-600">{errors.description.message}</p>
+        )}
+      </div>
+
+      <div className="flex items-center space-x-2">
+        <Switch
+          id="isActive"
+          checked={isActive}
+          onCheckedChange={(checked) => setValue('isActive', checked)}
+        />
+        <Label htmlFor="isActive" className="text-sm">
+          {isActive ? 'Aktif' : 'Nonaktif'}
+        </Label>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          {shift ? 'Update Shift' : 'Simpan Shift'}
+        </Button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,257 @@
+'use client'
+
+// ============================================================================
+// SHIFT ROSTER FORM COMPONENT
+// src/components/admin/shifts/ShiftRosterForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Loader2, Plus, X } from 'lucide-react'
+import { toast } from 'sonner'
+import { Shift } from './ShiftForm'
+
+export interface ShiftRosterUserOption {
+  id: string
+  name?: string
+  nip?: string
+}
+
+interface ShiftRosterFormProps {
+  shifts: Shift[]
+  users: ShiftRosterUserOption[]
+  defaultStartDate: string
+  defaultEndDate: string
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+// Value used by the pattern selects for a day off
+const OFF_DAY = ''
+
+export function ShiftRosterForm({
+  shifts,
+  users,
+  defaultStartDate,
+  defaultEndDate,
+  onSuccess,
+  onCancel
+}: ShiftRosterFormProps) {
+  const [loading, setLoading] = useState(false)
+  const [userSearch, setUserSearch] = useState('')
+  const [selectedUserIds, setSelectedUserIds] = useState<string[]>([])
+  const [startDate, setStartDate] = useState(defaultStartDate)
+  const [endDate, setEndDate] = useState(defaultEndDate)
+  const [pattern, setPattern] = useState<string[]>([shifts[0]?.id || OFF_DAY])
+  const [staggerDays, setStaggerDays] = useState('0')
+  const [notes, setNotes] = useState('')
+
+  const activeShifts = shifts.filter(shift => shift.isActive)
+  const filteredUsers = users.filter(user =>
+    `${user.name || ''} ${user.nip || ''}`.toLowerCase().includes(userSearch.toLowerCase())
+  )
+
+  const toggleUser = (userId: string) => {
+    setSelectedUserIds(current => current.includes(userId)
+      ? current.filter(id => id !== userId)
+      : [...current, userId])
+  }
+
+  const validate = (): boolean => {
+    if (selectedUserIds.length === 0) {
+      toast.error('Pilih minimal satu pegawai')
+      return false
+    }
+    if (!startDate || !endDate || startDate > endDate) {
+      toast.error('Rentang tanggal tidak valid')
+      return false
+    }
+    return true
+  }
+
+  const submit = async (method: 'POST' | 'DELETE') => {
+    if (!validate()) return
+
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/admin/shift-rosters', {
+        method,
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          userIds: selectedUserIds,
+          startDate,
+          endDate,
+          ...(method === 'POST' && {
+            pattern: pattern.map(entry => entry || null),
+            staggerDays: parseInt(staggerDays) || 0,
+            notes: notes || undefined
+          })
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan roster')
+      }
+
+      toast.success(method === 'POST'
+        ? `Roster disimpan untuk ${result.data.userCount} pegawai selama ${result.data.dayCount} hari`
+        : `${result.data.deletedCount} jadwal roster dihapus`)
+
+      onSuccess()
+    } catch (error) {
+      console.error('Error saving shift roster:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan roster')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Pegawai * ({selectedUserIds.length} dipilih)</Label>
+        <Input
+          placeholder="Cari nama atau NIP..."
+          value={userSearch}
+          onChange={(e) => setUserSearch(e.target.value)}
+        />
+        <div className="max-h-40 overflow-y-auto rounded-md border p-2 space-y-1">
+          {filteredUsers.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Tidak ada pegawai</p>
+          ) : filteredUsers.map(user => (
+            <label key={user.id} className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedUserIds.includes(user.id)}
+                onChange={() => toggleUser(user.id)}
+              />
+              <span>{user.name || '-'}</span>
+              {user.nip && <span className="text-muted-foreground">({user.nip})</span>}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="rosterStartDate">Dari Tanggal *</Label>
+          <Input
+            id="rosterStartDate"
+            type="date"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rosterEndDate">Sampai Tanggal *</Label>
+          <Input
+            id="rosterEndDate"
+            type="date"
+            value={endDate}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Pola Rotasi *</Label>
+        <p className="text-xs text-muted-foreground">
+          Pola diulang setiap {pattern.length} hari mulai dari tanggal awal
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+          {pattern.map((entry, index) => (
+            <div key={index} className="flex items-center space-x-1">
+              <span className="text-xs text-muted-foreground w-8">H{index + 1}</span>
+              <select
+                value={entry}
+                onChange={(e) => setPattern(current => current.map((value, i) => i === index ? e.target.value : value))}
+                className="flex h-9 w-full rounded-md border border-input bg-transparent px-2 py-1 text-sm shadow-sm"
+              >
+                <option value={OFF_DAY}>Libur</option>
+                {activeShifts.map(shift => (
+                  <option key={shift.id} value={shift.id}>{shift.code}</option>
+                ))}
+              </select>
+              {pattern.length > 1 && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPattern(current => current.filter((_, i) => i !== index))}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setPattern(current => [...current, OFF_DAY])}
+          disabled={pattern.length >= 31}
+        >
+          <Plus className="h-4 w-4 mr-2" />
+          Tambah Hari
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="staggerDays">Geser Pola per Pegawai (hari)</Label>
+          <Input
+            id="staggerDays"
+            inputMode="numeric"
+            value={staggerDays}
+            onChange={(e) => setStaggerDays(e.target.value.replace(/\D/g, ''))}
+          />
+          <p className="text-xs text-muted-foreground">
+            Isi 0 agar semua pegawai mendapat pola yang sama
+          </p>
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="rosterNotes">Catatan</Label>
+          <Input
+            id="rosterNotes"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Contoh: Piket Lebaran"
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-between pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={() => submit('DELETE')}
+          disabled={loading}
+        >
+          Kosongkan Roster
+        </Button>
+        <div className="flex flex-col sm:flex-row gap-3">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel || onSuccess}
+            disabled={loading}
+          >
+            Batal
+          </Button>
+          <Button type="button" onClick={() => submit('POST')} disabled={loading} className="min-w-[120px]">
+            {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Simpan Roster
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
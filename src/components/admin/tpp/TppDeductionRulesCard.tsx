@@ -0,0 +1,444 @@
+'use client'
+
+// ============================================================================
+// TPP DEDUCTION RULES CARD COMPONENT
+// src/components/admin/tpp/TppDeductionRulesCard.tsx
+// ============================================================================
+
+import { useState, useEffect } from 'react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow
+} from '@/components/ui/table'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Edit, Loader2, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export type TppDeductionCategory = 'LATE' | 'EARLY_LEAVE' | 'ABSENT'
+
+export const TPP_CATEGORY_LABELS: Record<TppDeductionCategory, string> = {
+  LATE: 'Terlambat (TL)',
+  EARLY_LEAVE: 'Pulang Cepat (PSW)',
+  ABSENT: 'Tanpa Keterangan (TK)'
+}
+
+export interface TppDeductionRule {
+  id: string
+  code: string
+  category: TppDeductionCategory
+  minMinutes: number
+  maxMinutes?: number
+  percentage: number
+  description?: string
+  appliesToMissingPunch: boolean
+  isActive: boolean
+}
+
+interface RuleFormState {
+  code: string
+  category: TppDeductionCategory
+  minMinutes: string
+  maxMinutes: string
+  percentage: string
+  description: string
+  appliesToMissingPunch: boolean
+  isActive: boolean
+}
+
+const EMPTY_FORM: RuleFormState = {
+  code: '',
+  category: 'LATE',
+  minMinutes: '1',
+  maxMinutes: '',
+  percentage: '',
+  description: '',
+  appliesToMissingPunch: false,
+  isActive: true
+}
+
+export function formatTppRuleRange(rule: TppDeductionRule): string {
+  if (rule.category === 'ABSENT') return 'per hari'
+  const range = rule.maxMinutes !== undefined
+    ? `${rule.minMinutes}-${rule.maxMinutes} menit`
+    : `≥ ${rule.minMinutes} menit`
+  return rule.appliesToMissingPunch ? `${range} / tidak absen` : range
+}
+
+interface TppDeductionRulesCardProps {
+  onChange?: () => void // Called after a rule is saved or deleted
+}
+
+export function TppDeductionRulesCard({ onChange }: TppDeductionRulesCardProps) {
+  const [rules, setRules] = useState<TppDeductionRule[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Dialog states
+  const [form, setForm] = useState<RuleFormState | null>(null)
+  const [selectedRule, setSelectedRule] = useState<TppDeductionRule | null>(null)
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/admin/tpp/rules')
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengambil aturan potongan')
+      }
+
+      setRules(result.data)
+    } catch (error) {
+      console.error('Error fetching TPP deduction rules:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengambil aturan potongan')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const openCreateDialog = () => {
+    setSelectedRule(null)
+    setForm(EMPTY_FORM)
+  }
+
+  const openEditDialog = (rule: TppDeductionRule) => {
+    setSelectedRule(rule)
+    setForm({
+      code: rule.code,
+      category: rule.category,
+      minMinutes: rule.minMinutes.toString(),
+      maxMinutes: rule.maxMinutes?.toString() || '',
+      percentage: rule.percentage.toString(),
+      description: rule.description || '',
+      appliesToMissingPunch: rule.appliesToMissingPunch,
+      isActive: rule.isActive
+    })
+  }
+
+  const closeDialog = () => {
+    setSelectedRule(null)
+    setForm(null)
+  }
+
+  const handleSave = async () => {
+    if (!form) return
+
+    try {
+      setSaving(true)
+
+      const response = await fetch(
+        selectedRule ? `/api/admin/tpp/rules/${selectedRule.id}` : '/api/admin/tpp/rules',
+        {
+          method: selectedRule ? 'PUT' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            code: form.code,
+            category: form.category,
+            minMinutes: parseInt(form.minMinutes || '0'),
+            maxMinutes: form.maxMinutes ? parseInt(form.maxMinutes) : null,
+            percentage: parseFloat(form.percentage),
+            description: form.description,
+            appliesToMissingPunch: form.appliesToMissingPunch,
+            isActive: form.isActive
+          })
+        }
+      )
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal menyimpan aturan potongan')
+      }
+
+      toast.success(selectedRule ? 'Aturan potongan berhasil diperbarui' : 'Aturan potongan berhasil dibuat')
+      closeDialog()
+      fetchRules()
+      onChange?.()
+    } catch (error) {
+      console.error('Error saving TPP deduction rule:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal menyimpan aturan potongan')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    if (!selectedRule) return
+
+    try {
+      const response = await fetch(`/api/admin/tpp/rules/${selectedRule.id}`, {
+        method: 'DELETE'
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        toast.error(result.error || 'Gagal menghapus aturan potongan')
+        return
+      }
+
+      toast.success(result.message)
+
+      setShowDeleteDialog(false)
+      setSelectedRule(null)
+      fetchRules()
+      onChange?.()
+    } catch (error) {
+      console.error('Error deleting TPP deduction rule:', error)
+      toast.error('Terjadi kesalahan saat menghapus aturan potongan')
+    }
+  }
+
+  useEffect(() => {
+    fetchRules()
+  }, [])
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:justify-between sm:items-center gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>Tabel Potongan</CardTitle>
+            <CardDescription>
+              Persentase potongan per kejadian terlambat/pulang cepat dan per hari tidak masuk tanpa keterangan
+            </CardDescription>
+          </div>
+          <Button variant="outline" onClick={openCreateDialog}>
+            <Plus className="h-4 w-4 mr-2" />
+            Tambah Aturan
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center items-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin" />
+          </div>
+        ) : rules.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">Belum ada aturan potongan</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Kode</TableHead>
+                <TableHead>Kategori</TableHead>
+                <TableHead>Rentang</TableHead>
+                <TableHead>Potongan</TableHead>
+                <TableHead>Keterangan</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Aksi</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule) => (
+                <TableRow key={rule.id}>
+                  <TableCell className="font-medium">{rule.code}</TableCell>
+                  <TableCell className="text-sm">{TPP_CATEGORY_LABELS[rule.category]}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatTppRuleRange(rule)}</TableCell>
+                  <TableCell className="text-sm">{rule.percentage}%</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{rule.description || '-'}</TableCell>
+                  <TableCell>
+                    <Badge variant={rule.isActive ? 'default' : 'secondary'}>
+                      {rule.isActive ? 'Aktif' : 'Nonaktif'}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => openEditDialog(rule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setSelectedRule(rule)
+                          setShowDeleteDialog(true)
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={form !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{selectedRule ? 'Edit Aturan Potongan' : 'Tambah Aturan Potongan'}</DialogTitle>
+            <DialogDescription>
+              Rentang menit dalam satu kategori tidak boleh bertumpang tindih
+            </DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="ruleCode">Kode *</Label>
+                  <Input
+                    id="ruleCode"
+                    placeholder="TL1"
+                    value={form.code}
+                    onChange={(e) => setForm({ ...form, code: e.target.value.toUpperCase() })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="ruleCategory">Kategori *</Label>
+                  <select
+                    id="ruleCategory"
+                    value={form.category}
+                    onChange={(e) => setForm({ ...form, category: e.target.value as TppDeductionCategory })}
+                    className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+                  >
+                    {Object.entries(TPP_CATEGORY_LABELS).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              {form.category !== 'ABSENT' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleMinMinutes">Dari (menit) *</Label>
+                    <Input
+                      id="ruleMinMinutes"
+                      type="number"
+                      min={0}
+                      value={form.minMinutes}
+                      onChange={(e) => setForm({ ...form, minMinutes: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="ruleMaxMinutes">Sampai (menit)</Label>
+                    <Input
+                      id="ruleMaxMinutes"
+                      type="number"
+                      min={0}
+                      placeholder="Tanpa batas"
+                      value={form.maxMinutes}
+                      onChange={(e) => setForm({ ...form, maxMinutes: e.target.value })}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="rulePercentage">
+                  Potongan (%) * {form.category === 'ABSENT' ? 'per hari' : 'per kejadian'}
+                </Label>
+                <Input
+                  id="rulePercentage"
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={100}
+                  value={form.percentage}
+                  onChange={(e) => setForm({ ...form, percentage: e.target.value })}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="ruleDescription">Keterangan</Label>
+                <Input
+                  id="ruleDescription"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+
+              {form.category !== 'ABSENT' && (
+                <label className="flex items-center space-x-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={form.appliesToMissingPunch}
+                    onChange={(e) => setForm({ ...form, appliesToMissingPunch: e.target.checked })}
+                  />
+                  <span>
+                    Juga berlaku bila tidak absen {form.category === 'LATE' ? 'masuk' : 'pulang'}
+                  </span>
+                </label>
+              )}
+
+              <label className="flex items-center space-x-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={form.isActive}
+                  onChange={(e) => setForm({ ...form, isActive: e.target.checked })}
+                />
+                <span>Aktif</span>
+              </label>
+
+              <div className="flex justify-end space-x-2">
+                <Button variant="outline" onClick={closeDialog}>
+                  Batal
+                </Button>
+                <Button onClick={handleSave} disabled={saving}>
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Simpan
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center space-x-2">
+              <Trash2 className="h-5 w-5 text-red-500" />
+              <span>Hapus Aturan Potongan</span>
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Apakah Anda yakin ingin menghapus aturan <strong>{selectedRule?.code}</strong>?
+              Nonaktifkan aturan bila hanya ingin berhenti memakainya sementara.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Batal</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
+            >
+              <Trash2 className="h-4 w-4 mr-2" />
+              Hapus
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  )
+}
@@ -0,0 +1,98 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE CALENDAR COMPONENT
+// src/components/attendance/AttendanceCalendar.tsx
+// ============================================================================
+
+import { cn } from '@/lib/utils'
+import {
+  AttendanceHistoryItem,
+  ATTENDANCE_STATUS_STYLES,
+  formatHistoryTime
+} from '@/components/attendance/AttendanceDayDetail'
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+
+const WEEKDAY_LABELS = ['Sen', 'Sel', 'Rab', 'Kam', 'Jum', 'Sab', 'Min']
+
+interface AttendanceCalendarProps {
+  year: number
+  month: number // 1-12
+  records: AttendanceHistoryItem[]
+  holidays: { date: string; name: string }[]
+  today: string // YYYY-MM-DD
+  onSelect: (attendance: AttendanceHistoryItem) => void
+}
+
+export function AttendanceCalendar({ year, month, records, holidays, today, onSelect }: AttendanceCalendarProps) {
+  const recordsByDate = new Map(records.map(record => [record.date, record]))
+  const holidaysByDate = new Map(holidays.map(holiday => [holiday.date, holiday.name]))
+
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate()
+  // Weeks start on Monday
+  const leadingBlanks = (new Date(Date.UTC(year, month - 1, 1)).getUTCDay() + 6) % 7
+
+  const cells: (string | null)[] = [
+    ...Array.from({ length: leadingBlanks }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) =>
+      `${year}-${String(month).padStart(2, '0')}-${String(index + 1).padStart(2, '0')}`
+    )
+  ]
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-7 gap-1 text-center text-xs font-medium text-muted-foreground">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label}>{label}</div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-7 gap-1">
+        {cells.map((date, index) => {
+          if (!date) {
+            return <div key={`blank-${index}`} />
+          }
+
+          const record = recordsByDate.get(date)
+          const holiday = holidaysByDate.get(date)
+          const isWeekend = (leadingBlanks + Number(date.slice(8)) - 1) % 7 >= 5
+
+          return (
+            <button
+              key={date}
+              type="button"
+              disabled={!record}
+              onClick={() => record && onSelect(record)}
+              title={holiday}
+              className={cn(
+                'min-h-[72px] rounded-md border p-1 text-left text-xs transition-colors',
+                record ? 'hover:bg-muted cursor-pointer' : 'cursor-default',
+                (isWeekend || holiday) && !record && 'bg-muted/50',
+                date === today && 'ring-2 ring-primary'
+              )}
+            >
+              <div className={cn('font-medium', (isWeekend || holiday) && 'text-red-600')}>
+                {Number(date.slice(8))}
+              </div>
+              {record && (
+                <div className="mt-1 space-y-1">
+                  <span className={cn('inline-block rounded border px-1', ATTENDANCE_STATUS_STYLES[record.status])}>
+                    {ATTENDANCE_STATUS_LABELS[record.status] || record.status}
+                  </span>
+                  {record.checkInTime && (
+                    <div className="hidden sm:block text-muted-foreground">
+                      {formatHistoryTime(record.checkInTime)} - {formatHistoryTime(record.checkOutTime)}
+                    </div>
+                  )}
+                </div>
+              )}
+              {!record && holiday && (
+                <div className="mt-1 hidden sm:block truncate text-red-600">{holiday}</div>
+              )}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE CORRECTION FORM COMPONENT
+// src/components/attendance/AttendanceCorrectionForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+export const ATTENDANCE_STATUS_LABELS: Record<string, string> = {
+  PRESENT: 'Hadir',
+  LATE: 'Terlambat',
+  ABSENT: 'Tidak Hadir',
+  HALF_DAY: 'Setengah Hari'
+}
+
+const correctionSchema = z.object({
+  attendanceDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Tanggal wajib diisi'),
+  checkInTime: z.string().optional(),
+  checkOutTime: z.string().optional(),
+  status: z.string().optional(),
+  reason: z.string().min(10, 'Alasan minimal 10 karakter').max(500, 'Alasan maksimal 500 karakter'),
+  attachmentFile: z.string().max(500, 'Tautan lampiran terlalu panjang').optional()
+}).refine(data => data.checkInTime || data.checkOutTime || data.status, {
+  message: 'Isi minimal satu koreksi: jam masuk, jam pulang, atau status',
+  path: ['checkInTime']
+}).refine(data => data.status !== 'ABSENT' || (!data.checkInTime && !data.checkOutTime), {
+  message: 'Status tidak hadir tidak dapat disertai jam masuk/pulang',
+  path: ['status']
+})
+
+type CorrectionFormData = z.infer<typeof correctionSchema>
+
+interface AttendanceCorrectionFormProps {
+  defaultDate?: string // YYYY-MM-DD
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function AttendanceCorrectionForm({ defaultDate, onSuccess, onCancel }: AttendanceCorrectionFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<CorrectionFormData>({
+    resolver: zodResolver(correctionSchema),
+    defaultValues: {
+      attendanceDate: defaultDate || '',
+      checkInTime: '',
+      checkOutTime: '',
+      status: '',
+      reason: '',
+      attachmentFile: ''
+    }
+  })
+
+  const onSubmit = async (data: CorrectionFormData) => {
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/attendance/corrections', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(data)
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengajukan koreksi absensi')
+      }
+
+      toast.success('Pengajuan koreksi absensi berhasil dikirim')
+      onSuccess()
+    } catch (error) {
+      console.error('Error submitting attendance correction:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengajukan koreksi absensi')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="attendanceDate">Tanggal Absensi *</Label>
+          <Input
+            id="attendanceDate"
+            type="date"
+            {...register('attendanceDate')}
+            className={errors.attendanceDate ? 'border-red-500' : ''}
+          />
+          {errors.attendanceDate && (
+            <p className="text-sm text-red-600">{errors.attendanceDate.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="status">Status yang Benar</Label>
+          <select
+            id="status"
+            {...register('status')}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="">Tidak diubah</option>
+            {Object.entries(ATTENDANCE_STATUS_LABELS).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          {errors.status && (
+            <p className="text-sm text-red-600">{errors.status.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="checkInTime">Jam Masuk</Label>
+          <Input
+            id="checkInTime"
+            type="time"
+            {...register('checkInTime')}
+            className={errors.checkInTime ? 'border-red-500' : ''}
+          />
+          {errors.checkInTime && (
+            <p className="text-sm text-red-600">{errors.checkInTime.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="checkOutTime">Jam Pulang</Label>
+          <Input
+            id="checkOutTime"
+            type="time"
+            {...register('checkOutTime')}
+          />
+          <p className="text-xs text-muted-foreground">
+            Jam pulang sebelum jam masuk dianggap hari berikutnya (shift malam)
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reason">Alasan *</Label>
+        <Textarea
+          id="reason"
+          {...register('reason')}
+          placeholder="Contoh: Lupa melakukan absen pulang karena rapat di luar kantor"
+          rows={3}
+          className={errors.reason ? 'border-red-500' : ''}
+        />
+        {errors.reason && (
+          <p className="text-sm text-red-600">{errors.reason.message}</p>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="attachmentFile">Tautan Lampiran</Label>
+        <Input
+          id="attachmentFile"
+          {...register('attachmentFile')}
+          placeholder="Opsional, misalnya tautan foto atau dokumen pendukung"
+        />
+        {errors.attachmentFile && (
+          <p className="text-sm text-red-600">{errors.attachmentFile.message}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Kirim Pengajuan
+        </Button>
+      </div>
+    </form>
+  )
+}
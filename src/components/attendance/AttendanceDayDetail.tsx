@@ -0,0 +1,222 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE DAY DETAIL COMPONENT
+// src/components/attendance/AttendanceDayDetail.tsx
+// ============================================================================
+
+import Link from 'next/link'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Clock, MapPin, AlertTriangle, FileClock, CheckCircle, XCircle } from 'lucide-react'
+
+import { ATTENDANCE_STATUS_LABELS } from '@/components/attendance/AttendanceCorrectionForm'
+import { formatWorkingHours, getDisplayWorkingMinutes } from '@/utils/dateUtils'
+
+// Shape of a record returned by GET /api/attendance
+export interface AttendanceHistoryItem {
+  id: string
+  date: string // YYYY-MM-DD
+  status: 'PRESENT' | 'LATE' | 'ABSENT' | 'HALF_DAY'
+  workMode: 'OFFICE' | 'WFH' | 'FIELD_DUTY'
+  checkInTime?: string
+  checkOutTime?: string
+  workingHoursMinutes: number
+  breakMinutes: number
+  lateMinutes: number
+  isValidLocation: boolean
+  notes?: string
+  checkInAddress?: string
+  checkOutAddress?: string
+  officeLocation?: {
+    id: string
+    name: string
+    code: string
+    radiusMeters: number
+  }
+  checkInDistance?: number
+  checkOutDistance?: number
+  autoClosedAt?: string
+  workLetter?: {
+    id: string
+    letterNumber?: string
+    subject: string
+  }
+}
+
+export const ATTENDANCE_STATUS_STYLES: Record<AttendanceHistoryItem['status'], string> = {
+  PRESENT: 'bg-green-100 text-green-800 border-green-200',
+  LATE: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  ABSENT: 'bg-red-100 text-red-800 border-red-200',
+  HALF_DAY: 'bg-orange-100 text-orange-800 border-orange-200'
+}
+
+export const WORK_MODE_LABELS: Record<AttendanceHistoryItem['workMode'], string> = {
+  OFFICE: 'Kantor',
+  WFH: 'WFH',
+  FIELD_DUTY: 'Dinas Luar'
+}
+
+export const formatWorkLetter = (workLetter: NonNullable<AttendanceHistoryItem['workLetter']>) =>
+  workLetter.letterNumber ? `${workLetter.letterNumber} - ${workLetter.subject}` : workLetter.subject
+
+export const formatHistoryDate = (value: string) =>
+  new Date(`${value}T00:00:00.000Z`).toLocaleDateString('id-ID', {
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+
+export const formatHistoryTime = (value?: string) =>
+  value
+    ? new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+    : '-'
+
+export const formatDistance = (meters?: number) => {
+  if (meters === undefined) return '-'
+  return meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${meters} m`
+}
+
+export const getHistoryWorkingMinutes = (item: AttendanceHistoryItem) =>
+  getDisplayWorkingMinutes(item.checkInTime, item.checkOutTime, item.workingHoursMinutes)
+
+interface AttendanceDayDetailProps {
+  attendance: AttendanceHistoryItem | null
+  onClose: () => void
+}
+
+export function AttendanceDayDetail({ attendance, onClose }: AttendanceDayDetailProps) {
+  return (
+    <Dialog open={!!attendance} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        {attendance && (
+          <>
+            <DialogHeader>
+              <DialogTitle>{formatHistoryDate(attendance.date)}</DialogTitle>
+              <DialogDescription>Detail absensi harian</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Badge variant="outline" className={ATTENDANCE_STATUS_STYLES[attendance.status]}>
+                  {ATTENDANCE_STATUS_LABELS[attendance.status] || attendance.status}
+                </Badge>
+                {attendance.workMode !== 'OFFICE' && (
+                  <Badge variant="secondary">{WORK_MODE_LABELS[attendance.workMode]}</Badge>
+                )}
+                {attendance.lateMinutes > 0 && (
+                  <span className="text-sm text-yellow-700">Terlambat {attendance.lateMinutes} menit</span>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="rounded-md border p-3">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Jam Masuk
+                  </div>
+                  <div className="text-lg font-semibold">{formatHistoryTime(attendance.checkInTime)}</div>
+                  {attendance.checkInAddress && (
+                    <div className="text-xs text-muted-foreground mt-1">{attendance.checkInAddress}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Jarak: {formatDistance(attendance.checkInDistance)}
+                  </div>
+                </div>
+                <div className="rounded-md border p-3">
+                  <div className="flex items-center text-sm text-muted-foreground">
+                    <Clock className="h-4 w-4 mr-1" />
+                    Jam Pulang
+                  </div>
+                  <div className="text-lg font-semibold">{formatHistoryTime(attendance.checkOutTime)}</div>
+                  {attendance.checkOutAddress && (
+                    <div className="text-xs text-muted-foreground mt-1">{attendance.checkOutAddress}</div>
+                  )}
+                  <div className="text-xs text-muted-foreground mt-1">
+                    Jarak: {formatDistance(attendance.checkOutDistance)}
+                  </div>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Jam Kerja</span>
+                  <span className="font-medium">{formatWorkingHours(getHistoryWorkingMinutes(attendance))}</span>
+                </div>
+                {attendance.breakMinutes > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Istirahat</span>
+                    <span className="font-medium">{formatWorkingHours(attendance.breakMinutes)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground flex items-center">
+                    <MapPin className="h-4 w-4 mr-1" />
+                    Lokasi Kantor
+                  </span>
+                  <span className="font-medium">
+                    {attendance.officeLocation
+                      ? `${attendance.officeLocation.name} (radius ${attendance.officeLocation.radiusMeters} m)`
+                      : '-'}
+                  </span>
+                </div>
+                {attendance.workLetter && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Surat Tugas</span>
+                    <span className="font-medium text-right">{formatWorkLetter(attendance.workLetter)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Validitas Lokasi</span>
+                  {attendance.isValidLocation ? (
+                    <span className="flex items-center text-green-700">
+                      <CheckCircle className="h-4 w-4 mr-1" />
+                      Valid
+                    </span>
+                  ) : (
+                    <span className="flex items-center text-red-700">
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Di luar radius
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              {attendance.autoClosedAt && (
+                <div className="flex items-start rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                  <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 shrink-0" />
+                  Absen pulang tidak tercatat dan ditutup otomatis oleh sistem
+                </div>
+              )}
+
+              {attendance.notes && (
+                <div className="space-y-1">
+                  <div className="text-sm text-muted-foreground">Catatan</div>
+                  <div className="whitespace-pre-line rounded-md bg-muted p-3 text-sm">{attendance.notes}</div>
+                </div>
+              )}
+
+              <div className="flex justify-end">
+                <Button variant="outline" asChild>
+                  <Link href="/attendance/corrections">
+                    <FileClock className="h-4 w-4 mr-2" />
+                    Ajukan Koreksi
+                  </Link>
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,173 @@
+'use client'
+
+// ============================================================================
+// ATTENDANCE PUNCH PANEL COMPONENT
+// src/components/attendance/AttendancePunchPanel.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Coffee, Fingerprint, LogIn, Loader2, MapPin, PlayCircle } from 'lucide-react'
+import { toast } from 'sonner'
+
+import { formatDistance, formatHistoryTime } from '@/components/attendance/AttendanceDayDetail'
+import { formatWorkingHours } from '@/utils/dateUtils'
+import { getDeviceId } from '@/utils/deviceId'
+
+export type PunchTypeValue = 'IN' | 'OUT' | 'BREAK_START' | 'BREAK_END'
+
+// Shape returned by GET /api/attendance/punches
+export interface AttendancePunchesData {
+  attendanceId?: string
+  attendanceDate: string
+  punches: {
+    id: string
+    punchType: PunchTypeValue
+    punchTime: string
+    address?: string
+    distanceMeters?: number
+    isValidLocation: boolean
+    source: 'APP' | 'FINGERPRINT'
+  }[]
+  state: 'NOT_STARTED' | 'WORKING' | 'ON_BREAK' | 'OUT'
+  allowedPunches: PunchTypeValue[]
+  workingMinutes: number
+  breakMinutes: number
+}
+
+export const PUNCH_TYPE_LABELS: Record<PunchTypeValue, string> = {
+  IN: 'Masuk',
+  OUT: 'Keluar',
+  BREAK_START: 'Mulai Istirahat',
+  BREAK_END: 'Selesai Istirahat'
+}
+
+const PUNCH_STATE_LABELS: Record<AttendancePunchesData['state'], string> = {
+  NOT_STARTED: 'Belum masuk',
+  WORKING: 'Sedang bekerja',
+  ON_BREAK: 'Sedang istirahat',
+  OUT: 'Di luar kantor'
+}
+
+// Punches recorded from this panel; the first IN and OUT use check-in / check-out
+const PANEL_ACTIONS: { punchType: PunchTypeValue; label: string; icon: typeof Coffee }[] = [
+  { punchType: 'BREAK_START', label: 'Mulai Istirahat', icon: Coffee },
+  { punchType: 'BREAK_END', label: 'Selesai Istirahat', icon: PlayCircle },
+  { punchType: 'IN', label: 'Masuk Kembali', icon: LogIn }
+]
+
+interface AttendancePunchPanelProps {
+  data: AttendancePunchesData
+  onPunched: () => void
+}
+
+export function AttendancePunchPanel({ data, onPunched }: AttendancePunchPanelProps) {
+  const [submitting, setSubmitting] = useState<PunchTypeValue | null>(null)
+
+  const actions = data.state === 'NOT_STARTED'
+    ? []
+    : PANEL_ACTIONS.filter(action => data.allowedPunches.includes(action.punchType))
+
+  const handlePunch = async (punchType: PunchTypeValue) => {
+    try {
+      setSubmitting(punchType)
+
+      const position = await new Promise<GeolocationPosition>((resolve, reject) => {
+        navigator.geolocation.getCurrentPosition(resolve, reject, {
+          enableHighAccuracy: true,
+          timeout: 15000,
+          maximumAge: 30000
+        })
+      })
+
+      const response = await fetch('/api/attendance/punches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          punchType,
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          accuracy: position.coords.accuracy,
+          altitude: position.coords.altitude,
+          timestamp: position.timestamp,
+          deviceId: getDeviceId()
+        })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mencatat absensi')
+      }
+
+      toast.success(`${PUNCH_TYPE_LABELS[punchType]} berhasil dicatat`)
+      onPunched()
+    } catch (error) {
+      console.error('Error recording punch:', error)
+      const message = error instanceof GeolocationPositionError
+        ? 'Tidak dapat mendapatkan lokasi. Pastikan izin lokasi aktif.'
+        : error instanceof Error ? error.message : 'Gagal mencatat absensi'
+      toast.error(message)
+    } finally {
+      setSubmitting(null)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center gap-2 text-sm">
+          <Badge variant="outline">{PUNCH_STATE_LABELS[data.state]}</Badge>
+          <span className="text-muted-foreground">
+            Istirahat: {formatWorkingHours(data.breakMinutes)}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          {actions.map(action => {
+            const Icon = action.icon
+            return (
+              <Button
+                key={action.punchType}
+                variant="outline"
+                size="sm"
+                disabled={submitting !== null}
+                onClick={() => handlePunch(action.punchType)}
+              >
+                {submitting === action.punchType ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Icon className="h-4 w-4 mr-2" />
+                )}
+                {action.label}
+              </Button>
+            )
+          })}
+        </div>
+      </div>
+
+      {data.punches.length > 0 && (
+        <div className="divide-y rounded-md border">
+          {data.punches.map(punch => (
+            <div key={punch.id} className="flex items-center justify-between p-3 text-sm">
+              <div className="flex items-center gap-3">
+                <span className="font-medium tabular-nums">{formatHistoryTime(punch.punchTime)}</span>
+                <span>{PUNCH_TYPE_LABELS[punch.punchType]}</span>
+              </div>
+              {punch.source === 'FINGERPRINT' ? (
+                <span className="flex items-center text-muted-foreground">
+                  <Fingerprint className="h-4 w-4 mr-1" />
+                  Mesin fingerprint
+                </span>
+              ) : (
+                <span className={`flex items-center ${punch.isValidLocation ? 'text-muted-foreground' : 'text-red-600'}`}>
+                  <MapPin className="h-4 w-4 mr-1" />
+                  {formatDistance(punch.distanceMeters)}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
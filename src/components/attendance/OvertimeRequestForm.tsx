@@ -0,0 +1,189 @@
+'use client'
+
+// ============================================================================
+// OVERTIME REQUEST FORM COMPONENT
+// src/components/attendance/OvertimeRequestForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const overtimeSchema = z.object({
+  userId: z.string().optional(),
+  overtimeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Tanggal wajib diisi'),
+  startTime: z.string().regex(/^\d{2}:\d{2}$/, 'Jam mulai wajib diisi'),
+  endTime: z.string().regex(/^\d{2}:\d{2}$/, 'Jam selesai wajib diisi'),
+  reason: z.string().min(10, 'Uraian minimal 10 karakter').max(500, 'Uraian maksimal 500 karakter')
+})
+
+type OvertimeFormData = z.infer<typeof overtimeSchema>
+
+export interface OvertimeTeamMember {
+  id: string
+  name?: string
+  nip?: string
+  departmentName?: string
+}
+
+interface OvertimeRequestFormProps {
+  teamMembers: OvertimeTeamMember[] // Employees the current user heads; empty for regular employees
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function OvertimeRequestForm({ teamMembers, onSuccess, onCancel }: OvertimeRequestFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<OvertimeFormData>({
+    resolver: zodResolver(overtimeSchema),
+    defaultValues: {
+      userId: '',
+      overtimeDate: '',
+      startTime: '',
+      endTime: '',
+      reason: ''
+    }
+  })
+
+  const onSubmit = async (data: OvertimeFormData) => {
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/overtime', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          ...data,
+          userId: data.userId || undefined
+        })
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengajukan lembur')
+      }
+
+      toast.success('Pengajuan lembur berhasil dikirim')
+      onSuccess()
+    } catch (error) {
+      console.error('Error submitting overtime request:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengajukan lembur')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      {teamMembers.length > 0 && (
+        <div className="space-y-2">
+          <Label htmlFor="userId">Pegawai</Label>
+          <select
+            id="userId"
+            {...register('userId')}
+            className="flex h-9 w-full rounded-md border border-input bg-transparent px-3 py-1 text-sm shadow-sm"
+          >
+            <option value="">Saya sendiri</option>
+            {teamMembers.map(member => (
+              <option key={member.id} value={member.id}>
+                {member.name || '-'}{member.nip ? ` (${member.nip})` : ''}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-muted-foreground">
+            Sebagai kepala unit, Anda dapat mengajukan lembur untuk anggota unit
+          </p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="space-y-2">
+          <Label htmlFor="overtimeDate">Tanggal *</Label>
+          <Input
+            id="overtimeDate"
+            type="date"
+            {...register('overtimeDate')}
+            className={errors.overtimeDate ? 'border-red-500' : ''}
+          />
+          {errors.overtimeDate && (
+            <p className="text-sm text-red-600">{errors.overtimeDate.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="startTime">Jam Mulai *</Label>
+          <Input
+            id="startTime"
+            type="time"
+            {...register('startTime')}
+            className={errors.startTime ? 'border-red-500' : ''}
+          />
+          {errors.startTime && (
+            <p className="text-sm text-red-600">{errors.startTime.message}</p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="endTime">Jam Selesai *</Label>
+          <Input
+            id="endTime"
+            type="time"
+            {...register('endTime')}
+            className={errors.endTime ? 'border-red-500' : ''}
+          />
+          {errors.endTime && (
+            <p className="text-sm text-red-600">{errors.endTime.message}</p>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Rentang lembur harus berada di antara absen masuk dan absen pulang yang tercatat, di luar jam kerja terjadwal.
+        Jam selesai sebelum jam mulai dianggap hari berikutnya.
+      </p>
+
+      <div className="space-y-2">
+        <Label htmlFor="reason">Uraian Pekerjaan *</Label>
+        <Textarea
+          id="reason"
+          {...register('reason')}
+          placeholder="Contoh: Menyelesaikan laporan pertanggungjawaban anggaran triwulan III"
+          rows={3}
+          className={errors.reason ? 'border-red-500' : ''}
+        />
+        {errors.reason && (
+          <p className="text-sm text-red-600">{errors.reason.message}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Kirim Pengajuan
+        </Button>
+      </div>
+    </form>
+  )
+}
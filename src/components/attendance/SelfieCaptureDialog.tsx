@@ -0,0 +1,132 @@
+'use client'
+
+// ============================================================================
+// SELFIE CAPTURE DIALOG COMPONENT
+// src/components/attendance/SelfieCaptureDialog.tsx
+// ============================================================================
+
+import { useEffect, useRef, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { Camera, Loader2, RotateCcw } from 'lucide-react'
+
+// Keeps the upload well below the server's 2 MB limit
+const MAX_PHOTO_WIDTH = 640
+const PHOTO_QUALITY = 0.8
+
+interface SelfieCaptureDialogProps {
+  open: boolean
+  title: string
+  onCapture: (photo: string) => void // JPEG data URL
+  onCancel: () => void
+}
+
+export function SelfieCaptureDialog({ open, title, onCapture, onCancel }: SelfieCaptureDialogProps) {
+  const videoRef = useRef<HTMLVideoElement>(null)
+  const [stream, setStream] = useState<MediaStream | null>(null)
+  const [photo, setPhoto] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) {
+      setPhoto(null)
+      setError(null)
+      return
+    }
+
+    let active = true
+    let cameraStream: MediaStream | null = null
+
+    navigator.mediaDevices?.getUserMedia({ video: { facingMode: 'user' }, audio: false })
+      .then((mediaStream) => {
+        if (!active) {
+          mediaStream.getTracks().forEach(track => track.stop())
+          return
+        }
+        cameraStream = mediaStream
+        setStream(mediaStream)
+      })
+      .catch((cameraError) => {
+        console.error('Error opening camera:', cameraError)
+        setError('Tidak dapat membuka kamera. Pastikan izin kamera aktif.')
+      })
+
+    return () => {
+      active = false
+      cameraStream?.getTracks().forEach(track => track.stop())
+      setStream(null)
+    }
+  }, [open])
+
+  useEffect(() => {
+    if (videoRef.current && stream) {
+      videoRef.current.srcObject = stream
+    }
+  }, [stream, photo])
+
+  const capture = () => {
+    const video = videoRef.current
+    if (!video || !video.videoWidth) return
+
+    const scale = Math.min(1, MAX_PHOTO_WIDTH / video.videoWidth)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(video.videoWidth * scale)
+    canvas.height = Math.round(video.videoHeight * scale)
+    canvas.getContext('2d')?.drawImage(video, 0, 0, canvas.width, canvas.height)
+    setPhoto(canvas.toDataURL('image/jpeg', PHOTO_QUALITY))
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            Lokasi ini mewajibkan foto wajah saat absensi. Pastikan wajah terlihat jelas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-hidden rounded-md bg-black aspect-[4/3] flex items-center justify-center">
+          {error ? (
+            <p className="p-4 text-sm text-white text-center">{error}</p>
+          ) : photo ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={photo} alt="Foto absensi" className="h-full w-full object-cover" />
+          ) : stream ? (
+            <video ref={videoRef} autoPlay playsInline muted className="h-full w-full object-cover -scale-x-100" />
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-white" />
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-2">
+          <Button variant="outline" onClick={onCancel}>
+            Batal
+          </Button>
+          {photo ? (
+            <>
+              <Button variant="outline" onClick={() => setPhoto(null)}>
+                <RotateCcw className="h-4 w-4 mr-2" />
+                Ulangi
+              </Button>
+              <Button onClick={() => onCapture(photo)}>
+                Kirim
+              </Button>
+            </>
+          ) : (
+            <Button onClick={capture} disabled={!stream}>
+              <Camera className="h-4 w-4 mr-2" />
+              Ambil Foto
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,122 @@
+'use client'
+
+// ============================================================================
+// WORK FROM HOME REQUEST FORM COMPONENT
+// src/components/attendance/WorkFromHomeRequestForm.tsx
+// ============================================================================
+
+import { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Loader2 } from 'lucide-react'
+import { toast } from 'sonner'
+
+const workFromHomeSchema = z.object({
+  wfhDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Tanggal wajib diisi'),
+  reason: z.string().min(10, 'Alasan minimal 10 karakter').max(500, 'Alasan maksimal 500 karakter')
+})
+
+type WorkFromHomeFormData = z.infer<typeof workFromHomeSchema>
+
+interface WorkFromHomeRequestFormProps {
+  onSuccess: () => void
+  onCancel?: () => void
+}
+
+export function WorkFromHomeRequestForm({ onSuccess, onCancel }: WorkFromHomeRequestFormProps) {
+  const [loading, setLoading] = useState(false)
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors }
+  } = useForm<WorkFromHomeFormData>({
+    resolver: zodResolver(workFromHomeSchema),
+    defaultValues: {
+      wfhDate: '',
+      reason: ''
+    }
+  })
+
+  const onSubmit = async (data: WorkFromHomeFormData) => {
+    try {
+      setLoading(true)
+
+      const response = await fetch('/api/wfh-requests', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(data)
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Gagal mengajukan WFH')
+      }
+
+      toast.success('Pengajuan WFH berhasil dikirim')
+      onSuccess()
+    } catch (error) {
+      console.error('Error submitting work from home request:', error)
+      toast.error(error instanceof Error ? error.message : 'Gagal mengajukan WFH')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="wfhDate">Tanggal *</Label>
+        <Input
+          id="wfhDate"
+          type="date"
+          {...register('wfhDate')}
+          className={errors.wfhDate ? 'border-red-500' : ''}
+        />
+        {errors.wfhDate && (
+          <p className="text-sm text-red-600">{errors.wfhDate.message}</p>
+        )}
+        <p className="text-xs text-muted-foreground">
+          Pada tanggal yang disetujui, absen masuk dapat dilakukan dari lokasi rumah yang telah disetujui admin.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="reason">Alasan *</Label>
+        <Textarea
+          id="reason"
+          {...register('reason')}
+          placeholder="Contoh: Menyusun draf peraturan yang membutuhkan konsentrasi penuh"
+          rows={3}
+          className={errors.reason ? 'border-red-500' : ''}
+        />
+        {errors.reason && (
+          <p className="text-sm text-red-600">{errors.reason.message}</p>
+        )}
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3 sm:justify-end pt-2">
+        <Button
+          type="button"
+          variant="outline"
+          onClick={onCancel || onSuccess}
+          disabled={loading}
+        >
+          Batal
+        </Button>
+        <Button type="submit" disabled={loading} className="min-w-[120px]">
+          {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Kirim Pengajuan
+        </Button>
+      </div>
+    </form>
+  )
+}
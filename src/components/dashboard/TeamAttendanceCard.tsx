@@ -0,0 +1,92 @@
+// ============================================================================
+// TEAM ATTENDANCE CARD COMPONENT
+// src/components/dashboard/TeamAttendanceCard.tsx
+// ============================================================================
+
+'use client'
+
+import { Users, Camera } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { TeamMemberAttendance } from '@/types/domain'
+import { AttendanceStatus } from '@prisma/client'
+
+interface TeamAttendanceCardProps {
+  teamAttendance: TeamMemberAttendance[]
+  className?: string
+}
+
+const STATUS_LABELS: Record<AttendanceStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  [AttendanceStatus.PRESENT]: { label: 'Hadir', variant: 'default' },
+  [AttendanceStatus.LATE]: { label: 'Terlambat', variant: 'secondary' },
+  [AttendanceStatus.ABSENT]: { label: 'Tidak Hadir', variant: 'destructive' },
+  [AttendanceStatus.HALF_DAY]: { label: 'Setengah Hari', variant: 'outline' }
+}
+
+const formatTime = (value?: Date | string) =>
+  value
+    ? new Date(value).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+    : '-'
+
+// Photo URLs are signed and expire shortly, so they are only rendered, never cached
+function PhotoThumbnail({ url, label }: { url?: string; label: string }) {
+  if (!url) {
+    return (
+      <div className="h-10 w-10 rounded-md bg-muted flex items-center justify-center" title={`Tanpa foto ${label}`}>
+        <Camera className="h-4 w-4 text-muted-foreground" />
+      </div>
+    )
+  }
+
+  return (
+    <a href={url} target="_blank" rel="noopener noreferrer" title={`Foto ${label}`}>
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      <img src={url} alt={`Foto ${label}`} className="h-10 w-10 rounded-md object-cover" />
+    </a>
+  )
+}
+
+export default function TeamAttendanceCard({ teamAttendance, className }: TeamAttendanceCardProps) {
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Users className="h-5 w-5" />
+          <span>Kehadiran Tim Hari Ini</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {teamAttendance.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            Belum ada anggota tim yang absen hari ini
+          </p>
+        ) : (
+          <ScrollArea className="h-[320px] pr-4">
+            <div className="space-y-3">
+              {teamAttendance.map((member) => {
+                const status = STATUS_LABELS[member.status]
+                return (
+                  <div key={member.userId} className="flex items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-1">
+                      <p className="text-sm font-medium">{member.name}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Masuk {formatTime(member.checkInTime)} · Pulang {formatTime(member.checkOutTime)}
+                        {member.location && ` · ${member.location}`}
+                      </p>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <PhotoThumbnail url={member.checkInPhotoUrl} label="masuk" />
+                      <PhotoThumbnail url={member.checkOutPhotoUrl} label="pulang" />
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </ScrollArea>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
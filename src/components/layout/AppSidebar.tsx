@@ -20,7 +20,17 @@ import {
     ChevronRight,
     LogOut,
     User,
-    Bell
+    Bell,
+    CalendarDays,
+    CalendarClock,
+    ClipboardList,
+    Timer,
+    Home,
+    Briefcase,
+    Building,
+    MapPinned,
+    CalendarCheck,
+    ReceiptText
 } from 'lucide-react'
 
 import {
@@ -72,6 +82,30 @@ export function AppSidebar() {
                     href: '/attendance/history',
                     current: pathname === '/attendance/history',
                     show: true
+                },
+                {
+                    title: 'Koreksi Absensi',
+                    href: '/attendance/corrections',
+                    current: pathname === '/attendance/corrections',
+                    show: true
+                },
+                {
+                    title: 'Lembur',
+                    href: '/attendance/overtime',
+                    current: pathname === '/attendance/overtime',
+                    show: true
+                },
+                {
+                    title: 'Kerja dari Rumah',
+                    href: '/attendance/wfh',
+                    current: pathname === '/attendance/wfh',
+                    show: true
+                },
+                {
+                    title: 'Tinjauan Absensi',
+                    href: '/attendance/reviews',
+                    current: pathname === '/attendance/reviews',
+                    show: true
                 }
             ]
         },
@@ -138,6 +172,76 @@ export function AppSidebar() {
             icon: MapPin,
             current: pathname.startsWith('/admin/office-locations'),
             show: hasRole('SUPER_ADMIN')
+        },
+        {
+            title: 'Hari Libur',
+            href: '/admin/holidays',
+            icon: CalendarDays,
+            current: pathname.startsWith('/admin/holidays'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Shift & Roster',
+            href: '/admin/shifts',
+            icon: CalendarClock,
+            current: pathname.startsWith('/admin/shifts'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Data Absensi',
+            href: '/admin/attendance',
+            icon: ClipboardList,
+            current: pathname === '/admin/attendance' || pathname.startsWith('/admin/attendance/'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Rekap Absensi',
+            href: '/admin/attendance-recap',
+            icon: CalendarCheck,
+            current: pathname.startsWith('/admin/attendance-recap'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Rekap Lembur',
+            href: '/admin/overtime',
+            icon: Timer,
+            current: pathname.startsWith('/admin/overtime'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Potongan TPP',
+            href: '/admin/tpp',
+            icon: ReceiptText,
+            current: pathname.startsWith('/admin/tpp'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Lokasi WFH',
+            href: '/admin/remote-work',
+            icon: Home,
+            current: pathname.startsWith('/admin/remote-work'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Dinas Luar',
+            href: '/admin/field-duty',
+            icon: Briefcase,
+            current: pathname.startsWith('/admin/field-duty'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Penugasan Kantor',
+            href: '/admin/office-assignments',
+            icon: Building,
+            current: pathname.startsWith('/admin/office-assignments'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
+        },
+        {
+            title: 'Area Lokasi',
+            href: '/admin/named-areas',
+            icon: MapPinned,
+            current: pathname.startsWith('/admin/named-areas'),
+            show: hasRole('SUPER_ADMIN') || hasRole('HR_ADMIN')
         }
     ]
 
@@ -0,0 +1,111 @@
+// ============================================================================
+// ATTENDANCE CORRECTION REPOSITORY INTERFACE
+// src/domain/repositories/IAttendanceCorrectionRepository.ts
+// ============================================================================
+
+import { ApprovalStatus, AttendanceStatus, RequestStatus } from '@prisma/client'
+
+export interface AttendanceCorrectionEntity {
+  id: string
+  userId: string
+  attendanceId?: string // Attendance row that existed when the request was submitted
+  attendanceDate: Date
+  requestedCheckInTime?: Date
+  requestedCheckOutTime?: Date
+  requestedStatus?: AttendanceStatus
+  reason: string
+  attachmentFile?: string
+  status: RequestStatus
+  currentApproverId?: string
+  rejectionReason?: string
+  submittedAt: Date
+  approvedAt?: Date
+  rejectedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface AttendanceCorrectionApproval {
+  id: string
+  approverId: string
+  approverName?: string
+  stepOrder: number
+  status: ApprovalStatus
+  comments?: string
+  approvedAt?: Date
+  rejectedAt?: Date
+}
+
+export interface AttendanceCorrectionWithDetails extends AttendanceCorrectionEntity {
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+  approvals: AttendanceCorrectionApproval[]
+}
+
+export interface CreateAttendanceCorrectionData {
+  userId: string
+  attendanceId?: string
+  attendanceDate: Date
+  requestedCheckInTime?: Date
+  requestedCheckOutTime?: Date
+  requestedStatus?: AttendanceStatus
+  reason: string
+  attachmentFile?: string
+  approverId: string // Approver of the first step
+}
+
+export interface AttendanceCorrectionFilters {
+  userId?: string
+  currentApproverId?: string
+  status?: RequestStatus
+  startDate?: Date
+  endDate?: Date
+}
+
+export interface CorrectionApprover {
+  id: string
+  name?: string
+  departmentId: string
+}
+
+export interface IAttendanceCorrectionRepository {
+  findById(id: string): Promise<AttendanceCorrectionWithDetails | null>
+  findMany(filters: AttendanceCorrectionFilters, limit?: number, offset?: number): Promise<AttendanceCorrectionWithDetails[]>
+  countMany(filters: AttendanceCorrectionFilters): Promise<number>
+  hasPendingRequest(userId: string, attendanceDate: Date): Promise<boolean>
+
+  /**
+   * Create a correction request together with the pending Approval of its first step
+   */
+  create(data: CreateAttendanceCorrectionData): Promise<AttendanceCorrectionWithDetails>
+
+  /**
+   * Approve the current step; hands the request to the next approver when one is given,
+   * otherwise marks the request as approved
+   */
+  approveStep(id: string, approverId: string, comments?: string, nextApproverId?: string): Promise<AttendanceCorrectionWithDetails>
+
+  /**
+   * Reject the current step, which rejects the whole request
+   */
+  rejectStep(id: string, approverId: string, reason: string): Promise<AttendanceCorrectionWithDetails>
+
+  cancel(id: string): Promise<AttendanceCorrectionWithDetails>
+
+  /**
+   * Heads of the user's department and its parent departments, nearest first
+   * The user is never their own approver
+   */
+  findApproverChain(userId: string): Promise<CorrectionApprover[]>
+}
@@ -0,0 +1,40 @@
+// ============================================================================
+// ATTENDANCE IMPORT BATCH REPOSITORY INTERFACE
+// src/domain/repositories/IAttendanceImportBatchRepository.ts
+// ============================================================================
+
+export interface AttendanceImportBatchEntity {
+  id: string
+  fileName: string
+  rowCount: number // Data rows in the file
+  createdCount: number
+  importedById: string
+  undoneAt?: Date
+  undoneById?: string
+  undoneCount: number // Attendances deleted by the undo
+  createdAt: Date
+}
+
+export interface AttendanceImportBatchWithUsers extends AttendanceImportBatchEntity {
+  importedBy: { id: string; name?: string }
+  undoneBy?: { id: string; name?: string }
+  remainingCount: number // Attendances still linked to the batch
+}
+
+export interface CreateAttendanceImportBatchData {
+  fileName: string
+  rowCount: number
+  createdCount: number
+  importedById: string
+}
+
+export interface IAttendanceImportBatchRepository {
+  findById(id: string): Promise<AttendanceImportBatchEntity | null>
+  create(data: CreateAttendanceImportBatchData): Promise<AttendanceImportBatchEntity>
+  updateCreatedCount(id: string, createdCount: number): Promise<AttendanceImportBatchEntity>
+  markUndone(id: string, undoneById: string, undoneCount: number): Promise<AttendanceImportBatchEntity>
+
+  // Newest first
+  findMany(limit?: number, offset?: number): Promise<AttendanceImportBatchWithUsers[]>
+  count(): Promise<number>
+}
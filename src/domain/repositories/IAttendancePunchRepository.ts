@@ -0,0 +1,62 @@
+// ============================================================================
+// ATTENDANCE PUNCH REPOSITORY INTERFACE
+// src/domain/repositories/IAttendancePunchRepository.ts
+// ============================================================================
+
+import { PunchSource, PunchType } from '@prisma/client'
+
+export interface AttendancePunchEntity {
+  id: string
+  attendanceId: string
+  userId: string
+  attendanceDate: Date
+  punchType: PunchType
+  punchTime: Date
+  latitude?: number
+  longitude?: number
+  address?: string
+  officeLocationId?: string
+  distanceMeters?: number // Distance from the validated office in meters
+  isValidLocation: boolean
+  accuracyMeters?: number // Accuracy reported by the device
+  altitudeMeters?: number
+  fixTime?: Date // When the device took the position fix
+  deviceId?: string
+  syncedAt?: Date // Set when captured offline; punchTime is the capture time
+  source: PunchSource
+  sourceReference?: string // Terminal serial or file name of imported punches
+  createdAt: Date
+}
+
+export interface CreateAttendancePunchData {
+  attendanceId: string
+  userId: string
+  attendanceDate: Date // Same business date as the attendance row
+  punchType: PunchType
+  punchTime: Date
+  latitude?: number
+  longitude?: number
+  address?: string
+  officeLocationId?: string
+  distanceMeters?: number
+  isValidLocation?: boolean
+  accuracyMeters?: number
+  altitudeMeters?: number
+  fixTime?: Date
+  deviceId?: string
+  syncedAt?: Date
+  source?: PunchSource // APP when omitted
+  sourceReference?: string
+}
+
+// Punches are append-only: there is no update or delete
+export interface IAttendancePunchRepository {
+  findByAttendance(attendanceId: string): Promise<AttendancePunchEntity[]> // Ordered by punch time
+  findLatestByAttendance(attendanceId: string): Promise<AttendancePunchEntity | null>
+  create(data: CreateAttendancePunchData): Promise<AttendancePunchEntity>
+
+  // Fraud-signal lookups
+  findLatestWithCoordinatesByUser(userId: string): Promise<AttendancePunchEntity | null>
+  existsAtCoordinatesOnOtherDate(userId: string, latitude: number, longitude: number, attendanceDate: Date): Promise<boolean>
+  findOtherUserIdsByDevice(deviceId: string, userId: string, since: Date): Promise<string[]>
+}
@@ -3,7 +3,8 @@
 // src/domain/repositories/IAttendanceRepository.ts
 // ============================================================================
 
-import { AttendanceStatus } from '@prisma/client'
+import { AttendanceReviewStatus, AttendanceStatus, WorkMode } from '@prisma/client'
+import { FraudSignal } from '@/domain/services/IFraudDetectionService'
 
 export interface AttendanceEntity {
   id: string
@@ -18,10 +19,33 @@ export interface AttendanceEntity {
   checkOutLongitude?: number
   checkInAddress?: string
   checkOutAddress?: string
+  checkInAccuracy?: number // Accuracy reported by the device, in meters
+  checkInAltitude?: number
+  checkInFixTime?: Date // When the device took the position fix
+  checkOutAccuracy?: number
+  checkOutAltitude?: number
+  checkOutFixTime?: Date
+  checkInPhotoPath?: string // Object path in the attendance photo bucket
+  checkOutPhotoPath?: string
+  checkInSyncedAt?: Date // Set when the check-in was captured offline and synced late
+  checkOutSyncedAt?: Date
   status: AttendanceStatus
+  workMode: WorkMode // WFH when checked in from the approved home location
+  workLetterId?: string // Work letter of a field duty (dinas luar) day
   notes?: string
-  workingHoursMinutes: number
+  workingHoursMinutes: number // Net of breaks when punches are recorded
+  breakMinutes: number
+  lateMinutes: number
+  shiftId?: string // Shift the attendance was attributed to, if rostered
   isValidLocation: boolean
+  autoClosedAt?: Date // Set when the close-out job handled a missing check-out
+  fraudScore: number // Highest fraud-signal score of the day's submissions
+  fraudSignals?: FraudSignal[]
+  reviewStatus?: AttendanceReviewStatus // Set when flagged for supervisor review
+  reviewerId?: string
+  reviewedAt?: Date
+  reviewNotes?: string
+  importBatchId?: string // Bulk import the row was created by
   createdAt: Date
   updatedAt: Date
 }
@@ -38,21 +62,62 @@ export interface CreateAttendanceData {
   checkOutLongitude?: number
   checkInAddress?: string
   checkOutAddress?: string
+  checkInAccuracy?: number
+  checkInAltitude?: number
+  checkInFixTime?: Date
+  checkInPhotoPath?: string
+  checkInSyncedAt?: Date
   status?: AttendanceStatus
+  workMode?: WorkMode
+  workLetterId?: string
   notes?: string
   workingHoursMinutes?: number
+  lateMinutes?: number
+  shiftId?: string
   isValidLocation?: boolean
+  fraudScore?: number
+  fraudSignals?: FraudSignal[]
+  reviewStatus?: AttendanceReviewStatus
+  reviewerId?: string
+  importBatchId?: string
 }
 
 export interface UpdateAttendanceData {
-  checkOutTime?: Date
+  officeLocationId?: string | null
+  checkInTime?: Date | null // null clears the value (admin edits)
+  checkOutTime?: Date | null
+  checkInLatitude?: number // Check-in fields are set when a check-in replaces an automatic absence
+  checkInLongitude?: number
+  checkInAddress?: string // Filled by the address backfill job
+  checkInAccuracy?: number
+  checkInAltitude?: number
+  checkInFixTime?: Date
+  checkInPhotoPath?: string
+  checkInSyncedAt?: Date
   checkOutLatitude?: number
   checkOutLongitude?: number
   checkOutAddress?: string
+  checkOutAccuracy?: number
+  checkOutAltitude?: number
+  checkOutFixTime?: Date
+  checkOutPhotoPath?: string
+  checkOutSyncedAt?: Date
   status?: AttendanceStatus
-  notes?: string
+  workMode?: WorkMode
+  workLetterId?: string | null
+  notes?: string | null
   workingHoursMinutes?: number
+  breakMinutes?: number
+  lateMinutes?: number
+  shiftId?: string | null
   isValidLocation?: boolean
+  autoClosedAt?: Date | null // null when a recorded check-out replaces the automatic one
+  fraudScore?: number
+  fraudSignals?: FraudSignal[]
+  reviewStatus?: AttendanceReviewStatus
+  reviewerId?: string | null
+  reviewedAt?: Date
+  reviewNotes?: string
 }
 
 export interface AttendanceFilters {
@@ -62,6 +127,8 @@ export interface AttendanceFilters {
   startDate?: Date
   endDate?: Date
   isValidLocation?: boolean
+  reviewStatus?: AttendanceReviewStatus
+  reviewerId?: string
 }
 
 export interface AttendanceWithUser extends AttendanceEntity {
@@ -74,6 +141,11 @@ export interface AttendanceWithUser extends AttendanceEntity {
       name: string
     }
   }
+  workLetter?: {
+    id: string
+    letterNumber?: string
+    subject: string
+  } | null
 }
 
 export interface IAttendanceRepository {
@@ -111,6 +183,27 @@ export interface IAttendanceRepository {
   findTodayAttendance(userId: string): Promise<AttendanceEntity | null>
   hasCheckedIn(userId: string, date: Date): Promise<boolean>
   hasCheckedOut(userId: string, date: Date): Promise<boolean>
+
+  /**
+   * Attendances within a date range that have a check-in but no check-out
+   * and have not been handled by the close-out job yet
+   */
+  findOpenInRange(startDate: Date, endDate: Date): Promise<AttendanceEntity[]>
+
+  /**
+   * Attendances within a date range with check-in or check-out coordinates but
+   * no address, ordered by ID; afterId continues after the previous batch
+   */
+  findMissingAddresses(startDate: Date, endDate: Date, limit: number, afterId?: string): Promise<AttendanceEntity[]>
+
+  // Attendances created by a bulk import batch, for undoing it
+  findByImportBatch(batchId: string): Promise<AttendanceEntity[]>
+
+  /**
+   * Supervisors who review the user's flagged attendance: heads of the user's
+   * department and its parent departments, nearest first
+   */
+  findReviewerChain(userId: string): Promise<{ id: string; name?: string }[]>
   
   // Working hours calculations
   calculateWorkingHours(checkInTime: Date, checkOutTime: Date): number
@@ -0,0 +1,76 @@
+// ============================================================================
+// HOLIDAY REPOSITORY INTERFACE
+// src/domain/repositories/IHolidayRepository.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+
+export interface HolidayEntity {
+  id: string
+  date: Date
+  name: string
+  type: HolidayType
+  description?: string
+  officeLocationId?: string // Only set for regional holidays
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface HolidayWithLocation extends HolidayEntity {
+  officeLocation?: {
+    id: string
+    name: string
+    code: string
+  }
+}
+
+export interface CreateHolidayData {
+  date: Date
+  name: string
+  type?: HolidayType
+  description?: string
+  officeLocationId?: string
+  isActive?: boolean
+}
+
+export interface UpdateHolidayData {
+  date?: Date
+  name?: string
+  type?: HolidayType
+  description?: string
+  officeLocationId?: string | null
+  isActive?: boolean
+}
+
+export interface HolidayFilters {
+  year?: number
+  startDate?: Date
+  endDate?: Date
+  type?: HolidayType
+  officeLocationId?: string
+  isActive?: boolean
+  search?: string
+}
+
+export interface IHolidayRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<HolidayWithLocation | null>
+  create(data: CreateHolidayData): Promise<HolidayEntity>
+  update(id: string, data: UpdateHolidayData): Promise<HolidayEntity>
+  delete(id: string): Promise<void>
+
+  // Query operations
+  findMany(filters: HolidayFilters, limit?: number, offset?: number): Promise<HolidayWithLocation[]>
+  countMany(filters: HolidayFilters): Promise<number>
+
+  /**
+   * Active holidays that apply within a date range.
+   * Holidays without office location apply everywhere; when officeLocationId is
+   * given, regional holidays of that office are included as well.
+   */
+  findApplicable(startDate: Date, endDate: Date, officeLocationId?: string): Promise<HolidayEntity[]>
+
+  // Import helpers
+  findDuplicate(date: Date, name: string, officeLocationId?: string, excludeId?: string): Promise<HolidayEntity | null>
+}
@@ -11,7 +11,7 @@ export interface LeaveRequestEntity {
   leaveType: LeaveType
   startDate: Date
   endDate: Date
-  totalDays: number
+  totalDays: number // Work days in range, computed by the repository (weekends and holidays excluded)
   reason: string
   description?: string
   attachmentFile?: string
@@ -30,7 +30,6 @@ export interface CreateLeaveRequestData {
   leaveType: LeaveType
   startDate: Date
   endDate: Date
-  totalDays: number
   reason: string
   description?: string
   attachmentFile?: string
@@ -41,7 +40,6 @@ export interface UpdateLeaveRequestData {
   leaveType?: LeaveType
   startDate?: Date
   endDate?: Date
-  totalDays?: number
   reason?: string
   description?: string
   attachmentFile?: string
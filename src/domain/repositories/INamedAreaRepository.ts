@@ -0,0 +1,52 @@
+// ============================================================================
+// NAMED AREA REPOSITORY INTERFACE
+// src/domain/repositories/INamedAreaRepository.ts
+// ============================================================================
+
+export interface NamedAreaEntity {
+  id: string
+  name: string
+  latitude: number
+  longitude: number
+  radiusMeters: number
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateNamedAreaData {
+  name: string
+  latitude: number
+  longitude: number
+  radiusMeters?: number
+  isActive?: boolean
+}
+
+export interface UpdateNamedAreaData {
+  name?: string
+  latitude?: number
+  longitude?: number
+  radiusMeters?: number
+  isActive?: boolean
+}
+
+export interface NamedAreaFilters {
+  search?: string
+  isActive?: boolean
+}
+
+export interface INamedAreaRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<NamedAreaEntity | null>
+  create(data: CreateNamedAreaData): Promise<NamedAreaEntity>
+  update(id: string, data: UpdateNamedAreaData): Promise<NamedAreaEntity>
+  delete(id: string): Promise<void>
+
+  // Query operations
+  findMany(filters: NamedAreaFilters, limit?: number, offset?: number): Promise<NamedAreaEntity[]>
+  countMany(filters: NamedAreaFilters): Promise<number>
+  findActive(): Promise<NamedAreaEntity[]>
+
+  // Validation helpers
+  isNameUnique(name: string, excludeId?: string): Promise<boolean>
+}
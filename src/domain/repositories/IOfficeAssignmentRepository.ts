@@ -0,0 +1,68 @@
+// ============================================================================
+// OFFICE ASSIGNMENT REPOSITORY INTERFACE
+// src/domain/repositories/IOfficeAssignmentRepository.ts
+// ============================================================================
+
+import { DayOfWeek } from '@prisma/client'
+
+export interface OfficeAssignment {
+  officeLocationId: string
+  officeLocationName: string
+  officeLocationCode: string
+  daysOfWeek: DayOfWeek[]
+}
+
+// Assigned offices of an employee, including the offices set on their work schedule
+export interface OfficeAssignmentProfile {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  assignments: OfficeAssignment[]
+  scheduledOffices: {
+    dayOfWeek: DayOfWeek
+    officeLocationId: string
+    officeLocationName: string
+  }[]
+}
+
+export interface OfficeAssignmentFilters {
+  search?: string // Name or NIP
+  departmentId?: string
+  officeLocationId?: string
+  unassigned?: boolean // Neither an assignment nor an office on the work schedule
+}
+
+export type OfficeAssignmentMode = 'ADD' | 'REPLACE'
+
+export interface IOfficeAssignmentRepository {
+  /**
+   * Offices the user is assigned to on a weekday
+   */
+  findByUserAndDay(userId: string, dayOfWeek: DayOfWeek): Promise<OfficeAssignment[]>
+
+  /**
+   * Assignment profiles of active employees, ordered by name
+   */
+  findMany(filters: OfficeAssignmentFilters, limit?: number, offset?: number): Promise<OfficeAssignmentProfile[]>
+  countMany(filters: OfficeAssignmentFilters): Promise<number>
+
+  /**
+   * IDs of active employees of the given departments
+   */
+  findActiveUserIdsByDepartments(departmentIds: string[]): Promise<string[]>
+
+  /**
+   * Assign an office to users on the given weekdays
+   * Assigning an office a user already has overwrites its weekdays; REPLACE first
+   * removes the users' other assignments.
+   * @returns Number of users assigned
+   */
+  assign(userIds: string[], officeLocationId: string, daysOfWeek: DayOfWeek[], mode: OfficeAssignmentMode): Promise<number>
+
+  /**
+   * Remove one office, or all offices when none is given, from users
+   * @returns Number of assignments removed
+   */
+  unassign(userIds: string[], officeLocationId?: string): Promise<number>
+}
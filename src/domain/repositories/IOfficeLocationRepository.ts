@@ -3,6 +3,9 @@
 // src/domain/repositories/IOfficeLocationRepository.ts
 // ============================================================================
 
+import { KioskMode } from '@prisma/client'
+import { OfficeBoundary } from '@/utils/geofence'
+
 export interface OfficeLocationEntity {
   id: string
   name: string
@@ -11,6 +14,13 @@ export interface OfficeLocationEntity {
   latitude: number
   longitude: number
   radiusMeters: number
+  boundary?: OfficeBoundary // Validated with point-in-polygon instead of the radius when set
+  boundaryBufferMeters: number
+  toleranceMeters: number // Added to the radius or boundary buffer to absorb GPS drift
+  maxAccuracyMeters: number // Position fixes less accurate than this must be retried
+  requirePhoto: boolean // Check-in/out at this location requires a selfie photo
+  kioskMode: KioskMode // Whether the office's QR kiosk can prove presence
+  kioskKey?: string // Secret in the kiosk page URL
   isActive: boolean
   createdAt: Date
   updatedAt: Date
@@ -23,6 +33,13 @@ export interface CreateOfficeLocationData {
   latitude: number
   longitude: number
   radiusMeters?: number
+  boundary?: OfficeBoundary
+  boundaryBufferMeters?: number
+  toleranceMeters?: number
+  maxAccuracyMeters?: number
+  requirePhoto?: boolean
+  kioskMode?: KioskMode
+  kioskKey?: string
   isActive?: boolean
 }
 
@@ -33,6 +50,13 @@ export interface UpdateOfficeLocationData {
   latitude?: number
   longitude?: number
   radiusMeters?: number
+  boundary?: OfficeBoundary | null // null removes the boundary
+  boundaryBufferMeters?: number
+  toleranceMeters?: number
+  maxAccuracyMeters?: number
+  requirePhoto?: boolean
+  kioskMode?: KioskMode
+  kioskKey?: string
   isActive?: boolean
 }
 
@@ -59,7 +83,6 @@ export interface IOfficeLocationRepository {
   countMany(filters: OfficeLocationFilters): Promise<number>
   
   // Location validation operations
-  findNearbyLocations(latitude: number, longitude: number, radiusMeters?: number): Promise<OfficeLocationEntity[]>
   isLocationWithinRadius(latitude: number, longitude: number, officeLocationId: string): Promise<boolean>
   
   // Validation helpers
@@ -0,0 +1,143 @@
+// ============================================================================
+// OVERTIME REQUEST REPOSITORY INTERFACE
+// src/domain/repositories/IOvertimeRequestRepository.ts
+// ============================================================================
+
+import { ApprovalStatus, RequestStatus } from '@prisma/client'
+
+export interface OvertimeRequestEntity {
+  id: string
+  userId: string
+  submittedById: string // Differs from userId when a supervisor filed the request
+  attendanceId?: string
+  overtimeDate: Date
+  startTime: Date
+  endTime: Date
+  isWorkingDay: boolean
+  requestedMinutes: number
+  approvedMinutes?: number // Set on final approval
+  reason: string
+  status: RequestStatus
+  currentApproverId?: string
+  rejectionReason?: string
+  submittedAt: Date
+  approvedAt?: Date
+  rejectedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface OvertimeRequestApproval {
+  id: string
+  approverId: string
+  approverName?: string
+  stepOrder: number
+  status: ApprovalStatus
+  comments?: string
+  approvedAt?: Date
+  rejectedAt?: Date
+}
+
+export interface OvertimeRequestWithDetails extends OvertimeRequestEntity {
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  submittedBy: {
+    id: string
+    name?: string
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+  approvals: OvertimeRequestApproval[]
+}
+
+export interface CreateOvertimeRequestData {
+  userId: string
+  submittedById: string
+  attendanceId?: string
+  overtimeDate: Date
+  startTime: Date
+  endTime: Date
+  isWorkingDay: boolean
+  requestedMinutes: number
+  reason: string
+  approverId: string // Approver of the first step
+}
+
+export interface OvertimeRequestFilters {
+  userId?: string
+  requesterId?: string // Requests of this user or filed by them for someone else
+  currentApproverId?: string
+  departmentId?: string
+  status?: RequestStatus
+  startDate?: Date
+  endDate?: Date
+}
+
+export interface OvertimeApprover {
+  id: string
+  name?: string
+  departmentId: string
+}
+
+export interface OvertimeTeamMember {
+  id: string
+  name?: string
+  nip?: string
+  departmentName?: string
+}
+
+export interface IOvertimeRequestRepository {
+  findById(id: string): Promise<OvertimeRequestWithDetails | null>
+  findMany(filters: OvertimeRequestFilters, limit?: number, offset?: number): Promise<OvertimeRequestWithDetails[]>
+  countMany(filters: OvertimeRequestFilters): Promise<number>
+
+  /**
+   * Whether a pending or approved request of the user overlaps the given range
+   */
+  hasOverlappingRequest(userId: string, startTime: Date, endTime: Date): Promise<boolean>
+
+  /**
+   * Create an overtime request together with the pending Approval of its first step
+   */
+  create(data: CreateOvertimeRequestData): Promise<OvertimeRequestWithDetails>
+
+  /**
+   * Approve the current step; hands the request to the next approver when one is given,
+   * otherwise marks the request as approved with the approved minutes
+   */
+  approveStep(
+    id: string,
+    approverId: string,
+    comments?: string,
+    nextApproverId?: string,
+    approvedMinutes?: number
+  ): Promise<OvertimeRequestWithDetails>
+
+  /**
+   * Reject the current step, which rejects the whole request
+   */
+  rejectStep(id: string, approverId: string, reason: string): Promise<OvertimeRequestWithDetails>
+
+  cancel(id: string): Promise<OvertimeRequestWithDetails>
+
+  /**
+   * Heads of the user's department and its parent departments, nearest first
+   * The user is never their own approver
+   */
+  findApproverChain(userId: string): Promise<OvertimeApprover[]>
+
+  /**
+   * Active employees of the departments headed by the user, including sub-departments
+   * These are the employees a supervisor may file overtime for
+   */
+  findTeamMembers(headUserId: string): Promise<OvertimeTeamMember[]>
+}
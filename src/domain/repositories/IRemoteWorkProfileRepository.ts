@@ -0,0 +1,50 @@
+// ============================================================================
+// REMOTE WORK PROFILE REPOSITORY INTERFACE
+// src/domain/repositories/IRemoteWorkProfileRepository.ts
+// ============================================================================
+
+import { DayOfWeek } from '@prisma/client'
+
+// Home location and weekly WFH days of an employee
+export interface RemoteWorkProfile {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  homeLatitude?: number
+  homeLongitude?: number
+  homeRadiusMeters: number
+  homeLocationApprovedAt?: Date // Unset while the home location waits for approval
+  homeLocationApprovedBy?: {
+    id: string
+    name?: string
+  }
+  wfhDays: DayOfWeek[]
+}
+
+export interface RemoteWorkProfileFilters {
+  search?: string // Name or NIP
+  departmentId?: string
+  awaitingApproval?: boolean // Home location set but not approved
+}
+
+export interface UpdateRemoteWorkProfileData {
+  homeLatitude?: number | null // null clears the home location
+  homeLongitude?: number | null
+  homeRadiusMeters?: number
+  homeLocationApprovedAt?: Date | null
+  homeLocationApprovedById?: string | null
+  wfhDays?: DayOfWeek[]
+}
+
+export interface IRemoteWorkProfileRepository {
+  findByUserId(userId: string): Promise<RemoteWorkProfile | null>
+
+  /**
+   * Profiles of active employees, ordered by name
+   */
+  findMany(filters: RemoteWorkProfileFilters, limit?: number, offset?: number): Promise<RemoteWorkProfile[]>
+  countMany(filters: RemoteWorkProfileFilters): Promise<number>
+
+  update(userId: string, data: UpdateRemoteWorkProfileData): Promise<RemoteWorkProfile>
+}
@@ -0,0 +1,60 @@
+// ============================================================================
+// SHIFT REPOSITORY INTERFACE
+// src/domain/repositories/IShiftRepository.ts
+// ============================================================================
+
+export interface ShiftEntity {
+  id: string
+  name: string
+  code: string
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+  isOvernight: boolean // endTime falls on the next calendar day
+  lateToleranceMinutes?: number
+  description?: string
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateShiftData {
+  name: string
+  code: string
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+  lateToleranceMinutes?: number
+  description?: string
+  isActive?: boolean
+}
+
+export interface UpdateShiftData {
+  name?: string
+  code?: string
+  startTime?: string
+  endTime?: string
+  lateToleranceMinutes?: number | null
+  description?: string
+  isActive?: boolean
+}
+
+export interface ShiftFilters {
+  isActive?: boolean
+  search?: string
+}
+
+export interface IShiftRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<ShiftEntity | null>
+  findByCode(code: string): Promise<ShiftEntity | null>
+  create(data: CreateShiftData): Promise<ShiftEntity>
+  update(id: string, data: UpdateShiftData): Promise<ShiftEntity>
+  delete(id: string): Promise<void>
+
+  // Query operations
+  findMany(filters: ShiftFilters): Promise<ShiftEntity[]>
+  findByIds(ids: string[]): Promise<ShiftEntity[]>
+
+  // Validation operations
+  isCodeUnique(code: string, excludeId?: string): Promise<boolean>
+  countUsage(id: string): Promise<{ attendances: number; rosters: number }>
+}
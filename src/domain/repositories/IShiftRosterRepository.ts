@@ -0,0 +1,58 @@
+// ============================================================================
+// SHIFT ROSTER REPOSITORY INTERFACE
+// src/domain/repositories/IShiftRosterRepository.ts
+// ============================================================================
+
+import { ShiftEntity } from './IShiftRepository'
+
+export interface ShiftRosterEntity {
+  id: string
+  userId: string
+  shiftId?: string // undefined marks a rostered day off
+  date: Date // Business date the shift starts on
+  notes?: string
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ShiftRosterWithDetails extends ShiftRosterEntity {
+  shift?: ShiftEntity
+  user: {
+    id: string
+    name?: string
+    nip?: string
+  }
+}
+
+export interface UpsertShiftRosterData {
+  userId: string
+  shiftId: string | null
+  date: Date
+  notes?: string
+}
+
+export interface ShiftRosterFilters {
+  userId?: string
+  userIds?: string[]
+  shiftId?: string
+  departmentId?: string
+  startDate?: Date
+  endDate?: Date
+}
+
+export interface IShiftRosterRepository {
+  findByUserAndDate(userId: string, date: Date): Promise<(ShiftRosterEntity & { shift?: ShiftEntity }) | null>
+  findMany(filters: ShiftRosterFilters): Promise<ShiftRosterWithDetails[]>
+
+  /**
+   * Create or replace roster entries; (userId, date) is unique
+   * @returns Number of entries written
+   */
+  upsertMany(entries: UpsertShiftRosterData[]): Promise<number>
+
+  /**
+   * Remove roster entries of the given users within a date range
+   * @returns Number of entries removed
+   */
+  deleteRange(userIds: string[], startDate: Date, endDate: Date): Promise<number>
+}
@@ -0,0 +1,22 @@
+// ============================================================================
+// SYSTEM SETTING REPOSITORY INTERFACE
+// src/domain/repositories/ISystemSettingRepository.ts
+// ============================================================================
+
+export interface SystemSettingEntity {
+  id: string
+  key: string
+  value?: string
+  description?: string
+  dataType: string
+  category: string
+  isEditable: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface ISystemSettingRepository {
+  findByKey(key: string): Promise<SystemSettingEntity | null>
+  findByKeys(keys: string[]): Promise<SystemSettingEntity[]>
+  findByCategory(category: string): Promise<SystemSettingEntity[]>
+}
@@ -0,0 +1,62 @@
+// ============================================================================
+// TPP DEDUCTION RULE REPOSITORY INTERFACE
+// src/domain/repositories/ITppDeductionRuleRepository.ts
+// ============================================================================
+
+import { TppDeductionCategory } from '@prisma/client'
+
+export interface TppDeductionRuleEntity {
+  id: string
+  code: string
+  category: TppDeductionCategory
+  minMinutes: number
+  maxMinutes?: number // Undefined = no upper bound
+  percentage: number
+  description?: string
+  appliesToMissingPunch: boolean
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface CreateTppDeductionRuleData {
+  code: string
+  category: TppDeductionCategory
+  minMinutes: number
+  maxMinutes?: number | null
+  percentage: number
+  description?: string
+  appliesToMissingPunch?: boolean
+  isActive?: boolean
+}
+
+export interface UpdateTppDeductionRuleData {
+  code?: string
+  category?: TppDeductionCategory
+  minMinutes?: number
+  maxMinutes?: number | null // null removes the upper bound
+  percentage?: number
+  description?: string | null
+  appliesToMissingPunch?: boolean
+  isActive?: boolean
+}
+
+export interface TppDeductionRuleFilters {
+  category?: TppDeductionCategory
+  isActive?: boolean
+}
+
+export interface ITppDeductionRuleRepository {
+  // Basic CRUD operations
+  findById(id: string): Promise<TppDeductionRuleEntity | null>
+  create(data: CreateTppDeductionRuleData): Promise<TppDeductionRuleEntity>
+  update(id: string, data: UpdateTppDeductionRuleData): Promise<TppDeductionRuleEntity>
+  delete(id: string): Promise<void>
+
+  // Query operations, ordered by category then lowest tier first
+  findMany(filters: TppDeductionRuleFilters): Promise<TppDeductionRuleEntity[]>
+  findActive(): Promise<TppDeductionRuleEntity[]>
+
+  // Validation helpers
+  isCodeUnique(code: string, excludeId?: string): Promise<boolean>
+}
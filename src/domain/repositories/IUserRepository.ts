@@ -34,6 +34,7 @@ export interface IUserRepository {
   findById(id: string): Promise<UserEntity | null>;
   findByEmail(email: string): Promise<UserEntity | null>;
   findByNIP(nip: string): Promise<UserEntity | null>;
+  findByNIPs(nips: string[]): Promise<UserEntity[]>;
   findByPhone(phone: string): Promise<UserEntity | null>;
   create(user: UserEntity): Promise<UserEntity>;
   update(user: UserEntity): Promise<UserEntity>;
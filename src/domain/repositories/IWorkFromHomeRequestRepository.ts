@@ -0,0 +1,115 @@
+// ============================================================================
+// WORK FROM HOME REQUEST REPOSITORY INTERFACE
+// src/domain/repositories/IWorkFromHomeRequestRepository.ts
+// ============================================================================
+
+import { ApprovalStatus, RequestStatus } from '@prisma/client'
+
+export interface WorkFromHomeRequestEntity {
+  id: string
+  userId: string
+  wfhDate: Date
+  reason: string
+  status: RequestStatus
+  currentApproverId?: string
+  rejectionReason?: string
+  submittedAt: Date
+  approvedAt?: Date
+  rejectedAt?: Date
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface WorkFromHomeRequestApproval {
+  id: string
+  approverId: string
+  approverName?: string
+  stepOrder: number
+  status: ApprovalStatus
+  comments?: string
+  approvedAt?: Date
+  rejectedAt?: Date
+}
+
+export interface WorkFromHomeRequestWithDetails extends WorkFromHomeRequestEntity {
+  user: {
+    id: string
+    name?: string
+    nip?: string
+    department?: {
+      id: string
+      name: string
+    }
+  }
+  currentApprover?: {
+    id: string
+    name?: string
+  }
+  approvals: WorkFromHomeRequestApproval[]
+}
+
+export interface CreateWorkFromHomeRequestData {
+  userId: string
+  wfhDate: Date
+  reason: string
+  approverId: string // Approver of the first step
+}
+
+export interface WorkFromHomeRequestFilters {
+  userId?: string
+  currentApproverId?: string
+  status?: RequestStatus
+  startDate?: Date
+  endDate?: Date
+}
+
+export interface WorkFromHomeApprover {
+  id: string
+  name?: string
+  departmentId: string
+}
+
+export interface IWorkFromHomeRequestRepository {
+  findById(id: string): Promise<WorkFromHomeRequestWithDetails | null>
+  findMany(filters: WorkFromHomeRequestFilters, limit?: number, offset?: number): Promise<WorkFromHomeRequestWithDetails[]>
+  countMany(filters: WorkFromHomeRequestFilters): Promise<number>
+
+  /**
+   * Whether the user has a pending or approved request for the date
+   */
+  hasActiveRequest(userId: string, wfhDate: Date): Promise<boolean>
+
+  /**
+   * Whether the user has an approved request for the date
+   */
+  hasApprovedRequest(userId: string, wfhDate: Date): Promise<boolean>
+
+  /**
+   * Create a work from home request together with the pending Approval of its first step
+   */
+  create(data: CreateWorkFromHomeRequestData): Promise<WorkFromHomeRequestWithDetails>
+
+  /**
+   * Approve the current step; hands the request to the next approver when one is given,
+   * otherwise marks the request as approved
+   */
+  approveStep(
+    id: string,
+    approverId: string,
+    comments?: string,
+    nextApproverId?: string
+  ): Promise<WorkFromHomeRequestWithDetails>
+
+  /**
+   * Reject the current step, which rejects the whole request
+   */
+  rejectStep(id: string, approverId: string, reason: string): Promise<WorkFromHomeRequestWithDetails>
+
+  cancel(id: string): Promise<WorkFromHomeRequestWithDetails>
+
+  /**
+   * Heads of the user's department and its parent departments, nearest first
+   * The user is never their own approver
+   */
+  findApproverChain(userId: string): Promise<WorkFromHomeApprover[]>
+}
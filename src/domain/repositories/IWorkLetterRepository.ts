@@ -8,12 +8,15 @@ import { WorkLetterType, RequestStatus } from '@prisma/client'
 export interface WorkLetterEntity {
   id: string
   userId: string
-  letterNumber?: string
+  letterNumber?: string // Assigned when the letter is issued
   workLetterType: WorkLetterType
-  purpose: string
-  destination: string
+  purpose: string // Letter subject
+  destination: string // Field duty destination name, empty when not set
+  destinationLatitude?: number
+  destinationLongitude?: number
+  destinationRadiusMeters: number
   startDate: Date
-  endDate: Date
+  endDate: Date // Same as startDate for a single-day letter
   description?: string
   attachmentFile?: string
   status: RequestStatus
@@ -22,7 +25,6 @@ export interface WorkLetterEntity {
   submittedAt: Date
   approvedAt?: Date
   rejectedAt?: Date
-  issuedAt?: Date
   createdAt: Date
   updatedAt: Date
 }
@@ -53,7 +55,6 @@ export interface UpdateWorkLetterData {
   rejectionReason?: string
   approvedAt?: Date
   rejectedAt?: Date
-  issuedAt?: Date
 }
 
 export interface WorkLetterFilters {
@@ -83,6 +84,36 @@ export interface WorkLetterWithUser extends WorkLetterEntity {
   }
 }
 
+// Approved travel / assignment letter, as used to record field duty (dinas luar) attendance
+export interface FieldDutyLetter {
+  id: string
+  userId: string
+  letterType: WorkLetterType
+  letterNumber?: string
+  subject: string
+  effectiveDate: Date
+  expiryDate?: Date
+  destinationName?: string
+  destinationLatitude?: number
+  destinationLongitude?: number
+  destinationRadiusMeters: number
+}
+
+export interface FieldDutyLetterWithUser extends FieldDutyLetter {
+  user: {
+    id: string
+    name?: string
+    nip?: string
+  }
+}
+
+export interface UpdateFieldDutyDestinationData {
+  destinationName: string | null // null clears the destination
+  destinationLatitude: number | null
+  destinationLongitude: number | null
+  destinationRadiusMeters?: number
+}
+
 export interface IWorkLetterRepository {
   // Basic CRUD operations
   findById(id: string): Promise<WorkLetterEntity | null>
@@ -133,6 +164,21 @@ export interface IWorkLetterRepository {
   findActiveWorkLettersByDate(date: Date): Promise<WorkLetterWithUser[]>
   findUpcomingWorkLetters(userId: string, days: number): Promise<WorkLetterEntity[]>
 
+  // Field duty (dinas luar) attendance
+  findFieldDutyLetterById(id: string): Promise<FieldDutyLetterWithUser | null>
+  /**
+   * Approved travel / assignment letter of a user covering a date
+   * A letter without expiry date only covers its effective date.
+   */
+  findActiveFieldDutyLetter(userId: string, date: Date): Promise<FieldDutyLetter | null>
+  findActiveFieldDutyLettersByDate(date: Date): Promise<FieldDutyLetter[]>
+  /**
+   * Approved travel / assignment letters that have not ended before a date, earliest first
+   */
+  findFieldDutyLetters(fromDate: Date, limit?: number, offset?: number): Promise<FieldDutyLetterWithUser[]>
+  countFieldDutyLetters(fromDate: Date): Promise<number>
+  updateDestination(id: string, data: UpdateFieldDutyDestinationData): Promise<FieldDutyLetterWithUser>
+
   // Conflict detection
   hasConflictingWorkLetter(userId: string, startDate: Date, endDate: Date, excludeId?: string): Promise<boolean>
   findConflictingWorkLetters(userId: string, startDate: Date, endDate: Date): Promise<WorkLetterEntity[]>
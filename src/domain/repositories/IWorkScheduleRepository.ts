@@ -0,0 +1,25 @@
+// ============================================================================
+// WORK SCHEDULE REPOSITORY INTERFACE
+// src/domain/repositories/IWorkScheduleRepository.ts
+// ============================================================================
+
+import { DayOfWeek } from '@prisma/client'
+
+export interface WorkScheduleEntity {
+  id: string
+  userId: string
+  officeLocationId?: string
+  dayOfWeek: DayOfWeek
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+}
+
+export interface IWorkScheduleRepository {
+  findById(id: string): Promise<WorkScheduleEntity | null>
+  findByUserId(userId: string): Promise<WorkScheduleEntity[]>
+  findByUserIds(userIds: string[]): Promise<WorkScheduleEntity[]>
+  findByUserAndDay(userId: string, dayOfWeek: DayOfWeek): Promise<WorkScheduleEntity | null>
+}
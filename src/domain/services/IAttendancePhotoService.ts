@@ -0,0 +1,39 @@
+// ============================================================================
+// ATTENDANCE PHOTO SERVICE INTERFACE
+// src/domain/services/IAttendancePhotoService.ts
+// ============================================================================
+
+import { PunchType } from '@prisma/client'
+
+export interface AttendancePhoto {
+  data: Buffer
+  contentType: string // image/jpeg, image/png or image/webp
+}
+
+export interface IAttendancePhotoService {
+  /**
+   * Whether a check-in/out must include a photo
+   * Required when either the office location or the user's role requires it.
+   * @param userId User checking in or out
+   * @param officeLocationId Office the submission was validated against, if any
+   * @returns True if the submission must include a photo
+   */
+  isPhotoRequired(userId: string, officeLocationId?: string): Promise<boolean>
+
+  /**
+   * Store a check-in/out photo
+   * @param userId Owner of the attendance
+   * @param attendanceDate Business date of the attendance
+   * @param punchType IN for check-in, OUT for check-out
+   * @param photo Captured image
+   * @returns Path to save on the attendance row
+   */
+  savePhoto(userId: string, attendanceDate: Date, punchType: PunchType, photo: AttendancePhoto): Promise<string>
+
+  /**
+   * Create a short-lived URL for a stored photo
+   * @param path Path saved on the attendance row
+   * @returns Signed URL, or null when the URL cannot be created
+   */
+  getPhotoUrl(path: string): Promise<string | null>
+}
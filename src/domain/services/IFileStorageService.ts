@@ -0,0 +1,36 @@
+// ============================================================================
+// FILE STORAGE SERVICE INTERFACE
+// src/domain/services/IFileStorageService.ts
+// ============================================================================
+
+export interface StoredFile {
+  path: string // Object path within the bucket
+}
+
+export interface IFileStorageService {
+  /**
+   * Store a file, failing when the path already exists
+   * @param bucket Bucket name
+   * @param path Object path within the bucket
+   * @param data File contents
+   * @param contentType MIME type of the file
+   * @returns Stored object path
+   */
+  upload(bucket: string, path: string, data: Buffer, contentType: string): Promise<StoredFile>
+
+  /**
+   * Create a time-limited URL for a private file
+   * @param bucket Bucket name
+   * @param path Object path within the bucket
+   * @param expiresIn Validity in seconds (default: 3600)
+   * @returns URL the browser can load directly
+   */
+  getSignedUrl(bucket: string, path: string, expiresIn?: number): Promise<string>
+
+  /**
+   * Delete a stored file
+   * @param bucket Bucket name
+   * @param path Object path within the bucket
+   */
+  delete(bucket: string, path: string): Promise<void>
+}
@@ -0,0 +1,77 @@
+// ============================================================================
+// FRAUD DETECTION SERVICE INTERFACE
+// src/domain/services/IFraudDetectionService.ts
+// ============================================================================
+
+import { AttendanceReviewStatus, PunchType } from '@prisma/client'
+
+export type FraudSignalCode =
+  | 'REUSED_COORDINATES' // Exactly the same coordinates as on another day
+  | 'IMPOSSIBLE_TRAVEL' // Faster than plausible since the previous punch
+  | 'PERFECT_ACCURACY' // Reported accuracy better than real GPS receivers achieve
+  | 'OFFICE_CENTER' // Coordinates exactly at the office's registered center
+  | 'SHARED_DEVICE' // Device also used by other employees recently
+  | 'DELAYED_SYNC' // Captured offline and synced well after the punch time it claims
+  | 'BACKDATED_ON_TIME' // On time by the offline capture time, late by the time it was synced
+
+export interface FraudSignal {
+  code: FraudSignalCode
+  weight: number // Contribution to the submission's score
+  message: string // Explanation for the reviewer, in Indonesian
+  punchType: PunchType // Submission the signal was raised on
+  detectedAt: string // ISO timestamp
+}
+
+export interface FraudAssessmentInput {
+  userId: string
+  attendanceDate: Date
+  punchType: PunchType
+  punchTime: Date // Capture time for punches queued offline
+  latitude?: number // Coordinate signals are skipped without a position
+  longitude?: number
+  accuracyMeters?: number
+  deviceId?: string
+  officeLocationId?: string // Office the submission was validated against
+  syncedAt?: Date // Set when the punch was captured offline
+  lateMinutes?: number // Check-ins: lateness at punchTime
+  lateMinutesAtSync?: number // Check-ins: lateness had the check-in been made at syncedAt
+}
+
+export interface FraudAssessment {
+  score: number // Sum of the signal weights
+  signals: FraudSignal[]
+  requiresReview: boolean // Score reached the review threshold
+}
+
+// Attendance fields to write when a submission raised signals
+export interface FraudFlagData {
+  fraudScore: number
+  fraudSignals: FraudSignal[]
+  reviewStatus?: AttendanceReviewStatus
+  reviewerId?: string
+}
+
+export interface IFraudDetectionService {
+  /**
+   * Score a check-in, check-out or punch submission for signs of location spoofing
+   * The submission is never rejected here; callers flag the attendance instead.
+   * @param input Submitted coordinates, device details and context
+   * @returns Score, raised signals and whether the attendance needs review
+   */
+  assess(input: FraudAssessmentInput): Promise<FraudAssessment>
+
+  /**
+   * Merge an assessment into the attendance's existing fraud data
+   * Signals accumulate over the day; the attendance is queued for the user's
+   * supervisor when the assessment requires review, including after being cleared.
+   * @param userId Owner of the attendance
+   * @param assessment Assessment of the new submission
+   * @param current Fraud data already on the attendance, if any
+   * @returns Data to write, or null when the submission raised no signals
+   */
+  buildFlagData(
+    userId: string,
+    assessment: FraudAssessment,
+    current?: { fraudScore: number; fraudSignals?: FraudSignal[]; reviewStatus?: AttendanceReviewStatus }
+  ): Promise<FraudFlagData | null>
+}
@@ -0,0 +1,34 @@
+// ============================================================================
+// GEOCODING SERVICE INTERFACE
+// src/domain/services/IGeocodingService.ts
+// ============================================================================
+
+// Where an address came from: the geocoder, its cache, or the offline labels
+export type GeocodeSource = 'PROVIDER' | 'CACHE' | 'NAMED_AREA' | 'OFFICE_LOCATION'
+
+export interface ReverseGeocodeResult {
+  address: string
+  source: GeocodeSource
+  provider?: string // Geocoder that produced a PROVIDER/CACHE address
+}
+
+export interface IReverseGeocodingProvider {
+  readonly name: string
+
+  /**
+   * Look up a human-readable address for coordinates
+   * @returns The address, or null when the provider has no answer
+   * @throws When the provider is unreachable or times out
+   */
+  reverse(latitude: number, longitude: number): Promise<string | null>
+}
+
+export interface IGeocodingService {
+  /**
+   * Human-readable place for coordinates
+   * Asks the configured provider (through the cache) first and falls back to
+   * labelling the point by named areas and office locations.
+   * @returns The address, or null when nothing is known about the place
+   */
+  reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null>
+}
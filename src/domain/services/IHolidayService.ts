@@ -0,0 +1,34 @@
+// ============================================================================
+// HOLIDAY SERVICE INTERFACE
+// src/domain/services/IHolidayService.ts
+// ============================================================================
+
+import { HolidayEntity } from '@/domain/repositories/IHolidayRepository'
+
+export interface IHolidayService {
+  /**
+   * Get the holidays (national, cuti bersama, regional) that apply within a date range
+   * @param startDate Start of range (attendance date)
+   * @param endDate End of range (attendance date)
+   * @param officeLocationId Include regional holidays of this office location
+   * @returns Active holidays ordered by date
+   */
+  getHolidays(startDate: Date, endDate: Date, officeLocationId?: string): Promise<HolidayEntity[]>
+
+  /**
+   * Find the holiday that falls on a date, if any
+   * @param date Attendance date
+   * @param officeLocationId Include regional holidays of this office location
+   * @returns Holiday or null when the date is not a holiday
+   */
+  findHoliday(date: Date, officeLocationId?: string): Promise<HolidayEntity | null>
+
+  /**
+   * Count working days in a range, excluding weekends and holidays
+   * @param startDate Start of range (attendance date)
+   * @param endDate End of range (attendance date)
+   * @param officeLocationId Include regional holidays of this office location
+   * @returns Number of working days
+   */
+  countWorkDays(startDate: Date, endDate: Date, officeLocationId?: string): Promise<number>
+}
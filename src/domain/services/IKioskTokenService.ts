@@ -0,0 +1,73 @@
+// ============================================================================
+// KIOSK TOKEN SERVICE INTERFACE
+// src/domain/services/IKioskTokenService.ts
+// ============================================================================
+
+import { KioskMode } from '@prisma/client'
+
+export interface KioskToken {
+  token: string
+  expiresAt: Date
+  refreshAfterSeconds: number // When the kiosk should show the next token
+}
+
+export interface KioskTokenVerification {
+  isValid: boolean
+  tokenId?: string
+  kioskId?: string
+  officeLocation?: {
+    id: string
+    name: string
+    code: string
+    kioskMode: KioskMode
+  }
+  errorMessage?: string // In Indonesian
+}
+
+export interface KioskScanData {
+  tokenId: string
+  officeLocationId: string
+  kioskId?: string
+  userId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface IKioskTokenService {
+  /**
+   * Issue the next QR token for an office's kiosk
+   * @param officeLocationId Office the kiosk stands in
+   * @param kioskKey Secret from the kiosk page URL
+   * @param kioskId Device ID of the kiosk, recorded with each scan
+   * @returns Signed token, or null when the key is wrong or the kiosk is disabled
+   */
+  issueToken(officeLocationId: string, kioskKey: string, kioskId?: string): Promise<KioskToken | null>
+
+  /**
+   * Check a scanned token's signature, expiry and office
+   * Does not consume the token; see recordScan.
+   * @param token Token from the QR code
+   * @returns Verification result with the kiosk's office
+   */
+  verifyToken(token: string): Promise<KioskTokenVerification>
+
+  /**
+   * Consume a verified token for a user
+   * @param data Token and scanner details for the audit trail
+   * @returns Scan ID, or null when the user already used this token
+   */
+  recordScan(data: KioskScanData): Promise<string | null>
+
+  /**
+   * Give back a token consumed by a check-in that failed to save
+   * @param scanId ID returned by recordScan
+   */
+  releaseScan(scanId: string): Promise<void>
+
+  /**
+   * Link a scan to the attendance it checked in to
+   * @param scanId ID returned by recordScan
+   * @param attendanceId Created attendance
+   */
+  linkScanToAttendance(scanId: string, attendanceId: string): Promise<void>
+}
@@ -3,11 +3,30 @@
 // src/domain/services/ILocationValidationService.ts
 // ============================================================================
 
+import { OfficeLocationEntity } from '@/domain/repositories/IOfficeLocationRepository'
+
+export type GeofenceType = 'RADIUS' | 'POLYGON'
+
 export interface LocationCoordinates {
   latitude: number
   longitude: number
 }
 
+// Approved home location of an employee working from home
+export interface HomeLocation {
+  latitude: number
+  longitude: number
+  radiusMeters: number
+}
+
+// Destination captured on a field duty (dinas luar) work letter
+export interface FieldDutyDestination {
+  name: string
+  latitude: number
+  longitude: number
+  radiusMeters: number
+}
+
 export interface LocationValidationResult {
   isValid: boolean
   nearestOfficeLocation?: {
@@ -16,8 +35,17 @@ export interface LocationValidationResult {
     code: string
     distance: number // in meters
   }
-  distance?: number // distance to nearest office location in meters
-  allowedRadius?: number // allowed radius in meters
+  distance?: number // distance to nearest office location in meters (outside its boundary for polygons)
+  allowedRadius?: number // allowed radius in meters (boundary buffer for polygons), including the office tolerance
+  toleranceMeters?: number // office tolerance included in allowedRadius
+  accuracyMeters?: number // accuracy reported with the position fix
+  geofenceType?: GeofenceType
+  requiresRetry?: boolean // The fix was too inaccurate to decide; the user should try again
+  assignedOfficeLocations?: { // Set when check-in was restricted to the employee's assigned offices
+    id: string
+    name: string
+    code: string
+  }[]
   errorMessage?: string
 }
 
@@ -30,34 +58,94 @@ export interface ILocationValidationService {
    */
   calculateDistance(coord1: LocationCoordinates, coord2: LocationCoordinates): number
 
+  /**
+   * Distance used by the geofence check of an office location
+   * @param coordinates User coordinates
+   * @param officeLocation Office location
+   * @returns Meters outside the boundary (0 inside) when the office has one, otherwise meters from its center
+   */
+  measureDistanceToOffice(coordinates: LocationCoordinates, officeLocation: OfficeLocationEntity): number
+
   /**
    * Validate if user location is within allowed office locations
+   * Each office's own tolerance applies. With an accuracy, fixes worse than the
+   * office's maximum, or whose accuracy circle only partly overlaps the allowed
+   * area, are rejected with requiresRetry.
    * @param userLatitude User's current latitude
    * @param userLongitude User's current longitude
-   * @param toleranceMeters Additional tolerance in meters (default: 0)
+   * @param accuracyMeters Accuracy reported by the device, in meters
    * @returns Validation result with details
    */
   validateUserLocation(
     userLatitude: number, 
     userLongitude: number, 
-    toleranceMeters?: number
+    accuracyMeters?: number
   ): Promise<LocationValidationResult>
 
   /**
    * Check if coordinates are within a specific office location radius
+   * Uses the same accuracy rules as validateUserLocation.
    * @param userLatitude User's current latitude
    * @param userLongitude User's current longitude
    * @param officeLocationId Office location ID to check against
-   * @param toleranceMeters Additional tolerance in meters (default: 0)
+   * @param accuracyMeters Accuracy reported by the device, in meters
    * @returns Validation result
    */
   validateAgainstOfficeLocation(
     userLatitude: number,
     userLongitude: number,
     officeLocationId: string,
-    toleranceMeters?: number
+    accuracyMeters?: number
+  ): Promise<LocationValidationResult>
+
+  /**
+   * Check if coordinates are within any of several office locations
+   * @param userLatitude User's current latitude
+   * @param userLongitude User's current longitude
+   * @param officeLocationIds Office location IDs to check against
+   * @param accuracyMeters Accuracy reported by the device, in meters
+   * @returns The first valid result, otherwise the result of the nearest office
+   */
+  validateAgainstOfficeLocations(
+    userLatitude: number,
+    userLongitude: number,
+    officeLocationIds: string[],
+    accuracyMeters?: number
   ): Promise<LocationValidationResult>
 
+  /**
+   * Check if coordinates are within an employee's approved home location
+   * Uses the same accuracy rules as validateUserLocation with the default maximum
+   * accuracy of an office; the approved radius already includes any tolerance.
+   * @param userLatitude User's current latitude
+   * @param userLongitude User's current longitude
+   * @param homeLocation Approved home location to check against
+   * @param accuracyMeters Accuracy reported by the device, in meters
+   * @returns Validation result, without a nearest office location
+   */
+  validateAgainstHomeLocation(
+    userLatitude: number,
+    userLongitude: number,
+    homeLocation: HomeLocation,
+    accuracyMeters?: number
+  ): LocationValidationResult
+
+  /**
+   * Check if coordinates are within the destination of a field duty work letter
+   * Same rules as validateAgainstHomeLocation.
+   * @param userLatitude User's current latitude
+   * @param userLongitude User's current longitude
+   * @param destination Destination captured on the work letter
+   * @param accuracyMeters Accuracy reported by the device, in meters
+   * @returns Validation result, without a nearest office location
+   */
+  validateAgainstDestination(
+    userLatitude: number,
+    userLongitude: number,
+    destination: FieldDutyDestination,
+    accuracyMeters?: number
+  ): LocationValidationResult
+
   /**
    * Find the nearest office location to given coordinates
    * @param latitude User's latitude
@@ -0,0 +1,23 @@
+// ============================================================================
+// NOTIFICATION SERVICE INTERFACE
+// src/domain/services/INotificationService.ts
+// ============================================================================
+
+import { NotificationType } from '@prisma/client'
+
+export interface NotificationMessage {
+  title: string
+  message: string
+  type?: NotificationType
+  data?: Record<string, string | number | boolean | null> // e.g. a link or the related record ID
+}
+
+export interface INotificationService {
+  /**
+   * Send an in-app notification to a user
+   * Delivery failures are logged and never thrown, so the calling operation is not affected
+   * @param userId Recipient user ID
+   * @param notification Title, message, type and optional payload
+   */
+  notify(userId: string, notification: NotificationMessage): Promise<void>
+}
@@ -0,0 +1,27 @@
+// ============================================================================
+// OFFICE ASSIGNMENT SERVICE INTERFACE
+// src/domain/services/IOfficeAssignmentService.ts
+// ============================================================================
+
+export interface AssignedOfficeLocation {
+  id: string
+  name: string
+  code: string
+}
+
+export interface IOfficeAssignmentService {
+  /**
+   * Whether check-in is restricted to assigned offices (ENFORCE_ASSIGNED_OFFICE)
+   */
+  isEnforced(): Promise<boolean>
+
+  /**
+   * Offices a user must check in at on an attendance date
+   * Combines the office assignments for that weekday with the office on the
+   * user's work schedule; inactive offices are left out.
+   * @param userId User checking in
+   * @param attendanceDate Business date of the attendance
+   * @returns The assigned offices, or null when enforcement is off or none are assigned
+   */
+  resolveAssignedOffices(userId: string, attendanceDate: Date): Promise<AssignedOfficeLocation[] | null>
+}
@@ -0,0 +1,29 @@
+// ============================================================================
+// OFFICE LOCATION CACHE INTERFACE
+// src/domain/services/IOfficeLocationCache.ts
+// ============================================================================
+
+import { OfficeLocationEntity } from '@/domain/repositories/IOfficeLocationRepository'
+import { GeoPoint } from '@/utils/geofence'
+
+export interface IOfficeLocationCache {
+  /**
+   * Get the active office locations, loading them once and sharing them across
+   * requests until invalidated
+   * @returns Active office locations ordered by name
+   */
+  getActiveLocations(): Promise<OfficeLocationEntity[]>
+
+  /**
+   * Bounding-box prefilter for geofence checks
+   * @param point Position to check
+   * @param marginMeters Extra distance around each allowed area, e.g. the fix accuracy
+   * @returns Active locations whose allowed area (radius or boundary buffer plus tolerance) may contain the point, ordered by name
+   */
+  findCandidates(point: GeoPoint, marginMeters?: number): Promise<OfficeLocationEntity[]>
+
+  /**
+   * Drop the cached locations; called after an office location is created, updated or deleted
+   */
+  invalidate(): void
+}
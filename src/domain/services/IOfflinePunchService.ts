@@ -0,0 +1,32 @@
+// ============================================================================
+// OFFLINE PUNCH SERVICE INTERFACE
+// src/domain/services/IOfflinePunchService.ts
+// ============================================================================
+
+import { OfflinePunchCapture } from '@/utils/offlinePunch'
+
+export interface IOfflinePunchService {
+  /**
+   * Store the public key a browser signs its offline punches with
+   * Registering again for the same device replaces the key.
+   * @param userId Logged-in user
+   * @param deviceId Device ID from the browser's local storage
+   * @param publicKey ECDSA P-256 public key as JWK
+   * @returns False when the key is not a valid P-256 public key
+   */
+  registerDeviceKey(userId: string, deviceId: string, publicKey: unknown): Promise<boolean>
+
+  /**
+   * Check that a capture was signed by the user's registered key for its device
+   * @param userId User the capture is synced for
+   * @param capture Capture as sent by the browser
+   * @param signature Base64url ECDSA signature of serializeOfflinePunch(capture)
+   */
+  verifySignature(userId: string, capture: OfflinePunchCapture, signature: string): Promise<boolean>
+
+  /**
+   * How long after capture a punch may still be synced, from system settings
+   * @returns Window in hours
+   */
+  getSyncWindowHours(): Promise<number>
+}
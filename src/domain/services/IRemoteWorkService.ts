@@ -0,0 +1,47 @@
+// ============================================================================
+// REMOTE WORK SERVICE INTERFACE
+// src/domain/services/IRemoteWorkService.ts
+// ============================================================================
+
+import { FieldDutyDestination, HomeLocation } from '@/domain/services/ILocationValidationService'
+
+export type WorkFromHomeSource = 'SCHEDULE' | 'REQUEST'
+
+export interface WorkFromHomeDay {
+  source: WorkFromHomeSource // Weekly WFH day or an approved WFH request
+  homeLocation: HomeLocation
+}
+
+export interface FieldDutyDay {
+  workLetterId: string
+  letterNumber?: string
+  subject: string
+  destination?: FieldDutyDestination // Without a destination the day needs no location check
+}
+
+export interface IRemoteWorkService {
+  /**
+   * Whether the user works from home on an attendance date
+   * Only days with an approved home location count.
+   * @param userId User checking in
+   * @param attendanceDate Business date of the attendance
+   * @returns The WFH day with the home location to validate against, or null
+   */
+  resolveWorkFromHome(userId: string, attendanceDate: Date): Promise<WorkFromHomeDay | null>
+
+  /**
+   * Approved home location of the user
+   * @param userId User to look up
+   * @returns The home location, or null when none is approved
+   */
+  getApprovedHomeLocation(userId: string): Promise<HomeLocation | null>
+
+  /**
+   * Whether the user is on field duty (dinas luar) on an attendance date
+   * Only approved travel / assignment work letters count.
+   * @param userId User checking in
+   * @param attendanceDate Business date of the attendance
+   * @returns The field duty day with its work letter, or null
+   */
+  resolveFieldDuty(userId: string, attendanceDate: Date): Promise<FieldDutyDay | null>
+}
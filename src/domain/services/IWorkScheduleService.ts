@@ -0,0 +1,86 @@
+// ============================================================================
+// WORK SCHEDULE SERVICE INTERFACE
+// src/domain/services/IWorkScheduleService.ts
+// ============================================================================
+
+import { AttendanceStatus, DayOfWeek, HolidayType } from '@prisma/client'
+
+export type AttendancePunchType = 'CHECK_IN' | 'CHECK_OUT'
+
+export interface ResolvedWorkSchedule {
+  date: Date // Business date (UTC midnight of the local day the shift starts on)
+  dayOfWeek: DayOfWeek
+  isWorkingDay: boolean
+  startTime: string // HH:mm
+  endTime: string // HH:mm
+  isOvernight: boolean // endTime falls on the day after the business date
+  lateToleranceMinutes: number
+  officeLocationId?: string
+  source: 'SHIFT_ROSTER' | 'WORK_SCHEDULE' | 'SYSTEM_SETTING'
+  shift?: { // Set when the day comes from the shift roster
+    id: string
+    name: string
+    code: string
+  }
+  holiday?: { // Set when the day is a holiday / cuti bersama (isWorkingDay is then false)
+    id: string
+    name: string
+    type: HolidayType
+  }
+}
+
+export interface CheckInTimingResult {
+  attendanceDate: Date // Business date the check-in is attributed to
+  status: AttendanceStatus
+  lateMinutes: number // minutes after the scheduled start, 0 when on time
+  schedule: ResolvedWorkSchedule
+}
+
+export interface IWorkScheduleService {
+  /**
+   * Resolve the effective work schedule of a user for a given business date
+   * Uses the user's shift roster entry for that date, then the WorkSchedule for that
+   * weekday, falling back to institution settings.
+   * Holidays from the holiday calendar turn the day into a non-working day, except
+   * for rostered shifts (piket) which are worked regardless.
+   * @param userId User ID
+   * @param date Any moment on the day to resolve
+   * @returns Start/end time, late tolerance and whether the day is a working day
+   */
+  resolveSchedule(userId: string, date: Date): Promise<ResolvedWorkSchedule>
+
+  /**
+   * Resolve the schedules of many users over a range of business dates, as resolveSchedule does
+   * Settings, weekly schedules, roster entries and holidays are loaded once for the
+   * whole range, for monthly reports.
+   * @param userIds User IDs
+   * @param startDate First business date (UTC midnight)
+   * @param endDate Last business date (UTC midnight)
+   * @returns Schedules by user ID, then by date key (YYYY-MM-DD)
+   */
+  resolveSchedules(userIds: string[], startDate: Date, endDate: Date): Promise<Map<string, Map<string, ResolvedWorkSchedule>>>
+
+  /**
+   * Determine the business date a check-in or check-out belongs to
+   * A punch after midnight that falls within the previous day's overnight shift
+   * (plus a grace period for check-out) is attributed to that previous day.
+   * @param userId User ID
+   * @param time Moment of the check-in / check-out
+   * @param punchType Whether the punch is a check-in or a check-out
+   * @returns Attendance date (UTC midnight)
+   */
+  resolveAttendanceDate(userId: string, time: Date, punchType: AttendancePunchType): Promise<Date>
+
+  /**
+   * Determine PRESENT vs LATE for a check-in and how many minutes late it was
+   * @param userId User ID
+   * @param checkInTime Moment of check-in
+   * @returns Attendance date, status, late minutes and the schedule that was applied
+   */
+  evaluateCheckIn(userId: string, checkInTime: Date): Promise<CheckInTimingResult>
+
+  /**
+   * Get the configured institution timezone (IANA name)
+   */
+  getTimeZone(): Promise<string>
+}
@@ -0,0 +1,106 @@
+// ============================================================================
+// OFFLINE ATTENDANCE SYNC HOOK
+// src/hooks/useOfflineAttendanceSync.ts
+// ============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { toast } from 'sonner'
+import {
+  getQueuedPunches,
+  queueOfflinePunch,
+  registerDeviceKey,
+  syncQueuedPunches
+} from '@/utils/offlineAttendanceQueue'
+import { OfflinePunchType } from '@/utils/offlinePunch'
+
+const PUNCH_LABELS: Record<OfflinePunchType, string> = {
+  CHECK_IN: 'Check-in',
+  CHECK_OUT: 'Check-out'
+}
+
+const formatCaptureTime = (capturedAt: number) =>
+  new Date(capturedAt).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })
+
+/**
+ * Queue check-ins and check-outs made without a connection and send them once
+ * the browser is back online
+ * @param userId Logged-in user; nothing is synced without one
+ * @param onSynced Called after at least one queued punch was accepted
+ */
+export function useOfflineAttendanceSync(userId?: string, onSynced?: () => void) {
+  const [pendingCount, setPendingCount] = useState(0)
+  const syncingRef = useRef(false)
+  const onSyncedRef = useRef(onSynced)
+  onSyncedRef.current = onSynced
+
+  const refreshPendingCount = useCallback(async () => {
+    if (!userId) return
+
+    try {
+      setPendingCount((await getQueuedPunches(userId)).length)
+    } catch (error) {
+      console.error('Error reading offline attendance queue:', error)
+    }
+  }, [userId])
+
+  const syncNow = useCallback(async () => {
+    if (!userId || syncingRef.current || !navigator.onLine) return
+
+    try {
+      syncingRef.current = true
+      const result = await syncQueuedPunches(userId)
+
+      if (result.synced.length > 0) {
+        toast.success('Absen Offline Terkirim ✅', {
+          description: result.synced
+            .map(capture => `${PUNCH_LABELS[capture.punchType]} pukul ${formatCaptureTime(capture.capturedAt)}`)
+            .join(', ')
+        })
+        onSyncedRef.current?.()
+      }
+
+      result.rejected.forEach(({ capture, error }) => {
+        toast.error(`${PUNCH_LABELS[capture.punchType]} Offline Ditolak ❌`, {
+          description: `Direkam pukul ${formatCaptureTime(capture.capturedAt)}. ${error}`,
+          duration: 10000
+        })
+      })
+    } catch (error) {
+      // Still offline or the server is unreachable; try again on the next chance
+      console.warn('Offline attendance sync postponed:', error)
+    } finally {
+      syncingRef.current = false
+      refreshPendingCount()
+    }
+  }, [userId, refreshPendingCount])
+
+  const queuePunch = useCallback(async (punchType: OfflinePunchType, position?: GeolocationPosition) => {
+    if (!userId) {
+      throw new Error('Sesi login tidak ditemukan')
+    }
+
+    const capture = await queueOfflinePunch(userId, punchType, position)
+    await refreshPendingCount()
+    return capture
+  }, [userId, refreshPendingCount])
+
+  useEffect(() => {
+    if (!userId) return
+
+    const start = async () => {
+      // Register while online, so punches queued later can be verified
+      if (navigator.onLine) {
+        await registerDeviceKey().catch(error => console.warn('Could not register device key:', error))
+      }
+      await refreshPendingCount()
+      await syncNow()
+    }
+
+    start()
+
+    window.addEventListener('online', syncNow)
+    return () => window.removeEventListener('online', syncNow)
+  }, [userId, refreshPendingCount, syncNow])
+
+  return { pendingCount, queuePunch, syncNow }
+}
@@ -0,0 +1,36 @@
+// ============================================================================
+// SCHEDULED JOB AUTHORIZATION
+// src/infrastructure/auth/cronAuth.ts
+// ============================================================================
+
+import { NextRequest } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/infrastructure/auth/authOptions'
+
+// Roles allowed to trigger scheduled jobs manually (e.g. backfill)
+const JOB_ADMIN_ROLES = ['Super Admin', 'HR Admin']
+
+/**
+ * Check whether a request may run a scheduled job.
+ * Schedulers authenticate with `Authorization: Bearer <CRON_SECRET>`,
+ * administrators can trigger the same job from an authenticated session.
+ */
+export async function isAuthorizedJobRequest(request: NextRequest): Promise<{
+  isAuthorized: boolean
+  triggeredBy: string | null
+}> {
+  const cronSecret = process.env.CRON_SECRET
+  const authorization = request.headers.get('authorization')
+
+  if (cronSecret && authorization === `Bearer ${cronSecret}`) {
+    return { isAuthorized: true, triggeredBy: null }
+  }
+
+  const session = await getServerSession(authOptions)
+  const roleName = session?.user?.role?.name
+  if (session?.user?.id && roleName && JOB_ADMIN_ROLES.includes(roleName)) {
+    return { isAuthorized: true, triggeredBy: session.user.id }
+  }
+
+  return { isAuthorized: false, triggeredBy: null }
+}
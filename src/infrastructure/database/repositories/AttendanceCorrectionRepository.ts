@@ -0,0 +1,316 @@
+// ============================================================================
+// ATTENDANCE CORRECTION REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/AttendanceCorrectionRepository.ts
+// ============================================================================
+
+import {
+  PrismaClient,
+  Prisma,
+  AttendanceCorrectionRequest,
+  ApprovalStatus,
+  DocumentType,
+  RequestStatus
+} from '@prisma/client'
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionEntity,
+  AttendanceCorrectionWithDetails,
+  CreateAttendanceCorrectionData,
+  AttendanceCorrectionFilters,
+  CorrectionApprover
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import { findDepartmentHeadChain } from './DepartmentHeadChain'
+
+const CORRECTION_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nip: true,
+      department: {
+        select: { id: true, name: true }
+      }
+    }
+  },
+  currentApprover: {
+    select: { id: true, name: true }
+  },
+  approvals: {
+    include: {
+      approver: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: { stepOrder: 'asc' }
+  }
+} satisfies Prisma.AttendanceCorrectionRequestInclude
+
+type AttendanceCorrectionWithRelations = Prisma.AttendanceCorrectionRequestGetPayload<{
+  include: typeof CORRECTION_INCLUDE
+}>
+
+export class PrismaAttendanceCorrectionRepository implements IAttendanceCorrectionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<AttendanceCorrectionWithDetails | null> {
+    const correction = await this.prisma.attendanceCorrectionRequest.findUnique({
+      where: { id },
+      include: CORRECTION_INCLUDE
+    })
+    return correction ? this.toDetails(correction) : null
+  }
+
+  async findMany(filters: AttendanceCorrectionFilters, limit = 50, offset = 0): Promise<AttendanceCorrectionWithDetails[]> {
+    const corrections = await this.prisma.attendanceCorrectionRequest.findMany({
+      where: this.buildWhere(filters),
+      include: CORRECTION_INCLUDE,
+      orderBy: { submittedAt: 'desc' },
+      take: limit,
+      skip: offset
+    })
+    return corrections.map(correction => this.toDetails(correction))
+  }
+
+  async countMany(filters: AttendanceCorrectionFilters): Promise<number> {
+    return this.prisma.attendanceCorrectionRequest.count({
+      where: this.buildWhere(filters)
+    })
+  }
+
+  async hasPendingRequest(userId: string, attendanceDate: Date): Promise<boolean> {
+    const count = await this.prisma.attendanceCorrectionRequest.count({
+      where: {
+        userId,
+        attendanceDate,
+        status: RequestStatus.PENDING
+      }
+    })
+    return count > 0
+  }
+
+  async create(data: CreateAttendanceCorrectionData): Promise<AttendanceCorrectionWithDetails> {
+    const correction = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.attendanceCorrectionRequest.create({
+        data: {
+          userId: data.userId,
+          attendanceId: data.attendanceId,
+          attendanceDate: data.attendanceDate,
+          requestedCheckInTime: data.requestedCheckInTime,
+          requestedCheckOutTime: data.requestedCheckOutTime,
+          requestedStatus: data.requestedStatus,
+          reason: data.reason,
+          attachmentFile: data.attachmentFile,
+          currentApproverId: data.approverId
+        }
+      })
+
+      await tx.approval.create({
+        data: {
+          documentType: DocumentType.ATTENDANCE_CORRECTION,
+          documentId: created.id,
+          attendanceCorrectionId: created.id,
+          approverId: data.approverId,
+          stepOrder: 1
+        }
+      })
+
+      return tx.attendanceCorrectionRequest.findUniqueOrThrow({
+        where: { id: created.id },
+        include: CORRECTION_INCLUDE
+      })
+    })
+
+    return this.toDetails(correction)
+  }
+
+  async approveStep(
+    id: string,
+    approverId: string,
+    comments?: string,
+    nextApproverId?: string
+  ): Promise<AttendanceCorrectionWithDetails> {
+    const now = new Date()
+
+    const correction = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.APPROVED,
+          comments,
+          approvedAt: now
+        }
+      })
+
+      if (nextApproverId) {
+        await tx.approval.create({
+          data: {
+            documentType: DocumentType.ATTENDANCE_CORRECTION,
+            documentId: id,
+            attendanceCorrectionId: id,
+            approverId: nextApproverId,
+            stepOrder: step.stepOrder + 1
+          }
+        })
+      }
+
+      return tx.attendanceCorrectionRequest.update({
+        where: { id },
+        data: nextApproverId
+          ? { currentApproverId: nextApproverId }
+          : { status: RequestStatus.APPROVED, currentApproverId: null, approvedAt: now },
+        include: CORRECTION_INCLUDE
+      })
+    })
+
+    return this.toDetails(correction)
+  }
+
+  async rejectStep(id: string, approverId: string, reason: string): Promise<AttendanceCorrectionWithDetails> {
+    const now = new Date()
+
+    const correction = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.REJECTED,
+          comments: reason,
+          rejectedAt: now
+        }
+      })
+
+      return tx.attendanceCorrectionRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.REJECTED,
+          currentApproverId: null,
+          rejectionReason: reason,
+          rejectedAt: now
+        },
+        include: CORRECTION_INCLUDE
+      })
+    })
+
+    return this.toDetails(correction)
+  }
+
+  async cancel(id: string): Promise<AttendanceCorrectionWithDetails> {
+    const correction = await this.prisma.$transaction(async (tx) => {
+      // A cancelled request no longer waits for anyone
+      await tx.approval.deleteMany({
+        where: {
+          attendanceCorrectionId: id,
+          status: ApprovalStatus.PENDING
+        }
+      })
+
+      return tx.attendanceCorrectionRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.CANCELLED,
+          currentApproverId: null
+        },
+        include: CORRECTION_INCLUDE
+      })
+    })
+
+    return this.toDetails(correction)
+  }
+
+  async findApproverChain(userId: string): Promise<CorrectionApprover[]> {
+    return findDepartmentHeadChain(this.prisma, userId)
+  }
+
+  // Helper methods
+  private async findPendingStep(tx: Prisma.TransactionClient, id: string, approverId: string) {
+    const step = await tx.approval.findFirst({
+      where: {
+        attendanceCorrectionId: id,
+        approverId,
+        status: ApprovalStatus.PENDING
+      },
+      orderBy: { stepOrder: 'asc' }
+    })
+
+    if (!step) {
+      throw new Error(`No pending approval step for approver ${approverId} on correction ${id}`)
+    }
+
+    return step
+  }
+
+  private buildWhere(filters: AttendanceCorrectionFilters): Prisma.AttendanceCorrectionRequestWhereInput {
+    const where: Prisma.AttendanceCorrectionRequestWhereInput = {}
+
+    if (filters.userId) {
+      where.userId = filters.userId
+    }
+
+    if (filters.currentApproverId) {
+      where.currentApproverId = filters.currentApproverId
+    }
+
+    if (filters.status) {
+      where.status = filters.status
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.attendanceDate = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate })
+      }
+    }
+
+    return where
+  }
+
+  private toDomain(correction: AttendanceCorrectionRequest): AttendanceCorrectionEntity {
+    return {
+      id: correction.id,
+      userId: correction.userId,
+      attendanceId: correction.attendanceId ?? undefined,
+      attendanceDate: correction.attendanceDate,
+      requestedCheckInTime: correction.requestedCheckInTime ?? undefined,
+      requestedCheckOutTime: correction.requestedCheckOutTime ?? undefined,
+      requestedStatus: correction.requestedStatus ?? undefined,
+      reason: correction.reason,
+      attachmentFile: correction.attachmentFile ?? undefined,
+      status: correction.status,
+      currentApproverId: correction.currentApproverId ?? undefined,
+      rejectionReason: correction.rejectionReason ?? undefined,
+      submittedAt: correction.submittedAt,
+      approvedAt: correction.approvedAt ?? undefined,
+      rejectedAt: correction.rejectedAt ?? undefined,
+      createdAt: correction.createdAt,
+      updatedAt: correction.updatedAt
+    }
+  }
+
+  private toDetails(correction: AttendanceCorrectionWithRelations): AttendanceCorrectionWithDetails {
+    return {
+      ...this.toDomain(correction),
+      user: {
+        id: correction.user.id,
+        name: correction.user.name ?? undefined,
+        nip: correction.user.nip ?? undefined,
+        department: correction.user.department ?? undefined
+      },
+      currentApprover: correction.currentApprover
+        ? { id: correction.currentApprover.id, name: correction.currentApprover.name ?? undefined }
+        : undefined,
+      approvals: correction.approvals.map(approval => ({
+        id: approval.id,
+        approverId: approval.approverId,
+        approverName: approval.approver.name ?? undefined,
+        stepOrder: approval.stepOrder,
+        status: approval.status,
+        comments: approval.comments ?? undefined,
+        approvedAt: approval.approvedAt ?? undefined,
+        rejectedAt: approval.rejectedAt ?? undefined
+      }))
+    }
+  }
+}
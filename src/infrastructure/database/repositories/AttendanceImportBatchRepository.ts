@@ -0,0 +1,86 @@
+// ============================================================================
+// ATTENDANCE IMPORT BATCH REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/AttendanceImportBatchRepository.ts
+// ============================================================================
+
+import { PrismaClient, AttendanceImportBatch } from '@prisma/client'
+import {
+  IAttendanceImportBatchRepository,
+  AttendanceImportBatchEntity,
+  AttendanceImportBatchWithUsers,
+  CreateAttendanceImportBatchData
+} from '@/domain/repositories/IAttendanceImportBatchRepository'
+
+export class PrismaAttendanceImportBatchRepository implements IAttendanceImportBatchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<AttendanceImportBatchEntity | null> {
+    const batch = await this.prisma.attendanceImportBatch.findUnique({
+      where: { id }
+    })
+    return batch ? this.toDomain(batch) : null
+  }
+
+  async create(data: CreateAttendanceImportBatchData): Promise<AttendanceImportBatchEntity> {
+    const batch = await this.prisma.attendanceImportBatch.create({ data })
+    return this.toDomain(batch)
+  }
+
+  async updateCreatedCount(id: string, createdCount: number): Promise<AttendanceImportBatchEntity> {
+    const batch = await this.prisma.attendanceImportBatch.update({
+      where: { id },
+      data: { createdCount }
+    })
+    return this.toDomain(batch)
+  }
+
+  async markUndone(id: string, undoneById: string, undoneCount: number): Promise<AttendanceImportBatchEntity> {
+    const batch = await this.prisma.attendanceImportBatch.update({
+      where: { id },
+      data: {
+        undoneAt: new Date(),
+        undoneById,
+        undoneCount
+      }
+    })
+    return this.toDomain(batch)
+  }
+
+  async findMany(limit?: number, offset?: number): Promise<AttendanceImportBatchWithUsers[]> {
+    const batches = await this.prisma.attendanceImportBatch.findMany({
+      include: {
+        importedBy: { select: { id: true, name: true } },
+        undoneBy: { select: { id: true, name: true } },
+        _count: { select: { attendances: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      ...(limit && { take: limit }),
+      ...(offset && { skip: offset })
+    })
+
+    return batches.map(batch => ({
+      ...this.toDomain(batch),
+      importedBy: { id: batch.importedBy.id, name: batch.importedBy.name ?? undefined },
+      undoneBy: batch.undoneBy ? { id: batch.undoneBy.id, name: batch.undoneBy.name ?? undefined } : undefined,
+      remainingCount: batch._count.attendances
+    }))
+  }
+
+  async count(): Promise<number> {
+    return await this.prisma.attendanceImportBatch.count()
+  }
+
+  private toDomain(batch: AttendanceImportBatch): AttendanceImportBatchEntity {
+    return {
+      id: batch.id,
+      fileName: batch.fileName,
+      rowCount: batch.rowCount,
+      createdCount: batch.createdCount,
+      importedById: batch.importedById,
+      undoneAt: batch.undoneAt ?? undefined,
+      undoneById: batch.undoneById ?? undefined,
+      undoneCount: batch.undoneCount,
+      createdAt: batch.createdAt
+    }
+  }
+}
@@ -0,0 +1,110 @@
+// ============================================================================
+// ATTENDANCE PUNCH REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/AttendancePunchRepository.ts
+// ============================================================================
+
+import { PrismaClient, AttendancePunch } from '@prisma/client'
+import {
+  IAttendancePunchRepository,
+  AttendancePunchEntity,
+  CreateAttendancePunchData
+} from '@/domain/repositories/IAttendancePunchRepository'
+
+export class PrismaAttendancePunchRepository implements IAttendancePunchRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByAttendance(attendanceId: string): Promise<AttendancePunchEntity[]> {
+    const punches = await this.prisma.attendancePunch.findMany({
+      where: { attendanceId },
+      orderBy: [{ punchTime: 'asc' }, { createdAt: 'asc' }]
+    })
+    return punches.map(punch => this.toDomain(punch))
+  }
+
+  async findLatestByAttendance(attendanceId: string): Promise<AttendancePunchEntity | null> {
+    const punch = await this.prisma.attendancePunch.findFirst({
+      where: { attendanceId },
+      orderBy: [{ punchTime: 'desc' }, { createdAt: 'desc' }]
+    })
+    return punch ? this.toDomain(punch) : null
+  }
+
+  async create(data: CreateAttendancePunchData): Promise<AttendancePunchEntity> {
+    const punch = await this.prisma.attendancePunch.create({
+      data: {
+        ...data,
+        isValidLocation: data.isValidLocation ?? true
+      }
+    })
+    return this.toDomain(punch)
+  }
+
+  async findLatestWithCoordinatesByUser(userId: string): Promise<AttendancePunchEntity | null> {
+    const punch = await this.prisma.attendancePunch.findFirst({
+      where: {
+        userId,
+        latitude: { not: null },
+        longitude: { not: null }
+      },
+      orderBy: [{ punchTime: 'desc' }, { createdAt: 'desc' }]
+    })
+    return punch ? this.toDomain(punch) : null
+  }
+
+  async existsAtCoordinatesOnOtherDate(
+    userId: string,
+    latitude: number,
+    longitude: number,
+    attendanceDate: Date
+  ): Promise<boolean> {
+    // Compare at the stored precision of the decimal columns
+    const count = await this.prisma.attendancePunch.count({
+      where: {
+        userId,
+        latitude: Number(latitude.toFixed(8)),
+        longitude: Number(longitude.toFixed(8)),
+        attendanceDate: { not: attendanceDate }
+      }
+    })
+    return count > 0
+  }
+
+  async findOtherUserIdsByDevice(deviceId: string, userId: string, since: Date): Promise<string[]> {
+    const punches = await this.prisma.attendancePunch.findMany({
+      where: {
+        deviceId,
+        userId: { not: userId },
+        punchTime: { gte: since }
+      },
+      distinct: ['userId'],
+      select: { userId: true }
+    })
+    return punches.map(punch => punch.userId)
+  }
+
+  private toDomain(punch: AttendancePunch): AttendancePunchEntity {
+    return {
+      id: punch.id,
+      attendanceId: punch.attendanceId,
+      userId: punch.userId,
+      attendanceDate: punch.attendanceDate,
+      punchType: punch.punchType,
+      punchTime: punch.punchTime,
+      // Coordinates come back from the database as Decimal values
+      latitude: punch.latitude !== null ? Number(punch.latitude) : undefined,
+      longitude: punch.longitude !== null ? Number(punch.longitude) : undefined,
+      address: punch.address ?? undefined,
+      officeLocationId: punch.officeLocationId ?? undefined,
+      distanceMeters: punch.distanceMeters ?? undefined,
+      isValidLocation: punch.isValidLocation,
+      accuracyMeters: punch.accuracyMeters ?? undefined,
+      altitudeMeters: punch.altitudeMeters ?? undefined,
+      fixTime: punch.fixTime ?? undefined,
+      deviceId: punch.deviceId ?? undefined,
+      syncedAt: punch.syncedAt ?? undefined,
+      source: punch.source,
+      sourceReference: punch.sourceReference ?? undefined,
+      createdAt: punch.createdAt
+    }
+  }
+}
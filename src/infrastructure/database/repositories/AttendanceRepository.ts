@@ -3,7 +3,7 @@
 // src/infrastructure/database/repositories/AttendanceRepository.ts
 // ============================================================================
 
-import { PrismaClient, AttendanceStatus } from '@prisma/client'
+import { PrismaClient, Prisma, AttendanceStatus } from '@prisma/client'
 import {
   IAttendanceRepository,
   AttendanceEntity,
@@ -12,6 +12,8 @@ import {
   AttendanceFilters,
   AttendanceWithUser
 } from '@/domain/repositories/IAttendanceRepository'
+import { findDepartmentHeadChain } from './DepartmentHeadChain'
+import { countUserWorkDays, countWorkDaysByUser } from './UserWorkDays'
 import { normalizeToStartOfDay, normalizeToEndOfDay, getAttendanceDate, isAttendancePresent } from '@/utils/dateUtils'
 
 export class PrismaAttendanceRepository implements IAttendanceRepository {
@@ -31,7 +33,8 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
       attendanceDate: getAttendanceDate(data.attendanceDate),
       status: data.status || AttendanceStatus.PRESENT,
       workingHoursMinutes: data.workingHoursMinutes || 0,
-      isValidLocation: data.isValidLocation ?? true
+      isValidLocation: data.isValidLocation ?? true,
+      fraudSignals: data.fraudSignals as Prisma.InputJsonValue | undefined
     }
 
     console.log('💾 Creating attendance with normalized data:', {
@@ -61,7 +64,10 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
   async update(id: string, data: UpdateAttendanceData): Promise<AttendanceEntity> {
     const attendance = await this.prisma.attendance.update({
       where: { id },
-      data
+      data: {
+        ...data,
+        fraudSignals: data.fraudSignals as Prisma.InputJsonValue | undefined
+      }
     })
     return attendance
   }
@@ -358,20 +364,17 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
     const startOfDay = normalizeToStartOfDay(date)
     const endOfDay = normalizeToEndOfDay(date)
 
-    // Assuming work starts at 8:00 AM
-    const workStartTime = new Date(date)
-    workStartTime.setHours(8, lateThresholdMinutes, 0, 0)
-
+    // Late minutes are recorded at check-in against the user's own work schedule
     const attendances = await this.prisma.attendance.findMany({
       where: {
         attendanceDate: {
           gte: startOfDay,
           lte: endOfDay
         },
-        checkInTime: {
-          gt: workStartTime
+        lateMinutes: {
+          gt: lateThresholdMinutes
         },
-        status: AttendanceStatus.PRESENT
+        status: AttendanceStatus.LATE
       },
       include: {
         user: {
@@ -389,7 +392,7 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
         }
       },
       orderBy: {
-        checkInTime: 'desc'
+        lateMinutes: 'desc'
       }
     })
     return attendances as AttendanceWithUser[]
@@ -468,6 +471,8 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
     if (filters.userId) whereClause.userId = filters.userId
     if (filters.status) whereClause.status = filters.status
     if (filters.isValidLocation !== undefined) whereClause.isValidLocation = filters.isValidLocation
+    if (filters.reviewStatus) whereClause.reviewStatus = filters.reviewStatus
+    if (filters.reviewerId) whereClause.reviewerId = filters.reviewerId
     
     if (filters.startDate && filters.endDate) {
       whereClause.attendanceDate = {
@@ -497,6 +502,13 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
               }
             }
           }
+        },
+        workLetter: {
+          select: {
+            id: true,
+            letterNumber: true,
+            subject: true
+          }
         }
       },
       orderBy: [
@@ -515,6 +527,8 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
     if (filters.userId) whereClause.userId = filters.userId
     if (filters.status) whereClause.status = filters.status
     if (filters.isValidLocation !== undefined) whereClause.isValidLocation = filters.isValidLocation
+    if (filters.reviewStatus) whereClause.reviewStatus = filters.reviewStatus
+    if (filters.reviewerId) whereClause.reviewerId = filters.reviewerId
     
     if (filters.startDate && filters.endDate) {
       whereClause.attendanceDate = {
@@ -551,14 +565,62 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
     return attendance !== null && attendance.checkOutTime !== null
   }
 
+  async findOpenInRange(startDate: Date, endDate: Date): Promise<AttendanceEntity[]> {
+    const attendances = await this.prisma.attendance.findMany({
+      where: {
+        attendanceDate: {
+          gte: normalizeToStartOfDay(startDate),
+          lte: normalizeToEndOfDay(endDate)
+        },
+        checkInTime: { not: null },
+        checkOutTime: null,
+        autoClosedAt: null
+      },
+      orderBy: [{ attendanceDate: 'asc' }, { checkInTime: 'asc' }]
+    })
+    return attendances
+  }
+
+  async findByImportBatch(batchId: string): Promise<AttendanceEntity[]> {
+    const attendances = await this.prisma.attendance.findMany({
+      where: { importBatchId: batchId },
+      orderBy: [{ attendanceDate: 'asc' }, { userId: 'asc' }]
+    })
+    return attendances
+  }
+
+  async findMissingAddresses(startDate: Date, endDate: Date, limit: number, afterId?: string): Promise<AttendanceEntity[]> {
+    const attendances = await this.prisma.attendance.findMany({
+      where: {
+        attendanceDate: {
+          gte: normalizeToStartOfDay(startDate),
+          lte: normalizeToEndOfDay(endDate)
+        },
+        ...(afterId && { id: { gt: afterId } }),
+        OR: [
+          { checkInLatitude: { not: null }, checkInLongitude: { not: null }, checkInAddress: null },
+          { checkOutLatitude: { not: null }, checkOutLongitude: { not: null }, checkOutAddress: null }
+        ]
+      },
+      orderBy: { id: 'asc' },
+      take: limit
+    })
+    return attendances
+  }
+
+  async findReviewerChain(userId: string): Promise<{ id: string; name?: string }[]> {
+    return findDepartmentHeadChain(this.prisma, userId)
+  }
+
   calculateWorkingHours(checkInTime: Date, checkOutTime: Date): number {
     const diffInMs = checkOutTime.getTime() - checkInTime.getTime()
     return Math.floor(diffInMs / (1000 * 60)) // Return in minutes
   }
 
   async calculateMonthlyWorkingHours(userId: string, year: number, month: number): Promise<number> {
-    const startDate = new Date(year, month - 1, 1)
-    const endDate = new Date(year, month, 0, 23, 59, 59, 999)
+    // UTC calendar dates, matching how attendanceDate is stored
+    const startDate = new Date(Date.UTC(year, month - 1, 1))
+    const endDate = new Date(Date.UTC(year, month, 0))
 
     const attendances = await this.findByUserAndDateRange(userId, startDate, endDate)
     return attendances.reduce((total, attendance) => total + attendance.workingHoursMinutes, 0)
@@ -594,7 +656,7 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
   }
 
   async getAttendanceRate(userId: string, startDate: Date, endDate: Date): Promise<number> {
-    const totalDays = this.calculateWorkDays(startDate, endDate)
+    const totalDays = await countUserWorkDays(this.prisma, userId, startDate, endDate)
 
     // Get all attendance records for the user in the date range
     const attendances = await this.findByUserAndDateRange(userId, startDate, endDate)
@@ -622,7 +684,7 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
 
     if (users.length === 0) return 0
 
-    const totalWorkDays = this.calculateWorkDays(startDate, endDate) * users.length
+    const totalWorkDays = await this.countTotalWorkDays(users.map(user => user.id), startDate, endDate)
 
     // Get all attendance records for the department in the date range
     const attendances = await this.findByDepartmentAndDateRange(departmentId, startDate, endDate)
@@ -643,13 +705,15 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
   }
 
   async getCompanyAttendanceRate(startDate: Date, endDate: Date): Promise<number> {
-    const totalUsers = await this.prisma.user.count({
-      where: { status: 'ACTIVE' }
+    const users = await this.prisma.user.findMany({
+      where: { status: 'ACTIVE' },
+      select: { id: true }
     })
+    const totalUsers = users.length
 
     if (totalUsers === 0) return 0
 
-    const totalWorkDays = this.calculateWorkDays(startDate, endDate) * totalUsers
+    const totalWorkDays = await this.countTotalWorkDays(users.map(user => user.id), startDate, endDate)
 
     // Get all attendance records for the date range
     const attendances = await this.findByDateRange(startDate, endDate)
@@ -668,18 +732,9 @@ export class PrismaAttendanceRepository implements IAttendanceRepository {
     return totalWorkDays > 0 ? (presentDays / totalWorkDays) * 100 : 0
   }
 
-  private calculateWorkDays(startDate: Date, endDate: Date): number {
-    let count = 0
-    const current = new Date(startDate)
-    
-    while (current <= endDate) {
-      const dayOfWeek = current.getDay()
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Not Sunday or Saturday
-        count++
-      }
-      current.setDate(current.getDate() + 1)
-    }
-    
-    return count
+  // Summed per user, since regional holidays only apply to users working at that office
+  private async countTotalWorkDays(userIds: string[], startDate: Date, endDate: Date): Promise<number> {
+    const workDays = await countWorkDaysByUser(this.prisma, userIds, startDate, endDate)
+    return [...workDays.values()].reduce((total, days) => total + days, 0)
   }
 }
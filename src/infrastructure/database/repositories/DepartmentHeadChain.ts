@@ -0,0 +1,61 @@
+// ============================================================================
+// DEPARTMENT HEAD CHAIN
+// src/infrastructure/database/repositories/DepartmentHeadChain.ts
+// ============================================================================
+
+import { PrismaClient, UserStatus } from '@prisma/client'
+
+export interface DepartmentHead {
+  id: string
+  name?: string
+  departmentId: string
+}
+
+/**
+ * Heads of the user's department and its parent departments, nearest first
+ * Shared by the request types that are approved up the department hierarchy.
+ * The user is never their own approver and inactive heads are skipped.
+ */
+export async function findDepartmentHeadChain(prisma: PrismaClient, userId: string): Promise<DepartmentHead[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { departmentId: true }
+  })
+
+  const chain: DepartmentHead[] = []
+  const visited = new Set<string>()
+  let departmentId: string | null = user?.departmentId ?? null
+
+  // Walk up the hierarchy; the visited set guards against cyclic parent links
+  while (departmentId && !visited.has(departmentId)) {
+    visited.add(departmentId)
+
+    const department = await prisma.department.findUnique({
+      where: { id: departmentId },
+      select: {
+        id: true,
+        parentDepartmentId: true,
+        headUser: {
+          select: { id: true, name: true, status: true }
+        }
+      }
+    })
+
+    if (!department) {
+      break
+    }
+
+    const head = department.headUser
+    if (head && head.id !== userId && head.status === UserStatus.ACTIVE && !chain.some(approver => approver.id === head.id)) {
+      chain.push({
+        id: head.id,
+        name: head.name ?? undefined,
+        departmentId: department.id
+      })
+    }
+
+    departmentId = department.parentDepartmentId
+  }
+
+  return chain
+}
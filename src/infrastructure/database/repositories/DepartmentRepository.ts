@@ -14,6 +14,7 @@ import {
   DepartmentHierarchy,
   DepartmentStatistics
 } from '@/domain/repositories/IDepartmentRepository'
+import { countWorkDaysByUser } from './UserWorkDays'
 
 export class PrismaDepartmentRepository implements IDepartmentRepository {
   constructor(private prisma: PrismaClient) {}
@@ -530,11 +531,12 @@ export class PrismaDepartmentRepository implements IDepartmentRepository {
     }>
   }> {
     const employees = await this.findEmployees(departmentId)
-    const workDays = this.calculateWorkDays(startDate, endDate)
+    const workDaysByUser = await countWorkDaysByUser(this.prisma, employees.map(employee => employee.id), startDate, endDate)
 
     let totalPresent = 0
     let totalAbsent = 0
     let totalLate = 0
+    let totalWorkDays = 0
     const employeeStats = []
 
     for (const employee of employees) {
@@ -566,6 +568,10 @@ export class PrismaDepartmentRepository implements IDepartmentRepository {
       totalAbsent += absentDays
       totalLate += lateDays
 
+      // Regional holidays only reduce the work days of employees at that office
+      const workDays = workDaysByUser.get(employee.id) ?? 0
+      totalWorkDays += workDays
+
       const attendanceRate = workDays > 0 ? (presentDays / workDays) * 100 : 0
 
       employeeStats.push({
@@ -578,7 +584,6 @@ export class PrismaDepartmentRepository implements IDepartmentRepository {
       })
     }
 
-    const totalWorkDays = workDays * employees.length
     const attendanceRate = totalWorkDays > 0 ? (totalPresent / totalWorkDays) * 100 : 0
 
     return {
@@ -591,21 +596,6 @@ export class PrismaDepartmentRepository implements IDepartmentRepository {
     }
   }
 
-  private calculateWorkDays(startDate: Date, endDate: Date): number {
-    let workDays = 0
-    const current = new Date(startDate)
-
-    while (current <= endDate) {
-      const dayOfWeek = current.getDay()
-      if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Not Sunday (0) or Saturday (6)
-        workDays++
-      }
-      current.setDate(current.getDate() + 1)
-    }
-
-    return workDays
-  }
-
   async bulkCreate(departments: CreateDepartmentData[]): Promise<DepartmentEntity[]> {
     const created = await this.prisma.department.createMany({
       data: departments.map(dept => ({
@@ -0,0 +1,173 @@
+// ============================================================================
+// HOLIDAY REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/HolidayRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, Holiday, OfficeLocation } from '@prisma/client'
+import {
+  IHolidayRepository,
+  HolidayEntity,
+  HolidayWithLocation,
+  CreateHolidayData,
+  UpdateHolidayData,
+  HolidayFilters
+} from '@/domain/repositories/IHolidayRepository'
+
+export class PrismaHolidayRepository implements IHolidayRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<HolidayWithLocation | null> {
+    const holiday = await this.prisma.holiday.findUnique({
+      where: { id },
+      include: { officeLocation: true }
+    })
+    return holiday ? this.toDomainWithLocation(holiday) : null
+  }
+
+  async create(data: CreateHolidayData): Promise<HolidayEntity> {
+    const holiday = await this.prisma.holiday.create({
+      data: {
+        date: data.date,
+        name: data.name,
+        type: data.type,
+        description: data.description,
+        officeLocationId: data.officeLocationId,
+        isActive: data.isActive ?? true
+      }
+    })
+    return this.toDomain(holiday)
+  }
+
+  async update(id: string, data: UpdateHolidayData): Promise<HolidayEntity> {
+    const holiday = await this.prisma.holiday.update({
+      where: { id },
+      data: {
+        ...(data.date && { date: data.date }),
+        ...(data.name && { name: data.name }),
+        ...(data.type && { type: data.type }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.officeLocationId !== undefined && { officeLocationId: data.officeLocationId }),
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      }
+    })
+    return this.toDomain(holiday)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.holiday.delete({
+      where: { id }
+    })
+  }
+
+  async findMany(filters: HolidayFilters, limit?: number, offset?: number): Promise<HolidayWithLocation[]> {
+    const holidays = await this.prisma.holiday.findMany({
+      where: this.buildWhere(filters),
+      include: { officeLocation: true },
+      orderBy: { date: 'asc' },
+      ...(limit && { take: limit }),
+      ...(offset && { skip: offset })
+    })
+    return holidays.map(holiday => this.toDomainWithLocation(holiday))
+  }
+
+  async countMany(filters: HolidayFilters): Promise<number> {
+    return await this.prisma.holiday.count({ where: this.buildWhere(filters) })
+  }
+
+  async findApplicable(startDate: Date, endDate: Date, officeLocationId?: string): Promise<HolidayEntity[]> {
+    const holidays = await this.prisma.holiday.findMany({
+      where: {
+        isActive: true,
+        date: { gte: startDate, lte: endDate },
+        OR: [
+          { officeLocationId: null },
+          ...(officeLocationId ? [{ officeLocationId }] : [])
+        ]
+      },
+      orderBy: { date: 'asc' }
+    })
+    return holidays.map(holiday => this.toDomain(holiday))
+  }
+
+  async findDuplicate(
+    date: Date,
+    name: string,
+    officeLocationId?: string,
+    excludeId?: string
+  ): Promise<HolidayEntity | null> {
+    const holiday = await this.prisma.holiday.findFirst({
+      where: {
+        date,
+        name: { equals: name, mode: 'insensitive' },
+        officeLocationId: officeLocationId ?? null,
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    return holiday ? this.toDomain(holiday) : null
+  }
+
+  // Helper methods
+  private buildWhere(filters: HolidayFilters): Prisma.HolidayWhereInput {
+    const where: Prisma.HolidayWhereInput = {}
+
+    if (filters.year) {
+      where.date = {
+        gte: new Date(Date.UTC(filters.year, 0, 1)),
+        lte: new Date(Date.UTC(filters.year, 11, 31))
+      }
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.date = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate })
+      }
+    }
+
+    if (filters.type) {
+      where.type = filters.type
+    }
+
+    if (filters.officeLocationId) {
+      where.officeLocationId = filters.officeLocationId
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { description: { contains: filters.search, mode: 'insensitive' } }
+      ]
+    }
+
+    return where
+  }
+
+  private toDomain(holiday: Holiday): HolidayEntity {
+    return {
+      id: holiday.id,
+      date: holiday.date,
+      name: holiday.name,
+      type: holiday.type,
+      description: holiday.description ?? undefined,
+      officeLocationId: holiday.officeLocationId ?? undefined,
+      isActive: holiday.isActive,
+      createdAt: holiday.createdAt,
+      updatedAt: holiday.updatedAt
+    }
+  }
+
+  private toDomainWithLocation(holiday: Holiday & { officeLocation: OfficeLocation | null }): HolidayWithLocation {
+    return {
+      ...this.toDomain(holiday),
+      officeLocation: holiday.officeLocation ? {
+        id: holiday.officeLocation.id,
+        name: holiday.officeLocation.name,
+        code: holiday.officeLocation.code
+      } : undefined
+    }
+  }
+}
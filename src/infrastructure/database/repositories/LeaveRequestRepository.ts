@@ -13,6 +13,7 @@ import {
   LeaveRequestWithUser,
   LeaveBalance
 } from '@/domain/repositories/ILeaveRequestRepository'
+import { countUserWorkDays } from './UserWorkDays'
 
 export class PrismaLeaveRequestRepository implements ILeaveRequestRepository {
   constructor(private prisma: PrismaClient) {}
@@ -56,6 +57,8 @@ export class PrismaLeaveRequestRepository implements ILeaveRequestRepository {
     const request = await this.prisma.leaveRequest.create({
       data: {
         ...data,
+        // Leave only consumes work days: weekends and the user's holidays are skipped
+        totalDays: await countUserWorkDays(this.prisma, data.userId, data.startDate, data.endDate),
         status: RequestStatus.PENDING,
         submittedAt: new Date()
       }
@@ -64,9 +67,27 @@ export class PrismaLeaveRequestRepository implements ILeaveRequestRepository {
   }
 
   async update(id: string, data: UpdateLeaveRequestData): Promise<LeaveRequestEntity> {
+    // Leave only consumes work days, so new dates recount the weekends and holidays in range
+    let totalDays: number | undefined
+    if (data.startDate || data.endDate) {
+      const existing = await this.prisma.leaveRequest.findUniqueOrThrow({
+        where: { id },
+        select: { userId: true, startDate: true, endDate: true }
+      })
+      totalDays = await countUserWorkDays(
+        this.prisma,
+        existing.userId,
+        data.startDate ?? existing.startDate,
+        data.endDate ?? existing.endDate
+      )
+    }
+
     const request = await this.prisma.leaveRequest.update({
       where: { id },
-      data
+      data: {
+        ...data,
+        ...(totalDays !== undefined && { totalDays })
+      }
     })
     return request
   }
@@ -0,0 +1,117 @@
+// ============================================================================
+// NAMED AREA REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/NamedAreaRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, NamedArea } from '@prisma/client'
+import {
+  INamedAreaRepository,
+  NamedAreaEntity,
+  CreateNamedAreaData,
+  UpdateNamedAreaData,
+  NamedAreaFilters
+} from '@/domain/repositories/INamedAreaRepository'
+
+export class PrismaNamedAreaRepository implements INamedAreaRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<NamedAreaEntity | null> {
+    const area = await this.prisma.namedArea.findUnique({
+      where: { id }
+    })
+    return area ? this.toDomain(area) : null
+  }
+
+  async create(data: CreateNamedAreaData): Promise<NamedAreaEntity> {
+    const area = await this.prisma.namedArea.create({
+      data: {
+        name: data.name,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        radiusMeters: data.radiusMeters,
+        isActive: data.isActive ?? true
+      }
+    })
+    return this.toDomain(area)
+  }
+
+  async update(id: string, data: UpdateNamedAreaData): Promise<NamedAreaEntity> {
+    const area = await this.prisma.namedArea.update({
+      where: { id },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.latitude !== undefined && { latitude: data.latitude }),
+        ...(data.longitude !== undefined && { longitude: data.longitude }),
+        ...(data.radiusMeters !== undefined && { radiusMeters: data.radiusMeters }),
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      }
+    })
+    return this.toDomain(area)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.namedArea.delete({
+      where: { id }
+    })
+  }
+
+  async findMany(filters: NamedAreaFilters, limit?: number, offset?: number): Promise<NamedAreaEntity[]> {
+    const areas = await this.prisma.namedArea.findMany({
+      where: this.buildWhere(filters),
+      orderBy: { name: 'asc' },
+      ...(limit && { take: limit }),
+      ...(offset && { skip: offset })
+    })
+    return areas.map(area => this.toDomain(area))
+  }
+
+  async countMany(filters: NamedAreaFilters): Promise<number> {
+    return await this.prisma.namedArea.count({ where: this.buildWhere(filters) })
+  }
+
+  async findActive(): Promise<NamedAreaEntity[]> {
+    const areas = await this.prisma.namedArea.findMany({
+      where: { isActive: true },
+      orderBy: { name: 'asc' }
+    })
+    return areas.map(area => this.toDomain(area))
+  }
+
+  async isNameUnique(name: string, excludeId?: string): Promise<boolean> {
+    const existing = await this.prisma.namedArea.findFirst({
+      where: {
+        name: { equals: name, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    return !existing
+  }
+
+  // Helper methods
+  private buildWhere(filters: NamedAreaFilters): Prisma.NamedAreaWhereInput {
+    const where: Prisma.NamedAreaWhereInput = {}
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive
+    }
+
+    if (filters.search) {
+      where.name = { contains: filters.search, mode: 'insensitive' }
+    }
+
+    return where
+  }
+
+  private toDomain(area: NamedArea): NamedAreaEntity {
+    return {
+      id: area.id,
+      name: area.name,
+      latitude: Number(area.latitude),
+      longitude: Number(area.longitude),
+      radiusMeters: area.radiusMeters,
+      isActive: area.isActive,
+      createdAt: area.createdAt,
+      updatedAt: area.updatedAt
+    }
+  }
+}
@@ -0,0 +1,176 @@
+// ============================================================================
+// OFFICE ASSIGNMENT REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/OfficeAssignmentRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, DayOfWeek, UserStatus } from '@prisma/client'
+import {
+  IOfficeAssignmentRepository,
+  OfficeAssignment,
+  OfficeAssignmentFilters,
+  OfficeAssignmentMode,
+  OfficeAssignmentProfile
+} from '@/domain/repositories/IOfficeAssignmentRepository'
+
+const OFFICE_ASSIGNMENT_INCLUDE = {
+  officeLocation: {
+    select: { id: true, name: true, code: true }
+  }
+} satisfies Prisma.OfficeAssignmentInclude
+
+const OFFICE_ASSIGNMENT_PROFILE_SELECT = {
+  id: true,
+  name: true,
+  nip: true,
+  department: {
+    select: { name: true }
+  },
+  officeAssignments: {
+    include: OFFICE_ASSIGNMENT_INCLUDE,
+    orderBy: { createdAt: 'asc' }
+  },
+  workSchedules: {
+    where: { isActive: true, officeLocationId: { not: null } },
+    select: {
+      dayOfWeek: true,
+      officeLocation: {
+        select: { id: true, name: true }
+      }
+    }
+  }
+} satisfies Prisma.UserSelect
+
+type OfficeAssignmentRow = Prisma.OfficeAssignmentGetPayload<{
+  include: typeof OFFICE_ASSIGNMENT_INCLUDE
+}>
+
+type OfficeAssignmentProfileRow = Prisma.UserGetPayload<{
+  select: typeof OFFICE_ASSIGNMENT_PROFILE_SELECT
+}>
+
+export class PrismaOfficeAssignmentRepository implements IOfficeAssignmentRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserAndDay(userId: string, dayOfWeek: DayOfWeek): Promise<OfficeAssignment[]> {
+    const assignments = await this.prisma.officeAssignment.findMany({
+      where: {
+        userId,
+        daysOfWeek: { has: dayOfWeek },
+        officeLocation: { isActive: true }
+      },
+      include: OFFICE_ASSIGNMENT_INCLUDE,
+      orderBy: { createdAt: 'asc' }
+    })
+    return assignments.map(assignment => this.toDomain(assignment))
+  }
+
+  async findMany(filters: OfficeAssignmentFilters, limit = 50, offset = 0): Promise<OfficeAssignmentProfile[]> {
+    const users = await this.prisma.user.findMany({
+      where: this.buildWhere(filters),
+      select: OFFICE_ASSIGNMENT_PROFILE_SELECT,
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset
+    })
+    return users.map(user => this.toProfile(user))
+  }
+
+  async countMany(filters: OfficeAssignmentFilters): Promise<number> {
+    return this.prisma.user.count({
+      where: this.buildWhere(filters)
+    })
+  }
+
+  async findActiveUserIdsByDepartments(departmentIds: string[]): Promise<string[]> {
+    const users = await this.prisma.user.findMany({
+      where: {
+        status: UserStatus.ACTIVE,
+        departmentId: { in: departmentIds }
+      },
+      select: { id: true }
+    })
+    return users.map(user => user.id)
+  }
+
+  async assign(
+    userIds: string[],
+    officeLocationId: string,
+    daysOfWeek: DayOfWeek[],
+    mode: OfficeAssignmentMode
+  ): Promise<number> {
+    await this.prisma.$transaction([
+      ...(mode === 'REPLACE'
+        ? [this.prisma.officeAssignment.deleteMany({
+            where: { userId: { in: userIds }, officeLocationId: { not: officeLocationId } }
+          })]
+        : []),
+      ...userIds.map(userId => this.prisma.officeAssignment.upsert({
+        where: { userId_officeLocationId: { userId, officeLocationId } },
+        create: { userId, officeLocationId, daysOfWeek },
+        update: { daysOfWeek }
+      }))
+    ])
+    return userIds.length
+  }
+
+  async unassign(userIds: string[], officeLocationId?: string): Promise<number> {
+    const result = await this.prisma.officeAssignment.deleteMany({
+      where: {
+        userId: { in: userIds },
+        ...(officeLocationId && { officeLocationId })
+      }
+    })
+    return result.count
+  }
+
+  // Helper methods
+  private buildWhere(filters: OfficeAssignmentFilters): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {
+      status: UserStatus.ACTIVE
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { nip: { contains: filters.search } }
+      ]
+    }
+
+    if (filters.departmentId) {
+      where.departmentId = filters.departmentId
+    }
+
+    if (filters.officeLocationId) {
+      where.officeAssignments = { some: { officeLocationId: filters.officeLocationId } }
+    }
+
+    if (filters.unassigned) {
+      where.officeAssignments = { none: {} }
+      where.workSchedules = { none: { isActive: true, officeLocationId: { not: null } } }
+    }
+
+    return where
+  }
+
+  private toDomain(assignment: OfficeAssignmentRow): OfficeAssignment {
+    return {
+      officeLocationId: assignment.officeLocation.id,
+      officeLocationName: assignment.officeLocation.name,
+      officeLocationCode: assignment.officeLocation.code,
+      daysOfWeek: assignment.daysOfWeek
+    }
+  }
+
+  private toProfile(user: OfficeAssignmentProfileRow): OfficeAssignmentProfile {
+    return {
+      userId: user.id,
+      name: user.name ?? undefined,
+      nip: user.nip ?? undefined,
+      departmentName: user.department?.name,
+      assignments: user.officeAssignments.map(assignment => this.toDomain(assignment)),
+      scheduledOffices: user.workSchedules.flatMap(({ dayOfWeek, officeLocation }) => officeLocation
+        ? [{ dayOfWeek, officeLocationId: officeLocation.id, officeLocationName: officeLocation.name }]
+        : [])
+    }
+  }
+}
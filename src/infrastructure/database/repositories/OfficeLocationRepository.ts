@@ -3,7 +3,7 @@
 // src/infrastructure/database/repositories/OfficeLocationRepository.ts
 // ============================================================================
 
-import { PrismaClient } from '@prisma/client'
+import { PrismaClient, Prisma } from '@prisma/client'
 import { 
   IOfficeLocationRepository,
   OfficeLocationEntity,
@@ -11,6 +11,7 @@ import {
   UpdateOfficeLocationData,
   OfficeLocationFilters
 } from '@/domain/repositories/IOfficeLocationRepository'
+import { OfficeBoundary, distanceToBoundary, parseBoundary } from '@/utils/geofence'
 
 export class PrismaOfficeLocationRepository implements IOfficeLocationRepository {
   constructor(private prisma: PrismaClient) {}
@@ -45,6 +46,13 @@ export class PrismaOfficeLocationRepository implements IOfficeLocationRepository
         latitude: data.latitude,
         longitude: data.longitude,
         radiusMeters: data.radiusMeters || 100,
+        ...(data.boundary && { boundary: this.toJsonBoundary(data.boundary) }),
+        ...(data.boundaryBufferMeters !== undefined && { boundaryBufferMeters: data.boundaryBufferMeters }),
+        ...(data.toleranceMeters !== undefined && { toleranceMeters: data.toleranceMeters }),
+        ...(data.maxAccuracyMeters !== undefined && { maxAccuracyMeters: data.maxAccuracyMeters }),
+        ...(data.requirePhoto !== undefined && { requirePhoto: data.requirePhoto }),
+        ...(data.kioskMode !== undefined && { kioskMode: data.kioskMode }),
+        ...(data.kioskKey !== undefined && { kioskKey: data.kioskKey }),
         isActive: data.isActive ?? true
       }
     })
@@ -61,6 +69,15 @@ export class PrismaOfficeLocationRepository implements IOfficeLocationRepository
         ...(data.latitude !== undefined && { latitude: data.latitude }),
         ...(data.longitude !== undefined && { longitude: data.longitude }),
         ...(data.radiusMeters !== undefined && { radiusMeters: data.radiusMeters }),
+        ...(data.boundary !== undefined && {
+          boundary: data.boundary ? this.toJsonBoundary(data.boundary) : Prisma.DbNull
+        }),
+        ...(data.boundaryBufferMeters !== undefined && { boundaryBufferMeters: data.boundaryBufferMeters }),
+        ...(data.toleranceMeters !== undefined && { toleranceMeters: data.toleranceMeters }),
+        ...(data.maxAccuracyMeters !== undefined && { maxAccuracyMeters: data.maxAccuracyMeters }),
+        ...(data.requirePhoto !== undefined && { requirePhoto: data.requirePhoto }),
+        ...(data.kioskMode !== undefined && { kioskMode: data.kioskMode }),
+        ...(data.kioskKey !== undefined && { kioskKey: data.kioskKey }),
         ...(data.isActive !== undefined && { isActive: data.isActive })
       }
     })
@@ -151,30 +168,6 @@ export class PrismaOfficeLocationRepository implements IOfficeLocationRepository
     return await this.prisma.officeLocation.count({ where })
   }
 
-  async findNearbyLocations(
-    latitude: number, 
-    longitude: number, 
-    radiusMeters: number = 1000
-  ): Promise<OfficeLocationEntity[]> {
-    // Note: This is a simplified implementation
-    // In production, you might want to use PostGIS or similar for better performance
-    const locations = await this.prisma.officeLocation.findMany({
-      where: { isActive: true }
-    })
-
-    const nearbyLocations = locations.filter(location => {
-      const distance = this.calculateDistance(
-        latitude, 
-        longitude, 
-        Number(location.latitude), 
-        Number(location.longitude)
-      )
-      return distance <= radiusMeters
-    })
-
-    return nearbyLocations.map(this.toDomain)
-  }
-
   async isLocationWithinRadius(
     latitude: number, 
     longitude: number, 
@@ -183,6 +176,10 @@ export class PrismaOfficeLocationRepository implements IOfficeLocationRepository
     const location = await this.findById(officeLocationId)
     if (!location) return false
 
+    if (location.boundary) {
+      return distanceToBoundary({ latitude, longitude }, location.boundary) <= location.boundaryBufferMeters
+    }
+
     const distance = this.calculateDistance(
       latitude,
       longitude,
@@ -223,12 +220,23 @@ export class PrismaOfficeLocationRepository implements IOfficeLocationRepository
       latitude: Number(location.latitude),
       longitude: Number(location.longitude),
       radiusMeters: location.radiusMeters,
+      boundary: location.boundary ? parseBoundary(location.boundary).boundary : undefined,
+      boundaryBufferMeters: location.boundaryBufferMeters,
+      toleranceMeters: location.toleranceMeters,
+      maxAccuracyMeters: location.maxAccuracyMeters,
+      requirePhoto: location.requirePhoto,
+      kioskMode: location.kioskMode,
+      kioskKey: location.kioskKey || undefined,
       isActive: location.isActive,
       createdAt: location.createdAt,
       updatedAt: location.updatedAt
     }
   }
 
+  private toJsonBoundary(boundary: OfficeBoundary): Prisma.InputJsonValue {
+    return boundary as unknown as Prisma.InputJsonValue
+  }
+
   private calculateDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
     const R = 6371e3 // Earth's radius in meters
     const φ1 = lat1 * Math.PI / 180
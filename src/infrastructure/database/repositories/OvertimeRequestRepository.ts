@@ -0,0 +1,388 @@
+// ============================================================================
+// OVERTIME REQUEST REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/OvertimeRequestRepository.ts
+// ============================================================================
+
+import {
+  PrismaClient,
+  Prisma,
+  OvertimeRequest,
+  ApprovalStatus,
+  DocumentType,
+  RequestStatus,
+  UserStatus
+} from '@prisma/client'
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestEntity,
+  OvertimeRequestWithDetails,
+  CreateOvertimeRequestData,
+  OvertimeRequestFilters,
+  OvertimeApprover,
+  OvertimeTeamMember
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { findDepartmentHeadChain } from './DepartmentHeadChain'
+
+const OVERTIME_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nip: true,
+      department: {
+        select: { id: true, name: true }
+      }
+    }
+  },
+  submittedBy: {
+    select: { id: true, name: true }
+  },
+  currentApprover: {
+    select: { id: true, name: true }
+  },
+  approvals: {
+    include: {
+      approver: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: { stepOrder: 'asc' }
+  }
+} satisfies Prisma.OvertimeRequestInclude
+
+type OvertimeRequestWithRelations = Prisma.OvertimeRequestGetPayload<{
+  include: typeof OVERTIME_INCLUDE
+}>
+
+export class PrismaOvertimeRequestRepository implements IOvertimeRequestRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<OvertimeRequestWithDetails | null> {
+    const overtime = await this.prisma.overtimeRequest.findUnique({
+      where: { id },
+      include: OVERTIME_INCLUDE
+    })
+    return overtime ? this.toDetails(overtime) : null
+  }
+
+  async findMany(filters: OvertimeRequestFilters, limit = 50, offset = 0): Promise<OvertimeRequestWithDetails[]> {
+    const overtimes = await this.prisma.overtimeRequest.findMany({
+      where: this.buildWhere(filters),
+      include: OVERTIME_INCLUDE,
+      orderBy: [{ overtimeDate: 'desc' }, { startTime: 'desc' }],
+      take: limit,
+      skip: offset
+    })
+    return overtimes.map(overtime => this.toDetails(overtime))
+  }
+
+  async countMany(filters: OvertimeRequestFilters): Promise<number> {
+    return this.prisma.overtimeRequest.count({
+      where: this.buildWhere(filters)
+    })
+  }
+
+  async hasOverlappingRequest(userId: string, startTime: Date, endTime: Date): Promise<boolean> {
+    const count = await this.prisma.overtimeRequest.count({
+      where: {
+        userId,
+        status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] },
+        startTime: { lt: endTime },
+        endTime: { gt: startTime }
+      }
+    })
+    return count > 0
+  }
+
+  async create(data: CreateOvertimeRequestData): Promise<OvertimeRequestWithDetails> {
+    const overtime = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.overtimeRequest.create({
+        data: {
+          userId: data.userId,
+          submittedById: data.submittedById,
+          attendanceId: data.attendanceId,
+          overtimeDate: data.overtimeDate,
+          startTime: data.startTime,
+          endTime: data.endTime,
+          isWorkingDay: data.isWorkingDay,
+          requestedMinutes: data.requestedMinutes,
+          reason: data.reason,
+          currentApproverId: data.approverId
+        }
+      })
+
+      await tx.approval.create({
+        data: {
+          documentType: DocumentType.OVERTIME,
+          documentId: created.id,
+          overtimeRequestId: created.id,
+          approverId: data.approverId,
+          stepOrder: 1
+        }
+      })
+
+      return tx.overtimeRequest.findUniqueOrThrow({
+        where: { id: created.id },
+        include: OVERTIME_INCLUDE
+      })
+    })
+
+    return this.toDetails(overtime)
+  }
+
+  async approveStep(
+    id: string,
+    approverId: string,
+    comments?: string,
+    nextApproverId?: string,
+    approvedMinutes?: number
+  ): Promise<OvertimeRequestWithDetails> {
+    const now = new Date()
+
+    const overtime = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.APPROVED,
+          comments,
+          approvedAt: now
+        }
+      })
+
+      if (nextApproverId) {
+        await tx.approval.create({
+          data: {
+            documentType: DocumentType.OVERTIME,
+            documentId: id,
+            overtimeRequestId: id,
+            approverId: nextApproverId,
+            stepOrder: step.stepOrder + 1
+          }
+        })
+      }
+
+      return tx.overtimeRequest.update({
+        where: { id },
+        data: nextApproverId
+          ? { currentApproverId: nextApproverId }
+          : { status: RequestStatus.APPROVED, currentApproverId: null, approvedAt: now, approvedMinutes },
+        include: OVERTIME_INCLUDE
+      })
+    })
+
+    return this.toDetails(overtime)
+  }
+
+  async rejectStep(id: string, approverId: string, reason: string): Promise<OvertimeRequestWithDetails> {
+    const now = new Date()
+
+    const overtime = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.REJECTED,
+          comments: reason,
+          rejectedAt: now
+        }
+      })
+
+      return tx.overtimeRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.REJECTED,
+          currentApproverId: null,
+          rejectionReason: reason,
+          rejectedAt: now
+        },
+        include: OVERTIME_INCLUDE
+      })
+    })
+
+    return this.toDetails(overtime)
+  }
+
+  async cancel(id: string): Promise<OvertimeRequestWithDetails> {
+    const overtime = await this.prisma.$transaction(async (tx) => {
+      // A cancelled request no longer waits for anyone
+      await tx.approval.deleteMany({
+        where: {
+          overtimeRequestId: id,
+          status: ApprovalStatus.PENDING
+        }
+      })
+
+      return tx.overtimeRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.CANCELLED,
+          currentApproverId: null
+        },
+        include: OVERTIME_INCLUDE
+      })
+    })
+
+    return this.toDetails(overtime)
+  }
+
+  async findApproverChain(userId: string): Promise<OvertimeApprover[]> {
+    return findDepartmentHeadChain(this.prisma, userId)
+  }
+
+  async findTeamMembers(headUserId: string): Promise<OvertimeTeamMember[]> {
+    const headed = await this.prisma.department.findMany({
+      where: { headUserId },
+      select: { id: true }
+    })
+
+    // Collect the headed departments and everything below them
+    const departmentIds = new Set<string>()
+    let frontier = headed.map(department => department.id)
+    while (frontier.length > 0) {
+      frontier.forEach(id => departmentIds.add(id))
+      const children = await this.prisma.department.findMany({
+        where: { parentDepartmentId: { in: frontier } },
+        select: { id: true }
+      })
+      frontier = children.map(child => child.id).filter(id => !departmentIds.has(id))
+    }
+
+    if (departmentIds.size === 0) {
+      return []
+    }
+
+    const users = await this.prisma.user.findMany({
+      where: {
+        departmentId: { in: [...departmentIds] },
+        status: UserStatus.ACTIVE,
+        id: { not: headUserId }
+      },
+      select: {
+        id: true,
+        name: true,
+        nip: true,
+        department: {
+          select: { name: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return users.map(user => ({
+      id: user.id,
+      name: user.name ?? undefined,
+      nip: user.nip ?? undefined,
+      departmentName: user.department?.name
+    }))
+  }
+
+  // Helper methods
+  private async findPendingStep(tx: Prisma.TransactionClient, id: string, approverId: string) {
+    const step = await tx.approval.findFirst({
+      where: {
+        overtimeRequestId: id,
+        approverId,
+        status: ApprovalStatus.PENDING
+      },
+      orderBy: { stepOrder: 'asc' }
+    })
+
+    if (!step) {
+      throw new Error(`No pending approval step for approver ${approverId} on overtime request ${id}`)
+    }
+
+    return step
+  }
+
+  private buildWhere(filters: OvertimeRequestFilters): Prisma.OvertimeRequestWhereInput {
+    const where: Prisma.OvertimeRequestWhereInput = {}
+
+    if (filters.userId) {
+      where.userId = filters.userId
+    }
+
+    if (filters.requesterId) {
+      where.OR = [
+        { userId: filters.requesterId },
+        { submittedById: filters.requesterId }
+      ]
+    }
+
+    if (filters.currentApproverId) {
+      where.currentApproverId = filters.currentApproverId
+    }
+
+    if (filters.departmentId) {
+      where.user = { departmentId: filters.departmentId }
+    }
+
+    if (filters.status) {
+      where.status = filters.status
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.overtimeDate = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate })
+      }
+    }
+
+    return where
+  }
+
+  private toDomain(overtime: OvertimeRequest): OvertimeRequestEntity {
+    return {
+      id: overtime.id,
+      userId: overtime.userId,
+      submittedById: overtime.submittedById,
+      attendanceId: overtime.attendanceId ?? undefined,
+      overtimeDate: overtime.overtimeDate,
+      startTime: overtime.startTime,
+      endTime: overtime.endTime,
+      isWorkingDay: overtime.isWorkingDay,
+      requestedMinutes: overtime.requestedMinutes,
+      approvedMinutes: overtime.approvedMinutes ?? undefined,
+      reason: overtime.reason,
+      status: overtime.status,
+      currentApproverId: overtime.currentApproverId ?? undefined,
+      rejectionReason: overtime.rejectionReason ?? undefined,
+      submittedAt: overtime.submittedAt,
+      approvedAt: overtime.approvedAt ?? undefined,
+      rejectedAt: overtime.rejectedAt ?? undefined,
+      createdAt: overtime.createdAt,
+      updatedAt: overtime.updatedAt
+    }
+  }
+
+  private toDetails(overtime: OvertimeRequestWithRelations): OvertimeRequestWithDetails {
+    return {
+      ...this.toDomain(overtime),
+      user: {
+        id: overtime.user.id,
+        name: overtime.user.name ?? undefined,
+        nip: overtime.user.nip ?? undefined,
+        department: overtime.user.department ?? undefined
+      },
+      submittedBy: {
+        id: overtime.submittedBy.id,
+        name: overtime.submittedBy.name ?? undefined
+      },
+      currentApprover: overtime.currentApprover
+        ? { id: overtime.currentApprover.id, name: overtime.currentApprover.name ?? undefined }
+        : undefined,
+      approvals: overtime.approvals.map(approval => ({
+        id: approval.id,
+        approverId: approval.approverId,
+        approverName: approval.approver.name ?? undefined,
+        stepOrder: approval.stepOrder,
+        status: approval.status,
+        comments: approval.comments ?? undefined,
+        approvedAt: approval.approvedAt ?? undefined,
+        rejectedAt: approval.rejectedAt ?? undefined
+      }))
+    }
+  }
+}
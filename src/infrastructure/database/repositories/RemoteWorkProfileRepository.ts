@@ -0,0 +1,121 @@
+// ============================================================================
+// REMOTE WORK PROFILE REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/RemoteWorkProfileRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, UserStatus } from '@prisma/client'
+import {
+  IRemoteWorkProfileRepository,
+  RemoteWorkProfile,
+  RemoteWorkProfileFilters,
+  UpdateRemoteWorkProfileData
+} from '@/domain/repositories/IRemoteWorkProfileRepository'
+
+const REMOTE_WORK_PROFILE_SELECT = {
+  id: true,
+  name: true,
+  nip: true,
+  latitude: true,
+  longitude: true,
+  homeRadiusMeters: true,
+  homeLocationApprovedAt: true,
+  wfhDays: true,
+  department: {
+    select: { name: true }
+  },
+  homeLocationApprovedBy: {
+    select: { id: true, name: true }
+  }
+} satisfies Prisma.UserSelect
+
+type RemoteWorkProfileRow = Prisma.UserGetPayload<{
+  select: typeof REMOTE_WORK_PROFILE_SELECT
+}>
+
+export class PrismaRemoteWorkProfileRepository implements IRemoteWorkProfileRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserId(userId: string): Promise<RemoteWorkProfile | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: REMOTE_WORK_PROFILE_SELECT
+    })
+    return user ? this.toDomain(user) : null
+  }
+
+  async findMany(filters: RemoteWorkProfileFilters, limit = 50, offset = 0): Promise<RemoteWorkProfile[]> {
+    const users = await this.prisma.user.findMany({
+      where: this.buildWhere(filters),
+      select: REMOTE_WORK_PROFILE_SELECT,
+      orderBy: { name: 'asc' },
+      take: limit,
+      skip: offset
+    })
+    return users.map(user => this.toDomain(user))
+  }
+
+  async countMany(filters: RemoteWorkProfileFilters): Promise<number> {
+    return this.prisma.user.count({
+      where: this.buildWhere(filters)
+    })
+  }
+
+  async update(userId: string, data: UpdateRemoteWorkProfileData): Promise<RemoteWorkProfile> {
+    const user = await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        latitude: data.homeLatitude,
+        longitude: data.homeLongitude,
+        homeRadiusMeters: data.homeRadiusMeters,
+        homeLocationApprovedAt: data.homeLocationApprovedAt,
+        homeLocationApprovedById: data.homeLocationApprovedById,
+        wfhDays: data.wfhDays
+      },
+      select: REMOTE_WORK_PROFILE_SELECT
+    })
+    return this.toDomain(user)
+  }
+
+  // Helper methods
+  private buildWhere(filters: RemoteWorkProfileFilters): Prisma.UserWhereInput {
+    const where: Prisma.UserWhereInput = {
+      status: UserStatus.ACTIVE
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { nip: { contains: filters.search } }
+      ]
+    }
+
+    if (filters.departmentId) {
+      where.departmentId = filters.departmentId
+    }
+
+    if (filters.awaitingApproval) {
+      where.latitude = { not: null }
+      where.longitude = { not: null }
+      where.homeLocationApprovedAt = null
+    }
+
+    return where
+  }
+
+  private toDomain(user: RemoteWorkProfileRow): RemoteWorkProfile {
+    return {
+      userId: user.id,
+      name: user.name ?? undefined,
+      nip: user.nip ?? undefined,
+      departmentName: user.department?.name,
+      homeLatitude: user.latitude !== null ? Number(user.latitude) : undefined,
+      homeLongitude: user.longitude !== null ? Number(user.longitude) : undefined,
+      homeRadiusMeters: user.homeRadiusMeters,
+      homeLocationApprovedAt: user.homeLocationApprovedAt ?? undefined,
+      homeLocationApprovedBy: user.homeLocationApprovedBy
+        ? { id: user.homeLocationApprovedBy.id, name: user.homeLocationApprovedBy.name ?? undefined }
+        : undefined,
+      wfhDays: user.wfhDays
+    }
+  }
+}
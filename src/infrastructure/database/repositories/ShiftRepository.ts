@@ -0,0 +1,135 @@
+// ============================================================================
+// SHIFT REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/ShiftRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, Shift } from '@prisma/client'
+import {
+  IShiftRepository,
+  ShiftEntity,
+  CreateShiftData,
+  UpdateShiftData,
+  ShiftFilters
+} from '@/domain/repositories/IShiftRepository'
+import { formatTimeColumn, toTimeColumn } from '@/utils/dateUtils'
+
+export class PrismaShiftRepository implements IShiftRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<ShiftEntity | null> {
+    const shift = await this.prisma.shift.findUnique({
+      where: { id }
+    })
+    return shift ? toShiftEntity(shift) : null
+  }
+
+  async findByCode(code: string): Promise<ShiftEntity | null> {
+    const shift = await this.prisma.shift.findUnique({
+      where: { code }
+    })
+    return shift ? toShiftEntity(shift) : null
+  }
+
+  async create(data: CreateShiftData): Promise<ShiftEntity> {
+    const shift = await this.prisma.shift.create({
+      data: {
+        name: data.name,
+        code: data.code,
+        startTime: toTimeColumn(data.startTime),
+        endTime: toTimeColumn(data.endTime),
+        lateToleranceMinutes: data.lateToleranceMinutes,
+        description: data.description,
+        isActive: data.isActive ?? true
+      }
+    })
+    return toShiftEntity(shift)
+  }
+
+  async update(id: string, data: UpdateShiftData): Promise<ShiftEntity> {
+    const shift = await this.prisma.shift.update({
+      where: { id },
+      data: {
+        ...(data.name && { name: data.name }),
+        ...(data.code && { code: data.code }),
+        ...(data.startTime && { startTime: toTimeColumn(data.startTime) }),
+        ...(data.endTime && { endTime: toTimeColumn(data.endTime) }),
+        ...(data.lateToleranceMinutes !== undefined && { lateToleranceMinutes: data.lateToleranceMinutes }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      }
+    })
+    return toShiftEntity(shift)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.shift.delete({
+      where: { id }
+    })
+  }
+
+  async findMany(filters: ShiftFilters): Promise<ShiftEntity[]> {
+    const where: Prisma.ShiftWhereInput = {}
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive
+    }
+
+    if (filters.search) {
+      where.OR = [
+        { name: { contains: filters.search, mode: 'insensitive' } },
+        { code: { contains: filters.search, mode: 'insensitive' } }
+      ]
+    }
+
+    const shifts = await this.prisma.shift.findMany({
+      where,
+      orderBy: [{ startTime: 'asc' }, { name: 'asc' }]
+    })
+    return shifts.map(shift => toShiftEntity(shift))
+  }
+
+  async findByIds(ids: string[]): Promise<ShiftEntity[]> {
+    const shifts = await this.prisma.shift.findMany({
+      where: { id: { in: ids } }
+    })
+    return shifts.map(shift => toShiftEntity(shift))
+  }
+
+  async isCodeUnique(code: string, excludeId?: string): Promise<boolean> {
+    const shift = await this.prisma.shift.findFirst({
+      where: {
+        code,
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    return !shift
+  }
+
+  async countUsage(id: string): Promise<{ attendances: number; rosters: number }> {
+    const [attendances, rosters] = await Promise.all([
+      this.prisma.attendance.count({ where: { shiftId: id } }),
+      this.prisma.shiftRoster.count({ where: { shiftId: id } })
+    ])
+    return { attendances, rosters }
+  }
+}
+
+// Shared with the roster repository, which includes shifts in its queries
+export function toShiftEntity(shift: Shift): ShiftEntity {
+  const startTime = formatTimeColumn(shift.startTime)
+  const endTime = formatTimeColumn(shift.endTime)
+
+  return {
+    id: shift.id,
+    name: shift.name,
+    code: shift.code,
+    startTime,
+    endTime,
+    isOvernight: endTime <= startTime,
+    lateToleranceMinutes: shift.lateToleranceMinutes ?? undefined,
+    description: shift.description ?? undefined,
+    isActive: shift.isActive,
+    createdAt: shift.createdAt,
+    updatedAt: shift.updatedAt
+  }
+}
@@ -0,0 +1,129 @@
+// ============================================================================
+// SHIFT ROSTER REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/ShiftRosterRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, ShiftRoster } from '@prisma/client'
+import {
+  IShiftRosterRepository,
+  ShiftRosterEntity,
+  ShiftRosterWithDetails,
+  UpsertShiftRosterData,
+  ShiftRosterFilters
+} from '@/domain/repositories/IShiftRosterRepository'
+import { ShiftEntity } from '@/domain/repositories/IShiftRepository'
+import { toShiftEntity } from './ShiftRepository'
+
+export class PrismaShiftRosterRepository implements IShiftRosterRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByUserAndDate(userId: string, date: Date): Promise<(ShiftRosterEntity & { shift?: ShiftEntity }) | null> {
+    const roster = await this.prisma.shiftRoster.findUnique({
+      where: {
+        userId_date: { userId, date }
+      },
+      include: { shift: true }
+    })
+
+    if (!roster) {
+      return null
+    }
+
+    return {
+      ...this.toDomain(roster),
+      shift: roster.shift ? toShiftEntity(roster.shift) : undefined
+    }
+  }
+
+  async findMany(filters: ShiftRosterFilters): Promise<ShiftRosterWithDetails[]> {
+    const where: Prisma.ShiftRosterWhereInput = {}
+
+    if (filters.userId) {
+      where.userId = filters.userId
+    }
+
+    if (filters.userIds) {
+      where.userId = { in: filters.userIds }
+    }
+
+    if (filters.shiftId) {
+      where.shiftId = filters.shiftId
+    }
+
+    if (filters.departmentId) {
+      where.user = { departmentId: filters.departmentId }
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.date = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate })
+      }
+    }
+
+    const rosters = await this.prisma.shiftRoster.findMany({
+      where,
+      include: {
+        shift: true,
+        user: {
+          select: { id: true, name: true, nip: true }
+        }
+      },
+      orderBy: [{ date: 'asc' }, { user: { name: 'asc' } }]
+    })
+
+    return rosters.map(roster => ({
+      ...this.toDomain(roster),
+      shift: roster.shift ? toShiftEntity(roster.shift) : undefined,
+      user: {
+        id: roster.user.id,
+        name: roster.user.name ?? undefined,
+        nip: roster.user.nip ?? undefined
+      }
+    }))
+  }
+
+  async upsertMany(entries: UpsertShiftRosterData[]): Promise<number> {
+    await this.prisma.$transaction(
+      entries.map(entry => this.prisma.shiftRoster.upsert({
+        where: {
+          userId_date: { userId: entry.userId, date: entry.date }
+        },
+        create: {
+          userId: entry.userId,
+          shiftId: entry.shiftId,
+          date: entry.date,
+          notes: entry.notes
+        },
+        update: {
+          shiftId: entry.shiftId,
+          notes: entry.notes ?? null
+        }
+      }))
+    )
+    return entries.length
+  }
+
+  async deleteRange(userIds: string[], startDate: Date, endDate: Date): Promise<number> {
+    const result = await this.prisma.shiftRoster.deleteMany({
+      where: {
+        userId: { in: userIds },
+        date: { gte: startDate, lte: endDate }
+      }
+    })
+    return result.count
+  }
+
+  // Helper methods
+  private toDomain(roster: ShiftRoster): ShiftRosterEntity {
+    return {
+      id: roster.id,
+      userId: roster.userId,
+      shiftId: roster.shiftId ?? undefined,
+      date: roster.date,
+      notes: roster.notes ?? undefined,
+      createdAt: roster.createdAt,
+      updatedAt: roster.updatedAt
+    }
+  }
+}
@@ -0,0 +1,51 @@
+// ============================================================================
+// SYSTEM SETTING REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/SystemSettingRepository.ts
+// ============================================================================
+
+import { PrismaClient, SystemSetting } from '@prisma/client'
+import {
+  ISystemSettingRepository,
+  SystemSettingEntity
+} from '@/domain/repositories/ISystemSettingRepository'
+
+export class PrismaSystemSettingRepository implements ISystemSettingRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findByKey(key: string): Promise<SystemSettingEntity | null> {
+    const setting = await this.prisma.systemSetting.findUnique({
+      where: { key }
+    })
+    return setting ? this.toDomain(setting) : null
+  }
+
+  async findByKeys(keys: string[]): Promise<SystemSettingEntity[]> {
+    const settings = await this.prisma.systemSetting.findMany({
+      where: { key: { in: keys } }
+    })
+    return settings.map(setting => this.toDomain(setting))
+  }
+
+  async findByCategory(category: string): Promise<SystemSettingEntity[]> {
+    const settings = await this.prisma.systemSetting.findMany({
+      where: { category },
+      orderBy: { key: 'asc' }
+    })
+    return settings.map(setting => this.toDomain(setting))
+  }
+
+  // Helper methods
+  private toDomain(setting: SystemSetting): SystemSettingEntity {
+    return {
+      id: setting.id,
+      key: setting.key,
+      value: setting.value ?? undefined,
+      description: setting.description ?? undefined,
+      dataType: setting.dataType,
+      category: setting.category,
+      isEditable: setting.isEditable,
+      createdAt: setting.createdAt,
+      updatedAt: setting.updatedAt
+    }
+  }
+}
@@ -0,0 +1,116 @@
+// ============================================================================
+// TPP DEDUCTION RULE REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/TppDeductionRuleRepository.ts
+// ============================================================================
+
+import { PrismaClient, Prisma, TppDeductionRule } from '@prisma/client'
+import {
+  ITppDeductionRuleRepository,
+  TppDeductionRuleEntity,
+  CreateTppDeductionRuleData,
+  UpdateTppDeductionRuleData,
+  TppDeductionRuleFilters
+} from '@/domain/repositories/ITppDeductionRuleRepository'
+
+export class PrismaTppDeductionRuleRepository implements ITppDeductionRuleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<TppDeductionRuleEntity | null> {
+    const rule = await this.prisma.tppDeductionRule.findUnique({
+      where: { id }
+    })
+    return rule ? this.toDomain(rule) : null
+  }
+
+  async create(data: CreateTppDeductionRuleData): Promise<TppDeductionRuleEntity> {
+    const rule = await this.prisma.tppDeductionRule.create({
+      data: {
+        code: data.code,
+        category: data.category,
+        minMinutes: data.minMinutes,
+        maxMinutes: data.maxMinutes ?? null,
+        percentage: data.percentage,
+        description: data.description,
+        appliesToMissingPunch: data.appliesToMissingPunch ?? false,
+        isActive: data.isActive ?? true
+      }
+    })
+    return this.toDomain(rule)
+  }
+
+  async update(id: string, data: UpdateTppDeductionRuleData): Promise<TppDeductionRuleEntity> {
+    const rule = await this.prisma.tppDeductionRule.update({
+      where: { id },
+      data: {
+        ...(data.code && { code: data.code }),
+        ...(data.category && { category: data.category }),
+        ...(data.minMinutes !== undefined && { minMinutes: data.minMinutes }),
+        ...(data.maxMinutes !== undefined && { maxMinutes: data.maxMinutes }),
+        ...(data.percentage !== undefined && { percentage: data.percentage }),
+        ...(data.description !== undefined && { description: data.description }),
+        ...(data.appliesToMissingPunch !== undefined && { appliesToMissingPunch: data.appliesToMissingPunch }),
+        ...(data.isActive !== undefined && { isActive: data.isActive })
+      }
+    })
+    return this.toDomain(rule)
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.tppDeductionRule.delete({
+      where: { id }
+    })
+  }
+
+  async findMany(filters: TppDeductionRuleFilters): Promise<TppDeductionRuleEntity[]> {
+    const rules = await this.prisma.tppDeductionRule.findMany({
+      where: this.buildWhere(filters),
+      orderBy: [{ category: 'asc' }, { minMinutes: 'asc' }]
+    })
+    return rules.map(rule => this.toDomain(rule))
+  }
+
+  async findActive(): Promise<TppDeductionRuleEntity[]> {
+    return this.findMany({ isActive: true })
+  }
+
+  async isCodeUnique(code: string, excludeId?: string): Promise<boolean> {
+    const existing = await this.prisma.tppDeductionRule.findFirst({
+      where: {
+        code: { equals: code, mode: 'insensitive' },
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    return !existing
+  }
+
+  // Helper methods
+  private buildWhere(filters: TppDeductionRuleFilters): Prisma.TppDeductionRuleWhereInput {
+    const where: Prisma.TppDeductionRuleWhereInput = {}
+
+    if (filters.category) {
+      where.category = filters.category
+    }
+
+    if (filters.isActive !== undefined) {
+      where.isActive = filters.isActive
+    }
+
+    return where
+  }
+
+  private toDomain(rule: TppDeductionRule): TppDeductionRuleEntity {
+    return {
+      id: rule.id,
+      code: rule.code,
+      category: rule.category,
+      minMinutes: rule.minMinutes,
+      maxMinutes: rule.maxMinutes ?? undefined,
+      percentage: Number(rule.percentage),
+      description: rule.description || undefined,
+      appliesToMissingPunch: rule.appliesToMissingPunch,
+      isActive: rule.isActive,
+      createdAt: rule.createdAt,
+      updatedAt: rule.updatedAt
+    }
+  }
+}
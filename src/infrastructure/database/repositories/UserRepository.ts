@@ -29,6 +29,14 @@ export class PrismaUserRepository implements IUserRepository {
     return user ? this.toDomain(user) : null;
   }
 
+  async findByNIPs(nips: string[]): Promise<UserEntity[]> {
+    const users = await this.prisma.user.findMany({
+      where: { nip: { in: nips } }
+    });
+
+    return users.map(user => this.toDomain(user));
+  }
+
   async findByPhone(phone: string): Promise<UserEntity | null> {
     const user = await this.prisma.user.findUnique({
       where: { phone }
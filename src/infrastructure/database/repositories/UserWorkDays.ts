@@ -0,0 +1,68 @@
+// ============================================================================
+// USER WORK DAYS
+// src/infrastructure/database/repositories/UserWorkDays.ts
+// ============================================================================
+
+import { PrismaClient } from '@prisma/client'
+import { DAY_INDEX_TO_DAY_OF_WEEK } from '@/infrastructure/services/WorkScheduleService'
+import { calculateWorkDays, normalizeToEndOfDay, normalizeToStartOfDay } from '@/utils/dateUtils'
+
+/**
+ * Work days of each user in a date range, excluding weekends and the holidays
+ * that apply to them
+ * Resolves holidays like HolidayService.findHoliday does for attendance: national
+ * holidays and cuti bersama for everyone, regional holidays for users whose work
+ * schedule places them at that office on the holiday's weekday.
+ */
+export async function countWorkDaysByUser(
+  prisma: PrismaClient,
+  userIds: string[],
+  startDate: Date,
+  endDate: Date
+): Promise<Map<string, number>> {
+  const schedules = await prisma.workSchedule.findMany({
+    where: { userId: { in: userIds }, isActive: true, officeLocationId: { not: null } },
+    select: { userId: true, dayOfWeek: true, officeLocationId: true }
+  })
+
+  const officeLocationIds = [...new Set(schedules.map(schedule => schedule.officeLocationId!))]
+  const holidays = await prisma.holiday.findMany({
+    where: {
+      isActive: true,
+      date: { gte: normalizeToStartOfDay(startDate), lte: normalizeToEndOfDay(endDate) },
+      OR: [
+        { officeLocationId: null },
+        ...(officeLocationIds.length > 0 ? [{ officeLocationId: { in: officeLocationIds } }] : [])
+      ]
+    },
+    select: { date: true, officeLocationId: true }
+  })
+
+  const workDays = new Map<string, number>()
+  for (const userId of userIds) {
+    const userSchedules = schedules.filter(schedule => schedule.userId === userId)
+    const holidayDates = holidays
+      .filter(holiday => !holiday.officeLocationId || userSchedules.some(schedule =>
+        schedule.officeLocationId === holiday.officeLocationId &&
+        schedule.dayOfWeek === DAY_INDEX_TO_DAY_OF_WEEK[holiday.date.getUTCDay()]
+      ))
+      .map(holiday => holiday.date)
+
+    workDays.set(userId, calculateWorkDays(startDate, endDate, holidayDates))
+  }
+
+  return workDays
+}
+
+/**
+ * Work days of one user in a date range, see countWorkDaysByUser
+ */
+export async function countUserWorkDays(
+  prisma: PrismaClient,
+  userId: string,
+  startDate: Date,
+  endDate: Date
+): Promise<number> {
+  const workDays = await countWorkDaysByUser(prisma, [userId], startDate, endDate)
+  return workDays.get(userId) ?? 0
+}
@@ -0,0 +1,317 @@
+// ============================================================================
+// WORK FROM HOME REQUEST REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/WorkFromHomeRequestRepository.ts
+// ============================================================================
+
+import {
+  PrismaClient,
+  Prisma,
+  WorkFromHomeRequest,
+  ApprovalStatus,
+  DocumentType,
+  RequestStatus
+} from '@prisma/client'
+import {
+  IWorkFromHomeRequestRepository,
+  WorkFromHomeRequestEntity,
+  WorkFromHomeRequestWithDetails,
+  CreateWorkFromHomeRequestData,
+  WorkFromHomeRequestFilters,
+  WorkFromHomeApprover
+} from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { findDepartmentHeadChain } from './DepartmentHeadChain'
+
+const WORK_FROM_HOME_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nip: true,
+      department: {
+        select: { id: true, name: true }
+      }
+    }
+  },
+  currentApprover: {
+    select: { id: true, name: true }
+  },
+  approvals: {
+    include: {
+      approver: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: { stepOrder: 'asc' }
+  }
+} satisfies Prisma.WorkFromHomeRequestInclude
+
+type WorkFromHomeRequestWithRelations = Prisma.WorkFromHomeRequestGetPayload<{
+  include: typeof WORK_FROM_HOME_INCLUDE
+}>
+
+export class PrismaWorkFromHomeRequestRepository implements IWorkFromHomeRequestRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<WorkFromHomeRequestWithDetails | null> {
+    const wfhRequest = await this.prisma.workFromHomeRequest.findUnique({
+      where: { id },
+      include: WORK_FROM_HOME_INCLUDE
+    })
+    return wfhRequest ? this.toDetails(wfhRequest) : null
+  }
+
+  async findMany(filters: WorkFromHomeRequestFilters, limit = 50, offset = 0): Promise<WorkFromHomeRequestWithDetails[]> {
+    const wfhRequests = await this.prisma.workFromHomeRequest.findMany({
+      where: this.buildWhere(filters),
+      include: WORK_FROM_HOME_INCLUDE,
+      orderBy: [{ wfhDate: 'desc' }, { submittedAt: 'desc' }],
+      take: limit,
+      skip: offset
+    })
+    return wfhRequests.map(wfhRequest => this.toDetails(wfhRequest))
+  }
+
+  async countMany(filters: WorkFromHomeRequestFilters): Promise<number> {
+    return this.prisma.workFromHomeRequest.count({
+      where: this.buildWhere(filters)
+    })
+  }
+
+  async hasActiveRequest(userId: string, wfhDate: Date): Promise<boolean> {
+    const count = await this.prisma.workFromHomeRequest.count({
+      where: {
+        userId,
+        wfhDate,
+        status: { in: [RequestStatus.PENDING, RequestStatus.APPROVED] }
+      }
+    })
+    return count > 0
+  }
+
+  async hasApprovedRequest(userId: string, wfhDate: Date): Promise<boolean> {
+    const count = await this.prisma.workFromHomeRequest.count({
+      where: {
+        userId,
+        wfhDate,
+        status: RequestStatus.APPROVED
+      }
+    })
+    return count > 0
+  }
+
+  async create(data: CreateWorkFromHomeRequestData): Promise<WorkFromHomeRequestWithDetails> {
+    const wfhRequest = await this.prisma.$transaction(async (tx) => {
+      const created = await tx.workFromHomeRequest.create({
+        data: {
+          userId: data.userId,
+          wfhDate: data.wfhDate,
+          reason: data.reason,
+          currentApproverId: data.approverId
+        }
+      })
+
+      await tx.approval.create({
+        data: {
+          documentType: DocumentType.WORK_FROM_HOME,
+          documentId: created.id,
+          workFromHomeRequestId: created.id,
+          approverId: data.approverId,
+          stepOrder: 1
+        }
+      })
+
+      return tx.workFromHomeRequest.findUniqueOrThrow({
+        where: { id: created.id },
+        include: WORK_FROM_HOME_INCLUDE
+      })
+    })
+
+    return this.toDetails(wfhRequest)
+  }
+
+  async approveStep(
+    id: string,
+    approverId: string,
+    comments?: string,
+    nextApproverId?: string
+  ): Promise<WorkFromHomeRequestWithDetails> {
+    const now = new Date()
+
+    const wfhRequest = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.APPROVED,
+          comments,
+          approvedAt: now
+        }
+      })
+
+      if (nextApproverId) {
+        await tx.approval.create({
+          data: {
+            documentType: DocumentType.WORK_FROM_HOME,
+            documentId: id,
+            workFromHomeRequestId: id,
+            approverId: nextApproverId,
+            stepOrder: step.stepOrder + 1
+          }
+        })
+      }
+
+      return tx.workFromHomeRequest.update({
+        where: { id },
+        data: nextApproverId
+          ? { currentApproverId: nextApproverId }
+          : { status: RequestStatus.APPROVED, currentApproverId: null, approvedAt: now },
+        include: WORK_FROM_HOME_INCLUDE
+      })
+    })
+
+    return this.toDetails(wfhRequest)
+  }
+
+  async rejectStep(id: string, approverId: string, reason: string): Promise<WorkFromHomeRequestWithDetails> {
+    const now = new Date()
+
+    const wfhRequest = await this.prisma.$transaction(async (tx) => {
+      const step = await this.findPendingStep(tx, id, approverId)
+
+      await tx.approval.update({
+        where: { id: step.id },
+        data: {
+          status: ApprovalStatus.REJECTED,
+          comments: reason,
+          rejectedAt: now
+        }
+      })
+
+      return tx.workFromHomeRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.REJECTED,
+          currentApproverId: null,
+          rejectionReason: reason,
+          rejectedAt: now
+        },
+        include: WORK_FROM_HOME_INCLUDE
+      })
+    })
+
+    return this.toDetails(wfhRequest)
+  }
+
+  async cancel(id: string): Promise<WorkFromHomeRequestWithDetails> {
+    const wfhRequest = await this.prisma.$transaction(async (tx) => {
+      // A cancelled request no longer waits for anyone
+      await tx.approval.deleteMany({
+        where: {
+          workFromHomeRequestId: id,
+          status: ApprovalStatus.PENDING
+        }
+      })
+
+      return tx.workFromHomeRequest.update({
+        where: { id },
+        data: {
+          status: RequestStatus.CANCELLED,
+          currentApproverId: null
+        },
+        include: WORK_FROM_HOME_INCLUDE
+      })
+    })
+
+    return this.toDetails(wfhRequest)
+  }
+
+  async findApproverChain(userId: string): Promise<WorkFromHomeApprover[]> {
+    return findDepartmentHeadChain(this.prisma, userId)
+  }
+
+  // Helper methods
+  private async findPendingStep(tx: Prisma.TransactionClient, id: string, approverId: string) {
+    const step = await tx.approval.findFirst({
+      where: {
+        workFromHomeRequestId: id,
+        approverId,
+        status: ApprovalStatus.PENDING
+      },
+      orderBy: { stepOrder: 'asc' }
+    })
+
+    if (!step) {
+      throw new Error(`No pending approval step for approver ${approverId} on work from home request ${id}`)
+    }
+
+    return step
+  }
+
+  private buildWhere(filters: WorkFromHomeRequestFilters): Prisma.WorkFromHomeRequestWhereInput {
+    const where: Prisma.WorkFromHomeRequestWhereInput = {}
+
+    if (filters.userId) {
+      where.userId = filters.userId
+    }
+
+    if (filters.currentApproverId) {
+      where.currentApproverId = filters.currentApproverId
+    }
+
+    if (filters.status) {
+      where.status = filters.status
+    }
+
+    if (filters.startDate || filters.endDate) {
+      where.wfhDate = {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate })
+      }
+    }
+
+    return where
+  }
+
+  private toDomain(wfhRequest: WorkFromHomeRequest): WorkFromHomeRequestEntity {
+    return {
+      id: wfhRequest.id,
+      userId: wfhRequest.userId,
+      wfhDate: wfhRequest.wfhDate,
+      reason: wfhRequest.reason,
+      status: wfhRequest.status,
+      currentApproverId: wfhRequest.currentApproverId ?? undefined,
+      rejectionReason: wfhRequest.rejectionReason ?? undefined,
+      submittedAt: wfhRequest.submittedAt,
+      approvedAt: wfhRequest.approvedAt ?? undefined,
+      rejectedAt: wfhRequest.rejectedAt ?? undefined,
+      createdAt: wfhRequest.createdAt,
+      updatedAt: wfhRequest.updatedAt
+    }
+  }
+
+  private toDetails(wfhRequest: WorkFromHomeRequestWithRelations): WorkFromHomeRequestWithDetails {
+    return {
+      ...this.toDomain(wfhRequest),
+      user: {
+        id: wfhRequest.user.id,
+        name: wfhRequest.user.name ?? undefined,
+        nip: wfhRequest.user.nip ?? undefined,
+        department: wfhRequest.user.department ?? undefined
+      },
+      currentApprover: wfhRequest.currentApprover
+        ? { id: wfhRequest.currentApprover.id, name: wfhRequest.currentApprover.name ?? undefined }
+        : undefined,
+      approvals: wfhRequest.approvals.map(approval => ({
+        id: approval.id,
+        approverId: approval.approverId,
+        approverName: approval.approver.name ?? undefined,
+        stepOrder: approval.stepOrder,
+        status: approval.status,
+        comments: approval.comments ?? undefined,
+        approvedAt: approval.approvedAt ?? undefined,
+        rejectedAt: approval.rejectedAt ?? undefined
+      }))
+    }
+  }
+}
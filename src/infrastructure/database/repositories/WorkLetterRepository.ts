@@ -3,16 +3,60 @@
 // src/infrastructure/database/repositories/WorkLetterRepository.ts
 // ============================================================================
 
-import { PrismaClient, WorkLetterType, RequestStatus } from '@prisma/client'
+import { PrismaClient, Prisma, WorkLetter, WorkLetterType, RequestStatus } from '@prisma/client'
 import {
   IWorkLetterRepository,
   WorkLetterEntity,
   CreateWorkLetterData,
   UpdateWorkLetterData,
   WorkLetterFilters,
-  WorkLetterWithUser
+  WorkLetterWithUser,
+  FieldDutyLetter,
+  FieldDutyLetterWithUser,
+  UpdateFieldDutyDestinationData
 } from '@/domain/repositories/IWorkLetterRepository'
 
+// Letter types that send the employee out of the office for the day
+const FIELD_DUTY_LETTER_TYPES: WorkLetterType[] = [WorkLetterType.TRAVEL, WorkLetterType.ASSIGNMENT]
+
+const FIELD_DUTY_LETTER_INCLUDE = {
+  user: {
+    select: { id: true, name: true, nip: true }
+  }
+} satisfies Prisma.WorkLetterInclude
+
+type FieldDutyLetterRow = Prisma.WorkLetterGetPayload<{
+  include: typeof FIELD_DUTY_LETTER_INCLUDE
+}>
+
+const WORK_LETTER_WITH_USER_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      name: true,
+      nip: true,
+      department: {
+        select: {
+          id: true,
+          name: true
+        }
+      }
+    }
+  },
+  currentApprover: {
+    select: {
+      id: true,
+      name: true
+    }
+  }
+} satisfies Prisma.WorkLetterInclude
+
+type WorkLetterWithUserRow = Prisma.WorkLetterGetPayload<{
+  include: typeof WORK_LETTER_WITH_USER_INCLUDE
+}>
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
 export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   constructor(private prisma: PrismaClient) {}
 
@@ -20,54 +64,56 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
     const workLetter = await this.prisma.workLetter.findUnique({
       where: { id }
     })
-    return workLetter
+    return workLetter ? this.toDomain(workLetter) : null
   }
 
   async findByIdWithUser(id: string): Promise<WorkLetterWithUser | null> {
     const workLetter = await this.prisma.workLetter.findUnique({
       where: { id },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      }
+      include: WORK_LETTER_WITH_USER_INCLUDE
     })
-    return workLetter as WorkLetterWithUser | null
+    return workLetter ? this.toDomainWithUser(workLetter) : null
   }
 
   async create(data: CreateWorkLetterData): Promise<WorkLetterEntity> {
     const workLetter = await this.prisma.workLetter.create({
       data: {
-        ...data,
+        userId: data.userId,
+        letterType: data.workLetterType,
+        subject: data.purpose,
+        content: data.description || '',
+        effectiveDate: data.startDate,
+        expiryDate: data.endDate,
+        destinationName: data.destination || null,
+        attachmentFile: data.attachmentFile,
+        currentApproverId: data.currentApproverId,
         status: RequestStatus.PENDING,
         submittedAt: new Date()
       }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
   async update(id: string, data: UpdateWorkLetterData): Promise<WorkLetterEntity> {
     const workLetter = await this.prisma.workLetter.update({
       where: { id },
-      data
+      data: {
+        ...(data.letterNumber !== undefined && { letterNumber: data.letterNumber }),
+        ...(data.workLetterType !== undefined && { letterType: data.workLetterType }),
+        ...(data.purpose !== undefined && { subject: data.purpose }),
+        ...(data.destination !== undefined && { destinationName: data.destination || null }),
+        ...(data.startDate !== undefined && { effectiveDate: data.startDate }),
+        ...(data.endDate !== undefined && { expiryDate: data.endDate }),
+        ...(data.description !== undefined && { content: data.description }),
+        ...(data.attachmentFile !== undefined && { attachmentFile: data.attachmentFile }),
+        ...(data.status !== undefined && { status: data.status }),
+        ...(data.currentApproverId !== undefined && { currentApproverId: data.currentApproverId }),
+        ...(data.rejectionReason !== undefined && { rejectionReason: data.rejectionReason }),
+        ...(data.approvedAt !== undefined && { approvedAt: data.approvedAt }),
+        ...(data.rejectedAt !== undefined && { rejectedAt: data.rejectedAt })
+      }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
   async delete(id: string): Promise<void> {
@@ -81,169 +127,133 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
       where: { userId },
       orderBy: { submittedAt: 'desc' }
     })
-    return workLetters
+    return workLetters.map(workLetter => this.toDomain(workLetter))
   }
 
   async findByUserIdWithDetails(userId: string): Promise<WorkLetterWithUser[]> {
     const workLetters = await this.prisma.workLetter.findMany({
       where: { userId },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      },
+      include: WORK_LETTER_WITH_USER_INCLUDE,
       orderBy: { submittedAt: 'desc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
   async findByUserAndStatus(userId: string, status: RequestStatus): Promise<WorkLetterEntity[]> {
     const workLetters = await this.prisma.workLetter.findMany({
-      where: { 
+      where: {
         userId,
-        status 
+        status
       },
       orderBy: { submittedAt: 'desc' }
     })
-    return workLetters
+    return workLetters.map(workLetter => this.toDomain(workLetter))
   }
 
   async findByUserAndDateRange(userId: string, startDate: Date, endDate: Date): Promise<WorkLetterEntity[]> {
     const workLetters = await this.prisma.workLetter.findMany({
       where: {
         userId,
-        startDate: {
+        effectiveDate: {
           gte: startDate,
           lte: endDate
         }
       },
-      orderBy: { startDate: 'asc' }
+      orderBy: { effectiveDate: 'asc' }
     })
-    return workLetters
+    return workLetters.map(workLetter => this.toDomain(workLetter))
   }
 
-  async findByStatus(status: RequestStatus): Promise<WorkLetterWithUser[]> {
+  async findByApproverId(approverId: string): Promise<WorkLetterWithUser[]> {
     const workLetters = await this.prisma.workLetter.findMany({
-      where: { status },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      },
+      where: { currentApproverId: approverId },
+      include: WORK_LETTER_WITH_USER_INCLUDE,
       orderBy: { submittedAt: 'desc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
-  async findByApprover(approverId: string): Promise<WorkLetterWithUser[]> {
+  async findPendingByApprover(approverId: string): Promise<WorkLetterWithUser[]> {
     const workLetters = await this.prisma.workLetter.findMany({
-      where: { 
+      where: {
         currentApproverId: approverId,
         status: RequestStatus.PENDING
       },
-      include: {
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { submittedAt: 'asc' }
+    })
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
+  }
+
+  async findByApproverAndStatus(approverId: string, status: RequestStatus): Promise<WorkLetterWithUser[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: {
+        currentApproverId: approverId,
+        status
+      },
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { submittedAt: 'desc' }
+    })
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
+  }
+
+  async findByDepartment(departmentId: string): Promise<WorkLetterWithUser[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: {
         user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
+          departmentId
         }
       },
-      orderBy: { submittedAt: 'asc' }
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { submittedAt: 'desc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
-  async findByDepartment(departmentId: string): Promise<WorkLetterWithUser[]> {
+  async findByDepartmentAndStatus(departmentId: string, status: RequestStatus): Promise<WorkLetterWithUser[]> {
     const workLetters = await this.prisma.workLetter.findMany({
       where: {
+        status,
         user: {
           departmentId
         }
       },
-      include: {
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { submittedAt: 'desc' }
+    })
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
+  }
+
+  async findByDepartmentAndDateRange(departmentId: string, startDate: Date, endDate: Date): Promise<WorkLetterWithUser[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: {
         user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
+          departmentId
         },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
+        effectiveDate: {
+          gte: startDate,
+          lte: endDate
         }
       },
-      orderBy: { submittedAt: 'desc' }
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { effectiveDate: 'asc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
   async findByLetterNumber(letterNumber: string): Promise<WorkLetterEntity | null> {
-    const workLetter = await this.prisma.workLetter.findUnique({
+    const workLetter = await this.prisma.workLetter.findFirst({
       where: { letterNumber }
     })
-    return workLetter
+    return workLetter ? this.toDomain(workLetter) : null
   }
 
   async generateLetterNumber(workLetterType: WorkLetterType, year: number): Promise<string> {
     // Get the count of work letters for this type and year
     const count = await this.prisma.workLetter.count({
       where: {
-        workLetterType,
+        letterType: workLetterType,
+        letterNumber: { not: null },
         createdAt: {
           gte: new Date(year, 0, 1),
           lt: new Date(year + 1, 0, 1)
@@ -252,9 +262,9 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
     })
 
     // Generate letter number based on type
-    const typeCode = workLetterType === WorkLetterType.BUSINESS_TRIP ? 'PD' : 
+    const typeCode = workLetterType === WorkLetterType.TRAVEL ? 'PD' :
                      workLetterType === WorkLetterType.ASSIGNMENT ? 'TG' : 'SK'
-    
+
     const sequence = String(count + 1).padStart(3, '0')
     return `${sequence}/${typeCode}/${year}`
   }
@@ -280,7 +290,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
         rejectionReason: comments
       }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
   async reject(id: string, approverId: string, reason: string): Promise<WorkLetterEntity> {
@@ -292,7 +302,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
         rejectionReason: reason
       }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
   async cancel(id: string, reason?: string): Promise<WorkLetterEntity> {
@@ -303,86 +313,36 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
         rejectionReason: reason
       }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
+  // A letter counts as issued once it has a letter number
   async issue(id: string): Promise<WorkLetterEntity> {
-    const workLetter = await this.prisma.workLetter.update({
-      where: { id },
-      data: {
-        issuedAt: new Date()
-      }
-    })
-    return workLetter
+    const workLetter = await this.findById(id)
+    if (!workLetter) {
+      throw new Error('Work letter not found')
+    }
+
+    return workLetter.letterNumber ? workLetter : await this.assignLetterNumber(id)
   }
 
   async findMany(filters: WorkLetterFilters, limit?: number, offset?: number): Promise<WorkLetterWithUser[]> {
-    const where: any = {}
-
-    if (filters.userId) where.userId = filters.userId
-    if (filters.status) where.status = filters.status
-    if (filters.workLetterType) where.workLetterType = filters.workLetterType
-    if (filters.departmentId) {
-      where.user = { departmentId: filters.departmentId }
-    }
-    if (filters.startDate && filters.endDate) {
-      where.startDate = {
-        gte: filters.startDate,
-        lte: filters.endDate
-      }
-    }
-
     const workLetters = await this.prisma.workLetter.findMany({
-      where,
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      },
+      where: this.buildWhere(filters),
+      include: WORK_LETTER_WITH_USER_INCLUDE,
       orderBy: { submittedAt: 'desc' },
       take: limit,
       skip: offset
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
   async countMany(filters: WorkLetterFilters): Promise<number> {
-    const where: any = {}
-
-    if (filters.userId) where.userId = filters.userId
-    if (filters.status) where.status = filters.status
-    if (filters.workLetterType) where.workLetterType = filters.workLetterType
-    if (filters.departmentId) {
-      where.user = { departmentId: filters.departmentId }
-    }
-    if (filters.startDate && filters.endDate) {
-      where.startDate = {
-        gte: filters.startDate,
-        lte: filters.endDate
-      }
-    }
-
-    return await this.prisma.workLetter.count({ where })
+    return await this.prisma.workLetter.count({ where: this.buildWhere(filters) })
   }
 
   async countByStatus(status: RequestStatus, startDate?: Date, endDate?: Date): Promise<number> {
-    const where: any = { status }
+    const where: Prisma.WorkLetterWhereInput = { status }
 
     if (startDate && endDate) {
       where.submittedAt = {
@@ -395,7 +355,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   }
 
   async countByUserAndStatus(userId: string, status: RequestStatus, year?: number): Promise<number> {
-    const where: any = { userId, status }
+    const where: Prisma.WorkLetterWhereInput = { userId, status }
 
     if (year) {
       where.submittedAt = {
@@ -408,7 +368,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   }
 
   async countByDepartmentAndStatus(departmentId: string, status: RequestStatus, startDate?: Date, endDate?: Date): Promise<number> {
-    const where: any = {
+    const where: Prisma.WorkLetterWhereInput = {
       status,
       user: { departmentId }
     }
@@ -424,7 +384,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   }
 
   async countByWorkLetterType(workLetterType: WorkLetterType, startDate?: Date, endDate?: Date): Promise<number> {
-    const where: any = { workLetterType }
+    const where: Prisma.WorkLetterWhereInput = { letterType: workLetterType }
 
     if (startDate && endDate) {
       where.submittedAt = {
@@ -439,68 +399,32 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   async findByDateRange(startDate: Date, endDate: Date): Promise<WorkLetterWithUser[]> {
     const workLetters = await this.prisma.workLetter.findMany({
       where: {
-        startDate: {
+        effectiveDate: {
           gte: startDate,
           lte: endDate
         }
       },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
-      },
-      orderBy: { startDate: 'asc' }
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { effectiveDate: 'asc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
   async findActiveWorkLettersByDate(date: Date): Promise<WorkLetterWithUser[]> {
+    // A letter without expiry date only covers its effective date
     const workLetters = await this.prisma.workLetter.findMany({
       where: {
         status: RequestStatus.APPROVED,
-        startDate: { lte: date },
-        endDate: { gte: date }
-      },
-      include: {
-        user: {
-          select: {
-            id: true,
-            name: true,
-            nip: true,
-            department: {
-              select: {
-                id: true,
-                name: true
-              }
-            }
-          }
-        },
-        currentApprover: {
-          select: {
-            id: true,
-            name: true
-          }
-        }
+        effectiveDate: { lte: date },
+        OR: [
+          { expiryDate: { gte: date } },
+          { expiryDate: null, effectiveDate: date }
+        ]
       },
-      orderBy: { startDate: 'asc' }
+      include: WORK_LETTER_WITH_USER_INCLUDE,
+      orderBy: { effectiveDate: 'asc' }
     })
-    return workLetters as WorkLetterWithUser[]
+    return workLetters.map(workLetter => this.toDomainWithUser(workLetter))
   }
 
   async findUpcomingWorkLetters(userId: string, days: number): Promise<WorkLetterEntity[]> {
@@ -512,14 +436,286 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
       where: {
         userId,
         status: RequestStatus.APPROVED,
-        startDate: {
+        effectiveDate: {
           gte: startDate,
           lte: endDate
         }
       },
-      orderBy: { startDate: 'asc' }
+      orderBy: { effectiveDate: 'asc' }
+    })
+    return workLetters.map(workLetter => this.toDomain(workLetter))
+  }
+
+  async findFieldDutyLetterById(id: string): Promise<FieldDutyLetterWithUser | null> {
+    const workLetter = await this.prisma.workLetter.findFirst({
+      where: {
+        id,
+        letterType: { in: FIELD_DUTY_LETTER_TYPES }
+      },
+      include: FIELD_DUTY_LETTER_INCLUDE
+    })
+    return workLetter ? this.toFieldDutyLetter(workLetter) : null
+  }
+
+  async findActiveFieldDutyLetter(userId: string, date: Date): Promise<FieldDutyLetter | null> {
+    const workLetter = await this.prisma.workLetter.findFirst({
+      where: {
+        userId,
+        ...this.activeFieldDutyWhere(date)
+      },
+      include: FIELD_DUTY_LETTER_INCLUDE,
+      orderBy: { approvedAt: 'desc' }
     })
-    return workLetters
+    return workLetter ? this.toFieldDutyLetter(workLetter) : null
+  }
+
+  async findActiveFieldDutyLettersByDate(date: Date): Promise<FieldDutyLetter[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: this.activeFieldDutyWhere(date),
+      include: FIELD_DUTY_LETTER_INCLUDE,
+      orderBy: { approvedAt: 'desc' }
+    })
+    return workLetters.map(workLetter => this.toFieldDutyLetter(workLetter))
+  }
+
+  async findFieldDutyLetters(fromDate: Date, limit?: number, offset?: number): Promise<FieldDutyLetterWithUser[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: this.upcomingFieldDutyWhere(fromDate),
+      include: FIELD_DUTY_LETTER_INCLUDE,
+      orderBy: [{ effectiveDate: 'asc' }, { submittedAt: 'asc' }],
+      take: limit,
+      skip: offset
+    })
+    return workLetters.map(workLetter => this.toFieldDutyLetter(workLetter))
+  }
+
+  async countFieldDutyLetters(fromDate: Date): Promise<number> {
+    return await this.prisma.workLetter.count({
+      where: this.upcomingFieldDutyWhere(fromDate)
+    })
+  }
+
+  async updateDestination(id: string, data: UpdateFieldDutyDestinationData): Promise<FieldDutyLetterWithUser> {
+    const workLetter = await this.prisma.workLetter.update({
+      where: { id },
+      data,
+      include: FIELD_DUTY_LETTER_INCLUDE
+    })
+    return this.toFieldDutyLetter(workLetter)
+  }
+
+  async hasConflictingWorkLetter(userId: string, startDate: Date, endDate: Date, excludeId?: string): Promise<boolean> {
+    const count = await this.prisma.workLetter.count({
+      where: {
+        ...this.conflictWhere(userId, startDate, endDate),
+        ...(excludeId && { id: { not: excludeId } })
+      }
+    })
+    return count > 0
+  }
+
+  async findConflictingWorkLetters(userId: string, startDate: Date, endDate: Date): Promise<WorkLetterEntity[]> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: this.conflictWhere(userId, startDate, endDate),
+      orderBy: { effectiveDate: 'asc' }
+    })
+    return workLetters.map(workLetter => this.toDomain(workLetter))
+  }
+
+  calculateWorkLetterDuration(startDate: Date, endDate: Date): number {
+    // Both dates are inclusive calendar dates
+    return Math.floor((endDate.getTime() - startDate.getTime()) / DAY_MS) + 1
+  }
+
+  async getTotalWorkLetterDays(userId: string, startDate: Date, endDate: Date): Promise<number> {
+    const workLetters = await this.prisma.workLetter.findMany({
+      where: {
+        ...this.conflictWhere(userId, startDate, endDate),
+        status: RequestStatus.APPROVED
+      }
+    })
+
+    // Only the days inside the range are counted
+    return workLetters.reduce((total, workLetter) => {
+      const letter = this.toDomain(workLetter)
+      const from = letter.startDate > startDate ? letter.startDate : startDate
+      const to = letter.endDate < endDate ? letter.endDate : endDate
+      return total + Math.max(0, this.calculateWorkLetterDuration(from, to))
+    }, 0)
+  }
+
+  async getMonthlyWorkLetterDays(userId: string, year: number, month: number): Promise<number> {
+    // Letter dates are stored as UTC calendar dates
+    const startDate = new Date(Date.UTC(year, month - 1, 1))
+    const endDate = new Date(Date.UTC(year, month, 0))
+
+    return this.getTotalWorkLetterDays(userId, startDate, endDate)
+  }
+
+  async bulkUpdateStatus(ids: string[], status: RequestStatus): Promise<number> {
+    const updateData: Prisma.WorkLetterUpdateManyMutationInput = { status }
+
+    if (status === RequestStatus.APPROVED) {
+      updateData.approvedAt = new Date()
+    } else if (status === RequestStatus.REJECTED) {
+      updateData.rejectedAt = new Date()
+    }
+
+    const result = await this.prisma.workLetter.updateMany({
+      where: {
+        id: {
+          in: ids
+        }
+      },
+      data: updateData
+    })
+    return result.count
+  }
+
+  async bulkDelete(ids: string[]): Promise<number> {
+    const result = await this.prisma.workLetter.deleteMany({
+      where: {
+        id: {
+          in: ids
+        }
+      }
+    })
+    return result.count
+  }
+
+  async bulkIssue(ids: string[]): Promise<number> {
+    // Letter numbers are sequential, so they are assigned one at a time
+    let issued = 0
+    for (const id of ids) {
+      const workLetter = await this.findById(id)
+      if (workLetter && !workLetter.letterNumber && workLetter.status === RequestStatus.APPROVED) {
+        await this.assignLetterNumber(id)
+        issued++
+      }
+    }
+    return issued
+  }
+
+  private buildWhere(filters: WorkLetterFilters): Prisma.WorkLetterWhereInput {
+    const where: Prisma.WorkLetterWhereInput = {}
+
+    if (filters.userId) where.userId = filters.userId
+    if (filters.status) where.status = filters.status
+    if (filters.workLetterType) where.letterType = filters.workLetterType
+    if (filters.currentApproverId) where.currentApproverId = filters.currentApproverId
+    if (filters.letterNumber) where.letterNumber = { contains: filters.letterNumber, mode: 'insensitive' }
+    if (filters.departmentId) {
+      where.user = { departmentId: filters.departmentId }
+    }
+    if (filters.startDate && filters.endDate) {
+      where.effectiveDate = {
+        gte: filters.startDate,
+        lte: filters.endDate
+      }
+    }
+
+    return where
+  }
+
+  // Pending or approved letters of a user overlapping a date range
+  private conflictWhere(userId: string, startDate: Date, endDate: Date): Prisma.WorkLetterWhereInput {
+    return {
+      userId,
+      status: {
+        in: [RequestStatus.PENDING, RequestStatus.APPROVED]
+      },
+      effectiveDate: { lte: endDate },
+      OR: [
+        { expiryDate: { gte: startDate } },
+        { expiryDate: null, effectiveDate: { gte: startDate } }
+      ]
+    }
+  }
+
+  private activeFieldDutyWhere(date: Date): Prisma.WorkLetterWhereInput {
+    // Same coverage rule as findActiveWorkLettersByDate
+    return {
+      status: RequestStatus.APPROVED,
+      letterType: { in: FIELD_DUTY_LETTER_TYPES },
+      effectiveDate: { lte: date },
+      OR: [
+        { expiryDate: { gte: date } },
+        { expiryDate: null, effectiveDate: date }
+      ]
+    }
+  }
+
+  private upcomingFieldDutyWhere(fromDate: Date): Prisma.WorkLetterWhereInput {
+    return {
+      status: RequestStatus.APPROVED,
+      letterType: { in: FIELD_DUTY_LETTER_TYPES },
+      OR: [
+        { expiryDate: { gte: fromDate } },
+        { expiryDate: null, effectiveDate: { gte: fromDate } }
+      ]
+    }
+  }
+
+  private toDomain(workLetter: WorkLetter): WorkLetterEntity {
+    return {
+      id: workLetter.id,
+      userId: workLetter.userId,
+      letterNumber: workLetter.letterNumber ?? undefined,
+      workLetterType: workLetter.letterType,
+      purpose: workLetter.subject,
+      destination: workLetter.destinationName ?? '',
+      destinationLatitude: workLetter.destinationLatitude ?? undefined,
+      destinationLongitude: workLetter.destinationLongitude ?? undefined,
+      destinationRadiusMeters: workLetter.destinationRadiusMeters,
+      startDate: workLetter.effectiveDate,
+      endDate: workLetter.expiryDate ?? workLetter.effectiveDate,
+      description: workLetter.content || undefined,
+      attachmentFile: workLetter.attachmentFile ?? undefined,
+      status: workLetter.status,
+      currentApproverId: workLetter.currentApproverId ?? undefined,
+      rejectionReason: workLetter.rejectionReason ?? undefined,
+      submittedAt: workLetter.submittedAt,
+      approvedAt: workLetter.approvedAt ?? undefined,
+      rejectedAt: workLetter.rejectedAt ?? undefined,
+      createdAt: workLetter.createdAt,
+      updatedAt: workLetter.updatedAt
+    }
+  }
+
+  private toDomainWithUser(workLetter: WorkLetterWithUserRow): WorkLetterWithUser {
+    return {
+      ...this.toDomain(workLetter),
+      user: {
+        id: workLetter.user.id,
+        name: workLetter.user.name ?? '',
+        nip: workLetter.user.nip ?? undefined,
+        department: workLetter.user.department ?? undefined
+      },
+      currentApprover: workLetter.currentApprover
+        ? { id: workLetter.currentApprover.id, name: workLetter.currentApprover.name ?? '' }
+        : undefined
+    }
+  }
+
+  private toFieldDutyLetter(workLetter: FieldDutyLetterRow): FieldDutyLetterWithUser {
+    return {
+      id: workLetter.id,
+      userId: workLetter.userId,
+      letterType: workLetter.letterType,
+      letterNumber: workLetter.letterNumber ?? undefined,
+      subject: workLetter.subject,
+      effectiveDate: workLetter.effectiveDate,
+      expiryDate: workLetter.expiryDate ?? undefined,
+      destinationName: workLetter.destinationName ?? undefined,
+      destinationLatitude: workLetter.destinationLatitude ?? undefined,
+      destinationLongitude: workLetter.destinationLongitude ?? undefined,
+      destinationRadiusMeters: workLetter.destinationRadiusMeters,
+      user: {
+        id: workLetter.user.id,
+        name: workLetter.user.name ?? undefined,
+        nip: workLetter.user.nip ?? undefined
+      }
+    }
   }
 
   async getWorkLetterStatistics(startDate: Date, endDate: Date, departmentId?: string): Promise<{
@@ -527,9 +723,11 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
     approvedRequests: number
     rejectedRequests: number
     pendingRequests: number
+    issuedLetters: number
     byWorkLetterType: Record<WorkLetterType, number>
+    totalDays: number
   }> {
-    const where: any = {
+    const where: Prisma.WorkLetterWhereInput = {
       submittedAt: {
         gte: startDate,
         lte: endDate
@@ -540,16 +738,18 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
       where.user = { departmentId }
     }
 
-    const [total, approved, rejected, pending, byType] = await Promise.all([
+    const [total, approved, rejected, pending, issued, byType, approvedLetters] = await Promise.all([
       this.prisma.workLetter.count({ where }),
       this.prisma.workLetter.count({ where: { ...where, status: RequestStatus.APPROVED } }),
       this.prisma.workLetter.count({ where: { ...where, status: RequestStatus.REJECTED } }),
       this.prisma.workLetter.count({ where: { ...where, status: RequestStatus.PENDING } }),
+      this.prisma.workLetter.count({ where: { ...where, letterNumber: { not: null } } }),
       this.prisma.workLetter.groupBy({
-        by: ['workLetterType'],
+        by: ['letterType'],
         where,
         _count: true
-      })
+      }),
+      this.prisma.workLetter.findMany({ where: { ...where, status: RequestStatus.APPROVED } })
     ])
 
     const byWorkLetterType: Record<WorkLetterType, number> = {} as Record<WorkLetterType, number>
@@ -558,15 +758,22 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
     })
 
     byType.forEach(item => {
-      byWorkLetterType[item.workLetterType] = item._count
+      byWorkLetterType[item.letterType] = item._count
     })
 
+    const totalDays = approvedLetters.reduce((sum, workLetter) => {
+      const letter = this.toDomain(workLetter)
+      return sum + this.calculateWorkLetterDuration(letter.startDate, letter.endDate)
+    }, 0)
+
     return {
       totalRequests: total,
       approvedRequests: approved,
       rejectedRequests: rejected,
       pendingRequests: pending,
-      byWorkLetterType
+      issuedLetters: issued,
+      byWorkLetterType,
+      totalDays
     }
   }
 
@@ -583,7 +790,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
         currentApproverId: nextApproverId
       }
     })
-    return workLetter
+    return this.toDomain(workLetter)
   }
 
   async getWorkLetterTemplate(workLetterType: WorkLetterType): Promise<string> {
@@ -626,7 +833,7 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   getWorkLetterTypeLimit(workLetterType: WorkLetterType): number {
     // Return limits in days per year for each type
     switch (workLetterType) {
-      case WorkLetterType.BUSINESS_TRIP:
+      case WorkLetterType.TRAVEL:
         return 30 // 30 days per year
       case WorkLetterType.ASSIGNMENT:
         return 60 // 60 days per year
@@ -638,35 +845,23 @@ export class PrismaWorkLetterRepository implements IWorkLetterRepository {
   async hasExceededYearlyLimit(userId: string, workLetterType: WorkLetterType, year: number): Promise<boolean> {
     const limit = this.getWorkLetterTypeLimit(workLetterType)
 
-    const totalDays = await this.prisma.workLetter.aggregate({
+    const workLetters = await this.prisma.workLetter.findMany({
       where: {
         userId,
-        workLetterType,
+        letterType: workLetterType,
         status: RequestStatus.APPROVED,
-        submittedAt: {
-          gte: new Date(year, 0, 1),
-          lt: new Date(year + 1, 0, 1)
+        effectiveDate: {
+          gte: new Date(Date.UTC(year, 0, 1)),
+          lt: new Date(Date.UTC(year + 1, 0, 1))
         }
-      },
-      _sum: {
-        // This would need a duration field in the schema
-        // For now, assume each request is 1 day
       }
     })
 
-    // Calculate total days (simplified)
-    const approvedRequests = await this.prisma.workLetter.count({
-      where: {
-        userId,
-        workLetterType,
-        status: RequestStatus.APPROVED,
-        submittedAt: {
-          gte: new Date(year, 0, 1),
-          lt: new Date(year + 1, 0, 1)
-        }
-      }
-    })
+    const totalDays = workLetters.reduce((sum, workLetter) => {
+      const letter = this.toDomain(workLetter)
+      return sum + this.calculateWorkLetterDuration(letter.startDate, letter.endDate)
+    }, 0)
 
-    return approvedRequests >= limit
+    return totalDays >= limit
   }
 }
@@ -0,0 +1,60 @@
+// ============================================================================
+// WORK SCHEDULE REPOSITORY IMPLEMENTATION
+// src/infrastructure/database/repositories/WorkScheduleRepository.ts
+// ============================================================================
+
+import { PrismaClient, DayOfWeek, WorkSchedule } from '@prisma/client'
+import {
+  IWorkScheduleRepository,
+  WorkScheduleEntity
+} from '@/domain/repositories/IWorkScheduleRepository'
+import { formatTimeColumn } from '@/utils/dateUtils'
+
+export class PrismaWorkScheduleRepository implements IWorkScheduleRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async findById(id: string): Promise<WorkScheduleEntity | null> {
+    const schedule = await this.prisma.workSchedule.findUnique({
+      where: { id }
+    })
+    return schedule ? this.toDomain(schedule) : null
+  }
+
+  async findByUserId(userId: string): Promise<WorkScheduleEntity[]> {
+    const schedules = await this.prisma.workSchedule.findMany({
+      where: { userId, isActive: true }
+    })
+    return schedules.map(schedule => this.toDomain(schedule))
+  }
+
+  async findByUserIds(userIds: string[]): Promise<WorkScheduleEntity[]> {
+    const schedules = await this.prisma.workSchedule.findMany({
+      where: { userId: { in: userIds }, isActive: true }
+    })
+    return schedules.map(schedule => this.toDomain(schedule))
+  }
+
+  async findByUserAndDay(userId: string, dayOfWeek: DayOfWeek): Promise<WorkScheduleEntity | null> {
+    const schedule = await this.prisma.workSchedule.findUnique({
+      where: {
+        userId_dayOfWeek: { userId, dayOfWeek }
+      }
+    })
+    return schedule && schedule.isActive ? this.toDomain(schedule) : null
+  }
+
+  // Helper methods
+  private toDomain(schedule: WorkSchedule): WorkScheduleEntity {
+    return {
+      id: schedule.id,
+      userId: schedule.userId,
+      officeLocationId: schedule.officeLocationId ?? undefined,
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: formatTimeColumn(schedule.startTime),
+      endTime: formatTimeColumn(schedule.endTime),
+      isActive: schedule.isActive,
+      createdAt: schedule.createdAt,
+      updatedAt: schedule.updatedAt
+    }
+  }
+}
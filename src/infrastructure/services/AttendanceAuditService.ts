@@ -3,15 +3,16 @@
 // src/infrastructure/services/AttendanceAuditService.ts
 // ============================================================================
 
-import { PrismaClient, AttendanceStatus } from '@prisma/client'
+import { PrismaClient, AttendanceReviewStatus, AttendanceStatus, PunchType, WorkMode } from '@prisma/client'
 import { logAuditAction } from '@/infrastructure/database/supabaseClient'
+import { LocationValidationResult } from '@/domain/services/ILocationValidationService'
 
 export interface AttendanceAuditData {
-  action: 'CHECK_IN' | 'CHECK_OUT' | 'UPDATE_STATUS' | 'MANUAL_ENTRY' | 'FAILED_CHECK_IN' | 'FAILED_CHECK_OUT'
+  action: 'CHECK_IN' | 'CHECK_OUT' | 'UPDATE_STATUS' | 'MANUAL_ENTRY' | 'FAILED_CHECK_IN' | 'FAILED_CHECK_OUT' | 'AUTO_ABSENT' | 'AUTO_FIELD_DUTY' | 'AUTO_CLOSE' | 'VOID' | 'PUNCH' | 'FAILED_PUNCH' | 'FRAUD_REVIEW' | 'FINGERPRINT_IMPORT'
   entityId: string
   entityType: 'ATTENDANCE'
   userId: string
-  performedBy: string
+  performedBy: string | null // null for changes made by scheduled system jobs
   oldValues?: Record<string, any>
   newValues?: Record<string, any>
   ipAddress?: string
@@ -35,6 +36,19 @@ export interface AttendanceAuditData {
   }
 }
 
+// Full attendance values recorded before/after an admin change
+export interface AttendanceAuditSnapshot {
+  attendanceDate: Date
+  checkInTime?: Date | null
+  checkOutTime?: Date | null
+  status: AttendanceStatus
+  lateMinutes: number
+  workingHoursMinutes: number
+  officeLocationId?: string | null
+  isValidLocation?: boolean
+  notes?: string | null
+}
+
 export class AttendanceAuditService {
   constructor(private prisma: PrismaClient) {}
 
@@ -56,7 +70,7 @@ export class AttendanceAuditService {
 
       // Also log to Supabase audit system for backup
       await logAuditAction({
-        userId: data.performedBy,
+        userId: data.performedBy ?? undefined,
         action: data.action,
         tableName: 'attendance',
         recordId: data.entityId,
@@ -80,12 +94,18 @@ export class AttendanceAuditService {
       attendanceDate: Date
       checkInTime: Date
       status: AttendanceStatus
+      lateMinutes?: number
       workingHoursMinutes: number
       isValidLocation: boolean
       latitude?: number
       longitude?: number
       address?: string
       officeLocationId?: string
+      kioskId?: string // Kiosk device that displayed the scanned QR code
+      kioskScanId?: string
+      syncedAt?: Date // Set when the check-in was captured offline
+      workMode?: WorkMode
+      workLetterId?: string // Work letter of a field duty check-in
     },
     performedBy: string,
     ipAddress?: string,
@@ -101,16 +121,24 @@ export class AttendanceAuditService {
         attendanceDate: attendanceData.attendanceDate.toISOString(),
         checkInTime: attendanceData.checkInTime.toISOString(),
         status: attendanceData.status,
+        lateMinutes: attendanceData.lateMinutes,
         workingHoursMinutes: attendanceData.workingHoursMinutes,
         isValidLocation: attendanceData.isValidLocation,
         checkInLatitude: attendanceData.latitude,
         checkInLongitude: attendanceData.longitude,
         checkInAddress: attendanceData.address,
-        officeLocationId: attendanceData.officeLocationId
+        officeLocationId: attendanceData.officeLocationId,
+        kioskId: attendanceData.kioskId,
+        kioskScanId: attendanceData.kioskScanId,
+        checkInSyncedAt: attendanceData.syncedAt?.toISOString(),
+        workMode: attendanceData.workMode,
+        workLetterId: attendanceData.workLetterId
       },
       ipAddress,
       userAgent,
-      reason: 'Employee check-in',
+      reason: attendanceData.kioskScanId
+        ? 'Employee check-in via kiosk QR code'
+        : attendanceData.syncedAt ? 'Employee check-in captured offline' : 'Employee check-in',
       metadata: {
         attendanceDate: attendanceData.attendanceDate,
         checkInTime: attendanceData.checkInTime,
@@ -141,6 +169,7 @@ export class AttendanceAuditService {
       latitude?: number
       longitude?: number
       address?: string
+      syncedAt?: Date // Set when the check-out was captured offline
     },
     performedBy: string,
     ipAddress?: string,
@@ -165,11 +194,12 @@ export class AttendanceAuditService {
         isValidLocation: newData.isValidLocation,
         checkOutLatitude: newData.latitude,
         checkOutLongitude: newData.longitude,
-        checkOutAddress: newData.address
+        checkOutAddress: newData.address,
+        checkOutSyncedAt: newData.syncedAt?.toISOString()
       },
       ipAddress,
       userAgent,
-      reason: 'Employee check-out',
+      reason: newData.syncedAt ? 'Employee check-out captured offline' : 'Employee check-out',
       metadata: {
         checkInTime: oldData.checkInTime,
         checkOutTime: newData.checkOutTime,
@@ -225,7 +255,9 @@ export class AttendanceAuditService {
       checkInTime?: Date
       checkOutTime?: Date
       status: AttendanceStatus
+      lateMinutes?: number
       workingHoursMinutes: number
+      officeLocationId?: string
       notes?: string
     },
     performedBy: string,
@@ -244,8 +276,11 @@ export class AttendanceAuditService {
         checkInTime: attendanceData.checkInTime?.toISOString(),
         checkOutTime: attendanceData.checkOutTime?.toISOString(),
         status: attendanceData.status,
+        lateMinutes: attendanceData.lateMinutes,
         workingHoursMinutes: attendanceData.workingHoursMinutes,
-        notes: attendanceData.notes
+        officeLocationId: attendanceData.officeLocationId,
+        notes: attendanceData.notes,
+        reason
       },
       ipAddress,
       userAgent,
@@ -260,14 +295,239 @@ export class AttendanceAuditService {
     })
   }
 
+  async logAdminUpdate(
+    attendanceId: string,
+    userId: string,
+    oldData: AttendanceAuditSnapshot,
+    newData: AttendanceAuditSnapshot,
+    performedBy: string,
+    reason: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'UPDATE_STATUS',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      oldValues: this.toAuditValues(oldData),
+      newValues: {
+        ...this.toAuditValues(newData),
+        reason
+      },
+      ipAddress,
+      userAgent,
+      reason,
+      metadata: {
+        attendanceDate: newData.attendanceDate,
+        checkInTime: newData.checkInTime ?? undefined,
+        checkOutTime: newData.checkOutTime ?? undefined,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        status: newData.status
+      }
+    })
+  }
+
+  async logVoid(
+    attendanceId: string,
+    userId: string,
+    oldData: AttendanceAuditSnapshot,
+    performedBy: string,
+    reason: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'VOID',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      // The attendance row is removed, so the old values are the only record left
+      oldValues: {
+        userId,
+        ...this.toAuditValues(oldData)
+      },
+      newValues: {
+        voided: true,
+        reason
+      },
+      ipAddress,
+      userAgent,
+      reason,
+      metadata: {
+        attendanceDate: oldData.attendanceDate,
+        status: oldData.status
+      }
+    })
+  }
+
+  async logCorrection(
+    attendanceId: string,
+    userId: string,
+    oldData: {
+      checkInTime?: Date
+      checkOutTime?: Date
+      status?: AttendanceStatus
+      lateMinutes?: number
+      workingHoursMinutes?: number
+    } | null,
+    newData: {
+      attendanceDate: Date
+      checkInTime?: Date
+      checkOutTime?: Date
+      status: AttendanceStatus
+      lateMinutes: number
+      workingHoursMinutes: number
+    },
+    performedBy: string,
+    correctionRequestId: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'MANUAL_ENTRY',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      // A null oldData means the attendance row was created by the correction
+      oldValues: oldData ? {
+        checkInTime: oldData.checkInTime?.toISOString() ?? null,
+        checkOutTime: oldData.checkOutTime?.toISOString() ?? null,
+        status: oldData.status,
+        lateMinutes: oldData.lateMinutes,
+        workingHoursMinutes: oldData.workingHoursMinutes
+      } : undefined,
+      newValues: {
+        attendanceDate: newData.attendanceDate.toISOString(),
+        checkInTime: newData.checkInTime?.toISOString() ?? null,
+        checkOutTime: newData.checkOutTime?.toISOString() ?? null,
+        status: newData.status,
+        lateMinutes: newData.lateMinutes,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        correctionRequestId
+      },
+      ipAddress,
+      userAgent,
+      reason: `Approved attendance correction request ${correctionRequestId}`,
+      metadata: {
+        attendanceDate: newData.attendanceDate,
+        checkInTime: newData.checkInTime,
+        checkOutTime: newData.checkOutTime,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        status: newData.status
+      }
+    })
+  }
+
+  async logAutomaticAbsence(
+    attendanceId: string,
+    userId: string,
+    attendanceDate: Date,
+    reason: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'AUTO_ABSENT',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy: null,
+      newValues: {
+        attendanceDate: attendanceDate.toISOString(),
+        status: AttendanceStatus.ABSENT,
+        workingHoursMinutes: 0,
+        notes: reason
+      },
+      reason,
+      metadata: {
+        attendanceDate,
+        status: AttendanceStatus.ABSENT
+      }
+    })
+  }
+
+  async logAutomaticFieldDuty(
+    attendanceId: string,
+    userId: string,
+    attendanceDate: Date,
+    workLetterId: string,
+    reason: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'AUTO_FIELD_DUTY',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy: null,
+      newValues: {
+        attendanceDate: attendanceDate.toISOString(),
+        status: AttendanceStatus.PRESENT,
+        workMode: WorkMode.FIELD_DUTY,
+        workLetterId,
+        notes: reason
+      },
+      reason,
+      metadata: {
+        attendanceDate,
+        status: AttendanceStatus.PRESENT
+      }
+    })
+  }
+
+  async logAutomaticClose(
+    attendanceId: string,
+    userId: string,
+    oldData: {
+      status: AttendanceStatus
+      workingHoursMinutes: number
+    },
+    newData: {
+      checkOutTime?: Date
+      status: AttendanceStatus
+      workingHoursMinutes: number
+      autoClosedAt: Date
+      policy: string
+    },
+    reason: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'AUTO_CLOSE',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy: null,
+      oldValues: {
+        checkOutTime: null,
+        status: oldData.status,
+        workingHoursMinutes: oldData.workingHoursMinutes
+      },
+      newValues: {
+        checkOutTime: newData.checkOutTime?.toISOString() ?? null,
+        status: newData.status,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        autoClosedAt: newData.autoClosedAt.toISOString(),
+        policy: newData.policy
+      },
+      reason,
+      metadata: {
+        checkOutTime: newData.checkOutTime,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        status: newData.status
+      }
+    })
+  }
+
   async logFailedCheckInAttempt(
     userId: string,
     attemptData: {
       attendanceDate: Date
-      latitude: number
-      longitude: number
+      latitude?: number // Absent for kiosk check-ins without GPS
+      longitude?: number
       address?: string
       officeLocationId?: string
+      kioskId?: string
       failureReason: string
       locationValidation: any
     },
@@ -290,6 +550,7 @@ export class AttendanceAuditService {
         longitude: attemptData.longitude,
         address: attemptData.address,
         officeLocationId: attemptData.officeLocationId,
+        kioskId: attemptData.kioskId,
         failureReason: attemptData.failureReason,
         locationValidation: attemptData.locationValidation
       },
@@ -356,4 +617,212 @@ export class AttendanceAuditService {
       }
     })
   }
+
+  async logPunch(
+    attendanceId: string,
+    userId: string,
+    oldData: {
+      checkOutTime?: Date | null
+      workingHoursMinutes: number
+      breakMinutes: number
+    },
+    punchData: {
+      punchId: string
+      punchType: PunchType
+      punchTime: Date
+      workingHoursMinutes: number
+      breakMinutes: number
+      isValidLocation: boolean
+      latitude?: number
+      longitude?: number
+      address?: string
+      officeLocationId?: string
+    },
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'PUNCH',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      oldValues: {
+        checkOutTime: oldData.checkOutTime?.toISOString() ?? null,
+        workingHoursMinutes: oldData.workingHoursMinutes,
+        breakMinutes: oldData.breakMinutes
+      },
+      newValues: {
+        punchId: punchData.punchId,
+        punchType: punchData.punchType,
+        punchTime: punchData.punchTime.toISOString(),
+        workingHoursMinutes: punchData.workingHoursMinutes,
+        breakMinutes: punchData.breakMinutes,
+        isValidLocation: punchData.isValidLocation
+      },
+      ipAddress,
+      userAgent,
+      reason: `Employee punch: ${punchData.punchType}`,
+      metadata: {
+        workingHoursMinutes: punchData.workingHoursMinutes,
+        isValidLocation: punchData.isValidLocation,
+        locationInfo: {
+          latitude: punchData.latitude,
+          longitude: punchData.longitude,
+          address: punchData.address,
+          officeLocationId: punchData.officeLocationId
+        }
+      }
+    })
+  }
+
+  async logFailedPunchAttempt(
+    userId: string,
+    attemptData: {
+      attendanceDate: Date
+      punchType: PunchType
+      latitude: number
+      longitude: number
+      address?: string
+      failureReason: string
+      locationValidation: LocationValidationResult
+    },
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    const attemptId = `failed_punch_${userId}_${attemptData.attendanceDate.toISOString().split('T')[0]}_${Date.now()}`
+
+    await this.logAction({
+      action: 'FAILED_PUNCH',
+      entityId: attemptId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      newValues: {
+        attendanceDate: attemptData.attendanceDate.toISOString(),
+        punchType: attemptData.punchType,
+        latitude: attemptData.latitude,
+        longitude: attemptData.longitude,
+        address: attemptData.address,
+        failureReason: attemptData.failureReason,
+        locationValidation: attemptData.locationValidation
+      },
+      ipAddress,
+      userAgent,
+      reason: `Failed ${attemptData.punchType} punch: ${attemptData.failureReason}`,
+      metadata: {
+        attendanceDate: attemptData.attendanceDate,
+        failureReason: attemptData.failureReason,
+        locationValidation: attemptData.locationValidation,
+        locationInfo: {
+          latitude: attemptData.latitude,
+          longitude: attemptData.longitude,
+          address: attemptData.address
+        }
+      }
+    })
+  }
+
+  async logFraudReview(
+    attendanceId: string,
+    userId: string,
+    oldData: {
+      status: AttendanceStatus
+      isValidLocation: boolean
+      fraudScore: number
+    },
+    reviewData: {
+      attendanceDate: Date
+      reviewStatus: AttendanceReviewStatus
+      status: AttendanceStatus
+      isValidLocation: boolean
+      reviewNotes?: string
+    },
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'FRAUD_REVIEW',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      oldValues: {
+        reviewStatus: AttendanceReviewStatus.PENDING,
+        status: oldData.status,
+        isValidLocation: oldData.isValidLocation,
+        fraudScore: oldData.fraudScore
+      },
+      newValues: {
+        reviewStatus: reviewData.reviewStatus,
+        status: reviewData.status,
+        isValidLocation: reviewData.isValidLocation,
+        reviewNotes: reviewData.reviewNotes ?? null
+      },
+      ipAddress,
+      userAgent,
+      reason: reviewData.reviewNotes || `Flagged attendance ${reviewData.reviewStatus.toLowerCase()}`,
+      metadata: {
+        attendanceDate: reviewData.attendanceDate,
+        status: reviewData.status,
+        isValidLocation: reviewData.isValidLocation
+      }
+    })
+  }
+
+  async logFingerprintImport(
+    attendanceId: string,
+    userId: string,
+    oldData: AttendanceAuditSnapshot | null, // null when the import created the attendance
+    newData: AttendanceAuditSnapshot,
+    punches: Array<{ punchType: PunchType; punchTime: Date }>,
+    sourceReference: string,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'FINGERPRINT_IMPORT',
+      entityId: attendanceId,
+      entityType: 'ATTENDANCE',
+      userId,
+      performedBy,
+      oldValues: oldData ? this.toAuditValues(oldData) : undefined,
+      newValues: {
+        ...this.toAuditValues(newData),
+        punches: punches.map(punch => ({
+          punchType: punch.punchType,
+          punchTime: punch.punchTime.toISOString()
+        })),
+        sourceReference
+      },
+      ipAddress,
+      userAgent,
+      reason: `Fingerprint log import: ${sourceReference}`,
+      metadata: {
+        attendanceDate: newData.attendanceDate,
+        checkInTime: newData.checkInTime ?? undefined,
+        checkOutTime: newData.checkOutTime ?? undefined,
+        workingHoursMinutes: newData.workingHoursMinutes,
+        status: newData.status
+      }
+    })
+  }
+
+  private toAuditValues(data: AttendanceAuditSnapshot) {
+    return {
+      attendanceDate: data.attendanceDate.toISOString(),
+      checkInTime: data.checkInTime?.toISOString() ?? null,
+      checkOutTime: data.checkOutTime?.toISOString() ?? null,
+      status: data.status,
+      lateMinutes: data.lateMinutes,
+      workingHoursMinutes: data.workingHoursMinutes,
+      officeLocationId: data.officeLocationId ?? null,
+      isValidLocation: data.isValidLocation,
+      notes: data.notes ?? null
+    }
+  }
 }
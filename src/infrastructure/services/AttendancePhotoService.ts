@@ -0,0 +1,62 @@
+// ============================================================================
+// ATTENDANCE PHOTO SERVICE IMPLEMENTATION
+// src/infrastructure/services/AttendancePhotoService.ts
+// ============================================================================
+
+import { PrismaClient, PunchType } from '@prisma/client'
+import { IAttendancePhotoService, AttendancePhoto } from '@/domain/services/IAttendancePhotoService'
+import { IFileStorageService } from '@/domain/services/IFileStorageService'
+
+// Private bucket; photos are only shown through signed URLs
+export const ATTENDANCE_PHOTO_BUCKET = 'attendance-photos'
+
+const PHOTO_URL_EXPIRY_SECONDS = 15 * 60
+
+const FILE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp'
+}
+
+export class AttendancePhotoService implements IAttendancePhotoService {
+  constructor(
+    private prisma: PrismaClient,
+    private fileStorageService: IFileStorageService
+  ) {}
+
+  async isPhotoRequired(userId: string, officeLocationId?: string): Promise<boolean> {
+    if (officeLocationId) {
+      const officeLocation = await this.prisma.officeLocation.findUnique({
+        where: { id: officeLocationId },
+        select: { requirePhoto: true }
+      })
+      if (officeLocation?.requirePhoto) {
+        return true
+      }
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: { select: { requireAttendancePhoto: true } } }
+    })
+    return user?.role?.requireAttendancePhoto ?? false
+  }
+
+  async savePhoto(userId: string, attendanceDate: Date, punchType: PunchType, photo: AttendancePhoto): Promise<string> {
+    const date = attendanceDate.toISOString().split('T')[0]
+    const extension = FILE_EXTENSIONS[photo.contentType] || 'jpg'
+    const path = `${userId}/${date}/${punchType.toLowerCase()}-${Date.now()}.${extension}`
+
+    const stored = await this.fileStorageService.upload(ATTENDANCE_PHOTO_BUCKET, path, photo.data, photo.contentType)
+    return stored.path
+  }
+
+  async getPhotoUrl(path: string): Promise<string | null> {
+    try {
+      return await this.fileStorageService.getSignedUrl(ATTENDANCE_PHOTO_BUCKET, path, PHOTO_URL_EXPIRY_SECONDS)
+    } catch (error) {
+      console.error('Error creating attendance photo URL:', error)
+      return null
+    }
+  }
+}
@@ -0,0 +1,22 @@
+// ============================================================================
+// FILE STORAGE SERVICE FACTORY
+// src/infrastructure/services/FileStorageService.ts
+// ============================================================================
+
+import { IFileStorageService } from '@/domain/services/IFileStorageService'
+import { LocalFileStorageService } from './LocalFileStorageService'
+import { SupabaseFileStorageService } from './SupabaseFileStorageService'
+
+/**
+ * Storage adapter for the environment
+ * FILE_STORAGE_DRIVER selects "supabase" or "local"; without it Supabase is used
+ * when configured, otherwise files are kept on the local filesystem.
+ */
+export function createFileStorageService(): IFileStorageService {
+  const driver = process.env.FILE_STORAGE_DRIVER ||
+    (process.env.NEXT_PUBLIC_SUPABASE_URL ? 'supabase' : 'local')
+
+  return driver === 'supabase'
+    ? new SupabaseFileStorageService()
+    : new LocalFileStorageService()
+}
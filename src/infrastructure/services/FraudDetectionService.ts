@@ -0,0 +1,173 @@
+// ============================================================================
+// FRAUD DETECTION SERVICE IMPLEMENTATION
+// src/infrastructure/services/FraudDetectionService.ts
+// ============================================================================
+
+import {
+  IFraudDetectionService,
+  FraudAssessment,
+  FraudAssessmentInput,
+  FraudFlagData,
+  FraudSignal,
+  FraudSignalCode
+} from '@/domain/services/IFraudDetectionService'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { AttendanceReviewStatus } from '@prisma/client'
+
+const SIGNAL_WEIGHTS: Record<FraudSignalCode, number> = {
+  REUSED_COORDINATES: 40,
+  IMPOSSIBLE_TRAVEL: 60,
+  PERFECT_ACCURACY: 30,
+  OFFICE_CENTER: 40,
+  SHARED_DEVICE: 50,
+  DELAYED_SYNC: 50,
+  BACKDATED_ON_TIME: 60
+}
+
+// One strong signal, or two weaker ones, sends the attendance to review
+const REVIEW_THRESHOLD = 50
+
+const MAX_TRAVEL_SPEED_KMH = 200
+// Below this distance jumps are treated as GPS noise regardless of speed
+const MIN_TRAVEL_DISTANCE_METERS = 1000
+// Consumer GPS does not get better than a few meters; mock location apps report 0-1 m
+const MIN_PLAUSIBLE_ACCURACY_METERS = 2
+const OFFICE_CENTER_DISTANCE_METERS = 1
+const SHARED_DEVICE_LOOKBACK_DAYS = 30
+// Offline punches synced later than this are reviewed, since their time comes from the device
+const MAX_SYNC_DELAY_MINUTES = 5
+
+export class FraudDetectionService implements IFraudDetectionService {
+  constructor(
+    private punchRepository: IAttendancePunchRepository,
+    private attendanceRepository: IAttendanceRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private locationValidationService: ILocationValidationService
+  ) {}
+
+  async assess(input: FraudAssessmentInput): Promise<FraudAssessment> {
+    const detectedAt = new Date().toISOString()
+    const signals: FraudSignal[] = []
+
+    const raise = (code: FraudSignalCode, message: string) => {
+      signals.push({
+        code,
+        weight: SIGNAL_WEIGHTS[code],
+        message,
+        punchType: input.punchType,
+        detectedAt
+      })
+    }
+
+    const coordinates = input.latitude !== undefined && input.longitude !== undefined
+      ? { latitude: input.latitude, longitude: input.longitude }
+      : null
+
+    const reused = coordinates && await this.punchRepository.existsAtCoordinatesOnOtherDate(
+      input.userId,
+      coordinates.latitude,
+      coordinates.longitude,
+      input.attendanceDate
+    )
+    if (reused) {
+      raise('REUSED_COORDINATES', 'Koordinat sama persis dengan absensi pada hari lain')
+    }
+
+    const previous = coordinates && await this.punchRepository.findLatestWithCoordinatesByUser(input.userId)
+    if (coordinates && previous && previous.latitude !== undefined && previous.longitude !== undefined) {
+      const distance = this.locationValidationService.calculateDistance(
+        { latitude: previous.latitude, longitude: previous.longitude },
+        coordinates
+      )
+      const hours = Math.max(input.punchTime.getTime() - previous.punchTime.getTime(), 1000) / 3600000
+      const speedKmh = distance / 1000 / hours
+
+      if (distance >= MIN_TRAVEL_DISTANCE_METERS && speedKmh > MAX_TRAVEL_SPEED_KMH) {
+        raise(
+          'IMPOSSIBLE_TRAVEL',
+          `Berpindah ${(distance / 1000).toFixed(1)} km sejak absensi sebelumnya (${Math.round(speedKmh)} km/jam)`
+        )
+      }
+    }
+
+    if (input.accuracyMeters !== undefined && input.accuracyMeters < MIN_PLAUSIBLE_ACCURACY_METERS) {
+      raise('PERFECT_ACCURACY', `Akurasi GPS yang dilaporkan tidak wajar (±${input.accuracyMeters} m)`)
+    }
+
+    if (coordinates && input.officeLocationId) {
+      const officeLocation = await this.officeLocationRepository.findById(input.officeLocationId)
+      if (officeLocation) {
+        const distanceToCenter = this.locationValidationService.calculateDistance(coordinates, {
+          latitude: officeLocation.latitude,
+          longitude: officeLocation.longitude
+        })
+        if (distanceToCenter < OFFICE_CENTER_DISTANCE_METERS) {
+          raise('OFFICE_CENTER', `Koordinat tepat di titik pusat lokasi kantor ${officeLocation.name}`)
+        }
+      }
+    }
+
+    if (input.deviceId) {
+      const since = new Date(input.punchTime.getTime() - SHARED_DEVICE_LOOKBACK_DAYS * 24 * 60 * 60 * 1000)
+      const otherUserIds = await this.punchRepository.findOtherUserIdsByDevice(input.deviceId, input.userId, since)
+      if (otherUserIds.length > 0) {
+        raise(
+          'SHARED_DEVICE',
+          `Perangkat yang sama digunakan oleh ${otherUserIds.length} pegawai lain dalam ${SHARED_DEVICE_LOOKBACK_DAYS} hari terakhir`
+        )
+      }
+    }
+
+    if (input.syncedAt) {
+      const delayMinutes = Math.floor((input.syncedAt.getTime() - input.punchTime.getTime()) / 60000)
+      if (delayMinutes > MAX_SYNC_DELAY_MINUTES) {
+        raise('DELAYED_SYNC', `Absen offline dikirim ${delayMinutes} menit setelah waktu yang direkam perangkat`)
+      }
+
+      if (input.lateMinutes === 0 && input.lateMinutesAtSync !== undefined && input.lateMinutesAtSync > 0) {
+        raise(
+          'BACKDATED_ON_TIME',
+          `Tepat waktu menurut waktu rekam perangkat, tetapi terlambat ${input.lateMinutesAtSync} menit menurut waktu kirim`
+        )
+      }
+    }
+
+    const score = signals.reduce((total, signal) => total + signal.weight, 0)
+
+    return {
+      score,
+      signals,
+      requiresReview: score >= REVIEW_THRESHOLD
+    }
+  }
+
+  async buildFlagData(
+    userId: string,
+    assessment: FraudAssessment,
+    current?: { fraudScore: number; fraudSignals?: FraudSignal[]; reviewStatus?: AttendanceReviewStatus }
+  ): Promise<FraudFlagData | null> {
+    if (assessment.signals.length === 0) {
+      return null
+    }
+
+    const data: FraudFlagData = {
+      fraudScore: Math.max(current?.fraudScore || 0, assessment.score),
+      fraudSignals: [...(current?.fraudSignals || []), ...assessment.signals]
+    }
+
+    // A cleared attendance is queued again; pending and rejected ones are left as they are
+    const queued = current?.reviewStatus === AttendanceReviewStatus.PENDING ||
+      current?.reviewStatus === AttendanceReviewStatus.REJECTED
+    if (assessment.requiresReview && !queued) {
+      // Without a department head the attendance is reviewed by HR admins
+      const [reviewer] = await this.attendanceRepository.findReviewerChain(userId)
+      data.reviewStatus = AttendanceReviewStatus.PENDING
+      data.reviewerId = reviewer?.id
+    }
+
+    return data
+  }
+}
@@ -0,0 +1,33 @@
+// ============================================================================
+// GEOCODING SERVICE FACTORY
+// src/infrastructure/services/GeocodingService.ts
+// ============================================================================
+
+import { PrismaClient } from '@prisma/client'
+import { IGeocodingService } from '@/domain/services/IGeocodingService'
+import { PrismaOfficeLocationRepository } from '@/infrastructure/database/repositories/OfficeLocationRepository'
+import { PrismaNamedAreaRepository } from '@/infrastructure/database/repositories/NamedAreaRepository'
+import { LocationValidationService } from './LocationValidationService'
+import { NominatimGeocodingProvider } from './NominatimGeocodingProvider'
+import { ReverseGeocodingService } from './ReverseGeocodingService'
+
+/**
+ * Reverse geocoder for the environment
+ * GEOCODING_DRIVER selects "nominatim" or "offline"; without it Nominatim is
+ * used when NOMINATIM_URL is configured, otherwise points are only labelled by
+ * office locations and named areas.
+ */
+export function createGeocodingService(prisma: PrismaClient): IGeocodingService {
+  const driver = process.env.GEOCODING_DRIVER ||
+    (process.env.NOMINATIM_URL ? 'nominatim' : 'offline')
+
+  const officeLocationRepository = new PrismaOfficeLocationRepository(prisma)
+
+  return new ReverseGeocodingService(
+    prisma,
+    officeLocationRepository,
+    new PrismaNamedAreaRepository(prisma),
+    new LocationValidationService(officeLocationRepository),
+    driver === 'nominatim' ? new NominatimGeocodingProvider() : undefined
+  )
+}
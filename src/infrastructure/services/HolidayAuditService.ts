@@ -0,0 +1,121 @@
+// ============================================================================
+// HOLIDAY AUDIT SERVICE
+// src/infrastructure/services/HolidayAuditService.ts
+// ============================================================================
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export interface HolidayAuditData {
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'IMPORT'
+  entityId: string | null // null for bulk imports
+  entityType: 'HOLIDAY'
+  oldValues?: Prisma.InputJsonObject
+  newValues?: Prisma.InputJsonObject
+  performedBy: string
+  ipAddress?: string
+  userAgent?: string
+  reason?: string
+}
+
+export class HolidayAuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  async logAction(data: HolidayAuditData): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: data.performedBy,
+          action: data.action,
+          tableName: 'holidays',
+          recordId: data.entityId,
+          oldValues: data.oldValues || {},
+          newValues: data.newValues || {},
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent
+        }
+      })
+    } catch (error) {
+      console.error('Failed to log holiday audit:', error)
+      // Don't throw error to avoid breaking the main operation
+    }
+  }
+
+  async logCreate(
+    entityId: string,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'CREATE',
+      entityId,
+      entityType: 'HOLIDAY',
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Holiday created'
+    })
+  }
+
+  async logUpdate(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'UPDATE',
+      entityId,
+      entityType: 'HOLIDAY',
+      oldValues,
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Holiday updated'
+    })
+  }
+
+  async logDelete(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'DELETE',
+      entityId,
+      entityType: 'HOLIDAY',
+      oldValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Holiday deleted'
+    })
+  }
+
+  async logImport(
+    createdIds: string[],
+    summary: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    // One entry per import; the created holiday IDs are kept in newValues
+    await this.logAction({
+      action: 'IMPORT',
+      entityId: null,
+      entityType: 'HOLIDAY',
+      newValues: { ...summary, createdIds },
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Holidays imported'
+    })
+  }
+}
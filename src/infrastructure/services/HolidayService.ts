@@ -0,0 +1,32 @@
+// ============================================================================
+// HOLIDAY SERVICE IMPLEMENTATION
+// src/infrastructure/services/HolidayService.ts
+// ============================================================================
+
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import { IHolidayRepository, HolidayEntity } from '@/domain/repositories/IHolidayRepository'
+import { calculateWorkDays, normalizeToStartOfDay } from '@/utils/dateUtils'
+
+export class HolidayService implements IHolidayService {
+  constructor(private holidayRepository: IHolidayRepository) {}
+
+  async getHolidays(startDate: Date, endDate: Date, officeLocationId?: string): Promise<HolidayEntity[]> {
+    return this.holidayRepository.findApplicable(
+      normalizeToStartOfDay(startDate),
+      normalizeToStartOfDay(endDate),
+      officeLocationId
+    )
+  }
+
+  async findHoliday(date: Date, officeLocationId?: string): Promise<HolidayEntity | null> {
+    const holidays = await this.getHolidays(date, date, officeLocationId)
+
+    // Prefer the regional entry when an office has its own holiday on the same date
+    return holidays.find(holiday => holiday.officeLocationId) || holidays[0] || null
+  }
+
+  async countWorkDays(startDate: Date, endDate: Date, officeLocationId?: string): Promise<number> {
+    const holidays = await this.getHolidays(startDate, endDate, officeLocationId)
+    return calculateWorkDays(startDate, endDate, holidays.map(holiday => holiday.date))
+  }
+}
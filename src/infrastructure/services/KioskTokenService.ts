@@ -0,0 +1,180 @@
+// ============================================================================
+// KIOSK TOKEN SERVICE IMPLEMENTATION
+// src/infrastructure/services/KioskTokenService.ts
+// ============================================================================
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'
+import { KioskMode, Prisma, PrismaClient } from '@prisma/client'
+import {
+  IKioskTokenService,
+  KioskToken,
+  KioskTokenVerification,
+  KioskScanData
+} from '@/domain/services/IKioskTokenService'
+
+// The kiosk shows a new QR code this often
+export const KIOSK_TOKEN_ROTATION_SECONDS = 10
+
+// Leaves time to scan, open the link and get a location after the code rotates
+export const KIOSK_TOKEN_TTL_SECONDS = 60
+
+interface KioskTokenPayload {
+  o: string // Office location ID
+  k?: string // Kiosk device ID
+  n: string // Token ID
+  e: number // Expiry, epoch seconds
+}
+
+/**
+ * Create a random kiosk key for an office location
+ * @returns URL-safe secret
+ */
+export function generateKioskKey(): string {
+  return randomBytes(24).toString('base64url')
+}
+
+// Tokens are HMAC-signed with the server secret and the office's kiosk key, so
+// changing the key invalidates every token the old kiosk URL produced
+export class KioskTokenService implements IKioskTokenService {
+  constructor(
+    private prisma: PrismaClient,
+    private secret: string = process.env.NEXTAUTH_SECRET || 'kiosk-token'
+  ) {}
+
+  async issueToken(officeLocationId: string, kioskKey: string, kioskId?: string): Promise<KioskToken | null> {
+    const officeLocation = await this.prisma.officeLocation.findUnique({
+      where: { id: officeLocationId },
+      select: { kioskMode: true, kioskKey: true, isActive: true }
+    })
+
+    if (!officeLocation?.kioskKey || !officeLocation.isActive || officeLocation.kioskMode === KioskMode.DISABLED) {
+      return null
+    }
+
+    if (!this.safeEqual(officeLocation.kioskKey, kioskKey)) {
+      return null
+    }
+
+    const expiresAt = new Date(Date.now() + KIOSK_TOKEN_TTL_SECONDS * 1000)
+    const payload: KioskTokenPayload = {
+      o: officeLocationId,
+      k: kioskId,
+      n: randomBytes(12).toString('base64url'),
+      e: Math.floor(expiresAt.getTime() / 1000)
+    }
+    const encodedPayload = Buffer.from(JSON.stringify(payload)).toString('base64url')
+
+    return {
+      token: `${encodedPayload}.${this.sign(encodedPayload, officeLocation.kioskKey)}`,
+      expiresAt,
+      refreshAfterSeconds: KIOSK_TOKEN_ROTATION_SECONDS
+    }
+  }
+
+  async verifyToken(token: string): Promise<KioskTokenVerification> {
+    const invalid: KioskTokenVerification = {
+      isValid: false,
+      errorMessage: 'QR code tidak valid. Pindai ulang QR code di kiosk.'
+    }
+
+    const [encodedPayload, signature] = token.split('.')
+    if (!encodedPayload || !signature) {
+      return invalid
+    }
+
+    let payload: KioskTokenPayload
+    try {
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'))
+    } catch {
+      return invalid
+    }
+
+    if (typeof payload?.o !== 'string' || typeof payload.n !== 'string' || typeof payload.e !== 'number') {
+      return invalid
+    }
+
+    const officeLocation = await this.prisma.officeLocation.findUnique({
+      where: { id: payload.o },
+      select: { id: true, name: true, code: true, kioskMode: true, kioskKey: true, isActive: true }
+    })
+
+    // Checked before expiry so a forged token never reveals whether it expired
+    if (!officeLocation?.kioskKey || !this.safeEqual(this.sign(encodedPayload, officeLocation.kioskKey), signature)) {
+      return invalid
+    }
+
+    if (payload.e < Date.now() / 1000) {
+      return {
+        isValid: false,
+        errorMessage: 'QR code sudah kedaluwarsa. Pindai QR code terbaru di kiosk.'
+      }
+    }
+
+    if (!officeLocation.isActive || officeLocation.kioskMode === KioskMode.DISABLED) {
+      return {
+        isValid: false,
+        errorMessage: 'Kiosk absensi di lokasi ini tidak aktif'
+      }
+    }
+
+    return {
+      isValid: true,
+      tokenId: payload.n,
+      kioskId: payload.k,
+      officeLocation: {
+        id: officeLocation.id,
+        name: officeLocation.name,
+        code: officeLocation.code,
+        kioskMode: officeLocation.kioskMode
+      }
+    }
+  }
+
+  async recordScan(data: KioskScanData): Promise<string | null> {
+    try {
+      const scan = await this.prisma.kioskScan.create({
+        data: {
+          tokenId: data.tokenId,
+          officeLocationId: data.officeLocationId,
+          kioskId: data.kioskId,
+          userId: data.userId,
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent
+        },
+        select: { id: true }
+      })
+      return scan.id
+    } catch (error) {
+      // The unique token/user pair rejects a replayed token
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        return null
+      }
+      throw error
+    }
+  }
+
+  async releaseScan(scanId: string): Promise<void> {
+    await this.prisma.kioskScan.deleteMany({
+      where: { id: scanId, attendanceId: null }
+    })
+  }
+
+  async linkScanToAttendance(scanId: string, attendanceId: string): Promise<void> {
+    await this.prisma.kioskScan.update({
+      where: { id: scanId },
+      data: { attendanceId }
+    })
+  }
+
+  private sign(encodedPayload: string, kioskKey: string): string {
+    return createHmac('sha256', `${this.secret}:${kioskKey}`)
+      .update(encodedPayload)
+      .digest('base64url')
+  }
+
+  private safeEqual(a: string, b: string): boolean {
+    const bufferA = Buffer.from(a)
+    const bufferB = Buffer.from(b)
+    return bufferA.length === bufferB.length && timingSafeEqual(bufferA, bufferB)
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// LOCAL FILE STORAGE SERVICE IMPLEMENTATION
+// src/infrastructure/services/LocalFileStorageService.ts
+// ============================================================================
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { createHmac, timingSafeEqual } from 'crypto'
+import { IFileStorageService, StoredFile } from '@/domain/services/IFileStorageService'
+
+// Development stand-in for Supabase Storage: files are kept on disk and served
+// by /api/files with HMAC-signed, expiring URLs
+export class LocalFileStorageService implements IFileStorageService {
+  constructor(
+    private rootDir: string = path.join(process.cwd(), process.env.LOCAL_STORAGE_DIR || 'storage'),
+    private secret: string = process.env.NEXTAUTH_SECRET || 'local-file-storage'
+  ) {}
+
+  // The content type is only meaningful to object storage; the file extension carries it here
+  async upload(bucket: string, objectPath: string, data: Buffer): Promise<StoredFile> {
+    const filePath = this.resolve(bucket, objectPath)
+    await fs.mkdir(path.dirname(filePath), { recursive: true })
+    // Fails on an existing file, like Supabase uploads without upsert
+    await fs.writeFile(filePath, data, { flag: 'wx' })
+    return { path: objectPath }
+  }
+
+  async getSignedUrl(bucket: string, objectPath: string, expiresIn: number = 3600): Promise<string> {
+    const expires = Math.floor(Date.now() / 1000) + expiresIn
+    const signature = this.sign(bucket, objectPath, expires)
+    const encodedPath = [bucket, ...objectPath.split('/')].map(encodeURIComponent).join('/')
+    return `/api/files/${encodedPath}?expires=${expires}&signature=${signature}`
+  }
+
+  async delete(bucket: string, objectPath: string): Promise<void> {
+    await fs.rm(this.resolve(bucket, objectPath), { force: true })
+  }
+
+  /**
+   * Read a file requested through a URL from getSignedUrl
+   * @returns File contents, or null when the signature is invalid, expired or the file is missing
+   */
+  async readSigned(bucket: string, objectPath: string, expires: number, signature: string): Promise<Buffer | null> {
+    if (!Number.isFinite(expires) || expires < Date.now() / 1000) {
+      return null
+    }
+
+    const expected = Buffer.from(this.sign(bucket, objectPath, expires))
+    const actual = Buffer.from(signature)
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      return null
+    }
+
+    try {
+      return await fs.readFile(this.resolve(bucket, objectPath))
+    } catch {
+      return null
+    }
+  }
+
+  private sign(bucket: string, objectPath: string, expires: number): string {
+    return createHmac('sha256', this.secret)
+      .update(`${bucket}/${objectPath}:${expires}`)
+      .digest('hex')
+  }
+
+  // Rejects paths that would escape the storage directory
+  private resolve(bucket: string, objectPath: string): string {
+    const root = path.resolve(this.rootDir)
+    const filePath = path.resolve(root, bucket, objectPath)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error('Invalid file path')
+    }
+    return filePath
+  }
+}
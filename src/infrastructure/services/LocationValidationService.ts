@@ -5,13 +5,27 @@
 
 import { 
   ILocationValidationService,
+  FieldDutyDestination,
+  GeofenceType,
+  HomeLocation,
   LocationCoordinates,
   LocationValidationResult
 } from '@/domain/services/ILocationValidationService'
-import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IOfficeLocationRepository, OfficeLocationEntity } from '@/domain/repositories/IOfficeLocationRepository'
+import { IOfficeLocationCache } from '@/domain/services/IOfficeLocationCache'
+import { OfficeLocationCache } from '@/infrastructure/services/OfficeLocationCache'
+import { distanceToBoundary } from '@/utils/geofence'
+
+type FixVerdict = 'INSIDE' | 'OUTSIDE' | 'UNCERTAIN' | 'POOR_FIX'
+
+// Same as the default maximum accuracy of an office location
+const REMOTE_MAX_ACCURACY_METERS = 100
 
 export class LocationValidationService implements ILocationValidationService {
-  constructor(private officeLocationRepository: IOfficeLocationRepository) {}
+  constructor(
+    private officeLocationRepository: IOfficeLocationRepository,
+    private officeLocationCache: IOfficeLocationCache = new OfficeLocationCache(officeLocationRepository)
+  ) {}
 
   calculateDistance(coord1: LocationCoordinates, coord2: LocationCoordinates): number {
     const R = 6371e3 // Earth's radius in meters
@@ -28,14 +42,79 @@ export class LocationValidationService implements ILocationValidationService {
     return R * c // Distance in meters
   }
 
+  measureDistanceToOffice(coordinates: LocationCoordinates, officeLocation: OfficeLocationEntity): number {
+    if (officeLocation.boundary) {
+      return distanceToBoundary(coordinates, officeLocation.boundary)
+    }
+
+    return this.calculateDistance(
+      coordinates,
+      { latitude: officeLocation.latitude, longitude: officeLocation.longitude }
+    )
+  }
+
+  /**
+   * Polygon boundaries allow only their buffer; plain locations use the radius.
+   * The office tolerance is added on top of either.
+   */
+  private getGeofence(officeLocation: OfficeLocationEntity): { geofenceType: GeofenceType; allowedRadius: number } {
+    return officeLocation.boundary
+      ? { geofenceType: 'POLYGON', allowedRadius: officeLocation.boundaryBufferMeters + officeLocation.toleranceMeters }
+      : { geofenceType: 'RADIUS', allowedRadius: officeLocation.radiusMeters + officeLocation.toleranceMeters }
+  }
+
+  /**
+   * Decide a fix against one allowed area using its accuracy circle.
+   * INSIDE when the reported position is within the allowed area, OUTSIDE when the
+   * whole circle is beyond it, UNCERTAIN when only part of the circle overlaps it,
+   * and POOR_FIX when the accuracy is worse than the area accepts.
+   */
+  private evaluateFix(
+    distance: number,
+    allowedRadius: number,
+    maxAccuracyMeters: number,
+    accuracyMeters?: number
+  ): FixVerdict {
+    if (accuracyMeters === undefined) {
+      return distance <= allowedRadius ? 'INSIDE' : 'OUTSIDE'
+    }
+
+    if (accuracyMeters > maxAccuracyMeters) {
+      return 'POOR_FIX'
+    }
+
+    if (distance <= allowedRadius) {
+      return 'INSIDE'
+    }
+
+    return distance - accuracyMeters <= allowedRadius ? 'UNCERTAIN' : 'OUTSIDE'
+  }
+
+  private evaluateOfficeFix(distance: number, officeLocation: OfficeLocationEntity, accuracyMeters?: number): FixVerdict {
+    return this.evaluateFix(
+      distance,
+      this.getGeofence(officeLocation).allowedRadius,
+      officeLocation.maxAccuracyMeters,
+      accuracyMeters
+    )
+  }
+
+  private getRetryMessage(verdict: FixVerdict, areaName: string, maxAccuracyMeters: number, accuracyMeters?: number): string {
+    const accuracy = Math.round(accuracyMeters || 0)
+
+    return verdict === 'POOR_FIX'
+      ? `Sinyal GPS kurang akurat (±${accuracy}m, maksimal ±${maxAccuracyMeters}m). Pindah ke area terbuka atau dekat jendela, lalu coba lagi.`
+      : `Lokasi Anda berada di tepi area ${areaName} dan akurasi GPS ±${accuracy}m belum cukup untuk memastikannya. Tunggu beberapa saat, lalu coba lagi.`
+  }
+
   async validateUserLocation(
     userLatitude: number,
     userLongitude: number,
-    toleranceMeters: number = 0
+    accuracyMeters?: number
   ): Promise<LocationValidationResult> {
     try {
       console.log('🌍 LocationValidationService.validateUserLocation() started')
-      console.log('📍 User coordinates:', { userLatitude, userLongitude, toleranceMeters })
+      console.log('📍 User coordinates:', { userLatitude, userLongitude, accuracyMeters })
 
       // Validate coordinate format first
       if (!this.validateCoordinateFormat(userLatitude, userLongitude)) {
@@ -47,11 +126,9 @@ export class LocationValidationService implements ILocationValidationService {
       }
       console.log('✅ Coordinate format valid')
 
-      // Get all active office locations
-      console.log('🏢 Fetching active office locations...')
-      const activeLocations = await this.officeLocationRepository.findActive()
-      console.log('📊 Found active office locations:', activeLocations.length)
-      console.log('🏢 Active locations:', JSON.stringify(activeLocations, null, 2))
+      const coordinates = { latitude: userLatitude, longitude: userLongitude }
+      const activeLocations = await this.officeLocationCache.getActiveLocations()
+      console.log('📊 Active office locations:', activeLocations.length)
 
       if (activeLocations.length === 0) {
         console.log('❌ No active office locations found')
@@ -61,58 +138,57 @@ export class LocationValidationService implements ILocationValidationService {
         }
       }
 
-      // Find the nearest office location and check if user is within any allowed radius
-      let nearestLocation: any = null
-      let shortestDistance = Infinity
-      let isWithinAnyRadius = false
+      // Only offices whose bounding box (grown by the fix accuracy) holds the point can accept it
+      const candidates = await this.officeLocationCache.findCandidates(coordinates, accuracyMeters)
+      let nearest = this.findNearestOffice(coordinates, candidates, accuracyMeters)
 
-      for (const location of activeLocations) {
-        const distance = this.calculateDistance(
-          { latitude: userLatitude, longitude: userLongitude },
-          { latitude: location.latitude, longitude: location.longitude }
-        )
+      // Outside every office: the nearest one overall is reported back
+      if (nearest?.verdict !== 'INSIDE') {
+        nearest = this.findNearestOffice(coordinates, activeLocations, accuracyMeters)
+      }
 
-        // Check if this is the nearest location
-        if (distance < shortestDistance) {
-          shortestDistance = distance
-          nearestLocation = {
-            id: location.id,
-            name: location.name,
-            code: location.code,
-            distance: Math.round(distance)
-          }
-        }
+      const nearestOffice = nearest?.location ?? null
+      const shortestDistance = nearest?.distance ?? Infinity
+      const verdict: FixVerdict = nearest?.verdict ?? 'OUTSIDE'
 
-        // Check if user is within this location's radius (including tolerance)
-        const allowedRadius = location.radiusMeters + toleranceMeters
-        if (distance <= allowedRadius) {
-          isWithinAnyRadius = true
-          nearestLocation = {
-            id: location.id,
-            name: location.name,
-            code: location.code,
-            distance: Math.round(distance)
+      const nearestLocation = nearestOffice
+        ? {
+            id: nearestOffice.id,
+            name: nearestOffice.name,
+            code: nearestOffice.code,
+            distance: Math.round(shortestDistance)
           }
-          break // Found a valid location, no need to continue
-        }
+        : undefined
+      const geofence = nearestOffice ? this.getGeofence(nearestOffice) : undefined
+
+      const result: LocationValidationResult = {
+        isValid: verdict === 'INSIDE',
+        nearestOfficeLocation: nearestLocation,
+        distance: nearestLocation?.distance,
+        allowedRadius: geofence?.allowedRadius,
+        toleranceMeters: nearestOffice?.toleranceMeters,
+        accuracyMeters,
+        geofenceType: geofence?.geofenceType
       }
 
-      if (isWithinAnyRadius) {
-        return {
-          isValid: true,
-          nearestOfficeLocation: nearestLocation,
-          distance: nearestLocation.distance,
-          allowedRadius: activeLocations.find(l => l.id === nearestLocation.id)?.radiusMeters
-        }
-      } else {
+      if (verdict === 'INSIDE') {
+        return result
+      }
+
+      if (nearestOffice && (verdict === 'POOR_FIX' || verdict === 'UNCERTAIN')) {
         return {
-          isValid: false,
-          nearestOfficeLocation: nearestLocation,
-          distance: nearestLocation?.distance,
-          allowedRadius: activeLocations.find(l => l.id === nearestLocation?.id)?.radiusMeters,
-          errorMessage: `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation?.name} (Jarak: ${nearestLocation?.distance}m)`
+          ...result,
+          requiresRetry: true,
+          errorMessage: this.getRetryMessage(verdict, nearestOffice.name, nearestOffice.maxAccuracyMeters, accuracyMeters)
         }
       }
+
+      return {
+        ...result,
+        errorMessage: geofence?.geofenceType === 'POLYGON'
+          ? `Anda tidak dapat melakukan absensi karena berada di luar area lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation?.name} (Jarak dari batas area: ${nearestLocation?.distance}m)`
+          : `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation?.name} (Jarak: ${nearestLocation?.distance}m)`
+      }
     } catch (error) {
       console.error('Error validating user location:', error)
       return {
@@ -122,11 +198,37 @@ export class LocationValidationService implements ILocationValidationService {
     }
   }
 
+  /**
+   * First office that accepts the fix, otherwise the nearest one with its verdict
+   */
+  private findNearestOffice(
+    coordinates: LocationCoordinates,
+    locations: OfficeLocationEntity[],
+    accuracyMeters?: number
+  ): { location: OfficeLocationEntity; distance: number; verdict: FixVerdict } | null {
+    let nearest: { location: OfficeLocationEntity; distance: number; verdict: FixVerdict } | null = null
+
+    for (const location of locations) {
+      const distance = this.measureDistanceToOffice(coordinates, location)
+      const verdict = this.evaluateOfficeFix(distance, location, accuracyMeters)
+
+      if (verdict === 'INSIDE') {
+        return { location, distance, verdict } // Found a valid location, no need to continue
+      }
+
+      if (!nearest || distance < nearest.distance) {
+        nearest = { location, distance, verdict }
+      }
+    }
+
+    return nearest
+  }
+
   async validateAgainstOfficeLocation(
     userLatitude: number,
     userLongitude: number,
     officeLocationId: string,
-    toleranceMeters: number = 0
+    accuracyMeters?: number
   ): Promise<LocationValidationResult> {
     try {
       // Validate coordinate format first
@@ -154,14 +256,14 @@ export class LocationValidationService implements ILocationValidationService {
         }
       }
 
-      // Calculate distance
-      const distance = this.calculateDistance(
-        { latitude: userLatitude, longitude: userLongitude },
-        { latitude: officeLocation.latitude, longitude: officeLocation.longitude }
-      )
+      // Calculate distance to the center, or to the boundary when one is drawn
+      const distance = this.measureDistanceToOffice({ latitude: userLatitude, longitude: userLongitude }, officeLocation)
 
-      const allowedRadius = officeLocation.radiusMeters + toleranceMeters
-      const isValid = distance <= allowedRadius
+      const geofence = this.getGeofence(officeLocation)
+      const allowedRadius = geofence.allowedRadius
+      const verdict = this.evaluateOfficeFix(distance, officeLocation, accuracyMeters)
+      const isValid = verdict === 'INSIDE'
+      const requiresRetry = verdict === 'POOR_FIX' || verdict === 'UNCERTAIN'
 
       return {
         isValid,
@@ -173,8 +275,15 @@ export class LocationValidationService implements ILocationValidationService {
         },
         distance: Math.round(distance),
         allowedRadius: allowedRadius,
-        errorMessage: isValid ? undefined :
-          `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi: ${officeLocation.name} (Jarak: ${Math.round(distance)}m, Radius maksimal: ${allowedRadius}m)`
+        toleranceMeters: officeLocation.toleranceMeters,
+        accuracyMeters,
+        geofenceType: geofence.geofenceType,
+        requiresRetry: requiresRetry || undefined,
+        errorMessage: isValid ? undefined : requiresRetry
+          ? this.getRetryMessage(verdict, officeLocation.name, officeLocation.maxAccuracyMeters, accuracyMeters)
+          : geofence.geofenceType === 'POLYGON'
+            ? `Anda tidak dapat melakukan absensi karena berada di luar area lokasi kantor yang terdaftar. Lokasi: ${officeLocation.name} (Jarak dari batas area: ${Math.round(distance)}m, Toleransi maksimal: ${allowedRadius}m)`
+            : `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi: ${officeLocation.name} (Jarak: ${Math.round(distance)}m, Radius maksimal: ${allowedRadius}m)`
       }
     } catch (error) {
       console.error('Error validating against office location:', error)
@@ -185,6 +294,103 @@ export class LocationValidationService implements ILocationValidationService {
     }
   }
 
+  async validateAgainstOfficeLocations(
+    userLatitude: number,
+    userLongitude: number,
+    officeLocationIds: string[],
+    accuracyMeters?: number
+  ): Promise<LocationValidationResult> {
+    let nearest: LocationValidationResult | null = null
+
+    for (const officeLocationId of officeLocationIds) {
+      const result = await this.validateAgainstOfficeLocation(userLatitude, userLongitude, officeLocationId, accuracyMeters)
+      if (result.isValid) {
+        return result
+      }
+
+      if (!nearest || (result.distance ?? Infinity) < (nearest.distance ?? Infinity)) {
+        nearest = result
+      }
+    }
+
+    return nearest ?? {
+      isValid: false,
+      errorMessage: 'Lokasi kantor tidak ditemukan'
+    }
+  }
+
+  validateAgainstHomeLocation(
+    userLatitude: number,
+    userLongitude: number,
+    homeLocation: HomeLocation,
+    accuracyMeters?: number
+  ): LocationValidationResult {
+    return this.validateAgainstArea(
+      userLatitude,
+      userLongitude,
+      homeLocation,
+      'rumah Anda',
+      'lokasi rumah yang disetujui',
+      accuracyMeters
+    )
+  }
+
+  validateAgainstDestination(
+    userLatitude: number,
+    userLongitude: number,
+    destination: FieldDutyDestination,
+    accuracyMeters?: number
+  ): LocationValidationResult {
+    return this.validateAgainstArea(
+      userLatitude,
+      userLongitude,
+      destination,
+      destination.name,
+      `lokasi tujuan dinas ${destination.name}`,
+      accuracyMeters
+    )
+  }
+
+  /**
+   * Radius check against a single non-office area (home, field duty destination)
+   */
+  private validateAgainstArea(
+    userLatitude: number,
+    userLongitude: number,
+    area: { latitude: number; longitude: number; radiusMeters: number },
+    areaName: string,
+    areaDescription: string,
+    accuracyMeters?: number
+  ): LocationValidationResult {
+    if (!this.validateCoordinateFormat(userLatitude, userLongitude)) {
+      return {
+        isValid: false,
+        errorMessage: 'Format koordinat tidak valid'
+      }
+    }
+
+    const distance = this.calculateDistance(
+      { latitude: userLatitude, longitude: userLongitude },
+      { latitude: area.latitude, longitude: area.longitude }
+    )
+    const verdict = this.evaluateFix(distance, area.radiusMeters, REMOTE_MAX_ACCURACY_METERS, accuracyMeters)
+    const isValid = verdict === 'INSIDE'
+    const requiresRetry = verdict === 'POOR_FIX' || verdict === 'UNCERTAIN'
+
+    return {
+      isValid,
+      distance: Math.round(distance),
+      allowedRadius: area.radiusMeters,
+      toleranceMeters: 0,
+      accuracyMeters,
+      geofenceType: 'RADIUS',
+      requiresRetry: requiresRetry || undefined,
+      errorMessage: isValid ? undefined : requiresRetry
+        ? this.getRetryMessage(verdict, areaName, REMOTE_MAX_ACCURACY_METERS, accuracyMeters)
+        : `Anda tidak dapat melakukan absensi karena berada di luar radius ${areaDescription} (Jarak: ${Math.round(distance)}m, Radius maksimal: ${area.radiusMeters}m)`
+    }
+  }
+
   async findNearestOfficeLocation(
     latitude: number, 
     longitude: number
@@ -205,7 +411,7 @@ export class LocationValidationService implements ILocationValidationService {
         return { officeLocation: null, distance: null }
       }
 
-      const activeLocations = await this.officeLocationRepository.findActive()
+      const activeLocations = await this.officeLocationCache.getActiveLocations()
       
       if (activeLocations.length === 0) {
         return { officeLocation: null, distance: null }
@@ -215,10 +421,7 @@ export class LocationValidationService implements ILocationValidationService {
       let shortestDistance = Infinity
 
       for (const location of activeLocations) {
-        const distance = this.calculateDistance(
-          { latitude, longitude },
-          { latitude: location.latitude, longitude: location.longitude }
-        )
+        const distance = this.measureDistanceToOffice({ latitude, longitude }, location)
 
         if (distance < shortestDistance) {
           shortestDistance = distance
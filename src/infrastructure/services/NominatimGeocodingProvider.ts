@@ -0,0 +1,70 @@
+// ============================================================================
+// NOMINATIM REVERSE GEOCODING PROVIDER
+// src/infrastructure/services/NominatimGeocodingProvider.ts
+// ============================================================================
+
+import { IReverseGeocodingProvider } from '@/domain/services/IGeocodingService'
+
+interface NominatimReverseResponse {
+  display_name?: string
+  error?: string
+}
+
+// Nominatim's usage policy allows one request per second; self-hosted
+// instances can lower this with NOMINATIM_MIN_INTERVAL_MS
+let nextRequestAt = 0
+
+// Reverse geocoding against a Nominatim server (self-hosted or the public
+// OpenStreetMap instance). Check-in waits for the answer, so requests are
+// cut off after GEOCODING_TIMEOUT_MS.
+export class NominatimGeocodingProvider implements IReverseGeocodingProvider {
+  readonly name = 'nominatim'
+
+  constructor(
+    private baseUrl: string = process.env.NOMINATIM_URL || 'https://nominatim.openstreetmap.org',
+    private userAgent: string = process.env.GEOCODING_USER_AGENT || 'absensi-kantor',
+    private timeoutMs: number = parseInt(process.env.GEOCODING_TIMEOUT_MS || '3000'),
+    private minIntervalMs: number = parseInt(process.env.NOMINATIM_MIN_INTERVAL_MS || '1000')
+  ) {}
+
+  async reverse(latitude: number, longitude: number): Promise<string | null> {
+    await this.throttle()
+
+    const params = new URLSearchParams({
+      format: 'jsonv2',
+      lat: latitude.toString(),
+      lon: longitude.toString(),
+      zoom: '18',
+      'accept-language': 'id'
+    })
+
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/reverse?${params}`, {
+      headers: { 'User-Agent': this.userAgent },
+      signal: AbortSignal.timeout(this.timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Nominatim responded with ${response.status}`)
+    }
+
+    const result: NominatimReverseResponse = await response.json()
+
+    // "Unable to geocode" means the point is not near any mapped feature
+    return result.error ? null : result.display_name || null
+  }
+
+  // Requests queue for their slot; during a check-in rush the ones that would
+  // wait longer than the timeout give up and fall back to the offline labels
+  private async throttle(): Promise<void> {
+    const now = Date.now()
+    const waitMs = nextRequestAt - now
+    if (waitMs > this.timeoutMs) {
+      throw new Error('Nominatim request queue is full')
+    }
+    nextRequestAt = Math.max(now, nextRequestAt) + this.minIntervalMs
+
+    if (waitMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, waitMs))
+    }
+  }
+}
@@ -0,0 +1,28 @@
+// ============================================================================
+// NOTIFICATION SERVICE IMPLEMENTATION
+// src/infrastructure/services/NotificationService.ts
+// ============================================================================
+
+import { PrismaClient, NotificationType } from '@prisma/client'
+import { INotificationService, NotificationMessage } from '@/domain/services/INotificationService'
+
+export class NotificationService implements INotificationService {
+  constructor(private prisma: PrismaClient) {}
+
+  async notify(userId: string, notification: NotificationMessage): Promise<void> {
+    try {
+      await this.prisma.notification.create({
+        data: {
+          userId,
+          title: notification.title,
+          message: notification.message,
+          type: notification.type || NotificationType.INFO,
+          data: notification.data
+        }
+      })
+    } catch (error) {
+      console.error(`Failed to send notification to user ${userId}:`, error)
+      // Don't throw error to avoid breaking the main operation
+    }
+  }
+}
@@ -0,0 +1,53 @@
+// ============================================================================
+// OFFICE ASSIGNMENT SERVICE IMPLEMENTATION
+// src/infrastructure/services/OfficeAssignmentService.ts
+// ============================================================================
+
+import { AssignedOfficeLocation, IOfficeAssignmentService } from '@/domain/services/IOfficeAssignmentService'
+import { IOfficeAssignmentRepository } from '@/domain/repositories/IOfficeAssignmentRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IWorkScheduleRepository } from '@/domain/repositories/IWorkScheduleRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { DAY_INDEX_TO_DAY_OF_WEEK } from '@/infrastructure/services/WorkScheduleService'
+
+export class OfficeAssignmentService implements IOfficeAssignmentService {
+  constructor(
+    private officeAssignmentRepository: IOfficeAssignmentRepository,
+    private workScheduleRepository: IWorkScheduleRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private systemSettingRepository: ISystemSettingRepository
+  ) {}
+
+  async isEnforced(): Promise<boolean> {
+    const setting = await this.systemSettingRepository.findByKey('ENFORCE_ASSIGNED_OFFICE')
+    return setting?.value === 'true'
+  }
+
+  async resolveAssignedOffices(userId: string, attendanceDate: Date): Promise<AssignedOfficeLocation[] | null> {
+    if (!(await this.isEnforced())) {
+      return null
+    }
+
+    // Attendance dates are stored as UTC midnight of the business date
+    const dayOfWeek = DAY_INDEX_TO_DAY_OF_WEEK[attendanceDate.getUTCDay()]
+    const [assignments, schedule] = await Promise.all([
+      this.officeAssignmentRepository.findByUserAndDay(userId, dayOfWeek),
+      this.workScheduleRepository.findByUserAndDay(userId, dayOfWeek)
+    ])
+
+    const offices: AssignedOfficeLocation[] = assignments.map(assignment => ({
+      id: assignment.officeLocationId,
+      name: assignment.officeLocationName,
+      code: assignment.officeLocationCode
+    }))
+
+    if (schedule?.officeLocationId && !offices.some(office => office.id === schedule.officeLocationId)) {
+      const scheduledOffice = await this.officeLocationRepository.findById(schedule.officeLocationId)
+      if (scheduledOffice?.isActive) {
+        offices.push({ id: scheduledOffice.id, name: scheduledOffice.name, code: scheduledOffice.code })
+      }
+    }
+
+    return offices.length > 0 ? offices : null
+  }
+}
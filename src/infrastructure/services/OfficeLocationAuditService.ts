@@ -6,9 +6,9 @@
 import { PrismaClient } from '@prisma/client'
 
 export interface OfficeLocationAuditData {
-  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'ACTIVATE' | 'DEACTIVATE'
-  entityId: string
-  entityType: 'OFFICE_LOCATION'
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'ACTIVATE' | 'DEACTIVATE' | 'ASSIGN_OFFICE' | 'UNASSIGN_OFFICE'
+  entityId: string | null // null for assignment changes spanning every office
+  entityType: 'OFFICE_LOCATION' | 'OFFICE_ASSIGNMENT' | 'NAMED_AREA'
   oldValues?: Record<string, any>
   newValues?: Record<string, any>
   performedBy: string
@@ -17,6 +17,12 @@ export interface OfficeLocationAuditData {
   reason?: string
 }
 
+const TABLE_NAMES: Record<OfficeLocationAuditData['entityType'], string> = {
+  OFFICE_LOCATION: 'office_locations',
+  OFFICE_ASSIGNMENT: 'office_assignments',
+  NAMED_AREA: 'named_areas'
+}
+
 export class OfficeLocationAuditService {
   constructor(private prisma: PrismaClient) {}
 
@@ -26,7 +32,7 @@ export class OfficeLocationAuditService {
         data: {
           userId: data.performedBy,
           action: data.action,
-          tableName: 'office_locations',
+          tableName: TABLE_NAMES[data.entityType],
           recordId: data.entityId,
           oldValues: data.oldValues || {},
           newValues: data.newValues || {},
@@ -135,6 +141,49 @@ export class OfficeLocationAuditService {
     })
   }
 
+  async logAssignmentChange(
+    action: 'ASSIGN_OFFICE' | 'UNASSIGN_OFFICE',
+    officeLocationId: string | null,
+    summary: Record<string, unknown>,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    // One entry per bulk change; the affected users and weekdays are kept in newValues
+    await this.logAction({
+      action,
+      entityId: officeLocationId,
+      entityType: 'OFFICE_ASSIGNMENT',
+      newValues: summary,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: action === 'ASSIGN_OFFICE' ? 'Office location assigned' : 'Office assignment removed'
+    })
+  }
+
+  async logNamedAreaChange(
+    action: 'CREATE' | 'UPDATE' | 'DELETE',
+    entityId: string,
+    oldValues: Record<string, unknown> | undefined,
+    newValues: Record<string, unknown> | undefined,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action,
+      entityId,
+      entityType: 'NAMED_AREA',
+      oldValues,
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: `Named area ${action.toLowerCase()}d`
+    })
+  }
+
   async getAuditHistory(
     entityId: string,
     limit: number = 50,
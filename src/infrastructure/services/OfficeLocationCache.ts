@@ -0,0 +1,90 @@
+// ============================================================================
+// OFFICE LOCATION CACHE IMPLEMENTATION
+// src/infrastructure/services/OfficeLocationCache.ts
+// ============================================================================
+
+import { IOfficeLocationCache } from '@/domain/services/IOfficeLocationCache'
+import { IOfficeLocationRepository, OfficeLocationEntity } from '@/domain/repositories/IOfficeLocationRepository'
+import {
+  BoundingBox,
+  GeoPoint,
+  expandBoundingBox,
+  getBoundingBox,
+  isPointInBoundingBox
+} from '@/utils/geofence'
+
+// Changes made through another server instance are picked up after this long
+const OFFICE_LOCATION_CACHE_TTL_MS = 60 * 1000
+
+interface CachedOfficeLocation {
+  location: OfficeLocationEntity
+  bounds: BoundingBox // Allowed area of the location, before any margin
+}
+
+interface OfficeLocationCacheState {
+  entries?: Promise<CachedOfficeLocation[]>
+  loadedAt: number
+}
+
+// Every route module builds its own services, so the cached locations live on
+// the global object to be shared by all of them (and to survive dev reloads)
+const globalForOfficeLocations = global as unknown as {
+  officeLocationCache: OfficeLocationCacheState | undefined
+}
+
+const state: OfficeLocationCacheState = globalForOfficeLocations.officeLocationCache ?? { loadedAt: 0 }
+globalForOfficeLocations.officeLocationCache = state
+
+export class OfficeLocationCache implements IOfficeLocationCache {
+  constructor(private officeLocationRepository: IOfficeLocationRepository) {}
+
+  async getActiveLocations(): Promise<OfficeLocationEntity[]> {
+    const entries = await this.getEntries()
+    return entries.map(entry => entry.location)
+  }
+
+  async findCandidates(point: GeoPoint, marginMeters: number = 0): Promise<OfficeLocationEntity[]> {
+    const entries = await this.getEntries()
+    return entries
+      .filter(entry => isPointInBoundingBox(point, marginMeters > 0 ? expandBoundingBox(entry.bounds, marginMeters) : entry.bounds))
+      .map(entry => entry.location)
+  }
+
+  invalidate(): void {
+    state.entries = undefined
+    state.loadedAt = 0
+  }
+
+  private getEntries(): Promise<CachedOfficeLocation[]> {
+    if (!state.entries || Date.now() - state.loadedAt > OFFICE_LOCATION_CACHE_TTL_MS) {
+      // Concurrent check-ins share the pending load instead of each querying
+      const entries = this.load()
+      state.entries = entries
+      state.loadedAt = Date.now()
+
+      // A failed load must not stay cached
+      entries.catch(() => {
+        if (state.entries === entries) {
+          this.invalidate()
+        }
+      })
+    }
+
+    return state.entries
+  }
+
+  private async load(): Promise<CachedOfficeLocation[]> {
+    const locations = await this.officeLocationRepository.findActive()
+
+    return locations.map(location => ({
+      location,
+      bounds: getBoundingBox(
+        location,
+        location.boundary
+          ? location.boundaryBufferMeters + location.toleranceMeters
+          : location.radiusMeters + location.toleranceMeters,
+        location.boundary
+      )
+    }))
+  }
+}
@@ -0,0 +1,99 @@
+// ============================================================================
+// OFFLINE PUNCH SERVICE IMPLEMENTATION
+// src/infrastructure/services/OfflinePunchService.ts
+// ============================================================================
+
+import { createPublicKey, verify, KeyObject } from 'crypto'
+import { PrismaClient } from '@prisma/client'
+import { IOfflinePunchService } from '@/domain/services/IOfflinePunchService'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { OfflinePunchCapture, serializeOfflinePunch } from '@/utils/offlinePunch'
+
+const DEFAULT_SYNC_WINDOW_HOURS = 12
+
+type PublicJwk = {
+  kty: string
+  crv: string
+  x: string
+  y: string
+}
+
+// Browsers sign with WebCrypto ECDSA P-256, whose signatures are raw r||s
+// (IEEE P1363) rather than DER
+export class OfflinePunchService implements IOfflinePunchService {
+  constructor(
+    private prisma: PrismaClient,
+    private systemSettingRepository: ISystemSettingRepository
+  ) {}
+
+  async registerDeviceKey(userId: string, deviceId: string, publicKey: unknown): Promise<boolean> {
+    const jwk = this.toPublicJwk(publicKey)
+    if (!jwk || !this.importKey(jwk)) {
+      return false
+    }
+
+    await this.prisma.attendanceDeviceKey.upsert({
+      where: { userId_deviceId: { userId, deviceId } },
+      create: { userId, deviceId, publicKey: jwk },
+      update: { publicKey: jwk }
+    })
+    return true
+  }
+
+  async verifySignature(userId: string, capture: OfflinePunchCapture, signature: string): Promise<boolean> {
+    const deviceKey = await this.prisma.attendanceDeviceKey.findUnique({
+      where: { userId_deviceId: { userId, deviceId: capture.deviceId } }
+    })
+
+    const jwk = deviceKey && this.toPublicJwk(deviceKey.publicKey)
+    const key = jwk && this.importKey(jwk)
+    if (!key) {
+      return false
+    }
+
+    const isValid = verify(
+      'sha256',
+      Buffer.from(serializeOfflinePunch(capture)),
+      { key, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )
+
+    if (isValid) {
+      await this.prisma.attendanceDeviceKey.update({
+        where: { id: deviceKey.id },
+        data: { lastUsedAt: new Date() }
+      })
+    }
+
+    return isValid
+  }
+
+  async getSyncWindowHours(): Promise<number> {
+    const setting = await this.systemSettingRepository.findByKey('OFFLINE_SYNC_WINDOW_HOURS')
+    const hours = Number(setting?.value)
+
+    return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_SYNC_WINDOW_HOURS
+  }
+
+  // Keeps only the public members, so a private key sent by mistake is never stored
+  private toPublicJwk(value: unknown): PublicJwk | null {
+    if (!value || typeof value !== 'object') {
+      return null
+    }
+
+    const { kty, crv, x, y } = value as Record<string, unknown>
+    if (kty !== 'EC' || crv !== 'P-256' || typeof x !== 'string' || typeof y !== 'string') {
+      return null
+    }
+
+    return { kty, crv, x, y }
+  }
+
+  private importKey(jwk: PublicJwk): KeyObject | null {
+    try {
+      return createPublicKey({ key: jwk, format: 'jwk' })
+    } catch {
+      return null
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// ============================================================================
+// REMOTE WORK SERVICE IMPLEMENTATION
+// src/infrastructure/services/RemoteWorkService.ts
+// ============================================================================
+
+import { FieldDutyDay, IRemoteWorkService, WorkFromHomeDay } from '@/domain/services/IRemoteWorkService'
+import { HomeLocation } from '@/domain/services/ILocationValidationService'
+import { IRemoteWorkProfileRepository, RemoteWorkProfile } from '@/domain/repositories/IRemoteWorkProfileRepository'
+import { IWorkFromHomeRequestRepository } from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
+import { DAY_INDEX_TO_DAY_OF_WEEK } from '@/infrastructure/services/WorkScheduleService'
+
+export class RemoteWorkService implements IRemoteWorkService {
+  constructor(
+    private remoteWorkProfileRepository: IRemoteWorkProfileRepository,
+    private workFromHomeRequestRepository: IWorkFromHomeRequestRepository,
+    private workLetterRepository: IWorkLetterRepository
+  ) {}
+
+  async resolveWorkFromHome(userId: string, attendanceDate: Date): Promise<WorkFromHomeDay | null> {
+    const profile = await this.remoteWorkProfileRepository.findByUserId(userId)
+    const homeLocation = profile && this.toHomeLocation(profile)
+    if (!homeLocation) {
+      return null
+    }
+
+    // Attendance dates are stored as UTC midnight of the business date
+    if (profile.wfhDays.includes(DAY_INDEX_TO_DAY_OF_WEEK[attendanceDate.getUTCDay()])) {
+      return { source: 'SCHEDULE', homeLocation }
+    }
+
+    if (await this.workFromHomeRequestRepository.hasApprovedRequest(userId, attendanceDate)) {
+      return { source: 'REQUEST', homeLocation }
+    }
+
+    return null
+  }
+
+  async getApprovedHomeLocation(userId: string): Promise<HomeLocation | null> {
+    const profile = await this.remoteWorkProfileRepository.findByUserId(userId)
+    return profile && this.toHomeLocation(profile)
+  }
+
+  async resolveFieldDuty(userId: string, attendanceDate: Date): Promise<FieldDutyDay | null> {
+    const workLetter = await this.workLetterRepository.findActiveFieldDutyLetter(userId, attendanceDate)
+    if (!workLetter) {
+      return null
+    }
+
+    const { destinationLatitude: latitude, destinationLongitude: longitude } = workLetter
+    return {
+      workLetterId: workLetter.id,
+      letterNumber: workLetter.letterNumber,
+      subject: workLetter.subject,
+      destination: latitude !== undefined && longitude !== undefined
+        ? {
+            name: workLetter.destinationName || workLetter.subject,
+            latitude,
+            longitude,
+            radiusMeters: workLetter.destinationRadiusMeters
+          }
+        : undefined
+    }
+  }
+
+  private toHomeLocation(profile: RemoteWorkProfile): HomeLocation | null {
+    if (!profile.homeLocationApprovedAt || profile.homeLatitude === undefined || profile.homeLongitude === undefined) {
+      return null
+    }
+
+    return {
+      latitude: profile.homeLatitude,
+      longitude: profile.homeLongitude,
+      radiusMeters: profile.homeRadiusMeters
+    }
+  }
+}
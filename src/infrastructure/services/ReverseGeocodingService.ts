@@ -0,0 +1,162 @@
+// ============================================================================
+// REVERSE GEOCODING SERVICE IMPLEMENTATION
+// src/infrastructure/services/ReverseGeocodingService.ts
+// ============================================================================
+
+import { PrismaClient } from '@prisma/client'
+import {
+  IGeocodingService,
+  IReverseGeocodingProvider,
+  ReverseGeocodeResult
+} from '@/domain/services/IGeocodingService'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { INamedAreaRepository } from '@/domain/repositories/INamedAreaRepository'
+
+// Provider answers are reused for this long
+const GEOCODE_CACHE_TTL_DAYS = 90
+
+// Points further than this from every office and named area stay unlabelled
+const MAX_OFFLINE_LABEL_DISTANCE_METERS = 10000
+
+interface OfflineLabel {
+  name: string
+  distance: number
+  isInside: boolean
+  source: 'NAMED_AREA' | 'OFFICE_LOCATION'
+}
+
+// Provider lookups go through the geocode_cache table; without a provider, or
+// when it fails, points are labelled by the office or named area they are in
+// (or nearest to)
+export class ReverseGeocodingService implements IGeocodingService {
+  constructor(
+    private prisma: PrismaClient,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private namedAreaRepository: INamedAreaRepository,
+    private locationValidationService: ILocationValidationService,
+    private provider?: IReverseGeocodingProvider
+  ) {}
+
+  async reverseGeocode(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    if (this.provider) {
+      try {
+        const result = await this.reverseWithProvider(this.provider, latitude, longitude)
+        if (result) {
+          return result
+        }
+      } catch (error) {
+        console.warn(`⚠️ Reverse geocoding with ${this.provider.name} failed, using offline labels:`, error)
+      }
+    }
+
+    return this.labelOffline(latitude, longitude)
+  }
+
+  private async reverseWithProvider(
+    provider: IReverseGeocodingProvider,
+    latitude: number,
+    longitude: number
+  ): Promise<ReverseGeocodeResult | null> {
+    const cacheKey = this.getCacheKey(latitude, longitude)
+
+    const cached = await this.prisma.geocodeCache.findUnique({
+      where: { cacheKey }
+    })
+    if (cached && cached.provider === provider.name && cached.expiresAt > new Date()) {
+      return { address: cached.address, source: 'CACHE', provider: cached.provider }
+    }
+
+    const address = await provider.reverse(latitude, longitude)
+    if (!address) {
+      return null
+    }
+
+    const expiresAt = new Date(Date.now() + GEOCODE_CACHE_TTL_DAYS * 24 * 60 * 60 * 1000)
+    try {
+      await this.prisma.geocodeCache.upsert({
+        where: { cacheKey },
+        create: { cacheKey, address, provider: provider.name, expiresAt },
+        update: { address, provider: provider.name, expiresAt }
+      })
+    } catch (error) {
+      // A concurrent lookup of the same point may have written it first
+      console.warn('⚠️ Failed to cache geocoded address:', error)
+    }
+
+    return { address, source: 'PROVIDER', provider: provider.name }
+  }
+
+  /**
+   * Label a point by the office or named area it lies in; offices win over
+   * named areas, and the smallest containing area wins among areas.
+   * Outside all of them the nearest one within range is used as a reference.
+   */
+  private async labelOffline(latitude: number, longitude: number): Promise<ReverseGeocodeResult | null> {
+    const coordinates = { latitude, longitude }
+    const [officeLocations, namedAreas] = await Promise.all([
+      this.officeLocationRepository.findActive(),
+      this.namedAreaRepository.findActive()
+    ])
+
+    const officeLabels: OfflineLabel[] = officeLocations.map(officeLocation => {
+      const distance = this.locationValidationService.measureDistanceToOffice(coordinates, officeLocation)
+      const allowedDistance = officeLocation.boundary ? officeLocation.boundaryBufferMeters : officeLocation.radiusMeters
+      return {
+        name: officeLocation.address ? `${officeLocation.name}, ${officeLocation.address}` : officeLocation.name,
+        distance,
+        isInside: distance <= allowedDistance,
+        source: 'OFFICE_LOCATION'
+      }
+    })
+
+    const areaLabels: (OfflineLabel & { radiusMeters: number })[] = namedAreas.map(area => {
+      const distance = this.locationValidationService.calculateDistance(coordinates, area)
+      return {
+        name: area.name,
+        distance,
+        isInside: distance <= area.radiusMeters,
+        radiusMeters: area.radiusMeters,
+        source: 'NAMED_AREA'
+      }
+    })
+
+    const insideOffice = officeLabels
+      .filter(label => label.isInside)
+      .sort((a, b) => a.distance - b.distance)[0]
+    if (insideOffice) {
+      return { address: insideOffice.name, source: insideOffice.source }
+    }
+
+    const insideArea = areaLabels
+      .filter(label => label.isInside)
+      .sort((a, b) => a.radiusMeters - b.radiusMeters)[0]
+    if (insideArea) {
+      return { address: insideArea.name, source: insideArea.source }
+    }
+
+    // Outside every area, the distance is measured to its edge
+    const nearest = [
+      ...officeLabels,
+      ...areaLabels.map(label => ({ ...label, distance: label.distance - label.radiusMeters }))
+    ].sort((a, b) => a.distance - b.distance)[0]
+    if (!nearest || nearest.distance > MAX_OFFLINE_LABEL_DISTANCE_METERS) {
+      return null
+    }
+
+    return {
+      address: `± ${this.formatDistance(nearest.distance)} dari ${nearest.name}`,
+      source: nearest.source
+    }
+  }
+
+  private getCacheKey(latitude: number, longitude: number): string {
+    return `${latitude.toFixed(4)},${longitude.toFixed(4)}`
+  }
+
+  private formatDistance(meters: number): string {
+    return meters < 1000
+      ? `${Math.max(Math.round(meters / 10) * 10, 10)} m`
+      : `${(meters / 1000).toLocaleString('id-ID', { maximumFractionDigits: 1 })} km`
+  }
+}
@@ -0,0 +1,126 @@
+// ============================================================================
+// SHIFT AUDIT SERVICE
+// src/infrastructure/services/ShiftAuditService.ts
+// ============================================================================
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export interface ShiftAuditData {
+  action: 'CREATE' | 'UPDATE' | 'DELETE' | 'ASSIGN_ROSTER' | 'CLEAR_ROSTER'
+  entityId: string | null // null for roster changes spanning many entries
+  entityType: 'SHIFT' | 'SHIFT_ROSTER'
+  oldValues?: Prisma.InputJsonObject
+  newValues?: Prisma.InputJsonObject
+  performedBy: string
+  ipAddress?: string
+  userAgent?: string
+  reason?: string
+}
+
+const TABLE_NAMES: Record<ShiftAuditData['entityType'], string> = {
+  SHIFT: 'shifts',
+  SHIFT_ROSTER: 'shift_rosters'
+}
+
+export class ShiftAuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  async logAction(data: ShiftAuditData): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: data.performedBy,
+          action: data.action,
+          tableName: TABLE_NAMES[data.entityType],
+          recordId: data.entityId,
+          oldValues: data.oldValues || {},
+          newValues: data.newValues || {},
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent
+        }
+      })
+    } catch (error) {
+      console.error('Failed to log shift audit:', error)
+      // Don't throw error to avoid breaking the main operation
+    }
+  }
+
+  async logCreate(
+    entityId: string,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'CREATE',
+      entityId,
+      entityType: 'SHIFT',
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Shift created'
+    })
+  }
+
+  async logUpdate(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'UPDATE',
+      entityId,
+      entityType: 'SHIFT',
+      oldValues,
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Shift updated'
+    })
+  }
+
+  async logDelete(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'DELETE',
+      entityId,
+      entityType: 'SHIFT',
+      oldValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'Shift deleted'
+    })
+  }
+
+  async logRosterChange(
+    action: 'ASSIGN_ROSTER' | 'CLEAR_ROSTER',
+    summary: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    // One entry per bulk change; the affected users and range are kept in newValues
+    await this.logAction({
+      action,
+      entityId: null,
+      entityType: 'SHIFT_ROSTER',
+      newValues: summary,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: action === 'ASSIGN_ROSTER' ? 'Shift roster assigned' : 'Shift roster cleared'
+    })
+  }
+}
@@ -0,0 +1,28 @@
+// ============================================================================
+// SUPABASE FILE STORAGE SERVICE IMPLEMENTATION
+// src/infrastructure/services/SupabaseFileStorageService.ts
+// ============================================================================
+
+import { IFileStorageService, StoredFile } from '@/domain/services/IFileStorageService'
+
+// The Supabase client throws on import without its environment variables,
+// so it is only loaded once this adapter is actually used
+const loadSupabaseClient = () => import('@/infrastructure/database/supabaseClient')
+
+export class SupabaseFileStorageService implements IFileStorageService {
+  async upload(bucket: string, path: string, data: Buffer, contentType: string): Promise<StoredFile> {
+    const { uploadFile } = await loadSupabaseClient()
+    const result = await uploadFile(bucket, path, data, { contentType })
+    return { path: result.path }
+  }
+
+  async getSignedUrl(bucket: string, path: string, expiresIn: number = 3600): Promise<string> {
+    const { getSignedUrl } = await loadSupabaseClient()
+    return getSignedUrl(bucket, path, expiresIn)
+  }
+
+  async delete(bucket: string, path: string): Promise<void> {
+    const { deleteFile } = await loadSupabaseClient()
+    await deleteFile(bucket, path)
+  }
+}
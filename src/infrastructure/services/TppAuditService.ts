@@ -0,0 +1,101 @@
+// ============================================================================
+// TPP AUDIT SERVICE
+// src/infrastructure/services/TppAuditService.ts
+// ============================================================================
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export interface TppAuditData {
+  action: 'CREATE' | 'UPDATE' | 'DELETE'
+  entityId: string
+  entityType: 'TPP_DEDUCTION_RULE'
+  oldValues?: Prisma.InputJsonObject
+  newValues?: Prisma.InputJsonObject
+  performedBy: string
+  ipAddress?: string
+  userAgent?: string
+  reason?: string
+}
+
+export class TppAuditService {
+  constructor(private prisma: PrismaClient) {}
+
+  async logAction(data: TppAuditData): Promise<void> {
+    try {
+      await this.prisma.auditLog.create({
+        data: {
+          userId: data.performedBy,
+          action: data.action,
+          tableName: 'tpp_deduction_rules',
+          recordId: data.entityId,
+          oldValues: data.oldValues || {},
+          newValues: data.newValues || {},
+          ipAddress: data.ipAddress,
+          userAgent: data.userAgent
+        }
+      })
+    } catch (error) {
+      console.error('Failed to log TPP audit:', error)
+      // Don't throw error to avoid breaking the main operation
+    }
+  }
+
+  async logCreate(
+    entityId: string,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'CREATE',
+      entityId,
+      entityType: 'TPP_DEDUCTION_RULE',
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'TPP deduction rule created'
+    })
+  }
+
+  async logUpdate(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    newValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'UPDATE',
+      entityId,
+      entityType: 'TPP_DEDUCTION_RULE',
+      oldValues,
+      newValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'TPP deduction rule updated'
+    })
+  }
+
+  async logDelete(
+    entityId: string,
+    oldValues: Prisma.InputJsonObject,
+    performedBy: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    await this.logAction({
+      action: 'DELETE',
+      entityId,
+      entityType: 'TPP_DEDUCTION_RULE',
+      oldValues,
+      performedBy,
+      ipAddress,
+      userAgent,
+      reason: 'TPP deduction rule deleted'
+    })
+  }
+}
@@ -0,0 +1,342 @@
+// ============================================================================
+// WORK SCHEDULE SERVICE IMPLEMENTATION
+// src/infrastructure/services/WorkScheduleService.ts
+// ============================================================================
+
+import { AttendanceStatus, DayOfWeek } from '@prisma/client'
+import {
+  IWorkScheduleService,
+  ResolvedWorkSchedule,
+  CheckInTimingResult,
+  AttendancePunchType
+} from '@/domain/services/IWorkScheduleService'
+import { IWorkScheduleRepository, WorkScheduleEntity } from '@/domain/repositories/IWorkScheduleRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { IShiftRosterRepository, ShiftRosterEntity } from '@/domain/repositories/IShiftRosterRepository'
+import { ShiftEntity } from '@/domain/repositories/IShiftRepository'
+import { HolidayEntity } from '@/domain/repositories/IHolidayRepository'
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import {
+  DEFAULT_TIMEZONE,
+  getAttendanceDatesInRange,
+  getCalendarDate,
+  getZonedDateTime,
+  parseTimeToMinutes,
+  toDateKey
+} from '@/utils/dateUtils'
+
+// Fallbacks used when neither a WorkSchedule row nor a system setting is available
+const DEFAULT_START_TIME = '08:00'
+const DEFAULT_END_TIME = '16:00'
+const DEFAULT_LATE_TOLERANCE_MINUTES = 0
+
+// How long after an overnight shift ends a check-out still counts for that shift
+const OVERNIGHT_CHECK_OUT_GRACE_MINUTES = 240
+
+const MINUTES_PER_DAY = 24 * 60
+
+export const DAY_INDEX_TO_DAY_OF_WEEK: DayOfWeek[] = [
+  DayOfWeek.SUNDAY,
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY,
+  DayOfWeek.SATURDAY
+]
+
+const INSTITUTION_WORKING_DAYS: DayOfWeek[] = [
+  DayOfWeek.MONDAY,
+  DayOfWeek.TUESDAY,
+  DayOfWeek.WEDNESDAY,
+  DayOfWeek.THURSDAY,
+  DayOfWeek.FRIDAY
+]
+
+interface AttendanceSettings {
+  startTime: string
+  endTime: string
+  lateToleranceMinutes: number
+  timeZone: string
+}
+
+type RosterEntry = ShiftRosterEntity & { shift?: ShiftEntity }
+
+export class WorkScheduleService implements IWorkScheduleService {
+  constructor(
+    private workScheduleRepository: IWorkScheduleRepository,
+    private systemSettingRepository: ISystemSettingRepository,
+    private holidayService?: IHolidayService,
+    private shiftRosterRepository?: IShiftRosterRepository
+  ) {}
+
+  async resolveSchedule(userId: string, date: Date): Promise<ResolvedWorkSchedule> {
+    const settings = await this.getAttendanceSettings()
+    const schedule = await this.resolveWithSettings(userId, getCalendarDate(date, settings.timeZone), settings)
+    return this.applyHoliday(schedule)
+  }
+
+  async resolveSchedules(
+    userIds: string[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<Map<string, Map<string, ResolvedWorkSchedule>>> {
+    const settings = await this.getAttendanceSettings()
+    const [weeklySchedules, rosters] = await Promise.all([
+      this.workScheduleRepository.findByUserIds(userIds),
+      this.shiftRosterRepository?.findMany({ userIds, startDate, endDate }) ?? []
+    ])
+    const holidaysByDate = new Map<string, HolidayEntity[]>()
+    for (const holiday of await this.findHolidaysForOffices(weeklySchedules, startDate, endDate)) {
+      holidaysByDate.set(toDateKey(holiday.date), [...(holidaysByDate.get(toDateKey(holiday.date)) || []), holiday])
+    }
+    const rostersByKey = new Map(rosters.map(roster => [`${roster.userId}|${toDateKey(roster.date)}`, roster]))
+    const dates = getAttendanceDatesInRange(startDate, endDate)
+
+    const schedulesByUser = new Map<string, Map<string, ResolvedWorkSchedule>>()
+    for (const userId of userIds) {
+      const userSchedules = weeklySchedules.filter(schedule => schedule.userId === userId)
+      const schedules = new Map<string, ResolvedWorkSchedule>()
+
+      for (const date of dates) {
+        const dateKey = toDateKey(date)
+        const schedule = this.buildSchedule(date, userSchedules, rostersByKey.get(`${userId}|${dateKey}`) ?? null, settings)
+        const holiday = this.isHolidayApplicable(schedule)
+          ? this.pickHoliday(holidaysByDate.get(dateKey) || [], schedule.officeLocationId)
+          : null
+
+        schedules.set(dateKey, this.withHoliday(schedule, holiday))
+      }
+
+      schedulesByUser.set(userId, schedules)
+    }
+
+    return schedulesByUser
+  }
+
+  async resolveAttendanceDate(userId: string, time: Date, punchType: AttendancePunchType): Promise<Date> {
+    const settings = await this.getAttendanceSettings()
+    return this.resolveBusinessDate(userId, time, punchType, settings)
+  }
+
+  async evaluateCheckIn(userId: string, checkInTime: Date): Promise<CheckInTimingResult> {
+    const settings = await this.getAttendanceSettings()
+    const attendanceDate = await this.resolveBusinessDate(userId, checkInTime, 'CHECK_IN', settings)
+    const schedule = await this.applyHoliday(await this.resolveWithSettings(userId, attendanceDate, settings))
+
+    // Rest days, unrostered days and holidays have no start time to be late for
+    if (!schedule.isWorkingDay) {
+      return {
+        attendanceDate,
+        status: AttendanceStatus.PRESENT,
+        lateMinutes: 0,
+        schedule
+      }
+    }
+
+    // Measured against the start moment on the business date, so a 22:00 shift
+    // checked into at 00:15 the next day is 135 minutes late
+    const startMinutes = parseTimeToMinutes(schedule.startTime) ?? parseTimeToMinutes(DEFAULT_START_TIME)!
+    const scheduledStart = getZonedDateTime(attendanceDate, startMinutes, settings.timeZone)
+    const minutesAfterStart = Math.floor((checkInTime.getTime() - scheduledStart.getTime()) / (60 * 1000))
+
+    // Late only once the tolerance is exceeded, but lateness is counted from the scheduled start
+    const isLate = minutesAfterStart > schedule.lateToleranceMinutes
+
+    return {
+      attendanceDate,
+      status: isLate ? AttendanceStatus.LATE : AttendanceStatus.PRESENT,
+      lateMinutes: isLate ? minutesAfterStart : 0,
+      schedule
+    }
+  }
+
+  async getTimeZone(): Promise<string> {
+    const setting = await this.systemSettingRepository.findByKey('TIMEZONE')
+    return setting?.value || DEFAULT_TIMEZONE
+  }
+
+  /**
+   * The calendar day of the punch, or the previous day when the punch still
+   * falls within the previous day's overnight shift
+   */
+  private async resolveBusinessDate(
+    userId: string,
+    time: Date,
+    punchType: AttendancePunchType,
+    settings: AttendanceSettings
+  ): Promise<Date> {
+    const today = getCalendarDate(time, settings.timeZone)
+    const previousDay = new Date(today)
+    previousDay.setUTCDate(previousDay.getUTCDate() - 1)
+
+    const previous = await this.resolveWithSettings(userId, previousDay, settings)
+    if (!previous.isWorkingDay || !previous.isOvernight) {
+      return today
+    }
+
+    const endMinutes = parseTimeToMinutes(previous.endTime)!
+    const grace = punchType === 'CHECK_OUT' ? OVERNIGHT_CHECK_OUT_GRACE_MINUTES : 0
+    const shiftEnd = getZonedDateTime(previousDay, MINUTES_PER_DAY + endMinutes + grace, settings.timeZone)
+
+    return time <= shiftEnd ? previousDay : today
+  }
+
+  /**
+   * @param date Business date (UTC midnight of the local calendar day)
+   */
+  private async resolveWithSettings(
+    userId: string,
+    date: Date,
+    settings: AttendanceSettings
+  ): Promise<ResolvedWorkSchedule> {
+    const userSchedules = await this.workScheduleRepository.findByUserId(userId)
+
+    // A roster entry overrides the weekly pattern for that date; no shift means a day off
+    const roster = this.shiftRosterRepository
+      ? await this.shiftRosterRepository.findByUserAndDate(userId, date)
+      : null
+
+    return this.buildSchedule(date, userSchedules, roster, settings)
+  }
+
+  private buildSchedule(
+    date: Date,
+    userSchedules: WorkScheduleEntity[],
+    roster: RosterEntry | null,
+    settings: AttendanceSettings
+  ): ResolvedWorkSchedule {
+    const dayOfWeek = DAY_INDEX_TO_DAY_OF_WEEK[date.getUTCDay()]
+    const weeklySchedule = userSchedules.find(s => s.dayOfWeek === dayOfWeek)
+
+    if (roster) {
+      const shift = roster.shift
+      return {
+        date,
+        dayOfWeek,
+        isWorkingDay: !!shift,
+        startTime: shift?.startTime || settings.startTime,
+        endTime: shift?.endTime || settings.endTime,
+        isOvernight: shift?.isOvernight ?? false,
+        lateToleranceMinutes: shift?.lateToleranceMinutes ?? settings.lateToleranceMinutes,
+        officeLocationId: weeklySchedule?.officeLocationId,
+        source: 'SHIFT_ROSTER',
+        shift: shift ? { id: shift.id, name: shift.name, code: shift.code } : undefined
+      }
+    }
+
+    if (userSchedules.length > 0) {
+      const startTime = weeklySchedule?.startTime || settings.startTime
+      const endTime = weeklySchedule?.endTime || settings.endTime
+
+      // A user with a personal schedule only works on the days listed in it
+      return {
+        date,
+        dayOfWeek,
+        isWorkingDay: !!weeklySchedule,
+        startTime,
+        endTime,
+        isOvernight: this.isOvernight(startTime, endTime),
+        lateToleranceMinutes: settings.lateToleranceMinutes,
+        officeLocationId: weeklySchedule?.officeLocationId,
+        source: 'WORK_SCHEDULE'
+      }
+    }
+
+    return {
+      date,
+      dayOfWeek,
+      isWorkingDay: INSTITUTION_WORKING_DAYS.includes(dayOfWeek),
+      startTime: settings.startTime,
+      endTime: settings.endTime,
+      isOvernight: this.isOvernight(settings.startTime, settings.endTime),
+      lateToleranceMinutes: settings.lateToleranceMinutes,
+      source: 'SYSTEM_SETTING'
+    }
+  }
+
+  private isOvernight(startTime: string, endTime: string): boolean {
+    return parseTimeToMinutes(endTime)! <= parseTimeToMinutes(startTime)!
+  }
+
+  private async applyHoliday(schedule: ResolvedWorkSchedule): Promise<ResolvedWorkSchedule> {
+    if (!this.isHolidayApplicable(schedule)) {
+      return schedule
+    }
+
+    return this.withHoliday(schedule, await this.holidayService!.findHoliday(schedule.date, schedule.officeLocationId))
+  }
+
+  private isHolidayApplicable(schedule: ResolvedWorkSchedule): boolean {
+    // Rostered shifts (piket) are worked on holidays as well
+    return !!this.holidayService && schedule.isWorkingDay && schedule.source !== 'SHIFT_ROSTER'
+  }
+
+  private withHoliday(schedule: ResolvedWorkSchedule, holiday: HolidayEntity | null): ResolvedWorkSchedule {
+    if (!holiday) {
+      return schedule
+    }
+
+    return {
+      ...schedule,
+      isWorkingDay: false,
+      holiday: {
+        id: holiday.id,
+        name: holiday.name,
+        type: holiday.type
+      }
+    }
+  }
+
+  /**
+   * National holidays and the regional holidays of every office in the schedules
+   */
+  private async findHolidaysForOffices(
+    schedules: WorkScheduleEntity[],
+    startDate: Date,
+    endDate: Date
+  ): Promise<HolidayEntity[]> {
+    if (!this.holidayService) {
+      return []
+    }
+
+    const officeLocationIds = [...new Set(schedules.flatMap(schedule => schedule.officeLocationId ?? []))]
+    const [national, ...regional] = await Promise.all([
+      this.holidayService.getHolidays(startDate, endDate),
+      ...officeLocationIds.map(officeLocationId =>
+        this.holidayService!.getHolidays(startDate, endDate, officeLocationId).then(holidays =>
+          holidays.filter(holiday => holiday.officeLocationId)
+        )
+      )
+    ])
+
+    return [...national, ...regional.flat()]
+  }
+
+  // Same choice as HolidayService.findHoliday: the office's own holiday first
+  private pickHoliday(holidays: HolidayEntity[], officeLocationId?: string): HolidayEntity | null {
+    const applicable = holidays.filter(holiday => !holiday.officeLocationId || holiday.officeLocationId === officeLocationId)
+    return applicable.find(holiday => holiday.officeLocationId) || applicable[0] || null
+  }
+
+  private async getAttendanceSettings(): Promise<AttendanceSettings> {
+    const settings = await this.systemSettingRepository.findByKeys([
+      'MORNING_START_TIME',
+      'AFTERNOON_END_TIME',
+      'LATE_TOLERANCE_MINUTES',
+      'TIMEZONE'
+    ])
+    const valueOf = (key: string) => settings.find(s => s.key === key)?.value
+
+    const startTime = valueOf('MORNING_START_TIME')
+    const endTime = valueOf('AFTERNOON_END_TIME')
+    const tolerance = Number(valueOf('LATE_TOLERANCE_MINUTES'))
+
+    return {
+      startTime: parseTimeToMinutes(startTime) !== null ? startTime! : DEFAULT_START_TIME,
+      endTime: parseTimeToMinutes(endTime) !== null ? endTime! : DEFAULT_END_TIME,
+      lateToleranceMinutes: Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : DEFAULT_LATE_TOLERANCE_MINUTES,
+      timeZone: valueOf('TIMEZONE') || DEFAULT_TIMEZONE
+    }
+  }
+}
@@ -20,6 +20,8 @@ const routeConfig = {
         "/auth/forgot-password",
         "/api/auth",
         "/api/health",
+        "/kiosk", // Office QR kiosks authenticate with the key in their URL
+        "/api/kiosk",
         "/_next",
         "/favicon.ico",
         "/public"
@@ -107,7 +107,10 @@ export interface TeamMemberAttendance {
   name: string
   status: AttendanceStatus
   checkInTime?: Date
+  checkOutTime?: Date
   location?: string
+  checkInPhotoUrl?: string // Signed, short-lived
+  checkOutPhotoUrl?: string
 }
 
 export interface CompanyStats {
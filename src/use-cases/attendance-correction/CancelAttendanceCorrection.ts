@@ -0,0 +1,57 @@
+// ============================================================================
+// CANCEL ATTENDANCE CORRECTION USE CASE
+// src/use-cases/attendance-correction/CancelAttendanceCorrection.ts
+// ============================================================================
+
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionWithDetails
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface CancelAttendanceCorrectionRequest {
+  correctionId: string
+  userId: string // Only the requester can cancel
+}
+
+export interface CancelAttendanceCorrectionResponse {
+  success: boolean
+  data?: AttendanceCorrectionWithDetails
+  error?: string
+}
+
+export class CancelAttendanceCorrection {
+  constructor(private attendanceCorrectionRepository: IAttendanceCorrectionRepository) {}
+
+  async execute(request: CancelAttendanceCorrectionRequest): Promise<CancelAttendanceCorrectionResponse> {
+    try {
+      const correction = await this.attendanceCorrectionRepository.findById(request.correctionId)
+      if (!correction || correction.userId !== request.userId) {
+        return {
+          success: false,
+          error: 'Pengajuan koreksi absensi tidak ditemukan'
+        }
+      }
+
+      if (correction.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Hanya pengajuan yang menunggu persetujuan yang dapat dibatalkan'
+        }
+      }
+
+      const cancelled = await this.attendanceCorrectionRepository.cancel(correction.id)
+
+      return {
+        success: true,
+        data: cancelled
+      }
+    } catch (error) {
+      console.error('Error cancelling attendance correction:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membatalkan pengajuan koreksi absensi'
+      }
+    }
+  }
+}
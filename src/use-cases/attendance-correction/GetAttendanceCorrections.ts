@@ -0,0 +1,84 @@
+// ============================================================================
+// GET ATTENDANCE CORRECTIONS USE CASE
+// src/use-cases/attendance-correction/GetAttendanceCorrections.ts
+// ============================================================================
+
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionFilters,
+  AttendanceCorrectionWithDetails
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface GetAttendanceCorrectionsRequest {
+  userId?: string // Requests submitted by this user
+  currentApproverId?: string // Requests waiting for this approver
+  status?: RequestStatus
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetAttendanceCorrectionsResponse {
+  success: boolean
+  data?: {
+    corrections: AttendanceCorrectionWithDetails[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetAttendanceCorrections {
+  constructor(private attendanceCorrectionRepository: IAttendanceCorrectionRepository) {}
+
+  async execute(request: GetAttendanceCorrectionsRequest): Promise<GetAttendanceCorrectionsResponse> {
+    try {
+      if (request.status && !Object.values(RequestStatus).includes(request.status)) {
+        return {
+          success: false,
+          error: 'Status pengajuan tidak valid'
+        }
+      }
+
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 10, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: AttendanceCorrectionFilters = {
+        ...(request.userId && { userId: request.userId }),
+        ...(request.currentApproverId && { currentApproverId: request.currentApproverId }),
+        ...(request.status && { status: request.status })
+      }
+
+      const [corrections, total] = await Promise.all([
+        this.attendanceCorrectionRepository.findMany(filters, limit, offset),
+        this.attendanceCorrectionRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          corrections,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting attendance corrections:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data koreksi absensi'
+      }
+    }
+  }
+}
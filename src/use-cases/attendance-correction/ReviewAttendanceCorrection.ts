@@ -0,0 +1,252 @@
+// ============================================================================
+// REVIEW ATTENDANCE CORRECTION USE CASE
+// src/use-cases/attendance-correction/ReviewAttendanceCorrection.ts
+// ============================================================================
+
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionWithDetails
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { ApprovalStatus, AttendanceStatus, RequestStatus } from '@prisma/client'
+import { calculateWorkingMinutes } from '@/utils/dateUtils'
+
+// Number of superiors (nearest department heads first) that must approve a correction
+const REQUIRED_APPROVAL_LEVELS = 1
+
+export interface ReviewAttendanceCorrectionRequest {
+  correctionId: string
+  approverId: string
+  action: 'APPROVE' | 'REJECT'
+  comments?: string // Required when rejecting
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface ReviewAttendanceCorrectionResponse {
+  success: boolean
+  data?: {
+    correction: AttendanceCorrectionWithDetails
+    attendance?: AttendanceEntity // Set once the correction has been applied
+  }
+  error?: string
+}
+
+export class ReviewAttendanceCorrection {
+  constructor(
+    private attendanceCorrectionRepository: IAttendanceCorrectionRepository,
+    private attendanceRepository: IAttendanceRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService?: AttendanceAuditService
+  ) {}
+
+  async execute(request: ReviewAttendanceCorrectionRequest): Promise<ReviewAttendanceCorrectionResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const correction = await this.attendanceCorrectionRepository.findById(request.correctionId)
+      if (!correction) {
+        return {
+          success: false,
+          error: 'Pengajuan koreksi absensi tidak ditemukan'
+        }
+      }
+
+      if (correction.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Pengajuan koreksi absensi sudah diproses'
+        }
+      }
+
+      if (correction.currentApproverId !== request.approverId) {
+        return {
+          success: false,
+          error: 'Anda bukan penyetuju untuk pengajuan koreksi ini'
+        }
+      }
+
+      if (request.action === 'REJECT') {
+        const rejected = await this.attendanceCorrectionRepository.rejectStep(
+          correction.id,
+          request.approverId,
+          (request.comments || '').trim()
+        )
+
+        console.log(`❌ Attendance correction rejected: ${correction.id}`)
+        return {
+          success: true,
+          data: { correction: rejected }
+        }
+      }
+
+      const nextApproverId = await this.findNextApprover(correction)
+      if (nextApproverId) {
+        const forwarded = await this.attendanceCorrectionRepository.approveStep(
+          correction.id,
+          request.approverId,
+          request.comments?.trim() || undefined,
+          nextApproverId
+        )
+
+        console.log(`➡️ Attendance correction ${correction.id} forwarded to next approver`)
+        return {
+          success: true,
+          data: { correction: forwarded }
+        }
+      }
+
+      // Final approval: patch the attendance row before closing the request, so a
+      // failed patch leaves the request pending instead of approved but not applied
+      const attendance = await this.applyCorrection(correction, request)
+
+      const approved = await this.attendanceCorrectionRepository.approveStep(
+        correction.id,
+        request.approverId,
+        request.comments?.trim() || undefined
+      )
+
+      console.log(`✅ Attendance correction approved and applied: ${correction.id}`)
+      return {
+        success: true,
+        data: { correction: approved, attendance }
+      }
+    } catch (error) {
+      console.error('Error reviewing attendance correction:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memproses pengajuan koreksi absensi'
+      }
+    }
+  }
+
+  private async findNextApprover(correction: AttendanceCorrectionWithDetails): Promise<string | undefined> {
+    // The current (pending) step counts as approved once this review completes
+    const approvedLevels = correction.approvals.filter(approval => approval.status === ApprovalStatus.APPROVED).length + 1
+    if (approvedLevels >= REQUIRED_APPROVAL_LEVELS) {
+      return undefined
+    }
+
+    const chain = await this.attendanceCorrectionRepository.findApproverChain(correction.userId)
+    const next = chain.find(approver => !correction.approvals.some(approval => approval.approverId === approver.id))
+    return next?.id
+  }
+
+  private async applyCorrection(
+    correction: AttendanceCorrectionWithDetails,
+    request: ReviewAttendanceCorrectionRequest
+  ): Promise<AttendanceEntity> {
+    const existing = await this.attendanceRepository.findByUserAndDate(correction.userId, correction.attendanceDate)
+
+    const checkInTime = correction.requestedCheckInTime || existing?.checkInTime
+    const checkOutTime = correction.requestedCheckOutTime || existing?.checkOutTime
+
+    let status = existing?.status || AttendanceStatus.PRESENT
+    let lateMinutes = existing?.lateMinutes || 0
+
+    // A real check-out replaces the one the close-out job filled in (or left out)
+    const reopensAutoClose = !!existing?.autoClosedAt && !!correction.requestedCheckOutTime
+
+    // A corrected check-in time re-evaluates lateness against the work schedule, and so
+    // does a reopened day the HALF_DAY policy downgraded
+    if (checkInTime && (correction.requestedCheckInTime || (reopensAutoClose && status === AttendanceStatus.HALF_DAY))) {
+      const timing = await this.workScheduleService.evaluateCheckIn(correction.userId, checkInTime)
+      status = timing.status
+      lateMinutes = timing.lateMinutes
+    }
+
+    if (correction.requestedStatus) {
+      status = correction.requestedStatus
+      if (status !== AttendanceStatus.LATE) {
+        lateMinutes = 0
+      }
+    }
+
+    const workingHoursMinutes = status === AttendanceStatus.ABSENT
+      ? 0
+      : checkInTime && checkOutTime
+        // Recorded breaks still apply to the corrected times
+        ? Math.max(0, calculateWorkingMinutes(checkInTime, checkOutTime) - (existing?.breakMinutes || 0))
+        : existing?.workingHoursMinutes || 0
+
+    const attendance = existing
+      ? await this.attendanceRepository.update(existing.id, {
+          checkInTime,
+          checkOutTime,
+          status,
+          lateMinutes,
+          workingHoursMinutes,
+          ...(reopensAutoClose && { autoClosedAt: null })
+        })
+      : await this.attendanceRepository.create({
+          userId: correction.userId,
+          attendanceDate: correction.attendanceDate,
+          checkInTime,
+          checkOutTime,
+          status,
+          lateMinutes,
+          workingHoursMinutes,
+          notes: `Koreksi absensi: ${correction.reason}`
+        })
+
+    if (this.auditService) {
+      await this.auditService.logCorrection(
+        attendance.id,
+        correction.userId,
+        existing ? {
+          checkInTime: existing.checkInTime,
+          checkOutTime: existing.checkOutTime,
+          status: existing.status,
+          lateMinutes: existing.lateMinutes,
+          workingHoursMinutes: existing.workingHoursMinutes
+        } : null,
+        {
+          attendanceDate: correction.attendanceDate,
+          checkInTime,
+          checkOutTime,
+          status,
+          lateMinutes,
+          workingHoursMinutes
+        },
+        request.approverId,
+        correction.id,
+        request.ipAddress,
+        request.userAgent
+      )
+    }
+
+    return attendance
+  }
+
+  private validateInput(request: ReviewAttendanceCorrectionRequest): { isValid: boolean; error?: string } {
+    if (!request.correctionId) {
+      return { isValid: false, error: 'ID pengajuan koreksi wajib diisi' }
+    }
+
+    if (!request.approverId) {
+      return { isValid: false, error: 'ID penyetuju wajib diisi' }
+    }
+
+    if (request.action !== 'APPROVE' && request.action !== 'REJECT') {
+      return { isValid: false, error: 'Aksi harus APPROVE atau REJECT' }
+    }
+
+    if (request.action === 'REJECT' && (!request.comments || request.comments.trim().length === 0)) {
+      return { isValid: false, error: 'Alasan penolakan wajib diisi' }
+    }
+
+    if (request.comments && request.comments.length > 500) {
+      return { isValid: false, error: 'Catatan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,206 @@
+// ============================================================================
+// SUBMIT ATTENDANCE CORRECTION USE CASE
+// src/use-cases/attendance-correction/SubmitAttendanceCorrection.ts
+// ============================================================================
+
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionWithDetails
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceStatus } from '@prisma/client'
+import { getCalendarDate, getZonedDateTime, parseTimeToMinutes } from '@/utils/dateUtils'
+
+// Corrections are only accepted for recent days
+export const MAX_CORRECTION_AGE_DAYS = 30
+
+export interface SubmitAttendanceCorrectionRequest {
+  userId: string
+  attendanceDate: string // YYYY-MM-DD
+  checkInTime?: string // HH:mm, local time on the attendance date
+  checkOutTime?: string // HH:mm; earlier than check-in means the next day
+  status?: AttendanceStatus
+  reason: string
+  attachmentFile?: string
+}
+
+export interface SubmitAttendanceCorrectionResponse {
+  success: boolean
+  data?: AttendanceCorrectionWithDetails
+  error?: string
+}
+
+export class SubmitAttendanceCorrection {
+  constructor(
+    private attendanceCorrectionRepository: IAttendanceCorrectionRepository,
+    private attendanceRepository: IAttendanceRepository,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: SubmitAttendanceCorrectionRequest): Promise<SubmitAttendanceCorrectionResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const now = new Date()
+      const attendanceDate = new Date(`${request.attendanceDate}T00:00:00.000Z`)
+      const today = getCalendarDate(now, timeZone)
+
+      if (attendanceDate > today) {
+        return {
+          success: false,
+          error: 'Koreksi tidak dapat diajukan untuk tanggal yang akan datang'
+        }
+      }
+
+      const ageDays = Math.round((today.getTime() - attendanceDate.getTime()) / (24 * 60 * 60 * 1000))
+      if (ageDays > MAX_CORRECTION_AGE_DAYS) {
+        return {
+          success: false,
+          error: `Koreksi hanya dapat diajukan paling lambat ${MAX_CORRECTION_AGE_DAYS} hari setelah tanggal absensi`
+        }
+      }
+
+      if (await this.attendanceCorrectionRepository.hasPendingRequest(request.userId, attendanceDate)) {
+        return {
+          success: false,
+          error: 'Masih ada pengajuan koreksi yang menunggu persetujuan untuk tanggal ini'
+        }
+      }
+
+      const attendance = await this.attendanceRepository.findByUserAndDate(request.userId, attendanceDate)
+
+      // Resolve the requested wall-clock times to moments in the institution timezone
+      const checkInMinutes = parseTimeToMinutes(request.checkInTime)
+      const checkOutMinutes = parseTimeToMinutes(request.checkOutTime)
+
+      const requestedCheckInTime = checkInMinutes !== null
+        ? getZonedDateTime(attendanceDate, checkInMinutes, timeZone)
+        : undefined
+      const effectiveCheckInTime = requestedCheckInTime || attendance?.checkInTime
+
+      let requestedCheckOutTime: Date | undefined
+      if (checkOutMinutes !== null) {
+        if (!effectiveCheckInTime) {
+          return {
+            success: false,
+            error: 'Waktu check-in wajib diisi karena belum ada check-in pada tanggal tersebut'
+          }
+        }
+
+        requestedCheckOutTime = getZonedDateTime(attendanceDate, checkOutMinutes, timeZone)
+        if (requestedCheckOutTime <= effectiveCheckInTime) {
+          // Check-out after midnight of an overnight shift
+          requestedCheckOutTime = getZonedDateTime(attendanceDate, checkOutMinutes + 24 * 60, timeZone)
+        }
+
+        if (requestedCheckOutTime <= effectiveCheckInTime) {
+          return {
+            success: false,
+            error: 'Waktu check-out harus setelah waktu check-in'
+          }
+        }
+      }
+
+      if ((requestedCheckInTime && requestedCheckInTime > now) || (requestedCheckOutTime && requestedCheckOutTime > now)) {
+        return {
+          success: false,
+          error: 'Waktu check-in/check-out tidak boleh melebihi waktu sekarang'
+        }
+      }
+
+      if (!attendance && !requestedCheckInTime && request.status !== AttendanceStatus.ABSENT) {
+        return {
+          success: false,
+          error: 'Waktu check-in wajib diisi karena belum ada data absensi pada tanggal tersebut'
+        }
+      }
+
+      // Corrections are routed to the nearest department head first
+      const approvers = await this.attendanceCorrectionRepository.findApproverChain(request.userId)
+      if (approvers.length === 0) {
+        return {
+          success: false,
+          error: 'Tidak ditemukan atasan yang dapat menyetujui koreksi absensi. Hubungi admin kepegawaian.'
+        }
+      }
+
+      const correction = await this.attendanceCorrectionRepository.create({
+        userId: request.userId,
+        attendanceId: attendance?.id,
+        attendanceDate,
+        requestedCheckInTime,
+        requestedCheckOutTime,
+        requestedStatus: request.status,
+        reason: request.reason.trim(),
+        attachmentFile: request.attachmentFile?.trim() || undefined,
+        approverId: approvers[0].id
+      })
+
+      console.log(`✅ Attendance correction submitted: ${correction.id} for ${request.attendanceDate}`)
+
+      return {
+        success: true,
+        data: correction
+      }
+    } catch (error) {
+      console.error('Error submitting attendance correction:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengajukan koreksi absensi'
+      }
+    }
+  }
+
+  private validateInput(request: SubmitAttendanceCorrectionRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.attendanceDate || '') ||
+        isNaN(new Date(`${request.attendanceDate}T00:00:00.000Z`).getTime())) {
+      return { isValid: false, error: 'Tanggal absensi wajib diisi dengan format YYYY-MM-DD' }
+    }
+
+    if (!request.checkInTime && !request.checkOutTime && !request.status) {
+      return { isValid: false, error: 'Isi minimal satu koreksi: waktu check-in, waktu check-out, atau status' }
+    }
+
+    if (request.checkInTime && parseTimeToMinutes(request.checkInTime) === null) {
+      return { isValid: false, error: 'Format waktu check-in harus HH:mm' }
+    }
+
+    if (request.checkOutTime && parseTimeToMinutes(request.checkOutTime) === null) {
+      return { isValid: false, error: 'Format waktu check-out harus HH:mm' }
+    }
+
+    if (request.status && !Object.values(AttendanceStatus).includes(request.status)) {
+      return { isValid: false, error: 'Status absensi tidak valid' }
+    }
+
+    if (request.status === AttendanceStatus.ABSENT && (request.checkInTime || request.checkOutTime)) {
+      return { isValid: false, error: 'Status tidak hadir tidak dapat disertai waktu check-in/check-out' }
+    }
+
+    if (!request.reason || request.reason.trim().length < 10) {
+      return { isValid: false, error: 'Alasan koreksi wajib diisi minimal 10 karakter' }
+    }
+
+    if (request.reason.trim().length > 500) {
+      return { isValid: false, error: 'Alasan koreksi maksimal 500 karakter' }
+    }
+
+    if (request.attachmentFile && request.attachmentFile.length > 500) {
+      return { isValid: false, error: 'Lampiran tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,210 @@
+// ============================================================================
+// BACKFILL ATTENDANCE ADDRESSES USE CASE
+// src/use-cases/attendance/BackfillAttendanceAddresses.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity, UpdateAttendanceData } from '@/domain/repositories/IAttendanceRepository'
+import { IGeocodingService } from '@/domain/services/IGeocodingService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { getAttendanceDate, getCalendarDate } from '@/utils/dateUtils'
+
+// Upper bound for a single backfill run
+const MAX_RANGE_DAYS = 366
+
+// Without a range, the last week is retried so lookups that failed at check-in catch up
+const DEFAULT_RANGE_DAYS = 7
+
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 2000
+
+export interface BackfillAttendanceAddressesRequest {
+  date?: Date
+  startDate?: Date
+  endDate?: Date
+  limit?: number // Attendances per run
+  cursor?: string // nextCursor of the previous run
+  dryRun?: boolean
+}
+
+export interface BackfillAttendanceAddressesResponse {
+  success: boolean
+  data?: {
+    startDate: string
+    endDate: string
+    dryRun: boolean
+    processedCount: number
+    updatedCount: number
+    unresolvedCount: number // Nothing known about the place
+    failedCount: number
+    nextCursor?: string // Set when more attendances are left in the range
+  }
+  error?: string
+}
+
+export class BackfillAttendanceAddresses {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private geocodingService: IGeocodingService,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: BackfillAttendanceAddressesRequest = {}): Promise<BackfillAttendanceAddressesResponse> {
+    try {
+      const limit = request.limit ?? DEFAULT_LIMIT
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return {
+          success: false,
+          error: `Limit harus antara 1 dan ${MAX_LIMIT}`
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const range = this.resolveRange(request, timeZone)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      const dryRun = request.dryRun ?? false
+
+      console.log('🗺️ BackfillAttendanceAddresses started:', {
+        startDate: range.startDate.toISOString(),
+        endDate: range.endDate.toISOString(),
+        limit,
+        cursor: request.cursor,
+        dryRun
+      })
+
+      const result = {
+        processedCount: 0,
+        updatedCount: 0,
+        unresolvedCount: 0,
+        failedCount: 0
+      }
+
+      const attendances = await this.attendanceRepository.findMissingAddresses(
+        range.startDate,
+        range.endDate,
+        limit,
+        request.cursor
+      )
+
+      // Check-in and check-out are often at the same place
+      const addresses = new Map<string, string | undefined>()
+
+      for (const attendance of attendances) {
+        result.processedCount++
+        try {
+          const updateData = await this.geocodeAttendance(attendance, addresses)
+          if (Object.keys(updateData).length === 0) {
+            result.unresolvedCount++
+            continue
+          }
+
+          if (!dryRun) {
+            await this.attendanceRepository.update(attendance.id, updateData)
+          }
+          result.updatedCount++
+        } catch (error) {
+          console.error(`❌ Failed to backfill address of attendance ${attendance.id}:`, error)
+          result.failedCount++
+        }
+      }
+
+      console.log('✅ BackfillAttendanceAddresses completed:', result)
+
+      return {
+        success: true,
+        data: {
+          startDate: range.startDate.toISOString(),
+          endDate: range.endDate.toISOString(),
+          dryRun,
+          ...result,
+          nextCursor: attendances.length === limit ? attendances[attendances.length - 1].id : undefined
+        }
+      }
+    } catch (error) {
+      console.error('❌ BackfillAttendanceAddresses error:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat melengkapi alamat absensi'
+      }
+    }
+  }
+
+  private async geocodeAttendance(
+    attendance: AttendanceEntity,
+    addresses: Map<string, string | undefined>
+  ): Promise<UpdateAttendanceData> {
+    const updateData: UpdateAttendanceData = {}
+
+    if (!attendance.checkInAddress && attendance.checkInLatitude != null && attendance.checkInLongitude != null) {
+      const address = await this.geocode(Number(attendance.checkInLatitude), Number(attendance.checkInLongitude), addresses)
+      if (address) {
+        updateData.checkInAddress = address
+      }
+    }
+
+    if (!attendance.checkOutAddress && attendance.checkOutLatitude != null && attendance.checkOutLongitude != null) {
+      const address = await this.geocode(Number(attendance.checkOutLatitude), Number(attendance.checkOutLongitude), addresses)
+      if (address) {
+        updateData.checkOutAddress = address
+      }
+    }
+
+    return updateData
+  }
+
+  private async geocode(
+    latitude: number,
+    longitude: number,
+    addresses: Map<string, string | undefined>
+  ): Promise<string | undefined> {
+    const key = `${latitude.toFixed(4)},${longitude.toFixed(4)}`
+    if (!addresses.has(key)) {
+      const geocoded = await this.geocodingService.reverseGeocode(latitude, longitude)
+      addresses.set(key, geocoded?.address)
+    }
+    return addresses.get(key)
+  }
+
+  private resolveRange(request: BackfillAttendanceAddressesRequest, timeZone: string): {
+    isValid: boolean
+    startDate: Date
+    endDate: Date
+    error?: string
+  } {
+    const today = getCalendarDate(new Date(), timeZone)
+    const weekAgo = new Date(today)
+    weekAgo.setUTCDate(weekAgo.getUTCDate() - (DEFAULT_RANGE_DAYS - 1))
+
+    const startDate = getAttendanceDate(request.startDate || request.date || weekAgo)
+    const endDate = getAttendanceDate(request.endDate || request.date || today)
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return { isValid: false, startDate, endDate, error: 'Format tanggal tidak valid' }
+    }
+
+    if (startDate > endDate) {
+      return { isValid: false, startDate, endDate, error: 'Tanggal mulai tidak boleh setelah tanggal selesai' }
+    }
+
+    if (endDate > today) {
+      return { isValid: false, startDate, endDate, error: 'Tidak dapat memproses tanggal yang akan datang' }
+    }
+
+    const dayCount = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1
+    if (dayCount > MAX_RANGE_DAYS) {
+      return {
+        isValid: false,
+        startDate,
+        endDate,
+        error: `Rentang tanggal maksimal ${MAX_RANGE_DAYS} hari`
+      }
+    }
+
+    return { isValid: true, startDate, endDate }
+  }
+}
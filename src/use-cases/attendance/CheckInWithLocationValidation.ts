@@ -3,19 +3,36 @@
 // src/use-cases/attendance/CheckInWithLocationValidation.ts
 // ============================================================================
 
-import { IAttendanceRepository, CreateAttendanceData } from '@/domain/repositories/IAttendanceRepository'
-import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import {
+  IAttendanceRepository,
+  AttendanceEntity,
+  CreateAttendanceData
+} from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { ILocationValidationService, LocationValidationResult } from '@/domain/services/ILocationValidationService'
+import { IFraudDetectionService, FraudAssessmentInput, FraudFlagData } from '@/domain/services/IFraudDetectionService'
+import { IAttendancePhotoService, AttendancePhoto } from '@/domain/services/IAttendancePhotoService'
+import { IKioskTokenService, KioskTokenVerification } from '@/domain/services/IKioskTokenService'
+import { IWorkScheduleService, CheckInTimingResult } from '@/domain/services/IWorkScheduleService'
+import { FieldDutyDay, IRemoteWorkService, WorkFromHomeDay } from '@/domain/services/IRemoteWorkService'
+import { AssignedOfficeLocation, IOfficeAssignmentService } from '@/domain/services/IOfficeAssignmentService'
+import { IGeocodingService } from '@/domain/services/IGeocodingService'
 import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
-import { AttendanceStatus } from '@prisma/client'
-import { getAttendanceDate } from '@/utils/dateUtils'
+import { AttendanceReviewStatus, AttendanceStatus, KioskMode, PunchType, WorkMode } from '@prisma/client'
 
 export interface CheckInWithLocationValidationRequest {
   userId: string
-  latitude: number
-  longitude: number
-  address?: string
+  latitude?: number // Optional only with a kiosk token for an office that accepts QR alone
+  longitude?: number
+  address?: string // Reverse geocoded on the server when omitted
   officeLocationId?: string
-  toleranceMeters?: number
+  accuracyMeters?: number // Accuracy reported by the device
+  altitudeMeters?: number
+  fixTime?: Date // When the device took the position fix
+  deviceId?: string
+  photo?: AttendancePhoto // Selfie, required by some offices and roles
+  kioskToken?: string // Scanned from the office's QR kiosk as proof of presence
+  capturedAt?: Date // Original time of a check-in queued offline, used as the check-in time
   ipAddress?: string
   userAgent?: string
 }
@@ -39,6 +56,17 @@ export interface CheckInWithLocationValidationResponse {
       errorMessage?: string
     }
     status: string
+    lateMinutes: number
+    scheduledStartTime: string
+    flaggedForReview: boolean // Accepted, but queued for supervisor review
+    viaKiosk: boolean
+    syncedLate: boolean // Captured offline and synced afterwards
+    workMode: WorkMode
+    workLetter?: { // Set for field duty (dinas luar) check-ins
+      id: string
+      letterNumber?: string
+      subject: string
+    }
   }
   error?: string
   locationValidation?: {
@@ -51,21 +79,31 @@ export interface CheckInWithLocationValidationResponse {
     }
     distance?: number
     allowedRadius?: number
+    requiresRetry?: boolean
     errorMessage?: string
   }
+  photoRequired?: boolean // Retry with a photo
 }
 
 export class CheckInWithLocationValidation {
   constructor(
     private attendanceRepository: IAttendanceRepository,
     private locationValidationService: ILocationValidationService,
-    private auditService?: AttendanceAuditService
+    private workScheduleService: IWorkScheduleService,
+    private auditService?: AttendanceAuditService,
+    private punchRepository?: IAttendancePunchRepository,
+    private fraudDetectionService?: IFraudDetectionService,
+    private attendancePhotoService?: IAttendancePhotoService,
+    private kioskTokenService?: IKioskTokenService,
+    private remoteWorkService?: IRemoteWorkService,
+    private officeAssignmentService?: IOfficeAssignmentService,
+    private geocodingService?: IGeocodingService
   ) {}
 
   async execute(request: CheckInWithLocationValidationRequest): Promise<CheckInWithLocationValidationResponse> {
     try {
       console.log('🔍 CheckInWithLocationValidation.execute() started')
-      console.log('📋 Request:', JSON.stringify(request, null, 2))
+      console.log('📋 Request:', JSON.stringify({ ...request, photo: request.photo ? `${request.photo.contentType}, ${request.photo.data.length} bytes` : undefined }, null, 2))
 
       // Validate input data
       console.log('✅ Validating input data...')
@@ -80,10 +118,14 @@ export class CheckInWithLocationValidation {
       console.log('✅ Input validation passed')
 
       // Check if user has already checked in today
-      // CRITICAL: Use normalized date for consistency
-      const today = getAttendanceDate()
+      // CRITICAL: Use the business date of the shift so overnight shifts keep one record
+      // A check-in synced from the offline queue counts from when it was captured
+      const checkInTime = request.capturedAt ?? new Date()
+      const syncedAt = request.capturedAt ? new Date() : undefined
+      const today = await this.workScheduleService.resolveAttendanceDate(request.userId, checkInTime, 'CHECK_IN')
       console.log('📅 Checking if user has already checked in today:', today.toISOString())
-      const hasCheckedIn = await this.attendanceRepository.hasCheckedIn(request.userId, today)
+      const existingAttendance = await this.attendanceRepository.findByUserAndDate(request.userId, today)
+      const hasCheckedIn = !!existingAttendance?.checkInTime
       console.log('🔍 Has checked in result:', hasCheckedIn)
 
       if (hasCheckedIn) {
@@ -95,25 +137,28 @@ export class CheckInWithLocationValidation {
       }
       console.log('✅ User has not checked in today, proceeding...')
 
-      // Validate location
-      console.log('🌍 Starting location validation...')
-      let locationValidation
-      if (request.officeLocationId) {
-        console.log('🎯 Validating against specific office location:', request.officeLocationId)
-        locationValidation = await this.locationValidationService.validateAgainstOfficeLocation(
-          request.latitude,
-          request.longitude,
-          request.officeLocationId,
-          request.toleranceMeters
-        )
-      } else {
-        console.log('🔍 Validating against any active office location')
-        locationValidation = await this.locationValidationService.validateUserLocation(
-          request.latitude,
-          request.longitude,
-          request.toleranceMeters
-        )
+      // A kiosk QR token proves presence at the kiosk's office
+      let kiosk: KioskTokenVerification | undefined
+      if (request.kioskToken) {
+        kiosk = await this.verifyKioskToken(request, today)
+        if (!kiosk.isValid) {
+          return {
+            success: false,
+            error: kiosk.errorMessage
+          }
+        }
       }
+
+      // Validate location; on field duty and WFH days the letter destination or approved home counts as well
+      // Office check-ins may be restricted to the offices assigned to the employee for the weekday
+      console.log('🌍 Starting location validation...')
+      const assignedOffices = await this.officeAssignmentService?.resolveAssignedOffices(request.userId, today) ?? undefined
+      const fieldDuty = kiosk ? null : await this.remoteWorkService?.resolveFieldDuty(request.userId, today)
+      const workFromHome = kiosk || fieldDuty ? null : await this.remoteWorkService?.resolveWorkFromHome(request.userId, today)
+      const { locationValidation, workMode } = fieldDuty
+        ? await this.validateFieldDutyLocation(request, fieldDuty, assignedOffices)
+        : await this.validateWorkLocation(request, kiosk, workFromHome, assignedOffices)
+      const workLetter = workMode === WorkMode.FIELD_DUTY ? fieldDuty : null
       console.log('📍 Location validation result:', JSON.stringify(locationValidation, null, 2))
 
       // CRITICAL: Prevent attendance submission if location is invalid
@@ -130,8 +175,9 @@ export class CheckInWithLocationValidation {
                 latitude: request.latitude,
                 longitude: request.longitude,
                 address: request.address,
-                officeLocationId: request.officeLocationId || undefined,
-                failureReason: 'INVALID_LOCATION',
+                officeLocationId: kiosk?.officeLocation?.id || request.officeLocationId || undefined,
+                kioskId: kiosk?.kioskId,
+                failureReason: locationValidation.requiresRetry ? 'INACCURATE_LOCATION' : 'INVALID_LOCATION',
                 locationValidation
               },
               request.userId,
@@ -151,8 +197,9 @@ export class CheckInWithLocationValidation {
 
         let errorMessage = 'Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar'
 
-        if (nearestLocation && distance && allowedRadius) {
-          errorMessage = `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation.name} (Jarak: ${distance}m, Radius maksimal: ${allowedRadius + (request.toleranceMeters || 0)}m)`
+        if (nearestLocation && distance && allowedRadius && locationValidation.geofenceType !== 'POLYGON' &&
+            !locationValidation.requiresRetry && !locationValidation.assignedOfficeLocations) {
+          errorMessage = `Anda tidak dapat melakukan absensi karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation.name} (Jarak: ${distance}m, Radius maksimal: ${allowedRadius}m)`
         } else if (locationValidation.errorMessage) {
           errorMessage = locationValidation.errorMessage
         }
@@ -166,10 +213,49 @@ export class CheckInWithLocationValidation {
 
       console.log('✅ Location validation passed - proceeding with attendance creation')
 
-      // Determine attendance status based on location validation and time
-      const checkInTime = new Date()
-      const status = this.determineAttendanceStatus(checkInTime, locationValidation.isValid)
-      console.log('📊 Determined attendance status:', status)
+      // Offices or roles may require a selfie with the check-in; it is stored once the attendance is saved
+      const photoCheck = await this.checkPhotoRequirement(request, locationValidation.nearestOfficeLocation?.id)
+      if (photoCheck.error) {
+        return {
+          success: false,
+          error: photoCheck.error,
+          photoRequired: photoCheck.photoRequired
+        }
+      }
+
+      // Each kiosk token can be used once per employee
+      let kioskScanId: string | undefined
+      if (kiosk) {
+        const scan = await this.recordKioskScan(request, today, kiosk)
+        if (!scan.scanId) {
+          return {
+            success: false,
+            error: scan.error
+          }
+        }
+        kioskScanId = scan.scanId
+      }
+
+      // Determine attendance status from the user's work schedule and late tolerance
+      const timing = await this.determineAttendanceStatus(request.userId, checkInTime, locationValidation.isValid)
+      console.log('📊 Determined attendance status:', {
+        status: timing.status,
+        lateMinutes: timing.lateMinutes,
+        scheduledStartTime: timing.schedule.startTime,
+        toleranceMinutes: timing.schedule.lateToleranceMinutes,
+        scheduleSource: timing.schedule.source,
+        shift: timing.schedule.shift?.code
+      })
+
+      // Suspicious submissions are accepted but flagged for supervisor review
+      // An offline check-in is on time by the device's clock only; its lateness at sync time goes to the reviewer
+      const fraudFlag = await this.assessFraud(request, today, checkInTime, locationValidation.nearestOfficeLocation?.id, {
+        syncedAt,
+        lateMinutes: timing.lateMinutes,
+        lateMinutesAtSync: syncedAt ? await this.evaluateLatenessAt(request.userId, syncedAt, today) : undefined
+      })
+
+      const address = await this.resolveAddress(request)
 
       // Create attendance record
       // CRITICAL: Use the same normalized date for consistency
@@ -180,10 +266,19 @@ export class CheckInWithLocationValidation {
         checkInTime,
         checkInLatitude: request.latitude,
         checkInLongitude: request.longitude,
-        checkInAddress: request.address,
-        status,
+        checkInAddress: address,
+        checkInAccuracy: request.accuracyMeters,
+        checkInAltitude: request.altitudeMeters,
+        checkInFixTime: request.fixTime,
+        checkInSyncedAt: syncedAt,
+        status: timing.status,
+        workMode,
+        workLetterId: workLetter?.workLetterId,
+        lateMinutes: timing.lateMinutes,
+        shiftId: timing.schedule.shift?.id,
         isValidLocation: locationValidation.isValid,
-        workingHoursMinutes: 0
+        workingHoursMinutes: 0,
+        ...fraudFlag
       }
       console.log('💾 Creating attendance record with data:', JSON.stringify({
         ...attendanceData,
@@ -191,9 +286,61 @@ export class CheckInWithLocationValidation {
         checkInTime: attendanceData.checkInTime?.toISOString()
       }, null, 2))
 
-      const attendance = await this.attendanceRepository.create(attendanceData)
+      // A late check-in replaces an absence recorded for the day by the absence job
+      let attendance: AttendanceEntity
+      try {
+        attendance = existingAttendance?.status === AttendanceStatus.ABSENT
+          ? await this.replaceAbsence(existingAttendance.id, attendanceData)
+          : await this.attendanceRepository.create(attendanceData)
+      } catch (saveError) {
+        // The employee can scan the same QR code again after a failed save
+        if (kioskScanId) {
+          await this.releaseKioskScan(kioskScanId)
+        }
+        throw saveError
+      }
       console.log('✅ Attendance record created successfully:', attendance.id)
 
+      if (request.photo) {
+        attendance = await this.storePhoto(request, attendance)
+      }
+
+      if (kioskScanId && this.kioskTokenService) {
+        try {
+          await this.kioskTokenService.linkScanToAttendance(kioskScanId, attendance.id)
+        } catch (kioskError) {
+          // The scan row still records the kiosk, user and time
+          console.error('⚠️ Failed to link kiosk scan to attendance:', kioskError)
+        }
+      }
+
+      // The check-in is the first IN punch of the day
+      if (this.punchRepository) {
+        try {
+          await this.punchRepository.create({
+            attendanceId: attendance.id,
+            userId: request.userId,
+            attendanceDate: attendance.attendanceDate,
+            punchType: PunchType.IN,
+            punchTime: checkInTime,
+            latitude: request.latitude,
+            longitude: request.longitude,
+            address,
+            officeLocationId: attendance.officeLocationId || undefined,
+            distanceMeters: locationValidation.distance !== undefined ? Math.round(locationValidation.distance) : undefined,
+            isValidLocation: locationValidation.isValid,
+            accuracyMeters: request.accuracyMeters,
+            altitudeMeters: request.altitudeMeters,
+            fixTime: request.fixTime,
+            deviceId: request.deviceId,
+            syncedAt
+          })
+        } catch (punchError) {
+          // Punch derivation falls back to the check-in time
+          console.error('⚠️ Failed to record check-in punch:', punchError)
+        }
+      }
+
       // Log audit trail for check-in
       if (this.auditService) {
         try {
@@ -204,12 +351,18 @@ export class CheckInWithLocationValidation {
               attendanceDate: attendance.attendanceDate,
               checkInTime: attendance.checkInTime!,
               status: attendance.status,
+              lateMinutes: attendance.lateMinutes,
               workingHoursMinutes: attendance.workingHoursMinutes,
               isValidLocation: attendance.isValidLocation,
               latitude: request.latitude,
               longitude: request.longitude,
-              address: request.address,
-              officeLocationId: attendance.officeLocationId || undefined
+              address,
+              officeLocationId: attendance.officeLocationId || undefined,
+              kioskId: kiosk?.kioskId,
+              kioskScanId,
+              syncedAt,
+              workMode,
+              workLetterId: workLetter?.workLetterId
             },
             request.userId, // performedBy is the user themselves
             request.ipAddress,
@@ -229,7 +382,16 @@ export class CheckInWithLocationValidation {
           checkInTime: attendance.checkInTime!,
           isValidLocation: attendance.isValidLocation,
           locationValidation,
-          status: attendance.status
+          status: attendance.status,
+          lateMinutes: attendance.lateMinutes,
+          scheduledStartTime: timing.schedule.startTime,
+          flaggedForReview: attendance.reviewStatus === AttendanceReviewStatus.PENDING,
+          viaKiosk: !!kiosk,
+          syncedLate: !!syncedAt,
+          workMode: attendance.workMode,
+          workLetter: workLetter
+            ? { id: workLetter.workLetterId, letterNumber: workLetter.letterNumber, subject: workLetter.subject }
+            : undefined
         }
       }
     } catch (error) {
@@ -248,40 +410,421 @@ export class CheckInWithLocationValidation {
       return { isValid: false, error: 'User ID wajib diisi' }
     }
 
-    // Validate coordinates
-    if (typeof request.latitude !== 'number' || typeof request.longitude !== 'number') {
-      return { isValid: false, error: 'Koordinat harus berupa angka' }
+    // Coordinates may only be omitted with a kiosk token
+    if (!request.kioskToken || request.latitude !== undefined || request.longitude !== undefined) {
+      // Validate coordinates
+      if (typeof request.latitude !== 'number' || typeof request.longitude !== 'number') {
+        return { isValid: false, error: 'Koordinat harus berupa angka' }
+      }
+
+      // Validate coordinate format
+      if (!this.locationValidationService.validateCoordinateFormat(request.latitude, request.longitude)) {
+        return { isValid: false, error: 'Format koordinat tidak valid' }
+      }
     }
 
-    // Validate coordinate format
-    if (!this.locationValidationService.validateCoordinateFormat(request.latitude, request.longitude)) {
-      return { isValid: false, error: 'Format koordinat tidak valid' }
+    if (request.kioskToken !== undefined && (typeof request.kioskToken !== 'string' || request.kioskToken.length > 512)) {
+      return { isValid: false, error: 'QR code tidak valid' }
     }
 
-    // Validate tolerance if provided
-    if (request.toleranceMeters !== undefined) {
-      if (typeof request.toleranceMeters !== 'number' || request.toleranceMeters < 0 || request.toleranceMeters > 500) {
-        return { isValid: false, error: 'Toleransi harus antara 0-500 meter' }
+    if (request.capturedAt !== undefined) {
+      if (isNaN(request.capturedAt.getTime()) || request.capturedAt > new Date()) {
+        return { isValid: false, error: 'Waktu perekaman absen tidak valid' }
+      }
+
+      // Kiosk tokens expire within a minute, so they cannot be queued
+      if (request.kioskToken) {
+        return { isValid: false, error: 'QR code kiosk tidak dapat digunakan untuk absen offline' }
       }
     }
 
+    if (request.accuracyMeters !== undefined && (typeof request.accuracyMeters !== 'number' || request.accuracyMeters < 0)) {
+      return { isValid: false, error: 'Akurasi lokasi tidak valid' }
+    }
+
+    if (request.altitudeMeters !== undefined && (typeof request.altitudeMeters !== 'number' || !isFinite(request.altitudeMeters))) {
+      return { isValid: false, error: 'Ketinggian lokasi tidak valid' }
+    }
+
+    if (request.fixTime !== undefined && isNaN(request.fixTime.getTime())) {
+      return { isValid: false, error: 'Waktu pengambilan lokasi tidak valid' }
+    }
+
     return { isValid: true }
   }
 
-  private determineAttendanceStatus(checkInTime: Date, isValidLocation: boolean): AttendanceStatus {
+  private async assessFraud(
+    request: CheckInWithLocationValidationRequest,
+    attendanceDate: Date,
+    checkInTime: Date,
+    officeLocationId?: string,
+    sync?: Pick<FraudAssessmentInput, 'syncedAt' | 'lateMinutes' | 'lateMinutesAtSync'>
+  ): Promise<FraudFlagData | undefined> {
+    // A check-in without coordinates has nothing to score, unless it was synced from the offline queue
+    const hasCoordinates = request.latitude !== undefined && request.longitude !== undefined
+    if (!this.fraudDetectionService || (!hasCoordinates && !sync?.syncedAt)) {
+      return undefined
+    }
+
+    try {
+      const assessment = await this.fraudDetectionService.assess({
+        userId: request.userId,
+        attendanceDate,
+        punchType: PunchType.IN,
+        punchTime: checkInTime,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        accuracyMeters: request.accuracyMeters,
+        deviceId: request.deviceId,
+        officeLocationId,
+        ...sync
+      })
+      const flag = await this.fraudDetectionService.buildFlagData(request.userId, assessment)
+      if (flag?.reviewStatus) {
+        console.log('🚩 Check-in flagged for review:', flag.fraudSignals.map(signal => signal.code))
+      }
+      return flag ?? undefined
+    } catch (fraudError) {
+      // Scoring must never block a valid check-in
+      console.error('⚠️ Failed to assess check-in for fraud signals:', fraudError)
+      return undefined
+    }
+  }
+
+  private async validateWorkLocation(
+    request: CheckInWithLocationValidationRequest,
+    kiosk?: KioskTokenVerification,
+    workFromHome?: WorkFromHomeDay | null,
+    assignedOffices?: AssignedOfficeLocation[]
+  ): Promise<{ locationValidation: LocationValidationResult; workMode: WorkMode }> {
+    if (!workFromHome || request.latitude === undefined || request.longitude === undefined) {
+      return { locationValidation: await this.validateLocation(request, kiosk, assignedOffices), workMode: WorkMode.OFFICE }
+    }
+
+    console.log('🏠 Work from home day, validating against the approved home location')
+    const homeValidation = this.locationValidationService.validateAgainstHomeLocation(
+      request.latitude,
+      request.longitude,
+      workFromHome.homeLocation,
+      request.accuracyMeters
+    )
+    if (homeValidation.isValid) {
+      return { locationValidation: homeValidation, workMode: WorkMode.WFH }
+    }
+
+    // Coming to the office on a WFH day is still allowed
+    const officeValidation = await this.validateLocation(request, kiosk, assignedOffices)
+    return {
+      locationValidation: officeValidation.isValid ? officeValidation : homeValidation,
+      workMode: WorkMode.OFFICE
+    }
+  }
+
+  private async validateFieldDutyLocation(
+    request: CheckInWithLocationValidationRequest,
+    fieldDuty: FieldDutyDay,
+    assignedOffices?: AssignedOfficeLocation[]
+  ): Promise<{ locationValidation: LocationValidationResult; workMode: WorkMode }> {
+    if (request.latitude === undefined || request.longitude === undefined) {
+      return { locationValidation: await this.validateLocation(request, undefined, assignedOffices), workMode: WorkMode.OFFICE }
+    }
+
+    // A letter without destination marks the day as dinas luar wherever the employee is,
+    // unless they are at an office after all
+    if (!fieldDuty.destination) {
+      const officeValidation = await this.validateLocation(request, undefined, assignedOffices)
+      if (officeValidation.isValid) {
+        return { locationValidation: officeValidation, workMode: WorkMode.OFFICE }
+      }
+
+      console.log('🧳 Field duty without destination, location is only recorded')
+      return { locationValidation: { isValid: true }, workMode: WorkMode.FIELD_DUTY }
+    }
+
+    console.log('🧳 Field duty day, validating against the work letter destination')
+    const destinationValidation = this.locationValidationService.validateAgainstDestination(
+      request.latitude,
+      request.longitude,
+      fieldDuty.destination,
+      request.accuracyMeters
+    )
+    if (destinationValidation.isValid) {
+      return { locationValidation: destinationValidation, workMode: WorkMode.FIELD_DUTY }
+    }
+
+    const officeValidation = await this.validateLocation(request, undefined, assignedOffices)
+    return {
+      locationValidation: officeValidation.isValid ? officeValidation : destinationValidation,
+      workMode: WorkMode.OFFICE
+    }
+  }
+
+  private async validateLocation(
+    request: CheckInWithLocationValidationRequest,
+    kiosk?: KioskTokenVerification,
+    assignedOffices?: AssignedOfficeLocation[]
+  ): Promise<LocationValidationResult> {
+    const kioskOffice = kiosk?.officeLocation
+
+    // A kiosk or chosen office outside the assignment is rejected before any distance check
+    const requestedOfficeId = kioskOffice?.id ?? request.officeLocationId
+    if (assignedOffices && requestedOfficeId && !assignedOffices.some(office => office.id === requestedOfficeId)) {
+      console.log('❌ Office is not assigned to the user today:', requestedOfficeId)
+      return {
+        isValid: false,
+        assignedOfficeLocations: assignedOffices,
+        errorMessage: this.getAssignedOfficeMessage(assignedOffices)
+      }
+    }
+
+    // The scan alone proves presence; coordinates, if sent, are only recorded
+    if (kioskOffice?.kioskMode === KioskMode.QR_ONLY) {
+      console.log('📱 Location proven by kiosk QR token at:', kioskOffice.code)
+      return {
+        isValid: true,
+        nearestOfficeLocation: {
+          id: kioskOffice.id,
+          name: kioskOffice.name,
+          code: kioskOffice.code,
+          distance: 0
+        }
+      }
+    }
+
+    if (request.latitude === undefined || request.longitude === undefined) {
+      return {
+        isValid: false,
+        errorMessage: 'Lokasi wajib diaktifkan untuk check-in di lokasi ini'
+      }
+    }
+
+    // A kiosk that also requires GPS pins the check to its own office
+    const officeLocationId = kioskOffice?.id ?? request.officeLocationId
+    if (officeLocationId) {
+      console.log('🎯 Validating against specific office location:', officeLocationId)
+      return this.locationValidationService.validateAgainstOfficeLocation(
+        request.latitude,
+        request.longitude,
+        officeLocationId,
+        request.accuracyMeters
+      )
+    }
+
+    if (assignedOffices) {
+      console.log('🎯 Validating against assigned office locations:', assignedOffices.map(office => office.code))
+      const assignedValidation = await this.locationValidationService.validateAgainstOfficeLocations(
+        request.latitude,
+        request.longitude,
+        assignedOffices.map(office => office.id),
+        request.accuracyMeters
+      )
+      const nearest = assignedValidation.nearestOfficeLocation
+
+      return {
+        ...assignedValidation,
+        assignedOfficeLocations: assignedOffices,
+        errorMessage: assignedValidation.isValid || assignedValidation.requiresRetry
+          ? assignedValidation.errorMessage
+          : nearest
+            ? `${this.getAssignedOfficeMessage(assignedOffices)} (Jarak ke ${nearest.name}: ${nearest.distance}m)`
+            : this.getAssignedOfficeMessage(assignedOffices)
+      }
+    }
+
+    console.log('🔍 Validating against any active office location')
+    return this.locationValidationService.validateUserLocation(
+      request.latitude,
+      request.longitude,
+      request.accuracyMeters
+    )
+  }
+
+  private getAssignedOfficeMessage(assignedOffices: AssignedOfficeLocation[]): string {
+    return `Anda hanya dapat melakukan absensi di lokasi kantor yang ditugaskan hari ini: ${assignedOffices.map(office => office.name).join(', ')}`
+  }
+
+  private async verifyKioskToken(
+    request: CheckInWithLocationValidationRequest,
+    attendanceDate: Date
+  ): Promise<KioskTokenVerification> {
+    if (!this.kioskTokenService) {
+      return { isValid: false, errorMessage: 'Check-in melalui kiosk tidak tersedia' }
+    }
+
+    const verification = await this.kioskTokenService.verifyToken(request.kioskToken!)
+    if (!verification.isValid) {
+      console.log('❌ Kiosk token rejected:', verification.errorMessage)
+      await this.logFailedKioskAttempt(request, attendanceDate, 'INVALID_KIOSK_TOKEN', verification)
+    }
+    return verification
+  }
+
+  /**
+   * Address sent by the client, otherwise looked up from the coordinates
+   * A failed lookup leaves the address empty for the backfill job.
+   */
+  private async resolveAddress(request: CheckInWithLocationValidationRequest): Promise<string | undefined> {
+    if (request.address || !this.geocodingService || request.latitude === undefined || request.longitude === undefined) {
+      return request.address
+    }
+
+    try {
+      const geocoded = await this.geocodingService.reverseGeocode(request.latitude, request.longitude)
+      return geocoded?.address
+    } catch (geocodingError) {
+      console.error('⚠️ Failed to reverse geocode check-in location:', geocodingError)
+      return undefined
+    }
+  }
+
+  private async recordKioskScan(
+    request: CheckInWithLocationValidationRequest,
+    attendanceDate: Date,
+    kiosk: KioskTokenVerification
+  ): Promise<{ scanId?: string; error?: string }> {
+    const scanId = await this.kioskTokenService!.recordScan({
+      tokenId: kiosk.tokenId!,
+      officeLocationId: kiosk.officeLocation!.id,
+      kioskId: kiosk.kioskId,
+      userId: request.userId,
+      ipAddress: request.ipAddress,
+      userAgent: request.userAgent
+    })
+
+    if (!scanId) {
+      console.log('❌ Kiosk token replayed by user:', request.userId)
+      await this.logFailedKioskAttempt(request, attendanceDate, 'KIOSK_TOKEN_REUSED', kiosk)
+      return { error: 'QR code sudah digunakan. Pindai QR code terbaru di kiosk.' }
+    }
+
+    return { scanId }
+  }
+
+  private async releaseKioskScan(scanId: string): Promise<void> {
+    try {
+      await this.kioskTokenService!.releaseScan(scanId)
+    } catch (kioskError) {
+      console.error('⚠️ Failed to release kiosk scan:', kioskError)
+    }
+  }
+
+  private async logFailedKioskAttempt(
+    request: CheckInWithLocationValidationRequest,
+    attendanceDate: Date,
+    failureReason: string,
+    kiosk: KioskTokenVerification
+  ): Promise<void> {
+    if (!this.auditService) {
+      return
+    }
+
+    try {
+      await this.auditService.logFailedCheckInAttempt(
+        request.userId,
+        {
+          attendanceDate,
+          latitude: request.latitude,
+          longitude: request.longitude,
+          address: request.address,
+          officeLocationId: kiosk.officeLocation?.id,
+          kioskId: kiosk.kioskId,
+          failureReason,
+          locationValidation: null
+        },
+        request.userId,
+        request.ipAddress,
+        request.userAgent
+      )
+    } catch (auditError) {
+      console.error('⚠️ Failed to log failed kiosk check-in attempt:', auditError)
+    }
+  }
+
+  private async determineAttendanceStatus(
+    userId: string,
+    checkInTime: Date,
+    isValidLocation: boolean
+  ): Promise<CheckInTimingResult> {
+    const timing = await this.workScheduleService.evaluateCheckIn(userId, checkInTime)
+
     // If location is invalid, mark as present but with location issue
     if (!isValidLocation) {
-      return AttendanceStatus.PRESENT // Still present, but isValidLocation will be false
+      return { ...timing, status: AttendanceStatus.PRESENT, lateMinutes: 0 } // isValidLocation will be false
+    }
+
+    return timing
+  }
+
+  /**
+   * Lateness had the check-in been made at the given time, or undefined once that
+   * time belongs to another business date
+   */
+  private async evaluateLatenessAt(userId: string, time: Date, attendanceDate: Date): Promise<number | undefined> {
+    const timing = await this.workScheduleService.evaluateCheckIn(userId, time)
+    return timing.attendanceDate.getTime() === attendanceDate.getTime() ? timing.lateMinutes : undefined
+  }
+
+  /**
+   * Turns the day's automatic absence into the check-in, keeping the (user, date) row
+   */
+  private async replaceAbsence(attendanceId: string, data: CreateAttendanceData): Promise<AttendanceEntity> {
+    return this.attendanceRepository.update(attendanceId, {
+      officeLocationId: data.officeLocationId ?? null,
+      checkInTime: data.checkInTime,
+      checkInLatitude: data.checkInLatitude,
+      checkInLongitude: data.checkInLongitude,
+      checkInAddress: data.checkInAddress,
+      checkInAccuracy: data.checkInAccuracy,
+      checkInAltitude: data.checkInAltitude,
+      checkInFixTime: data.checkInFixTime,
+      checkInSyncedAt: data.checkInSyncedAt,
+      status: data.status,
+      workMode: data.workMode,
+      workLetterId: data.workLetterId ?? null,
+      notes: null, // Drops the "Alpha" note left by the job
+      workingHoursMinutes: data.workingHoursMinutes,
+      lateMinutes: data.lateMinutes,
+      shiftId: data.shiftId ?? null,
+      isValidLocation: data.isValidLocation,
+      fraudScore: data.fraudScore,
+      fraudSignals: data.fraudSignals,
+      reviewStatus: data.reviewStatus,
+      reviewerId: data.reviewerId
+    })
+  }
+
+  private async checkPhotoRequirement(
+    request: CheckInWithLocationValidationRequest,
+    officeLocationId?: string
+  ): Promise<{ error?: string; photoRequired?: boolean }> {
+    if (!this.attendancePhotoService || request.photo) {
+      return {}
     }
 
-    // Check if late (assuming work starts at 8:00 AM)
-    const workStartTime = new Date(checkInTime)
-    workStartTime.setHours(8, 0, 0, 0)
+    const required = await this.attendancePhotoService.isPhotoRequired(request.userId, officeLocationId)
+    return required
+      ? { error: 'Foto wajib diambil saat check-in. Ambil foto lalu coba lagi.', photoRequired: true }
+      : {}
+  }
 
-    if (checkInTime > workStartTime) {
-      return AttendanceStatus.LATE
+  /**
+   * Store the check-in photo on a saved attendance
+   * A failed upload keeps the check-in without a photo.
+   */
+  private async storePhoto(
+    request: CheckInWithLocationValidationRequest,
+    attendance: AttendanceEntity
+  ): Promise<AttendanceEntity> {
+    if (!this.attendancePhotoService) {
+      return attendance
     }
 
-    return AttendanceStatus.PRESENT
+    try {
+      const checkInPhotoPath = await this.attendancePhotoService.savePhoto(request.userId, attendance.attendanceDate, PunchType.IN, request.photo!)
+      return await this.attendanceRepository.update(attendance.id, { checkInPhotoPath })
+    } catch (photoError) {
+      console.error('⚠️ Failed to store check-in photo:', photoError)
+      return attendance
+    }
   }
 }
@@ -3,17 +3,29 @@
 // src/use-cases/attendance/CheckOutWithLocationValidation.ts
 // ============================================================================
 
-import { IAttendanceRepository, UpdateAttendanceData } from '@/domain/repositories/IAttendanceRepository'
-import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IAttendanceRepository, AttendanceEntity, UpdateAttendanceData } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { ILocationValidationService, LocationValidationResult } from '@/domain/services/ILocationValidationService'
+import { IFraudDetectionService, FraudFlagData } from '@/domain/services/IFraudDetectionService'
+import { IAttendancePhotoService, AttendancePhoto } from '@/domain/services/IAttendancePhotoService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { IRemoteWorkService } from '@/domain/services/IRemoteWorkService'
+import { IGeocodingService } from '@/domain/services/IGeocodingService'
 import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
-import { getAttendanceDate } from '@/utils/dateUtils'
+import { AttendanceReviewStatus, AttendanceStatus, PunchType, WorkMode } from '@prisma/client'
+import { summarizePunches, withImplicitPunches, PunchEvent } from '@/utils/attendancePunches'
 
 export interface CheckOutWithLocationValidationRequest {
   userId: string
   latitude?: number
   longitude?: number
-  address?: string
-  toleranceMeters?: number
+  address?: string // Reverse geocoded on the server when omitted
+  accuracyMeters?: number // Accuracy reported by the device
+  altitudeMeters?: number
+  fixTime?: Date // When the device took the position fix
+  deviceId?: string
+  photo?: AttendancePhoto // Selfie, required by some offices and roles
+  capturedAt?: Date // Original time of a check-out queued offline, used as the check-out time
   ipAddress?: string
   userAgent?: string
 }
@@ -24,7 +36,10 @@ export interface CheckOutWithLocationValidationResponse {
     id: string
     checkOutTime: Date
     workingHoursMinutes: number
+    breakMinutes: number
     isValidLocation: boolean
+    flaggedForReview: boolean // Accepted, but queued for supervisor review
+    syncedLate: boolean // Captured offline and synced afterwards
     locationValidation?: {
       isValid: boolean
       nearestOfficeLocation?: {
@@ -49,15 +64,23 @@ export interface CheckOutWithLocationValidationResponse {
     }
     distance?: number
     allowedRadius?: number
+    requiresRetry?: boolean
     errorMessage?: string
   }
+  photoRequired?: boolean // Retry with a photo
 }
 
 export class CheckOutWithLocationValidation {
   constructor(
     private attendanceRepository: IAttendanceRepository,
     private locationValidationService: ILocationValidationService,
-    private auditService?: AttendanceAuditService
+    private workScheduleService: IWorkScheduleService,
+    private auditService?: AttendanceAuditService,
+    private punchRepository?: IAttendancePunchRepository,
+    private fraudDetectionService?: IFraudDetectionService,
+    private attendancePhotoService?: IAttendancePhotoService,
+    private remoteWorkService?: IRemoteWorkService,
+    private geocodingService?: IGeocodingService
   ) {}
 
   async execute(request: CheckOutWithLocationValidationRequest): Promise<CheckOutWithLocationValidationResponse> {
@@ -72,9 +95,13 @@ export class CheckOutWithLocationValidation {
       }
 
       // Check if user has checked in today
-      // CRITICAL: Use normalized date for consistency
-      const today = getAttendanceDate()
-      console.log('📅 CheckOut - Using normalized today date:', today.toISOString())
+      // CRITICAL: Use the business date of the shift, so a check-out after an
+      // overnight shift closes the record opened the evening before
+      // A check-out synced from the offline queue counts from when it was captured
+      const checkOutTime = request.capturedAt ?? new Date()
+      const syncedAt = request.capturedAt ? new Date() : undefined
+      const today = await this.workScheduleService.resolveAttendanceDate(request.userId, checkOutTime, 'CHECK_OUT')
+      console.log('📅 CheckOut - Using business date:', today.toISOString())
       const todayAttendance = await this.attendanceRepository.findByUserAndDate(request.userId, today)
       
       if (!todayAttendance) {
@@ -99,28 +126,36 @@ export class CheckOutWithLocationValidation {
         }
       }
 
-      const checkOutTime = new Date()
+      // Punches recorded during the day, so breaks can be excluded
+      let punches: PunchEvent[] = []
+      if (this.punchRepository) {
+        punches = withImplicitPunches(
+          await this.punchRepository.findByAttendance(todayAttendance.id),
+          todayAttendance.checkInTime
+        )
+
+        if (summarizePunches(punches).state === 'ON_BREAK') {
+          return {
+            success: false,
+            error: 'Anda sedang istirahat. Selesaikan istirahat sebelum check-out.'
+          }
+        }
+      }
+
+      // Only possible for an offline capture synced after later punches were recorded
+      if (checkOutTime < todayAttendance.checkInTime || punches.some(punch => punch.punchTime > checkOutTime)) {
+        return {
+          success: false,
+          error: 'Waktu check-out tidak boleh sebelum absen terakhir hari ini'
+        }
+      }
+
       let locationValidation = undefined
       let isValidLocation = true
 
       // Validate location if coordinates are provided
       if (request.latitude !== undefined && request.longitude !== undefined) {
-        // Validate against the same office location used for check-in if available
-        if (todayAttendance.officeLocationId) {
-          locationValidation = await this.locationValidationService.validateAgainstOfficeLocation(
-            request.latitude,
-            request.longitude,
-            todayAttendance.officeLocationId,
-            request.toleranceMeters
-          )
-        } else {
-          // Validate against any active office location
-          locationValidation = await this.locationValidationService.validateUserLocation(
-            request.latitude,
-            request.longitude,
-            request.toleranceMeters
-          )
-        }
+        locationValidation = await this.validateLocation(request.latitude, request.longitude, request, todayAttendance)
 
         isValidLocation = locationValidation.isValid
 
@@ -138,7 +173,7 @@ export class CheckOutWithLocationValidation {
                   latitude: request.latitude,
                   longitude: request.longitude,
                   address: request.address,
-                  failureReason: 'INVALID_LOCATION',
+                  failureReason: locationValidation.requiresRetry ? 'INACCURATE_LOCATION' : 'INVALID_LOCATION',
                   locationValidation
                 },
                 request.userId,
@@ -158,8 +193,8 @@ export class CheckOutWithLocationValidation {
 
           let errorMessage = 'Anda tidak dapat melakukan absensi pulang karena berada di luar radius lokasi kantor yang terdaftar'
 
-          if (nearestLocation && distance && allowedRadius) {
-            errorMessage = `Anda tidak dapat melakukan absensi pulang karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation.name} (Jarak: ${distance}m, Radius maksimal: ${allowedRadius + (request.toleranceMeters || 0)}m)`
+          if (nearestLocation && distance && allowedRadius && locationValidation.geofenceType !== 'POLYGON' && !locationValidation.requiresRetry) {
+            errorMessage = `Anda tidak dapat melakukan absensi pulang karena berada di luar radius lokasi kantor yang terdaftar. Lokasi terdekat: ${nearestLocation.name} (Jarak: ${distance}m, Radius maksimal: ${allowedRadius}m)`
           } else if (locationValidation.errorMessage) {
             errorMessage = locationValidation.errorMessage
           }
@@ -174,32 +209,100 @@ export class CheckOutWithLocationValidation {
         console.log('✅ Location validation passed for check-out')
       }
 
-      // Calculate working hours
-      const workingHoursMinutes = this.attendanceRepository.calculateWorkingHours(
-        todayAttendance.checkInTime,
-        checkOutTime
+      // Offices or roles may require a selfie with the check-out
+      const photo = await this.storePhoto(
+        request,
+        today,
+        locationValidation?.nearestOfficeLocation?.id || todayAttendance.officeLocationId
       )
+      if (photo.error) {
+        return {
+          success: false,
+          error: photo.error,
+          photoRequired: photo.photoRequired
+        }
+      }
+
+      // Calculate working hours, net of breaks when punches are recorded
+      const punchSummary = this.punchRepository
+        ? summarizePunches([...punches, { punchType: PunchType.OUT, punchTime: checkOutTime }])
+        : undefined
+      const workingHoursMinutes = punchSummary
+        ? punchSummary.workingMinutes
+        : this.attendanceRepository.calculateWorkingHours(todayAttendance.checkInTime, checkOutTime)
+      const breakMinutes = punchSummary?.breakMinutes ?? todayAttendance.breakMinutes
 
       // Debug logging for working hours calculation
       console.log('⏰ Working hours calculation:', {
         checkInTime: todayAttendance.checkInTime.toISOString(),
         checkOutTime: checkOutTime.toISOString(),
         calculatedMinutes: workingHoursMinutes,
+        breakMinutes,
         calculatedHours: (workingHoursMinutes / 60).toFixed(2)
       })
 
+      // Suspicious submissions are accepted but flagged for supervisor review
+      const fraudFlag = await this.assessFraud(request, todayAttendance, checkOutTime, syncedAt)
+
+      const address = await this.resolveAddress(request)
+
+      // A real check-out replaces the close-out job's handling of the missing one; a day
+      // the HALF_DAY policy downgraded is evaluated again from its check-in
+      let reopened: Pick<UpdateAttendanceData, 'autoClosedAt' | 'status' | 'lateMinutes'> = {}
+      if (todayAttendance.autoClosedAt) {
+        reopened = { autoClosedAt: null }
+        if (todayAttendance.status === AttendanceStatus.HALF_DAY) {
+          const timing = await this.workScheduleService.evaluateCheckIn(request.userId, todayAttendance.checkInTime)
+          reopened = { ...reopened, status: timing.status, lateMinutes: timing.lateMinutes }
+        }
+      }
+
       // Update attendance record
       const updateData: UpdateAttendanceData = {
         checkOutTime,
         checkOutLatitude: request.latitude,
         checkOutLongitude: request.longitude,
-        checkOutAddress: request.address,
+        checkOutAddress: address,
+        checkOutAccuracy: request.accuracyMeters,
+        checkOutAltitude: request.altitudeMeters,
+        checkOutFixTime: request.fixTime,
+        checkOutPhotoPath: photo.photoPath,
+        checkOutSyncedAt: syncedAt,
         workingHoursMinutes,
-        isValidLocation: todayAttendance.isValidLocation && isValidLocation // Both check-in and check-out must be valid
+        breakMinutes,
+        isValidLocation: todayAttendance.isValidLocation && isValidLocation, // Both check-in and check-out must be valid
+        ...reopened,
+        ...fraudFlag
       }
 
       const updatedAttendance = await this.attendanceRepository.update(todayAttendance.id, updateData)
 
+      if (this.punchRepository) {
+        try {
+          await this.punchRepository.create({
+            attendanceId: updatedAttendance.id,
+            userId: request.userId,
+            attendanceDate: updatedAttendance.attendanceDate,
+            punchType: PunchType.OUT,
+            punchTime: checkOutTime,
+            latitude: request.latitude,
+            longitude: request.longitude,
+            address,
+            officeLocationId: updatedAttendance.officeLocationId || undefined,
+            distanceMeters: locationValidation?.distance !== undefined ? Math.round(locationValidation.distance) : undefined,
+            isValidLocation,
+            accuracyMeters: request.accuracyMeters,
+            altitudeMeters: request.altitudeMeters,
+            fixTime: request.fixTime,
+            deviceId: request.deviceId,
+            syncedAt
+          })
+        } catch (punchError) {
+          // Don't fail the check-out if the punch log cannot be written
+          console.error('⚠️ Failed to record check-out punch:', punchError)
+        }
+      }
+
       // Log audit trail for check-out
       if (this.auditService) {
         try {
@@ -216,7 +319,8 @@ export class CheckOutWithLocationValidation {
               isValidLocation: updatedAttendance.isValidLocation,
               latitude: request.latitude,
               longitude: request.longitude,
-              address: request.address
+              address,
+              syncedAt
             },
             request.userId, // performedBy is the user themselves
             request.ipAddress,
@@ -235,7 +339,10 @@ export class CheckOutWithLocationValidation {
           id: updatedAttendance.id,
           checkOutTime: updatedAttendance.checkOutTime!,
           workingHoursMinutes: updatedAttendance.workingHoursMinutes,
+          breakMinutes: updatedAttendance.breakMinutes,
           isValidLocation: updatedAttendance.isValidLocation,
+          flaggedForReview: updatedAttendance.reviewStatus === AttendanceReviewStatus.PENDING,
+          syncedLate: !!syncedAt,
           locationValidation
         }
       }
@@ -248,6 +355,44 @@ export class CheckOutWithLocationValidation {
     }
   }
 
+  private async validateLocation(
+    latitude: number,
+    longitude: number,
+    request: CheckOutWithLocationValidationRequest,
+    attendance: AttendanceEntity
+  ): Promise<LocationValidationResult> {
+    // A day checked in from home is closed from home
+    const homeLocation = attendance.workMode === WorkMode.WFH
+      ? await this.remoteWorkService?.getApprovedHomeLocation(request.userId)
+      : undefined
+    if (homeLocation) {
+      return this.locationValidationService.validateAgainstHomeLocation(latitude, longitude, homeLocation, request.accuracyMeters)
+    }
+
+    // Field duty days close at the letter destination, or anywhere when it has none
+    const fieldDuty = attendance.workMode === WorkMode.FIELD_DUTY
+      ? await this.remoteWorkService?.resolveFieldDuty(request.userId, attendance.attendanceDate)
+      : undefined
+    if (fieldDuty) {
+      return fieldDuty.destination
+        ? this.locationValidationService.validateAgainstDestination(latitude, longitude, fieldDuty.destination, request.accuracyMeters)
+        : { isValid: true }
+    }
+
+    // Validate against the same office location used for check-in if available
+    if (attendance.officeLocationId) {
+      return this.locationValidationService.validateAgainstOfficeLocation(
+        latitude,
+        longitude,
+        attendance.officeLocationId,
+        request.accuracyMeters
+      )
+    }
+
+    // Validate against any active office location
+    return this.locationValidationService.validateUserLocation(latitude, longitude, request.accuracyMeters)
+  }
+
   private validateInput(request: CheckOutWithLocationValidationRequest): { isValid: boolean; error?: string } {
     // Validate required fields
     if (!request.userId || request.userId.trim().length === 0) {
@@ -270,13 +415,101 @@ export class CheckOutWithLocationValidation {
       }
     }
 
-    // Validate tolerance if provided
-    if (request.toleranceMeters !== undefined) {
-      if (typeof request.toleranceMeters !== 'number' || request.toleranceMeters < 0 || request.toleranceMeters > 500) {
-        return { isValid: false, error: 'Toleransi harus antara 0-500 meter' }
-      }
+    if (request.accuracyMeters !== undefined && (typeof request.accuracyMeters !== 'number' || request.accuracyMeters < 0)) {
+      return { isValid: false, error: 'Akurasi lokasi tidak valid' }
+    }
+
+    if (request.altitudeMeters !== undefined && (typeof request.altitudeMeters !== 'number' || !isFinite(request.altitudeMeters))) {
+      return { isValid: false, error: 'Ketinggian lokasi tidak valid' }
+    }
+
+    if (request.fixTime !== undefined && isNaN(request.fixTime.getTime())) {
+      return { isValid: false, error: 'Waktu pengambilan lokasi tidak valid' }
+    }
+
+    if (request.capturedAt !== undefined && (isNaN(request.capturedAt.getTime()) || request.capturedAt > new Date())) {
+      return { isValid: false, error: 'Waktu perekaman absen tidak valid' }
     }
 
     return { isValid: true }
   }
+
+  /**
+   * Address sent by the client, otherwise looked up from the coordinates
+   */
+  private async resolveAddress(request: CheckOutWithLocationValidationRequest): Promise<string | undefined> {
+    if (request.address || !this.geocodingService || request.latitude === undefined || request.longitude === undefined) {
+      return request.address
+    }
+
+    try {
+      const geocoded = await this.geocodingService.reverseGeocode(request.latitude, request.longitude)
+      return geocoded?.address
+    } catch (geocodingError) {
+      console.error('⚠️ Failed to reverse geocode check-out location:', geocodingError)
+      return undefined
+    }
+  }
+
+  private async assessFraud(
+    request: CheckOutWithLocationValidationRequest,
+    attendance: AttendanceEntity,
+    checkOutTime: Date,
+    syncedAt?: Date
+  ): Promise<FraudFlagData | undefined> {
+    // A check-out without coordinates has nothing to score, unless it was synced from the offline queue
+    const hasCoordinates = request.latitude !== undefined && request.longitude !== undefined
+    if (!this.fraudDetectionService || (!hasCoordinates && !syncedAt)) {
+      return undefined
+    }
+
+    try {
+      const assessment = await this.fraudDetectionService.assess({
+        userId: request.userId,
+        attendanceDate: attendance.attendanceDate,
+        punchType: PunchType.OUT,
+        punchTime: checkOutTime,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        accuracyMeters: request.accuracyMeters,
+        deviceId: request.deviceId,
+        officeLocationId: attendance.officeLocationId,
+        syncedAt
+      })
+      const flag = await this.fraudDetectionService.buildFlagData(request.userId, assessment, attendance)
+      if (flag?.reviewStatus) {
+        console.log('🚩 Check-out flagged for review:', flag.fraudSignals.map(signal => signal.code))
+      }
+      return flag ?? undefined
+    } catch (fraudError) {
+      // Scoring must never block a valid check-out
+      console.error('⚠️ Failed to assess check-out for fraud signals:', fraudError)
+      return undefined
+    }
+  }
+
+  private async storePhoto(
+    request: CheckOutWithLocationValidationRequest,
+    attendanceDate: Date,
+    officeLocationId?: string
+  ): Promise<{ photoPath?: string; error?: string; photoRequired?: boolean }> {
+    if (!this.attendancePhotoService) {
+      return {}
+    }
+
+    if (!request.photo) {
+      const required = await this.attendancePhotoService.isPhotoRequired(request.userId, officeLocationId)
+      return required
+        ? { error: 'Foto wajib diambil saat check-out. Ambil foto lalu coba lagi.', photoRequired: true }
+        : {}
+    }
+
+    try {
+      const photoPath = await this.attendancePhotoService.savePhoto(request.userId, attendanceDate, PunchType.OUT, request.photo)
+      return { photoPath }
+    } catch (photoError) {
+      console.error('⚠️ Failed to store check-out photo:', photoError)
+      return { error: 'Gagal menyimpan foto absensi. Silakan coba lagi.' }
+    }
+  }
 }
@@ -0,0 +1,284 @@
+// ============================================================================
+// CLOSE OPEN ATTENDANCES USE CASE
+// src/use-cases/attendance/CloseOpenAttendances.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { INotificationService } from '@/domain/services/INotificationService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceStatus, NotificationType } from '@prisma/client'
+import {
+  calculateWorkingMinutes,
+  getAttendanceDate,
+  getCalendarDate,
+  getZonedDateTime,
+  parseTimeToMinutes
+} from '@/utils/dateUtils'
+
+// Upper bound for a single backfill run
+const MAX_RANGE_DAYS = 366
+
+// A session stays open until this long after the scheduled end, so late
+// check-outs (overtime, overnight shifts) are not closed prematurely
+const CLOSE_OUT_GRACE_MINUTES = 240
+
+export const OPEN_ATTENDANCE_POLICIES = ['CAP_AT_SCHEDULE_END', 'HALF_DAY', 'FLAG_FOR_CORRECTION'] as const
+export type OpenAttendancePolicy = typeof OPEN_ATTENDANCE_POLICIES[number]
+
+const DEFAULT_POLICY: OpenAttendancePolicy = 'CAP_AT_SCHEDULE_END'
+
+export interface CloseOpenAttendancesRequest {
+  date?: Date
+  startDate?: Date
+  endDate?: Date
+  policy?: OpenAttendancePolicy // Overrides the OPEN_ATTENDANCE_POLICY setting
+  dryRun?: boolean
+}
+
+export interface CloseOpenAttendancesResponse {
+  success: boolean
+  data?: {
+    startDate: string
+    endDate: string
+    policy: OpenAttendancePolicy
+    dryRun: boolean
+    closedCount: number
+    stillOpenCount: number // Scheduled end + grace period not reached yet
+    failedCount: number
+    closedAttendanceIds: string[]
+  }
+  error?: string
+}
+
+export class CloseOpenAttendances {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private systemSettingRepository: ISystemSettingRepository,
+    private workScheduleService: IWorkScheduleService,
+    private notificationService?: INotificationService,
+    private auditService?: AttendanceAuditService
+  ) {}
+
+  async execute(request: CloseOpenAttendancesRequest = {}): Promise<CloseOpenAttendancesResponse> {
+    try {
+      if (request.policy && !OPEN_ATTENDANCE_POLICIES.includes(request.policy)) {
+        return {
+          success: false,
+          error: `Kebijakan tidak valid. Gunakan salah satu: ${OPEN_ATTENDANCE_POLICIES.join(', ')}`
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const range = this.resolveRange(request, timeZone)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      const policy = request.policy || await this.getConfiguredPolicy()
+      const dryRun = request.dryRun ?? false
+      const now = new Date()
+
+      console.log('🔒 CloseOpenAttendances started:', {
+        startDate: range.startDate.toISOString(),
+        endDate: range.endDate.toISOString(),
+        policy,
+        dryRun
+      })
+
+      const result = {
+        closedCount: 0,
+        stillOpenCount: 0,
+        failedCount: 0,
+        closedAttendanceIds: [] as string[]
+      }
+
+      const openAttendances = await this.attendanceRepository.findOpenInRange(range.startDate, range.endDate)
+
+      for (const attendance of openAttendances) {
+        try {
+          const closed = await this.closeAttendance(attendance, policy, timeZone, now, dryRun)
+          if (closed) {
+            result.closedCount++
+            result.closedAttendanceIds.push(attendance.id)
+          } else {
+            result.stillOpenCount++
+          }
+        } catch (error) {
+          console.error(`❌ Failed to close attendance ${attendance.id}:`, error)
+          result.failedCount++
+        }
+      }
+
+      console.log('✅ CloseOpenAttendances completed:', {
+        closedCount: result.closedCount,
+        stillOpenCount: result.stillOpenCount,
+        failedCount: result.failedCount
+      })
+
+      return {
+        success: true,
+        data: {
+          startDate: range.startDate.toISOString(),
+          endDate: range.endDate.toISOString(),
+          policy,
+          dryRun,
+          ...result
+        }
+      }
+    } catch (error) {
+      console.error('❌ CloseOpenAttendances error:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menutup absensi tanpa check-out'
+      }
+    }
+  }
+
+  /**
+   * Close a single open attendance according to the policy
+   * @returns false when the session may still legitimately be open
+   */
+  private async closeAttendance(
+    attendance: AttendanceEntity,
+    policy: OpenAttendancePolicy,
+    timeZone: string,
+    now: Date,
+    dryRun: boolean
+  ): Promise<boolean> {
+    const checkInTime = attendance.checkInTime!
+    const schedule = await this.workScheduleService.resolveSchedule(attendance.userId, attendance.attendanceDate)
+
+    const startMinutes = parseTimeToMinutes(schedule.startTime) ?? 0
+    const endMinutes = (parseTimeToMinutes(schedule.endTime) ?? 0) + (schedule.isOvernight ? 24 * 60 : 0)
+    const scheduledEnd = getZonedDateTime(attendance.attendanceDate, endMinutes, timeZone)
+
+    if (now.getTime() < scheduledEnd.getTime() + CLOSE_OUT_GRACE_MINUTES * 60 * 1000) {
+      return false
+    }
+
+    if (dryRun) {
+      return true
+    }
+
+    const dateLabel = attendance.attendanceDate.toISOString().split('T')[0]
+    let checkOutTime: Date | undefined
+    let status = attendance.status
+    let workingHoursMinutes = 0
+    let reason: string
+
+    switch (policy) {
+      case 'CAP_AT_SCHEDULE_END':
+        // A check-in after the scheduled end is closed at the check-in itself
+        checkOutTime = scheduledEnd > checkInTime ? scheduledEnd : checkInTime
+        workingHoursMinutes = Math.max(0, calculateWorkingMinutes(checkInTime, checkOutTime) - attendance.breakMinutes)
+        reason = `Check-out otomatis pada jam pulang jadwal (tidak ada check-out pada ${dateLabel})`
+        break
+      case 'HALF_DAY':
+        status = AttendanceStatus.HALF_DAY
+        workingHoursMinutes = Math.floor(Math.max(endMinutes - startMinutes, 0) / 2)
+        reason = `Ditandai setengah hari (tidak ada check-out pada ${dateLabel})`
+        break
+      case 'FLAG_FOR_CORRECTION':
+        reason = `Tidak ada check-out pada ${dateLabel}, menunggu koreksi absensi`
+        break
+    }
+
+    const autoClosedAt = new Date()
+    await this.attendanceRepository.update(attendance.id, {
+      ...(checkOutTime && { checkOutTime }),
+      status,
+      workingHoursMinutes,
+      autoClosedAt,
+      notes: attendance.notes ? `${attendance.notes}\n${reason}` : reason
+    })
+
+    if (this.auditService) {
+      await this.auditService.logAutomaticClose(
+        attendance.id,
+        attendance.userId,
+        {
+          status: attendance.status,
+          workingHoursMinutes: attendance.workingHoursMinutes
+        },
+        {
+          checkOutTime,
+          status,
+          workingHoursMinutes,
+          autoClosedAt,
+          policy
+        },
+        reason
+      )
+    }
+
+    if (this.notificationService) {
+      await this.notificationService.notify(attendance.userId, {
+        title: 'Absen pulang tidak tercatat',
+        message: `${reason}. Ajukan koreksi absensi jika jam pulang Anda berbeda.`,
+        type: NotificationType.WARNING,
+        data: {
+          attendanceId: attendance.id,
+          attendanceDate: dateLabel,
+          policy,
+          link: '/attendance/corrections'
+        }
+      })
+    }
+
+    return true
+  }
+
+  private async getConfiguredPolicy(): Promise<OpenAttendancePolicy> {
+    const setting = await this.systemSettingRepository.findByKey('OPEN_ATTENDANCE_POLICY')
+    const value = setting?.value?.trim().toUpperCase() as OpenAttendancePolicy | undefined
+
+    return value && OPEN_ATTENDANCE_POLICIES.includes(value) ? value : DEFAULT_POLICY
+  }
+
+  private resolveRange(request: CloseOpenAttendancesRequest, timeZone: string): {
+    isValid: boolean
+    startDate: Date
+    endDate: Date
+    error?: string
+  } {
+    const today = getCalendarDate(new Date(), timeZone)
+    const yesterday = new Date(today)
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+    const dayBeforeYesterday = new Date(yesterday)
+    dayBeforeYesterday.setUTCDate(dayBeforeYesterday.getUTCDate() - 1)
+
+    // Default to the last two finished days, so overnight sessions still within
+    // the grace period on one run are picked up by the next run
+    const startDate = getAttendanceDate(request.startDate || request.date || dayBeforeYesterday)
+    const endDate = getAttendanceDate(request.endDate || request.date || request.startDate || yesterday)
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return { isValid: false, startDate, endDate, error: 'Format tanggal tidak valid' }
+    }
+
+    if (startDate > endDate) {
+      return { isValid: false, startDate, endDate, error: 'Tanggal mulai tidak boleh setelah tanggal selesai' }
+    }
+
+    if (endDate > today) {
+      return { isValid: false, startDate, endDate, error: 'Tidak dapat memproses tanggal yang akan datang' }
+    }
+
+    const dayCount = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1
+    if (dayCount > MAX_RANGE_DAYS) {
+      return {
+        isValid: false,
+        startDate,
+        endDate,
+        error: `Rentang tanggal maksimal ${MAX_RANGE_DAYS} hari`
+      }
+    }
+
+    return { isValid: true, startDate, endDate }
+  }
+}
@@ -0,0 +1,217 @@
+// ============================================================================
+// CREATE MANUAL ATTENDANCE USE CASE
+// src/use-cases/attendance/CreateManualAttendance.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceStatus } from '@prisma/client'
+import { calculateWorkingMinutes, getZonedDateTime, parseTimeToMinutes } from '@/utils/dateUtils'
+
+export interface CreateManualAttendanceRequest {
+  userId: string
+  attendanceDate: string // YYYY-MM-DD
+  checkInTime?: string // HH:mm
+  checkOutTime?: string // HH:mm, before check-in means the next day
+  status?: AttendanceStatus // Derived from the work schedule when omitted
+  officeLocationId?: string
+  notes?: string
+  reason: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface CreateManualAttendanceResponse {
+  success: boolean
+  data?: AttendanceEntity
+  error?: string
+}
+
+export class CreateManualAttendance {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private userRepository: IUserRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: CreateManualAttendanceRequest): Promise<CreateManualAttendanceResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const user = await this.userRepository.findById(request.userId)
+      if (!user) {
+        return {
+          success: false,
+          error: 'Pegawai tidak ditemukan'
+        }
+      }
+
+      if (request.officeLocationId && !(await this.officeLocationRepository.findById(request.officeLocationId))) {
+        return {
+          success: false,
+          error: 'Lokasi kantor tidak ditemukan'
+        }
+      }
+
+      const attendanceDate = new Date(`${request.attendanceDate}T00:00:00.000Z`)
+      const existing = await this.attendanceRepository.findByUserAndDate(request.userId, attendanceDate)
+      if (existing) {
+        return {
+          success: false,
+          error: 'Pegawai sudah memiliki data absensi pada tanggal tersebut. Gunakan ubah data absensi.'
+        }
+      }
+
+      // Resolve the wall-clock times to moments in the institution timezone
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const checkInMinutes = parseTimeToMinutes(request.checkInTime)
+      const checkOutMinutes = parseTimeToMinutes(request.checkOutTime)
+
+      const checkInTime = checkInMinutes !== null
+        ? getZonedDateTime(attendanceDate, checkInMinutes, timeZone)
+        : undefined
+
+      let checkOutTime: Date | undefined
+      if (checkInTime && checkOutMinutes !== null) {
+        checkOutTime = getZonedDateTime(attendanceDate, checkOutMinutes, timeZone)
+        if (checkOutTime <= checkInTime) {
+          // Check-out after midnight of an overnight shift
+          checkOutTime = getZonedDateTime(attendanceDate, checkOutMinutes + 24 * 60, timeZone)
+        }
+      }
+
+      if ((checkInTime && checkInTime > new Date()) || (checkOutTime && checkOutTime > new Date())) {
+        return {
+          success: false,
+          error: 'Waktu check-in/check-out tidak boleh melebihi waktu sekarang'
+        }
+      }
+
+      // Lateness always follows the work schedule; an explicit status only overrides the label
+      let status: AttendanceStatus = request.status || AttendanceStatus.ABSENT
+      let lateMinutes = 0
+      if (checkInTime) {
+        const timing = await this.workScheduleService.evaluateCheckIn(request.userId, checkInTime)
+        status = request.status || timing.status
+        lateMinutes = status === AttendanceStatus.LATE ? timing.lateMinutes : 0
+      }
+
+      const workingHoursMinutes = checkInTime && checkOutTime
+        ? calculateWorkingMinutes(checkInTime, checkOutTime)
+        : 0
+
+      const reason = request.reason.trim()
+      const notes = [request.notes?.trim(), `Input manual oleh admin: ${reason}`].filter(Boolean).join('\n')
+
+      const attendance = await this.attendanceRepository.create({
+        userId: request.userId,
+        officeLocationId: request.officeLocationId,
+        attendanceDate,
+        checkInTime,
+        checkOutTime,
+        status,
+        lateMinutes,
+        workingHoursMinutes,
+        notes,
+        isValidLocation: true
+      })
+
+      await this.auditService.logManualEntry(
+        attendance.id,
+        request.userId,
+        {
+          attendanceDate,
+          checkInTime,
+          checkOutTime,
+          status,
+          lateMinutes,
+          workingHoursMinutes,
+          officeLocationId: request.officeLocationId,
+          notes
+        },
+        request.adminUserId,
+        reason,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      console.log(`✅ Manual attendance created: ${attendance.id} for ${request.attendanceDate}`)
+
+      return {
+        success: true,
+        data: attendance
+      }
+    } catch (error) {
+      console.error('Error creating manual attendance:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menambahkan data absensi'
+      }
+    }
+  }
+
+  private validateInput(request: CreateManualAttendanceRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'Pegawai wajib dipilih' }
+    }
+
+    if (!request.adminUserId) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.attendanceDate || '') ||
+        isNaN(new Date(`${request.attendanceDate}T00:00:00.000Z`).getTime())) {
+      return { isValid: false, error: 'Tanggal absensi wajib diisi dengan format YYYY-MM-DD' }
+    }
+
+    if (request.checkInTime && parseTimeToMinutes(request.checkInTime) === null) {
+      return { isValid: false, error: 'Format waktu check-in harus HH:mm' }
+    }
+
+    if (request.checkOutTime && parseTimeToMinutes(request.checkOutTime) === null) {
+      return { isValid: false, error: 'Format waktu check-out harus HH:mm' }
+    }
+
+    if (request.checkOutTime && !request.checkInTime) {
+      return { isValid: false, error: 'Waktu check-out memerlukan waktu check-in' }
+    }
+
+    if (request.status && !Object.values(AttendanceStatus).includes(request.status)) {
+      return { isValid: false, error: 'Status absensi tidak valid' }
+    }
+
+    if (request.status === AttendanceStatus.ABSENT && request.checkInTime) {
+      return { isValid: false, error: 'Status tidak hadir tidak dapat disertai waktu check-in/check-out' }
+    }
+
+    if (!request.checkInTime && request.status && request.status !== AttendanceStatus.ABSENT) {
+      return { isValid: false, error: 'Waktu check-in wajib diisi untuk status selain tidak hadir' }
+    }
+
+    if (request.notes && request.notes.trim().length > 500) {
+      return { isValid: false, error: 'Catatan maksimal 500 karakter' }
+    }
+
+    if (!request.reason || request.reason.trim().length < 10) {
+      return { isValid: false, error: 'Alasan wajib diisi minimal 10 karakter' }
+    }
+
+    if (request.reason.trim().length > 500) {
+      return { isValid: false, error: 'Alasan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
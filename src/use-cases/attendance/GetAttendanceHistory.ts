@@ -0,0 +1,246 @@
+// ============================================================================
+// GET ATTENDANCE HISTORY USE CASE
+// src/use-cases/attendance/GetAttendanceHistory.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IOfficeLocationRepository, OfficeLocationEntity } from '@/domain/repositories/IOfficeLocationRepository'
+import { IWorkLetterRepository, FieldDutyLetterWithUser } from '@/domain/repositories/IWorkLetterRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import { AttendanceStatus, HolidayType, WorkMode } from '@prisma/client'
+
+export interface GetAttendanceHistoryRequest {
+  userId: string
+  year: number
+  month: number // 1-12
+}
+
+export interface AttendanceHistoryRecord {
+  id: string
+  date: string // YYYY-MM-DD
+  status: AttendanceStatus
+  workMode: WorkMode
+  checkInTime?: Date
+  checkOutTime?: Date
+  workingHoursMinutes: number // Net of breaks
+  breakMinutes: number
+  lateMinutes: number
+  isValidLocation: boolean
+  notes?: string
+  checkInAddress?: string
+  checkOutAddress?: string
+  officeLocation?: {
+    id: string
+    name: string
+    code: string
+    radiusMeters: number
+  }
+  checkInDistance?: number // Distance from the office (or its boundary) in meters
+  checkOutDistance?: number
+  autoClosedAt?: Date
+  workLetter?: { // Field duty (dinas luar) letter covering the day
+    id: string
+    letterNumber?: string
+    subject: string
+  }
+}
+
+export interface AttendanceHistorySummary {
+  recordedDays: number
+  presentDays: number
+  lateDays: number
+  absentDays: number
+  halfDayDays: number
+  totalWorkingMinutes: number
+  averageWorkingMinutes: number // Per day with a check-in
+  totalLateMinutes: number
+}
+
+export interface GetAttendanceHistoryResponse {
+  success: boolean
+  data?: {
+    year: number
+    month: number
+    records: AttendanceHistoryRecord[]
+    holidays: {
+      date: string
+      name: string
+      type: HolidayType
+    }[]
+    summary: AttendanceHistorySummary
+  }
+  error?: string
+}
+
+export class GetAttendanceHistory {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private locationValidationService: ILocationValidationService,
+    private holidayService?: IHolidayService,
+    private workLetterRepository?: IWorkLetterRepository
+  ) {}
+
+  async execute(request: GetAttendanceHistoryRequest): Promise<GetAttendanceHistoryResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Attendance dates are stored as UTC calendar dates
+      const startDate = new Date(Date.UTC(request.year, request.month - 1, 1))
+      const endDate = new Date(Date.UTC(request.year, request.month, 0))
+
+      const [attendances, totalWorkingMinutes, holidays] = await Promise.all([
+        this.attendanceRepository.findByUserAndDateRange(request.userId, startDate, endDate),
+        this.attendanceRepository.calculateMonthlyWorkingHours(request.userId, request.year, request.month),
+        this.holidayService ? this.holidayService.getHolidays(startDate, endDate) : Promise.resolve([])
+      ])
+
+      const [officeLocations, workLetters] = await Promise.all([
+        this.findOfficeLocations(attendances),
+        this.findWorkLetters(attendances)
+      ])
+
+      const records = attendances
+        .map(attendance => this.buildRecord(attendance, officeLocations, workLetters))
+        .sort((a, b) => a.date.localeCompare(b.date))
+
+      return {
+        success: true,
+        data: {
+          year: request.year,
+          month: request.month,
+          records,
+          holidays: holidays.map(holiday => ({
+            date: holiday.date.toISOString().split('T')[0],
+            name: holiday.name,
+            type: holiday.type
+          })),
+          summary: this.buildSummary(records, totalWorkingMinutes)
+        }
+      }
+    } catch (error) {
+      console.error('Error getting attendance history:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil riwayat absensi'
+      }
+    }
+  }
+
+  private async findOfficeLocations(attendances: AttendanceEntity[]): Promise<Map<string, OfficeLocationEntity>> {
+    const ids = [...new Set(attendances.map(attendance => attendance.officeLocationId).filter(Boolean))] as string[]
+    const locations = await Promise.all(ids.map(id => this.officeLocationRepository.findById(id)))
+
+    return new Map(
+      locations
+        .filter((location): location is OfficeLocationEntity => location !== null)
+        .map(location => [location.id, location])
+    )
+  }
+
+  private async findWorkLetters(attendances: AttendanceEntity[]): Promise<Map<string, FieldDutyLetterWithUser>> {
+    if (!this.workLetterRepository) {
+      return new Map()
+    }
+
+    const repository = this.workLetterRepository
+    const ids = [...new Set(attendances.map(attendance => attendance.workLetterId).filter(Boolean))] as string[]
+    const letters = await Promise.all(ids.map(id => repository.findFieldDutyLetterById(id)))
+
+    return new Map(
+      letters
+        .filter((letter): letter is FieldDutyLetterWithUser => letter !== null)
+        .map(letter => [letter.id, letter])
+    )
+  }
+
+  private buildRecord(
+    attendance: AttendanceEntity,
+    officeLocations: Map<string, OfficeLocationEntity>,
+    workLetters: Map<string, FieldDutyLetterWithUser>
+  ): AttendanceHistoryRecord {
+    const office = attendance.officeLocationId ? officeLocations.get(attendance.officeLocationId) : undefined
+    const workLetter = attendance.workLetterId ? workLetters.get(attendance.workLetterId) : undefined
+
+    return {
+      id: attendance.id,
+      date: attendance.attendanceDate.toISOString().split('T')[0],
+      status: attendance.status,
+      workMode: attendance.workMode,
+      checkInTime: attendance.checkInTime || undefined,
+      checkOutTime: attendance.checkOutTime || undefined,
+      workingHoursMinutes: attendance.workingHoursMinutes,
+      breakMinutes: attendance.breakMinutes,
+      lateMinutes: attendance.lateMinutes,
+      isValidLocation: attendance.isValidLocation,
+      notes: attendance.notes || undefined,
+      checkInAddress: attendance.checkInAddress || undefined,
+      checkOutAddress: attendance.checkOutAddress || undefined,
+      officeLocation: office ? {
+        id: office.id,
+        name: office.name,
+        code: office.code,
+        radiusMeters: office.radiusMeters
+      } : undefined,
+      checkInDistance: this.getDistance(office, attendance.checkInLatitude, attendance.checkInLongitude),
+      checkOutDistance: this.getDistance(office, attendance.checkOutLatitude, attendance.checkOutLongitude),
+      autoClosedAt: attendance.autoClosedAt || undefined,
+      workLetter: workLetter ? {
+        id: workLetter.id,
+        letterNumber: workLetter.letterNumber,
+        subject: workLetter.subject
+      } : undefined
+    }
+  }
+
+  private getDistance(office?: OfficeLocationEntity, latitude?: number, longitude?: number): number | undefined {
+    if (!office || latitude === undefined || latitude === null || longitude === undefined || longitude === null) {
+      return undefined
+    }
+
+    // Coordinates come back from the database as Decimal values; polygon offices measure to the boundary
+    return Math.round(this.locationValidationService.measureDistanceToOffice(
+      { latitude: Number(latitude), longitude: Number(longitude) },
+      office
+    ))
+  }
+
+  private buildSummary(records: AttendanceHistoryRecord[], totalWorkingMinutes: number): AttendanceHistorySummary {
+    const countByStatus = (status: AttendanceStatus) => records.filter(record => record.status === status).length
+    const checkedInDays = records.filter(record => record.checkInTime).length
+
+    return {
+      recordedDays: records.length,
+      presentDays: countByStatus(AttendanceStatus.PRESENT),
+      lateDays: countByStatus(AttendanceStatus.LATE),
+      absentDays: countByStatus(AttendanceStatus.ABSENT),
+      halfDayDays: countByStatus(AttendanceStatus.HALF_DAY),
+      totalWorkingMinutes,
+      averageWorkingMinutes: checkedInDays > 0 ? Math.round(totalWorkingMinutes / checkedInDays) : 0,
+      totalLateMinutes: records.reduce((total, record) => total + record.lateMinutes, 0)
+    }
+  }
+
+  private validateInput(request: GetAttendanceHistoryRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (!Number.isInteger(request.year) || request.year < 2000 || request.year > 2100) {
+      return { isValid: false, error: 'Tahun tidak valid' }
+    }
+
+    if (!Number.isInteger(request.month) || request.month < 1 || request.month > 12) {
+      return { isValid: false, error: 'Bulan tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
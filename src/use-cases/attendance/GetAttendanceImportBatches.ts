@@ -0,0 +1,66 @@
+// ============================================================================
+// GET ATTENDANCE IMPORT BATCHES USE CASE
+// src/use-cases/attendance/GetAttendanceImportBatches.ts
+// ============================================================================
+
+import {
+  IAttendanceImportBatchRepository,
+  AttendanceImportBatchWithUsers
+} from '@/domain/repositories/IAttendanceImportBatchRepository'
+
+export interface GetAttendanceImportBatchesRequest {
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetAttendanceImportBatchesResponse {
+  success: boolean
+  data?: {
+    batches: AttendanceImportBatchWithUsers[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetAttendanceImportBatches {
+  constructor(private importBatchRepository: IAttendanceImportBatchRepository) {}
+
+  async execute(request: GetAttendanceImportBatchesRequest): Promise<GetAttendanceImportBatchesResponse> {
+    try {
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 10, 1), 100)
+      const offset = (page - 1) * limit
+
+      const [batches, total] = await Promise.all([
+        this.importBatchRepository.findMany(limit, offset),
+        this.importBatchRepository.count()
+      ])
+
+      return {
+        success: true,
+        data: {
+          batches,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting attendance import batches:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil riwayat impor absensi'
+      }
+    }
+  }
+}
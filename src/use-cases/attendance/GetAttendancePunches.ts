@@ -0,0 +1,96 @@
+// ============================================================================
+// GET ATTENDANCE PUNCHES USE CASE
+// src/use-cases/attendance/GetAttendancePunches.ts
+// ============================================================================
+
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository, AttendancePunchEntity } from '@/domain/repositories/IAttendancePunchRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { PunchType } from '@prisma/client'
+import { ALLOWED_PUNCHES, summarizePunches, withImplicitPunches, PunchState } from '@/utils/attendancePunches'
+
+export interface GetAttendancePunchesRequest {
+  userId: string
+  date?: string // YYYY-MM-DD, defaults to the current business date
+}
+
+export interface GetAttendancePunchesResponse {
+  success: boolean
+  data?: {
+    attendanceId?: string
+    attendanceDate: string
+    punches: AttendancePunchEntity[]
+    state: PunchState
+    allowedPunches: PunchType[]
+    workingMinutes: number // Up to now while still working
+    breakMinutes: number
+  }
+  error?: string
+}
+
+export class GetAttendancePunches {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private punchRepository: IAttendancePunchRepository,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: GetAttendancePunchesRequest): Promise<GetAttendancePunchesResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const now = new Date()
+      const attendanceDate = request.date
+        ? new Date(`${request.date}T00:00:00.000Z`)
+        : await this.workScheduleService.resolveAttendanceDate(request.userId, now, 'CHECK_OUT')
+      const attendance = await this.attendanceRepository.findByUserAndDate(request.userId, attendanceDate)
+
+      const punches = attendance ? await this.punchRepository.findByAttendance(attendance.id) : []
+      const summary = summarizePunches(
+        withImplicitPunches(punches, attendance?.checkInTime, attendance?.checkOutTime),
+        attendance?.autoClosedAt ? undefined : now
+      )
+
+      // A day closed by the close-out job only changes through a correction
+      const allowedPunches = attendance?.autoClosedAt ? [] : ALLOWED_PUNCHES[summary.state]
+
+      return {
+        success: true,
+        data: {
+          attendanceId: attendance?.id,
+          attendanceDate: attendanceDate.toISOString().split('T')[0],
+          punches,
+          state: summary.state,
+          allowedPunches,
+          workingMinutes: summary.workingMinutes,
+          breakMinutes: summary.breakMinutes
+        }
+      }
+    } catch (error) {
+      console.error('Error getting attendance punches:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data absensi'
+      }
+    }
+  }
+
+  private validateInput(request: GetAttendancePunchesRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (request.date !== undefined &&
+        (!/^\d{4}-\d{2}-\d{2}$/.test(request.date) || isNaN(new Date(`${request.date}T00:00:00.000Z`).getTime()))) {
+      return { isValid: false, error: 'Tanggal harus berformat YYYY-MM-DD' }
+    }
+
+    return { isValid: true }
+  }
+}
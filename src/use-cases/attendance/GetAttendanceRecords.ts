@@ -0,0 +1,123 @@
+// ============================================================================
+// GET ATTENDANCE RECORDS USE CASE
+// src/use-cases/attendance/GetAttendanceRecords.ts
+// ============================================================================
+
+import { AttendanceStatus } from '@prisma/client'
+import {
+  IAttendanceRepository,
+  AttendanceFilters,
+  AttendanceWithUser
+} from '@/domain/repositories/IAttendanceRepository'
+
+export interface GetAttendanceRecordsRequest {
+  filters?: {
+    userId?: string
+    departmentId?: string
+    status?: AttendanceStatus
+    startDate?: string // YYYY-MM-DD
+    endDate?: string // YYYY-MM-DD
+  }
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetAttendanceRecordsResponse {
+  success: boolean
+  data?: {
+    attendances: AttendanceWithUser[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetAttendanceRecords {
+  constructor(private attendanceRepository: IAttendanceRepository) {}
+
+  async execute(request: GetAttendanceRecordsRequest): Promise<GetAttendanceRecordsResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 20, 1), 100)
+      const offset = (page - 1) * limit
+
+      // Default to the current month
+      const now = new Date()
+      const startDate = request.filters?.startDate
+        ? new Date(`${request.filters.startDate}T00:00:00.000Z`)
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1))
+      const endDate = request.filters?.endDate
+        ? new Date(`${request.filters.endDate}T00:00:00.000Z`)
+        : new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 0))
+
+      if (startDate > endDate) {
+        return {
+          success: false,
+          error: 'Tanggal mulai tidak boleh setelah tanggal selesai'
+        }
+      }
+
+      const filters: AttendanceFilters = {
+        ...(request.filters?.userId && { userId: request.filters.userId }),
+        ...(request.filters?.departmentId && { departmentId: request.filters.departmentId }),
+        ...(request.filters?.status && { status: request.filters.status }),
+        startDate,
+        endDate
+      }
+
+      const [attendances, total] = await Promise.all([
+        this.attendanceRepository.findMany(filters, limit, offset),
+        this.attendanceRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          attendances,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting attendance records:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data absensi'
+      }
+    }
+  }
+
+  private validateInput(request: GetAttendanceRecordsRequest): { isValid: boolean; error?: string } {
+    const { startDate, endDate, status } = request.filters || {}
+
+    for (const date of [startDate, endDate]) {
+      if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime()))) {
+        return { isValid: false, error: 'Format tanggal harus YYYY-MM-DD' }
+      }
+    }
+
+    if (status && !Object.values(AttendanceStatus).includes(status)) {
+      return { isValid: false, error: 'Status absensi tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,83 @@
+// ============================================================================
+// GET FLAGGED ATTENDANCES USE CASE
+// src/use-cases/attendance/GetFlaggedAttendances.ts
+// ============================================================================
+
+import {
+  IAttendanceRepository,
+  AttendanceFilters,
+  AttendanceWithUser
+} from '@/domain/repositories/IAttendanceRepository'
+import { AttendanceReviewStatus } from '@prisma/client'
+
+export interface GetFlaggedAttendancesRequest {
+  reviewerId: string // Attendance assigned to this supervisor
+  canReviewAll?: boolean // HR admins see every flagged attendance
+  reviewStatus?: AttendanceReviewStatus // Defaults to PENDING
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetFlaggedAttendancesResponse {
+  success: boolean
+  data?: {
+    attendances: AttendanceWithUser[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetFlaggedAttendances {
+  constructor(private attendanceRepository: IAttendanceRepository) {}
+
+  async execute(request: GetFlaggedAttendancesRequest): Promise<GetFlaggedAttendancesResponse> {
+    try {
+      if (request.reviewStatus && !Object.values(AttendanceReviewStatus).includes(request.reviewStatus)) {
+        return {
+          success: false,
+          error: 'Status peninjauan tidak valid'
+        }
+      }
+
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 10, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: AttendanceFilters = {
+        reviewStatus: request.reviewStatus || AttendanceReviewStatus.PENDING,
+        ...(!request.canReviewAll && { reviewerId: request.reviewerId })
+      }
+
+      const [attendances, total] = await Promise.all([
+        this.attendanceRepository.findMany(filters, limit, offset),
+        this.attendanceRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          attendances,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting flagged attendances:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data absensi yang ditandai'
+      }
+    }
+  }
+}
@@ -0,0 +1,78 @@
+// ============================================================================
+// GET KIOSK TOKEN USE CASE
+// src/use-cases/attendance/GetKioskToken.ts
+// ============================================================================
+
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IKioskTokenService } from '@/domain/services/IKioskTokenService'
+
+export interface GetKioskTokenRequest {
+  officeLocationId: string
+  kioskKey: string // From the kiosk page URL
+  kioskId?: string // Device ID of the kiosk
+}
+
+export interface GetKioskTokenResponse {
+  success: boolean
+  data?: {
+    token: string
+    expiresAt: Date
+    refreshAfterSeconds: number
+    officeLocation: {
+      name: string
+      code: string
+    }
+  }
+  error?: string
+}
+
+export class GetKioskToken {
+  constructor(
+    private officeLocationRepository: IOfficeLocationRepository,
+    private kioskTokenService: IKioskTokenService
+  ) {}
+
+  async execute(request: GetKioskTokenRequest): Promise<GetKioskTokenResponse> {
+    try {
+      if (!request.officeLocationId || !request.kioskKey) {
+        return {
+          success: false,
+          error: 'Lokasi kantor dan kunci kiosk wajib diisi'
+        }
+      }
+
+      const token = await this.kioskTokenService.issueToken(
+        request.officeLocationId,
+        request.kioskKey,
+        request.kioskId?.slice(0, 64)
+      )
+
+      // Same error for unknown offices and wrong keys
+      if (!token) {
+        return {
+          success: false,
+          error: 'Kiosk tidak ditemukan atau tidak aktif'
+        }
+      }
+
+      const officeLocation = await this.officeLocationRepository.findById(request.officeLocationId)
+
+      return {
+        success: true,
+        data: {
+          ...token,
+          officeLocation: {
+            name: officeLocation?.name || '',
+            code: officeLocation?.code || ''
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error issuing kiosk token:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat QR code kiosk'
+      }
+    }
+  }
+}
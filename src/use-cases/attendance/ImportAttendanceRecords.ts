@@ -0,0 +1,333 @@
+// ============================================================================
+// IMPORT ATTENDANCE RECORDS USE CASE
+// src/use-cases/attendance/ImportAttendanceRecords.ts
+// ============================================================================
+
+import { AttendanceStatus } from '@prisma/client'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendanceImportBatchRepository } from '@/domain/repositories/IAttendanceImportBatchRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { calculateWorkingMinutes, getZonedDateTime, parseTimeToMinutes } from '@/utils/dateUtils'
+import {
+  AttendanceImportFormat,
+  AttendanceImportParseResult,
+  ParsedAttendanceRow,
+  parseAttendanceCsv,
+  parseAttendanceXlsx
+} from '@/utils/attendanceImport'
+
+// Several months of a unit of ~100 employees
+const MAX_IMPORT_ROWS = 10000
+
+export interface ImportAttendanceRecordsRequest {
+  content: ArrayBuffer
+  fileName: string
+  format: AttendanceImportFormat
+  dryRun?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface ImportedAttendanceRow {
+  line: number
+  nip: string
+  userName?: string
+  date: string
+  checkInTime?: string
+  checkOutTime?: string
+  status?: AttendanceStatus // Derived from the work schedule when the file has none
+  lateMinutes?: number
+  result: 'CREATED' | 'WILL_CREATE' | 'DUPLICATE'
+}
+
+export interface ImportAttendanceRecordsResponse {
+  success: boolean
+  data?: {
+    dryRun: boolean
+    batchId?: string // Undo handle; only set when attendances were created
+    totalRows: number
+    createdCount: number
+    duplicateCount: number
+    rows: ImportedAttendanceRow[]
+    errors: Array<{ line: number; message: string }>
+  }
+  error?: string
+}
+
+interface ResolvedAttendanceRow {
+  row: ParsedAttendanceRow
+  userId: string
+  attendanceDate: Date
+  checkInTime?: Date
+  checkOutTime?: Date
+}
+
+export class ImportAttendanceRecords {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private importBatchRepository: IAttendanceImportBatchRepository,
+    private userRepository: IUserRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: ImportAttendanceRecordsRequest): Promise<ImportAttendanceRecordsResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const parsed: AttendanceImportParseResult = request.format === 'XLSX'
+        ? await parseAttendanceXlsx(request.content)
+        : parseAttendanceCsv(new TextDecoder().decode(request.content))
+
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        return {
+          success: false,
+          error: `Maksimal ${MAX_IMPORT_ROWS} baris per import`
+        }
+      }
+
+      const dryRun = request.dryRun ?? false
+      const errors = [...parsed.errors]
+      const rows: ImportedAttendanceRow[] = []
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const now = new Date()
+
+      const users = await this.userRepository.findByNIPs([...new Set(parsed.rows.map(row => row.nip))])
+      const usersByNip = new Map(users.map(user => [user.nip!, user]))
+
+      // Resolve every row first so the whole file is validated before anything is written
+      const resolvedRows: ResolvedAttendanceRow[] = []
+      for (const row of parsed.rows) {
+        const user = usersByNip.get(row.nip)
+        if (!user) {
+          errors.push({ line: row.line, message: `Pegawai dengan NIP ${row.nip} tidak ditemukan` })
+          continue
+        }
+
+        const rowError = this.validateRow(row)
+        if (rowError) {
+          errors.push({ line: row.line, message: rowError })
+          continue
+        }
+
+        const attendanceDate = new Date(`${row.date}T00:00:00.000Z`)
+        const checkInMinutes = parseTimeToMinutes(row.checkInTime)
+        const checkOutMinutes = parseTimeToMinutes(row.checkOutTime)
+
+        const checkInTime = checkInMinutes !== null
+          ? getZonedDateTime(attendanceDate, checkInMinutes, timeZone)
+          : undefined
+
+        let checkOutTime: Date | undefined
+        if (checkInTime && checkOutMinutes !== null) {
+          checkOutTime = getZonedDateTime(attendanceDate, checkOutMinutes, timeZone)
+          if (checkOutTime <= checkInTime) {
+            // Check-out after midnight of an overnight shift
+            checkOutTime = getZonedDateTime(attendanceDate, checkOutMinutes + 24 * 60, timeZone)
+          }
+        }
+
+        if ((checkInTime && checkInTime > now) || (checkOutTime && checkOutTime > now)) {
+          errors.push({ line: row.line, message: 'Waktu check-in/check-out tidak boleh melebihi waktu sekarang' })
+          continue
+        }
+
+        resolvedRows.push({ row, userId: user.id, attendanceDate, checkInTime, checkOutTime })
+      }
+
+      const existingDates = await this.findExistingDates(resolvedRows)
+      const seenKeys = new Set<string>()
+      const toCreate: Array<ResolvedAttendanceRow & { result: ImportedAttendanceRow }> = []
+
+      for (const resolved of resolvedRows) {
+        const { row } = resolved
+        const key = `${resolved.userId}|${row.date}`
+
+        // Lateness always follows the work schedule; an explicit status only overrides the label
+        let status: AttendanceStatus = row.status || AttendanceStatus.ABSENT
+        let lateMinutes = 0
+        if (resolved.checkInTime) {
+          const timing = await this.workScheduleService.evaluateCheckIn(resolved.userId, resolved.checkInTime)
+          status = row.status || timing.status
+          lateMinutes = status === AttendanceStatus.LATE ? timing.lateMinutes : 0
+        }
+
+        const result: ImportedAttendanceRow = {
+          line: row.line,
+          nip: row.nip,
+          userName: usersByNip.get(row.nip)?.name || undefined,
+          date: row.date,
+          checkInTime: row.checkInTime,
+          checkOutTime: row.checkOutTime,
+          status,
+          lateMinutes,
+          result: dryRun ? 'WILL_CREATE' : 'CREATED'
+        }
+
+        if (seenKeys.has(key) || existingDates.has(key)) {
+          rows.push({ ...result, result: 'DUPLICATE' })
+          continue
+        }
+        seenKeys.add(key)
+
+        rows.push(result)
+        toCreate.push({ ...resolved, result })
+      }
+
+      let batchId: string | undefined
+      let createdCount = toCreate.length
+
+      if (!dryRun && toCreate.length > 0) {
+        const batch = await this.importBatchRepository.create({
+          fileName: request.fileName,
+          rowCount: parsed.rows.length + parsed.errors.length,
+          createdCount: toCreate.length,
+          importedById: request.adminUserId
+        })
+        batchId = batch.id
+
+        const reason = `Impor data absensi dari ${request.fileName}`
+        createdCount = 0
+        for (const item of toCreate) {
+          const { row, result } = item
+          const workingHoursMinutes = item.checkInTime && item.checkOutTime
+            ? calculateWorkingMinutes(item.checkInTime, item.checkOutTime)
+            : 0
+          const notes = [row.notes?.trim(), reason].filter(Boolean).join('\n')
+
+          try {
+            const attendance = await this.attendanceRepository.create({
+              userId: item.userId,
+              attendanceDate: item.attendanceDate,
+              checkInTime: item.checkInTime,
+              checkOutTime: item.checkOutTime,
+              status: result.status,
+              lateMinutes: result.lateMinutes,
+              workingHoursMinutes,
+              notes,
+              isValidLocation: true,
+              importBatchId: batch.id
+            })
+            createdCount++
+
+            await this.auditService.logManualEntry(
+              attendance.id,
+              item.userId,
+              {
+                attendanceDate: item.attendanceDate,
+                checkInTime: item.checkInTime,
+                checkOutTime: item.checkOutTime,
+                status: result.status!,
+                lateMinutes: result.lateMinutes,
+                workingHoursMinutes,
+                notes
+              },
+              request.adminUserId,
+              reason,
+              request.ipAddress,
+              request.userAgent
+            )
+          } catch (error) {
+            // A check-in on the same day may have landed since the preview
+            console.error(`❌ Failed to import attendance row ${row.line}:`, error)
+            result.result = 'DUPLICATE'
+            errors.push({ line: row.line, message: 'Gagal menyimpan baris, data absensi mungkin sudah ada' })
+          }
+        }
+
+        if (createdCount !== toCreate.length) {
+          await this.importBatchRepository.updateCreatedCount(batch.id, createdCount)
+        }
+
+        console.log(`✅ Attendance import ${batch.id}: ${createdCount} attendances from ${request.fileName}`)
+      }
+
+      return {
+        success: true,
+        data: {
+          dryRun,
+          batchId,
+          totalRows: parsed.rows.length + parsed.errors.length,
+          createdCount,
+          duplicateCount: rows.filter(row => row.result === 'DUPLICATE').length,
+          rows,
+          errors: errors.sort((a, b) => a.line - b.line)
+        }
+      }
+    } catch (error) {
+      console.error('Error importing attendance records:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengimpor data absensi'
+      }
+    }
+  }
+
+  // User/date pairs that already have an attendance, looked up once per employee
+  private async findExistingDates(resolvedRows: ResolvedAttendanceRow[]): Promise<Set<string>> {
+    const rangesByUser = new Map<string, { start: Date; end: Date }>()
+    for (const { userId, attendanceDate } of resolvedRows) {
+      const range = rangesByUser.get(userId)
+      rangesByUser.set(userId, {
+        start: range && range.start < attendanceDate ? range.start : attendanceDate,
+        end: range && range.end > attendanceDate ? range.end : attendanceDate
+      })
+    }
+
+    const existingDates = new Set<string>()
+    for (const [userId, range] of rangesByUser) {
+      const attendances = await this.attendanceRepository.findByUserAndDateRange(userId, range.start, range.end)
+      attendances.forEach(attendance =>
+        existingDates.add(`${userId}|${attendance.attendanceDate.toISOString().split('T')[0]}`)
+      )
+    }
+    return existingDates
+  }
+
+  // Same rules as a manual entry by an admin
+  private validateRow(row: ParsedAttendanceRow): string | null {
+    if (row.checkOutTime && !row.checkInTime) {
+      return 'Jam pulang memerlukan jam masuk'
+    }
+
+    if (row.status === AttendanceStatus.ABSENT && row.checkInTime) {
+      return 'Status tidak hadir tidak dapat disertai jam masuk/pulang'
+    }
+
+    if (!row.checkInTime && row.status !== AttendanceStatus.ABSENT) {
+      return 'Jam masuk wajib diisi untuk status selain tidak hadir'
+    }
+
+    if (row.notes && row.notes.length > 500) {
+      return 'Catatan maksimal 500 karakter'
+    }
+
+    return null
+  }
+
+  private validateInput(request: ImportAttendanceRecordsRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.content || request.content.byteLength === 0) {
+      return { isValid: false, error: 'File import kosong' }
+    }
+
+    if (!['CSV', 'XLSX'].includes(request.format)) {
+      return { isValid: false, error: 'Format file harus CSV atau XLSX' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,460 @@
+// ============================================================================
+// IMPORT FINGERPRINT LOGS USE CASE
+// src/use-cases/attendance/ImportFingerprintLogs.ts
+// ============================================================================
+
+import { AttendanceStatus, PunchSource, PunchType } from '@prisma/client'
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { CheckInTimingResult, IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService, AttendanceAuditSnapshot } from '@/infrastructure/services/AttendanceAuditService'
+import { PunchEvent, isPunchAllowed, summarizePunches, withImplicitPunches } from '@/utils/attendancePunches'
+import { getCalendarDate, getZonedDateTime } from '@/utils/dateUtils'
+import { FingerprintLogFormat, parseFingerprintLog } from '@/utils/fingerprintImport'
+
+// A full ATTLOG dump of a busy terminal; narrow it down with a date range
+const MAX_IMPORT_ROWS = 20000
+
+// Terminals often register one finger twice in a row
+const DOUBLE_READ_WINDOW_MS = 60 * 1000
+
+export interface ImportFingerprintLogsRequest {
+  content: string
+  fileName: string
+  deviceSerial?: string // Recorded on the punches instead of the file name
+  officeLocationId?: string // Office the terminal stands in
+  startDate?: string // YYYY-MM-DD, scans outside the range are skipped
+  endDate?: string
+  dryRun?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export type FingerprintRowStatus =
+  | 'CHECK_IN' // Became the check-in of the day
+  | 'CHECK_OUT' // Became the check-out of the day
+  | 'IGNORED' // Scan between check-in and check-out, or the day already has it
+  | 'DUPLICATE' // Imported before, or a double read of the previous scan
+  | 'UNMATCHED' // No employee with this NIP
+  | 'PENDING' // The day is not over yet
+  | 'OUT_OF_RANGE'
+
+export interface ImportedFingerprintRow {
+  line: number
+  deviceUserId: string
+  userName?: string
+  attendanceDate?: string // YYYY-MM-DD business date
+  punchTime: string
+  status: FingerprintRowStatus
+}
+
+export interface ImportFingerprintLogsResponse {
+  success: boolean
+  data?: {
+    dryRun: boolean
+    format: FingerprintLogFormat
+    totalRows: number
+    punchCount: number
+    createdAttendanceCount: number
+    updatedAttendanceCount: number
+    duplicateCount: number
+    ignoredCount: number
+    skippedCount: number // Pending and out-of-range scans
+    unmatchedIds: string[]
+    rows: ImportedFingerprintRow[]
+    errors: Array<{ line: number; message: string }>
+  }
+  error?: string
+}
+
+interface FingerprintScan {
+  row: ImportedFingerprintRow
+  userId: string
+  calendarDate: string // YYYY-MM-DD on the terminal clock
+  punchTime: Date
+}
+
+export class ImportFingerprintLogs {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private punchRepository: IAttendancePunchRepository,
+    private userRepository: IUserRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private systemSettingRepository: ISystemSettingRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: ImportFingerprintLogsRequest): Promise<ImportFingerprintLogsResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const fingerprintSetting = await this.systemSettingRepository.findByKey('FINGERPRINT_REQUIRED')
+      if (fingerprintSetting?.value === 'false') {
+        return {
+          success: false,
+          error: 'Absensi fingerprint tidak diaktifkan (pengaturan FINGERPRINT_REQUIRED)'
+        }
+      }
+
+      if (request.officeLocationId && !(await this.officeLocationRepository.findById(request.officeLocationId))) {
+        return {
+          success: false,
+          error: 'Lokasi kantor tidak ditemukan'
+        }
+      }
+
+      const parsed = parseFingerprintLog(request.content)
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        return {
+          success: false,
+          error: `Maksimal ${MAX_IMPORT_ROWS} baris per import, batasi dengan rentang tanggal`
+        }
+      }
+
+      const dryRun = request.dryRun ?? false
+      const sourceReference = request.deviceSerial?.trim() || request.fileName
+      const errors = [...parsed.errors]
+      const rows: ImportedFingerprintRow[] = []
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const now = new Date()
+      const today = getCalendarDate(now, timeZone)
+
+      // Device user IDs are matched to NIPs in one lookup
+      const deviceUserIds = [...new Set(parsed.rows.map(row => row.deviceUserId))]
+      const users = await this.userRepository.findByNIPs(deviceUserIds)
+      const usersByNip = new Map(users.map(user => [user.nip!, user]))
+      const unmatchedIds = new Set<string>()
+
+      const scans: FingerprintScan[] = []
+      for (const row of parsed.rows) {
+        const [hours, minutes, seconds] = row.time.split(':').map(Number)
+        const punchTime = new Date(
+          getZonedDateTime(new Date(`${row.date}T00:00:00.000Z`), hours * 60 + minutes, timeZone).getTime() +
+          seconds * 1000
+        )
+        const result: ImportedFingerprintRow = {
+          line: row.line,
+          deviceUserId: row.deviceUserId,
+          punchTime: punchTime.toISOString(),
+          status: 'IGNORED'
+        }
+        rows.push(result)
+
+        if ((request.startDate && row.date < request.startDate) || (request.endDate && row.date > request.endDate)) {
+          result.status = 'OUT_OF_RANGE'
+          continue
+        }
+
+        const user = usersByNip.get(row.deviceUserId)
+        if (!user) {
+          result.status = 'UNMATCHED'
+          unmatchedIds.add(row.deviceUserId)
+          continue
+        }
+        result.userName = user.name || undefined
+
+        if (punchTime > now) {
+          result.status = 'OUT_OF_RANGE'
+          errors.push({ line: row.line, message: 'Waktu scan melebihi waktu sekarang, periksa jam mesin' })
+          continue
+        }
+
+        scans.push({ row: result, userId: user.id, calendarDate: row.date, punchTime })
+      }
+
+      const days = await this.groupByAttendanceDay(scans)
+
+      let createdAttendanceCount = 0
+      let updatedAttendanceCount = 0
+
+      for (const [key, dayScans] of days) {
+        const attendanceDate = new Date(`${key.split('|')[1]}T00:00:00.000Z`)
+
+        // Scans of the running day would close it at the latest scan so far
+        if (attendanceDate >= today) {
+          dayScans.forEach(scan => (scan.row.status = 'PENDING'))
+          continue
+        }
+
+        try {
+          const outcome = await this.mergeDay(dayScans, attendanceDate, request, sourceReference, dryRun)
+          if (outcome === 'CREATED') createdAttendanceCount++
+          if (outcome === 'UPDATED') updatedAttendanceCount++
+        } catch (error) {
+          console.error(`❌ Failed to import fingerprint scans of ${key}:`, error)
+          dayScans.forEach(scan => (scan.row.status = 'IGNORED'))
+          errors.push({ line: dayScans[0].row.line, message: 'Gagal menyimpan absensi dari scan ini' })
+        }
+      }
+
+      const countOf = (...statuses: FingerprintRowStatus[]) =>
+        rows.filter(row => statuses.includes(row.status)).length
+
+      console.log(`✅ Fingerprint log ${sourceReference} imported${dryRun ? ' (dry run)' : ''}:`, {
+        totalRows: parsed.rows.length,
+        createdAttendanceCount,
+        updatedAttendanceCount,
+        unmatchedCount: unmatchedIds.size
+      })
+
+      return {
+        success: true,
+        data: {
+          dryRun,
+          format: parsed.format,
+          totalRows: parsed.rows.length,
+          punchCount: countOf('CHECK_IN', 'CHECK_OUT'),
+          createdAttendanceCount,
+          updatedAttendanceCount,
+          duplicateCount: countOf('DUPLICATE'),
+          ignoredCount: countOf('IGNORED'),
+          skippedCount: countOf('PENDING', 'OUT_OF_RANGE'),
+          unmatchedIds: [...unmatchedIds],
+          rows,
+          errors
+        }
+      }
+    } catch (error) {
+      console.error('Error importing fingerprint logs:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengimpor log fingerprint'
+      }
+    }
+  }
+
+  /**
+   * Group scans by employee and business date, in chronological order
+   * Scans after midnight can belong to the previous day's overnight shift;
+   * once a scan falls on its own calendar day, later scans of that day do too.
+   */
+  private async groupByAttendanceDay(scans: FingerprintScan[]): Promise<Map<string, FingerprintScan[]>> {
+    const days = new Map<string, FingerprintScan[]>()
+    const settledDates = new Set<string>()
+
+    const sorted = [...scans].sort((a, b) =>
+      a.userId.localeCompare(b.userId) || a.punchTime.getTime() - b.punchTime.getTime()
+    )
+
+    for (const scan of sorted) {
+      const calendarKey = `${scan.userId}|${scan.calendarDate}`
+      const attendanceDate = settledDates.has(calendarKey)
+        ? scan.calendarDate
+        : (await this.workScheduleService.resolveAttendanceDate(scan.userId, scan.punchTime, 'CHECK_OUT'))
+            .toISOString().split('T')[0]
+
+      if (attendanceDate === scan.calendarDate) {
+        settledDates.add(calendarKey)
+      }
+
+      const key = `${scan.userId}|${attendanceDate}`
+      scan.row.attendanceDate = attendanceDate
+      days.set(key, [...(days.get(key) || []), scan])
+    }
+
+    return days
+  }
+
+  /**
+   * Merge the scans of one employee day into the attendance
+   * The first new scan becomes the check-in when the day has none, the last one
+   * the check-out when the day is still open or was only closed by the close-out
+   * job. Check-in and check-out from the app are kept as they are.
+   */
+  private async mergeDay(
+    scans: FingerprintScan[],
+    attendanceDate: Date,
+    request: ImportFingerprintLogsRequest,
+    sourceReference: string,
+    dryRun: boolean
+  ): Promise<'CREATED' | 'UPDATED' | 'UNCHANGED'> {
+    const userId = scans[0].userId
+    const existing = await this.attendanceRepository.findByUserAndDate(userId, attendanceDate)
+    const existingPunches = existing ? await this.punchRepository.findByAttendance(existing.id) : []
+
+    // Re-imported scans match the stored punch time exactly
+    const importedTimes = new Set(
+      existingPunches
+        .filter(punch => punch.source === PunchSource.FINGERPRINT)
+        .map(punch => punch.punchTime.getTime())
+    )
+
+    const fresh: FingerprintScan[] = []
+    let previousTime: number | undefined
+    for (const scan of scans) {
+      const time = scan.punchTime.getTime()
+      const isDoubleRead = previousTime !== undefined && time - previousTime < DOUBLE_READ_WINDOW_MS
+      previousTime = time
+
+      if (isDoubleRead || importedTimes.has(time)) {
+        scan.row.status = 'DUPLICATE'
+        continue
+      }
+      scan.row.status = 'IGNORED'
+      fresh.push(scan)
+    }
+
+    if (fresh.length === 0) {
+      return 'UNCHANGED'
+    }
+
+    // A check-out written by the close-out job is a placeholder, not a scan
+    const hasRealCheckOut = !!existing?.checkOutTime && !existing.autoClosedAt
+    const basePunches: PunchEvent[] = withImplicitPunches(
+      existingPunches,
+      existing?.checkInTime,
+      hasRealCheckOut ? existing?.checkOutTime : undefined
+    )
+
+    const newPunches: PunchEvent[] = []
+    let checkInTime = existing?.checkInTime
+    if (!checkInTime) {
+      checkInTime = fresh[0].punchTime
+      fresh[0].row.status = 'CHECK_IN'
+      newPunches.push({ punchType: PunchType.IN, punchTime: checkInTime })
+    }
+
+    const lastScan = fresh[fresh.length - 1]
+    const stateBeforeOut = summarizePunches([...basePunches, ...newPunches]).state
+    if (
+      lastScan.row.status !== 'CHECK_IN' &&
+      lastScan.punchTime > checkInTime &&
+      !hasRealCheckOut &&
+      isPunchAllowed(stateBeforeOut, PunchType.OUT)
+    ) {
+      lastScan.row.status = 'CHECK_OUT'
+      newPunches.push({ punchType: PunchType.OUT, punchTime: lastScan.punchTime })
+    }
+
+    if (newPunches.length === 0 || dryRun) {
+      return newPunches.length === 0 ? 'UNCHANGED' : existing ? 'UPDATED' : 'CREATED'
+    }
+
+    const checkOutPunch = newPunches.find(punch => punch.punchType === PunchType.OUT)
+    const summary = summarizePunches(
+      [...basePunches, ...newPunches].sort((a, b) => a.punchTime.getTime() - b.punchTime.getTime())
+    )
+
+    // Lateness follows the work schedule, as for a check-in from the app
+    let status = existing?.status ?? AttendanceStatus.PRESENT
+    let lateMinutes = existing?.lateMinutes ?? 0
+    let timing: CheckInTimingResult | undefined
+    if (!existing?.checkInTime || (existing.autoClosedAt && existing.status === AttendanceStatus.HALF_DAY)) {
+      timing = await this.workScheduleService.evaluateCheckIn(userId, checkInTime)
+      status = timing.status
+      lateMinutes = timing.lateMinutes
+    }
+
+    const checkOutTime = checkOutPunch?.punchTime ?? (hasRealCheckOut ? existing?.checkOutTime : undefined)
+    const notes = `Diimpor dari mesin fingerprint (${sourceReference})`
+
+    let attendance: AttendanceEntity
+    if (existing) {
+      attendance = await this.attendanceRepository.update(existing.id, {
+        ...(!existing.checkInTime && { checkInTime }),
+        ...(checkOutPunch && { checkOutTime: checkOutPunch.punchTime }),
+        ...(checkOutPunch && existing.autoClosedAt && { autoClosedAt: null }),
+        status,
+        lateMinutes,
+        workingHoursMinutes: summary.workingMinutes,
+        breakMinutes: summary.breakMinutes,
+        notes: existing.notes ? `${existing.notes}\n${notes}` : notes
+      })
+    } else {
+      attendance = await this.attendanceRepository.create({
+        userId,
+        officeLocationId: request.officeLocationId || timing?.schedule.officeLocationId,
+        attendanceDate,
+        checkInTime,
+        checkOutTime,
+        status,
+        lateMinutes,
+        workingHoursMinutes: summary.workingMinutes,
+        shiftId: timing?.schedule.shift?.id,
+        notes,
+        isValidLocation: true
+      })
+    }
+
+    for (const punch of newPunches) {
+      await this.punchRepository.create({
+        attendanceId: attendance.id,
+        userId,
+        attendanceDate: attendance.attendanceDate,
+        punchType: punch.punchType,
+        punchTime: punch.punchTime,
+        officeLocationId: attendance.officeLocationId,
+        isValidLocation: true,
+        source: PunchSource.FINGERPRINT,
+        sourceReference
+      })
+    }
+
+    await this.auditService.logFingerprintImport(
+      attendance.id,
+      userId,
+      existing ? this.toSnapshot(existing) : null,
+      this.toSnapshot(attendance),
+      newPunches,
+      sourceReference,
+      request.adminUserId,
+      request.ipAddress,
+      request.userAgent
+    )
+
+    return existing ? 'UPDATED' : 'CREATED'
+  }
+
+  private toSnapshot(attendance: AttendanceEntity): AttendanceAuditSnapshot {
+    return {
+      attendanceDate: attendance.attendanceDate,
+      checkInTime: attendance.checkInTime,
+      checkOutTime: attendance.checkOutTime,
+      status: attendance.status,
+      lateMinutes: attendance.lateMinutes,
+      workingHoursMinutes: attendance.workingHoursMinutes,
+      officeLocationId: attendance.officeLocationId,
+      isValidLocation: attendance.isValidLocation,
+      notes: attendance.notes
+    }
+  }
+
+  private validateInput(request: ImportFingerprintLogsRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.content || request.content.trim().length === 0) {
+      return { isValid: false, error: 'File log kosong' }
+    }
+
+    if (request.deviceSerial && request.deviceSerial.trim().length > 100) {
+      return { isValid: false, error: 'Nomor seri mesin maksimal 100 karakter' }
+    }
+
+    for (const date of [request.startDate, request.endDate]) {
+      if (date && (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00.000Z`).getTime()))) {
+        return { isValid: false, error: 'Format tanggal harus YYYY-MM-DD' }
+      }
+    }
+
+    if (request.startDate && request.endDate && request.startDate > request.endDate) {
+      return { isValid: false, error: 'Tanggal mulai tidak boleh setelah tanggal selesai' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,297 @@
+// ============================================================================
+// MATERIALIZE ABSENCES USE CASE
+// src/use-cases/attendance/MaterializeAbsences.ts
+// ============================================================================
+
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { ILeaveRequestRepository } from '@/domain/repositories/ILeaveRequestRepository'
+import { IPermissionRequestRepository } from '@/domain/repositories/IPermissionRequestRepository'
+import { FieldDutyLetter, IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceStatus, UserStatus, WorkMode } from '@prisma/client'
+import { getAttendanceDate, getAttendanceDatesInRange, getCalendarDate } from '@/utils/dateUtils'
+
+// Upper bound for a single backfill run
+const MAX_RANGE_DAYS = 366
+
+export interface MaterializeAbsencesRequest {
+  date?: Date
+  startDate?: Date
+  endDate?: Date
+  dryRun?: boolean
+}
+
+export interface MaterializedAbsenceDaySummary {
+  date: string
+  createdCount: number
+  alreadyRecordedCount: number
+  nonWorkingDayCount: number
+  holidayCount: number
+  onLeaveCount: number
+  onPermissionCount: number
+  onWorkLetterCount: number
+  fieldDutyCount: number // Dinas luar days recorded for letters without a destination
+  failedCount: number
+  createdUserIds: string[]
+}
+
+export interface MaterializeAbsencesResponse {
+  success: boolean
+  data?: {
+    startDate: string
+    endDate: string
+    dryRun: boolean
+    totalCreated: number
+    days: MaterializedAbsenceDaySummary[]
+  }
+  error?: string
+}
+
+export class MaterializeAbsences {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private userRepository: IUserRepository,
+    private leaveRequestRepository: ILeaveRequestRepository,
+    private permissionRequestRepository: IPermissionRequestRepository,
+    private workLetterRepository: IWorkLetterRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService?: AttendanceAuditService
+  ) {}
+
+  async execute(request: MaterializeAbsencesRequest = {}): Promise<MaterializeAbsencesResponse> {
+    try {
+      const range = await this.resolveRange(request)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      const dryRun = request.dryRun ?? false
+      console.log('📆 MaterializeAbsences started:', {
+        startDate: range.startDate.toISOString(),
+        endDate: range.endDate.toISOString(),
+        dryRun
+      })
+
+      // Only active users are expected to attend
+      const users = await this.userRepository.findManyWithRelations({ status: UserStatus.ACTIVE })
+
+      const days: MaterializedAbsenceDaySummary[] = []
+      for (const date of getAttendanceDatesInRange(range.startDate, range.endDate)) {
+        days.push(await this.materializeDay(date, users.map(user => user.id), dryRun))
+      }
+
+      const totalCreated = days.reduce((total, day) => total + day.createdCount, 0)
+      console.log('✅ MaterializeAbsences completed:', { totalCreated, days: days.length })
+
+      return {
+        success: true,
+        data: {
+          startDate: range.startDate.toISOString(),
+          endDate: range.endDate.toISOString(),
+          dryRun,
+          totalCreated,
+          days
+        }
+      }
+    } catch (error) {
+      console.error('❌ MaterializeAbsences error:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat data ketidakhadiran otomatis'
+      }
+    }
+  }
+
+  private async materializeDay(
+    date: Date,
+    userIds: string[],
+    dryRun: boolean
+  ): Promise<MaterializedAbsenceDaySummary> {
+    const summary: MaterializedAbsenceDaySummary = {
+      date: date.toISOString().split('T')[0],
+      createdCount: 0,
+      alreadyRecordedCount: 0,
+      nonWorkingDayCount: 0,
+      holidayCount: 0,
+      onLeaveCount: 0,
+      onPermissionCount: 0,
+      onWorkLetterCount: 0,
+      fieldDutyCount: 0,
+      failedCount: 0,
+      createdUserIds: []
+    }
+
+    const [attendances, leaves, permissions, workLetters, fieldDutyLetters] = await Promise.all([
+      this.attendanceRepository.findByDate(date),
+      this.leaveRequestRepository.findActiveLeavesByDate(date),
+      this.permissionRequestRepository.findActivePermissionsByDate(date),
+      this.workLetterRepository.findActiveWorkLettersByDate(date),
+      this.workLetterRepository.findActiveFieldDutyLettersByDate(date)
+    ])
+
+    const recordedUserIds = new Set(attendances.map(attendance => attendance.userId))
+    const leaveUserIds = new Set(leaves.map(leave => leave.userId))
+    const permissionUserIds = new Set(permissions.map(permission => permission.userId))
+    const workLetterUserIds = new Set(workLetters.map(workLetter => workLetter.userId))
+
+    // Letters with a destination expect a check-in there; the others are recorded as dinas luar
+    const fieldDutyLettersByUserId = new Map<string, FieldDutyLetter>()
+    for (const workLetter of fieldDutyLetters) {
+      if (workLetter.destinationLatitude === undefined && !fieldDutyLettersByUserId.has(workLetter.userId)) {
+        fieldDutyLettersByUserId.set(workLetter.userId, workLetter)
+      }
+    }
+
+    for (const userId of userIds) {
+      if (recordedUserIds.has(userId)) {
+        summary.alreadyRecordedCount++
+        continue
+      }
+
+      const schedule = await this.workScheduleService.resolveSchedule(userId, date)
+      if (schedule.holiday) {
+        summary.holidayCount++
+        continue
+      }
+
+      if (!schedule.isWorkingDay) {
+        summary.nonWorkingDayCount++
+        continue
+      }
+
+      if (leaveUserIds.has(userId)) {
+        summary.onLeaveCount++
+        continue
+      }
+
+      if (permissionUserIds.has(userId)) {
+        summary.onPermissionCount++
+        continue
+      }
+
+      const fieldDutyLetter = fieldDutyLettersByUserId.get(userId)
+      if (fieldDutyLetter) {
+        await this.materializeFieldDuty(userId, date, fieldDutyLetter, summary, dryRun)
+        continue
+      }
+
+      if (workLetterUserIds.has(userId)) {
+        summary.onWorkLetterCount++
+        continue
+      }
+
+      if (dryRun) {
+        summary.createdCount++
+        summary.createdUserIds.push(userId)
+        continue
+      }
+
+      try {
+        const reason = `Alpha - tidak ada check-in pada ${summary.date} (dibuat otomatis)`
+        const attendance = await this.attendanceRepository.create({
+          userId,
+          attendanceDate: date,
+          status: AttendanceStatus.ABSENT,
+          workingHoursMinutes: 0,
+          isValidLocation: false,
+          notes: reason
+        })
+
+        summary.createdCount++
+        summary.createdUserIds.push(userId)
+
+        if (this.auditService) {
+          await this.auditService.logAutomaticAbsence(attendance.id, userId, date, reason)
+        }
+      } catch (error) {
+        // A check-in may land between the lookup and the insert; the unique
+        // (user, date) constraint keeps the real attendance row in that case
+        console.error(`❌ Failed to materialize absence for user ${userId}:`, error)
+        summary.failedCount++
+      }
+    }
+
+    return summary
+  }
+
+  private async materializeFieldDuty(
+    userId: string,
+    date: Date,
+    workLetter: FieldDutyLetter,
+    summary: MaterializedAbsenceDaySummary,
+    dryRun: boolean
+  ): Promise<void> {
+    if (dryRun) {
+      summary.fieldDutyCount++
+      return
+    }
+
+    try {
+      const reason = `Dinas luar - ${workLetter.letterNumber || workLetter.subject} (dibuat otomatis)`
+      const attendance = await this.attendanceRepository.create({
+        userId,
+        attendanceDate: date,
+        status: AttendanceStatus.PRESENT,
+        workMode: WorkMode.FIELD_DUTY,
+        workLetterId: workLetter.id,
+        workingHoursMinutes: 0,
+        isValidLocation: true,
+        notes: reason
+      })
+
+      summary.fieldDutyCount++
+
+      if (this.auditService) {
+        await this.auditService.logAutomaticFieldDuty(attendance.id, userId, date, workLetter.id, reason)
+      }
+    } catch (error) {
+      console.error(`❌ Failed to materialize field duty for user ${userId}:`, error)
+      summary.failedCount++
+    }
+  }
+
+  private async resolveRange(request: MaterializeAbsencesRequest): Promise<{
+    isValid: boolean
+    startDate: Date
+    endDate: Date
+    error?: string
+  }> {
+    // Today in the institution's time zone; its check-ins may still arrive
+    const today = getCalendarDate(new Date(), await this.workScheduleService.getTimeZone())
+    const yesterday = new Date(today)
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+
+    // Default to the previous day so the nightly run closes out a finished day
+    const startDate = getAttendanceDate(request.startDate || request.date || yesterday)
+    const endDate = getAttendanceDate(request.endDate || request.date || request.startDate || yesterday)
+
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      return { isValid: false, startDate, endDate, error: 'Format tanggal tidak valid' }
+    }
+
+    if (startDate > endDate) {
+      return { isValid: false, startDate, endDate, error: 'Tanggal mulai tidak boleh setelah tanggal selesai' }
+    }
+
+    if (endDate >= today) {
+      return { isValid: false, startDate, endDate, error: 'Hanya tanggal yang sudah berakhir yang dapat diproses' }
+    }
+
+    const dayCount = Math.round((endDate.getTime() - startDate.getTime()) / (24 * 60 * 60 * 1000)) + 1
+    if (dayCount > MAX_RANGE_DAYS) {
+      return {
+        isValid: false,
+        startDate,
+        endDate,
+        error: `Rentang tanggal maksimal ${MAX_RANGE_DAYS} hari`
+      }
+    }
+
+    return { isValid: true, startDate, endDate }
+  }
+}
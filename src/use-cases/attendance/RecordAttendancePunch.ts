@@ -0,0 +1,359 @@
+// ============================================================================
+// RECORD ATTENDANCE PUNCH USE CASE
+// src/use-cases/attendance/RecordAttendancePunch.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository, AttendancePunchEntity } from '@/domain/repositories/IAttendancePunchRepository'
+import { ILocationValidationService, LocationValidationResult } from '@/domain/services/ILocationValidationService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { IFraudDetectionService, FraudFlagData } from '@/domain/services/IFraudDetectionService'
+import { IRemoteWorkService } from '@/domain/services/IRemoteWorkService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceReviewStatus, PunchType, WorkMode } from '@prisma/client'
+import { isPunchAllowed, summarizePunches, withImplicitPunches, PunchState } from '@/utils/attendancePunches'
+
+// The first IN and the final OUT go through check-in / check-out
+const MID_DAY_PUNCH_TYPES: PunchType[] = [PunchType.BREAK_START, PunchType.BREAK_END, PunchType.IN]
+
+const PUNCH_LABELS: Record<PunchType, string> = {
+  IN: 'masuk kembali',
+  OUT: 'keluar',
+  BREAK_START: 'mulai istirahat',
+  BREAK_END: 'selesai istirahat'
+}
+
+export interface RecordAttendancePunchRequest {
+  userId: string
+  punchType: PunchType
+  latitude: number
+  longitude: number
+  address?: string
+  accuracyMeters?: number // Accuracy reported by the device
+  altitudeMeters?: number
+  fixTime?: Date // When the device took the position fix
+  deviceId?: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface RecordAttendancePunchResponse {
+  success: boolean
+  data?: {
+    punch: AttendancePunchEntity
+    state: PunchState
+    workingHoursMinutes: number
+    breakMinutes: number
+    flaggedForReview: boolean // Accepted, but queued for supervisor review
+    locationValidation: LocationValidationResult
+  }
+  error?: string
+  locationValidation?: LocationValidationResult
+}
+
+export class RecordAttendancePunch {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private punchRepository: IAttendancePunchRepository,
+    private locationValidationService: ILocationValidationService,
+    private workScheduleService: IWorkScheduleService,
+    private auditService?: AttendanceAuditService,
+    private fraudDetectionService?: IFraudDetectionService,
+    private remoteWorkService?: IRemoteWorkService
+  ) {}
+
+  async execute(request: RecordAttendancePunchRequest): Promise<RecordAttendancePunchResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Mid-day punches belong to the open record, including an overnight shift
+      const punchTime = new Date()
+      const attendanceDate = await this.workScheduleService.resolveAttendanceDate(request.userId, punchTime, 'CHECK_OUT')
+      const attendance = await this.attendanceRepository.findByUserAndDate(request.userId, attendanceDate)
+
+      if (!attendance || !attendance.checkInTime) {
+        return {
+          success: false,
+          error: 'Anda belum melakukan check-in hari ini'
+        }
+      }
+
+      if (attendance.autoClosedAt) {
+        return {
+          success: false,
+          error: 'Absensi hari ini sudah ditutup otomatis oleh sistem. Ajukan koreksi absensi.'
+        }
+      }
+
+      const punches = withImplicitPunches(
+        await this.punchRepository.findByAttendance(attendance.id),
+        attendance.checkInTime,
+        attendance.checkOutTime
+      )
+      const current = summarizePunches(punches)
+
+      if (!isPunchAllowed(current.state, request.punchType)) {
+        return {
+          success: false,
+          error: this.getSequenceError(current.state, request.punchType)
+        }
+      }
+
+      const locationValidation = await this.validateLocation(request, attendance)
+
+      if (!locationValidation.isValid) {
+        if (this.auditService) {
+          try {
+            await this.auditService.logFailedPunchAttempt(
+              request.userId,
+              {
+                attendanceDate,
+                punchType: request.punchType,
+                latitude: request.latitude,
+                longitude: request.longitude,
+                address: request.address,
+                failureReason: locationValidation.requiresRetry ? 'INACCURATE_LOCATION' : 'INVALID_LOCATION',
+                locationValidation
+              },
+              request.userId,
+              request.ipAddress,
+              request.userAgent
+            )
+          } catch (auditError) {
+            console.error('⚠️ Failed to log failed punch attempt:', auditError)
+          }
+        }
+
+        const { nearestOfficeLocation, distance, allowedRadius } = locationValidation
+        let errorMessage = locationValidation.errorMessage ||
+          `Anda tidak dapat mencatat ${PUNCH_LABELS[request.punchType]} karena berada di luar radius lokasi kantor`
+
+        if (nearestOfficeLocation && distance && allowedRadius && locationValidation.geofenceType !== 'POLYGON' && !locationValidation.requiresRetry) {
+          errorMessage = `Anda tidak dapat mencatat ${PUNCH_LABELS[request.punchType]} karena berada di luar radius lokasi kantor. Lokasi terdekat: ${nearestOfficeLocation.name} (Jarak: ${distance}m, Radius maksimal: ${allowedRadius}m)`
+        }
+
+        return {
+          success: false,
+          error: errorMessage,
+          locationValidation
+        }
+      }
+
+      // Suspicious submissions are accepted but flagged for supervisor review
+      const fraudFlag = await this.assessFraud(request, attendance, punchTime)
+
+      const punch = await this.punchRepository.create({
+        attendanceId: attendance.id,
+        userId: request.userId,
+        attendanceDate: attendance.attendanceDate,
+        punchType: request.punchType,
+        punchTime,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        address: request.address,
+        officeLocationId: locationValidation.nearestOfficeLocation?.id || attendance.officeLocationId,
+        distanceMeters: locationValidation.distance !== undefined ? Math.round(locationValidation.distance) : undefined,
+        isValidLocation: locationValidation.isValid,
+        accuracyMeters: request.accuracyMeters,
+        altitudeMeters: request.altitudeMeters,
+        fixTime: request.fixTime,
+        deviceId: request.deviceId
+      })
+
+      // Totals so far; the open segment is counted at the next punch
+      const summary = summarizePunches([...punches, punch])
+      const updated = await this.attendanceRepository.update(attendance.id, {
+        // Coming back after leaving the office reopens the day
+        ...(request.punchType === PunchType.IN && { checkOutTime: null }),
+        workingHoursMinutes: summary.workingMinutes,
+        breakMinutes: summary.breakMinutes,
+        ...fraudFlag
+      })
+
+      if (this.auditService) {
+        try {
+          await this.auditService.logPunch(
+            attendance.id,
+            request.userId,
+            {
+              checkOutTime: attendance.checkOutTime,
+              workingHoursMinutes: attendance.workingHoursMinutes,
+              breakMinutes: attendance.breakMinutes
+            },
+            {
+              punchId: punch.id,
+              punchType: punch.punchType,
+              punchTime: punch.punchTime,
+              workingHoursMinutes: updated.workingHoursMinutes,
+              breakMinutes: updated.breakMinutes,
+              isValidLocation: punch.isValidLocation,
+              latitude: request.latitude,
+              longitude: request.longitude,
+              address: request.address,
+              officeLocationId: punch.officeLocationId
+            },
+            request.userId,
+            request.ipAddress,
+            request.userAgent
+          )
+        } catch (auditError) {
+          console.error('⚠️ Failed to log punch audit:', auditError)
+        }
+      }
+
+      console.log(`✅ Punch ${punch.punchType} recorded for attendance ${attendance.id}`)
+
+      return {
+        success: true,
+        data: {
+          punch,
+          state: summary.state,
+          workingHoursMinutes: updated.workingHoursMinutes,
+          breakMinutes: updated.breakMinutes,
+          flaggedForReview: updated.reviewStatus === AttendanceReviewStatus.PENDING,
+          locationValidation
+        }
+      }
+    } catch (error) {
+      console.error('Error recording attendance punch:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mencatat absensi'
+      }
+    }
+  }
+
+  private getSequenceError(state: PunchState, punchType: PunchType): string {
+    if (state === 'ON_BREAK') {
+      return 'Anda sedang istirahat. Selesaikan istirahat terlebih dahulu.'
+    }
+
+    if (state === 'OUT' && punchType !== PunchType.IN) {
+      return 'Anda sudah check-out. Catat masuk kembali terlebih dahulu.'
+    }
+
+    if (state === 'WORKING' && punchType === PunchType.IN) {
+      return 'Anda sedang bekerja dan belum keluar kantor'
+    }
+
+    return `Tidak dapat mencatat ${PUNCH_LABELS[punchType]} saat ini`
+  }
+
+  private async validateLocation(
+    request: RecordAttendancePunchRequest,
+    attendance: AttendanceEntity
+  ): Promise<LocationValidationResult> {
+    // A day checked in from home stays at home
+    const homeLocation = attendance.workMode === WorkMode.WFH
+      ? await this.remoteWorkService?.getApprovedHomeLocation(request.userId)
+      : undefined
+    if (homeLocation) {
+      return this.locationValidationService.validateAgainstHomeLocation(
+        request.latitude,
+        request.longitude,
+        homeLocation,
+        request.accuracyMeters
+      )
+    }
+
+    // Field duty days stay at the letter destination, or anywhere when it has none
+    const fieldDuty = attendance.workMode === WorkMode.FIELD_DUTY
+      ? await this.remoteWorkService?.resolveFieldDuty(request.userId, attendance.attendanceDate)
+      : undefined
+    if (fieldDuty) {
+      return fieldDuty.destination
+        ? this.locationValidationService.validateAgainstDestination(
+            request.latitude,
+            request.longitude,
+            fieldDuty.destination,
+            request.accuracyMeters
+          )
+        : { isValid: true }
+    }
+
+    // Validate against the office of the day, or any active office when unknown
+    return attendance.officeLocationId
+      ? this.locationValidationService.validateAgainstOfficeLocation(
+          request.latitude,
+          request.longitude,
+          attendance.officeLocationId,
+          request.accuracyMeters
+        )
+      : this.locationValidationService.validateUserLocation(
+          request.latitude,
+          request.longitude,
+          request.accuracyMeters
+        )
+  }
+
+  private validateInput(request: RecordAttendancePunchRequest): { isValid: boolean; error?: string } {
+    if (!request.userId || request.userId.trim().length === 0) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (request.punchType === PunchType.OUT) {
+      return { isValid: false, error: 'Gunakan check-out untuk mencatat keluar kantor' }
+    }
+
+    if (!MID_DAY_PUNCH_TYPES.includes(request.punchType)) {
+      return { isValid: false, error: 'Jenis absensi tidak valid' }
+    }
+
+    if (typeof request.latitude !== 'number' || typeof request.longitude !== 'number') {
+      return { isValid: false, error: 'Koordinat harus berupa angka' }
+    }
+
+    if (!this.locationValidationService.validateCoordinateFormat(request.latitude, request.longitude)) {
+      return { isValid: false, error: 'Format koordinat tidak valid' }
+    }
+
+    if (request.accuracyMeters !== undefined && (typeof request.accuracyMeters !== 'number' || request.accuracyMeters < 0)) {
+      return { isValid: false, error: 'Akurasi lokasi tidak valid' }
+    }
+
+    if (request.altitudeMeters !== undefined && (typeof request.altitudeMeters !== 'number' || !isFinite(request.altitudeMeters))) {
+      return { isValid: false, error: 'Ketinggian lokasi tidak valid' }
+    }
+
+    if (request.fixTime !== undefined && isNaN(request.fixTime.getTime())) {
+      return { isValid: false, error: 'Waktu pengambilan lokasi tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+
+  private async assessFraud(
+    request: RecordAttendancePunchRequest,
+    attendance: AttendanceEntity,
+    punchTime: Date
+  ): Promise<FraudFlagData | undefined> {
+    if (!this.fraudDetectionService) {
+      return undefined
+    }
+
+    try {
+      const assessment = await this.fraudDetectionService.assess({
+        userId: request.userId,
+        attendanceDate: attendance.attendanceDate,
+        punchType: request.punchType,
+        punchTime,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        accuracyMeters: request.accuracyMeters,
+        deviceId: request.deviceId,
+        officeLocationId: attendance.officeLocationId
+      })
+      return (await this.fraudDetectionService.buildFlagData(request.userId, assessment, attendance)) ?? undefined
+    } catch (fraudError) {
+      // Scoring must never block a valid punch
+      console.error('⚠️ Failed to assess punch for fraud signals:', fraudError)
+      return undefined
+    }
+  }
+}
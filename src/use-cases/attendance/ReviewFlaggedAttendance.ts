@@ -0,0 +1,138 @@
+// ============================================================================
+// REVIEW FLAGGED ATTENDANCE USE CASE
+// src/use-cases/attendance/ReviewFlaggedAttendance.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceReviewStatus, AttendanceStatus } from '@prisma/client'
+
+export interface ReviewFlaggedAttendanceRequest {
+  attendanceId: string
+  reviewerId: string
+  canReviewAll?: boolean // HR admins may review attendance assigned to anyone
+  action: 'CLEAR' | 'REJECT'
+  notes?: string // Required when rejecting
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface ReviewFlaggedAttendanceResponse {
+  success: boolean
+  data?: AttendanceEntity
+  error?: string
+}
+
+export class ReviewFlaggedAttendance {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private auditService?: AttendanceAuditService
+  ) {}
+
+  async execute(request: ReviewFlaggedAttendanceRequest): Promise<ReviewFlaggedAttendanceResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const attendance = await this.attendanceRepository.findById(request.attendanceId)
+      if (!attendance) {
+        return {
+          success: false,
+          error: 'Data absensi tidak ditemukan'
+        }
+      }
+
+      if (attendance.reviewStatus !== AttendanceReviewStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Absensi tidak sedang menunggu peninjauan'
+        }
+      }
+
+      if (!request.canReviewAll && attendance.reviewerId !== request.reviewerId) {
+        return {
+          success: false,
+          error: 'Anda bukan peninjau untuk absensi ini'
+        }
+      }
+
+      // A rejected attendance counts as absent; the times stay for the record
+      const rejected = request.action === 'REJECT'
+      const updated = await this.attendanceRepository.update(attendance.id, {
+        reviewStatus: rejected ? AttendanceReviewStatus.REJECTED : AttendanceReviewStatus.CLEARED,
+        reviewerId: request.reviewerId,
+        reviewedAt: new Date(),
+        reviewNotes: request.notes?.trim() || undefined,
+        ...(rejected && {
+          status: AttendanceStatus.ABSENT,
+          lateMinutes: 0,
+          isValidLocation: false
+        })
+      })
+
+      if (this.auditService) {
+        try {
+          await this.auditService.logFraudReview(
+            attendance.id,
+            attendance.userId,
+            {
+              status: attendance.status,
+              isValidLocation: attendance.isValidLocation,
+              fraudScore: attendance.fraudScore
+            },
+            {
+              attendanceDate: updated.attendanceDate,
+              reviewStatus: updated.reviewStatus!,
+              status: updated.status,
+              isValidLocation: updated.isValidLocation,
+              reviewNotes: updated.reviewNotes
+            },
+            request.reviewerId,
+            request.ipAddress,
+            request.userAgent
+          )
+        } catch (auditError) {
+          console.error('⚠️ Failed to log fraud review audit:', auditError)
+        }
+      }
+
+      console.log(`${rejected ? '❌' : '✅'} Flagged attendance ${attendance.id} ${rejected ? 'rejected' : 'cleared'}`)
+
+      return {
+        success: true,
+        data: updated
+      }
+    } catch (error) {
+      console.error('Error reviewing flagged attendance:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat meninjau absensi'
+      }
+    }
+  }
+
+  private validateInput(request: ReviewFlaggedAttendanceRequest): { isValid: boolean; error?: string } {
+    if (!request.attendanceId || !request.reviewerId) {
+      return { isValid: false, error: 'ID absensi dan peninjau wajib diisi' }
+    }
+
+    if (request.action !== 'CLEAR' && request.action !== 'REJECT') {
+      return { isValid: false, error: 'Aksi peninjauan tidak valid' }
+    }
+
+    if (request.action === 'REJECT' && (!request.notes || request.notes.trim().length === 0)) {
+      return { isValid: false, error: 'Alasan penolakan wajib diisi' }
+    }
+
+    if (request.notes && request.notes.trim().length > 500) {
+      return { isValid: false, error: 'Catatan peninjauan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
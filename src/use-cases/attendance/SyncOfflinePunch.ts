@@ -0,0 +1,158 @@
+// ============================================================================
+// SYNC OFFLINE PUNCH USE CASE
+// src/use-cases/attendance/SyncOfflinePunch.ts
+// ============================================================================
+
+import { IOfflinePunchService } from '@/domain/services/IOfflinePunchService'
+import { OfflinePunchCapture, OfflinePunchType } from '@/utils/offlinePunch'
+import { CheckInWithLocationValidation } from './CheckInWithLocationValidation'
+import { CheckOutWithLocationValidation } from './CheckOutWithLocationValidation'
+
+// Allowance for a device clock running slightly ahead of the server
+const MAX_CLOCK_SKEW_MS = 2 * 60 * 1000
+
+// A position fix older than this was not taken for the punch it is attached to
+const MAX_FIX_AGE_MS = 10 * 60 * 1000
+
+export interface SyncOfflinePunchRequest {
+  userId: string
+  capture: OfflinePunchCapture
+  signature: string // Base64url ECDSA signature made with the device key
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface SyncOfflinePunchResponse {
+  success: boolean
+  data?: {
+    id: string // Attendance ID
+    punchType: OfflinePunchType
+    capturedAt: Date
+    status?: string
+    lateMinutes?: number
+    workingHoursMinutes?: number
+    flaggedForReview: boolean
+  }
+  error?: string
+}
+
+export class SyncOfflinePunch {
+  constructor(
+    private offlinePunchService: IOfflinePunchService,
+    private checkInWithLocationValidation: CheckInWithLocationValidation,
+    private checkOutWithLocationValidation: CheckOutWithLocationValidation
+  ) {}
+
+  async execute(request: SyncOfflinePunchRequest): Promise<SyncOfflinePunchResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const { capture } = request
+      // Within the allowed skew a capture "from the future" is taken as now
+      const capturedAt = new Date(Math.min(capture.capturedAt, Date.now()))
+
+      // Punches synced long after capture cannot be checked against the day's records
+      const windowHours = await this.offlinePunchService.getSyncWindowHours()
+      if (Date.now() - capturedAt.getTime() > windowHours * 60 * 60 * 1000) {
+        return {
+          success: false,
+          error: `Absen offline hanya dapat dikirim paling lambat ${windowHours} jam setelah direkam. Ajukan koreksi absensi.`
+        }
+      }
+
+      const isSigned = await this.offlinePunchService.verifySignature(request.userId, capture, request.signature)
+      if (!isSigned) {
+        return {
+          success: false,
+          error: 'Tanda tangan perangkat tidak valid. Absen offline ditolak.'
+        }
+      }
+
+      const punchRequest = {
+        userId: request.userId,
+        latitude: capture.latitude,
+        longitude: capture.longitude,
+        accuracyMeters: capture.accuracy,
+        altitudeMeters: capture.altitude,
+        fixTime: capture.timestamp !== undefined ? new Date(capture.timestamp) : undefined,
+        deviceId: capture.deviceId,
+        capturedAt,
+        ipAddress: request.ipAddress,
+        userAgent: request.userAgent
+      }
+
+      if (capture.punchType === 'CHECK_IN') {
+        const result = await this.checkInWithLocationValidation.execute(punchRequest)
+        if (!result.success) {
+          return { success: false, error: result.error }
+        }
+
+        return {
+          success: true,
+          data: {
+            id: result.data!.id,
+            punchType: capture.punchType,
+            capturedAt,
+            status: result.data!.status,
+            lateMinutes: result.data!.lateMinutes,
+            flaggedForReview: result.data!.flaggedForReview
+          }
+        }
+      }
+
+      const result = await this.checkOutWithLocationValidation.execute(punchRequest)
+      if (!result.success) {
+        return { success: false, error: result.error }
+      }
+
+      return {
+        success: true,
+        data: {
+          id: result.data!.id,
+          punchType: capture.punchType,
+          capturedAt,
+          workingHoursMinutes: result.data!.workingHoursMinutes,
+          flaggedForReview: result.data!.flaggedForReview
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing offline punch:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengirim absen offline'
+      }
+    }
+  }
+
+  private validateInput(request: SyncOfflinePunchRequest): { isValid: boolean; error?: string } {
+    if (!request.userId || request.userId.trim().length === 0) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (!request.signature || request.signature.length > 256) {
+      return { isValid: false, error: 'Tanda tangan perangkat wajib diisi' }
+    }
+
+    const { capture } = request
+    if (capture.capturedAt > Date.now() + MAX_CLOCK_SKEW_MS) {
+      return { isValid: false, error: 'Waktu perekaman absen berada di masa depan. Periksa jam perangkat Anda.' }
+    }
+
+    // Check-in requires a location; check-out may be captured without one
+    if (capture.punchType === 'CHECK_IN' && (capture.latitude === undefined || capture.longitude === undefined)) {
+      return { isValid: false, error: 'Latitude dan longitude wajib diisi' }
+    }
+
+    if (capture.timestamp !== undefined && Math.abs(capture.capturedAt - capture.timestamp) > MAX_FIX_AGE_MS) {
+      return { isValid: false, error: 'Waktu lokasi tidak sesuai dengan waktu perekaman absen' }
+    }
+
+    return { isValid: true }
+  }
+}
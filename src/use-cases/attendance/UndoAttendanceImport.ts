@@ -0,0 +1,105 @@
+// ============================================================================
+// UNDO ATTENDANCE IMPORT USE CASE
+// src/use-cases/attendance/UndoAttendanceImport.ts
+// ============================================================================
+
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendanceImportBatchRepository } from '@/domain/repositories/IAttendanceImportBatchRepository'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+export interface UndoAttendanceImportRequest {
+  batchId: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UndoAttendanceImportResponse {
+  success: boolean
+  data?: {
+    undoneCount: number
+  }
+  message?: string
+  error?: string
+}
+
+export class UndoAttendanceImport {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private importBatchRepository: IAttendanceImportBatchRepository,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: UndoAttendanceImportRequest): Promise<UndoAttendanceImportResponse> {
+    try {
+      if (!request.batchId || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID impor dan admin user ID wajib diisi'
+        }
+      }
+
+      const batch = await this.importBatchRepository.findById(request.batchId)
+      if (!batch) {
+        return {
+          success: false,
+          error: 'Data impor tidak ditemukan'
+        }
+      }
+
+      if (batch.undoneAt) {
+        return {
+          success: false,
+          error: 'Impor ini sudah dibatalkan'
+        }
+      }
+
+      // Attendances voided individually since the import are already gone; edited ones are
+      // removed too, their edits stay in the audit log
+      const attendances = await this.attendanceRepository.findByImportBatch(batch.id)
+      const reason = `Pembatalan impor data absensi dari ${batch.fileName}`
+
+      for (const attendance of attendances) {
+        await this.attendanceRepository.delete(attendance.id)
+
+        await this.auditService.logVoid(
+          attendance.id,
+          attendance.userId,
+          {
+            attendanceDate: attendance.attendanceDate,
+            checkInTime: attendance.checkInTime,
+            checkOutTime: attendance.checkOutTime,
+            status: attendance.status,
+            lateMinutes: attendance.lateMinutes,
+            workingHoursMinutes: attendance.workingHoursMinutes,
+            officeLocationId: attendance.officeLocationId,
+            isValidLocation: attendance.isValidLocation,
+            notes: attendance.notes
+          },
+          request.adminUserId,
+          reason,
+          request.ipAddress,
+          request.userAgent
+        )
+      }
+
+      await this.importBatchRepository.markUndone(batch.id, request.adminUserId, attendances.length)
+
+      console.log(`🗑️ Attendance import undone: ${batch.id} (${attendances.length} attendances)`)
+
+      return {
+        success: true,
+        data: {
+          undoneCount: attendances.length
+        },
+        message: `${attendances.length} data absensi dari ${batch.fileName} berhasil dibatalkan`
+      }
+    } catch (error) {
+      console.error('Error undoing attendance import:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membatalkan impor data absensi'
+      }
+    }
+  }
+}
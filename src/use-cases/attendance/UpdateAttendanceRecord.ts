@@ -0,0 +1,237 @@
+// ============================================================================
+// UPDATE ATTENDANCE RECORD USE CASE
+// src/use-cases/attendance/UpdateAttendanceRecord.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceEntity } from '@/domain/repositories/IAttendanceRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService, AttendanceAuditSnapshot } from '@/infrastructure/services/AttendanceAuditService'
+import { AttendanceStatus } from '@prisma/client'
+import { calculateWorkingMinutes, getZonedDateTime, parseTimeToMinutes } from '@/utils/dateUtils'
+
+export interface UpdateAttendanceRecordRequest {
+  id: string
+  // Omitted fields stay unchanged; null (or an empty string) clears a time
+  checkInTime?: string | null // HH:mm
+  checkOutTime?: string | null // HH:mm, before check-in means the next day
+  status?: AttendanceStatus
+  officeLocationId?: string | null
+  notes?: string
+  reason: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UpdateAttendanceRecordResponse {
+  success: boolean
+  data?: AttendanceEntity
+  error?: string
+}
+
+export class UpdateAttendanceRecord {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private workScheduleService: IWorkScheduleService,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: UpdateAttendanceRecordRequest): Promise<UpdateAttendanceRecordResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const existing = await this.attendanceRepository.findById(request.id)
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Data absensi tidak ditemukan'
+        }
+      }
+
+      if (request.officeLocationId && !(await this.officeLocationRepository.findById(request.officeLocationId))) {
+        return {
+          success: false,
+          error: 'Lokasi kantor tidak ditemukan'
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const attendanceDate = existing.attendanceDate
+
+      const checkInChanged = request.checkInTime !== undefined
+      const checkOutChanged = request.checkOutTime !== undefined
+
+      const checkInMinutes = parseTimeToMinutes(request.checkInTime)
+      const checkInTime = checkInChanged
+        ? (checkInMinutes !== null ? getZonedDateTime(attendanceDate, checkInMinutes, timeZone) : null)
+        : existing.checkInTime || null
+
+      const checkOutMinutes = parseTimeToMinutes(request.checkOutTime)
+      let checkOutTime = checkOutChanged
+        ? (checkOutMinutes !== null ? getZonedDateTime(attendanceDate, checkOutMinutes, timeZone) : null)
+        : existing.checkOutTime || null
+
+      if (checkOutTime && !checkInTime) {
+        return {
+          success: false,
+          error: 'Waktu check-out memerlukan waktu check-in'
+        }
+      }
+
+      if (checkInTime && checkOutTime && checkOutTime <= checkInTime) {
+        if (checkOutMinutes === null) {
+          return {
+            success: false,
+            error: 'Waktu check-out harus setelah waktu check-in'
+          }
+        }
+
+        // Check-out after midnight of an overnight shift
+        checkOutTime = getZonedDateTime(attendanceDate, checkOutMinutes + 24 * 60, timeZone)
+      }
+
+      if ((checkInTime && checkInTime > new Date()) || (checkOutTime && checkOutTime > new Date())) {
+        return {
+          success: false,
+          error: 'Waktu check-in/check-out tidak boleh melebihi waktu sekarang'
+        }
+      }
+
+      // An edited check-out replaces the one the close-out job filled in (or left out)
+      const reopensAutoClose = !!existing.autoClosedAt && checkOutChanged && !!checkOutTime
+
+      // Re-evaluate lateness only when the check-in or the status changes, or when a
+      // reopened day was downgraded by the HALF_DAY policy
+      let status = request.status || existing.status
+      let lateMinutes = existing.lateMinutes
+      if (!checkInTime) {
+        status = request.status || AttendanceStatus.ABSENT
+        lateMinutes = 0
+      } else if (checkInChanged || request.status || (reopensAutoClose && existing.status === AttendanceStatus.HALF_DAY)) {
+        const timing = await this.workScheduleService.evaluateCheckIn(existing.userId, checkInTime)
+        status = request.status || timing.status
+        lateMinutes = status === AttendanceStatus.LATE ? timing.lateMinutes : 0
+      }
+
+      if (status === AttendanceStatus.ABSENT && checkInTime) {
+        return {
+          success: false,
+          error: 'Status tidak hadir tidak dapat disertai waktu check-in/check-out'
+        }
+      }
+
+      if (status !== AttendanceStatus.ABSENT && !checkInTime) {
+        return {
+          success: false,
+          error: 'Waktu check-in wajib diisi untuk status selain tidak hadir'
+        }
+      }
+
+      const workingHoursMinutes = checkInChanged || checkOutChanged
+        // Recorded breaks still apply to the edited times
+        ? (checkInTime && checkOutTime ? Math.max(0, calculateWorkingMinutes(checkInTime, checkOutTime) - existing.breakMinutes) : 0)
+        : existing.workingHoursMinutes
+
+      const officeLocationId = request.officeLocationId !== undefined
+        ? request.officeLocationId || null
+        : existing.officeLocationId || null
+
+      const reason = request.reason.trim()
+      const baseNotes = request.notes !== undefined ? request.notes.trim() : existing.notes
+      const notes = [baseNotes, `Diubah oleh admin: ${reason}`].filter(Boolean).join('\n')
+
+      const attendance = await this.attendanceRepository.update(existing.id, {
+        checkInTime,
+        checkOutTime,
+        status,
+        lateMinutes,
+        workingHoursMinutes,
+        officeLocationId,
+        notes,
+        ...(reopensAutoClose && { autoClosedAt: null })
+      })
+
+      await this.auditService.logAdminUpdate(
+        attendance.id,
+        existing.userId,
+        this.toSnapshot(existing),
+        this.toSnapshot(attendance),
+        request.adminUserId,
+        reason,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      console.log(`✅ Attendance updated by admin: ${attendance.id}`)
+
+      return {
+        success: true,
+        data: attendance
+      }
+    } catch (error) {
+      console.error('Error updating attendance record:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memperbarui data absensi'
+      }
+    }
+  }
+
+  private toSnapshot(attendance: AttendanceEntity): AttendanceAuditSnapshot {
+    return {
+      attendanceDate: attendance.attendanceDate,
+      checkInTime: attendance.checkInTime,
+      checkOutTime: attendance.checkOutTime,
+      status: attendance.status,
+      lateMinutes: attendance.lateMinutes,
+      workingHoursMinutes: attendance.workingHoursMinutes,
+      officeLocationId: attendance.officeLocationId,
+      isValidLocation: attendance.isValidLocation,
+      notes: attendance.notes
+    }
+  }
+
+  private validateInput(request: UpdateAttendanceRecordRequest): { isValid: boolean; error?: string } {
+    if (!request.id) {
+      return { isValid: false, error: 'ID absensi wajib diisi' }
+    }
+
+    if (!request.adminUserId) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (request.checkInTime && parseTimeToMinutes(request.checkInTime) === null) {
+      return { isValid: false, error: 'Format waktu check-in harus HH:mm' }
+    }
+
+    if (request.checkOutTime && parseTimeToMinutes(request.checkOutTime) === null) {
+      return { isValid: false, error: 'Format waktu check-out harus HH:mm' }
+    }
+
+    if (request.status && !Object.values(AttendanceStatus).includes(request.status)) {
+      return { isValid: false, error: 'Status absensi tidak valid' }
+    }
+
+    if (request.notes && request.notes.trim().length > 500) {
+      return { isValid: false, error: 'Catatan maksimal 500 karakter' }
+    }
+
+    if (!request.reason || request.reason.trim().length < 10) {
+      return { isValid: false, error: 'Alasan perubahan wajib diisi minimal 10 karakter' }
+    }
+
+    if (request.reason.trim().length > 500) {
+      return { isValid: false, error: 'Alasan perubahan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,98 @@
+// ============================================================================
+// VOID ATTENDANCE USE CASE
+// src/use-cases/attendance/VoidAttendance.ts
+// ============================================================================
+
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+export interface VoidAttendanceRequest {
+  id: string
+  reason: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface VoidAttendanceResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+export class VoidAttendance {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private auditService: AttendanceAuditService
+  ) {}
+
+  async execute(request: VoidAttendanceRequest): Promise<VoidAttendanceResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID absensi dan admin user ID wajib diisi'
+        }
+      }
+
+      if (!request.reason || request.reason.trim().length < 10) {
+        return {
+          success: false,
+          error: 'Alasan pembatalan wajib diisi minimal 10 karakter'
+        }
+      }
+
+      if (request.reason.trim().length > 500) {
+        return {
+          success: false,
+          error: 'Alasan pembatalan maksimal 500 karakter'
+        }
+      }
+
+      const existing = await this.attendanceRepository.findById(request.id)
+      if (!existing) {
+        return {
+          success: false,
+          error: 'Data absensi tidak ditemukan'
+        }
+      }
+
+      // The row is removed so the date can be entered again; the audit log keeps the full values
+      await this.attendanceRepository.delete(existing.id)
+
+      await this.auditService.logVoid(
+        existing.id,
+        existing.userId,
+        {
+          attendanceDate: existing.attendanceDate,
+          checkInTime: existing.checkInTime,
+          checkOutTime: existing.checkOutTime,
+          status: existing.status,
+          lateMinutes: existing.lateMinutes,
+          workingHoursMinutes: existing.workingHoursMinutes,
+          officeLocationId: existing.officeLocationId,
+          isValidLocation: existing.isValidLocation,
+          notes: existing.notes
+        },
+        request.adminUserId,
+        request.reason.trim(),
+        request.ipAddress,
+        request.userAgent
+      )
+
+      const dateLabel = existing.attendanceDate.toISOString().split('T')[0]
+      console.log(`🗑️ Attendance voided by admin: ${existing.id} (${dateLabel})`)
+
+      return {
+        success: true,
+        message: `Data absensi tanggal ${dateLabel} berhasil dibatalkan`
+      }
+    } catch (error) {
+      console.error('Error voiding attendance:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membatalkan data absensi'
+      }
+    }
+  }
+}
@@ -0,0 +1,139 @@
+// ============================================================================
+// CREATE HOLIDAY USE CASE
+// src/use-cases/holiday/CreateHoliday.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+import { IHolidayRepository, HolidayEntity } from '@/domain/repositories/IHolidayRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+export interface CreateHolidayRequest {
+  date: string // YYYY-MM-DD
+  name: string
+  type?: HolidayType
+  description?: string
+  officeLocationId?: string
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface CreateHolidayResponse {
+  success: boolean
+  data?: HolidayEntity
+  error?: string
+}
+
+export class CreateHoliday {
+  constructor(
+    private holidayRepository: IHolidayRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private auditService: HolidayAuditService
+  ) {}
+
+  async execute(request: CreateHolidayRequest): Promise<CreateHolidayResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const type = request.type || HolidayType.NATIONAL
+      const date = new Date(`${request.date}T00:00:00.000Z`)
+
+      // Regional holidays belong to exactly one office location
+      if (type === HolidayType.REGIONAL) {
+        const officeLocation = request.officeLocationId
+          ? await this.officeLocationRepository.findById(request.officeLocationId)
+          : null
+        if (!officeLocation) {
+          return {
+            success: false,
+            error: 'Lokasi kantor wajib dipilih untuk libur daerah'
+          }
+        }
+      }
+
+      const officeLocationId = type === HolidayType.REGIONAL ? request.officeLocationId : undefined
+
+      // Check for duplicate entry
+      const duplicate = await this.holidayRepository.findDuplicate(date, request.name.trim(), officeLocationId)
+      if (duplicate) {
+        return {
+          success: false,
+          error: 'Hari libur dengan tanggal dan nama yang sama sudah ada'
+        }
+      }
+
+      const holiday = await this.holidayRepository.create({
+        date,
+        name: request.name.trim(),
+        type,
+        description: request.description?.trim() || undefined,
+        officeLocationId,
+        isActive: request.isActive ?? true
+      })
+
+      // Log audit trail
+      await this.auditService.logCreate(
+        holiday.id,
+        {
+          date: request.date,
+          name: holiday.name,
+          type: holiday.type,
+          description: holiday.description,
+          officeLocationId: holiday.officeLocationId,
+          isActive: holiday.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: holiday
+      }
+    } catch (error) {
+      console.error('Error creating holiday:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat hari libur'
+      }
+    }
+  }
+
+  private validateInput(request: CreateHolidayRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.date || !/^\d{4}-\d{2}-\d{2}$/.test(request.date) || isNaN(new Date(request.date).getTime())) {
+      return { isValid: false, error: 'Tanggal wajib diisi dengan format YYYY-MM-DD' }
+    }
+
+    if (!request.name || request.name.trim().length === 0) {
+      return { isValid: false, error: 'Nama hari libur wajib diisi' }
+    }
+
+    if (request.name.trim().length > 150) {
+      return { isValid: false, error: 'Nama hari libur maksimal 150 karakter' }
+    }
+
+    if (request.type && !Object.values(HolidayType).includes(request.type)) {
+      return { isValid: false, error: 'Jenis hari libur tidak valid' }
+    }
+
+    if (request.description && request.description.trim().length > 500) {
+      return { isValid: false, error: 'Deskripsi maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
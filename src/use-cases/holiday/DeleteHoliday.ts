@@ -0,0 +1,76 @@
+// ============================================================================
+// DELETE HOLIDAY USE CASE
+// src/use-cases/holiday/DeleteHoliday.ts
+// ============================================================================
+
+import { IHolidayRepository } from '@/domain/repositories/IHolidayRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+export interface DeleteHolidayRequest {
+  id: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface DeleteHolidayResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+export class DeleteHoliday {
+  constructor(
+    private holidayRepository: IHolidayRepository,
+    private auditService: HolidayAuditService
+  ) {}
+
+  async execute(request: DeleteHolidayRequest): Promise<DeleteHolidayResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID hari libur dan admin user ID wajib diisi'
+        }
+      }
+
+      // Check if holiday exists
+      const existingHoliday = await this.holidayRepository.findById(request.id)
+      if (!existingHoliday) {
+        return {
+          success: false,
+          error: 'Hari libur tidak ditemukan'
+        }
+      }
+
+      await this.holidayRepository.delete(request.id)
+
+      // Log audit trail
+      await this.auditService.logDelete(
+        existingHoliday.id,
+        {
+          date: existingHoliday.date.toISOString().split('T')[0],
+          name: existingHoliday.name,
+          type: existingHoliday.type,
+          description: existingHoliday.description,
+          officeLocationId: existingHoliday.officeLocationId,
+          isActive: existingHoliday.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        message: `Hari libur "${existingHoliday.name}" berhasil dihapus`
+      }
+    } catch (error) {
+      console.error('Error deleting holiday:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus hari libur'
+      }
+    }
+  }
+}
@@ -0,0 +1,116 @@
+// ============================================================================
+// GET HOLIDAYS USE CASE
+// src/use-cases/holiday/GetHolidays.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+import { IHolidayRepository, HolidayFilters, HolidayWithLocation } from '@/domain/repositories/IHolidayRepository'
+
+export interface GetHolidaysRequest {
+  filters?: {
+    year?: number
+    type?: HolidayType
+    officeLocationId?: string
+    isActive?: boolean
+    search?: string
+  }
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetHolidaysResponse {
+  success: boolean
+  data?: {
+    holidays: HolidayWithLocation[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetHolidays {
+  constructor(private holidayRepository: IHolidayRepository) {}
+
+  async execute(request: GetHolidaysRequest): Promise<GetHolidaysResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // A year has at most a few dozen holidays, so the default page covers it
+      const page = request.pagination?.page || 1
+      const limit = request.pagination?.limit || 100
+      const offset = (page - 1) * limit
+
+      // Prepare filters
+      const filters: HolidayFilters = {
+        ...(request.filters?.year && { year: request.filters.year }),
+        ...(request.filters?.type && { type: request.filters.type }),
+        ...(request.filters?.officeLocationId && { officeLocationId: request.filters.officeLocationId }),
+        ...(request.filters?.isActive !== undefined && { isActive: request.filters.isActive }),
+        ...(request.filters?.search && { search: request.filters.search })
+      }
+
+      const [holidays, total] = await Promise.all([
+        this.holidayRepository.findMany(filters, limit, offset),
+        this.holidayRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          holidays,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting holidays:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data hari libur'
+      }
+    }
+  }
+
+  private validateInput(request: GetHolidaysRequest): { isValid: boolean; error?: string } {
+    if (request.filters?.year !== undefined) {
+      if (!Number.isInteger(request.filters.year) || request.filters.year < 2000 || request.filters.year > 2100) {
+        return { isValid: false, error: 'Tahun tidak valid' }
+      }
+    }
+
+    if (request.filters?.type && !Object.values(HolidayType).includes(request.filters.type)) {
+      return { isValid: false, error: 'Jenis hari libur tidak valid' }
+    }
+
+    if (request.pagination?.page !== undefined) {
+      if (typeof request.pagination.page !== 'number' || request.pagination.page < 1) {
+        return { isValid: false, error: 'Page harus berupa angka positif' }
+      }
+    }
+
+    if (request.pagination?.limit !== undefined) {
+      if (typeof request.pagination.limit !== 'number' || request.pagination.limit < 1 || request.pagination.limit > 366) {
+        return { isValid: false, error: 'Limit harus antara 1-366' }
+      }
+    }
+
+    return { isValid: true }
+  }
+}
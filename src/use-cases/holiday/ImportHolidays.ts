@@ -0,0 +1,222 @@
+// ============================================================================
+// IMPORT HOLIDAYS USE CASE
+// src/use-cases/holiday/ImportHolidays.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+import { IHolidayRepository } from '@/domain/repositories/IHolidayRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+import {
+  HolidayImportFormat,
+  HolidayImportParseResult,
+  parseHolidayCsv,
+  parseHolidayIcs
+} from '@/utils/holidayImport'
+
+// Guard against accidentally uploading a non-holiday file
+const MAX_IMPORT_ROWS = 500
+
+export interface ImportHolidaysRequest {
+  content: string
+  format: HolidayImportFormat
+  year?: number // Only import rows of this year
+  defaultType?: HolidayType // Used for rows without a type
+  officeLocationId?: string // Used for regional rows without an office code
+  dryRun?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface ImportedHolidayRow {
+  line: number
+  date: string
+  name: string
+  type: HolidayType
+  officeLocationId?: string
+  status: 'CREATED' | 'WILL_CREATE' | 'DUPLICATE' | 'OTHER_YEAR'
+}
+
+export interface ImportHolidaysResponse {
+  success: boolean
+  data?: {
+    dryRun: boolean
+    totalRows: number
+    createdCount: number
+    duplicateCount: number
+    skippedCount: number
+    rows: ImportedHolidayRow[]
+    errors: Array<{ line: number; message: string }>
+  }
+  error?: string
+}
+
+export class ImportHolidays {
+  constructor(
+    private holidayRepository: IHolidayRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private auditService: HolidayAuditService
+  ) {}
+
+  async execute(request: ImportHolidaysRequest): Promise<ImportHolidaysResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const parsed: HolidayImportParseResult = request.format === 'ICS'
+        ? parseHolidayIcs(request.content)
+        : parseHolidayCsv(request.content)
+
+      if (parsed.rows.length > MAX_IMPORT_ROWS) {
+        return {
+          success: false,
+          error: `Maksimal ${MAX_IMPORT_ROWS} baris per import`
+        }
+      }
+
+      const dryRun = request.dryRun ?? false
+      const errors = [...parsed.errors]
+      const rows: ImportedHolidayRow[] = []
+      const createdIds: string[] = []
+      const seenKeys = new Set<string>()
+      const officeIdsByCode = new Map<string, string | null>()
+
+      for (const row of parsed.rows) {
+        // Office code on a row makes it a regional holiday of that office
+        let officeLocationId: string | undefined
+        if (row.officeLocationCode) {
+          if (!officeIdsByCode.has(row.officeLocationCode)) {
+            const officeLocation = await this.officeLocationRepository.findByCode(row.officeLocationCode)
+            officeIdsByCode.set(row.officeLocationCode, officeLocation?.id ?? null)
+          }
+          officeLocationId = officeIdsByCode.get(row.officeLocationCode) ?? undefined
+          if (!officeLocationId) {
+            errors.push({ line: row.line, message: `Kode lokasi kantor tidak ditemukan: ${row.officeLocationCode}` })
+            continue
+          }
+        }
+
+        const type = officeLocationId
+          ? HolidayType.REGIONAL
+          : row.type || request.defaultType || HolidayType.NATIONAL
+
+        if (type === HolidayType.REGIONAL && !officeLocationId) {
+          officeLocationId = request.officeLocationId
+          if (!officeLocationId) {
+            errors.push({ line: row.line, message: 'Libur daerah membutuhkan kode lokasi kantor' })
+            continue
+          }
+        }
+
+        const result: ImportedHolidayRow = {
+          line: row.line,
+          date: row.date,
+          name: row.name,
+          type,
+          officeLocationId,
+          status: dryRun ? 'WILL_CREATE' : 'CREATED'
+        }
+
+        if (request.year && Number(row.date.slice(0, 4)) !== request.year) {
+          rows.push({ ...result, status: 'OTHER_YEAR' })
+          continue
+        }
+
+        const date = new Date(`${row.date}T00:00:00.000Z`)
+        const key = `${row.date}|${row.name.toLowerCase()}|${officeLocationId || ''}`
+        if (seenKeys.has(key) || await this.holidayRepository.findDuplicate(date, row.name, officeLocationId)) {
+          rows.push({ ...result, status: 'DUPLICATE' })
+          continue
+        }
+        seenKeys.add(key)
+
+        if (!dryRun) {
+          const holiday = await this.holidayRepository.create({
+            date,
+            name: row.name,
+            type,
+            description: row.description,
+            officeLocationId
+          })
+          createdIds.push(holiday.id)
+        }
+
+        rows.push(result)
+      }
+
+      const createdCount = rows.filter(row => row.status === 'CREATED' || row.status === 'WILL_CREATE').length
+      const duplicateCount = rows.filter(row => row.status === 'DUPLICATE').length
+      const skippedCount = rows.filter(row => row.status === 'OTHER_YEAR').length
+
+      // Log audit trail
+      if (!dryRun && createdIds.length > 0) {
+        await this.auditService.logImport(
+          createdIds,
+          {
+            format: request.format,
+            year: request.year,
+            totalRows: parsed.rows.length,
+            createdCount,
+            duplicateCount,
+            errorCount: errors.length
+          },
+          request.adminUserId,
+          request.ipAddress,
+          request.userAgent
+        )
+      }
+
+      return {
+        success: true,
+        data: {
+          dryRun,
+          totalRows: parsed.rows.length,
+          createdCount,
+          duplicateCount,
+          skippedCount,
+          rows,
+          errors
+        }
+      }
+    } catch (error) {
+      console.error('Error importing holidays:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengimpor hari libur'
+      }
+    }
+  }
+
+  private validateInput(request: ImportHolidaysRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.content || request.content.trim().length === 0) {
+      return { isValid: false, error: 'File import kosong' }
+    }
+
+    if (request.format !== 'CSV' && request.format !== 'ICS') {
+      return { isValid: false, error: 'Format file harus CSV atau ICS' }
+    }
+
+    if (request.year !== undefined) {
+      if (!Number.isInteger(request.year) || request.year < 2000 || request.year > 2100) {
+        return { isValid: false, error: 'Tahun tidak valid' }
+      }
+    }
+
+    if (request.defaultType && !Object.values(HolidayType).includes(request.defaultType)) {
+      return { isValid: false, error: 'Jenis hari libur tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,176 @@
+// ============================================================================
+// UPDATE HOLIDAY USE CASE
+// src/use-cases/holiday/UpdateHoliday.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+import { IHolidayRepository, HolidayEntity, UpdateHolidayData } from '@/domain/repositories/IHolidayRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { HolidayAuditService } from '@/infrastructure/services/HolidayAuditService'
+
+export interface UpdateHolidayRequest {
+  id: string
+  date?: string // YYYY-MM-DD
+  name?: string
+  type?: HolidayType
+  description?: string
+  officeLocationId?: string | null
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UpdateHolidayResponse {
+  success: boolean
+  data?: HolidayEntity
+  error?: string
+}
+
+export class UpdateHoliday {
+  constructor(
+    private holidayRepository: IHolidayRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private auditService: HolidayAuditService
+  ) {}
+
+  async execute(request: UpdateHolidayRequest): Promise<UpdateHolidayResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Check if holiday exists
+      const existingHoliday = await this.holidayRepository.findById(request.id)
+      if (!existingHoliday) {
+        return {
+          success: false,
+          error: 'Hari libur tidak ditemukan'
+        }
+      }
+
+      const type = request.type || existingHoliday.type
+      const date = request.date ? new Date(`${request.date}T00:00:00.000Z`) : existingHoliday.date
+      const name = request.name?.trim() || existingHoliday.name
+      const officeLocationId = type === HolidayType.REGIONAL
+        ? (request.officeLocationId !== undefined ? request.officeLocationId : existingHoliday.officeLocationId) || undefined
+        : undefined
+
+      // Regional holidays belong to exactly one office location
+      if (type === HolidayType.REGIONAL) {
+        const officeLocation = officeLocationId
+          ? await this.officeLocationRepository.findById(officeLocationId)
+          : null
+        if (!officeLocation) {
+          return {
+            success: false,
+            error: 'Lokasi kantor wajib dipilih untuk libur daerah'
+          }
+        }
+      }
+
+      // Check for duplicate entry
+      const duplicate = await this.holidayRepository.findDuplicate(date, name, officeLocationId, request.id)
+      if (duplicate) {
+        return {
+          success: false,
+          error: 'Hari libur dengan tanggal dan nama yang sama sudah ada'
+        }
+      }
+
+      // Prepare update data
+      const updateData: UpdateHolidayData = {
+        date,
+        name,
+        type,
+        officeLocationId: officeLocationId ?? null
+      }
+
+      if (request.description !== undefined) {
+        updateData.description = request.description.trim()
+      }
+
+      if (request.isActive !== undefined) {
+        updateData.isActive = request.isActive
+      }
+
+      const holiday = await this.holidayRepository.update(request.id, updateData)
+
+      // Log audit trail
+      await this.auditService.logUpdate(
+        holiday.id,
+        {
+          date: existingHoliday.date.toISOString().split('T')[0],
+          name: existingHoliday.name,
+          type: existingHoliday.type,
+          description: existingHoliday.description,
+          officeLocationId: existingHoliday.officeLocationId,
+          isActive: existingHoliday.isActive
+        },
+        {
+          date: holiday.date.toISOString().split('T')[0],
+          name: holiday.name,
+          type: holiday.type,
+          description: holiday.description,
+          officeLocationId: holiday.officeLocationId,
+          isActive: holiday.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: holiday
+      }
+    } catch (error) {
+      console.error('Error updating holiday:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memperbarui hari libur'
+      }
+    }
+  }
+
+  private validateInput(request: UpdateHolidayRequest): { isValid: boolean; error?: string } {
+    if (!request.id || request.id.trim().length === 0) {
+      return { isValid: false, error: 'ID hari libur wajib diisi' }
+    }
+
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (request.date !== undefined) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(request.date) || isNaN(new Date(request.date).getTime())) {
+        return { isValid: false, error: 'Format tanggal harus YYYY-MM-DD' }
+      }
+    }
+
+    if (request.name !== undefined) {
+      if (request.name.trim().length === 0) {
+        return { isValid: false, error: 'Nama hari libur tidak boleh kosong' }
+      }
+
+      if (request.name.trim().length > 150) {
+        return { isValid: false, error: 'Nama hari libur maksimal 150 karakter' }
+      }
+    }
+
+    if (request.type && !Object.values(HolidayType).includes(request.type)) {
+      return { isValid: false, error: 'Jenis hari libur tidak valid' }
+    }
+
+    if (request.description && request.description.trim().length > 500) {
+      return { isValid: false, error: 'Deskripsi maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
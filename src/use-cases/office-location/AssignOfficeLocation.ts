@@ -0,0 +1,142 @@
+// ============================================================================
+// ASSIGN OFFICE LOCATION USE CASE
+// src/use-cases/office-location/AssignOfficeLocation.ts
+// ============================================================================
+
+import { IOfficeAssignmentRepository, OfficeAssignmentMode } from '@/domain/repositories/IOfficeAssignmentRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { DayOfWeek } from '@prisma/client'
+
+export const MAX_BULK_ASSIGNMENT_USERS = 1000
+
+export interface AssignOfficeLocationRequest {
+  adminId: string
+  userIds?: string[]
+  departmentIds?: string[] // All active employees of these departments
+  officeLocationId: string
+  daysOfWeek: DayOfWeek[]
+  mode?: OfficeAssignmentMode // ADD (default) keeps the users' other offices, REPLACE removes them
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface AssignOfficeLocationResponse {
+  success: boolean
+  data?: {
+    assignedCount: number
+  }
+  error?: string
+}
+
+export class AssignOfficeLocation {
+  constructor(
+    private officeAssignmentRepository: IOfficeAssignmentRepository,
+    private officeLocationRepository: IOfficeLocationRepository,
+    private auditService?: OfficeLocationAuditService
+  ) {}
+
+  async execute(request: AssignOfficeLocationRequest): Promise<AssignOfficeLocationResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const officeLocation = await this.officeLocationRepository.findById(request.officeLocationId)
+      if (!officeLocation) {
+        return {
+          success: false,
+          error: 'Lokasi kantor tidak ditemukan'
+        }
+      }
+
+      if (!officeLocation.isActive) {
+        return {
+          success: false,
+          error: 'Lokasi kantor tidak aktif'
+        }
+      }
+
+      const departmentUserIds = request.departmentIds?.length
+        ? await this.officeAssignmentRepository.findActiveUserIdsByDepartments(request.departmentIds)
+        : []
+      const userIds = [...new Set([...(request.userIds || []), ...departmentUserIds])]
+
+      if (userIds.length === 0) {
+        return {
+          success: false,
+          error: 'Tidak ada pegawai aktif yang dipilih'
+        }
+      }
+
+      if (userIds.length > MAX_BULK_ASSIGNMENT_USERS) {
+        return {
+          success: false,
+          error: `Maksimal ${MAX_BULK_ASSIGNMENT_USERS} pegawai per penugasan`
+        }
+      }
+
+      const daysOfWeek = [...new Set(request.daysOfWeek)]
+      const mode = request.mode || 'ADD'
+      const assignedCount = await this.officeAssignmentRepository.assign(userIds, officeLocation.id, daysOfWeek, mode)
+
+      if (this.auditService) {
+        await this.auditService.logAssignmentChange(
+          'ASSIGN_OFFICE',
+          officeLocation.id,
+          { userIds, departmentIds: request.departmentIds || [], daysOfWeek, mode },
+          request.adminId,
+          request.ipAddress,
+          request.userAgent
+        )
+      }
+
+      console.log(`✅ Office ${officeLocation.code} assigned to ${assignedCount} users by ${request.adminId}`)
+
+      return {
+        success: true,
+        data: { assignedCount }
+      }
+    } catch (error) {
+      console.error('Error assigning office location:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menugaskan lokasi kantor'
+      }
+    }
+  }
+
+  private validateInput(request: AssignOfficeLocationRequest): { isValid: boolean; error?: string } {
+    if (!request.adminId) {
+      return { isValid: false, error: 'ID admin wajib diisi' }
+    }
+
+    if (!request.officeLocationId) {
+      return { isValid: false, error: 'Lokasi kantor wajib dipilih' }
+    }
+
+    if ((request.userIds !== undefined && !Array.isArray(request.userIds)) ||
+        (request.departmentIds !== undefined && !Array.isArray(request.departmentIds))) {
+      return { isValid: false, error: 'Daftar pegawai atau unit kerja tidak valid' }
+    }
+
+    if (!request.userIds?.length && !request.departmentIds?.length) {
+      return { isValid: false, error: 'Pilih minimal satu pegawai atau unit kerja' }
+    }
+
+    if (!Array.isArray(request.daysOfWeek) || request.daysOfWeek.length === 0 ||
+        request.daysOfWeek.some(day => !Object.values(DayOfWeek).includes(day))) {
+      return { isValid: false, error: 'Pilih minimal satu hari yang valid' }
+    }
+
+    if (request.mode !== undefined && request.mode !== 'ADD' && request.mode !== 'REPLACE') {
+      return { isValid: false, error: 'Mode penugasan tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
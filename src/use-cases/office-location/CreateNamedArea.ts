@@ -0,0 +1,126 @@
+// ============================================================================
+// CREATE NAMED AREA USE CASE
+// src/use-cases/office-location/CreateNamedArea.ts
+// ============================================================================
+
+import { INamedAreaRepository, NamedAreaEntity } from '@/domain/repositories/INamedAreaRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+export const MIN_NAMED_AREA_RADIUS_METERS = 50
+export const MAX_NAMED_AREA_RADIUS_METERS = 50000
+
+export interface CreateNamedAreaRequest {
+  name: string
+  latitude: number
+  longitude: number
+  radiusMeters?: number
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface CreateNamedAreaResponse {
+  success: boolean
+  data?: NamedAreaEntity
+  error?: string
+}
+
+export class CreateNamedArea {
+  constructor(
+    private namedAreaRepository: INamedAreaRepository,
+    private auditService: OfficeLocationAuditService
+  ) {}
+
+  async execute(request: CreateNamedAreaRequest): Promise<CreateNamedAreaResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const name = request.name.trim()
+      if (!await this.namedAreaRepository.isNameUnique(name)) {
+        return {
+          success: false,
+          error: 'Nama area sudah digunakan'
+        }
+      }
+
+      const area = await this.namedAreaRepository.create({
+        name,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        radiusMeters: request.radiusMeters,
+        isActive: request.isActive ?? true
+      })
+
+      // Log audit trail
+      await this.auditService.logNamedAreaChange(
+        'CREATE',
+        area.id,
+        undefined,
+        {
+          name: area.name,
+          latitude: area.latitude,
+          longitude: area.longitude,
+          radiusMeters: area.radiusMeters,
+          isActive: area.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: area
+      }
+    } catch (error) {
+      console.error('Error creating named area:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat area'
+      }
+    }
+  }
+
+  private validateInput(request: CreateNamedAreaRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.name || request.name.trim().length === 0) {
+      return { isValid: false, error: 'Nama area wajib diisi' }
+    }
+
+    if (request.name.trim().length > 150) {
+      return { isValid: false, error: 'Nama area maksimal 150 karakter' }
+    }
+
+    if (typeof request.latitude !== 'number' || request.latitude < -90 || request.latitude > 90) {
+      return { isValid: false, error: 'Latitude harus antara -90 dan 90' }
+    }
+
+    if (typeof request.longitude !== 'number' || request.longitude < -180 || request.longitude > 180) {
+      return { isValid: false, error: 'Longitude harus antara -180 dan 180' }
+    }
+
+    if (request.radiusMeters !== undefined) {
+      if (!Number.isInteger(request.radiusMeters) ||
+          request.radiusMeters < MIN_NAMED_AREA_RADIUS_METERS ||
+          request.radiusMeters > MAX_NAMED_AREA_RADIUS_METERS) {
+        return {
+          isValid: false,
+          error: `Radius harus antara ${MIN_NAMED_AREA_RADIUS_METERS} dan ${MAX_NAMED_AREA_RADIUS_METERS} meter`
+        }
+      }
+    }
+
+    return { isValid: true }
+  }
+}
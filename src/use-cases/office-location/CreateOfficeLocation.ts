@@ -5,7 +5,11 @@
 
 import { IOfficeLocationRepository, CreateOfficeLocationData } from '@/domain/repositories/IOfficeLocationRepository'
 import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IOfficeLocationCache } from '@/domain/services/IOfficeLocationCache'
 import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { generateKioskKey } from '@/infrastructure/services/KioskTokenService'
+import { KioskMode } from '@prisma/client'
+import { OfficeBoundary, parseBoundary } from '@/utils/geofence'
 
 export interface CreateOfficeLocationRequest {
   name: string
@@ -14,6 +18,12 @@ export interface CreateOfficeLocationRequest {
   latitude: number
   longitude: number
   radiusMeters?: number
+  boundary?: unknown // GeoJSON Polygon/MultiPolygon, Feature or FeatureCollection
+  boundaryBufferMeters?: number
+  toleranceMeters?: number
+  maxAccuracyMeters?: number
+  requirePhoto?: boolean
+  kioskMode?: KioskMode
   isActive?: boolean
   adminUserId: string
   ipAddress?: string
@@ -30,6 +40,13 @@ export interface CreateOfficeLocationResponse {
     latitude: number
     longitude: number
     radiusMeters: number
+    boundary?: OfficeBoundary
+    boundaryBufferMeters: number
+    toleranceMeters: number
+    maxAccuracyMeters: number
+    requirePhoto: boolean
+    kioskMode: KioskMode
+    kioskKey?: string // Admins need it to open the kiosk page
     isActive: boolean
     createdAt: Date
     updatedAt: Date
@@ -41,7 +58,8 @@ export class CreateOfficeLocation {
   constructor(
     private officeLocationRepository: IOfficeLocationRepository,
     private locationValidationService: ILocationValidationService,
-    private auditService: OfficeLocationAuditService
+    private auditService: OfficeLocationAuditService,
+    private officeLocationCache: IOfficeLocationCache
   ) {}
 
   async execute(request: CreateOfficeLocationRequest): Promise<CreateOfficeLocationResponse> {
@@ -63,6 +81,19 @@ export class CreateOfficeLocation {
         }
       }
 
+      // Parse the optional polygon boundary
+      let boundary: OfficeBoundary | undefined
+      if (request.boundary !== undefined && request.boundary !== null) {
+        const parsed = parseBoundary(request.boundary)
+        if (!parsed.boundary) {
+          return {
+            success: false,
+            error: parsed.error
+          }
+        }
+        boundary = parsed.boundary
+      }
+
       // Check if code is unique
       const isCodeUnique = await this.officeLocationRepository.isCodeUnique(request.code)
       if (!isCodeUnique) {
@@ -89,11 +120,20 @@ export class CreateOfficeLocation {
         latitude: request.latitude,
         longitude: request.longitude,
         radiusMeters: request.radiusMeters || 100,
+        boundary,
+        boundaryBufferMeters: request.boundaryBufferMeters,
+        toleranceMeters: request.toleranceMeters,
+        maxAccuracyMeters: request.maxAccuracyMeters,
+        requirePhoto: request.requirePhoto,
+        kioskMode: request.kioskMode,
+        // The key is created with the kiosk and kept when it is disabled later
+        kioskKey: request.kioskMode && request.kioskMode !== KioskMode.DISABLED ? generateKioskKey() : undefined,
         isActive: request.isActive ?? true
       }
 
       // Create the office location
       const officeLocation = await this.officeLocationRepository.create(createData)
+      this.officeLocationCache.invalidate()
 
       // Log audit trail
       await this.auditService.logCreate(
@@ -105,6 +145,12 @@ export class CreateOfficeLocation {
           latitude: officeLocation.latitude,
           longitude: officeLocation.longitude,
           radiusMeters: officeLocation.radiusMeters,
+          boundary: officeLocation.boundary,
+          boundaryBufferMeters: officeLocation.boundaryBufferMeters,
+          toleranceMeters: officeLocation.toleranceMeters,
+          maxAccuracyMeters: officeLocation.maxAccuracyMeters,
+          requirePhoto: officeLocation.requirePhoto,
+          kioskMode: officeLocation.kioskMode,
           isActive: officeLocation.isActive
         },
         request.adminUserId,
@@ -122,6 +168,13 @@ export class CreateOfficeLocation {
           latitude: officeLocation.latitude,
           longitude: officeLocation.longitude,
           radiusMeters: officeLocation.radiusMeters,
+          boundary: officeLocation.boundary,
+          boundaryBufferMeters: officeLocation.boundaryBufferMeters,
+          toleranceMeters: officeLocation.toleranceMeters,
+          maxAccuracyMeters: officeLocation.maxAccuracyMeters,
+          requirePhoto: officeLocation.requirePhoto,
+          kioskMode: officeLocation.kioskMode,
+          kioskKey: officeLocation.kioskKey,
           isActive: officeLocation.isActive,
           createdAt: officeLocation.createdAt,
           updatedAt: officeLocation.updatedAt
@@ -170,6 +223,30 @@ export class CreateOfficeLocation {
       return { isValid: false, error: 'Koordinat harus berupa angka' }
     }
 
+    // Validate boundary buffer
+    if (request.boundaryBufferMeters !== undefined) {
+      if (typeof request.boundaryBufferMeters !== 'number' || request.boundaryBufferMeters < 0 || request.boundaryBufferMeters > 200) {
+        return { isValid: false, error: 'Toleransi batas area harus antara 0-200 meter' }
+      }
+    }
+
+    // Validate GPS tolerance and accuracy limit
+    if (request.toleranceMeters !== undefined) {
+      if (typeof request.toleranceMeters !== 'number' || request.toleranceMeters < 0 || request.toleranceMeters > 500) {
+        return { isValid: false, error: 'Toleransi GPS harus antara 0-500 meter' }
+      }
+    }
+
+    if (request.maxAccuracyMeters !== undefined) {
+      if (typeof request.maxAccuracyMeters !== 'number' || request.maxAccuracyMeters < 10 || request.maxAccuracyMeters > 500) {
+        return { isValid: false, error: 'Batas akurasi GPS harus antara 10-500 meter' }
+      }
+    }
+
+    if (request.kioskMode !== undefined && !Object.values(KioskMode).includes(request.kioskMode)) {
+      return { isValid: false, error: 'Mode kiosk tidak valid' }
+    }
+
     // Validate radius
     if (request.radiusMeters !== undefined) {
       if (typeof request.radiusMeters !== 'number' || request.radiusMeters < 10 || request.radiusMeters > 1000) {
@@ -0,0 +1,77 @@
+// ============================================================================
+// DELETE NAMED AREA USE CASE
+// src/use-cases/office-location/DeleteNamedArea.ts
+// ============================================================================
+
+import { INamedAreaRepository } from '@/domain/repositories/INamedAreaRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+export interface DeleteNamedAreaRequest {
+  id: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface DeleteNamedAreaResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+// Addresses already written to attendance records keep the area name
+export class DeleteNamedArea {
+  constructor(
+    private namedAreaRepository: INamedAreaRepository,
+    private auditService: OfficeLocationAuditService
+  ) {}
+
+  async execute(request: DeleteNamedAreaRequest): Promise<DeleteNamedAreaResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID area dan admin user ID wajib diisi'
+        }
+      }
+
+      const existingArea = await this.namedAreaRepository.findById(request.id)
+      if (!existingArea) {
+        return {
+          success: false,
+          error: 'Area tidak ditemukan'
+        }
+      }
+
+      await this.namedAreaRepository.delete(request.id)
+
+      // Log audit trail
+      await this.auditService.logNamedAreaChange(
+        'DELETE',
+        existingArea.id,
+        {
+          name: existingArea.name,
+          latitude: existingArea.latitude,
+          longitude: existingArea.longitude,
+          radiusMeters: existingArea.radiusMeters,
+          isActive: existingArea.isActive
+        },
+        undefined,
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        message: `Area "${existingArea.name}" berhasil dihapus`
+      }
+    } catch (error) {
+      console.error('Error deleting named area:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus area'
+      }
+    }
+  }
+}
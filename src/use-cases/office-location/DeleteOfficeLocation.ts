@@ -4,6 +4,7 @@
 // ============================================================================
 
 import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IOfficeLocationCache } from '@/domain/services/IOfficeLocationCache'
 import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
 
 export interface DeleteOfficeLocationRequest {
@@ -22,7 +23,8 @@ export interface DeleteOfficeLocationResponse {
 export class DeleteOfficeLocation {
   constructor(
     private officeLocationRepository: IOfficeLocationRepository,
-    private auditService: OfficeLocationAuditService
+    private auditService: OfficeLocationAuditService,
+    private officeLocationCache: IOfficeLocationCache
   ) {}
 
   async execute(request: DeleteOfficeLocationRequest): Promise<DeleteOfficeLocationResponse> {
@@ -67,6 +69,7 @@ export class DeleteOfficeLocation {
 
       // Delete the office location
       await this.officeLocationRepository.delete(request.id)
+      this.officeLocationCache.invalidate()
 
       // Log audit trail
       await this.auditService.logDelete(
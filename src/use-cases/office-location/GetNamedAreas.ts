@@ -0,0 +1,98 @@
+// ============================================================================
+// GET NAMED AREAS USE CASE
+// src/use-cases/office-location/GetNamedAreas.ts
+// ============================================================================
+
+import { INamedAreaRepository, NamedAreaEntity, NamedAreaFilters } from '@/domain/repositories/INamedAreaRepository'
+
+export interface GetNamedAreasRequest {
+  filters?: {
+    search?: string
+    isActive?: boolean
+  }
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetNamedAreasResponse {
+  success: boolean
+  data?: {
+    areas: NamedAreaEntity[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetNamedAreas {
+  constructor(private namedAreaRepository: INamedAreaRepository) {}
+
+  async execute(request: GetNamedAreasRequest): Promise<GetNamedAreasResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const page = request.pagination?.page || 1
+      const limit = request.pagination?.limit || 20
+      const offset = (page - 1) * limit
+
+      // Prepare filters
+      const filters: NamedAreaFilters = {
+        ...(request.filters?.isActive !== undefined && { isActive: request.filters.isActive }),
+        ...(request.filters?.search && { search: request.filters.search })
+      }
+
+      const [areas, total] = await Promise.all([
+        this.namedAreaRepository.findMany(filters, limit, offset),
+        this.namedAreaRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          areas,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting named areas:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data area'
+      }
+    }
+  }
+
+  private validateInput(request: GetNamedAreasRequest): { isValid: boolean; error?: string } {
+    if (request.pagination?.page !== undefined) {
+      if (typeof request.pagination.page !== 'number' || request.pagination.page < 1) {
+        return { isValid: false, error: 'Page harus berupa angka positif' }
+      }
+    }
+
+    if (request.pagination?.limit !== undefined) {
+      if (typeof request.pagination.limit !== 'number' || request.pagination.limit < 1 || request.pagination.limit > 100) {
+        return { isValid: false, error: 'Limit harus antara 1-100' }
+      }
+    }
+
+    return { isValid: true }
+  }
+}
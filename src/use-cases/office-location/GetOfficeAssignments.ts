@@ -0,0 +1,85 @@
+// ============================================================================
+// GET OFFICE ASSIGNMENTS USE CASE
+// src/use-cases/office-location/GetOfficeAssignments.ts
+// ============================================================================
+
+import {
+  IOfficeAssignmentRepository,
+  OfficeAssignmentFilters,
+  OfficeAssignmentProfile
+} from '@/domain/repositories/IOfficeAssignmentRepository'
+import { IOfficeAssignmentService } from '@/domain/services/IOfficeAssignmentService'
+
+export interface GetOfficeAssignmentsRequest {
+  search?: string
+  departmentId?: string
+  officeLocationId?: string
+  unassigned?: boolean
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetOfficeAssignmentsResponse {
+  success: boolean
+  data?: {
+    profiles: OfficeAssignmentProfile[]
+    enforced: boolean // ENFORCE_ASSIGNED_OFFICE is on
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetOfficeAssignments {
+  constructor(
+    private officeAssignmentRepository: IOfficeAssignmentRepository,
+    private officeAssignmentService: IOfficeAssignmentService
+  ) {}
+
+  async execute(request: GetOfficeAssignmentsRequest): Promise<GetOfficeAssignmentsResponse> {
+    try {
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 20, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: OfficeAssignmentFilters = {
+        ...(request.search?.trim() && { search: request.search.trim() }),
+        ...(request.departmentId && { departmentId: request.departmentId }),
+        ...(request.officeLocationId && { officeLocationId: request.officeLocationId }),
+        ...(request.unassigned && { unassigned: true })
+      }
+
+      const [profiles, total, enforced] = await Promise.all([
+        this.officeAssignmentRepository.findMany(filters, limit, offset),
+        this.officeAssignmentRepository.countMany(filters),
+        this.officeAssignmentService.isEnforced()
+      ])
+
+      return {
+        success: true,
+        data: {
+          profiles,
+          enforced,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting office assignments:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data penugasan lokasi kantor'
+      }
+    }
+  }
+}
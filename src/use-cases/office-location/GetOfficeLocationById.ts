@@ -4,6 +4,8 @@
 // ============================================================================
 
 import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { KioskMode } from '@prisma/client'
+import { OfficeBoundary } from '@/utils/geofence'
 
 export interface GetOfficeLocationByIdRequest {
   id: string
@@ -20,6 +22,13 @@ export interface GetOfficeLocationByIdResponse {
     latitude: number
     longitude: number
     radiusMeters: number
+    boundary?: OfficeBoundary
+    boundaryBufferMeters: number
+    toleranceMeters: number
+    maxAccuracyMeters: number
+    requirePhoto: boolean
+    kioskMode: KioskMode
+    kioskKey?: string // Admins need it to open the kiosk page
     isActive: boolean
     createdAt: Date
     updatedAt: Date
@@ -61,6 +70,13 @@ export class GetOfficeLocationById {
           latitude: location.latitude,
           longitude: location.longitude,
           radiusMeters: location.radiusMeters,
+          boundary: location.boundary,
+          boundaryBufferMeters: location.boundaryBufferMeters,
+          toleranceMeters: location.toleranceMeters,
+          maxAccuracyMeters: location.maxAccuracyMeters,
+          requirePhoto: location.requirePhoto,
+          kioskMode: location.kioskMode,
+          kioskKey: location.kioskKey,
           isActive: location.isActive,
           createdAt: location.createdAt,
           updatedAt: location.updatedAt
@@ -4,6 +4,8 @@
 // ============================================================================
 
 import { IOfficeLocationRepository, OfficeLocationFilters } from '@/domain/repositories/IOfficeLocationRepository'
+import { KioskMode } from '@prisma/client'
+import { OfficeBoundary } from '@/utils/geofence'
 
 export interface GetOfficeLocationsRequest {
   filters?: {
@@ -30,6 +32,13 @@ export interface GetOfficeLocationsResponse {
       latitude: number
       longitude: number
       radiusMeters: number
+      boundary?: OfficeBoundary
+      boundaryBufferMeters: number
+      toleranceMeters: number
+      maxAccuracyMeters: number
+      requirePhoto: boolean
+      kioskMode: KioskMode
+      kioskKey?: string // Admins need it to open the kiosk page
       isActive: boolean
       createdAt: Date
       updatedAt: Date
@@ -91,6 +100,13 @@ export class GetOfficeLocations {
             latitude: location.latitude,
             longitude: location.longitude,
             radiusMeters: location.radiusMeters,
+            boundary: location.boundary,
+            boundaryBufferMeters: location.boundaryBufferMeters,
+            toleranceMeters: location.toleranceMeters,
+            maxAccuracyMeters: location.maxAccuracyMeters,
+            requirePhoto: location.requirePhoto,
+            kioskMode: location.kioskMode,
+            kioskKey: location.kioskKey,
             isActive: location.isActive,
             createdAt: location.createdAt,
             updatedAt: location.updatedAt
@@ -0,0 +1,93 @@
+// ============================================================================
+// UNASSIGN OFFICE LOCATION USE CASE
+// src/use-cases/office-location/UnassignOfficeLocation.ts
+// ============================================================================
+
+import { IOfficeAssignmentRepository } from '@/domain/repositories/IOfficeAssignmentRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+
+export interface UnassignOfficeLocationRequest {
+  adminId: string
+  userIds?: string[]
+  departmentIds?: string[] // All active employees of these departments
+  officeLocationId?: string // Omitted removes every assigned office
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UnassignOfficeLocationResponse {
+  success: boolean
+  data?: {
+    removedCount: number
+  }
+  error?: string
+}
+
+export class UnassignOfficeLocation {
+  constructor(
+    private officeAssignmentRepository: IOfficeAssignmentRepository,
+    private auditService?: OfficeLocationAuditService
+  ) {}
+
+  async execute(request: UnassignOfficeLocationRequest): Promise<UnassignOfficeLocationResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const departmentUserIds = request.departmentIds?.length
+        ? await this.officeAssignmentRepository.findActiveUserIdsByDepartments(request.departmentIds)
+        : []
+      const userIds = [...new Set([...(request.userIds || []), ...departmentUserIds])]
+
+      const removedCount = userIds.length > 0
+        ? await this.officeAssignmentRepository.unassign(userIds, request.officeLocationId)
+        : 0
+
+      if (this.auditService && removedCount > 0) {
+        await this.auditService.logAssignmentChange(
+          'UNASSIGN_OFFICE',
+          request.officeLocationId || null,
+          { userIds, departmentIds: request.departmentIds || [], removedCount },
+          request.adminId,
+          request.ipAddress,
+          request.userAgent
+        )
+      }
+
+      console.log(`✅ ${removedCount} office assignments removed by ${request.adminId}`)
+
+      return {
+        success: true,
+        data: { removedCount }
+      }
+    } catch (error) {
+      console.error('Error removing office assignments:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus penugasan lokasi kantor'
+      }
+    }
+  }
+
+  private validateInput(request: UnassignOfficeLocationRequest): { isValid: boolean; error?: string } {
+    if (!request.adminId) {
+      return { isValid: false, error: 'ID admin wajib diisi' }
+    }
+
+    if ((request.userIds !== undefined && !Array.isArray(request.userIds)) ||
+        (request.departmentIds !== undefined && !Array.isArray(request.departmentIds))) {
+      return { isValid: false, error: 'Daftar pegawai atau unit kerja tidak valid' }
+    }
+
+    if (!request.userIds?.length && !request.departmentIds?.length) {
+      return { isValid: false, error: 'Pilih minimal satu pegawai atau unit kerja' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,141 @@
+// ============================================================================
+// UPDATE NAMED AREA USE CASE
+// src/use-cases/office-location/UpdateNamedArea.ts
+// ============================================================================
+
+import { INamedAreaRepository, NamedAreaEntity } from '@/domain/repositories/INamedAreaRepository'
+import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { MAX_NAMED_AREA_RADIUS_METERS, MIN_NAMED_AREA_RADIUS_METERS } from './CreateNamedArea'
+
+export interface UpdateNamedAreaRequest {
+  id: string
+  name?: string
+  latitude?: number
+  longitude?: number
+  radiusMeters?: number
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UpdateNamedAreaResponse {
+  success: boolean
+  data?: NamedAreaEntity
+  error?: string
+}
+
+export class UpdateNamedArea {
+  constructor(
+    private namedAreaRepository: INamedAreaRepository,
+    private auditService: OfficeLocationAuditService
+  ) {}
+
+  async execute(request: UpdateNamedAreaRequest): Promise<UpdateNamedAreaResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const existingArea = await this.namedAreaRepository.findById(request.id)
+      if (!existingArea) {
+        return {
+          success: false,
+          error: 'Area tidak ditemukan'
+        }
+      }
+
+      const name = request.name?.trim()
+      if (name && !await this.namedAreaRepository.isNameUnique(name, request.id)) {
+        return {
+          success: false,
+          error: 'Nama area sudah digunakan'
+        }
+      }
+
+      const area = await this.namedAreaRepository.update(request.id, {
+        name,
+        latitude: request.latitude,
+        longitude: request.longitude,
+        radiusMeters: request.radiusMeters,
+        isActive: request.isActive
+      })
+
+      // Log audit trail
+      await this.auditService.logNamedAreaChange(
+        'UPDATE',
+        area.id,
+        {
+          name: existingArea.name,
+          latitude: existingArea.latitude,
+          longitude: existingArea.longitude,
+          radiusMeters: existingArea.radiusMeters,
+          isActive: existingArea.isActive
+        },
+        {
+          name: area.name,
+          latitude: area.latitude,
+          longitude: area.longitude,
+          radiusMeters: area.radiusMeters,
+          isActive: area.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: area
+      }
+    } catch (error) {
+      console.error('Error updating named area:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memperbarui area'
+      }
+    }
+  }
+
+  private validateInput(request: UpdateNamedAreaRequest): { isValid: boolean; error?: string } {
+    if (!request.id || !request.adminUserId) {
+      return { isValid: false, error: 'ID area dan admin user ID wajib diisi' }
+    }
+
+    if (request.name !== undefined) {
+      if (request.name.trim().length === 0) {
+        return { isValid: false, error: 'Nama area wajib diisi' }
+      }
+
+      if (request.name.trim().length > 150) {
+        return { isValid: false, error: 'Nama area maksimal 150 karakter' }
+      }
+    }
+
+    if (request.latitude !== undefined && (typeof request.latitude !== 'number' || request.latitude < -90 || request.latitude > 90)) {
+      return { isValid: false, error: 'Latitude harus antara -90 dan 90' }
+    }
+
+    if (request.longitude !== undefined && (typeof request.longitude !== 'number' || request.longitude < -180 || request.longitude > 180)) {
+      return { isValid: false, error: 'Longitude harus antara -180 dan 180' }
+    }
+
+    if (request.radiusMeters !== undefined) {
+      if (!Number.isInteger(request.radiusMeters) ||
+          request.radiusMeters < MIN_NAMED_AREA_RADIUS_METERS ||
+          request.radiusMeters > MAX_NAMED_AREA_RADIUS_METERS) {
+        return {
+          isValid: false,
+          error: `Radius harus antara ${MIN_NAMED_AREA_RADIUS_METERS} dan ${MAX_NAMED_AREA_RADIUS_METERS} meter`
+        }
+      }
+    }
+
+    return { isValid: true }
+  }
+}
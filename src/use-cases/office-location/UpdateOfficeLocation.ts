@@ -5,7 +5,11 @@
 
 import { IOfficeLocationRepository, UpdateOfficeLocationData } from '@/domain/repositories/IOfficeLocationRepository'
 import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IOfficeLocationCache } from '@/domain/services/IOfficeLocationCache'
 import { OfficeLocationAuditService } from '@/infrastructure/services/OfficeLocationAuditService'
+import { generateKioskKey } from '@/infrastructure/services/KioskTokenService'
+import { KioskMode } from '@prisma/client'
+import { OfficeBoundary, parseBoundary } from '@/utils/geofence'
 
 export interface UpdateOfficeLocationRequest {
   id: string
@@ -15,6 +19,13 @@ export interface UpdateOfficeLocationRequest {
   latitude?: number
   longitude?: number
   radiusMeters?: number
+  boundary?: unknown // GeoJSON as in CreateOfficeLocation; null removes the boundary
+  boundaryBufferMeters?: number
+  toleranceMeters?: number
+  maxAccuracyMeters?: number
+  requirePhoto?: boolean
+  kioskMode?: KioskMode
+  regenerateKioskKey?: boolean // Invalidates the current kiosk URL and its QR codes
   isActive?: boolean
   adminUserId: string
   ipAddress?: string
@@ -31,6 +42,13 @@ export interface UpdateOfficeLocationResponse {
     latitude: number
     longitude: number
     radiusMeters: number
+    boundary?: OfficeBoundary
+    boundaryBufferMeters: number
+    toleranceMeters: number
+    maxAccuracyMeters: number
+    requirePhoto: boolean
+    kioskMode: KioskMode
+    kioskKey?: string // Admins need it to open the kiosk page
     isActive: boolean
     createdAt: Date
     updatedAt: Date
@@ -42,7 +60,8 @@ export class UpdateOfficeLocation {
   constructor(
     private officeLocationRepository: IOfficeLocationRepository,
     private locationValidationService: ILocationValidationService,
-    private auditService: OfficeLocationAuditService
+    private auditService: OfficeLocationAuditService,
+    private officeLocationCache: IOfficeLocationCache
   ) {}
 
   async execute(request: UpdateOfficeLocationRequest): Promise<UpdateOfficeLocationResponse> {
@@ -75,6 +94,21 @@ export class UpdateOfficeLocation {
         }
       }
 
+      // Parse the boundary if provided; null removes it
+      let boundary: OfficeBoundary | null | undefined
+      if (request.boundary === null) {
+        boundary = null
+      } else if (request.boundary !== undefined) {
+        const parsed = parseBoundary(request.boundary)
+        if (!parsed.boundary) {
+          return {
+            success: false,
+            error: parsed.error
+          }
+        }
+        boundary = parsed.boundary
+      }
+
       // Check if code is unique (if being updated)
       if (request.code && request.code !== existingLocation.code) {
         const isCodeUnique = await this.officeLocationRepository.isCodeUnique(request.code, request.id)
@@ -124,6 +158,36 @@ export class UpdateOfficeLocation {
         updateData.radiusMeters = request.radiusMeters
       }
       
+      if (boundary !== undefined) {
+        updateData.boundary = boundary
+      }
+
+      if (request.boundaryBufferMeters !== undefined) {
+        updateData.boundaryBufferMeters = request.boundaryBufferMeters
+      }
+
+      if (request.toleranceMeters !== undefined) {
+        updateData.toleranceMeters = request.toleranceMeters
+      }
+
+      if (request.maxAccuracyMeters !== undefined) {
+        updateData.maxAccuracyMeters = request.maxAccuracyMeters
+      }
+
+      if (request.requirePhoto !== undefined) {
+        updateData.requirePhoto = request.requirePhoto
+      }
+
+      if (request.kioskMode !== undefined) {
+        updateData.kioskMode = request.kioskMode
+      }
+
+      // A kiosk gets its key when first enabled
+      const kioskEnabled = (request.kioskMode ?? existingLocation.kioskMode) !== KioskMode.DISABLED
+      if (request.regenerateKioskKey || (kioskEnabled && !existingLocation.kioskKey)) {
+        updateData.kioskKey = generateKioskKey()
+      }
+
       if (request.isActive !== undefined) {
         updateData.isActive = request.isActive
       }
@@ -136,11 +200,18 @@ export class UpdateOfficeLocation {
         latitude: existingLocation.latitude,
         longitude: existingLocation.longitude,
         radiusMeters: existingLocation.radiusMeters,
+        boundary: existingLocation.boundary,
+        boundaryBufferMeters: existingLocation.boundaryBufferMeters,
+        toleranceMeters: existingLocation.toleranceMeters,
+        maxAccuracyMeters: existingLocation.maxAccuracyMeters,
+        requirePhoto: existingLocation.requirePhoto,
+        kioskMode: existingLocation.kioskMode,
         isActive: existingLocation.isActive
       }
 
       // Update the office location
       const updatedLocation = await this.officeLocationRepository.update(request.id, updateData)
+      this.officeLocationCache.invalidate()
 
       // Prepare new values for audit
       const newValues = {
@@ -150,6 +221,13 @@ export class UpdateOfficeLocation {
         latitude: updatedLocation.latitude,
         longitude: updatedLocation.longitude,
         radiusMeters: updatedLocation.radiusMeters,
+        boundary: updatedLocation.boundary,
+        boundaryBufferMeters: updatedLocation.boundaryBufferMeters,
+        toleranceMeters: updatedLocation.toleranceMeters,
+        maxAccuracyMeters: updatedLocation.maxAccuracyMeters,
+        requirePhoto: updatedLocation.requirePhoto,
+        kioskMode: updatedLocation.kioskMode,
+        kioskKeyRegenerated: !!updateData.kioskKey && !!existingLocation.kioskKey,
         isActive: updatedLocation.isActive
       }
 
@@ -173,6 +251,13 @@ export class UpdateOfficeLocation {
           latitude: updatedLocation.latitude,
           longitude: updatedLocation.longitude,
           radiusMeters: updatedLocation.radiusMeters,
+          boundary: updatedLocation.boundary,
+          boundaryBufferMeters: updatedLocation.boundaryBufferMeters,
+          toleranceMeters: updatedLocation.toleranceMeters,
+          maxAccuracyMeters: updatedLocation.maxAccuracyMeters,
+          requirePhoto: updatedLocation.requirePhoto,
+          kioskMode: updatedLocation.kioskMode,
+          kioskKey: updatedLocation.kioskKey,
           isActive: updatedLocation.isActive,
           createdAt: updatedLocation.createdAt,
           updatedAt: updatedLocation.updatedAt
@@ -232,6 +317,30 @@ export class UpdateOfficeLocation {
       return { isValid: false, error: 'Longitude harus berupa angka' }
     }
 
+    // Validate boundary buffer
+    if (request.boundaryBufferMeters !== undefined) {
+      if (typeof request.boundaryBufferMeters !== 'number' || request.boundaryBufferMeters < 0 || request.boundaryBufferMeters > 200) {
+        return { isValid: false, error: 'Toleransi batas area harus antara 0-200 meter' }
+      }
+    }
+
+    // Validate GPS tolerance and accuracy limit
+    if (request.toleranceMeters !== undefined) {
+      if (typeof request.toleranceMeters !== 'number' || request.toleranceMeters < 0 || request.toleranceMeters > 500) {
+        return { isValid: false, error: 'Toleransi GPS harus antara 0-500 meter' }
+      }
+    }
+
+    if (request.maxAccuracyMeters !== undefined) {
+      if (typeof request.maxAccuracyMeters !== 'number' || request.maxAccuracyMeters < 10 || request.maxAccuracyMeters > 500) {
+        return { isValid: false, error: 'Batas akurasi GPS harus antara 10-500 meter' }
+      }
+    }
+
+    if (request.kioskMode !== undefined && !Object.values(KioskMode).includes(request.kioskMode)) {
+      return { isValid: false, error: 'Mode kiosk tidak valid' }
+    }
+
     // Validate radius if provided
     if (request.radiusMeters !== undefined) {
       if (typeof request.radiusMeters !== 'number' || request.radiusMeters < 10 || request.radiusMeters > 1000) {
@@ -0,0 +1,57 @@
+// ============================================================================
+// CANCEL OVERTIME REQUEST USE CASE
+// src/use-cases/overtime/CancelOvertimeRequest.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestWithDetails
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface CancelOvertimeRequestRequest {
+  overtimeRequestId: string
+  userId: string // Only the employee or the supervisor who filed it can cancel
+}
+
+export interface CancelOvertimeRequestResponse {
+  success: boolean
+  data?: OvertimeRequestWithDetails
+  error?: string
+}
+
+export class CancelOvertimeRequest {
+  constructor(private overtimeRequestRepository: IOvertimeRequestRepository) {}
+
+  async execute(request: CancelOvertimeRequestRequest): Promise<CancelOvertimeRequestResponse> {
+    try {
+      const overtime = await this.overtimeRequestRepository.findById(request.overtimeRequestId)
+      if (!overtime || (overtime.userId !== request.userId && overtime.submittedById !== request.userId)) {
+        return {
+          success: false,
+          error: 'Pengajuan lembur tidak ditemukan'
+        }
+      }
+
+      if (overtime.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Hanya pengajuan yang menunggu persetujuan yang dapat dibatalkan'
+        }
+      }
+
+      const cancelled = await this.overtimeRequestRepository.cancel(overtime.id)
+
+      return {
+        success: true,
+        data: cancelled
+      }
+    } catch (error) {
+      console.error('Error cancelling overtime request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membatalkan pengajuan lembur'
+      }
+    }
+  }
+}
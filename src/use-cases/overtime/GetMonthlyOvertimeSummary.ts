@@ -0,0 +1,135 @@
+// ============================================================================
+// GET MONTHLY OVERTIME SUMMARY USE CASE
+// src/use-cases/overtime/GetMonthlyOvertimeSummary.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestFilters
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface GetMonthlyOvertimeSummaryRequest {
+  year: number
+  month: number // 1-12
+  departmentId?: string
+}
+
+export interface EmployeeOvertimeSummary {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  requestCount: number
+  workingDayMinutes: number // Overtime on scheduled working days
+  nonWorkingDayMinutes: number // Overtime on weekends, holidays and cuti bersama
+  totalMinutes: number
+}
+
+export interface GetMonthlyOvertimeSummaryResponse {
+  success: boolean
+  data?: {
+    year: number
+    month: number
+    employees: EmployeeOvertimeSummary[]
+    totals: {
+      employeeCount: number
+      requestCount: number
+      workingDayMinutes: number
+      nonWorkingDayMinutes: number
+      totalMinutes: number
+    }
+  }
+  error?: string
+}
+
+export class GetMonthlyOvertimeSummary {
+  constructor(private overtimeRequestRepository: IOvertimeRequestRepository) {}
+
+  async execute(request: GetMonthlyOvertimeSummaryRequest): Promise<GetMonthlyOvertimeSummaryResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Overtime dates are stored as UTC calendar dates
+      const filters: OvertimeRequestFilters = {
+        status: RequestStatus.APPROVED,
+        startDate: new Date(Date.UTC(request.year, request.month - 1, 1)),
+        endDate: new Date(Date.UTC(request.year, request.month, 0)),
+        ...(request.departmentId && { departmentId: request.departmentId })
+      }
+
+      const total = await this.overtimeRequestRepository.countMany(filters)
+      const overtimeRequests = total > 0
+        ? await this.overtimeRequestRepository.findMany(filters, total)
+        : []
+
+      const byEmployee = new Map<string, EmployeeOvertimeSummary>()
+      for (const overtime of overtimeRequests) {
+        const summary = byEmployee.get(overtime.userId) || {
+          userId: overtime.userId,
+          name: overtime.user.name,
+          nip: overtime.user.nip,
+          departmentName: overtime.user.department?.name,
+          requestCount: 0,
+          workingDayMinutes: 0,
+          nonWorkingDayMinutes: 0,
+          totalMinutes: 0
+        }
+
+        const minutes = overtime.approvedMinutes ?? 0
+        summary.requestCount += 1
+        summary.totalMinutes += minutes
+        if (overtime.isWorkingDay) {
+          summary.workingDayMinutes += minutes
+        } else {
+          summary.nonWorkingDayMinutes += minutes
+        }
+
+        byEmployee.set(overtime.userId, summary)
+      }
+
+      const employees = [...byEmployee.values()]
+        .sort((a, b) => (a.name || '').localeCompare(b.name || ''))
+
+      return {
+        success: true,
+        data: {
+          year: request.year,
+          month: request.month,
+          employees,
+          totals: {
+            employeeCount: employees.length,
+            requestCount: overtimeRequests.length,
+            workingDayMinutes: employees.reduce((sum, employee) => sum + employee.workingDayMinutes, 0),
+            nonWorkingDayMinutes: employees.reduce((sum, employee) => sum + employee.nonWorkingDayMinutes, 0),
+            totalMinutes: employees.reduce((sum, employee) => sum + employee.totalMinutes, 0)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting monthly overtime summary:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil rekap lembur'
+      }
+    }
+  }
+
+  private validateInput(request: GetMonthlyOvertimeSummaryRequest): { isValid: boolean; error?: string } {
+    if (!Number.isInteger(request.year) || request.year < 2000 || request.year > 2100) {
+      return { isValid: false, error: 'Tahun tidak valid' }
+    }
+
+    if (!Number.isInteger(request.month) || request.month < 1 || request.month > 12) {
+      return { isValid: false, error: 'Bulan tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
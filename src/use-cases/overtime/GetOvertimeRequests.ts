@@ -0,0 +1,84 @@
+// ============================================================================
+// GET OVERTIME REQUESTS USE CASE
+// src/use-cases/overtime/GetOvertimeRequests.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestFilters,
+  OvertimeRequestWithDetails
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface GetOvertimeRequestsRequest {
+  requesterId?: string // Requests of this user or filed by them
+  currentApproverId?: string // Requests waiting for this approver
+  status?: RequestStatus
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetOvertimeRequestsResponse {
+  success: boolean
+  data?: {
+    overtimeRequests: OvertimeRequestWithDetails[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetOvertimeRequests {
+  constructor(private overtimeRequestRepository: IOvertimeRequestRepository) {}
+
+  async execute(request: GetOvertimeRequestsRequest): Promise<GetOvertimeRequestsResponse> {
+    try {
+      if (request.status && !Object.values(RequestStatus).includes(request.status)) {
+        return {
+          success: false,
+          error: 'Status pengajuan tidak valid'
+        }
+      }
+
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 10, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: OvertimeRequestFilters = {
+        ...(request.requesterId && { requesterId: request.requesterId }),
+        ...(request.currentApproverId && { currentApproverId: request.currentApproverId }),
+        ...(request.status && { status: request.status })
+      }
+
+      const [overtimeRequests, total] = await Promise.all([
+        this.overtimeRequestRepository.findMany(filters, limit, offset),
+        this.overtimeRequestRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          overtimeRequests,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting overtime requests:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data pengajuan lembur'
+      }
+    }
+  }
+}
@@ -0,0 +1,40 @@
+// ============================================================================
+// GET OVERTIME TEAM MEMBERS USE CASE
+// src/use-cases/overtime/GetOvertimeTeamMembers.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeTeamMember
+} from '@/domain/repositories/IOvertimeRequestRepository'
+
+export interface GetOvertimeTeamMembersResponse {
+  success: boolean
+  data?: OvertimeTeamMember[]
+  error?: string
+}
+
+export class GetOvertimeTeamMembers {
+  constructor(private overtimeRequestRepository: IOvertimeRequestRepository) {}
+
+  /**
+   * Employees the given user may file overtime for as their department head
+   * Empty for users who do not head a department
+   */
+  async execute(userId: string): Promise<GetOvertimeTeamMembersResponse> {
+    try {
+      const members = await this.overtimeRequestRepository.findTeamMembers(userId)
+
+      return {
+        success: true,
+        data: members
+      }
+    } catch (error) {
+      console.error('Error getting overtime team members:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data anggota unit'
+      }
+    }
+  }
+}
@@ -0,0 +1,179 @@
+// ============================================================================
+// REVIEW OVERTIME REQUEST USE CASE
+// src/use-cases/overtime/ReviewOvertimeRequest.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestWithDetails
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { ApprovalStatus, RequestStatus } from '@prisma/client'
+
+// Number of superiors (nearest department heads first) that must approve an overtime request
+const REQUIRED_APPROVAL_LEVELS = 1
+
+export interface ReviewOvertimeRequestRequest {
+  overtimeRequestId: string
+  approverId: string
+  action: 'APPROVE' | 'REJECT'
+  comments?: string // Required when rejecting
+}
+
+export interface ReviewOvertimeRequestResponse {
+  success: boolean
+  data?: OvertimeRequestWithDetails
+  error?: string
+}
+
+export class ReviewOvertimeRequest {
+  constructor(
+    private overtimeRequestRepository: IOvertimeRequestRepository,
+    private attendanceRepository: IAttendanceRepository
+  ) {}
+
+  async execute(request: ReviewOvertimeRequestRequest): Promise<ReviewOvertimeRequestResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const overtime = await this.overtimeRequestRepository.findById(request.overtimeRequestId)
+      if (!overtime) {
+        return {
+          success: false,
+          error: 'Pengajuan lembur tidak ditemukan'
+        }
+      }
+
+      if (overtime.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Pengajuan lembur sudah diproses'
+        }
+      }
+
+      if (overtime.currentApproverId !== request.approverId) {
+        return {
+          success: false,
+          error: 'Anda bukan penyetuju untuk pengajuan lembur ini'
+        }
+      }
+
+      if (request.action === 'REJECT') {
+        const rejected = await this.overtimeRequestRepository.rejectStep(
+          overtime.id,
+          request.approverId,
+          (request.comments || '').trim()
+        )
+
+        console.log(`❌ Overtime request rejected: ${overtime.id}`)
+        return {
+          success: true,
+          data: rejected
+        }
+      }
+
+      const nextApproverId = await this.findNextApprover(overtime)
+      if (nextApproverId) {
+        const forwarded = await this.overtimeRequestRepository.approveStep(
+          overtime.id,
+          request.approverId,
+          request.comments?.trim() || undefined,
+          nextApproverId
+        )
+
+        console.log(`➡️ Overtime request ${overtime.id} forwarded to next approver`)
+        return {
+          success: true,
+          data: forwarded
+        }
+      }
+
+      // The attendance may have been corrected since submission, so the approved
+      // minutes are re-validated against the check-in/check-out recorded now
+      const approvedMinutes = await this.calculateApprovedMinutes(overtime)
+      if (approvedMinutes <= 0) {
+        return {
+          success: false,
+          error: 'Absen masuk/pulang pada tanggal tersebut tidak lagi mencakup rentang lembur. Tolak pengajuan ini.'
+        }
+      }
+
+      const approved = await this.overtimeRequestRepository.approveStep(
+        overtime.id,
+        request.approverId,
+        request.comments?.trim() || undefined,
+        undefined,
+        approvedMinutes
+      )
+
+      console.log(`✅ Overtime request approved: ${overtime.id} (${approvedMinutes} minutes)`)
+      return {
+        success: true,
+        data: approved
+      }
+    } catch (error) {
+      console.error('Error reviewing overtime request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memproses pengajuan lembur'
+      }
+    }
+  }
+
+  private async findNextApprover(overtime: OvertimeRequestWithDetails): Promise<string | undefined> {
+    // The current (pending) step counts as approved once this review completes
+    const approvedLevels = overtime.approvals.filter(approval => approval.status === ApprovalStatus.APPROVED).length + 1
+    if (approvedLevels >= REQUIRED_APPROVAL_LEVELS) {
+      return undefined
+    }
+
+    const chain = await this.overtimeRequestRepository.findApproverChain(overtime.userId)
+    const next = chain.find(approver =>
+      approver.id !== overtime.submittedById &&
+      !overtime.approvals.some(approval => approval.approverId === approver.id)
+    )
+    return next?.id
+  }
+
+  private async calculateApprovedMinutes(overtime: OvertimeRequestWithDetails): Promise<number> {
+    const attendance = await this.attendanceRepository.findByUserAndDate(overtime.userId, overtime.overtimeDate)
+    if (!attendance?.checkInTime || !attendance.checkOutTime) {
+      return 0
+    }
+
+    // Part of the requested range that lies within the recorded attendance
+    const start = Math.max(overtime.startTime.getTime(), attendance.checkInTime.getTime())
+    const end = Math.min(overtime.endTime.getTime(), attendance.checkOutTime.getTime())
+    return Math.max(Math.round((end - start) / (60 * 1000)), 0)
+  }
+
+  private validateInput(request: ReviewOvertimeRequestRequest): { isValid: boolean; error?: string } {
+    if (!request.overtimeRequestId) {
+      return { isValid: false, error: 'ID pengajuan lembur wajib diisi' }
+    }
+
+    if (!request.approverId) {
+      return { isValid: false, error: 'ID penyetuju wajib diisi' }
+    }
+
+    if (request.action !== 'APPROVE' && request.action !== 'REJECT') {
+      return { isValid: false, error: 'Aksi harus APPROVE atau REJECT' }
+    }
+
+    if (request.action === 'REJECT' && (!request.comments || request.comments.trim().length === 0)) {
+      return { isValid: false, error: 'Alasan penolakan wajib diisi' }
+    }
+
+    if (request.comments && request.comments.length > 500) {
+      return { isValid: false, error: 'Catatan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
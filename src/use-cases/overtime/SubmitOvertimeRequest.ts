@@ -0,0 +1,212 @@
+// ============================================================================
+// SUBMIT OVERTIME REQUEST USE CASE
+// src/use-cases/overtime/SubmitOvertimeRequest.ts
+// ============================================================================
+
+import {
+  IOvertimeRequestRepository,
+  OvertimeRequestWithDetails
+} from '@/domain/repositories/IOvertimeRequestRepository'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import {
+  formatMinutesAsTime,
+  getCalendarDate,
+  getMinutesOfDay,
+  getZonedDateTime,
+  parseTimeToMinutes
+} from '@/utils/dateUtils'
+
+// Overtime is filed after the fact, once the check-out is recorded
+export const MAX_OVERTIME_AGE_DAYS = 30
+export const MIN_OVERTIME_MINUTES = 30
+
+export interface SubmitOvertimeRequestRequest {
+  userId: string // Employee who worked the overtime
+  submittedById: string // The employee themselves or one of their department heads
+  overtimeDate: string // YYYY-MM-DD, the attendance date the overtime belongs to
+  startTime: string // HH:mm
+  endTime: string // HH:mm; earlier than the start means the next day
+  reason: string
+}
+
+export interface SubmitOvertimeRequestResponse {
+  success: boolean
+  data?: OvertimeRequestWithDetails
+  error?: string
+}
+
+export class SubmitOvertimeRequest {
+  constructor(
+    private overtimeRequestRepository: IOvertimeRequestRepository,
+    private attendanceRepository: IAttendanceRepository,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: SubmitOvertimeRequestRequest): Promise<SubmitOvertimeRequestResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const approverChain = await this.overtimeRequestRepository.findApproverChain(request.userId)
+
+      // Supervisors may file for employees below them in the department hierarchy
+      if (request.submittedById !== request.userId &&
+          !approverChain.some(approver => approver.id === request.submittedById)) {
+        return {
+          success: false,
+          error: 'Anda hanya dapat mengajukan lembur untuk pegawai di unit yang Anda pimpin'
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const overtimeDate = new Date(`${request.overtimeDate}T00:00:00.000Z`)
+      const today = getCalendarDate(new Date(), timeZone)
+
+      if (overtimeDate > today) {
+        return {
+          success: false,
+          error: 'Lembur tidak dapat diajukan untuk tanggal yang akan datang'
+        }
+      }
+
+      const ageDays = Math.round((today.getTime() - overtimeDate.getTime()) / (24 * 60 * 60 * 1000))
+      if (ageDays > MAX_OVERTIME_AGE_DAYS) {
+        return {
+          success: false,
+          error: `Lembur hanya dapat diajukan paling lambat ${MAX_OVERTIME_AGE_DAYS} hari setelah tanggal lembur`
+        }
+      }
+
+      // Resolve the wall-clock times to moments in the institution timezone
+      const startMinutes = parseTimeToMinutes(request.startTime) ?? 0
+      const endMinutes = parseTimeToMinutes(request.endTime) ?? 0
+      const startTime = getZonedDateTime(overtimeDate, startMinutes, timeZone)
+      const endTime = getZonedDateTime(overtimeDate, endMinutes + (endMinutes <= startMinutes ? 24 * 60 : 0), timeZone)
+      const requestedMinutes = Math.round((endTime.getTime() - startTime.getTime()) / (60 * 1000))
+
+      if (requestedMinutes < MIN_OVERTIME_MINUTES) {
+        return {
+          success: false,
+          error: `Durasi lembur minimal ${MIN_OVERTIME_MINUTES} menit`
+        }
+      }
+
+      // The overtime must have actually been worked
+      const attendance = await this.attendanceRepository.findByUserAndDate(request.userId, overtimeDate)
+      if (!attendance?.checkInTime || !attendance.checkOutTime) {
+        return {
+          success: false,
+          error: 'Lembur hanya dapat diajukan untuk tanggal dengan absen masuk dan absen pulang yang tercatat'
+        }
+      }
+
+      if (startTime < attendance.checkInTime || endTime > attendance.checkOutTime) {
+        const checkIn = formatMinutesAsTime(getMinutesOfDay(attendance.checkInTime, timeZone))
+        const checkOut = formatMinutesAsTime(getMinutesOfDay(attendance.checkOutTime, timeZone))
+        return {
+          success: false,
+          error: `Rentang lembur harus berada di antara jam masuk (${checkIn}) dan jam pulang (${checkOut}) yang tercatat`
+        }
+      }
+
+      // On working days only the time outside the scheduled hours counts as overtime
+      const schedule = await this.workScheduleService.resolveSchedule(request.userId, overtimeDate)
+      if (schedule.isWorkingDay) {
+        const scheduledStart = getZonedDateTime(overtimeDate, parseTimeToMinutes(schedule.startTime) ?? 0, timeZone)
+        const scheduledEnd = getZonedDateTime(
+          overtimeDate,
+          (parseTimeToMinutes(schedule.endTime) ?? 0) + (schedule.isOvernight ? 24 * 60 : 0),
+          timeZone
+        )
+
+        if (startTime < scheduledEnd && endTime > scheduledStart) {
+          return {
+            success: false,
+            error: `Rentang lembur tidak boleh beririsan dengan jam kerja terjadwal (${schedule.startTime}-${schedule.endTime})`
+          }
+        }
+      }
+
+      if (await this.overtimeRequestRepository.hasOverlappingRequest(request.userId, startTime, endTime)) {
+        return {
+          success: false,
+          error: 'Sudah ada pengajuan lembur yang menunggu persetujuan atau disetujui pada rentang waktu tersebut'
+        }
+      }
+
+      // Routed to the nearest department head other than the one who filed it
+      const approver = approverChain.find(candidate => candidate.id !== request.submittedById)
+      if (!approver) {
+        return {
+          success: false,
+          error: 'Tidak ditemukan atasan yang dapat menyetujui pengajuan lembur. Hubungi admin kepegawaian.'
+        }
+      }
+
+      const overtime = await this.overtimeRequestRepository.create({
+        userId: request.userId,
+        submittedById: request.submittedById,
+        attendanceId: attendance.id,
+        overtimeDate,
+        startTime,
+        endTime,
+        isWorkingDay: schedule.isWorkingDay,
+        requestedMinutes,
+        reason: request.reason.trim(),
+        approverId: approver.id
+      })
+
+      console.log(`✅ Overtime request submitted: ${overtime.id} for ${request.overtimeDate}`)
+
+      return {
+        success: true,
+        data: overtime
+      }
+    } catch (error) {
+      console.error('Error submitting overtime request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengajukan lembur'
+      }
+    }
+  }
+
+  private validateInput(request: SubmitOvertimeRequestRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'Pegawai wajib dipilih' }
+    }
+
+    if (!request.submittedById) {
+      return { isValid: false, error: 'ID pengaju wajib diisi' }
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.overtimeDate || '') ||
+        isNaN(new Date(`${request.overtimeDate}T00:00:00.000Z`).getTime())) {
+      return { isValid: false, error: 'Tanggal lembur wajib diisi dengan format YYYY-MM-DD' }
+    }
+
+    if (parseTimeToMinutes(request.startTime) === null) {
+      return { isValid: false, error: 'Jam mulai lembur wajib diisi dengan format HH:mm' }
+    }
+
+    if (parseTimeToMinutes(request.endTime) === null) {
+      return { isValid: false, error: 'Jam selesai lembur wajib diisi dengan format HH:mm' }
+    }
+
+    if (!request.reason || request.reason.trim().length < 10) {
+      return { isValid: false, error: 'Uraian pekerjaan lembur wajib diisi minimal 10 karakter' }
+    }
+
+    if (request.reason.trim().length > 500) {
+      return { isValid: false, error: 'Uraian pekerjaan lembur maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,57 @@
+// ============================================================================
+// CANCEL WORK FROM HOME REQUEST USE CASE
+// src/use-cases/remote-work/CancelWorkFromHomeRequest.ts
+// ============================================================================
+
+import {
+  IWorkFromHomeRequestRepository,
+  WorkFromHomeRequestWithDetails
+} from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface CancelWorkFromHomeRequestRequest {
+  workFromHomeRequestId: string
+  userId: string // Only the employee who submitted it can cancel
+}
+
+export interface CancelWorkFromHomeRequestResponse {
+  success: boolean
+  data?: WorkFromHomeRequestWithDetails
+  error?: string
+}
+
+export class CancelWorkFromHomeRequest {
+  constructor(private workFromHomeRequestRepository: IWorkFromHomeRequestRepository) {}
+
+  async execute(request: CancelWorkFromHomeRequestRequest): Promise<CancelWorkFromHomeRequestResponse> {
+    try {
+      const wfhRequest = await this.workFromHomeRequestRepository.findById(request.workFromHomeRequestId)
+      if (!wfhRequest || wfhRequest.userId !== request.userId) {
+        return {
+          success: false,
+          error: 'Pengajuan WFH tidak ditemukan'
+        }
+      }
+
+      if (wfhRequest.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Hanya pengajuan yang menunggu persetujuan yang dapat dibatalkan'
+        }
+      }
+
+      const cancelled = await this.workFromHomeRequestRepository.cancel(wfhRequest.id)
+
+      return {
+        success: true,
+        data: cancelled
+      }
+    } catch (error) {
+      console.error('Error cancelling work from home request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membatalkan pengajuan WFH'
+      }
+    }
+  }
+}
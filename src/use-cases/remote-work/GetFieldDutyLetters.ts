@@ -0,0 +1,67 @@
+// ============================================================================
+// GET FIELD DUTY LETTERS USE CASE
+// src/use-cases/remote-work/GetFieldDutyLetters.ts
+// ============================================================================
+
+import { IWorkLetterRepository, FieldDutyLetterWithUser } from '@/domain/repositories/IWorkLetterRepository'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+export interface GetFieldDutyLettersRequest {
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetFieldDutyLettersResponse {
+  success: boolean
+  data?: {
+    workLetters: FieldDutyLetterWithUser[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetFieldDutyLetters {
+  constructor(private workLetterRepository: IWorkLetterRepository) {}
+
+  async execute(request: GetFieldDutyLettersRequest): Promise<GetFieldDutyLettersResponse> {
+    try {
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 20, 1), 100)
+      const offset = (page - 1) * limit
+
+      // Only ongoing and upcoming letters still need a destination
+      const today = getCalendarDate(new Date())
+
+      const [workLetters, total] = await Promise.all([
+        this.workLetterRepository.findFieldDutyLetters(today, limit, offset),
+        this.workLetterRepository.countFieldDutyLetters(today)
+      ])
+
+      return {
+        success: true,
+        data: {
+          workLetters,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting field duty letters:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data dinas luar'
+      }
+    }
+  }
+}
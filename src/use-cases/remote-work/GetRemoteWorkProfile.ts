@@ -0,0 +1,42 @@
+// ============================================================================
+// GET REMOTE WORK PROFILE USE CASE
+// src/use-cases/remote-work/GetRemoteWorkProfile.ts
+// ============================================================================
+
+import {
+  IRemoteWorkProfileRepository,
+  RemoteWorkProfile
+} from '@/domain/repositories/IRemoteWorkProfileRepository'
+
+export interface GetRemoteWorkProfileResponse {
+  success: boolean
+  data?: RemoteWorkProfile
+  error?: string
+}
+
+export class GetRemoteWorkProfile {
+  constructor(private remoteWorkProfileRepository: IRemoteWorkProfileRepository) {}
+
+  async execute(userId: string): Promise<GetRemoteWorkProfileResponse> {
+    try {
+      const profile = await this.remoteWorkProfileRepository.findByUserId(userId)
+      if (!profile) {
+        return {
+          success: false,
+          error: 'Pegawai tidak ditemukan'
+        }
+      }
+
+      return {
+        success: true,
+        data: profile
+      }
+    } catch (error) {
+      console.error('Error getting remote work profile:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data WFH'
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// ============================================================================
+// GET REMOTE WORK PROFILES USE CASE
+// src/use-cases/remote-work/GetRemoteWorkProfiles.ts
+// ============================================================================
+
+import {
+  IRemoteWorkProfileRepository,
+  RemoteWorkProfile,
+  RemoteWorkProfileFilters
+} from '@/domain/repositories/IRemoteWorkProfileRepository'
+
+export interface GetRemoteWorkProfilesRequest {
+  search?: string
+  departmentId?: string
+  awaitingApproval?: boolean
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetRemoteWorkProfilesResponse {
+  success: boolean
+  data?: {
+    profiles: RemoteWorkProfile[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetRemoteWorkProfiles {
+  constructor(private remoteWorkProfileRepository: IRemoteWorkProfileRepository) {}
+
+  async execute(request: GetRemoteWorkProfilesRequest): Promise<GetRemoteWorkProfilesResponse> {
+    try {
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 20, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: RemoteWorkProfileFilters = {
+        ...(request.search?.trim() && { search: request.search.trim() }),
+        ...(request.departmentId && { departmentId: request.departmentId }),
+        ...(request.awaitingApproval && { awaitingApproval: true })
+      }
+
+      const [profiles, total] = await Promise.all([
+        this.remoteWorkProfileRepository.findMany(filters, limit, offset),
+        this.remoteWorkProfileRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          profiles,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting remote work profiles:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data lokasi WFH'
+      }
+    }
+  }
+}
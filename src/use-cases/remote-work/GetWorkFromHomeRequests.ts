@@ -0,0 +1,84 @@
+// ============================================================================
+// GET WORK FROM HOME REQUESTS USE CASE
+// src/use-cases/remote-work/GetWorkFromHomeRequests.ts
+// ============================================================================
+
+import {
+  IWorkFromHomeRequestRepository,
+  WorkFromHomeRequestFilters,
+  WorkFromHomeRequestWithDetails
+} from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { RequestStatus } from '@prisma/client'
+
+export interface GetWorkFromHomeRequestsRequest {
+  userId?: string // Requests of this user
+  currentApproverId?: string // Requests waiting for this approver
+  status?: RequestStatus
+  pagination?: {
+    page?: number
+    limit?: number
+  }
+}
+
+export interface GetWorkFromHomeRequestsResponse {
+  success: boolean
+  data?: {
+    workFromHomeRequests: WorkFromHomeRequestWithDetails[]
+    pagination: {
+      total: number
+      page: number
+      limit: number
+      totalPages: number
+    }
+  }
+  error?: string
+}
+
+export class GetWorkFromHomeRequests {
+  constructor(private workFromHomeRequestRepository: IWorkFromHomeRequestRepository) {}
+
+  async execute(request: GetWorkFromHomeRequestsRequest): Promise<GetWorkFromHomeRequestsResponse> {
+    try {
+      if (request.status && !Object.values(RequestStatus).includes(request.status)) {
+        return {
+          success: false,
+          error: 'Status pengajuan tidak valid'
+        }
+      }
+
+      const page = Math.max(request.pagination?.page || 1, 1)
+      const limit = Math.min(Math.max(request.pagination?.limit || 10, 1), 100)
+      const offset = (page - 1) * limit
+
+      const filters: WorkFromHomeRequestFilters = {
+        ...(request.userId && { userId: request.userId }),
+        ...(request.currentApproverId && { currentApproverId: request.currentApproverId }),
+        ...(request.status && { status: request.status })
+      }
+
+      const [workFromHomeRequests, total] = await Promise.all([
+        this.workFromHomeRequestRepository.findMany(filters, limit, offset),
+        this.workFromHomeRequestRepository.countMany(filters)
+      ])
+
+      return {
+        success: true,
+        data: {
+          workFromHomeRequests,
+          pagination: {
+            total,
+            page,
+            limit,
+            totalPages: Math.ceil(total / limit)
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Error getting work from home requests:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data pengajuan WFH'
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+// ============================================================================
+// PROPOSE HOME LOCATION USE CASE
+// src/use-cases/remote-work/ProposeHomeLocation.ts
+// ============================================================================
+
+import {
+  IRemoteWorkProfileRepository,
+  RemoteWorkProfile
+} from '@/domain/repositories/IRemoteWorkProfileRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+
+// A home location is only as precise as the fix it was taken from
+const MAX_PROPOSAL_ACCURACY_METERS = 50
+
+export interface ProposeHomeLocationRequest {
+  userId: string
+  latitude: number
+  longitude: number
+  accuracyMeters?: number // Accuracy reported by the device
+}
+
+export interface ProposeHomeLocationResponse {
+  success: boolean
+  data?: RemoteWorkProfile
+  error?: string
+}
+
+export class ProposeHomeLocation {
+  constructor(
+    private remoteWorkProfileRepository: IRemoteWorkProfileRepository,
+    private locationValidationService: ILocationValidationService
+  ) {}
+
+  async execute(request: ProposeHomeLocationRequest): Promise<ProposeHomeLocationResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // The employee's own location always waits for an admin to approve it
+      const profile = await this.remoteWorkProfileRepository.update(request.userId, {
+        homeLatitude: request.latitude,
+        homeLongitude: request.longitude,
+        homeLocationApprovedAt: null,
+        homeLocationApprovedById: null
+      })
+
+      console.log(`🏠 Home location proposed by user ${request.userId}`)
+
+      return {
+        success: true,
+        data: profile
+      }
+    } catch (error) {
+      console.error('Error proposing home location:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengajukan lokasi rumah'
+      }
+    }
+  }
+
+  private validateInput(request: ProposeHomeLocationRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (typeof request.latitude !== 'number' || typeof request.longitude !== 'number' ||
+        !this.locationValidationService.validateCoordinateFormat(request.latitude, request.longitude)) {
+      return { isValid: false, error: 'Format koordinat tidak valid' }
+    }
+
+    if (request.accuracyMeters !== undefined &&
+        (typeof request.accuracyMeters !== 'number' || request.accuracyMeters < 0)) {
+      return { isValid: false, error: 'Akurasi lokasi tidak valid' }
+    }
+
+    if (request.accuracyMeters !== undefined && request.accuracyMeters > MAX_PROPOSAL_ACCURACY_METERS) {
+      return {
+        isValid: false,
+        error: `Sinyal GPS kurang akurat (±${Math.round(request.accuracyMeters)}m, maksimal ±${MAX_PROPOSAL_ACCURACY_METERS}m). Ambil lokasi dari dalam rumah dekat jendela, lalu coba lagi.`
+      }
+    }
+
+    return { isValid: true }
+  }
+}
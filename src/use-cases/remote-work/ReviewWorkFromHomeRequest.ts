@@ -0,0 +1,136 @@
+// ============================================================================
+// REVIEW WORK FROM HOME REQUEST USE CASE
+// src/use-cases/remote-work/ReviewWorkFromHomeRequest.ts
+// ============================================================================
+
+import {
+  IWorkFromHomeRequestRepository,
+  WorkFromHomeRequestWithDetails
+} from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { ApprovalStatus, RequestStatus } from '@prisma/client'
+
+// Number of superiors (nearest department heads first) that must approve a WFH request
+const REQUIRED_APPROVAL_LEVELS = 1
+
+export interface ReviewWorkFromHomeRequestRequest {
+  workFromHomeRequestId: string
+  approverId: string
+  action: 'APPROVE' | 'REJECT'
+  comments?: string // Required when rejecting
+}
+
+export interface ReviewWorkFromHomeRequestResponse {
+  success: boolean
+  data?: WorkFromHomeRequestWithDetails
+  error?: string
+}
+
+export class ReviewWorkFromHomeRequest {
+  constructor(private workFromHomeRequestRepository: IWorkFromHomeRequestRepository) {}
+
+  async execute(request: ReviewWorkFromHomeRequestRequest): Promise<ReviewWorkFromHomeRequestResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const wfhRequest = await this.workFromHomeRequestRepository.findById(request.workFromHomeRequestId)
+      if (!wfhRequest) {
+        return {
+          success: false,
+          error: 'Pengajuan WFH tidak ditemukan'
+        }
+      }
+
+      if (wfhRequest.status !== RequestStatus.PENDING) {
+        return {
+          success: false,
+          error: 'Pengajuan WFH sudah diproses'
+        }
+      }
+
+      if (wfhRequest.currentApproverId !== request.approverId) {
+        return {
+          success: false,
+          error: 'Anda bukan penyetuju untuk pengajuan WFH ini'
+        }
+      }
+
+      if (request.action === 'REJECT') {
+        const rejected = await this.workFromHomeRequestRepository.rejectStep(
+          wfhRequest.id,
+          request.approverId,
+          (request.comments || '').trim()
+        )
+
+        console.log(`❌ Work from home request rejected: ${wfhRequest.id}`)
+        return {
+          success: true,
+          data: rejected
+        }
+      }
+
+      const nextApproverId = await this.findNextApprover(wfhRequest)
+      const approved = await this.workFromHomeRequestRepository.approveStep(
+        wfhRequest.id,
+        request.approverId,
+        request.comments?.trim() || undefined,
+        nextApproverId
+      )
+
+      console.log(nextApproverId
+        ? `➡️ Work from home request ${wfhRequest.id} forwarded to next approver`
+        : `✅ Work from home request approved: ${wfhRequest.id}`)
+      return {
+        success: true,
+        data: approved
+      }
+    } catch (error) {
+      console.error('Error reviewing work from home request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memproses pengajuan WFH'
+      }
+    }
+  }
+
+  private async findNextApprover(wfhRequest: WorkFromHomeRequestWithDetails): Promise<string | undefined> {
+    // The current (pending) step counts as approved once this review completes
+    const approvedLevels = wfhRequest.approvals.filter(approval => approval.status === ApprovalStatus.APPROVED).length + 1
+    if (approvedLevels >= REQUIRED_APPROVAL_LEVELS) {
+      return undefined
+    }
+
+    const chain = await this.workFromHomeRequestRepository.findApproverChain(wfhRequest.userId)
+    const next = chain.find(approver => !wfhRequest.approvals.some(approval => approval.approverId === approver.id))
+    return next?.id
+  }
+
+  private validateInput(request: ReviewWorkFromHomeRequestRequest): { isValid: boolean; error?: string } {
+    if (!request.workFromHomeRequestId) {
+      return { isValid: false, error: 'ID pengajuan WFH wajib diisi' }
+    }
+
+    if (!request.approverId) {
+      return { isValid: false, error: 'ID penyetuju wajib diisi' }
+    }
+
+    if (request.action !== 'APPROVE' && request.action !== 'REJECT') {
+      return { isValid: false, error: 'Aksi harus APPROVE atau REJECT' }
+    }
+
+    if (request.action === 'REJECT' && (!request.comments || request.comments.trim().length === 0)) {
+      return { isValid: false, error: 'Alasan penolakan wajib diisi' }
+    }
+
+    if (request.comments && request.comments.length > 500) {
+      return { isValid: false, error: 'Catatan maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
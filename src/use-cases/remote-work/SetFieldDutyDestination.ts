@@ -0,0 +1,110 @@
+// ============================================================================
+// SET FIELD DUTY DESTINATION USE CASE
+// src/use-cases/remote-work/SetFieldDutyDestination.ts
+// ============================================================================
+
+import { IWorkLetterRepository, FieldDutyLetterWithUser } from '@/domain/repositories/IWorkLetterRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+
+export const MIN_DESTINATION_RADIUS_METERS = 50
+export const MAX_DESTINATION_RADIUS_METERS = 5000
+
+export interface SetFieldDutyDestinationRequest {
+  workLetterId: string
+  adminId: string
+  destinationName?: string
+  destinationLatitude: number | null // null clears the destination, the day is then recorded without GPS
+  destinationLongitude: number | null
+  destinationRadiusMeters?: number
+}
+
+export interface SetFieldDutyDestinationResponse {
+  success: boolean
+  data?: FieldDutyLetterWithUser
+  error?: string
+}
+
+export class SetFieldDutyDestination {
+  constructor(
+    private workLetterRepository: IWorkLetterRepository,
+    private locationValidationService: ILocationValidationService
+  ) {}
+
+  async execute(request: SetFieldDutyDestinationRequest): Promise<SetFieldDutyDestinationResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const workLetter = await this.workLetterRepository.findFieldDutyLetterById(request.workLetterId)
+      if (!workLetter) {
+        return {
+          success: false,
+          error: 'Surat tugas tidak ditemukan'
+        }
+      }
+
+      const hasDestination = request.destinationLatitude !== null
+      const updated = await this.workLetterRepository.updateDestination(request.workLetterId, {
+        destinationName: hasDestination ? request.destinationName?.trim() || null : null,
+        destinationLatitude: request.destinationLatitude,
+        destinationLongitude: request.destinationLongitude,
+        ...(request.destinationRadiusMeters !== undefined && { destinationRadiusMeters: request.destinationRadiusMeters })
+      })
+
+      console.log(`✅ Field duty destination of work letter ${request.workLetterId} set by ${request.adminId}`)
+
+      return {
+        success: true,
+        data: updated
+      }
+    } catch (error) {
+      console.error('Error setting field duty destination:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menyimpan lokasi tujuan dinas'
+      }
+    }
+  }
+
+  private validateInput(request: SetFieldDutyDestinationRequest): { isValid: boolean; error?: string } {
+    if (!request.workLetterId) {
+      return { isValid: false, error: 'ID surat tugas wajib diisi' }
+    }
+
+    if (!request.adminId) {
+      return { isValid: false, error: 'ID admin wajib diisi' }
+    }
+
+    if ((request.destinationLatitude === null) !== (request.destinationLongitude === null)) {
+      return { isValid: false, error: 'Latitude dan longitude tujuan harus diisi bersamaan' }
+    }
+
+    if (request.destinationLatitude !== null &&
+        (typeof request.destinationLatitude !== 'number' ||
+         typeof request.destinationLongitude !== 'number' ||
+         !this.locationValidationService.validateCoordinateFormat(request.destinationLatitude, request.destinationLongitude))) {
+      return { isValid: false, error: 'Format koordinat tujuan tidak valid' }
+    }
+
+    if (request.destinationName && request.destinationName.trim().length > 255) {
+      return { isValid: false, error: 'Nama tujuan maksimal 255 karakter' }
+    }
+
+    if (request.destinationRadiusMeters !== undefined &&
+        (!Number.isInteger(request.destinationRadiusMeters) ||
+         request.destinationRadiusMeters < MIN_DESTINATION_RADIUS_METERS ||
+         request.destinationRadiusMeters > MAX_DESTINATION_RADIUS_METERS)) {
+      return {
+        isValid: false,
+        error: `Radius tujuan harus antara ${MIN_DESTINATION_RADIUS_METERS} dan ${MAX_DESTINATION_RADIUS_METERS} meter`
+      }
+    }
+
+    return { isValid: true }
+  }
+}
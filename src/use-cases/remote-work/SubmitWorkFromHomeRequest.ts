@@ -0,0 +1,147 @@
+// ============================================================================
+// SUBMIT WORK FROM HOME REQUEST USE CASE
+// src/use-cases/remote-work/SubmitWorkFromHomeRequest.ts
+// ============================================================================
+
+import {
+  IWorkFromHomeRequestRepository,
+  WorkFromHomeRequestWithDetails
+} from '@/domain/repositories/IWorkFromHomeRequestRepository'
+import { IRemoteWorkProfileRepository } from '@/domain/repositories/IRemoteWorkProfileRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { DAY_INDEX_TO_DAY_OF_WEEK } from '@/infrastructure/services/WorkScheduleService'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+// WFH is planned ahead, at most this many days
+export const MAX_WFH_ADVANCE_DAYS = 30
+
+export interface SubmitWorkFromHomeRequestRequest {
+  userId: string
+  wfhDate: string // YYYY-MM-DD
+  reason: string
+}
+
+export interface SubmitWorkFromHomeRequestResponse {
+  success: boolean
+  data?: WorkFromHomeRequestWithDetails
+  error?: string
+}
+
+export class SubmitWorkFromHomeRequest {
+  constructor(
+    private workFromHomeRequestRepository: IWorkFromHomeRequestRepository,
+    private remoteWorkProfileRepository: IRemoteWorkProfileRepository,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: SubmitWorkFromHomeRequestRequest): Promise<SubmitWorkFromHomeRequestResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Without an approved home location a WFH day cannot be checked in
+      const profile = await this.remoteWorkProfileRepository.findByUserId(request.userId)
+      if (!profile?.homeLocationApprovedAt) {
+        return {
+          success: false,
+          error: 'Lokasi rumah Anda belum disetujui admin. Ajukan lokasi rumah terlebih dahulu.'
+        }
+      }
+
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const wfhDate = new Date(`${request.wfhDate}T00:00:00.000Z`)
+      const today = getCalendarDate(new Date(), timeZone)
+
+      if (wfhDate < today) {
+        return {
+          success: false,
+          error: 'WFH tidak dapat diajukan untuk tanggal yang sudah lewat'
+        }
+      }
+
+      const advanceDays = Math.round((wfhDate.getTime() - today.getTime()) / (24 * 60 * 60 * 1000))
+      if (advanceDays > MAX_WFH_ADVANCE_DAYS) {
+        return {
+          success: false,
+          error: `WFH hanya dapat diajukan paling lama ${MAX_WFH_ADVANCE_DAYS} hari sebelumnya`
+        }
+      }
+
+      if (profile.wfhDays.includes(DAY_INDEX_TO_DAY_OF_WEEK[wfhDate.getUTCDay()])) {
+        return {
+          success: false,
+          error: 'Tanggal tersebut sudah termasuk jadwal WFH mingguan Anda'
+        }
+      }
+
+      const schedule = await this.workScheduleService.resolveSchedule(request.userId, wfhDate)
+      if (!schedule.isWorkingDay) {
+        return {
+          success: false,
+          error: 'WFH hanya dapat diajukan untuk hari kerja'
+        }
+      }
+
+      if (await this.workFromHomeRequestRepository.hasActiveRequest(request.userId, wfhDate)) {
+        return {
+          success: false,
+          error: 'Sudah ada pengajuan WFH yang menunggu persetujuan atau disetujui pada tanggal tersebut'
+        }
+      }
+
+      const [approver] = await this.workFromHomeRequestRepository.findApproverChain(request.userId)
+      if (!approver) {
+        return {
+          success: false,
+          error: 'Tidak ditemukan atasan yang dapat menyetujui pengajuan WFH. Hubungi admin kepegawaian.'
+        }
+      }
+
+      const wfhRequest = await this.workFromHomeRequestRepository.create({
+        userId: request.userId,
+        wfhDate,
+        reason: request.reason.trim(),
+        approverId: approver.id
+      })
+
+      console.log(`✅ Work from home request submitted: ${wfhRequest.id} for ${request.wfhDate}`)
+
+      return {
+        success: true,
+        data: wfhRequest
+      }
+    } catch (error) {
+      console.error('Error submitting work from home request:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengajukan WFH'
+      }
+    }
+  }
+
+  private validateInput(request: SubmitWorkFromHomeRequestRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'User ID wajib diisi' }
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(request.wfhDate || '') ||
+        isNaN(new Date(`${request.wfhDate}T00:00:00.000Z`).getTime())) {
+      return { isValid: false, error: 'Tanggal WFH wajib diisi dengan format YYYY-MM-DD' }
+    }
+
+    if (!request.reason || request.reason.trim().length < 10) {
+      return { isValid: false, error: 'Alasan WFH wajib diisi minimal 10 karakter' }
+    }
+
+    if (request.reason.trim().length > 500) {
+      return { isValid: false, error: 'Alasan WFH maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
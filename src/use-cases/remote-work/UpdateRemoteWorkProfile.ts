@@ -0,0 +1,142 @@
+// ============================================================================
+// UPDATE REMOTE WORK PROFILE USE CASE
+// src/use-cases/remote-work/UpdateRemoteWorkProfile.ts
+// ============================================================================
+
+import {
+  IRemoteWorkProfileRepository,
+  RemoteWorkProfile,
+  UpdateRemoteWorkProfileData
+} from '@/domain/repositories/IRemoteWorkProfileRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { DayOfWeek } from '@prisma/client'
+
+export const MIN_HOME_RADIUS_METERS = 20
+export const MAX_HOME_RADIUS_METERS = 500
+
+export interface UpdateRemoteWorkProfileRequest {
+  userId: string // Employee whose profile is edited
+  adminId: string
+  homeLatitude?: number | null // null clears the home location
+  homeLongitude?: number | null
+  homeRadiusMeters?: number
+  wfhDays?: DayOfWeek[]
+  homeLocationApproved?: boolean // true approves the (new) home location, false revokes the approval
+}
+
+export interface UpdateRemoteWorkProfileResponse {
+  success: boolean
+  data?: RemoteWorkProfile
+  error?: string
+}
+
+export class UpdateRemoteWorkProfile {
+  constructor(
+    private remoteWorkProfileRepository: IRemoteWorkProfileRepository,
+    private locationValidationService: ILocationValidationService
+  ) {}
+
+  async execute(request: UpdateRemoteWorkProfileRequest): Promise<UpdateRemoteWorkProfileResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const profile = await this.remoteWorkProfileRepository.findByUserId(request.userId)
+      if (!profile) {
+        return {
+          success: false,
+          error: 'Pegawai tidak ditemukan'
+        }
+      }
+
+      const data: UpdateRemoteWorkProfileData = {
+        ...(request.homeRadiusMeters !== undefined && { homeRadiusMeters: request.homeRadiusMeters }),
+        ...(request.wfhDays && { wfhDays: [...new Set(request.wfhDays)] })
+      }
+
+      const locationChanged = request.homeLatitude !== undefined && (
+        request.homeLatitude !== (profile.homeLatitude ?? null) ||
+        request.homeLongitude !== (profile.homeLongitude ?? null)
+      )
+      if (locationChanged) {
+        data.homeLatitude = request.homeLatitude
+        data.homeLongitude = request.homeLongitude
+      }
+
+      const hasHomeLocation = locationChanged ? request.homeLatitude !== null : profile.homeLatitude !== undefined
+      if (request.homeLocationApproved && !hasHomeLocation) {
+        return {
+          success: false,
+          error: 'Lokasi rumah belum diisi sehingga tidak dapat disetujui'
+        }
+      }
+
+      // An approval only covers the location it was given for
+      if (request.homeLocationApproved === true && (locationChanged || !profile.homeLocationApprovedAt)) {
+        data.homeLocationApprovedAt = new Date()
+        data.homeLocationApprovedById = request.adminId
+      } else if (request.homeLocationApproved === false || locationChanged) {
+        data.homeLocationApprovedAt = null
+        data.homeLocationApprovedById = null
+      }
+
+      const updated = await this.remoteWorkProfileRepository.update(request.userId, data)
+
+      console.log(`✅ Remote work profile updated for user ${request.userId} by ${request.adminId}`)
+
+      return {
+        success: true,
+        data: updated
+      }
+    } catch (error) {
+      console.error('Error updating remote work profile:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menyimpan lokasi WFH'
+      }
+    }
+  }
+
+  private validateInput(request: UpdateRemoteWorkProfileRequest): { isValid: boolean; error?: string } {
+    if (!request.userId) {
+      return { isValid: false, error: 'Pegawai wajib dipilih' }
+    }
+
+    if (!request.adminId) {
+      return { isValid: false, error: 'ID admin wajib diisi' }
+    }
+
+    if ((request.homeLatitude === undefined) !== (request.homeLongitude === undefined) ||
+        (request.homeLatitude === null) !== (request.homeLongitude === null)) {
+      return { isValid: false, error: 'Latitude dan longitude rumah harus diisi bersamaan' }
+    }
+
+    if (typeof request.homeLatitude === 'number' &&
+        (typeof request.homeLongitude !== 'number' ||
+         !this.locationValidationService.validateCoordinateFormat(request.homeLatitude, request.homeLongitude))) {
+      return { isValid: false, error: 'Format koordinat rumah tidak valid' }
+    }
+
+    if (request.homeRadiusMeters !== undefined &&
+        (!Number.isInteger(request.homeRadiusMeters) ||
+         request.homeRadiusMeters < MIN_HOME_RADIUS_METERS ||
+         request.homeRadiusMeters > MAX_HOME_RADIUS_METERS)) {
+      return {
+        isValid: false,
+        error: `Radius rumah harus antara ${MIN_HOME_RADIUS_METERS} dan ${MAX_HOME_RADIUS_METERS} meter`
+      }
+    }
+
+    if (request.wfhDays !== undefined &&
+        (!Array.isArray(request.wfhDays) || request.wfhDays.some(day => !Object.values(DayOfWeek).includes(day)))) {
+      return { isValid: false, error: 'Hari WFH tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
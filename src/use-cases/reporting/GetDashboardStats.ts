@@ -10,6 +10,9 @@ import { IPermissionRequestRepository } from '@/domain/repositories/IPermissionR
 import { IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
 import { IApprovalRepository } from '@/domain/repositories/IApprovalRepository'
 import { IDepartmentRepository } from '@/domain/repositories/IDepartmentRepository'
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { IAttendancePhotoService } from '@/domain/services/IAttendancePhotoService'
 import {
   DashboardStats,
   AttendanceStats,
@@ -50,7 +53,10 @@ export class GetDashboardStats {
     private permissionRequestRepository: IPermissionRequestRepository,
     private workLetterRepository: IWorkLetterRepository,
     private approvalRepository: IApprovalRepository,
-    private departmentRepository: IDepartmentRepository
+    private departmentRepository: IDepartmentRepository,
+    private holidayService?: IHolidayService,
+    private workScheduleService?: IWorkScheduleService,
+    private attendancePhotoService?: IAttendancePhotoService
   ) {}
 
   async execute(request: GetDashboardStatsRequest): Promise<GetDashboardStatsResponse> {
@@ -98,8 +104,11 @@ export class GetDashboardStats {
   }
 
   private async getAttendanceStats(userId: string): Promise<AttendanceStats> {
-    // CRITICAL: Use normalized date for consistency
-    const today = getAttendanceDate()
+    // CRITICAL: Use the same business date as check-out, so an overnight shift
+    // stays "today" until it has been checked out
+    const today = this.workScheduleService
+      ? await this.workScheduleService.resolveAttendanceDate(userId, new Date(), 'CHECK_OUT')
+      : getAttendanceDate()
     const currentDate = new Date()
     const startOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)
     const endOfMonth = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0)
@@ -128,9 +137,19 @@ export class GetDashboardStats {
       today
     )
 
+    // Holidays and cuti bersama this month are not counted as work days
+    const holidays = this.holidayService
+      ? await this.holidayService.getHolidays(startOfMonth, endOfMonth)
+      : []
+
     return {
       today: this.buildTodayAttendance(todayAttendance),
-      monthly: this.buildMonthlyAttendance(monthlyAttendances, startOfMonth, endOfMonth),
+      monthly: this.buildMonthlyAttendance(
+        monthlyAttendances,
+        startOfMonth,
+        endOfMonth,
+        holidays.map(holiday => holiday.date)
+      ),
       trend: this.buildAttendanceTrend(trendAttendances)
     }
   }
@@ -214,9 +233,14 @@ export class GetDashboardStats {
     }
   }
 
-  private buildMonthlyAttendance(attendances: any[], startDate: Date, endDate: Date): MonthlyAttendance {
+  private buildMonthlyAttendance(
+    attendances: any[],
+    startDate: Date,
+    endDate: Date,
+    holidayDates: Date[] = []
+  ): MonthlyAttendance {
     // Use the new utility function for accurate attendance calculation
-    const stats = calculateAttendanceStats(attendances, startDate, endDate)
+    const stats = calculateAttendanceStats(attendances, startDate, endDate, holidayDates)
 
     console.log('📊 buildMonthlyAttendance - Using attendance records:', {
       recordCount: attendances.length,
@@ -364,16 +388,19 @@ export class GetDashboardStats {
       attendanceRecords: teamAttendances.filter(a => a !== null).length
     })
 
-    const teamAttendance = teamMembers.map((member, index) => {
+    const teamAttendance = await Promise.all(teamMembers.map(async (member, index) => {
       const attendance = teamAttendances[index]
       return {
         userId: member.id,
         name: member.name || 'Unknown',
         status: attendance?.status || AttendanceStatus.ABSENT,
         checkInTime: attendance?.checkInTime,
-        location: attendance?.location
+        checkOutTime: attendance?.checkOutTime,
+        location: attendance?.location,
+        checkInPhotoUrl: await this.getPhotoUrl(attendance?.checkInPhotoPath),
+        checkOutPhotoUrl: await this.getPhotoUrl(attendance?.checkOutPhotoPath)
       }
-    })
+    }))
 
     return {
       totalMembers: teamMembers.length,
@@ -385,6 +412,14 @@ export class GetDashboardStats {
     }
   }
 
+  // Selfies are kept private; supervisors get short-lived signed URLs
+  private async getPhotoUrl(path?: string): Promise<string | undefined> {
+    if (!path || !this.attendancePhotoService) {
+      return undefined
+    }
+    return (await this.attendancePhotoService.getPhotoUrl(path)) ?? undefined
+  }
+
   private async getCompanyStats(): Promise<CompanyStats> {
     const allUsers = await this.userRepository.findAll()
     const departments = await this.departmentRepository.findAll()
@@ -0,0 +1,297 @@
+// ============================================================================
+// GET MONTHLY ATTENDANCE RECAP USE CASE
+// src/use-cases/reporting/GetMonthlyAttendanceRecap.ts
+// ============================================================================
+
+import { IAttendanceRepository, AttendanceWithUser } from '@/domain/repositories/IAttendanceRepository'
+import { IUserRepository, UserWithRelations } from '@/domain/repositories/IUserRepository'
+import { IDepartmentRepository } from '@/domain/repositories/IDepartmentRepository'
+import { ILeaveRequestRepository } from '@/domain/repositories/ILeaveRequestRepository'
+import { IPermissionRequestRepository } from '@/domain/repositories/IPermissionRequestRepository'
+import { IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import { IWorkScheduleService, ResolvedWorkSchedule } from '@/domain/services/IWorkScheduleService'
+import { AttendanceStatus, UserStatus, WorkMode } from '@prisma/client'
+import { getAttendanceDatesInRange, getCalendarDate, toDateKey } from '@/utils/dateUtils'
+
+/**
+ * Recap codes as printed on the monthly report
+ * H hadir, T terlambat, A alpha, I izin, C cuti, DL dinas luar
+ */
+export type AttendanceRecapCode = 'H' | 'T' | 'A' | 'I' | 'C' | 'DL'
+
+export const ATTENDANCE_RECAP_CODES: AttendanceRecapCode[] = ['H', 'T', 'A', 'I', 'C', 'DL']
+
+export interface GetMonthlyAttendanceRecapRequest {
+  year: number
+  month: number // 1-12
+  departmentId?: string // Includes every sub-unit below it
+}
+
+export interface AttendanceRecapDay {
+  date: string // YYYY-MM-DD
+  day: number
+  isWeekend: boolean
+  holidayName?: string // Holiday / cuti bersama from the institution calendar
+}
+
+export interface EmployeeAttendanceRecap {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  codes: Array<AttendanceRecapCode | null> // One per day; null for non-working days and days not yet passed
+  totals: Record<AttendanceRecapCode, number>
+  workDayCount: number // Working days counted so far
+}
+
+export interface MonthlyAttendanceRecap {
+  year: number
+  month: number
+  institution: {
+    name?: string
+    address?: string
+    headName?: string
+  }
+  department?: {
+    id: string
+    name: string
+  }
+  days: AttendanceRecapDay[]
+  employees: EmployeeAttendanceRecap[]
+  totals: Record<AttendanceRecapCode, number>
+}
+
+export interface GetMonthlyAttendanceRecapResponse {
+  success: boolean
+  data?: MonthlyAttendanceRecap
+  error?: string
+}
+
+interface RecapDayRequests {
+  leaveUserIds: Set<string>
+  permissionUserIds: Set<string>
+  workLetterUserIds: Set<string>
+}
+
+const emptyTotals = (): Record<AttendanceRecapCode, number> => ({ H: 0, T: 0, A: 0, I: 0, C: 0, DL: 0 })
+
+export class GetMonthlyAttendanceRecap {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private userRepository: IUserRepository,
+    private departmentRepository: IDepartmentRepository,
+    private leaveRequestRepository: ILeaveRequestRepository,
+    private permissionRequestRepository: IPermissionRequestRepository,
+    private workLetterRepository: IWorkLetterRepository,
+    private systemSettingRepository: ISystemSettingRepository,
+    private holidayService: IHolidayService,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: GetMonthlyAttendanceRecapRequest): Promise<GetMonthlyAttendanceRecapResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Attendance dates are stored as UTC calendar dates
+      const startDate = new Date(Date.UTC(request.year, request.month - 1, 1))
+      const endDate = new Date(Date.UTC(request.year, request.month, 0))
+      const today = getCalendarDate(new Date(), await this.workScheduleService.getTimeZone())
+
+      let department: MonthlyAttendanceRecap['department']
+      let departmentIds: string[] | undefined
+      if (request.departmentId) {
+        const root = await this.departmentRepository.findById(request.departmentId)
+        if (!root) {
+          return {
+            success: false,
+            error: 'Unit kerja tidak ditemukan'
+          }
+        }
+
+        const descendants = await this.departmentRepository.findDescendants(root.id)
+        department = { id: root.id, name: root.name }
+        departmentIds = [root.id, ...descendants.map(descendant => descendant.id)]
+      }
+
+      const [users, attendances, holidays, settings] = await Promise.all([
+        this.findActiveUsers(departmentIds),
+        this.findAttendances(startDate, endDate, departmentIds),
+        this.holidayService.getHolidays(startDate, endDate),
+        this.systemSettingRepository.findByKeys(['INSTITUTION_NAME', 'INSTITUTION_ADDRESS', 'HEAD_OF_INSTITUTION'])
+      ])
+      const settingOf = (key: string) => settings.find(setting => setting.key === key)?.value || undefined
+
+      const holidayNames = new Map(holidays.map(holiday => [toDateKey(holiday.date), holiday.name]))
+      const dates = getAttendanceDatesInRange(startDate, endDate)
+      const days: AttendanceRecapDay[] = dates.map(date => ({
+        date: toDateKey(date),
+        day: date.getUTCDate(),
+        isWeekend: date.getUTCDay() === 0 || date.getUTCDay() === 6,
+        holidayName: holidayNames.get(toDateKey(date))
+      }))
+
+      const attendancesByKey = new Map(
+        attendances.map(attendance => [`${attendance.userId}|${toDateKey(attendance.attendanceDate)}`, attendance])
+      )
+
+      // Approved requests are only needed for days that have already started
+      const requestsByDate = new Map<string, RecapDayRequests>()
+      for (const date of dates.filter(date => date <= today)) {
+        requestsByDate.set(toDateKey(date), await this.findDayRequests(date))
+      }
+
+      const schedulesByUser = await this.workScheduleService.resolveSchedules(users.map(user => user.id), startDate, endDate)
+
+      const employees: EmployeeAttendanceRecap[] = []
+      for (const user of users) {
+        const recap: EmployeeAttendanceRecap = {
+          userId: user.id,
+          name: user.name,
+          nip: user.nip,
+          departmentName: user.department?.name,
+          codes: [],
+          totals: emptyTotals(),
+          workDayCount: 0
+        }
+
+        for (const date of dates) {
+          const code = date <= today
+            ? this.resolveCode(
+                user.id,
+                attendancesByKey.get(`${user.id}|${toDateKey(date)}`),
+                schedulesByUser.get(user.id)!.get(toDateKey(date))!,
+                requestsByDate.get(toDateKey(date))!,
+                date.getTime() === today.getTime()
+              )
+            : null
+
+          recap.codes.push(code)
+          if (code) {
+            recap.totals[code]++
+            recap.workDayCount++
+          }
+        }
+
+        employees.push(recap)
+      }
+
+      employees.sort((a, b) =>
+        (a.departmentName || '').localeCompare(b.departmentName || '') || (a.name || '').localeCompare(b.name || '')
+      )
+
+      const totals = emptyTotals()
+      for (const employee of employees) {
+        ATTENDANCE_RECAP_CODES.forEach(code => { totals[code] += employee.totals[code] })
+      }
+
+      return {
+        success: true,
+        data: {
+          year: request.year,
+          month: request.month,
+          institution: {
+            name: settingOf('INSTITUTION_NAME'),
+            address: settingOf('INSTITUTION_ADDRESS'),
+            headName: settingOf('HEAD_OF_INSTITUTION')
+          },
+          department,
+          days,
+          employees,
+          totals
+        }
+      }
+    } catch (error) {
+      console.error('Error getting monthly attendance recap:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil rekap absensi'
+      }
+    }
+  }
+
+  /**
+   * Same precedence as the nightly alpha job: a recorded attendance wins, then
+   * holidays and days off, then approved leave, permission and work letters
+   */
+  private resolveCode(
+    userId: string,
+    attendance: AttendanceWithUser | undefined,
+    schedule: ResolvedWorkSchedule,
+    requests: RecapDayRequests,
+    isToday: boolean
+  ): AttendanceRecapCode | null {
+    if (attendance && attendance.status !== AttendanceStatus.ABSENT) {
+      if (attendance.workMode === WorkMode.FIELD_DUTY) return 'DL'
+      return attendance.status === AttendanceStatus.LATE ? 'T' : 'H'
+    }
+
+    // Alpha rows are only written for working days; leave spanning a weekend is not counted there
+    if (!attendance && !schedule.isWorkingDay) return null
+
+    // A leave or permission approved after the alpha row was written still counts
+    if (requests.leaveUserIds.has(userId)) return 'C'
+    if (requests.permissionUserIds.has(userId)) return 'I'
+    if (requests.workLetterUserIds.has(userId)) return 'DL'
+
+    // Today is not over yet; the employee may still check in
+    return attendance || !isToday ? 'A' : null
+  }
+
+  private async findDayRequests(date: Date): Promise<RecapDayRequests> {
+    const [leaves, permissions, workLetters] = await Promise.all([
+      this.leaveRequestRepository.findActiveLeavesByDate(date),
+      this.permissionRequestRepository.findActivePermissionsByDate(date),
+      this.workLetterRepository.findActiveWorkLettersByDate(date)
+    ])
+
+    return {
+      leaveUserIds: new Set(leaves.map(leave => leave.userId)),
+      permissionUserIds: new Set(permissions.map(permission => permission.userId)),
+      workLetterUserIds: new Set(workLetters.map(workLetter => workLetter.userId))
+    }
+  }
+
+  private async findActiveUsers(departmentIds?: string[]): Promise<UserWithRelations[]> {
+    if (!departmentIds) {
+      return this.userRepository.findManyWithRelations({ status: UserStatus.ACTIVE })
+    }
+
+    const users = await Promise.all(
+      departmentIds.map(departmentId =>
+        this.userRepository.findManyWithRelations({ status: UserStatus.ACTIVE, departmentId })
+      )
+    )
+    return users.flat()
+  }
+
+  private async findAttendances(startDate: Date, endDate: Date, departmentIds?: string[]): Promise<AttendanceWithUser[]> {
+    if (!departmentIds) {
+      return this.attendanceRepository.findMany({ startDate, endDate })
+    }
+
+    const attendances = await Promise.all(
+      departmentIds.map(departmentId => this.attendanceRepository.findMany({ startDate, endDate, departmentId }))
+    )
+    return attendances.flat()
+  }
+
+  private validateInput(request: GetMonthlyAttendanceRecapRequest): { isValid: boolean; error?: string } {
+    if (!Number.isInteger(request.year) || request.year < 2000 || request.year > 2100) {
+      return { isValid: false, error: 'Tahun tidak valid' }
+    }
+
+    if (!Number.isInteger(request.month) || request.month < 1 || request.month > 12) {
+      return { isValid: false, error: 'Bulan tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
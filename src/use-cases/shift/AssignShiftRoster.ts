@@ -0,0 +1,170 @@
+// ============================================================================
+// ASSIGN SHIFT ROSTER USE CASE
+// src/use-cases/shift/AssignShiftRoster.ts
+// ============================================================================
+
+import { IShiftRepository } from '@/domain/repositories/IShiftRepository'
+import { IShiftRosterRepository, UpsertShiftRosterData } from '@/domain/repositories/IShiftRosterRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+import { getAttendanceDatesInRange } from '@/utils/dateUtils'
+import { parseRosterRange } from './GetShiftRoster'
+
+const MAX_USERS = 100
+const MAX_PATTERN_LENGTH = 31
+
+export interface AssignShiftRosterRequest {
+  userIds: string[]
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  /**
+   * Rotation applied day by day from startDate and repeated until endDate;
+   * each entry is a shift ID, or null for a day off.
+   * e.g. [PAGI, PAGI, MALAM, MALAM, null, null]
+   */
+  pattern: (string | null)[]
+  staggerDays?: number // Each next user starts this many days further into the pattern
+  notes?: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface AssignShiftRosterResponse {
+  success: boolean
+  data?: {
+    userCount: number
+    dayCount: number
+    writtenCount: number
+  }
+  error?: string
+}
+
+export class AssignShiftRoster {
+  constructor(
+    private shiftRepository: IShiftRepository,
+    private shiftRosterRepository: IShiftRosterRepository,
+    private userRepository: IUserRepository,
+    private auditService: ShiftAuditService
+  ) {}
+
+  async execute(request: AssignShiftRosterRequest): Promise<AssignShiftRosterResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const range = parseRosterRange(request.startDate, request.endDate)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      // Every shift in the pattern must exist and be active
+      const shiftIds = Array.from(new Set(request.pattern.filter((id): id is string => !!id)))
+      const shifts = await this.shiftRepository.findByIds(shiftIds)
+      const activeShiftIds = new Set(shifts.filter(shift => shift.isActive).map(shift => shift.id))
+      if (shiftIds.some(id => !activeShiftIds.has(id))) {
+        return {
+          success: false,
+          error: 'Pola roster berisi shift yang tidak ditemukan atau tidak aktif'
+        }
+      }
+
+      const userIds = Array.from(new Set(request.userIds))
+      const users = await Promise.all(userIds.map(id => this.userRepository.findById(id)))
+      if (users.some(user => !user)) {
+        return {
+          success: false,
+          error: 'Sebagian pegawai tidak ditemukan'
+        }
+      }
+
+      const dates = getAttendanceDatesInRange(range.startDate, range.endDate)
+      const stagger = request.staggerDays || 0
+      const entries: UpsertShiftRosterData[] = []
+
+      userIds.forEach((userId, userIndex) => {
+        dates.forEach((date, dayIndex) => {
+          const position = (dayIndex + userIndex * stagger) % request.pattern.length
+          entries.push({
+            userId,
+            shiftId: request.pattern[position],
+            date,
+            notes: request.notes?.trim() || undefined
+          })
+        })
+      })
+
+      const writtenCount = await this.shiftRosterRepository.upsertMany(entries)
+
+      // Log audit trail
+      await this.auditService.logRosterChange(
+        'ASSIGN_ROSTER',
+        {
+          userIds,
+          startDate: request.startDate,
+          endDate: request.endDate,
+          pattern: request.pattern,
+          staggerDays: stagger,
+          writtenCount
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: {
+          userCount: userIds.length,
+          dayCount: dates.length,
+          writtenCount
+        }
+      }
+    } catch (error) {
+      console.error('Error assigning shift roster:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menyimpan roster shift'
+      }
+    }
+  }
+
+  private validateInput(request: AssignShiftRosterRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!Array.isArray(request.userIds) || request.userIds.length === 0) {
+      return { isValid: false, error: 'Pilih minimal satu pegawai' }
+    }
+
+    if (request.userIds.length > MAX_USERS) {
+      return { isValid: false, error: `Maksimal ${MAX_USERS} pegawai per penyimpanan roster` }
+    }
+
+    if (!Array.isArray(request.pattern) || request.pattern.length === 0) {
+      return { isValid: false, error: 'Pola roster wajib diisi' }
+    }
+
+    if (request.pattern.length > MAX_PATTERN_LENGTH) {
+      return { isValid: false, error: `Pola roster maksimal ${MAX_PATTERN_LENGTH} hari` }
+    }
+
+    if (request.staggerDays !== undefined) {
+      if (!Number.isInteger(request.staggerDays) || request.staggerDays < 0 || request.staggerDays > MAX_PATTERN_LENGTH) {
+        return { isValid: false, error: `Pergeseran pola harus antara 0-${MAX_PATTERN_LENGTH} hari` }
+      }
+    }
+
+    return { isValid: true }
+  }
+}
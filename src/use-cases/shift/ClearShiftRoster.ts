@@ -0,0 +1,83 @@
+// ============================================================================
+// CLEAR SHIFT ROSTER USE CASE
+// src/use-cases/shift/ClearShiftRoster.ts
+// ============================================================================
+
+import { IShiftRosterRepository } from '@/domain/repositories/IShiftRosterRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+import { parseRosterRange } from './GetShiftRoster'
+
+export interface ClearShiftRosterRequest {
+  userIds: string[]
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface ClearShiftRosterResponse {
+  success: boolean
+  data?: {
+    deletedCount: number
+  }
+  error?: string
+}
+
+export class ClearShiftRoster {
+  constructor(
+    private shiftRosterRepository: IShiftRosterRepository,
+    private auditService: ShiftAuditService
+  ) {}
+
+  async execute(request: ClearShiftRosterRequest): Promise<ClearShiftRosterResponse> {
+    try {
+      if (!request.adminUserId || !Array.isArray(request.userIds) || request.userIds.length === 0) {
+        return {
+          success: false,
+          error: 'Pegawai dan admin user ID wajib diisi'
+        }
+      }
+
+      const range = parseRosterRange(request.startDate, request.endDate)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      // Users fall back to their weekly work schedule on cleared dates
+      const deletedCount = await this.shiftRosterRepository.deleteRange(
+        request.userIds,
+        range.startDate,
+        range.endDate
+      )
+
+      // Log audit trail
+      await this.auditService.logRosterChange(
+        'CLEAR_ROSTER',
+        {
+          userIds: request.userIds,
+          startDate: request.startDate,
+          endDate: request.endDate,
+          deletedCount
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: { deletedCount }
+      }
+    } catch (error) {
+      console.error('Error clearing shift roster:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus roster shift'
+      }
+    }
+  }
+}
@@ -0,0 +1,145 @@
+// ============================================================================
+// CREATE SHIFT USE CASE
+// src/use-cases/shift/CreateShift.ts
+// ============================================================================
+
+import { IShiftRepository, ShiftEntity } from '@/domain/repositories/IShiftRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+import { parseTimeToMinutes } from '@/utils/dateUtils'
+
+export interface CreateShiftRequest {
+  name: string
+  code: string
+  startTime: string // HH:mm
+  endTime: string // HH:mm, earlier than startTime for overnight shifts
+  lateToleranceMinutes?: number
+  description?: string
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface CreateShiftResponse {
+  success: boolean
+  data?: ShiftEntity
+  error?: string
+}
+
+export class CreateShift {
+  constructor(
+    private shiftRepository: IShiftRepository,
+    private auditService: ShiftAuditService
+  ) {}
+
+  async execute(request: CreateShiftRequest): Promise<CreateShiftResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const code = request.code.trim().toUpperCase()
+
+      // Check if code is unique
+      const isCodeUnique = await this.shiftRepository.isCodeUnique(code)
+      if (!isCodeUnique) {
+        return {
+          success: false,
+          error: 'Kode shift sudah digunakan'
+        }
+      }
+
+      const shift = await this.shiftRepository.create({
+        name: request.name.trim(),
+        code,
+        startTime: request.startTime,
+        endTime: request.endTime,
+        lateToleranceMinutes: request.lateToleranceMinutes,
+        description: request.description?.trim() || undefined,
+        isActive: request.isActive ?? true
+      })
+
+      // Log audit trail
+      await this.auditService.logCreate(
+        shift.id,
+        {
+          name: shift.name,
+          code: shift.code,
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          lateToleranceMinutes: shift.lateToleranceMinutes,
+          description: shift.description,
+          isActive: shift.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: shift
+      }
+    } catch (error) {
+      console.error('Error creating shift:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat shift'
+      }
+    }
+  }
+
+  private validateInput(request: CreateShiftRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.name || request.name.trim().length === 0) {
+      return { isValid: false, error: 'Nama shift wajib diisi' }
+    }
+
+    if (request.name.trim().length > 100) {
+      return { isValid: false, error: 'Nama shift maksimal 100 karakter' }
+    }
+
+    if (!request.code || !/^[A-Za-z0-9_-]{1,20}$/.test(request.code.trim())) {
+      return { isValid: false, error: 'Kode shift wajib diisi (huruf, angka, - atau _, maksimal 20 karakter)' }
+    }
+
+    return validateShiftTimes(request.startTime, request.endTime, request.lateToleranceMinutes)
+  }
+}
+
+/**
+ * Validate shift start/end times and late tolerance
+ * An end time earlier than the start time is an overnight shift
+ */
+export function validateShiftTimes(
+  startTime: string | undefined,
+  endTime: string | undefined,
+  lateToleranceMinutes?: number | null
+): { isValid: boolean; error?: string } {
+  const startMinutes = parseTimeToMinutes(startTime)
+  const endMinutes = parseTimeToMinutes(endTime)
+
+  if (startMinutes === null || endMinutes === null) {
+    return { isValid: false, error: 'Jam mulai dan jam selesai wajib diisi dengan format HH:mm' }
+  }
+
+  if (startMinutes === endMinutes) {
+    return { isValid: false, error: 'Jam mulai dan jam selesai tidak boleh sama' }
+  }
+
+  if (lateToleranceMinutes !== undefined && lateToleranceMinutes !== null) {
+    if (!Number.isInteger(lateToleranceMinutes) || lateToleranceMinutes < 0 || lateToleranceMinutes > 240) {
+      return { isValid: false, error: 'Toleransi keterlambatan harus antara 0-240 menit' }
+    }
+  }
+
+  return { isValid: true }
+}
@@ -0,0 +1,84 @@
+// ============================================================================
+// DELETE SHIFT USE CASE
+// src/use-cases/shift/DeleteShift.ts
+// ============================================================================
+
+import { IShiftRepository } from '@/domain/repositories/IShiftRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+
+export interface DeleteShiftRequest {
+  id: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface DeleteShiftResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+export class DeleteShift {
+  constructor(
+    private shiftRepository: IShiftRepository,
+    private auditService: ShiftAuditService
+  ) {}
+
+  async execute(request: DeleteShiftRequest): Promise<DeleteShiftResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID shift dan admin user ID wajib diisi'
+        }
+      }
+
+      // Check if shift exists
+      const existingShift = await this.shiftRepository.findById(request.id)
+      if (!existingShift) {
+        return {
+          success: false,
+          error: 'Shift tidak ditemukan'
+        }
+      }
+
+      // Shifts referenced by rosters or attendance history must be kept
+      const usage = await this.shiftRepository.countUsage(request.id)
+      if (usage.attendances > 0 || usage.rosters > 0) {
+        return {
+          success: false,
+          error: `Shift tidak dapat dihapus karena digunakan oleh ${usage.rosters} jadwal roster dan ${usage.attendances} data kehadiran. Nonaktifkan shift sebagai gantinya.`
+        }
+      }
+
+      await this.shiftRepository.delete(request.id)
+
+      // Log audit trail
+      await this.auditService.logDelete(
+        existingShift.id,
+        {
+          name: existingShift.name,
+          code: existingShift.code,
+          startTime: existingShift.startTime,
+          endTime: existingShift.endTime,
+          isActive: existingShift.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        message: `Shift "${existingShift.name}" berhasil dihapus`
+      }
+    } catch (error) {
+      console.error('Error deleting shift:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus shift'
+      }
+    }
+  }
+}
@@ -0,0 +1,100 @@
+// ============================================================================
+// GET SHIFT ROSTER USE CASE
+// src/use-cases/shift/GetShiftRoster.ts
+// ============================================================================
+
+import { IShiftRosterRepository, ShiftRosterWithDetails } from '@/domain/repositories/IShiftRosterRepository'
+
+// Upper bound for a single roster view (about three months)
+const MAX_RANGE_DAYS = 93
+
+export interface GetShiftRosterRequest {
+  startDate: string // YYYY-MM-DD
+  endDate: string // YYYY-MM-DD
+  userId?: string
+  departmentId?: string
+}
+
+export interface GetShiftRosterResponse {
+  success: boolean
+  data?: {
+    startDate: string
+    endDate: string
+    entries: ShiftRosterWithDetails[]
+  }
+  error?: string
+}
+
+export class GetShiftRoster {
+  constructor(private shiftRosterRepository: IShiftRosterRepository) {}
+
+  async execute(request: GetShiftRosterRequest): Promise<GetShiftRosterResponse> {
+    try {
+      const range = parseRosterRange(request.startDate, request.endDate)
+      if (!range.isValid) {
+        return {
+          success: false,
+          error: range.error
+        }
+      }
+
+      const entries = await this.shiftRosterRepository.findMany({
+        startDate: range.startDate,
+        endDate: range.endDate,
+        ...(request.userId && { userId: request.userId }),
+        ...(request.departmentId && { departmentId: request.departmentId })
+      })
+
+      return {
+        success: true,
+        data: {
+          startDate: request.startDate,
+          endDate: request.endDate,
+          entries
+        }
+      }
+    } catch (error) {
+      console.error('Error getting shift roster:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil roster shift'
+      }
+    }
+  }
+}
+
+/**
+ * Parse and validate a YYYY-MM-DD roster date range
+ */
+export function parseRosterRange(startDate: string, endDate: string): {
+  isValid: boolean
+  startDate: Date
+  endDate: Date
+  dayCount: number
+  error?: string
+} {
+  const start = new Date(`${startDate}T00:00:00.000Z`)
+  const end = new Date(`${endDate}T00:00:00.000Z`)
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(startDate || '') || !/^\d{4}-\d{2}-\d{2}$/.test(endDate || '') ||
+      isNaN(start.getTime()) || isNaN(end.getTime())) {
+    return { isValid: false, startDate: start, endDate: end, dayCount: 0, error: 'Tanggal wajib diisi dengan format YYYY-MM-DD' }
+  }
+
+  if (start > end) {
+    return { isValid: false, startDate: start, endDate: end, dayCount: 0, error: 'Tanggal mulai tidak boleh setelah tanggal selesai' }
+  }
+
+  const dayCount = Math.round((end.getTime() - start.getTime()) / (24 * 60 * 60 * 1000)) + 1
+  if (dayCount > MAX_RANGE_DAYS) {
+    return {
+      isValid: false,
+      startDate: start,
+      endDate: end,
+      dayCount,
+      error: `Rentang tanggal maksimal ${MAX_RANGE_DAYS} hari`
+    }
+  }
+
+  return { isValid: true, startDate: start, endDate: end, dayCount }
+}
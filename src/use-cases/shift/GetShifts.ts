@@ -0,0 +1,46 @@
+// ============================================================================
+// GET SHIFTS USE CASE
+// src/use-cases/shift/GetShifts.ts
+// ============================================================================
+
+import { IShiftRepository, ShiftEntity } from '@/domain/repositories/IShiftRepository'
+
+export interface GetShiftsRequest {
+  filters?: {
+    isActive?: boolean
+    search?: string
+  }
+}
+
+export interface GetShiftsResponse {
+  success: boolean
+  data?: {
+    shifts: ShiftEntity[]
+  }
+  error?: string
+}
+
+export class GetShifts {
+  constructor(private shiftRepository: IShiftRepository) {}
+
+  async execute(request: GetShiftsRequest = {}): Promise<GetShiftsResponse> {
+    try {
+      // Shift definitions are a short list, so they are returned unpaginated
+      const shifts = await this.shiftRepository.findMany({
+        ...(request.filters?.isActive !== undefined && { isActive: request.filters.isActive }),
+        ...(request.filters?.search && { search: request.filters.search })
+      })
+
+      return {
+        success: true,
+        data: { shifts }
+      }
+    } catch (error) {
+      console.error('Error getting shifts:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil data shift'
+      }
+    }
+  }
+}
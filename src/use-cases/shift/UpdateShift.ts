@@ -0,0 +1,142 @@
+// ============================================================================
+// UPDATE SHIFT USE CASE
+// src/use-cases/shift/UpdateShift.ts
+// ============================================================================
+
+import { IShiftRepository, ShiftEntity, UpdateShiftData } from '@/domain/repositories/IShiftRepository'
+import { ShiftAuditService } from '@/infrastructure/services/ShiftAuditService'
+import { validateShiftTimes } from './CreateShift'
+
+export interface UpdateShiftRequest {
+  id: string
+  name?: string
+  code?: string
+  startTime?: string
+  endTime?: string
+  lateToleranceMinutes?: number | null
+  description?: string
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UpdateShiftResponse {
+  success: boolean
+  data?: ShiftEntity
+  error?: string
+}
+
+export class UpdateShift {
+  constructor(
+    private shiftRepository: IShiftRepository,
+    private auditService: ShiftAuditService
+  ) {}
+
+  async execute(request: UpdateShiftRequest): Promise<UpdateShiftResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID shift dan admin user ID wajib diisi'
+        }
+      }
+
+      // Check if shift exists
+      const existingShift = await this.shiftRepository.findById(request.id)
+      if (!existingShift) {
+        return {
+          success: false,
+          error: 'Shift tidak ditemukan'
+        }
+      }
+
+      // Validate the resulting times, not only the changed ones
+      const timeValidation = validateShiftTimes(
+        request.startTime ?? existingShift.startTime,
+        request.endTime ?? existingShift.endTime,
+        request.lateToleranceMinutes
+      )
+      if (!timeValidation.isValid) {
+        return {
+          success: false,
+          error: timeValidation.error
+        }
+      }
+
+      if (request.name !== undefined && (request.name.trim().length === 0 || request.name.trim().length > 100)) {
+        return {
+          success: false,
+          error: 'Nama shift wajib diisi (maksimal 100 karakter)'
+        }
+      }
+
+      const updateData: UpdateShiftData = {
+        ...(request.name !== undefined && { name: request.name.trim() }),
+        ...(request.startTime !== undefined && { startTime: request.startTime }),
+        ...(request.endTime !== undefined && { endTime: request.endTime }),
+        ...(request.lateToleranceMinutes !== undefined && { lateToleranceMinutes: request.lateToleranceMinutes }),
+        ...(request.description !== undefined && { description: request.description.trim() }),
+        ...(request.isActive !== undefined && { isActive: request.isActive })
+      }
+
+      if (request.code !== undefined) {
+        const code = request.code.trim().toUpperCase()
+        if (!/^[A-Z0-9_-]{1,20}$/.test(code)) {
+          return {
+            success: false,
+            error: 'Kode shift hanya boleh berisi huruf, angka, - atau _ (maksimal 20 karakter)'
+          }
+        }
+
+        if (code !== existingShift.code) {
+          const isCodeUnique = await this.shiftRepository.isCodeUnique(code, request.id)
+          if (!isCodeUnique) {
+            return {
+              success: false,
+              error: 'Kode shift sudah digunakan'
+            }
+          }
+        }
+        updateData.code = code
+      }
+
+      const shift = await this.shiftRepository.update(request.id, updateData)
+
+      // Log audit trail
+      await this.auditService.logUpdate(
+        shift.id,
+        {
+          name: existingShift.name,
+          code: existingShift.code,
+          startTime: existingShift.startTime,
+          endTime: existingShift.endTime,
+          lateToleranceMinutes: existingShift.lateToleranceMinutes,
+          isActive: existingShift.isActive
+        },
+        {
+          name: shift.name,
+          code: shift.code,
+          startTime: shift.startTime,
+          endTime: shift.endTime,
+          lateToleranceMinutes: shift.lateToleranceMinutes,
+          isActive: shift.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: shift
+      }
+    } catch (error) {
+      console.error('Error updating shift:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memperbarui shift'
+      }
+    }
+  }
+}
@@ -0,0 +1,376 @@
+// ============================================================================
+// CALCULATE TPP DEDUCTIONS USE CASE
+// src/use-cases/tpp/CalculateTppDeductions.ts
+// ============================================================================
+
+import { AttendanceStatus, TppDeductionCategory, UserStatus, WorkMode } from '@prisma/client'
+import { IAttendanceRepository, AttendanceWithUser } from '@/domain/repositories/IAttendanceRepository'
+import { IUserRepository, UserWithRelations } from '@/domain/repositories/IUserRepository'
+import { IDepartmentRepository } from '@/domain/repositories/IDepartmentRepository'
+import { ILeaveRequestRepository } from '@/domain/repositories/ILeaveRequestRepository'
+import { IPermissionRequestRepository, PermissionRequestEntity } from '@/domain/repositories/IPermissionRequestRepository'
+import { IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
+import { ITppDeductionRuleRepository, TppDeductionRuleEntity } from '@/domain/repositories/ITppDeductionRuleRepository'
+import { IWorkScheduleService, ResolvedWorkSchedule } from '@/domain/services/IWorkScheduleService'
+import {
+  formatTimeColumn,
+  getAttendanceDatesInRange,
+  getCalendarDate,
+  getZonedDateTime,
+  parseTimeToMinutes,
+  toDateKey
+} from '@/utils/dateUtils'
+
+// The allowance cannot be docked by more than all of it
+export const MAX_TPP_DEDUCTION_PERCENTAGE = 100
+
+export interface CalculateTppDeductionsRequest {
+  year: number
+  month: number // 1-12
+  departmentId?: string // Includes every sub-unit below it
+}
+
+export interface TppDeductionItem {
+  date: string // YYYY-MM-DD
+  category: TppDeductionCategory
+  ruleCode?: string
+  minutes?: number // Undefined for a missing punch or an absent day
+  percentage: number // 0 when excused
+  description: string
+  excusedBy?: string // Approved permission that waived the deduction
+}
+
+export interface EmployeeTppDeduction {
+  userId: string
+  name?: string
+  nip?: string
+  departmentName?: string
+  lateCount: number // Deducted occurrences only; excused ones are listed but not counted
+  earlyLeaveCount: number
+  absentDays: number
+  percentages: Record<TppDeductionCategory, number>
+  totalPercentage: number // Capped at MAX_TPP_DEDUCTION_PERCENTAGE
+  items: TppDeductionItem[]
+}
+
+export interface MonthlyTppDeductions {
+  year: number
+  month: number
+  department?: {
+    id: string
+    name: string
+  }
+  rules: TppDeductionRuleEntity[] // Active rules the month was calculated with
+  employees: EmployeeTppDeduction[]
+}
+
+export interface CalculateTppDeductionsResponse {
+  success: boolean
+  data?: MonthlyTppDeductions
+  error?: string
+}
+
+interface TppDayRequests {
+  excusedUserIds: Set<string> // Leave, permission or work letter: the day is not an unexcused absence
+  permissionsByUser: Map<string, PermissionRequestEntity[]>
+}
+
+const roundPercentage = (value: number) => Math.round(value * 100) / 100
+
+export class CalculateTppDeductions {
+  constructor(
+    private attendanceRepository: IAttendanceRepository,
+    private userRepository: IUserRepository,
+    private departmentRepository: IDepartmentRepository,
+    private leaveRequestRepository: ILeaveRequestRepository,
+    private permissionRequestRepository: IPermissionRequestRepository,
+    private workLetterRepository: IWorkLetterRepository,
+    private ruleRepository: ITppDeductionRuleRepository,
+    private workScheduleService: IWorkScheduleService
+  ) {}
+
+  async execute(request: CalculateTppDeductionsRequest): Promise<CalculateTppDeductionsResponse> {
+    try {
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Attendance dates are stored as UTC calendar dates
+      const startDate = new Date(Date.UTC(request.year, request.month - 1, 1))
+      const endDate = new Date(Date.UTC(request.year, request.month, 0))
+      const timeZone = await this.workScheduleService.getTimeZone()
+      const today = getCalendarDate(new Date(), timeZone)
+
+      let department: MonthlyTppDeductions['department']
+      let departmentIds: string[] | undefined
+      if (request.departmentId) {
+        const root = await this.departmentRepository.findById(request.departmentId)
+        if (!root) {
+          return {
+            success: false,
+            error: 'Unit kerja tidak ditemukan'
+          }
+        }
+
+        const descendants = await this.departmentRepository.findDescendants(root.id)
+        department = { id: root.id, name: root.name }
+        departmentIds = [root.id, ...descendants.map(descendant => descendant.id)]
+      }
+
+      const [users, attendances, rules] = await Promise.all([
+        this.findActiveUsers(departmentIds),
+        this.findAttendances(startDate, endDate, departmentIds),
+        this.ruleRepository.findActive()
+      ])
+
+      const attendancesByKey = new Map(
+        attendances.map(attendance => [`${attendance.userId}|${toDateKey(attendance.attendanceDate)}`, attendance])
+      )
+
+      // Only days that are over can be docked; today may still get a check-out
+      const dates = getAttendanceDatesInRange(startDate, endDate).filter(date => date < today)
+      const requestsByDate = new Map<string, TppDayRequests>()
+      for (const date of dates) {
+        requestsByDate.set(toDateKey(date), await this.findDayRequests(date))
+      }
+
+      const schedulesByUser = await this.workScheduleService.resolveSchedules(users.map(user => user.id), startDate, endDate)
+
+      const employees: EmployeeTppDeduction[] = []
+      for (const user of users) {
+        const items: TppDeductionItem[] = []
+        for (const date of dates) {
+          items.push(...this.evaluateDay(
+            user.id,
+            date,
+            attendancesByKey.get(`${user.id}|${toDateKey(date)}`),
+            schedulesByUser.get(user.id)!.get(toDateKey(date))!,
+            requestsByDate.get(toDateKey(date))!,
+            rules,
+            timeZone
+          ))
+        }
+
+        employees.push(this.summarize(user, items))
+      }
+
+      employees.sort((a, b) =>
+        (a.departmentName || '').localeCompare(b.departmentName || '') || (a.name || '').localeCompare(b.name || '')
+      )
+
+      return {
+        success: true,
+        data: {
+          year: request.year,
+          month: request.month,
+          department,
+          rules,
+          employees
+        }
+      }
+    } catch (error) {
+      console.error('Error calculating TPP deductions:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghitung potongan TPP'
+      }
+    }
+  }
+
+  /**
+   * Deductions of one employee for one day
+   * Same precedence as the monthly recap: field duty and approved requests are
+   * never docked, an approved permission covering the scheduled start or end
+   * waives the lateness or early leave
+   */
+  private evaluateDay(
+    userId: string,
+    date: Date,
+    attendance: AttendanceWithUser | undefined,
+    schedule: ResolvedWorkSchedule,
+    requests: TppDayRequests,
+    rules: TppDeductionRuleEntity[],
+    timeZone: string
+  ): TppDeductionItem[] {
+    const dateKey = toDateKey(date)
+
+    if (!attendance || attendance.status === AttendanceStatus.ABSENT) {
+      // Alpha rows are only written for working days
+      if (!attendance && !schedule.isWorkingDay) return []
+
+      if (requests.excusedUserIds.has(userId)) return []
+
+      const rule = rules.find(rule => rule.category === TppDeductionCategory.ABSENT)
+      return rule
+        ? [{ date: dateKey, category: TppDeductionCategory.ABSENT, ruleCode: rule.code, percentage: rule.percentage, description: 'Tidak masuk tanpa keterangan' }]
+        : []
+    }
+
+    if (attendance.workMode === WorkMode.FIELD_DUTY) return []
+
+    // Work on a day off (overtime, piket outside the roster) is never docked
+    if (!schedule.isWorkingDay) return []
+
+    const startMinutes = parseTimeToMinutes(schedule.startTime) ?? 0
+    const endMinutes = (parseTimeToMinutes(schedule.endTime) ?? 0) + (schedule.isOvernight ? 24 * 60 : 0)
+    const permissions = requests.permissionsByUser.get(userId) || []
+    const items: TppDeductionItem[] = []
+
+    if (!attendance.checkInTime) {
+      items.push(this.buildItem(dateKey, TppDeductionCategory.LATE, undefined, rules, 'Tidak absen masuk'))
+    } else if (attendance.lateMinutes > 0) {
+      items.push(this.buildItem(dateKey, TppDeductionCategory.LATE, attendance.lateMinutes, rules, `Terlambat ${attendance.lateMinutes} menit`))
+    }
+
+    // A check-out filled in by the close-out job counts as no check-out
+    if (attendance.checkInTime && (!attendance.checkOutTime || attendance.autoClosedAt)) {
+      items.push(this.buildItem(dateKey, TppDeductionCategory.EARLY_LEAVE, undefined, rules, 'Tidak absen pulang'))
+    } else if (attendance.checkOutTime) {
+      const scheduledEnd = getZonedDateTime(date, endMinutes, timeZone)
+      const earlyMinutes = Math.floor((scheduledEnd.getTime() - attendance.checkOutTime.getTime()) / (60 * 1000))
+      if (earlyMinutes > 0) {
+        items.push(this.buildItem(dateKey, TppDeductionCategory.EARLY_LEAVE, earlyMinutes, rules, `Pulang ${earlyMinutes} menit sebelum waktunya`))
+      }
+    }
+
+    return items
+      .filter(item => item.ruleCode)
+      .map(item => {
+        const scheduledMinutes = item.category === TppDeductionCategory.LATE ? startMinutes : endMinutes
+        const permission = permissions.find(permission => this.coversScheduledTime(permission, scheduledMinutes, item.category))
+        return permission
+          ? { ...item, percentage: 0, excusedBy: `Izin ${formatTimeColumn(permission.startTime)}-${formatTimeColumn(permission.endTime)}: ${permission.reason}` }
+          : item
+      })
+  }
+
+  // Picks the tier for the minutes, or the tier marked for a missing punch
+  private buildItem(
+    date: string,
+    category: TppDeductionCategory,
+    minutes: number | undefined,
+    rules: TppDeductionRuleEntity[],
+    description: string
+  ): TppDeductionItem {
+    const rule = rules.find(rule =>
+      rule.category === category &&
+      (minutes === undefined
+        ? rule.appliesToMissingPunch
+        : minutes >= rule.minMinutes && (rule.maxMinutes === undefined || minutes <= rule.maxMinutes))
+    )
+
+    return {
+      date,
+      category,
+      ruleCode: rule?.code,
+      minutes,
+      percentage: rule?.percentage ?? 0,
+      description
+    }
+  }
+
+  // Izin datang terlambat has to cover the scheduled start, izin pulang cepat the scheduled end
+  private coversScheduledTime(
+    permission: PermissionRequestEntity,
+    scheduledMinutes: number,
+    category: TppDeductionCategory
+  ): boolean {
+    const permissionStart = parseTimeToMinutes(formatTimeColumn(permission.startTime)) ?? 0
+    const permissionEnd = parseTimeToMinutes(formatTimeColumn(permission.endTime)) ?? 0
+
+    return category === TppDeductionCategory.LATE
+      ? permissionStart <= scheduledMinutes && permissionEnd > scheduledMinutes
+      : permissionStart < scheduledMinutes && permissionEnd >= scheduledMinutes
+  }
+
+  private summarize(user: UserWithRelations, items: TppDeductionItem[]): EmployeeTppDeduction {
+    const deducted = items.filter(item => !item.excusedBy)
+    const percentages: Record<TppDeductionCategory, number> = {
+      [TppDeductionCategory.LATE]: 0,
+      [TppDeductionCategory.EARLY_LEAVE]: 0,
+      [TppDeductionCategory.ABSENT]: 0
+    }
+    deducted.forEach(item => { percentages[item.category] += item.percentage })
+
+    const total = Object.values(percentages).reduce((sum, value) => sum + value, 0)
+
+    return {
+      userId: user.id,
+      name: user.name,
+      nip: user.nip,
+      departmentName: user.department?.name,
+      lateCount: deducted.filter(item => item.category === TppDeductionCategory.LATE).length,
+      earlyLeaveCount: deducted.filter(item => item.category === TppDeductionCategory.EARLY_LEAVE).length,
+      absentDays: deducted.filter(item => item.category === TppDeductionCategory.ABSENT).length,
+      percentages: {
+        [TppDeductionCategory.LATE]: roundPercentage(percentages.LATE),
+        [TppDeductionCategory.EARLY_LEAVE]: roundPercentage(percentages.EARLY_LEAVE),
+        [TppDeductionCategory.ABSENT]: roundPercentage(percentages.ABSENT)
+      },
+      totalPercentage: roundPercentage(Math.min(total, MAX_TPP_DEDUCTION_PERCENTAGE)),
+      items
+    }
+  }
+
+  private async findDayRequests(date: Date): Promise<TppDayRequests> {
+    const [leaves, permissions, workLetters] = await Promise.all([
+      this.leaveRequestRepository.findActiveLeavesByDate(date),
+      this.permissionRequestRepository.findActivePermissionsByDate(date),
+      this.workLetterRepository.findActiveWorkLettersByDate(date)
+    ])
+
+    const permissionsByUser = new Map<string, PermissionRequestEntity[]>()
+    for (const permission of permissions) {
+      permissionsByUser.set(permission.userId, [...(permissionsByUser.get(permission.userId) || []), permission])
+    }
+
+    return {
+      excusedUserIds: new Set([
+        ...leaves.map(leave => leave.userId),
+        ...permissions.map(permission => permission.userId),
+        ...workLetters.map(workLetter => workLetter.userId)
+      ]),
+      permissionsByUser
+    }
+  }
+
+  private async findActiveUsers(departmentIds?: string[]): Promise<UserWithRelations[]> {
+    if (!departmentIds) {
+      return this.userRepository.findManyWithRelations({ status: UserStatus.ACTIVE })
+    }
+
+    const users = await Promise.all(
+      departmentIds.map(departmentId =>
+        this.userRepository.findManyWithRelations({ status: UserStatus.ACTIVE, departmentId })
+      )
+    )
+    return users.flat()
+  }
+
+  private async findAttendances(startDate: Date, endDate: Date, departmentIds?: string[]): Promise<AttendanceWithUser[]> {
+    if (!departmentIds) {
+      return this.attendanceRepository.findMany({ startDate, endDate })
+    }
+
+    const attendances = await Promise.all(
+      departmentIds.map(departmentId => this.attendanceRepository.findMany({ startDate, endDate, departmentId }))
+    )
+    return attendances.flat()
+  }
+
+  private validateInput(request: CalculateTppDeductionsRequest): { isValid: boolean; error?: string } {
+    if (!Number.isInteger(request.year) || request.year < 2000 || request.year > 2100) {
+      return { isValid: false, error: 'Tahun tidak valid' }
+    }
+
+    if (!Number.isInteger(request.month) || request.month < 1 || request.month > 12) {
+      return { isValid: false, error: 'Bulan tidak valid' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,183 @@
+// ============================================================================
+// CREATE TPP DEDUCTION RULE USE CASE
+// src/use-cases/tpp/CreateTppDeductionRule.ts
+// ============================================================================
+
+import { TppDeductionCategory } from '@prisma/client'
+import { ITppDeductionRuleRepository, TppDeductionRuleEntity } from '@/domain/repositories/ITppDeductionRuleRepository'
+import { TppAuditService } from '@/infrastructure/services/TppAuditService'
+
+export const TPP_RULE_CODE_PATTERN = /^[A-Z0-9_-]{1,20}$/
+
+export interface CreateTppDeductionRuleRequest {
+  code: string // e.g. TL1, PSW4, TK
+  category: TppDeductionCategory
+  minMinutes?: number // Ignored for ABSENT, which is charged per day
+  maxMinutes?: number | null
+  percentage: number
+  description?: string
+  appliesToMissingPunch?: boolean
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface CreateTppDeductionRuleResponse {
+  success: boolean
+  data?: TppDeductionRuleEntity
+  error?: string
+}
+
+export type TppDeductionRuleTier = Pick<
+  TppDeductionRuleEntity,
+  'category' | 'minMinutes' | 'maxMinutes' | 'appliesToMissingPunch' | 'isActive'
+>
+
+/**
+ * Active tiers of a category must not overlap, otherwise a late arrival would
+ * match two rules; only one of them may also cover the missing punch
+ */
+export function findTppRuleConflict(
+  rule: TppDeductionRuleTier,
+  others: TppDeductionRuleEntity[]
+): string | null {
+  if (!rule.isActive) {
+    return null
+  }
+
+  for (const other of others.filter(other => other.isActive && other.category === rule.category)) {
+    if (rule.category === TppDeductionCategory.ABSENT) {
+      return `Aturan tidak masuk tanpa keterangan sudah ada (${other.code})`
+    }
+
+    const overlaps = rule.minMinutes <= (other.maxMinutes ?? Infinity) && other.minMinutes <= (rule.maxMinutes ?? Infinity)
+    if (overlaps) {
+      return `Rentang menit bertumpang tindih dengan aturan ${other.code}`
+    }
+
+    if (rule.appliesToMissingPunch && other.appliesToMissingPunch) {
+      return `Aturan ${other.code} sudah berlaku untuk absen yang tidak lengkap`
+    }
+  }
+
+  return null
+}
+
+export class CreateTppDeductionRule {
+  constructor(
+    private ruleRepository: ITppDeductionRuleRepository,
+    private auditService: TppAuditService
+  ) {}
+
+  async execute(request: CreateTppDeductionRuleRequest): Promise<CreateTppDeductionRuleResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      const code = request.code.trim().toUpperCase()
+      const isAbsent = request.category === TppDeductionCategory.ABSENT
+      const tier: TppDeductionRuleTier = {
+        category: request.category,
+        minMinutes: isAbsent ? 0 : request.minMinutes!,
+        maxMinutes: isAbsent ? undefined : request.maxMinutes ?? undefined,
+        appliesToMissingPunch: !isAbsent && (request.appliesToMissingPunch ?? false),
+        isActive: request.isActive ?? true
+      }
+
+      // Check for duplicate code
+      const isUnique = await this.ruleRepository.isCodeUnique(code)
+      if (!isUnique) {
+        return {
+          success: false,
+          error: 'Kode aturan sudah digunakan'
+        }
+      }
+
+      const conflict = findTppRuleConflict(tier, await this.ruleRepository.findMany({ category: request.category }))
+      if (conflict) {
+        return {
+          success: false,
+          error: conflict
+        }
+      }
+
+      const rule = await this.ruleRepository.create({
+        ...tier,
+        code,
+        percentage: request.percentage,
+        description: request.description?.trim() || undefined
+      })
+
+      // Log audit trail
+      await this.auditService.logCreate(
+        rule.id,
+        {
+          code: rule.code,
+          category: rule.category,
+          minMinutes: rule.minMinutes,
+          maxMinutes: rule.maxMinutes ?? null,
+          percentage: rule.percentage,
+          appliesToMissingPunch: rule.appliesToMissingPunch,
+          isActive: rule.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: rule
+      }
+    } catch (error) {
+      console.error('Error creating TPP deduction rule:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat membuat aturan potongan TPP'
+      }
+    }
+  }
+
+  private validateInput(request: CreateTppDeductionRuleRequest): { isValid: boolean; error?: string } {
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (!request.code || !TPP_RULE_CODE_PATTERN.test(request.code.trim().toUpperCase())) {
+      return { isValid: false, error: 'Kode aturan wajib diisi, maksimal 20 karakter huruf/angka' }
+    }
+
+    if (!Object.values(TppDeductionCategory).includes(request.category)) {
+      return { isValid: false, error: 'Kategori potongan tidak valid' }
+    }
+
+    if (request.category !== TppDeductionCategory.ABSENT) {
+      if (!Number.isInteger(request.minMinutes) || request.minMinutes! < 0) {
+        return { isValid: false, error: 'Menit minimum harus berupa bilangan bulat positif' }
+      }
+
+      if (request.maxMinutes !== undefined && request.maxMinutes !== null) {
+        if (!Number.isInteger(request.maxMinutes) || request.maxMinutes < request.minMinutes!) {
+          return { isValid: false, error: 'Menit maksimum tidak boleh kurang dari menit minimum' }
+        }
+      }
+    }
+
+    if (typeof request.percentage !== 'number' || isNaN(request.percentage) || request.percentage < 0 || request.percentage > 100) {
+      return { isValid: false, error: 'Persentase potongan harus antara 0-100' }
+    }
+
+    if (request.description && request.description.trim().length > 500) {
+      return { isValid: false, error: 'Deskripsi maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
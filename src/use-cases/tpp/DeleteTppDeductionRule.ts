@@ -0,0 +1,77 @@
+// ============================================================================
+// DELETE TPP DEDUCTION RULE USE CASE
+// src/use-cases/tpp/DeleteTppDeductionRule.ts
+// ============================================================================
+
+import { ITppDeductionRuleRepository } from '@/domain/repositories/ITppDeductionRuleRepository'
+import { TppAuditService } from '@/infrastructure/services/TppAuditService'
+
+export interface DeleteTppDeductionRuleRequest {
+  id: string
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface DeleteTppDeductionRuleResponse {
+  success: boolean
+  message?: string
+  error?: string
+}
+
+export class DeleteTppDeductionRule {
+  constructor(
+    private ruleRepository: ITppDeductionRuleRepository,
+    private auditService: TppAuditService
+  ) {}
+
+  async execute(request: DeleteTppDeductionRuleRequest): Promise<DeleteTppDeductionRuleResponse> {
+    try {
+      if (!request.id || !request.adminUserId) {
+        return {
+          success: false,
+          error: 'ID aturan dan admin user ID wajib diisi'
+        }
+      }
+
+      // Check if rule exists
+      const existingRule = await this.ruleRepository.findById(request.id)
+      if (!existingRule) {
+        return {
+          success: false,
+          error: 'Aturan potongan TPP tidak ditemukan'
+        }
+      }
+
+      await this.ruleRepository.delete(request.id)
+
+      // Log audit trail
+      await this.auditService.logDelete(
+        existingRule.id,
+        {
+          code: existingRule.code,
+          category: existingRule.category,
+          minMinutes: existingRule.minMinutes,
+          maxMinutes: existingRule.maxMinutes ?? null,
+          percentage: existingRule.percentage,
+          appliesToMissingPunch: existingRule.appliesToMissingPunch,
+          isActive: existingRule.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        message: `Aturan potongan "${existingRule.code}" berhasil dihapus`
+      }
+    } catch (error) {
+      console.error('Error deleting TPP deduction rule:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat menghapus aturan potongan TPP'
+      }
+    }
+  }
+}
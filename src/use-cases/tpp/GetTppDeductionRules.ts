@@ -0,0 +1,50 @@
+// ============================================================================
+// GET TPP DEDUCTION RULES USE CASE
+// src/use-cases/tpp/GetTppDeductionRules.ts
+// ============================================================================
+
+import { TppDeductionCategory } from '@prisma/client'
+import { ITppDeductionRuleRepository, TppDeductionRuleEntity } from '@/domain/repositories/ITppDeductionRuleRepository'
+
+export interface GetTppDeductionRulesRequest {
+  category?: TppDeductionCategory
+  isActive?: boolean
+}
+
+export interface GetTppDeductionRulesResponse {
+  success: boolean
+  data?: TppDeductionRuleEntity[]
+  error?: string
+}
+
+export class GetTppDeductionRules {
+  constructor(private ruleRepository: ITppDeductionRuleRepository) {}
+
+  async execute(request: GetTppDeductionRulesRequest): Promise<GetTppDeductionRulesResponse> {
+    try {
+      if (request.category && !Object.values(TppDeductionCategory).includes(request.category)) {
+        return {
+          success: false,
+          error: 'Kategori potongan tidak valid'
+        }
+      }
+
+      // The whole table is a handful of tiers, so it is never paginated
+      const rules = await this.ruleRepository.findMany({
+        ...(request.category && { category: request.category }),
+        ...(request.isActive !== undefined && { isActive: request.isActive })
+      })
+
+      return {
+        success: true,
+        data: rules
+      }
+    } catch (error) {
+      console.error('Error getting TPP deduction rules:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat mengambil aturan potongan TPP'
+      }
+    }
+  }
+}
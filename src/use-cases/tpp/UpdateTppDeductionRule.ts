@@ -0,0 +1,195 @@
+// ============================================================================
+// UPDATE TPP DEDUCTION RULE USE CASE
+// src/use-cases/tpp/UpdateTppDeductionRule.ts
+// ============================================================================
+
+import { TppDeductionCategory } from '@prisma/client'
+import {
+  ITppDeductionRuleRepository,
+  TppDeductionRuleEntity,
+  UpdateTppDeductionRuleData
+} from '@/domain/repositories/ITppDeductionRuleRepository'
+import { TppAuditService } from '@/infrastructure/services/TppAuditService'
+import { TPP_RULE_CODE_PATTERN, TppDeductionRuleTier, findTppRuleConflict } from './CreateTppDeductionRule'
+
+export interface UpdateTppDeductionRuleRequest {
+  id: string
+  code?: string
+  category?: TppDeductionCategory
+  minMinutes?: number
+  maxMinutes?: number | null // null removes the upper bound
+  percentage?: number
+  description?: string
+  appliesToMissingPunch?: boolean
+  isActive?: boolean
+  adminUserId: string
+  ipAddress?: string
+  userAgent?: string
+}
+
+export interface UpdateTppDeductionRuleResponse {
+  success: boolean
+  data?: TppDeductionRuleEntity
+  error?: string
+}
+
+export class UpdateTppDeductionRule {
+  constructor(
+    private ruleRepository: ITppDeductionRuleRepository,
+    private auditService: TppAuditService
+  ) {}
+
+  async execute(request: UpdateTppDeductionRuleRequest): Promise<UpdateTppDeductionRuleResponse> {
+    try {
+      // Validate input data
+      const validation = this.validateInput(request)
+      if (!validation.isValid) {
+        return {
+          success: false,
+          error: validation.error
+        }
+      }
+
+      // Check if rule exists
+      const existingRule = await this.ruleRepository.findById(request.id)
+      if (!existingRule) {
+        return {
+          success: false,
+          error: 'Aturan potongan TPP tidak ditemukan'
+        }
+      }
+
+      const code = request.code?.trim().toUpperCase() || existingRule.code
+      const category = request.category || existingRule.category
+      const isAbsent = category === TppDeductionCategory.ABSENT
+      const minMinutes = request.minMinutes ?? existingRule.minMinutes
+      const maxMinutes = request.maxMinutes !== undefined ? request.maxMinutes ?? undefined : existingRule.maxMinutes
+      const tier: TppDeductionRuleTier = {
+        category,
+        minMinutes: isAbsent ? 0 : minMinutes,
+        maxMinutes: isAbsent ? undefined : maxMinutes,
+        appliesToMissingPunch: !isAbsent && (request.appliesToMissingPunch ?? existingRule.appliesToMissingPunch),
+        isActive: request.isActive ?? existingRule.isActive
+      }
+
+      if (tier.maxMinutes !== undefined && tier.maxMinutes < tier.minMinutes) {
+        return {
+          success: false,
+          error: 'Menit maksimum tidak boleh kurang dari menit minimum'
+        }
+      }
+
+      // Check for duplicate code
+      if (code !== existingRule.code) {
+        const isUnique = await this.ruleRepository.isCodeUnique(code, request.id)
+        if (!isUnique) {
+          return {
+            success: false,
+            error: 'Kode aturan sudah digunakan'
+          }
+        }
+      }
+
+      const others = await this.ruleRepository.findMany({ category })
+      const conflict = findTppRuleConflict(tier, others.filter(other => other.id !== request.id))
+      if (conflict) {
+        return {
+          success: false,
+          error: conflict
+        }
+      }
+
+      // Prepare update data
+      const updateData: UpdateTppDeductionRuleData = {
+        ...tier,
+        code,
+        maxMinutes: tier.maxMinutes ?? null
+      }
+
+      if (request.percentage !== undefined) {
+        updateData.percentage = request.percentage
+      }
+
+      if (request.description !== undefined) {
+        updateData.description = request.description.trim() || null
+      }
+
+      const rule = await this.ruleRepository.update(request.id, updateData)
+
+      // Log audit trail
+      await this.auditService.logUpdate(
+        rule.id,
+        {
+          code: existingRule.code,
+          category: existingRule.category,
+          minMinutes: existingRule.minMinutes,
+          maxMinutes: existingRule.maxMinutes ?? null,
+          percentage: existingRule.percentage,
+          appliesToMissingPunch: existingRule.appliesToMissingPunch,
+          isActive: existingRule.isActive
+        },
+        {
+          code: rule.code,
+          category: rule.category,
+          minMinutes: rule.minMinutes,
+          maxMinutes: rule.maxMinutes ?? null,
+          percentage: rule.percentage,
+          appliesToMissingPunch: rule.appliesToMissingPunch,
+          isActive: rule.isActive
+        },
+        request.adminUserId,
+        request.ipAddress,
+        request.userAgent
+      )
+
+      return {
+        success: true,
+        data: rule
+      }
+    } catch (error) {
+      console.error('Error updating TPP deduction rule:', error)
+      return {
+        success: false,
+        error: 'Terjadi kesalahan saat memperbarui aturan potongan TPP'
+      }
+    }
+  }
+
+  private validateInput(request: UpdateTppDeductionRuleRequest): { isValid: boolean; error?: string } {
+    if (!request.id || request.id.trim().length === 0) {
+      return { isValid: false, error: 'ID aturan wajib diisi' }
+    }
+
+    if (!request.adminUserId || request.adminUserId.trim().length === 0) {
+      return { isValid: false, error: 'Admin user ID wajib diisi' }
+    }
+
+    if (request.code !== undefined && !TPP_RULE_CODE_PATTERN.test(request.code.trim().toUpperCase())) {
+      return { isValid: false, error: 'Kode aturan maksimal 20 karakter huruf/angka' }
+    }
+
+    if (request.category && !Object.values(TppDeductionCategory).includes(request.category)) {
+      return { isValid: false, error: 'Kategori potongan tidak valid' }
+    }
+
+    if (request.minMinutes !== undefined && (!Number.isInteger(request.minMinutes) || request.minMinutes < 0)) {
+      return { isValid: false, error: 'Menit minimum harus berupa bilangan bulat positif' }
+    }
+
+    if (request.maxMinutes !== undefined && request.maxMinutes !== null && !Number.isInteger(request.maxMinutes)) {
+      return { isValid: false, error: 'Menit maksimum harus berupa bilangan bulat' }
+    }
+
+    if (request.percentage !== undefined) {
+      if (typeof request.percentage !== 'number' || isNaN(request.percentage) || request.percentage < 0 || request.percentage > 100) {
+        return { isValid: false, error: 'Persentase potongan harus antara 0-100' }
+      }
+    }
+
+    if (request.description && request.description.trim().length > 500) {
+      return { isValid: false, error: 'Deskripsi maksimal 500 karakter' }
+    }
+
+    return { isValid: true }
+  }
+}
@@ -0,0 +1,247 @@
+// ============================================================================
+// ATTENDANCE IMPORT PARSERS
+// src/utils/attendanceImport.ts
+// ============================================================================
+
+import ExcelJS from 'exceljs'
+import { AttendanceStatus } from '@prisma/client'
+import { formatMinutesAsTime, parseTimeToMinutes } from '@/utils/dateUtils'
+
+export type AttendanceImportFormat = 'CSV' | 'XLSX'
+
+export interface ParsedAttendanceRow {
+  line: number
+  nip: string
+  date: string // YYYY-MM-DD
+  checkInTime?: string // HH:mm
+  checkOutTime?: string // HH:mm, before check-in means the next day
+  status?: AttendanceStatus
+  notes?: string
+}
+
+export interface AttendanceImportParseResult {
+  rows: ParsedAttendanceRow[]
+  errors: Array<{ line: number; message: string }>
+}
+
+// Accepted values for the "status" column (English enum names and Indonesian labels)
+const STATUS_ALIASES: Record<string, AttendanceStatus> = {
+  present: AttendanceStatus.PRESENT,
+  hadir: AttendanceStatus.PRESENT,
+  tepat_waktu: AttendanceStatus.PRESENT,
+  late: AttendanceStatus.LATE,
+  terlambat: AttendanceStatus.LATE,
+  absent: AttendanceStatus.ABSENT,
+  alpha: AttendanceStatus.ABSENT,
+  alpa: AttendanceStatus.ABSENT,
+  tidak_hadir: AttendanceStatus.ABSENT,
+  half_day: AttendanceStatus.HALF_DAY,
+  setengah_hari: AttendanceStatus.HALF_DAY
+}
+
+/**
+ * Parse an attendance CSV file
+ * Expected header: nip,date[,check_in][,check_out][,status][,notes]
+ * "," and ";" separators are both accepted
+ */
+export function parseAttendanceCsv(content: string): AttendanceImportParseResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  const headerIndex = lines.findIndex(line => line.trim().length > 0)
+  if (headerIndex === -1) {
+    return { rows: [], errors: [{ line: 1, message: 'File CSV kosong' }] }
+  }
+
+  const separator = lines[headerIndex].includes(';') && !lines[headerIndex].includes(',') ? ';' : ','
+  const records = lines
+    .map((line, index) => ({ line: index + 1, values: splitCsvLine(line, separator) }))
+    .filter((record, index) => index > headerIndex && lines[index].trim().length > 0)
+
+  return mapAttendanceRecords(splitCsvLine(lines[headerIndex], separator), headerIndex + 1, records)
+}
+
+/**
+ * Parse the first worksheet of an attendance XLSX workbook
+ * Same columns as the CSV; date and time cells may be formatted as text or as
+ * spreadsheet dates
+ */
+export async function parseAttendanceXlsx(content: ArrayBuffer): Promise<AttendanceImportParseResult> {
+  const workbook = new ExcelJS.Workbook()
+  try {
+    await workbook.xlsx.load(content)
+  } catch {
+    return { rows: [], errors: [{ line: 1, message: 'File XLSX tidak dapat dibaca' }] }
+  }
+
+  const worksheet = workbook.worksheets[0]
+  if (!worksheet || worksheet.actualRowCount === 0) {
+    return { rows: [], errors: [{ line: 1, message: 'File XLSX kosong' }] }
+  }
+
+  const records: Array<{ line: number; values: string[] }> = []
+  worksheet.eachRow((row, rowNumber) => {
+    // row.values is 1-based
+    const values = (row.values as ExcelJS.CellValue[]).slice(1).map(cellToString)
+    if (values.some(value => value.trim().length > 0)) {
+      records.push({ line: rowNumber, values })
+    }
+  })
+
+  const [header, ...dataRecords] = records
+  return mapAttendanceRecords(header.values, header.line, dataRecords)
+}
+
+function mapAttendanceRecords(
+  headerValues: string[],
+  headerLine: number,
+  records: Array<{ line: number; values: string[] }>
+): AttendanceImportParseResult {
+  const result: AttendanceImportParseResult = { rows: [], errors: [] }
+
+  const header = headerValues.map(column => column.trim().toLowerCase().replace(/[\s-]+/g, '_'))
+  const columnOf = (...names: string[]) => header.findIndex(column => names.includes(column))
+
+  const nipColumn = columnOf('nip')
+  const dateColumn = columnOf('date', 'tanggal')
+  const checkInColumn = columnOf('check_in', 'checkin', 'jam_masuk', 'masuk')
+  const checkOutColumn = columnOf('check_out', 'checkout', 'jam_pulang', 'pulang')
+  const statusColumn = columnOf('status')
+  const notesColumn = columnOf('notes', 'catatan', 'keterangan')
+
+  if (nipColumn === -1 || dateColumn === -1) {
+    result.errors.push({ line: headerLine, message: 'Header wajib memiliki kolom nip dan date' })
+    return result
+  }
+
+  for (const record of records) {
+    const valueAt = (column: number) => (column >= 0 ? record.values[column]?.trim() : undefined) || undefined
+
+    const nip = valueAt(nipColumn)
+    if (!nip) {
+      result.errors.push({ line: record.line, message: 'NIP wajib diisi' })
+      continue
+    }
+
+    const date = parseDateValue(valueAt(dateColumn))
+    if (!date) {
+      result.errors.push({ line: record.line, message: `Tanggal tidak valid: ${valueAt(dateColumn) || '-'}` })
+      continue
+    }
+
+    const checkInValue = valueAt(checkInColumn)
+    const checkInTime = parseTimeValue(checkInValue)
+    if (checkInValue && !checkInTime) {
+      result.errors.push({ line: record.line, message: `Jam masuk tidak valid: ${checkInValue}` })
+      continue
+    }
+
+    const checkOutValue = valueAt(checkOutColumn)
+    const checkOutTime = parseTimeValue(checkOutValue)
+    if (checkOutValue && !checkOutTime) {
+      result.errors.push({ line: record.line, message: `Jam pulang tidak valid: ${checkOutValue}` })
+      continue
+    }
+
+    const statusValue = valueAt(statusColumn)
+    const status = statusValue ? STATUS_ALIASES[statusValue.toLowerCase().replace(/[\s-]+/g, '_')] : undefined
+    if (statusValue && !status) {
+      result.errors.push({ line: record.line, message: `Status absensi tidak dikenal: ${statusValue}` })
+      continue
+    }
+
+    result.rows.push({
+      line: record.line,
+      nip,
+      date,
+      checkInTime: checkInTime || undefined,
+      checkOutTime: checkOutTime || undefined,
+      status,
+      notes: valueAt(notesColumn)
+    })
+  }
+
+  return result
+}
+
+// Spreadsheet dates come back as JS dates holding the wall-clock value in UTC;
+// time-only cells fall on 1899-12-30
+function cellToString(value: ExcelJS.CellValue): string {
+  if (value === null || value === undefined) {
+    return ''
+  }
+
+  if (value instanceof Date) {
+    const time = formatMinutesAsTime(value.getUTCHours() * 60 + value.getUTCMinutes())
+    if (value.getUTCFullYear() < 1901) {
+      return time
+    }
+    const date = value.toISOString().split('T')[0]
+    return time === '00:00' ? date : `${date} ${time}`
+  }
+
+  if (typeof value === 'object') {
+    if ('result' in value) return cellToString(value.result as ExcelJS.CellValue) // Formula
+    if ('richText' in value) return value.richText.map(part => part.text).join('')
+    if ('text' in value) return String(value.text) // Hyperlink
+    return ''
+  }
+
+  return String(value)
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const columns: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === separator && !inQuotes) {
+      columns.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  columns.push(current)
+
+  return columns
+}
+
+function parseDateValue(value: string | undefined): string | null {
+  if (!value) {
+    return null
+  }
+
+  // A date cell with a time part only contributes its date
+  const datePart = value.split(' ')[0]
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(datePart)
+  const local = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(datePart)
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local
+      ? [Number(local[3]), Number(local[2]), Number(local[1])]
+      : [NaN, NaN, NaN]
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return date.toISOString().split('T')[0]
+}
+
+// "07:30", "7.30" (Indonesian notation) and "07:30:15" are accepted; a
+// date-time cell only contributes its time
+function parseTimeValue(value: string | undefined): string | null {
+  const minutes = parseTimeToMinutes(value?.split(' ').pop()?.replace('.', ':'))
+  return minutes !== null ? formatMinutesAsTime(minutes) : null
+}
@@ -0,0 +1,43 @@
+// ============================================================================
+// ATTENDANCE PHOTO UTILITIES
+// src/utils/attendancePhoto.ts
+// ============================================================================
+
+import { AttendancePhoto } from '@/domain/services/IAttendancePhotoService'
+
+export const MAX_ATTENDANCE_PHOTO_BYTES = 2 * 1024 * 1024
+
+const PHOTO_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp']
+
+const DATA_URL_PATTERN = /^data:([a-z/+-]+);base64,([A-Za-z0-9+/]+=*)$/
+
+/**
+ * Parse a photo sent by the browser as a base64 data URL
+ * @returns The decoded photo, or an error message in Indonesian
+ */
+export function parsePhotoDataUrl(value: unknown): { photo?: AttendancePhoto; error?: string } {
+  if (typeof value !== 'string') {
+    return { error: 'Foto harus berupa data URL' }
+  }
+
+  const match = DATA_URL_PATTERN.exec(value)
+  if (!match) {
+    return { error: 'Format foto tidak valid' }
+  }
+
+  const [, contentType, base64] = match
+  if (!PHOTO_CONTENT_TYPES.includes(contentType)) {
+    return { error: 'Foto harus berformat JPEG, PNG, atau WebP' }
+  }
+
+  const data = Buffer.from(base64, 'base64')
+  if (data.length === 0) {
+    return { error: 'Foto kosong' }
+  }
+
+  if (data.length > MAX_ATTENDANCE_PHOTO_BYTES) {
+    return { error: 'Ukuran foto maksimal 2 MB' }
+  }
+
+  return { photo: { data, contentType } }
+}
@@ -0,0 +1,114 @@
+// ============================================================================
+// ATTENDANCE PUNCH UTILITIES
+// src/utils/attendancePunches.ts
+// ============================================================================
+
+import type { PunchType } from '@prisma/client'
+
+export type PunchState = 'NOT_STARTED' | 'WORKING' | 'ON_BREAK' | 'OUT'
+
+export interface PunchEvent {
+  punchType: PunchType
+  punchTime: Date
+}
+
+export interface PunchSummary {
+  state: PunchState
+  firstInTime?: Date
+  lastOutTime?: Date // Only set while the day is closed by an OUT punch
+  workingMinutes: number // Net of breaks and of time away between OUT and IN
+  breakMinutes: number
+}
+
+// Punch types accepted in each state; OUT during a break is not allowed
+export const ALLOWED_PUNCHES: Record<PunchState, PunchType[]> = {
+  NOT_STARTED: ['IN'],
+  WORKING: ['BREAK_START', 'OUT'],
+  ON_BREAK: ['BREAK_END'],
+  OUT: ['IN']
+}
+
+const NEXT_STATE: Record<PunchType, PunchState> = {
+  IN: 'WORKING',
+  BREAK_START: 'ON_BREAK',
+  BREAK_END: 'WORKING',
+  OUT: 'OUT'
+}
+
+export function isPunchAllowed(state: PunchState, punchType: PunchType): boolean {
+  return ALLOWED_PUNCHES[state].includes(punchType)
+}
+
+/**
+ * Derive the daily attendance values from a punch sequence
+ * @param punches - Punches of one attendance day, in chronological order
+ * @param until - Counts a still open working or break segment up to this moment
+ * @returns State after the last punch with net working and break minutes
+ */
+export function summarizePunches(punches: PunchEvent[], until?: Date): PunchSummary {
+  let state: PunchState = 'NOT_STARTED'
+  let firstInTime: Date | undefined
+  let segmentStart: Date | undefined
+  let workingMs = 0
+  let breakMs = 0
+
+  const closeSegment = (end: Date) => {
+    if (!segmentStart) return
+    const duration = Math.max(0, end.getTime() - segmentStart.getTime())
+    if (state === 'WORKING') workingMs += duration
+    if (state === 'ON_BREAK') breakMs += duration
+  }
+
+  for (const punch of punches) {
+    // Out-of-sequence punches are ignored instead of corrupting the totals
+    if (!isPunchAllowed(state, punch.punchType)) {
+      continue
+    }
+
+    closeSegment(punch.punchTime)
+
+    if (punch.punchType === 'IN' && !firstInTime) {
+      firstInTime = punch.punchTime
+    }
+
+    state = NEXT_STATE[punch.punchType]
+    segmentStart = punch.punchTime
+  }
+
+  if (until && (state === 'WORKING' || state === 'ON_BREAK')) {
+    closeSegment(until)
+  }
+
+  return {
+    state,
+    firstInTime,
+    lastOutTime: state === 'OUT' ? segmentStart : undefined,
+    workingMinutes: Math.floor(workingMs / (1000 * 60)),
+    breakMinutes: Math.floor(breakMs / (1000 * 60))
+  }
+}
+
+/**
+ * Punch sequence of an attendance day, filled in with its check-in/check-out
+ * where no punch covers them, e.g. a legacy check-in followed by real punches
+ */
+export function withImplicitPunches(punches: PunchEvent[], checkInTime?: Date, checkOutTime?: Date): PunchEvent[] {
+  if (!checkInTime) {
+    return punches
+  }
+
+  const hasInPunch = punches.some(punch => punch.punchType === 'IN' && punch.punchTime <= checkInTime)
+  const hasOutPunch = !checkOutTime ||
+    punches.some(punch => punch.punchType === 'OUT' && punch.punchTime >= checkOutTime)
+
+  if (hasInPunch && hasOutPunch) {
+    return punches
+  }
+
+  // Stable sort keeps real punches recorded at the same moment after the implicit IN
+  return [
+    ...(hasInPunch ? [] : [{ punchType: 'IN' as const, punchTime: checkInTime }]),
+    ...punches,
+    ...(hasOutPunch ? [] : [{ punchType: 'OUT' as const, punchTime: checkOutTime! }])
+  ].sort((a, b) => a.punchTime.getTime() - b.punchTime.getTime())
+}
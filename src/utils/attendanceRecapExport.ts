@@ -0,0 +1,241 @@
+// ============================================================================
+// ATTENDANCE RECAP EXPORT
+// src/utils/attendanceRecapExport.ts
+// ============================================================================
+
+import ExcelJS from 'exceljs'
+import { jsPDF } from 'jspdf'
+import autoTable from 'jspdf-autotable'
+import {
+  ATTENDANCE_RECAP_CODES,
+  AttendanceRecapCode,
+  MonthlyAttendanceRecap
+} from '@/use-cases/reporting/GetMonthlyAttendanceRecap'
+import { DEFAULT_TIMEZONE } from '@/utils/dateUtils'
+
+export const ATTENDANCE_RECAP_CODE_LABELS: Record<AttendanceRecapCode, string> = {
+  H: 'Hadir',
+  T: 'Terlambat',
+  A: 'Alpha',
+  I: 'Izin',
+  C: 'Cuti',
+  DL: 'Dinas Luar'
+}
+
+// Weekend and holiday columns are shaded on both exports
+const NON_WORKING_DAY_COLOR = 'D9D9D9'
+
+export function getAttendanceRecapPeriodLabel(recap: MonthlyAttendanceRecap): string {
+  return new Date(Date.UTC(recap.year, recap.month - 1, 1)).toLocaleDateString('id-ID', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+export function getAttendanceRecapFileName(recap: MonthlyAttendanceRecap, extension: 'xlsx' | 'pdf'): string {
+  const period = `${recap.year}-${String(recap.month).padStart(2, '0')}`
+  return `rekap-absensi-${period}.${extension}`
+}
+
+function getTitleLines(recap: MonthlyAttendanceRecap): string[] {
+  return [
+    `REKAP ABSENSI PEGAWAI BULAN ${getAttendanceRecapPeriodLabel(recap).toUpperCase()}`,
+    `Unit Kerja: ${recap.department?.name || 'Semua Unit'}`
+  ]
+}
+
+function getLegend(): string {
+  return `Keterangan: ${ATTENDANCE_RECAP_CODES.map(code => `${code} = ${ATTENDANCE_RECAP_CODE_LABELS[code]}`).join(', ')}`
+}
+
+function getSignatureLines(recap: MonthlyAttendanceRecap): string[] {
+  const printedOn = new Date().toLocaleDateString('id-ID', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: DEFAULT_TIMEZONE
+  })
+  return [printedOn, 'Mengetahui,', 'Pimpinan Instansi', '', '', '', recap.institution.headName || '(..............................)']
+}
+
+/**
+ * Build the recap as an XLSX workbook: institution header, one row per
+ * employee with a column per day and the totals per code
+ */
+export async function buildAttendanceRecapXlsx(recap: MonthlyAttendanceRecap): Promise<Buffer> {
+  const workbook = new ExcelJS.Workbook()
+  const worksheet = workbook.addWorksheet('Rekap Absensi', {
+    pageSetup: { orientation: 'landscape', paperSize: 9, fitToPage: true, fitToWidth: 1, fitToHeight: 0 }
+  })
+
+  const firstDayColumn = 4
+  const firstTotalColumn = firstDayColumn + recap.days.length
+  const lastColumn = firstTotalColumn + ATTENDANCE_RECAP_CODES.length - 1
+
+  const addTitleRow = (text: string, bold = false) => {
+    const row = worksheet.addRow([text])
+    worksheet.mergeCells(row.number, 1, row.number, lastColumn)
+    row.getCell(1).alignment = { horizontal: 'center' }
+    row.getCell(1).font = { bold, size: bold ? 12 : 10 }
+  }
+
+  addTitleRow(recap.institution.name?.toUpperCase() || '', true)
+  if (recap.institution.address) {
+    addTitleRow(recap.institution.address)
+  }
+  worksheet.addRow([])
+  getTitleLines(recap).forEach((line, index) => addTitleRow(line, index === 0))
+  worksheet.addRow([])
+
+  const header = worksheet.addRow([
+    'No',
+    'NIP',
+    'Nama',
+    ...recap.days.map(day => day.day),
+    ...ATTENDANCE_RECAP_CODES
+  ])
+  header.font = { bold: true }
+
+  recap.employees.forEach((employee, index) => {
+    worksheet.addRow([
+      index + 1,
+      employee.nip || '',
+      employee.name || '',
+      ...employee.codes.map(code => code || ''),
+      ...ATTENDANCE_RECAP_CODES.map(code => employee.totals[code])
+    ])
+  })
+
+  const footer = worksheet.addRow([
+    '',
+    '',
+    'Jumlah',
+    ...recap.days.map(() => ''),
+    ...ATTENDANCE_RECAP_CODES.map(code => recap.totals[code])
+  ])
+  footer.font = { bold: true }
+
+  for (let rowNumber = header.number; rowNumber <= footer.number; rowNumber++) {
+    const row = worksheet.getRow(rowNumber)
+    for (let column = 1; column <= lastColumn; column++) {
+      const cell = row.getCell(column)
+      cell.border = {
+        top: { style: 'thin' },
+        left: { style: 'thin' },
+        bottom: { style: 'thin' },
+        right: { style: 'thin' }
+      }
+      if (column !== 3) {
+        cell.alignment = { horizontal: 'center' }
+      }
+
+      const day = recap.days[column - firstDayColumn]
+      if (day && (day.isWeekend || day.holidayName)) {
+        cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: `FF${NON_WORKING_DAY_COLOR}` } }
+      }
+    }
+  }
+
+  worksheet.getColumn(1).width = 5
+  worksheet.getColumn(2).width = 21
+  worksheet.getColumn(3).width = 30
+  for (let column = firstDayColumn; column <= lastColumn; column++) {
+    worksheet.getColumn(column).width = column < firstTotalColumn ? 4 : 5
+  }
+
+  worksheet.addRow([])
+  worksheet.addRow([getLegend()])
+
+  // Signature block under the totals columns
+  worksheet.addRow([])
+  for (const line of getSignatureLines(recap)) {
+    const row = worksheet.addRow([])
+    row.getCell(firstTotalColumn - 6).value = line
+  }
+
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+/**
+ * Build the recap as a landscape A4 PDF with the same layout as the XLSX
+ */
+export function buildAttendanceRecapPdf(recap: MonthlyAttendanceRecap): ArrayBuffer {
+  const doc = new jsPDF({ orientation: 'landscape', unit: 'mm', format: 'a4', compress: true })
+  const pageWidth = doc.internal.pageSize.getWidth()
+  const margin = 10
+
+  let y = 12
+  doc.setFont('helvetica', 'bold')
+  doc.setFontSize(12)
+  doc.text(recap.institution.name?.toUpperCase() || '', pageWidth / 2, y, { align: 'center' })
+  if (recap.institution.address) {
+    y += 5
+    doc.setFont('helvetica', 'normal')
+    doc.setFontSize(9)
+    doc.text(recap.institution.address, pageWidth / 2, y, { align: 'center' })
+  }
+  y += 3
+  doc.setLineWidth(0.5)
+  doc.line(margin, y, pageWidth - margin, y)
+
+  getTitleLines(recap).forEach((line, index) => {
+    y += 6
+    doc.setFont('helvetica', index === 0 ? 'bold' : 'normal')
+    doc.setFontSize(index === 0 ? 11 : 9)
+    doc.text(line, pageWidth / 2, y, { align: 'center' })
+  })
+
+  const nonWorkingColumns = new Set(
+    recap.days
+      .map((day, index) => (day.isWeekend || day.holidayName ? index + 3 : -1))
+      .filter(index => index >= 0)
+  )
+
+  autoTable(doc, {
+    startY: y + 4,
+    margin: { left: margin, right: margin },
+    theme: 'grid',
+    head: [['No', 'NIP', 'Nama', ...recap.days.map(day => String(day.day)), ...ATTENDANCE_RECAP_CODES]],
+    body: recap.employees.map((employee, index) => [
+      index + 1,
+      employee.nip || '',
+      employee.name || '',
+      ...employee.codes.map(code => code || ''),
+      ...ATTENDANCE_RECAP_CODES.map(code => employee.totals[code])
+    ]),
+    foot: [['', '', 'Jumlah', ...recap.days.map(() => ''), ...ATTENDANCE_RECAP_CODES.map(code => recap.totals[code])]],
+    styles: { fontSize: 6, cellPadding: 0.8, halign: 'center', lineColor: 0, lineWidth: 0.1, textColor: 0 },
+    headStyles: { fillColor: 255, fontStyle: 'bold' },
+    footStyles: { fillColor: 255, fontStyle: 'bold' },
+    columnStyles: {
+      0: { cellWidth: 6 },
+      1: { cellWidth: 26 },
+      2: { cellWidth: 'auto', halign: 'left' }
+    },
+    didParseCell: (data) => {
+      if (nonWorkingColumns.has(data.column.index)) {
+        data.cell.styles.fillColor = `#${NON_WORKING_DAY_COLOR}`
+      }
+    }
+  })
+
+  const finalY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY
+  doc.setFont('helvetica', 'normal')
+  doc.setFontSize(7)
+  doc.text(getLegend(), margin, finalY + 5)
+
+  // Start the signature block on a new page when it does not fit below the table
+  const signatureLines = getSignatureLines(recap)
+  let signatureY = finalY + 12
+  if (signatureY + signatureLines.length * 4 > doc.internal.pageSize.getHeight() - margin) {
+    doc.addPage()
+    signatureY = margin + 5
+  }
+  doc.setFontSize(9)
+  signatureLines.forEach((line, index) => {
+    doc.text(line, pageWidth - margin - 60, signatureY + index * 4)
+  })
+
+  return doc.output('arraybuffer')
+}
@@ -184,6 +184,136 @@ export function formatWorkingHours(minutes: number, format: 'hours-minutes' | 'm
   return `${hours}h ${remainingMinutes}m`
 }
 
+/**
+ * Default institution timezone used for wall-clock comparisons (jam kerja)
+ */
+export const DEFAULT_TIMEZONE = 'Asia/Jakarta'
+
+/**
+ * Indonesian names of the DayOfWeek values, Monday first
+ */
+export const DAY_OF_WEEK_LABELS: Record<string, string> = {
+  MONDAY: 'Senin',
+  TUESDAY: 'Selasa',
+  WEDNESDAY: 'Rabu',
+  THURSDAY: 'Kamis',
+  FRIDAY: 'Jumat',
+  SATURDAY: 'Sabtu',
+  SUNDAY: 'Minggu'
+}
+
+/**
+ * Convert a "HH:mm" (or "HH:mm:ss") string to minutes since midnight
+ * @returns Minutes since midnight, or null when the string is not a valid time
+ */
+export function parseTimeToMinutes(time: string | null | undefined): number | null {
+  if (!time) {
+    return null
+  }
+
+  const match = /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(time.trim())
+  if (!match) {
+    return null
+  }
+
+  const hours = Number(match[1])
+  const minutes = Number(match[2])
+  if (hours > 23 || minutes > 59) {
+    return null
+  }
+
+  return hours * 60 + minutes
+}
+
+/**
+ * Format minutes since midnight as "HH:mm"
+ */
+export function formatMinutesAsTime(totalMinutes: number): string {
+  const normalized = ((totalMinutes % 1440) + 1440) % 1440
+  const hours = Math.floor(normalized / 60)
+  const minutes = normalized % 60
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`
+}
+
+/**
+ * Format a Prisma @db.Time value as "HH:mm"
+ * Time columns are returned as 1970-01-01 dates whose UTC components hold the time
+ */
+export function formatTimeColumn(time: Date): string {
+  return formatMinutesAsTime(time.getUTCHours() * 60 + time.getUTCMinutes())
+}
+
+/**
+ * Convert a "HH:mm" string to a value for a Prisma @db.Time column
+ */
+export function toTimeColumn(time: string): Date {
+  const minutes = parseTimeToMinutes(time) ?? 0
+  return new Date(Date.UTC(1970, 0, 1, Math.floor(minutes / 60), minutes % 60))
+}
+
+/**
+ * Get the wall-clock minutes since midnight of a moment in the given timezone
+ */
+export function getMinutesOfDay(date: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date)
+
+  const hours = Number(parts.find(part => part.type === 'hour')?.value || 0)
+  const minutes = Number(parts.find(part => part.type === 'minute')?.value || 0)
+  return hours * 60 + minutes
+}
+
+/**
+ * Get the weekday index (0 = Sunday ... 6 = Saturday) of a moment in the given timezone
+ */
+export function getDayIndex(date: Date, timeZone: string = DEFAULT_TIMEZONE): number {
+  const weekday = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short' }).format(date)
+  return ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(weekday)
+}
+
+/**
+ * Get the calendar date of a moment in the given timezone, as a UTC-midnight date
+ * (same representation as attendance / holiday dates)
+ */
+export function getCalendarDate(date: Date, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const key = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).format(date)
+  return new Date(`${key}T00:00:00.000Z`)
+}
+
+/**
+ * Get the moment a wall-clock time occurs on a calendar date in the given timezone
+ * @param calendarDate UTC-midnight date of the local calendar day
+ * @param minutes Minutes since local midnight; values of 1440 or more fall on the next day
+ */
+export function getZonedDateTime(calendarDate: Date, minutes: number, timeZone: string = DEFAULT_TIMEZONE): Date {
+  const wallClock = calendarDate.getTime() + minutes * 60 * 1000
+
+  // Offset of the timezone at (approximately) that moment
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(wallClock))
+  const valueOf = (type: string) => Number(parts.find(part => part.type === type)?.value || 0)
+  const zonedAsUtc = Date.UTC(valueOf('year'), valueOf('month') - 1, valueOf('day'), valueOf('hour'), valueOf('minute'))
+  const offset = zonedAsUtc - Math.floor(wallClock / 60000) * 60000
+
+  return new Date(wallClock - offset)
+}
+
 /**
  * Calculate working hours between two times in minutes
  * @param checkInTime - Check-in time
@@ -240,6 +370,9 @@ export function calculateCurrentWorkingMinutes(checkInTime: Date | string, curre
   return Math.max(0, Math.floor(diffInMs / (1000 * 60))) // Ensure non-negative
 }
 
+// Longest shift plus check-out grace; older open sessions are left to the close-out job
+export const MAX_OPEN_SESSION_MINUTES = 16 * 60
+
 /**
  * Get the appropriate working hours for display
  * @param checkInTime - Check-in time (Date object, ISO string, or null/undefined)
@@ -276,6 +409,12 @@ export function getDisplayWorkingMinutes(
 
     // If user is still checked in, calculate current working time
     if (checkInDate && !checkOutDate) {
+      // A forgotten check-out from a past day must not keep counting forever
+      if (calculateCurrentWorkingMinutes(checkInDate) > MAX_OPEN_SESSION_MINUTES) {
+        console.log('⏹️ Open session too old, using stored working minutes:', storedWorkingMinutes || 0)
+        return storedWorkingMinutes || 0
+      }
+
       const currentMinutes = calculateCurrentWorkingMinutes(checkInDate)
       console.log('⏱️ Calculating real-time working minutes:', currentMinutes)
       return currentMinutes
@@ -296,15 +435,19 @@ export function getDisplayWorkingMinutes(
 }
 
 /**
- * Calculate working days between two dates (excluding weekends)
+ * Calculate working days between two dates (excluding weekends and holidays)
+ * @param holidayDates - Holiday / cuti bersama dates to exclude (see HolidayService)
  */
-export function calculateWorkDays(startDate: Date, endDate: Date): number {
+export function calculateWorkDays(startDate: Date, endDate: Date, holidayDates: Date[] = []): number {
   let count = 0
   const current = new Date(startDate)
+  const holidayKeys = new Set(holidayDates.map(toDateKey))
   
   while (current <= endDate) {
     const dayOfWeek = current.getDay()
-    if (dayOfWeek !== 0 && dayOfWeek !== 6) { // Not Sunday (0) or Saturday (6)
+    // Iteration follows local calendar days (like getDay), holiday dates are stored as UTC dates
+    const localKey = `${current.getFullYear()}-${String(current.getMonth() + 1).padStart(2, '0')}-${String(current.getDate()).padStart(2, '0')}`
+    if (dayOfWeek !== 0 && dayOfWeek !== 6 && !holidayKeys.has(localKey)) { // Not Sunday (0), Saturday (6) or a holiday
       count++
     }
     current.setDate(current.getDate() + 1)
@@ -313,6 +456,13 @@ export function calculateWorkDays(startDate: Date, endDate: Date): number {
   return count
 }
 
+/**
+ * Get the "YYYY-MM-DD" key of an attendance date (UTC calendar date)
+ */
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
 /**
  * Get the start and end of current week
  */
@@ -467,9 +617,10 @@ export function parseAttendanceDate(dateInput: string | Date): Date {
 /**
  * Calculate attendance statistics from attendance records
  * Uses actual attendance dates from database records, not current system date
+ * Holidays in range are not counted as work days
  */
-export function calculateAttendanceStats(attendances: any[], startDate: Date, endDate: Date) {
-  const totalWorkDays = calculateWorkDays(startDate, endDate)
+export function calculateAttendanceStats(attendances: any[], startDate: Date, endDate: Date, holidayDates: Date[] = []) {
+  const totalWorkDays = calculateWorkDays(startDate, endDate, holidayDates)
 
   // Count days based on actual attendance records using attendanceDate field
   const presentDays = attendances.filter(a => isAttendancePresent(a.status)).length
@@ -502,3 +653,19 @@ export function calculateAttendanceStats(attendances: any[], startDate: Date, en
     attendanceRate: Math.round(attendanceRate * 100) / 100
   }
 }
+
+/**
+ * List every attendance date (normalized to start of day) between two dates, inclusive
+ */
+export function getAttendanceDatesInRange(startDate: Date, endDate: Date): Date[] {
+  const dates: Date[] = []
+  const current = normalizeToStartOfDay(startDate)
+  const last = normalizeToStartOfDay(endDate)
+
+  while (current <= last) {
+    dates.push(new Date(current))
+    current.setUTCDate(current.getUTCDate() + 1)
+  }
+
+  return dates
+}
@@ -0,0 +1,25 @@
+// ============================================================================
+// DEVICE ID UTILITIES
+// src/utils/deviceId.ts
+// ============================================================================
+
+const DEVICE_ID_KEY = 'absensi-device-id'
+
+/**
+ * Random ID identifying this browser, created on first use
+ * Sent with attendance submissions so one device used by several employees can be
+ * detected. It is not a fingerprint: clearing site data produces a new ID.
+ * @returns The device ID, or undefined when local storage is unavailable
+ */
+export function getDeviceId(): string | undefined {
+  try {
+    let deviceId = window.localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      window.localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+  } catch {
+    return undefined
+  }
+}
@@ -0,0 +1,189 @@
+// ============================================================================
+// FINGERPRINT LOG PARSERS
+// src/utils/fingerprintImport.ts
+// ============================================================================
+
+export type FingerprintLogFormat = 'ATTLOG' | 'CSV'
+
+export interface ParsedFingerprintRow {
+  line: number
+  deviceUserId: string // PIN enrolled on the terminal, expected to be the employee NIP
+  date: string // YYYY-MM-DD, terminal wall-clock
+  time: string // HH:mm:ss, terminal wall-clock
+}
+
+export interface FingerprintLogParseResult {
+  format: FingerprintLogFormat
+  rows: ParsedFingerprintRow[]
+  errors: Array<{ line: number; message: string }>
+}
+
+// ZKTeco-style ATTLOG line: PIN, date time, then status/verify/work code columns
+const ATTLOG_LINE = /^\s*(\S+)\s+(\d{4}-\d{1,2}-\d{1,2})\s+(\d{1,2}:\d{2}(?::\d{2})?)(?:\s|$)/
+
+/**
+ * Parse a fingerprint terminal export
+ * ATTLOG dumps (tab separated, no header) are detected from their first line,
+ * anything else is read as CSV. Status and verify columns are ignored: the
+ * in/out keys are rarely pressed reliably, so punches are classified by time.
+ */
+export function parseFingerprintLog(content: string): FingerprintLogParseResult {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const firstLine = lines.find(line => line.trim().length > 0)
+
+  return firstLine && ATTLOG_LINE.test(firstLine)
+    ? parseAttlog(lines)
+    : parseFingerprintCsv(lines)
+}
+
+function parseAttlog(lines: string[]): FingerprintLogParseResult {
+  const result: FingerprintLogParseResult = { format: 'ATTLOG', rows: [], errors: [] }
+
+  lines.forEach((line, index) => {
+    if (line.trim().length === 0) {
+      return
+    }
+
+    const match = ATTLOG_LINE.exec(line)
+    const date = match ? parseDateValue(match[2]) : null
+    const time = match ? parseTimeValue(match[3]) : null
+    if (!match || !date || !time) {
+      result.errors.push({ line: index + 1, message: 'Baris ATTLOG tidak dikenali' })
+      return
+    }
+
+    result.rows.push({ line: index + 1, deviceUserId: match[1], date, time })
+  })
+
+  return result
+}
+
+/**
+ * Expected header: user_id (or pin/nip/ac_no), then either datetime or
+ * separate date and time columns. Dates are YYYY-MM-DD or DD/MM/YYYY;
+ * "," and ";" separators are both accepted.
+ */
+function parseFingerprintCsv(lines: string[]): FingerprintLogParseResult {
+  const result: FingerprintLogParseResult = { format: 'CSV', rows: [], errors: [] }
+
+  const headerIndex = lines.findIndex(line => line.trim().length > 0)
+  if (headerIndex === -1) {
+    result.errors.push({ line: 1, message: 'File log kosong' })
+    return result
+  }
+
+  const separator = lines[headerIndex].includes(';') && !lines[headerIndex].includes(',') ? ';' : ','
+  const header = splitCsvLine(lines[headerIndex], separator)
+    .map(column => column.trim().toLowerCase().replace(/[\s.-]+/g, '_').replace(/_$/, ''))
+  const columnOf = (...names: string[]) => header.findIndex(column => names.includes(column))
+
+  const userColumn = columnOf('user_id', 'userid', 'pin', 'nip', 'ac_no', 'enroll_number', 'badgenumber', 'id')
+  const dateTimeColumn = columnOf('datetime', 'date_time', 'checktime', 'check_time', 'waktu', 'timestamp')
+  const dateColumn = columnOf('date', 'tanggal')
+  const timeColumn = columnOf('time', 'jam')
+
+  if (userColumn === -1 || (dateTimeColumn === -1 && (dateColumn === -1 || timeColumn === -1))) {
+    result.errors.push({
+      line: headerIndex + 1,
+      message: 'Header CSV wajib memiliki kolom user_id dan datetime (atau date dan time)'
+    })
+    return result
+  }
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    const lineNumber = index + 1
+    if (lines[index].trim().length === 0) {
+      continue
+    }
+
+    const columns = splitCsvLine(lines[index], separator)
+    const valueAt = (column: number) => (column >= 0 ? columns[column]?.trim() : undefined) || undefined
+
+    const deviceUserId = valueAt(userColumn)
+    if (!deviceUserId) {
+      result.errors.push({ line: lineNumber, message: 'ID pengguna mesin wajib diisi' })
+      continue
+    }
+
+    // A datetime column may also be split by "T" (ISO) or hold only the date
+    const [dateValue, timeValue] = dateTimeColumn !== -1
+      ? (valueAt(dateTimeColumn) || '').split(/[\sT]+/)
+      : [valueAt(dateColumn), valueAt(timeColumn)]
+
+    const date = parseDateValue(dateValue)
+    const time = parseTimeValue(timeValue)
+    if (!date || !time) {
+      result.errors.push({
+        line: lineNumber,
+        message: `Waktu scan tidak valid: ${[dateValue, timeValue].filter(Boolean).join(' ') || '-'}`
+      })
+      continue
+    }
+
+    result.rows.push({ line: lineNumber, deviceUserId, date, time })
+  }
+
+  return result
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const columns: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === separator && !inQuotes) {
+      columns.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  columns.push(current)
+
+  return columns
+}
+
+function parseDateValue(value: string | undefined): string | null {
+  if (!value) {
+    return null
+  }
+
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})$/.exec(value)
+  const local = /^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/.exec(value)
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local
+      ? [Number(local[3]), Number(local[2]), Number(local[1])]
+      : [NaN, NaN, NaN]
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return date.toISOString().split('T')[0]
+}
+
+function parseTimeValue(value: string | undefined): string | null {
+  const match = value ? /^(\d{1,2}):(\d{2})(?::(\d{2}))?$/.exec(value) : null
+  if (!match) {
+    return null
+  }
+
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3] || 0)]
+  if (hours > 23 || minutes > 59 || seconds > 59) {
+    return null
+  }
+
+  return [hours, minutes, seconds].map(part => String(part).padStart(2, '0')).join(':')
+}
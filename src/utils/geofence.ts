@@ -0,0 +1,279 @@
+// ============================================================================
+// GEOFENCE UTILITIES
+// src/utils/geofence.ts
+// ============================================================================
+
+// GeoJSON positions are [longitude, latitude]
+export type GeoJsonPosition = [number, number]
+
+export interface GeoJsonPolygon {
+  type: 'Polygon'
+  coordinates: GeoJsonPosition[][] // Outer ring first, then holes
+}
+
+export interface GeoJsonMultiPolygon {
+  type: 'MultiPolygon'
+  coordinates: GeoJsonPosition[][][]
+}
+
+export type OfficeBoundary = GeoJsonPolygon | GeoJsonMultiPolygon
+
+export interface GeoPoint {
+  latitude: number
+  longitude: number
+}
+
+export interface BoundingBox {
+  minLatitude: number
+  maxLatitude: number
+  minLongitude: number
+  maxLongitude: number
+}
+
+export const MAX_BOUNDARY_VERTICES = 500
+
+const EARTH_RADIUS_METERS = 6371e3
+
+/**
+ * Parse and normalize a boundary from GeoJSON input
+ * Accepts a Polygon/MultiPolygon geometry, a Feature, or a FeatureCollection of
+ * polygons (as exported by most map drawing tools). Open rings are closed.
+ * @returns The normalized boundary, or an error message in Indonesian
+ */
+export function parseBoundary(value: unknown): { boundary?: OfficeBoundary; error?: string } {
+  const geometry = extractGeometry(value)
+  if (!geometry) {
+    return { error: 'Batas area harus berupa GeoJSON Polygon atau MultiPolygon' }
+  }
+
+  const polygons: unknown[] = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+  const normalized: GeoJsonPosition[][][] = []
+  let vertexCount = 0
+
+  for (const polygon of polygons) {
+    if (!Array.isArray(polygon) || polygon.length === 0) {
+      return { error: 'Batas area tidak memiliki koordinat' }
+    }
+
+    const rings: GeoJsonPosition[][] = []
+    for (const ring of polygon) {
+      const normalizedRing = normalizeRing(ring)
+      if (!normalizedRing) {
+        return { error: 'Setiap batas area minimal memiliki 3 titik dengan koordinat yang valid' }
+      }
+      vertexCount += normalizedRing.length - 1
+      rings.push(normalizedRing)
+    }
+    normalized.push(rings)
+  }
+
+  if (normalized.length === 0) {
+    return { error: 'Batas area tidak memiliki koordinat' }
+  }
+
+  if (vertexCount > MAX_BOUNDARY_VERTICES) {
+    return { error: `Batas area maksimal ${MAX_BOUNDARY_VERTICES} titik` }
+  }
+
+  return {
+    boundary: normalized.length === 1
+      ? { type: 'Polygon', coordinates: normalized[0] }
+      : { type: 'MultiPolygon', coordinates: normalized }
+  }
+}
+
+/**
+ * Check whether a point lies inside the boundary (holes excluded)
+ */
+export function isPointInBoundary(point: GeoPoint, boundary: OfficeBoundary): boolean {
+  return getPolygons(boundary).some(([outer, ...holes]) =>
+    isPointInRing(point, outer) && !holes.some(hole => isPointInRing(point, hole))
+  )
+}
+
+/**
+ * Distance from a point to the boundary in meters, 0 when the point is inside
+ */
+export function distanceToBoundary(point: GeoPoint, boundary: OfficeBoundary): number {
+  if (isPointInBoundary(point, boundary)) {
+    return 0
+  }
+
+  // Project onto a local plane around the point; accurate for office-sized areas
+  const metersPerDegreeLat = EARTH_RADIUS_METERS * Math.PI / 180
+  const metersPerDegreeLng = metersPerDegreeLat * Math.cos(point.latitude * Math.PI / 180)
+  const project = ([longitude, latitude]: GeoJsonPosition) => ({
+    x: (longitude - point.longitude) * metersPerDegreeLng,
+    y: (latitude - point.latitude) * metersPerDegreeLat
+  })
+
+  let shortest = Infinity
+  for (const polygon of getPolygons(boundary)) {
+    for (const ring of polygon) {
+      for (let i = 0; i < ring.length - 1; i++) {
+        shortest = Math.min(shortest, distanceToSegment(project(ring[i]), project(ring[i + 1])))
+      }
+    }
+  }
+
+  return shortest
+}
+
+/**
+ * Box around a circle, or around the boundary when one is given, grown by
+ * marginMeters on every side
+ */
+export function getBoundingBox(center: GeoPoint, marginMeters: number, boundary?: OfficeBoundary): BoundingBox {
+  const positions = boundary
+    ? getPolygons(boundary).map(([outer]) => outer).flat()
+    : [[center.longitude, center.latitude] as GeoJsonPosition]
+
+  const box: BoundingBox = {
+    minLatitude: Math.min(...positions.map(([, latitude]) => latitude)),
+    maxLatitude: Math.max(...positions.map(([, latitude]) => latitude)),
+    minLongitude: Math.min(...positions.map(([longitude]) => longitude)),
+    maxLongitude: Math.max(...positions.map(([longitude]) => longitude))
+  }
+
+  return expandBoundingBox(box, marginMeters)
+}
+
+/**
+ * Grow a box by meters on every side
+ * Slightly generous so that a point within that many meters by haversine
+ * distance is never left outside
+ */
+export function expandBoundingBox(box: BoundingBox, meters: number): BoundingBox {
+  const margin = meters * 1.01 + 1
+  const metersPerDegreeLat = EARTH_RADIUS_METERS * Math.PI / 180
+  const latitudeDelta = margin / metersPerDegreeLat
+
+  // Degrees of longitude shrink towards the poles, so use the edge furthest from the equator
+  const widestLatitude = Math.min(Math.max(Math.abs(box.minLatitude), Math.abs(box.maxLatitude)) + latitudeDelta, 89)
+  const longitudeDelta = margin / (metersPerDegreeLat * Math.cos(widestLatitude * Math.PI / 180))
+
+  return {
+    minLatitude: box.minLatitude - latitudeDelta,
+    maxLatitude: box.maxLatitude + latitudeDelta,
+    minLongitude: box.minLongitude - longitudeDelta,
+    maxLongitude: box.maxLongitude + longitudeDelta
+  }
+}
+
+export function isPointInBoundingBox(point: GeoPoint, box: BoundingBox): boolean {
+  return point.latitude >= box.minLatitude &&
+    point.latitude <= box.maxLatitude &&
+    point.longitude >= box.minLongitude &&
+    point.longitude <= box.maxLongitude
+}
+
+/**
+ * Outer ring of every polygon in the boundary, for previews
+ */
+export function getBoundaryOuterRings(boundary: OfficeBoundary): GeoJsonPosition[][] {
+  return getPolygons(boundary).map(([outer]) => outer)
+}
+
+/**
+ * Number of distinct vertices across all rings of the boundary
+ */
+export function countBoundaryVertices(boundary: OfficeBoundary): number {
+  return getPolygons(boundary).flat().reduce((total, ring) => total + ring.length - 1, 0)
+}
+
+function getPolygons(boundary: OfficeBoundary): GeoJsonPosition[][][] {
+  return boundary.type === 'Polygon' ? [boundary.coordinates] : boundary.coordinates
+}
+
+function extractGeometry(value: unknown): { type: 'Polygon' | 'MultiPolygon'; coordinates: unknown[] } | null {
+  if (!value || typeof value !== 'object') {
+    return null
+  }
+
+  const input = value as { type?: unknown; coordinates?: unknown; geometry?: unknown; features?: unknown }
+
+  if ((input.type === 'Polygon' || input.type === 'MultiPolygon') && Array.isArray(input.coordinates)) {
+    return { type: input.type, coordinates: input.coordinates }
+  }
+
+  if (input.type === 'Feature') {
+    return extractGeometry(input.geometry)
+  }
+
+  if (input.type === 'FeatureCollection' && Array.isArray(input.features)) {
+    const geometries = input.features.map(feature => extractGeometry(feature))
+    if (geometries.length === 0 || geometries.some(geometry => !geometry)) {
+      return null
+    }
+
+    if (geometries.length === 1) {
+      return geometries[0]
+    }
+
+    return {
+      type: 'MultiPolygon',
+      coordinates: geometries.flatMap(geometry =>
+        geometry!.type === 'Polygon' ? [geometry!.coordinates] : geometry!.coordinates
+      )
+    }
+  }
+
+  return null
+}
+
+function normalizeRing(ring: unknown): GeoJsonPosition[] | null {
+  if (!Array.isArray(ring)) {
+    return null
+  }
+
+  const positions: GeoJsonPosition[] = []
+  for (const position of ring) {
+    if (!Array.isArray(position) || position.length < 2) {
+      return null
+    }
+
+    const [longitude, latitude] = position
+    if (typeof longitude !== 'number' || typeof latitude !== 'number' ||
+        !isFinite(longitude) || !isFinite(latitude) ||
+        longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+      return null
+    }
+
+    positions.push([longitude, latitude])
+  }
+
+  const first = positions[0]
+  const last = positions[positions.length - 1]
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    positions.push([first[0], first[1]])
+  }
+
+  // A closed ring needs at least three distinct vertices
+  return positions.length >= 4 ? positions : null
+}
+
+function isPointInRing(point: GeoPoint, ring: GeoJsonPosition[]): boolean {
+  // Ray casting on the longitude/latitude plane
+  let inside = false
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]
+    const [xj, yj] = ring[j]
+
+    const intersects = (yi > point.latitude) !== (yj > point.latitude) &&
+      point.longitude < (xj - xi) * (point.latitude - yi) / (yj - yi) + xi
+    if (intersects) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function distanceToSegment(a: { x: number; y: number }, b: { x: number; y: number }): number {
+  // Distance from the origin to segment ab
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared))
+
+  return Math.hypot(a.x + t * dx, a.y + t * dy)
+}
@@ -0,0 +1,262 @@
+// ============================================================================
+// HOLIDAY IMPORT PARSERS
+// src/utils/holidayImport.ts
+// ============================================================================
+
+import { HolidayType } from '@prisma/client'
+
+export type HolidayImportFormat = 'CSV' | 'ICS'
+
+export interface ParsedHolidayRow {
+  line: number
+  date: string // YYYY-MM-DD
+  name: string
+  type?: HolidayType
+  description?: string
+  officeLocationCode?: string
+}
+
+export interface HolidayImportParseResult {
+  rows: ParsedHolidayRow[]
+  errors: Array<{ line: number; message: string }>
+}
+
+// Accepted values for the "type" column (English enum names and Indonesian labels)
+const TYPE_ALIASES: Record<string, HolidayType> = {
+  national: HolidayType.NATIONAL,
+  nasional: HolidayType.NATIONAL,
+  libur_nasional: HolidayType.NATIONAL,
+  collective_leave: HolidayType.COLLECTIVE_LEAVE,
+  cuti_bersama: HolidayType.COLLECTIVE_LEAVE,
+  regional: HolidayType.REGIONAL,
+  daerah: HolidayType.REGIONAL,
+  libur_daerah: HolidayType.REGIONAL,
+  institution: HolidayType.INSTITUTION,
+  instansi: HolidayType.INSTITUTION
+}
+
+/**
+ * Parse a holiday type label, e.g. "Cuti Bersama" or "national"
+ * @returns Holiday type, or null when the label is unknown
+ */
+export function parseHolidayType(value: string | undefined): HolidayType | null {
+  if (!value) {
+    return null
+  }
+  const key = value.trim().toLowerCase().replace(/[\s-]+/g, '_')
+  return TYPE_ALIASES[key] || null
+}
+
+/**
+ * Parse a holiday CSV file
+ * Expected header: date,name[,type][,description][,office_code]
+ * Dates are YYYY-MM-DD or DD/MM/YYYY; "," and ";" separators are both accepted
+ */
+export function parseHolidayCsv(content: string): HolidayImportParseResult {
+  const result: HolidayImportParseResult = { rows: [], errors: [] }
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+
+  const headerIndex = lines.findIndex(line => line.trim().length > 0)
+  if (headerIndex === -1) {
+    result.errors.push({ line: 1, message: 'File CSV kosong' })
+    return result
+  }
+
+  const separator = lines[headerIndex].includes(';') && !lines[headerIndex].includes(',') ? ';' : ','
+  const header = splitCsvLine(lines[headerIndex], separator).map(column => column.trim().toLowerCase())
+  const columnOf = (...names: string[]) => header.findIndex(column => names.includes(column))
+
+  const dateColumn = columnOf('date', 'tanggal')
+  const nameColumn = columnOf('name', 'nama', 'keterangan')
+  const typeColumn = columnOf('type', 'jenis')
+  const descriptionColumn = columnOf('description', 'deskripsi')
+  const officeColumn = columnOf('office_code', 'kode_lokasi', 'office_location_code')
+
+  if (dateColumn === -1 || nameColumn === -1) {
+    result.errors.push({ line: headerIndex + 1, message: 'Header CSV wajib memiliki kolom date dan name' })
+    return result
+  }
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    const lineNumber = index + 1
+    if (lines[index].trim().length === 0) {
+      continue
+    }
+
+    const columns = splitCsvLine(lines[index], separator)
+    const valueAt = (column: number) => (column >= 0 ? columns[column]?.trim() : undefined) || undefined
+
+    const date = parseDateValue(valueAt(dateColumn))
+    if (!date) {
+      result.errors.push({ line: lineNumber, message: `Tanggal tidak valid: ${valueAt(dateColumn) || '-'}` })
+      continue
+    }
+
+    const name = valueAt(nameColumn)
+    if (!name) {
+      result.errors.push({ line: lineNumber, message: 'Nama hari libur wajib diisi' })
+      continue
+    }
+
+    const typeValue = valueAt(typeColumn)
+    const type = parseHolidayType(typeValue)
+    if (typeValue && !type) {
+      result.errors.push({ line: lineNumber, message: `Jenis hari libur tidak dikenal: ${typeValue}` })
+      continue
+    }
+
+    result.rows.push({
+      line: lineNumber,
+      date,
+      name,
+      type: type || undefined,
+      description: valueAt(descriptionColumn),
+      officeLocationCode: valueAt(officeColumn)?.toUpperCase()
+    })
+  }
+
+  return result
+}
+
+/**
+ * Parse an iCalendar (.ics) file, e.g. a public Indonesian holiday calendar
+ * Multi-day all-day events are expanded into one row per day;
+ * events whose summary mentions "cuti bersama" are typed as collective leave
+ */
+export function parseHolidayIcs(content: string): HolidayImportParseResult {
+  const result: HolidayImportParseResult = { rows: [], errors: [] }
+
+  // Unfold continuation lines (RFC 5545: lines starting with a space or tab)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)
+
+  let event: { line: number; start?: string; end?: string; summary?: string; description?: string } | null = null
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    if (line === 'BEGIN:VEVENT') {
+      event = { line: index + 1 }
+      return
+    }
+
+    if (!event) {
+      return
+    }
+
+    if (line === 'END:VEVENT') {
+      const current: { line: number; start?: string; end?: string; summary?: string; description?: string } = event
+      event = null
+
+      if (!current.start || !current.summary) {
+        result.errors.push({ line: current.line, message: 'Event tanpa DTSTART atau SUMMARY dilewati' })
+        return
+      }
+
+      const summary = unescapeIcsText(current.summary)
+      const type = /cuti\s+bersama/i.test(summary) ? HolidayType.COLLECTIVE_LEAVE : undefined
+      const description = current.description ? unescapeIcsText(current.description) : undefined
+
+      for (const date of expandIcsDates(current.start, current.end)) {
+        result.rows.push({ line: current.line, date, name: summary, type, description })
+      }
+      return
+    }
+
+    const separatorIndex = line.indexOf(':')
+    if (separatorIndex === -1) {
+      return
+    }
+
+    // Property parameters (e.g. DTSTART;VALUE=DATE) are not needed
+    const property = line.slice(0, separatorIndex).split(';')[0].toUpperCase()
+    const value = line.slice(separatorIndex + 1)
+
+    if (property === 'DTSTART') event.start = value
+    if (property === 'DTEND') event.end = value
+    if (property === 'SUMMARY') event.summary = value
+    if (property === 'DESCRIPTION') event.description = value
+  })
+
+  return result
+}
+
+function splitCsvLine(line: string, separator: string): string[] {
+  const columns: string[] = []
+  let current = ''
+  let inQuotes = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (inQuotes && line[i + 1] === '"') {
+        current += '"'
+        i++
+      } else {
+        inQuotes = !inQuotes
+      }
+    } else if (char === separator && !inQuotes) {
+      columns.push(current)
+      current = ''
+    } else {
+      current += char
+    }
+  }
+  columns.push(current)
+
+  return columns
+}
+
+function parseDateValue(value: string | undefined): string | null {
+  if (!value) {
+    return null
+  }
+
+  const iso = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  const local = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(value)
+
+  const [year, month, day] = iso
+    ? [Number(iso[1]), Number(iso[2]), Number(iso[3])]
+    : local
+      ? [Number(local[3]), Number(local[2]), Number(local[1])]
+      : [NaN, NaN, NaN]
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null
+  }
+
+  return date.toISOString().split('T')[0]
+}
+
+function parseIcsDate(value: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value)
+  if (!match) {
+    return null
+  }
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+}
+
+function expandIcsDates(start: string, end?: string): string[] {
+  const startDate = parseIcsDate(start)
+  if (!startDate) {
+    return []
+  }
+
+  // DTEND of an all-day event is exclusive
+  const endDate = end ? parseIcsDate(end) : null
+  const dates: string[] = []
+  const current = new Date(startDate)
+
+  do {
+    dates.push(current.toISOString().split('T')[0])
+    current.setUTCDate(current.getUTCDate() + 1)
+  } while (endDate && current < endDate)
+
+  return dates
+}
+
+function unescapeIcsText(value: string): string {
+  return value
+    .replace(/\\n/gi, ' ')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim()
+}
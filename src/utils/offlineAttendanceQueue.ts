@@ -0,0 +1,222 @@
+// ============================================================================
+// OFFLINE ATTENDANCE QUEUE
+// src/utils/offlineAttendanceQueue.ts
+// ============================================================================
+
+import { getDeviceId } from '@/utils/deviceId'
+import { OfflinePunchCapture, OfflinePunchType, serializeOfflinePunch } from '@/utils/offlinePunch'
+
+const DB_NAME = 'absensi-offline'
+const DB_VERSION = 1
+const KEY_STORE = 'device-keys'
+const PUNCH_STORE = 'punches'
+const SIGNING_KEY_ID = 'signing-key'
+
+export interface QueuedPunch {
+  userId: string // Only synced while this user is logged in
+  capture: OfflinePunchCapture
+  signature: string
+}
+
+export interface OfflineSyncResult {
+  synced: OfflinePunchCapture[]
+  rejected: { capture: OfflinePunchCapture; error: string }[]
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+function openDatabase(): Promise<IDBDatabase> {
+  const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(KEY_STORE)
+    request.result.createObjectStore(PUNCH_STORE, { keyPath: 'capture.id' })
+  }
+  return requestToPromise(request)
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase()
+  try {
+    return await requestToPromise(action(db.transaction(storeName, mode).objectStore(storeName)))
+  } finally {
+    db.close()
+  }
+}
+
+let signingKeyPair: Promise<CryptoKeyPair> | null = null
+
+// Shared so concurrent callers never create two different key pairs
+function getSigningKeyPair(): Promise<CryptoKeyPair> {
+  if (!signingKeyPair) {
+    signingKeyPair = loadSigningKeyPair().catch(error => {
+      signingKeyPair = null
+      throw error
+    })
+  }
+  return signingKeyPair
+}
+
+// The private key is created non-extractable and kept in IndexedDB, so it never
+// leaves this browser
+async function loadSigningKeyPair(): Promise<CryptoKeyPair> {
+  const existing = await withStore<CryptoKeyPair | undefined>(KEY_STORE, 'readonly', store => store.get(SIGNING_KEY_ID))
+  if (existing) {
+    return existing
+  }
+
+  const keyPair = await crypto.subtle.generateKey(
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false,
+    ['sign', 'verify']
+  )
+  await withStore(KEY_STORE, 'readwrite', store => store.put(keyPair, SIGNING_KEY_ID))
+  return keyPair
+}
+
+const toBase64Url = (buffer: ArrayBuffer) =>
+  btoa(String.fromCharCode(...Array.from(new Uint8Array(buffer))))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+
+/**
+ * Whether a failed submission should be queued instead of reported
+ * fetch rejects with a TypeError when the request never reached the server.
+ */
+export function isOfflineError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError
+}
+
+/**
+ * Register this browser's public key for the logged-in user
+ * Safe to repeat; the server replaces the key for the same device.
+ */
+export async function registerDeviceKey(): Promise<void> {
+  const deviceId = getDeviceId()
+  if (!deviceId || !window.indexedDB || !crypto.subtle) {
+    return
+  }
+
+  const { publicKey } = await getSigningKeyPair()
+  const response = await fetch('/api/attendance/device-keys', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({
+      deviceId,
+      publicKey: await crypto.subtle.exportKey('jwk', publicKey)
+    })
+  })
+
+  if (!response.ok) {
+    throw new Error('Gagal mendaftarkan kunci perangkat')
+  }
+}
+
+/**
+ * Sign and store a check-in or check-out that could not be sent
+ * @param userId Logged-in user
+ * @param punchType Which submission failed
+ * @param position Location fix taken for it, if any
+ * @returns The stored capture
+ */
+export async function queueOfflinePunch(
+  userId: string,
+  punchType: OfflinePunchType,
+  position?: GeolocationPosition
+): Promise<OfflinePunchCapture> {
+  const deviceId = getDeviceId()
+  if (!deviceId || !window.indexedDB || !crypto.subtle) {
+    throw new Error('Browser tidak mendukung absen offline')
+  }
+
+  const capture: OfflinePunchCapture = {
+    id: crypto.randomUUID(),
+    punchType,
+    capturedAt: Date.now(),
+    latitude: position?.coords.latitude,
+    longitude: position?.coords.longitude,
+    accuracy: position?.coords.accuracy,
+    altitude: position?.coords.altitude ?? undefined,
+    timestamp: position?.timestamp,
+    deviceId
+  }
+
+  const { privateKey } = await getSigningKeyPair()
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    privateKey,
+    new TextEncoder().encode(serializeOfflinePunch(capture))
+  )
+
+  const punch: QueuedPunch = { userId, capture, signature: toBase64Url(signature) }
+  await withStore(PUNCH_STORE, 'readwrite', store => store.put(punch))
+  return capture
+}
+
+/**
+ * A user's punches waiting to be sent, oldest first
+ * @param userId Logged-in user
+ */
+export async function getQueuedPunches(userId: string): Promise<QueuedPunch[]> {
+  if (typeof window === 'undefined' || !window.indexedDB) {
+    return []
+  }
+
+  const punches = await withStore<QueuedPunch[]>(PUNCH_STORE, 'readonly', store => store.getAll())
+  return punches
+    .filter(punch => punch.userId === userId)
+    .sort((a, b) => a.capture.capturedAt - b.capture.capturedAt)
+}
+
+/**
+ * Send a user's queued punches in capture order
+ * Stops at the first network or server error and keeps the rest for the next
+ * attempt; punches the server rejects are removed and reported.
+ * @param userId Logged-in user
+ */
+export async function syncQueuedPunches(userId: string): Promise<OfflineSyncResult> {
+  const result: OfflineSyncResult = { synced: [], rejected: [] }
+
+  const punches = await getQueuedPunches(userId)
+  if (punches.length === 0) {
+    return result
+  }
+
+  // The key must be known to the server before its signatures can be checked
+  await registerDeviceKey()
+
+  for (const punch of punches) {
+    const response = await fetch('/api/attendance/offline-sync', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ capture: punch.capture, signature: punch.signature })
+    })
+
+    if (response.status >= 500 || response.status === 401) {
+      break
+    }
+
+    const data = await response.json()
+    if (response.ok) {
+      result.synced.push(punch.capture)
+    } else {
+      result.rejected.push({ capture: punch.capture, error: data.error || 'Absen offline ditolak' })
+    }
+
+    await withStore(PUNCH_STORE, 'readwrite', store => store.delete(punch.capture.id))
+  }
+
+  return result
+}
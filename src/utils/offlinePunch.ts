@@ -0,0 +1,89 @@
+// ============================================================================
+// OFFLINE PUNCH UTILITIES
+// src/utils/offlinePunch.ts
+// ============================================================================
+
+export type OfflinePunchType = 'CHECK_IN' | 'CHECK_OUT'
+
+// A check-in or check-out recorded on the device while it had no connection
+export interface OfflinePunchCapture {
+  id: string // Random ID generated on the device
+  punchType: OfflinePunchType
+  capturedAt: number // Epoch milliseconds, device clock
+  latitude?: number
+  longitude?: number
+  accuracy?: number
+  altitude?: number
+  timestamp?: number // When the device took the position fix
+  deviceId: string
+}
+
+const OFFLINE_PUNCH_TYPES: OfflinePunchType[] = ['CHECK_IN', 'CHECK_OUT']
+
+const optionalNumber = (value: unknown) =>
+  value === undefined || value === null || (typeof value === 'number' && isFinite(value))
+
+/**
+ * Canonical form of a capture, signed on the device and verified on the server
+ * Both sides must produce byte-identical output, so fields are listed explicitly
+ * instead of relying on JSON key order.
+ */
+export function serializeOfflinePunch(capture: OfflinePunchCapture): string {
+  return [
+    capture.id,
+    capture.punchType,
+    capture.capturedAt,
+    capture.latitude,
+    capture.longitude,
+    capture.accuracy,
+    capture.altitude,
+    capture.timestamp,
+    capture.deviceId
+  ].map(value => (value === undefined || value === null ? '' : String(value))).join('|')
+}
+
+/**
+ * Parse a capture sent by the browser's offline queue
+ * @returns The capture, or an error message in Indonesian
+ */
+export function parseOfflinePunch(value: unknown): { capture?: OfflinePunchCapture; error?: string } {
+  if (!value || typeof value !== 'object') {
+    return { error: 'Data absen offline tidak valid' }
+  }
+
+  const body = value as Record<string, unknown>
+
+  if (typeof body.id !== 'string' || body.id.length === 0 || body.id.length > 64) {
+    return { error: 'ID absen offline tidak valid' }
+  }
+
+  if (!OFFLINE_PUNCH_TYPES.includes(body.punchType as OfflinePunchType)) {
+    return { error: 'Jenis absen offline tidak valid' }
+  }
+
+  if (typeof body.capturedAt !== 'number' || !isFinite(body.capturedAt)) {
+    return { error: 'Waktu perekaman absen tidak valid' }
+  }
+
+  if (typeof body.deviceId !== 'string' || body.deviceId.length === 0 || body.deviceId.length > 64) {
+    return { error: 'ID perangkat wajib diisi' }
+  }
+
+  if (![body.latitude, body.longitude, body.accuracy, body.altitude, body.timestamp].every(optionalNumber)) {
+    return { error: 'Data lokasi absen offline tidak valid' }
+  }
+
+  return {
+    capture: {
+      id: body.id,
+      punchType: body.punchType as OfflinePunchType,
+      capturedAt: body.capturedAt,
+      latitude: body.latitude ?? undefined,
+      longitude: body.longitude ?? undefined,
+      accuracy: body.accuracy ?? undefined,
+      altitude: body.altitude ?? undefined,
+      timestamp: body.timestamp ?? undefined,
+      deviceId: body.deviceId
+    } as OfflinePunchCapture
+  }
+}
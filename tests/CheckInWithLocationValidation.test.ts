@@ -0,0 +1,213 @@
+// ============================================================================
+// CHECK IN WITH LOCATION VALIDATION TESTS
+// tests/CheckInWithLocationValidation.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AttendanceReviewStatus, AttendanceStatus, KioskMode, WorkMode } from '@prisma/client'
+import { CheckInWithLocationValidation } from '@/use-cases/attendance/CheckInWithLocationValidation'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import {
+  IAttendanceRepository,
+  AttendanceEntity,
+  CreateAttendanceData,
+  UpdateAttendanceData
+} from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IAttendancePhotoService } from '@/domain/services/IAttendancePhotoService'
+import { IKioskTokenService } from '@/domain/services/IKioskTokenService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+
+const MINUTE = 60 * 1000
+const attendanceDate = new Date('2026-10-19T00:00:00.000Z')
+
+// The shift started 30 minutes ago, so a check-in made now is 30 minutes late
+function createWorkScheduleService(scheduledStart: Date): IWorkScheduleService {
+  return {
+    resolveAttendanceDate: async () => attendanceDate,
+    evaluateCheckIn: async (userId: string, checkInTime: Date) => {
+      const lateMinutes = Math.max(0, Math.floor((checkInTime.getTime() - scheduledStart.getTime()) / MINUTE))
+      return {
+        attendanceDate,
+        status: lateMinutes > 0 ? AttendanceStatus.LATE : AttendanceStatus.PRESENT,
+        lateMinutes,
+        schedule: { startTime: '08:00', lateToleranceMinutes: 0, source: 'SYSTEM_SETTING' }
+      }
+    }
+  } as unknown as IWorkScheduleService
+}
+
+function createCheckIn(created: CreateAttendanceData[]): CheckInWithLocationValidation {
+  const attendanceRepository = {
+    findByUserAndDate: async () => null,
+    create: async (data: CreateAttendanceData) => {
+      created.push(data)
+      return { id: 'attendance-1', workMode: WorkMode.OFFICE, breakMinutes: 0, ...data } as unknown as AttendanceEntity
+    },
+    findReviewerChain: async () => [{ id: 'head-1' }]
+  } as unknown as IAttendanceRepository
+
+  const locationValidationService = {
+    validateCoordinateFormat: () => true,
+    validateUserLocation: async () => ({
+      isValid: true,
+      nearestOfficeLocation: { id: 'office-1', name: 'Kantor Pusat', code: 'KP', distance: 15 },
+      distance: 15,
+      allowedRadius: 100
+    })
+  } as unknown as ILocationValidationService
+
+  // No coordinate or device signals, so only the sync timing is scored
+  const punchRepository = {
+    existsAtCoordinatesOnOtherDate: async () => false,
+    findLatestWithCoordinatesByUser: async () => null,
+    findOtherUserIdsByDevice: async () => []
+  } as unknown as IAttendancePunchRepository
+
+  const fraudDetectionService = new FraudDetectionService(
+    punchRepository,
+    attendanceRepository,
+    { findById: async () => null } as unknown as IOfficeLocationRepository,
+    locationValidationService
+  )
+
+  return new CheckInWithLocationValidation(
+    attendanceRepository,
+    locationValidationService,
+    createWorkScheduleService(new Date(Date.now() - 30 * MINUTE)),
+    undefined,
+    undefined,
+    fraudDetectionService
+  )
+}
+
+const position = { userId: 'user-1', latitude: -6.2, longitude: 106.8, accuracyMeters: 12 }
+
+describe('CheckInWithLocationValidation offline sync', () => {
+  it('flags a check-in that is on time only by its backdated capture time', async () => {
+    const created: CreateAttendanceData[] = []
+
+    const result = await createCheckIn(created).execute({
+      ...position,
+      capturedAt: new Date(Date.now() - 40 * MINUTE)
+    })
+
+    assert.equal(result.success, true)
+    assert.equal(result.data?.flaggedForReview, true)
+    assert.equal(created[0].reviewStatus, AttendanceReviewStatus.PENDING)
+    assert.equal(created[0].reviewerId, 'head-1')
+    assert.deepEqual(
+      created[0].fraudSignals?.map(signal => signal.code),
+      ['DELAYED_SYNC', 'BACKDATED_ON_TIME']
+    )
+  })
+
+  it('flags a late check-in synced long after capture', async () => {
+    const created: CreateAttendanceData[] = []
+
+    await createCheckIn(created).execute({
+      ...position,
+      capturedAt: new Date(Date.now() - 20 * MINUTE)
+    })
+
+    assert.equal(created[0].status, AttendanceStatus.LATE)
+    assert.equal(created[0].reviewStatus, AttendanceReviewStatus.PENDING)
+    assert.deepEqual(created[0].fraudSignals?.map(signal => signal.code), ['DELAYED_SYNC'])
+  })
+
+  it('accepts a check-in synced right after capture without review', async () => {
+    const created: CreateAttendanceData[] = []
+
+    const result = await createCheckIn(created).execute({
+      ...position,
+      capturedAt: new Date(Date.now() - MINUTE)
+    })
+
+    assert.equal(result.data?.flaggedForReview, false)
+    assert.equal(created[0].reviewStatus, undefined)
+  })
+})
+
+// A QR-only kiosk check-in with a photo, whose attendance write may fail
+function createKioskCheckIn(events: string[], failWrite: boolean): CheckInWithLocationValidation {
+  const attendanceRepository = {
+    findByUserAndDate: async () => null,
+    create: async (data: CreateAttendanceData) => {
+      if (failWrite) {
+        throw new Error('connection lost')
+      }
+      events.push('create')
+      return { id: 'attendance-1', workMode: WorkMode.OFFICE, breakMinutes: 0, ...data } as unknown as AttendanceEntity
+    },
+    update: async (id: string, data: UpdateAttendanceData) => {
+      events.push(`update:${data.checkInPhotoPath}`)
+      return { id, attendanceDate, checkInTime: new Date(), ...data } as unknown as AttendanceEntity
+    }
+  } as unknown as IAttendanceRepository
+
+  const kioskTokenService = {
+    verifyToken: async () => ({
+      isValid: true,
+      tokenId: 'token-1',
+      officeLocation: { id: 'office-1', name: 'Kantor Pusat', code: 'KP', kioskMode: KioskMode.QR_ONLY }
+    }),
+    recordScan: async () => {
+      events.push('recordScan')
+      return 'scan-1'
+    },
+    releaseScan: async (scanId: string) => {
+      events.push(`releaseScan:${scanId}`)
+    },
+    linkScanToAttendance: async () => {
+      events.push('linkScan')
+    }
+  } as unknown as IKioskTokenService
+
+  const attendancePhotoService = {
+    isPhotoRequired: async () => true,
+    savePhoto: async () => {
+      events.push('savePhoto')
+      return 'user-1/2026-10-19/check_in.jpg'
+    }
+  } as unknown as IAttendancePhotoService
+
+  return new CheckInWithLocationValidation(
+    attendanceRepository,
+    { validateCoordinateFormat: () => true } as unknown as ILocationValidationService,
+    createWorkScheduleService(new Date()),
+    undefined,
+    undefined,
+    undefined,
+    attendancePhotoService,
+    kioskTokenService
+  )
+}
+
+const kioskRequest = {
+  userId: 'user-1',
+  kioskToken: 'signed-token',
+  photo: { data: Buffer.from('photo'), contentType: 'image/jpeg' }
+}
+
+describe('CheckInWithLocationValidation kiosk and photo', () => {
+  it('stores the photo only after the attendance is saved', async () => {
+    const events: string[] = []
+
+    const result = await createKioskCheckIn(events, false).execute(kioskRequest)
+
+    assert.equal(result.success, true)
+    assert.deepEqual(events, ['recordScan', 'create', 'savePhoto', 'update:user-1/2026-10-19/check_in.jpg', 'linkScan'])
+  })
+
+  it('releases the kiosk token and stores no photo when the attendance fails to save', async () => {
+    const events: string[] = []
+
+    const result = await createKioskCheckIn(events, true).execute(kioskRequest)
+
+    assert.equal(result.success, false)
+    assert.deepEqual(events, ['recordScan', 'releaseScan:scan-1'])
+  })
+})
@@ -0,0 +1,99 @@
+// ============================================================================
+// CHECK OUT WITH LOCATION VALIDATION TESTS
+// tests/CheckOutWithLocationValidation.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AttendanceStatus, WorkMode } from '@prisma/client'
+import { CheckOutWithLocationValidation } from '@/use-cases/attendance/CheckOutWithLocationValidation'
+import {
+  IAttendanceRepository,
+  AttendanceEntity,
+  UpdateAttendanceData
+} from '@/domain/repositories/IAttendanceRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+
+const HOUR = 60 * 60 * 1000
+const attendanceDate = new Date('2026-10-19T00:00:00.000Z')
+
+// Checked in nine hours ago, 15 minutes late, without a check-out so far
+function createAttendance(overrides: Partial<AttendanceEntity>): AttendanceEntity {
+  return {
+    id: 'attendance-1',
+    userId: 'user-1',
+    attendanceDate,
+    checkInTime: new Date(Date.now() - 9 * HOUR),
+    status: AttendanceStatus.LATE,
+    workMode: WorkMode.OFFICE,
+    workingHoursMinutes: 0,
+    breakMinutes: 0,
+    lateMinutes: 15,
+    isValidLocation: true,
+    fraudScore: 0,
+    createdAt: attendanceDate,
+    updatedAt: attendanceDate,
+    ...overrides
+  }
+}
+
+function createCheckOut(attendance: AttendanceEntity, updates: UpdateAttendanceData[]): CheckOutWithLocationValidation {
+  const attendanceRepository = {
+    findByUserAndDate: async () => attendance,
+    calculateWorkingHours: (checkInTime: Date, checkOutTime: Date) =>
+      Math.floor((checkOutTime.getTime() - checkInTime.getTime()) / 60000),
+    update: async (id: string, data: UpdateAttendanceData) => {
+      updates.push(data)
+      return { ...attendance, ...data }
+    }
+  } as unknown as IAttendanceRepository
+
+  const workScheduleService = {
+    resolveAttendanceDate: async () => attendanceDate,
+    evaluateCheckIn: async () => ({ attendanceDate, status: AttendanceStatus.LATE, lateMinutes: 15 })
+  } as unknown as IWorkScheduleService
+
+  return new CheckOutWithLocationValidation(
+    attendanceRepository,
+    {} as ILocationValidationService,
+    workScheduleService
+  )
+}
+
+describe('CheckOutWithLocationValidation', () => {
+  it('reopens a day the HALF_DAY policy closed when the employee checks out', async () => {
+    const updates: UpdateAttendanceData[] = []
+    const attendance = createAttendance({
+      status: AttendanceStatus.HALF_DAY,
+      workingHoursMinutes: 240,
+      autoClosedAt: new Date(Date.now() - HOUR)
+    })
+
+    const result = await createCheckOut(attendance, updates).execute({ userId: 'user-1' })
+
+    assert.equal(result.success, true)
+    assert.equal(updates[0].autoClosedAt, null)
+    assert.equal(updates[0].status, AttendanceStatus.LATE)
+    assert.equal(updates[0].lateMinutes, 15)
+    assert.equal(updates[0].workingHoursMinutes, 540)
+  })
+
+  it('keeps the status of a day flagged for correction when the employee checks out', async () => {
+    const updates: UpdateAttendanceData[] = []
+    const attendance = createAttendance({ autoClosedAt: new Date(Date.now() - HOUR) })
+
+    await createCheckOut(attendance, updates).execute({ userId: 'user-1' })
+
+    assert.equal(updates[0].autoClosedAt, null)
+    assert.equal(updates[0].status, undefined)
+  })
+
+  it('leaves an open day without automatic close-out untouched', async () => {
+    const updates: UpdateAttendanceData[] = []
+
+    await createCheckOut(createAttendance({}), updates).execute({ userId: 'user-1' })
+
+    assert.equal('autoClosedAt' in updates[0], false)
+  })
+})
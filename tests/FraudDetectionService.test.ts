@@ -0,0 +1,51 @@
+// ============================================================================
+// FRAUD DETECTION SERVICE TESTS
+// tests/FraudDetectionService.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { PunchType } from '@prisma/client'
+import { FraudDetectionService } from '@/infrastructure/services/FraudDetectionService'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IAttendancePunchRepository } from '@/domain/repositories/IAttendancePunchRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { ILocationValidationService } from '@/domain/services/ILocationValidationService'
+
+const MINUTE = 60 * 1000
+
+// Coordinate lookups fail the test: a punch without a position must not reach them
+const unexpected = async () => {
+  throw new Error('Coordinate signal evaluated without coordinates')
+}
+
+const service = new FraudDetectionService(
+  {
+    existsAtCoordinatesOnOtherDate: unexpected,
+    findLatestWithCoordinatesByUser: unexpected,
+    findOtherUserIdsByDevice: async () => []
+  } as unknown as IAttendancePunchRepository,
+  {} as IAttendanceRepository,
+  { findById: unexpected } as unknown as IOfficeLocationRepository,
+  {} as ILocationValidationService
+)
+
+describe('FraudDetectionService.assess', () => {
+  it('scores the sync timing of an offline punch without coordinates', async () => {
+    const syncedAt = new Date('2026-10-19T03:00:00.000Z')
+
+    const assessment = await service.assess({
+      userId: 'user-1',
+      attendanceDate: new Date('2026-10-19T00:00:00.000Z'),
+      punchType: PunchType.IN,
+      punchTime: new Date(syncedAt.getTime() - 45 * MINUTE),
+      officeLocationId: 'office-1',
+      syncedAt,
+      lateMinutes: 0,
+      lateMinutesAtSync: 30
+    })
+
+    assert.deepEqual(assessment.signals.map(signal => signal.code), ['DELAYED_SYNC', 'BACKDATED_ON_TIME'])
+    assert.equal(assessment.requiresReview, true)
+  })
+})
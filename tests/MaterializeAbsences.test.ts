@@ -0,0 +1,65 @@
+// ============================================================================
+// MATERIALIZE ABSENCES TESTS
+// tests/MaterializeAbsences.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { MaterializeAbsences } from '@/use-cases/attendance/MaterializeAbsences'
+import { IAttendanceRepository } from '@/domain/repositories/IAttendanceRepository'
+import { IUserRepository } from '@/domain/repositories/IUserRepository'
+import { ILeaveRequestRepository } from '@/domain/repositories/ILeaveRequestRepository'
+import { IPermissionRequestRepository } from '@/domain/repositories/IPermissionRequestRepository'
+import { IWorkLetterRepository } from '@/domain/repositories/IWorkLetterRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { getCalendarDate } from '@/utils/dateUtils'
+
+const TIME_ZONE = 'Asia/Jakarta'
+
+// No active users, so only the date range is exercised
+function createMaterializeAbsences(): MaterializeAbsences {
+  return new MaterializeAbsences(
+    { findByDate: async () => [] } as unknown as IAttendanceRepository,
+    { findManyWithRelations: async () => [] } as unknown as IUserRepository,
+    { findActiveLeavesByDate: async () => [] } as unknown as ILeaveRequestRepository,
+    { findActivePermissionsByDate: async () => [] } as unknown as IPermissionRequestRepository,
+    {
+      findActiveWorkLettersByDate: async () => [],
+      findActiveFieldDutyLettersByDate: async () => []
+    } as unknown as IWorkLetterRepository,
+    { getTimeZone: async () => TIME_ZONE } as unknown as IWorkScheduleService
+  )
+}
+
+function institutionToday(): Date {
+  return getCalendarDate(new Date(), TIME_ZONE)
+}
+
+describe('MaterializeAbsences', () => {
+  it('defaults to the previous day in the institution time zone', async () => {
+    const yesterday = institutionToday()
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1)
+
+    const result = await createMaterializeAbsences().execute({ dryRun: true })
+
+    assert.equal(result.success, true)
+    assert.equal(result.data?.startDate, yesterday.toISOString())
+    assert.equal(result.data?.endDate, yesterday.toISOString())
+  })
+
+  it('rejects today because check-ins may still arrive', async () => {
+    const result = await createMaterializeAbsences().execute({ date: institutionToday(), dryRun: true })
+
+    assert.equal(result.success, false)
+    assert.equal(result.error, 'Hanya tanggal yang sudah berakhir yang dapat diproses')
+  })
+
+  it('rejects a range that ends today', async () => {
+    const lastWeek = institutionToday()
+    lastWeek.setUTCDate(lastWeek.getUTCDate() - 7)
+
+    const result = await createMaterializeAbsences().execute({ startDate: lastWeek, endDate: institutionToday() })
+
+    assert.equal(result.success, false)
+  })
+})
@@ -0,0 +1,109 @@
+// ============================================================================
+// REVIEW ATTENDANCE CORRECTION TESTS
+// tests/ReviewAttendanceCorrection.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AttendanceStatus, RequestStatus, WorkMode } from '@prisma/client'
+import { ReviewAttendanceCorrection } from '@/use-cases/attendance-correction/ReviewAttendanceCorrection'
+import {
+  IAttendanceCorrectionRepository,
+  AttendanceCorrectionWithDetails
+} from '@/domain/repositories/IAttendanceCorrectionRepository'
+import {
+  IAttendanceRepository,
+  AttendanceEntity,
+  UpdateAttendanceData
+} from '@/domain/repositories/IAttendanceRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+
+const attendanceDate = new Date('2026-10-14T00:00:00.000Z')
+
+// Checked in at 08:15 WIB without a check-out; the HALF_DAY policy closed the day
+const autoClosedAttendance: AttendanceEntity = {
+  id: 'attendance-1',
+  userId: 'user-1',
+  attendanceDate,
+  checkInTime: new Date('2026-10-14T01:15:00.000Z'),
+  status: AttendanceStatus.HALF_DAY,
+  workMode: WorkMode.OFFICE,
+  workingHoursMinutes: 240,
+  breakMinutes: 0,
+  lateMinutes: 15,
+  isValidLocation: true,
+  autoClosedAt: new Date('2026-10-15T00:00:00.000Z'),
+  fraudScore: 0,
+  createdAt: attendanceDate,
+  updatedAt: attendanceDate
+}
+
+function createCorrection(overrides: Partial<AttendanceCorrectionWithDetails>): AttendanceCorrectionWithDetails {
+  return {
+    id: 'correction-1',
+    userId: 'user-1',
+    attendanceId: autoClosedAttendance.id,
+    attendanceDate,
+    reason: 'Lupa absen pulang karena rapat di luar kantor',
+    status: RequestStatus.PENDING,
+    currentApproverId: 'approver-1',
+    approvals: [],
+    user: { id: 'user-1' },
+    ...overrides
+  } as AttendanceCorrectionWithDetails
+}
+
+function createReview(correction: AttendanceCorrectionWithDetails, updates: UpdateAttendanceData[]) {
+  const attendanceCorrectionRepository = {
+    findById: async () => correction,
+    approveStep: async () => ({ ...correction, status: RequestStatus.APPROVED })
+  } as unknown as IAttendanceCorrectionRepository
+
+  const attendanceRepository = {
+    findByUserAndDate: async () => autoClosedAttendance,
+    update: async (id: string, data: UpdateAttendanceData) => {
+      updates.push(data)
+      return { ...autoClosedAttendance, ...data }
+    }
+  } as unknown as IAttendanceRepository
+
+  const workScheduleService = {
+    evaluateCheckIn: async () => ({ status: AttendanceStatus.LATE, lateMinutes: 15 })
+  } as unknown as IWorkScheduleService
+
+  return new ReviewAttendanceCorrection(attendanceCorrectionRepository, attendanceRepository, workScheduleService)
+}
+
+describe('ReviewAttendanceCorrection', () => {
+  it('reopens an auto-closed day when the correction supplies the check-out', async () => {
+    const updates: UpdateAttendanceData[] = []
+    const correction = createCorrection({ requestedCheckOutTime: new Date('2026-10-14T09:00:00.000Z') })
+
+    const result = await createReview(correction, updates).execute({
+      correctionId: correction.id,
+      approverId: 'approver-1',
+      action: 'APPROVE'
+    })
+
+    assert.equal(result.success, true)
+    assert.equal(updates.length, 1)
+    assert.equal(updates[0].autoClosedAt, null)
+    assert.equal(updates[0].status, AttendanceStatus.LATE)
+    assert.equal(updates[0].lateMinutes, 15)
+    assert.equal(updates[0].workingHoursMinutes, 465)
+  })
+
+  it('keeps the automatic close when only the check-in is corrected', async () => {
+    const updates: UpdateAttendanceData[] = []
+    const correction = createCorrection({ requestedCheckInTime: new Date('2026-10-14T01:15:00.000Z') })
+
+    await createReview(correction, updates).execute({
+      correctionId: correction.id,
+      approverId: 'approver-1',
+      action: 'APPROVE'
+    })
+
+    assert.equal(updates.length, 1)
+    assert.equal('autoClosedAt' in updates[0], false)
+  })
+})
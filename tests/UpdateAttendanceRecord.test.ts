@@ -0,0 +1,96 @@
+// ============================================================================
+// UPDATE ATTENDANCE RECORD TESTS
+// tests/UpdateAttendanceRecord.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AttendanceStatus, WorkMode } from '@prisma/client'
+import { UpdateAttendanceRecord } from '@/use-cases/attendance/UpdateAttendanceRecord'
+import {
+  IAttendanceRepository,
+  AttendanceEntity,
+  UpdateAttendanceData
+} from '@/domain/repositories/IAttendanceRepository'
+import { IOfficeLocationRepository } from '@/domain/repositories/IOfficeLocationRepository'
+import { IWorkScheduleService } from '@/domain/services/IWorkScheduleService'
+import { AttendanceAuditService } from '@/infrastructure/services/AttendanceAuditService'
+
+const attendanceDate = new Date('2026-10-14T00:00:00.000Z')
+
+// Checked in at 08:15 WIB without a check-out; the HALF_DAY policy closed the day
+const autoClosedAttendance: AttendanceEntity = {
+  id: 'attendance-1',
+  userId: 'user-1',
+  attendanceDate,
+  checkInTime: new Date('2026-10-14T01:15:00.000Z'),
+  status: AttendanceStatus.HALF_DAY,
+  workMode: WorkMode.OFFICE,
+  workingHoursMinutes: 240,
+  breakMinutes: 0,
+  lateMinutes: 15,
+  isValidLocation: true,
+  autoClosedAt: new Date('2026-10-15T00:00:00.000Z'),
+  fraudScore: 0,
+  createdAt: attendanceDate,
+  updatedAt: attendanceDate
+}
+
+function createUpdateAttendanceRecord(updates: UpdateAttendanceData[]): UpdateAttendanceRecord {
+  const attendanceRepository = {
+    findById: async () => autoClosedAttendance,
+    update: async (id: string, data: UpdateAttendanceData) => {
+      updates.push(data)
+      return { ...autoClosedAttendance, ...data }
+    }
+  } as unknown as IAttendanceRepository
+
+  const workScheduleService = {
+    getTimeZone: async () => 'Asia/Jakarta',
+    evaluateCheckIn: async () => ({ status: AttendanceStatus.LATE, lateMinutes: 15 })
+  } as unknown as IWorkScheduleService
+
+  const auditService = {
+    logAdminUpdate: async () => undefined
+  } as unknown as AttendanceAuditService
+
+  return new UpdateAttendanceRecord(
+    attendanceRepository,
+    {} as IOfficeLocationRepository,
+    workScheduleService,
+    auditService
+  )
+}
+
+describe('UpdateAttendanceRecord', () => {
+  it('reopens an auto-closed day when the admin enters the check-out', async () => {
+    const updates: UpdateAttendanceData[] = []
+
+    const result = await createUpdateAttendanceRecord(updates).execute({
+      id: autoClosedAttendance.id,
+      checkOutTime: '16:00',
+      reason: 'Pegawai lupa absen pulang, dikonfirmasi atasan',
+      adminUserId: 'admin-1'
+    })
+
+    assert.equal(result.success, true)
+    assert.equal(updates[0].autoClosedAt, null)
+    assert.equal(updates[0].status, AttendanceStatus.LATE)
+    assert.equal(updates[0].lateMinutes, 15)
+    assert.equal(updates[0].workingHoursMinutes, 465)
+  })
+
+  it('keeps the automatic close when the check-out is left unchanged', async () => {
+    const updates: UpdateAttendanceData[] = []
+
+    await createUpdateAttendanceRecord(updates).execute({
+      id: autoClosedAttendance.id,
+      notes: 'Catatan tambahan',
+      reason: 'Menambahkan catatan dari atasan langsung',
+      adminUserId: 'admin-1'
+    })
+
+    assert.equal('autoClosedAt' in updates[0], false)
+    assert.equal(updates[0].status, AttendanceStatus.HALF_DAY)
+  })
+})
@@ -0,0 +1,46 @@
+// ============================================================================
+// USER WORK DAYS TESTS
+// tests/UserWorkDays.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { DayOfWeek, PrismaClient } from '@prisma/client'
+import { countWorkDaysByUser } from '@/infrastructure/database/repositories/UserWorkDays'
+
+// Monday 12 to Sunday 18 October 2026: five weekdays
+const startDate = new Date('2026-10-12T00:00:00.000Z')
+const endDate = new Date('2026-10-18T00:00:00.000Z')
+
+// A national holiday on Monday and a regional holiday of office-b on Wednesday
+const prisma = {
+  workSchedule: {
+    findMany: async () => [
+      { userId: 'user-a', dayOfWeek: DayOfWeek.WEDNESDAY, officeLocationId: 'office-a' },
+      { userId: 'user-b', dayOfWeek: DayOfWeek.WEDNESDAY, officeLocationId: 'office-b' },
+      { userId: 'user-c', dayOfWeek: DayOfWeek.THURSDAY, officeLocationId: 'office-b' }
+    ]
+  },
+  holiday: {
+    findMany: async () => [
+      { date: new Date('2026-10-12T00:00:00.000Z'), officeLocationId: null },
+      { date: new Date('2026-10-14T00:00:00.000Z'), officeLocationId: 'office-b' }
+    ]
+  }
+} as unknown as PrismaClient
+
+describe('countWorkDaysByUser', () => {
+  it('skips national holidays for everyone', async () => {
+    const workDays = await countWorkDaysByUser(prisma, ['user-a', 'user-d'], startDate, endDate)
+
+    assert.equal(workDays.get('user-a'), 4)
+    assert.equal(workDays.get('user-d'), 4)
+  })
+
+  it('skips a regional holiday for users working at that office that day', async () => {
+    const workDays = await countWorkDaysByUser(prisma, ['user-b', 'user-c'], startDate, endDate)
+
+    assert.equal(workDays.get('user-b'), 3)
+    assert.equal(workDays.get('user-c'), 4)
+  })
+})
@@ -0,0 +1,167 @@
+// ============================================================================
+// WORK SCHEDULE SERVICE TESTS
+// tests/WorkScheduleService.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { AttendanceStatus, DayOfWeek, HolidayType } from '@prisma/client'
+import { WorkScheduleService } from '@/infrastructure/services/WorkScheduleService'
+import { IWorkScheduleRepository, WorkScheduleEntity } from '@/domain/repositories/IWorkScheduleRepository'
+import { ISystemSettingRepository } from '@/domain/repositories/ISystemSettingRepository'
+import { IShiftRosterRepository } from '@/domain/repositories/IShiftRosterRepository'
+import { HolidayEntity, IHolidayRepository } from '@/domain/repositories/IHolidayRepository'
+import { IHolidayService } from '@/domain/services/IHolidayService'
+import { HolidayService } from '@/infrastructure/services/HolidayService'
+
+// Institution hours 08:00-16:00 WIB, Monday to Friday, no personal schedules
+const workScheduleRepository = {
+  findByUserId: async () => []
+} as unknown as IWorkScheduleRepository
+
+const systemSettingRepository = {
+  findByKey: async () => null,
+  findByKeys: async () => []
+} as unknown as ISystemSettingRepository
+
+function createHolidayService(holidayDate?: string): IHolidayService {
+  return {
+    findHoliday: async (date: Date) =>
+      date.toISOString().startsWith(holidayDate ?? '-')
+        ? { id: 'holiday-1', date, name: 'Maulid Nabi', type: HolidayType.NATIONAL, isActive: true, createdAt: date, updatedAt: date }
+        : null
+  } as unknown as IHolidayService
+}
+
+describe('WorkScheduleService.evaluateCheckIn', () => {
+  it('marks a check-in after the tolerance on a working day as late', async () => {
+    const service = new WorkScheduleService(workScheduleRepository, systemSettingRepository, createHolidayService())
+
+    // Monday 09:30 WIB
+    const result = await service.evaluateCheckIn('user-1', new Date('2026-10-19T02:30:00.000Z'))
+
+    assert.equal(result.status, AttendanceStatus.LATE)
+    assert.equal(result.lateMinutes, 90)
+  })
+
+  it('never marks a check-in on a rest day as late', async () => {
+    const service = new WorkScheduleService(workScheduleRepository, systemSettingRepository, createHolidayService())
+
+    // Saturday 10:00 WIB
+    const result = await service.evaluateCheckIn('user-1', new Date('2026-10-17T03:00:00.000Z'))
+
+    assert.equal(result.schedule.isWorkingDay, false)
+    assert.equal(result.status, AttendanceStatus.PRESENT)
+    assert.equal(result.lateMinutes, 0)
+  })
+
+  it('never marks a check-in on a holiday as late', async () => {
+    const service = new WorkScheduleService(
+      workScheduleRepository,
+      systemSettingRepository,
+      createHolidayService('2026-10-19')
+    )
+
+    // Monday 11:00 WIB, declared a holiday
+    const result = await service.evaluateCheckIn('user-1', new Date('2026-10-19T04:00:00.000Z'))
+
+    assert.equal(result.schedule.holiday?.name, 'Maulid Nabi')
+    assert.equal(result.status, AttendanceStatus.PRESENT)
+    assert.equal(result.lateMinutes, 0)
+  })
+})
+
+describe('WorkScheduleService.resolveSchedules', () => {
+  const created = new Date('2026-01-01T00:00:00.000Z')
+  const weekday = (userId: string, dayOfWeek: DayOfWeek, officeLocationId: string) =>
+    ({ id: `${userId}-${dayOfWeek}`, userId, dayOfWeek, officeLocationId, startTime: '07:30', endTime: '16:00', isActive: true, createdAt: created, updatedAt: created }) as WorkScheduleEntity
+
+  // user-1 works Monday to Wednesday at office-b, user-2 follows the institution hours
+  const schedules = [
+    weekday('user-1', DayOfWeek.MONDAY, 'office-b'),
+    weekday('user-1', DayOfWeek.TUESDAY, 'office-b'),
+    weekday('user-1', DayOfWeek.WEDNESDAY, 'office-b')
+  ]
+  const holidays: HolidayEntity[] = [
+    { id: 'national', date: new Date('2026-10-20T00:00:00.000Z'), name: 'Cuti Bersama', type: HolidayType.COLLECTIVE_LEAVE, isActive: true, createdAt: created, updatedAt: created },
+    { id: 'regional', date: new Date('2026-10-21T00:00:00.000Z'), name: 'Hari Jadi Kota', type: HolidayType.REGIONAL, officeLocationId: 'office-b', isActive: true, createdAt: created, updatedAt: created }
+  ]
+  const roster = {
+    id: 'roster-1',
+    userId: 'user-2',
+    shiftId: 'shift-1',
+    date: new Date('2026-10-20T00:00:00.000Z'),
+    shift: { id: 'shift-1', name: 'Piket', code: 'PKT', startTime: '09:00', endTime: '17:00', isOvernight: false, lateToleranceMinutes: 5 },
+    createdAt: created,
+    updatedAt: created
+  }
+
+  function createService(queries: string[]): WorkScheduleService {
+    const holidayRepository = {
+      findApplicable: async (startDate: Date, endDate: Date, officeLocationId?: string) => {
+        queries.push('holidays')
+        return holidays.filter(holiday =>
+          holiday.date >= startDate && holiday.date <= endDate &&
+          (!holiday.officeLocationId || holiday.officeLocationId === officeLocationId)
+        )
+      }
+    } as unknown as IHolidayRepository
+
+    const repository = {
+      findByUserId: async (userId: string) => {
+        queries.push('schedules')
+        return schedules.filter(schedule => schedule.userId === userId)
+      },
+      findByUserIds: async (userIds: string[]) => {
+        queries.push('schedules')
+        return schedules.filter(schedule => userIds.includes(schedule.userId))
+      }
+    } as unknown as IWorkScheduleRepository
+
+    const shiftRosterRepository = {
+      findByUserAndDate: async (userId: string, date: Date) => {
+        queries.push('roster')
+        return userId === roster.userId && date.getTime() === roster.date.getTime() ? roster : null
+      },
+      findMany: async () => {
+        queries.push('roster')
+        return [{ ...roster, user: { id: roster.userId } }]
+      }
+    } as unknown as IShiftRosterRepository
+
+    return new WorkScheduleService(repository, systemSettingRepository, new HolidayService(holidayRepository), shiftRosterRepository)
+  }
+
+  it('resolves each day the same way as resolveSchedule', async () => {
+    const service = createService([])
+    const startDate = new Date('2026-10-19T00:00:00.000Z')
+    const endDate = new Date('2026-10-25T00:00:00.000Z')
+
+    const batch = await service.resolveSchedules(['user-1', 'user-2'], startDate, endDate)
+
+    for (const userId of ['user-1', 'user-2']) {
+      for (let day = 19; day <= 25; day++) {
+        const date = new Date(Date.UTC(2026, 9, day))
+        assert.deepEqual(batch.get(userId)?.get(date.toISOString().slice(0, 10)), await service.resolveSchedule(userId, date))
+      }
+    }
+
+    // The regional holiday only applies at office-b; the rostered shift is worked on the cuti bersama
+    assert.equal(batch.get('user-1')?.get('2026-10-21')?.holiday?.name, 'Hari Jadi Kota')
+    assert.equal(batch.get('user-2')?.get('2026-10-21')?.isWorkingDay, true)
+    assert.equal(batch.get('user-2')?.get('2026-10-20')?.source, 'SHIFT_ROSTER')
+  })
+
+  it('loads schedules, rosters and holidays once for the whole range', async () => {
+    const queries: string[] = []
+
+    await createService(queries).resolveSchedules(
+      ['user-1', 'user-2'],
+      new Date('2026-10-01T00:00:00.000Z'),
+      new Date('2026-10-31T00:00:00.000Z')
+    )
+
+    // National holidays, then the regional holidays of office-b
+    assert.deepEqual(queries.sort(), ['holidays', 'holidays', 'roster', 'schedules'])
+  })
+})
@@ -0,0 +1,62 @@
+// ============================================================================
+// ATTENDANCE PUNCH UTILITIES TESTS
+// tests/attendancePunches.test.ts
+// ============================================================================
+
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { summarizePunches, withImplicitPunches } from '@/utils/attendancePunches'
+
+const at = (time: string) => new Date(`2026-10-19T${time}:00.000Z`)
+
+describe('withImplicitPunches', () => {
+  it('uses the check-in and check-out when the day has no punches', () => {
+    const punches = withImplicitPunches([], at('01:00'), at('09:00'))
+
+    assert.deepEqual(punches.map(punch => punch.punchType), ['IN', 'OUT'])
+    assert.equal(summarizePunches(punches).workingMinutes, 480)
+  })
+
+  it('keeps the time before the first punch of a legacy check-in', () => {
+    const punches = withImplicitPunches(
+      [
+        { punchType: 'BREAK_START', punchTime: at('05:00') },
+        { punchType: 'BREAK_END', punchTime: at('06:00') },
+        { punchType: 'OUT', punchTime: at('09:00') }
+      ],
+      at('01:00'),
+      at('09:00')
+    )
+
+    assert.deepEqual(punches.map(punch => punch.punchType), ['IN', 'BREAK_START', 'BREAK_END', 'OUT'])
+
+    const summary = summarizePunches(punches)
+    assert.equal(summary.state, 'OUT')
+    assert.equal(summary.workingMinutes, 420)
+    assert.equal(summary.breakMinutes, 60)
+  })
+
+  it('adds the check-out when no OUT punch covers it', () => {
+    const punches = withImplicitPunches(
+      [
+        { punchType: 'IN', punchTime: at('01:00') },
+        { punchType: 'BREAK_START', punchTime: at('05:00') },
+        { punchType: 'BREAK_END', punchTime: at('06:00') }
+      ],
+      at('01:00'),
+      at('09:00')
+    )
+
+    assert.deepEqual(punches.map(punch => punch.punchType), ['IN', 'BREAK_START', 'BREAK_END', 'OUT'])
+    assert.equal(summarizePunches(punches).workingMinutes, 420)
+  })
+
+  it('leaves a fully punched day unchanged', () => {
+    const recorded = [
+      { punchType: 'IN' as const, punchTime: at('01:00') },
+      { punchType: 'OUT' as const, punchTime: at('09:00') }
+    ]
+
+    assert.equal(withImplicitPunches(recorded, at('01:00'), at('09:00')), recorded)
+  })
+})